@@ -1,4 +1,5 @@
 import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { MongooseModule } from '@nestjs/mongoose';
 import { ConfigModule, ConfigService } from '@nestjs/config';
@@ -11,6 +12,8 @@ import { AppController } from '@backend/app/app.controller';
 import { AuthModule } from '@backend/auth/auth.module';
 import { UsersModule } from '@backend/users/users.module';
 import { MessagesModule } from '@backend/messages/messages.module';
+import { RateLimitModule } from '@backend/app/rate-limit/rate-limit.module';
+import { RateLimitGuard } from '@backend/app/rate-limit/guards/rate-limit.guard';
 
 @Module({
   imports: [
@@ -61,11 +64,18 @@ import { MessagesModule } from '@backend/messages/messages.module';
       },
       inject: [ConfigService],
     }),
+    RateLimitModule,
     AuthModule,
     UsersModule,
     MessagesModule,
   ],
   controllers: [AppController],
-  providers: [AppService],
+  providers: [
+    AppService,
+    {
+      provide: APP_GUARD,
+      useExisting: RateLimitGuard,
+    },
+  ],
 })
 export class AppModule {}
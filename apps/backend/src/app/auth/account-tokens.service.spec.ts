@@ -0,0 +1,205 @@
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { UserEntity } from '@backend/users/user.entity';
+import { UsersService } from '@backend/users/users.service';
+import { AccountTokensService } from '@backend/auth/account-tokens.service';
+
+describe('AccountTokensService', () => {
+  let service: AccountTokensService;
+  let jwtService: JwtService;
+
+  const mockUser: UserEntity = {
+    id: 'test-id',
+    email: 'test@example.com',
+    firstName: 'John',
+    lastName: 'Doe',
+    displayName: null,
+    avatarUrl: null,
+    bio: null,
+    timezone: null,
+    locale: null,
+    password: 'hashedPassword',
+    isActive: true,
+    isAdmin: false,
+    emailVerifiedAt: null,
+    mfaSecret: null,
+    mfaEnabledAt: null,
+    mfaRecoveryCodes: [],
+    oidcSubject: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    validatePassword: jest.fn(),
+    fullName: 'John Doe',
+    publicName: 'John Doe',
+  };
+
+  const mockUsersService = {
+    findOne: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockUsersService.findOne.mockResolvedValue(mockUser);
+    mockConfigService.get.mockImplementation(
+      (_key: string, defaultValue?: unknown) => defaultValue
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountTokensService,
+        JwtService,
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+        {
+          provide: UsersService,
+          useValue: mockUsersService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AccountTokensService>(AccountTokensService);
+    jwtService = module.get<JwtService>(JwtService);
+  });
+
+  it('should return the user a token was signed for', async () => {
+    const token = service.sign(mockUser, 'verify-email');
+
+    await expect(service.verify(token, 'verify-email')).resolves.toBe(mockUser);
+    expect(mockUsersService.findOne).toHaveBeenCalledWith('test-id');
+  });
+
+  it('should reject a token signed for another purpose', async () => {
+    const token = service.sign(mockUser, 'verify-email');
+
+    await expect(service.verify(token, 'reset-password')).rejects.toThrow(
+      BadRequestException
+    );
+  });
+
+  it('should reject an access token signed with the JWT secret', async () => {
+    const token = jwtService.sign(
+      { sub: 'test-id' },
+      { secret: 'your-secret-key', audience: 'reset-password' }
+    );
+
+    await expect(service.verify(token, 'reset-password')).rejects.toThrow(
+      'Invalid or expired token'
+    );
+  });
+
+  it('should reject an expired token', async () => {
+    mockConfigService.get.mockImplementation(
+      (key: string, defaultValue?: unknown) =>
+        key === 'EMAIL_VERIFICATION_TOKEN_EXPIRATION' ? '-1s' : defaultValue
+    );
+    const token = service.sign(mockUser, 'verify-email');
+
+    await expect(service.verify(token, 'verify-email')).rejects.toThrow(
+      BadRequestException
+    );
+  });
+
+  it('should reject a reset token once the password has changed', async () => {
+    const token = service.sign(mockUser, 'reset-password');
+    mockUsersService.findOne.mockResolvedValue({
+      ...mockUser,
+      password: 'newHashedPassword',
+    });
+
+    await expect(service.verify(token, 'reset-password')).rejects.toThrow(
+      BadRequestException
+    );
+  });
+
+  it('should reject a verification token once the email has changed', async () => {
+    const token = service.sign(mockUser, 'verify-email');
+    mockUsersService.findOne.mockResolvedValue({
+      ...mockUser,
+      email: 'other@example.com',
+    });
+
+    await expect(service.verify(token, 'verify-email')).rejects.toThrow(
+      BadRequestException
+    );
+  });
+
+  it('should return the new address of an email change token', async () => {
+    const token = service.signEmailChange(mockUser, 'new@example.com');
+
+    await expect(service.verifyEmailChange(token)).resolves.toEqual({
+      user: mockUser,
+      email: 'new@example.com',
+    });
+  });
+
+  it('should reject an email change token once the address has changed', async () => {
+    const token = service.signEmailChange(mockUser, 'new@example.com');
+    mockUsersService.findOne.mockResolvedValue({
+      ...mockUser,
+      email: 'new@example.com',
+    });
+
+    await expect(service.verifyEmailChange(token)).rejects.toThrow(
+      BadRequestException
+    );
+  });
+
+  it('should reject a verification token as an email change token', async () => {
+    const token = service.sign(mockUser, 'verify-email');
+
+    await expect(service.verifyEmailChange(token)).rejects.toThrow(
+      BadRequestException
+    );
+  });
+
+  it('should reject a token of a deleted or inactive user', async () => {
+    const token = service.sign(mockUser, 'reset-password');
+
+    mockUsersService.findOne.mockRejectedValueOnce(new Error('Not found'));
+    await expect(service.verify(token, 'reset-password')).rejects.toThrow(
+      BadRequestException
+    );
+
+    mockUsersService.findOne.mockResolvedValueOnce({
+      ...mockUser,
+      isActive: false,
+    });
+    await expect(service.verify(token, 'reset-password')).rejects.toThrow(
+      BadRequestException
+    );
+  });
+
+  it('should reject an MFA token once the secret has changed', async () => {
+    const mfaUser = {
+      ...mockUser,
+      mfaSecret: 'JBSWY3DPEHPK3PXP',
+    } as UserEntity;
+    const token = service.sign(mfaUser, 'mfa');
+
+    mockUsersService.findOne.mockResolvedValueOnce(mfaUser);
+    await expect(service.verify(token, 'mfa')).resolves.toBe(mfaUser);
+
+    mockUsersService.findOne.mockResolvedValueOnce({
+      ...mfaUser,
+      mfaSecret: null,
+    });
+    await expect(service.verify(token, 'mfa')).rejects.toThrow(
+      UnauthorizedException
+    );
+  });
+
+  it('should reject a malformed token', async () => {
+    await expect(service.verify('not-a-token', 'verify-email')).rejects.toThrow(
+      BadRequestException
+    );
+  });
+});
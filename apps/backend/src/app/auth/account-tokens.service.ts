@@ -0,0 +1,219 @@
+import { createHash } from 'crypto';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import {
+  Injectable,
+  BadRequestException,
+  UnauthorizedException,
+} from '@nestjs/common';
+
+import { UserEntity } from '@backend/users/user.entity';
+import { UsersService } from '@backend/users/users.service';
+import { AUTH_CONSTANTS } from '@backend/auth/constants/auth.constants';
+
+export type AccountTokenPurpose =
+  | 'verify-email'
+  | 'change-email'
+  | 'reset-password'
+  | 'mfa';
+
+interface AccountTokenPayload {
+  sub: string;
+  fingerprint: string;
+  email?: string;
+}
+
+/**
+ * Signs and verifies the tokens sent by email to verify an address,
+ * confirm a new address or reset a password, and the short-lived tokens
+ * of a login waiting for its second factor
+ *
+ * The purpose is the audience of the token, so a token cannot be used
+ * for another purpose nor as an access token. Each token carries a
+ * fingerprint of what it acts on (the email address, the password hash,
+ * the TOTP secret): it becomes invalid once that changes, which makes
+ * reset tokens single-use.
+ */
+@Injectable()
+export class AccountTokensService {
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    private readonly usersService: UsersService
+  ) {}
+
+  /**
+   * Signs a token for a user
+   *
+   * @param {UserEntity} user - The user the token is sent to
+   * @param {AccountTokenPurpose} purpose - What the token allows
+   * @returns {string} The signed token
+   */
+  sign(user: UserEntity, purpose: AccountTokenPurpose): string {
+    const payload: AccountTokenPayload = {
+      sub: user.id,
+      fingerprint: this.fingerprint(user, purpose),
+    };
+
+    return this.jwtService.sign(payload, {
+      secret: this.secret(),
+      audience: purpose,
+      expiresIn: this.expiration(purpose),
+    });
+  }
+
+  /**
+   * Signs a token confirming the new email address of a user, sent to
+   * that address. It becomes invalid once the address of the user changes.
+   *
+   * @param {UserEntity} user - The user changing their address
+   * @param {string} email - The new address
+   * @returns {string} The signed token
+   */
+  signEmailChange(user: UserEntity, email: string): string {
+    const payload: AccountTokenPayload = {
+      sub: user.id,
+      fingerprint: this.fingerprint(user, 'change-email'),
+      email,
+    };
+
+    return this.jwtService.sign(payload, {
+      secret: this.secret(),
+      audience: 'change-email',
+      expiresIn: this.expiration('change-email'),
+    });
+  }
+
+  /**
+   * Verifies a token and returns the user it was issued to
+   *
+   * @param {string} token - The token received by email
+   * @param {AccountTokenPurpose} purpose - What the token must allow
+   * @returns {Promise<UserEntity>} The user the token was issued to
+   * @throws {BadRequestException} When the token is malformed, expired, issued for another purpose or already used
+   * @throws {UnauthorizedException} Instead of BadRequestException for a second factor token, the login having to start over
+   */
+  async verify(
+    token: string,
+    purpose: AccountTokenPurpose
+  ): Promise<UserEntity> {
+    const { user } = await this.decode(token, purpose);
+    return user;
+  }
+
+  /**
+   * Verifies an email change token
+   *
+   * @param {string} token - The token received at the new address
+   * @returns {Promise<{ user: UserEntity, email: string }>} The user and their new address
+   * @throws {BadRequestException} When the token is malformed, expired or already used
+   */
+  async verifyEmailChange(
+    token: string
+  ): Promise<{ user: UserEntity; email: string }> {
+    const { user, payload } = await this.decode(token, 'change-email');
+
+    if (!payload.email) {
+      throw this.invalidToken('change-email');
+    }
+
+    return { user, email: payload.email };
+  }
+
+  /**
+   * Verifies the signature, audience and fingerprint of a token
+   *
+   * @private
+   * @param {string} token - The token to verify
+   * @param {AccountTokenPurpose} purpose - What the token must allow
+   * @returns {Promise<{ user: UserEntity, payload: AccountTokenPayload }>} The user and the claims of the token
+   * @throws {BadRequestException} When the token is invalid
+   * @throws {UnauthorizedException} Instead of BadRequestException for a second factor token
+   */
+  private async decode(
+    token: string,
+    purpose: AccountTokenPurpose
+  ): Promise<{ user: UserEntity; payload: AccountTokenPayload }> {
+    let payload: AccountTokenPayload;
+
+    try {
+      payload = this.jwtService.verify<AccountTokenPayload>(token, {
+        secret: this.secret(),
+        audience: purpose,
+      });
+    } catch {
+      throw this.invalidToken(purpose);
+    }
+
+    const user = await this.usersService.findOne(payload.sub).catch(() => null);
+
+    if (
+      !user ||
+      !user.isActive ||
+      payload.fingerprint !== this.fingerprint(user, purpose)
+    ) {
+      throw this.invalidToken(purpose);
+    }
+
+    return { user, payload };
+  }
+
+  /**
+   * Hashes the user data a token acts on
+   *
+   * @private
+   * @param {UserEntity} user - The user
+   * @param {AccountTokenPurpose} purpose - What the token allows
+   * @returns {string} A short hash, not revealing the data
+   */
+  private fingerprint(user: UserEntity, purpose: AccountTokenPurpose): string {
+    const data = {
+      'verify-email': user.email,
+      'change-email': user.email,
+      'reset-password': user.password,
+      mfa: user.mfaSecret ?? '',
+    }[purpose];
+    return createHash('sha256').update(data).digest('hex').slice(0, 16);
+  }
+
+  private invalidToken(purpose: AccountTokenPurpose): Error {
+    return purpose === 'mfa'
+      ? new UnauthorizedException('Invalid or expired MFA token')
+      : new BadRequestException('Invalid or expired token');
+  }
+
+  // Derived from the JWT secret by default, so that access tokens and
+  // account tokens can never be verified with each other's key
+  private secret(): string {
+    return (
+      this.configService.get<string>('ACCOUNT_TOKEN_SECRET') ??
+      `${this.configService.get<string>(
+        'JWT_SECRET',
+        'your-secret-key'
+      )}:account`
+    );
+  }
+
+  private expiration(purpose: AccountTokenPurpose): string {
+    const [key, fallback] = {
+      'verify-email': [
+        'EMAIL_VERIFICATION_TOKEN_EXPIRATION',
+        AUTH_CONSTANTS.EMAIL_VERIFICATION_TOKEN_EXPIRATION,
+      ],
+      'change-email': [
+        'EMAIL_CHANGE_TOKEN_EXPIRATION',
+        AUTH_CONSTANTS.EMAIL_CHANGE_TOKEN_EXPIRATION,
+      ],
+      'reset-password': [
+        'PASSWORD_RESET_TOKEN_EXPIRATION',
+        AUTH_CONSTANTS.PASSWORD_RESET_TOKEN_EXPIRATION,
+      ],
+      mfa: [
+        'MFA_PENDING_TOKEN_EXPIRATION',
+        AUTH_CONSTANTS.MFA_PENDING_TOKEN_EXPIRATION,
+      ],
+    }[purpose];
+
+    return this.configService.get<string>(key, fallback);
+  }
+}
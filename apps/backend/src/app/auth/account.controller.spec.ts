@@ -0,0 +1,112 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+
+import { AuthService } from '@backend/auth/auth.service';
+import { AccountController } from '@backend/auth/account.controller';
+import { MessagesGateway } from '@backend/messages/messages.gateway';
+
+describe('AccountController', () => {
+  let controller: AccountController;
+  let authService: jest.Mocked<AuthService>;
+  let messagesGateway: jest.Mocked<MessagesGateway>;
+
+  const mockAuthService = {
+    changePassword: jest.fn(),
+    requestEmailChange: jest.fn(),
+    deleteAccount: jest.fn(),
+  };
+
+  const mockMessagesGateway = {
+    disconnectUser: jest.fn(),
+    disconnectSession: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AccountController],
+      providers: [
+        {
+          provide: AuthService,
+          useValue: mockAuthService,
+        },
+        {
+          provide: MessagesGateway,
+          useValue: mockMessagesGateway,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<AccountController>(AccountController);
+    authService = module.get(AuthService);
+    messagesGateway = module.get(MessagesGateway);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('changePassword', () => {
+    it('should change the password and disconnect the other sessions', async () => {
+      authService.changePassword.mockResolvedValue(['session-1', 'session-2']);
+
+      await controller.changePassword('test-id', 'access-token', {
+        currentPassword: 'OldPassword123!',
+        newPassword: 'NewPassword123!',
+      });
+
+      expect(authService.changePassword).toHaveBeenCalledWith(
+        'test-id',
+        'OldPassword123!',
+        'NewPassword123!',
+        'access-token'
+      );
+      expect(messagesGateway.disconnectSession).toHaveBeenCalledWith(
+        'session-1'
+      );
+      expect(messagesGateway.disconnectSession).toHaveBeenCalledWith(
+        'session-2'
+      );
+      expect(messagesGateway.disconnectUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changeEmail', () => {
+    it('should request a confirmation of the new address', async () => {
+      await controller.changeEmail('test-id', {
+        email: 'new@example.com',
+        password: 'Password123!',
+      });
+
+      expect(authService.requestEmailChange).toHaveBeenCalledWith(
+        'test-id',
+        'new@example.com',
+        'Password123!'
+      );
+    });
+  });
+
+  describe('deleteAccount', () => {
+    it('should delete the account and disconnect the user sockets', async () => {
+      await controller.deleteAccount('test-id', { password: 'Password123!' });
+
+      expect(authService.deleteAccount).toHaveBeenCalledWith(
+        'test-id',
+        'Password123!'
+      );
+      expect(messagesGateway.disconnectUser).toHaveBeenCalledWith('test-id');
+    });
+
+    it('should keep the sockets open when the password is incorrect', async () => {
+      authService.deleteAccount.mockRejectedValue(
+        new BadRequestException('Incorrect password')
+      );
+
+      await expect(
+        controller.deleteAccount('test-id', { password: 'wrong' })
+      ).rejects.toThrow(BadRequestException);
+      expect(messagesGateway.disconnectUser).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Patch,
+  Delete,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBody,
+  ApiResponse,
+  ApiOperation,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { AuthService } from '@backend/auth/auth.service';
+import { MessagesGateway } from '@backend/messages/messages.gateway';
+
+import { AccessToken } from '@backend/auth/decorators/access-token.decorator';
+import { CurrentUser } from '@backend/auth/decorators/current-user.decorator';
+import { AUTH_CONSTANTS } from '@backend/auth/constants/auth.constants';
+import { RateLimit } from '@backend/app/rate-limit/decorators/rate-limit.decorator';
+
+import {
+  ChangeEmailDto,
+  DeleteAccountDto,
+  ChangePasswordDto,
+} from '@backend/auth/dto/account.dto';
+
+/**
+ * Self-service routes of the current user's account
+ *
+ * They live in the auth module as each one checks the current password
+ * and ends sessions. Since this module is registered before the users
+ * module, `DELETE /users/me` is matched before the admin `DELETE /users/:id`.
+ */
+@ApiTags('User Management')
+@ApiBearerAuth('JWT-auth')
+@RateLimit(AUTH_CONSTANTS.PASSWORD_CHECK_RATE_LIMIT)
+@Controller('users/me')
+export class AccountController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly messagesGateway: MessagesGateway
+  ) {}
+
+  @Patch('password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Change the password of the current user' })
+  @ApiBody({ type: ChangePasswordDto })
+  @ApiResponse({
+    status: 204,
+    description: 'Password changed, other sessions ended',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Incorrect current password or invalid new password',
+  })
+  /**
+   * Changes the password of the current user, then closes the WebSocket
+   * connections of their other sessions
+   *
+   * @param {string} userId - The ID of the current user
+   * @param {string | undefined} accessToken - The access token of the request
+   * @param {ChangePasswordDto} changePasswordDto - The current and new passwords
+   * @returns {Promise<void>}
+   */
+  async changePassword(
+    @CurrentUser('id') userId: string,
+    @AccessToken() accessToken: string | undefined,
+    @Body() changePasswordDto: ChangePasswordDto
+  ): Promise<void> {
+    const endedSessionIds = await this.authService.changePassword(
+      userId,
+      changePasswordDto.currentPassword,
+      changePasswordDto.newPassword,
+      accessToken
+    );
+
+    for (const sessionId of endedSessionIds) {
+      this.messagesGateway.disconnectSession(sessionId);
+    }
+  }
+
+  @Post('email')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Request an email address change' })
+  @ApiBody({ type: ChangeEmailDto })
+  @ApiResponse({
+    status: 204,
+    description: 'Confirmation link sent to the new address',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Incorrect password or unchanged address',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Email already in use',
+  })
+  /**
+   * Sends a confirmation link to the new email address of the current
+   * user; the address only changes once the link is followed
+   *
+   * @param {string} userId - The ID of the current user
+   * @param {ChangeEmailDto} changeEmailDto - The new address and the current password
+   * @returns {Promise<void>}
+   */
+  async changeEmail(
+    @CurrentUser('id') userId: string,
+    @Body() changeEmailDto: ChangeEmailDto
+  ): Promise<void> {
+    await this.authService.requestEmailChange(
+      userId,
+      changeEmailDto.email,
+      changeEmailDto.password
+    );
+  }
+
+  @Delete()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete the account of the current user' })
+  @ApiBody({ type: DeleteAccountDto })
+  @ApiResponse({
+    status: 204,
+    description: 'Account deleted, messages anonymized',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Incorrect password',
+  })
+  /**
+   * Deletes the account of the current user along with their rooms
+   * memberships and messages, then closes their WebSocket connections
+   *
+   * @param {string} userId - The ID of the current user
+   * @param {DeleteAccountDto} deleteAccountDto - The current password
+   * @returns {Promise<void>}
+   */
+  async deleteAccount(
+    @CurrentUser('id') userId: string,
+    @Body() deleteAccountDto: DeleteAccountDto
+  ): Promise<void> {
+    await this.authService.deleteAccount(userId, deleteAccountDto.password);
+    this.messagesGateway.disconnectUser(userId);
+  }
+}
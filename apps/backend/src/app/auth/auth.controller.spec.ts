@@ -5,43 +5,87 @@ import {
   UserResponseDto,
 } from '@backend/auth/dto/authentication.dto';
 import { AuthService } from '@backend/auth/auth.service';
+import { MfaService } from '@backend/auth/mfa.service';
+import { OidcService } from '@backend/auth/oidc.service';
 import { UserEntity } from '@backend/users/user.entity';
 import { RegisterDto } from '@backend/auth/dto/register.dto';
 import { AuthController } from '@backend/auth/auth.controller';
+import { MessagesGateway } from '@backend/messages/messages.gateway';
 
 import type { RequestWithUser } from '@backend/auth/interfaces/request-with-user.interface';
 
 describe('AuthController', () => {
   let controller: AuthController;
   let authService: jest.Mocked<AuthService>;
+  let mfaService: jest.Mocked<MfaService>;
+  let oidcService: jest.Mocked<OidcService>;
+  let messagesGateway: jest.Mocked<MessagesGateway>;
 
   const mockUser: UserEntity = {
     id: 'test-id',
     email: 'test@example.com',
     firstName: 'John',
     lastName: 'Doe',
+    displayName: null,
+    avatarUrl: null,
+    bio: null,
+    timezone: null,
+    locale: null,
     password: 'hashedPassword',
     isActive: true,
     isAdmin: false,
+    emailVerifiedAt: new Date(),
+    mfaSecret: null,
+    mfaEnabledAt: null,
+    mfaRecoveryCodes: [],
+    oidcSubject: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     validatePassword: jest.fn(),
     fullName: 'John Doe',
+    publicName: 'John Doe',
   };
 
   const mockAuthResponse: AuthResponseDto = {
     accessToken: 'mock-jwt-token',
     tokenType: 'Bearer',
     expiresIn: 3600,
+    refreshToken: 'mock-refresh-token',
+    refreshExpiresIn: 2592000,
     user: new UserResponseDto(mockUser),
   };
 
+  const client = { ipAddress: '127.0.0.1', userAgent: 'Mozilla/5.0' };
+
   const mockAuthService = {
     register: jest.fn(),
     login: jest.fn(),
     validateUser: jest.fn(),
     refreshToken: jest.fn(),
     logout: jest.fn(),
+    getSessions: jest.fn(),
+    revokeSession: jest.fn(),
+    verifyEmail: jest.fn(),
+    confirmEmailChange: jest.fn(),
+    forgotPassword: jest.fn(),
+    resetPassword: jest.fn(),
+    verifyMfa: jest.fn(),
+  };
+
+  const mockMfaService = {
+    enroll: jest.fn(),
+    confirm: jest.fn(),
+    disable: jest.fn(),
+  };
+
+  const mockOidcService = {
+    getConfiguration: jest.fn(),
+    authorize: jest.fn(),
+  };
+
+  const mockMessagesGateway = {
+    disconnectUser: jest.fn(),
+    disconnectSession: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -54,11 +98,26 @@ describe('AuthController', () => {
           provide: AuthService,
           useValue: mockAuthService,
         },
+        {
+          provide: MfaService,
+          useValue: mockMfaService,
+        },
+        {
+          provide: OidcService,
+          useValue: mockOidcService,
+        },
+        {
+          provide: MessagesGateway,
+          useValue: mockMessagesGateway,
+        },
       ],
     }).compile();
 
     controller = module.get<AuthController>(AuthController);
     authService = module.get(AuthService);
+    mfaService = module.get(MfaService);
+    oidcService = module.get(OidcService);
+    messagesGateway = module.get(MessagesGateway);
   });
 
   it('should be defined', () => {
@@ -74,12 +133,16 @@ describe('AuthController', () => {
         password: 'password123',
       };
 
-      authService.register.mockResolvedValue(mockAuthResponse);
+      const registerResponse = {
+        message: 'Account created, check your email to verify your address',
+        email: 'new@example.com',
+      };
+      authService.register.mockResolvedValue(registerResponse);
 
       const result = await controller.register(registerDto);
 
       expect(authService.register).toHaveBeenCalledWith(registerDto);
-      expect(result).toEqual(mockAuthResponse);
+      expect(result).toEqual(registerResponse);
     });
   });
 
@@ -91,9 +154,9 @@ describe('AuthController', () => {
 
       authService.login.mockResolvedValue(mockAuthResponse);
 
-      const result = await controller.login(req);
+      const result = await controller.login(req, client);
 
-      expect(authService.login).toHaveBeenCalledWith(mockUser);
+      expect(authService.login).toHaveBeenCalledWith(mockUser, client);
       expect(result).toEqual(mockAuthResponse);
     });
   });
@@ -112,9 +175,47 @@ describe('AuthController', () => {
     it('should logout user successfully', async () => {
       authService.logout.mockResolvedValue(undefined);
 
-      await controller.logout('test-id');
+      await controller.logout('test-id', undefined, {});
 
-      expect(authService.logout).toHaveBeenCalledWith('test-id');
+      expect(authService.logout).toHaveBeenCalledWith(
+        'test-id',
+        undefined,
+        undefined
+      );
+    });
+
+    it('should revoke the tokens of the session', async () => {
+      authService.logout.mockResolvedValue(undefined);
+
+      await controller.logout('test-id', 'mock-jwt-token', {
+        refreshToken: 'mock-refresh-token',
+      });
+
+      expect(authService.logout).toHaveBeenCalledWith(
+        'test-id',
+        'mock-jwt-token',
+        'mock-refresh-token'
+      );
+    });
+
+    it('should disconnect the sockets of the ended session', async () => {
+      authService.logout.mockResolvedValue('session-id');
+
+      await controller.logout('test-id', 'mock-jwt-token', {});
+
+      expect(messagesGateway.disconnectSession).toHaveBeenCalledWith(
+        'session-id'
+      );
+      expect(messagesGateway.disconnectUser).not.toHaveBeenCalled();
+    });
+
+    it('should disconnect the sockets of the user without a session', async () => {
+      authService.logout.mockResolvedValue(undefined);
+
+      await controller.logout('test-id', 'mock-jwt-token', {});
+
+      expect(messagesGateway.disconnectUser).toHaveBeenCalledWith('test-id');
+      expect(messagesGateway.disconnectSession).not.toHaveBeenCalled();
     });
   });
 
@@ -122,13 +223,218 @@ describe('AuthController', () => {
     it('should refresh token successfully', async () => {
       authService.refreshToken.mockResolvedValue(mockAuthResponse);
 
-      const result = await controller.refreshToken(mockUser);
+      const result = await controller.refreshToken(
+        { refreshToken: 'mock-refresh-token' },
+        client
+      );
+
+      expect(authService.refreshToken).toHaveBeenCalledWith(
+        'mock-refresh-token',
+        client
+      );
+      expect(result).toEqual(mockAuthResponse);
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should verify the email with the token', async () => {
+      await controller.verifyEmail({ token: 'account-token' });
+
+      expect(authService.verifyEmail).toHaveBeenCalledWith('account-token');
+    });
+  });
+
+  describe('confirmEmail', () => {
+    it('should change the email with the token', async () => {
+      await controller.confirmEmail({ token: 'email-change-token' });
+
+      expect(authService.confirmEmailChange).toHaveBeenCalledWith(
+        'email-change-token'
+      );
+    });
+  });
+
+  describe('forgotPassword', () => {
+    it('should request a reset email for the address', async () => {
+      await controller.forgotPassword({ email: 'test@example.com' });
+
+      expect(authService.forgotPassword).toHaveBeenCalledWith(
+        'test@example.com'
+      );
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should reset the password and disconnect the user sockets', async () => {
+      authService.resetPassword.mockResolvedValue('test-id');
+
+      await controller.resetPassword({
+        token: 'account-token',
+        password: 'NewPassword123',
+      });
+
+      expect(authService.resetPassword).toHaveBeenCalledWith(
+        'account-token',
+        'NewPassword123'
+      );
+      expect(messagesGateway.disconnectUser).toHaveBeenCalledWith('test-id');
+    });
+
+    it('should not disconnect anything if the token is invalid', async () => {
+      authService.resetPassword.mockRejectedValue(
+        new Error('Invalid or expired token')
+      );
 
-      expect(authService.refreshToken).toHaveBeenCalledWith(mockUser);
+      await expect(
+        controller.resetPassword({
+          token: 'bad-token',
+          password: 'NewPassword123',
+        })
+      ).rejects.toThrow('Invalid or expired token');
+      expect(messagesGateway.disconnectUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyMfa', () => {
+    it('should exchange the MFA token and code for tokens', async () => {
+      authService.verifyMfa.mockResolvedValue(mockAuthResponse);
+
+      const result = await controller.verifyMfa(
+        { mfaToken: 'mfa-token', code: '123456' },
+        client
+      );
+
+      expect(authService.verifyMfa).toHaveBeenCalledWith(
+        'mfa-token',
+        '123456',
+        client
+      );
       expect(result).toEqual(mockAuthResponse);
     });
   });
 
+  describe('enrollMfa', () => {
+    it('should start the enrollment of the current user', async () => {
+      const enrollment = {
+        secret: 'JBSWY3DPEHPK3PXP',
+        otpauthUri: 'otpauth://totp/Chat:test%40example.com',
+      };
+      mfaService.enroll.mockResolvedValue(enrollment);
+
+      const result = await controller.enrollMfa(mockUser);
+
+      expect(mfaService.enroll).toHaveBeenCalledWith(mockUser);
+      expect(result).toEqual(enrollment);
+    });
+  });
+
+  describe('confirmMfa', () => {
+    it('should enable two-factor authentication with the code', async () => {
+      mfaService.confirm.mockResolvedValue({ recoveryCodes: ['3f9a1-c07be'] });
+
+      const result = await controller.confirmMfa(mockUser, { code: '123456' });
+
+      expect(mfaService.confirm).toHaveBeenCalledWith(mockUser, '123456');
+      expect(result).toEqual({ recoveryCodes: ['3f9a1-c07be'] });
+    });
+  });
+
+  describe('disableMfa', () => {
+    it('should disable two-factor authentication with the code', async () => {
+      await controller.disableMfa(mockUser, { code: '123456' });
+
+      expect(mfaService.disable).toHaveBeenCalledWith(mockUser, '123456');
+    });
+  });
+
+  describe('getOidcConfiguration', () => {
+    it('should return the single sign-on configuration', () => {
+      oidcService.getConfiguration.mockReturnValue({
+        enabled: true,
+        providerName: 'SSO',
+      });
+
+      expect(controller.getOidcConfiguration()).toEqual({
+        enabled: true,
+        providerName: 'SSO',
+      });
+    });
+  });
+
+  describe('authorizeOidc', () => {
+    it('should return the authorization URL and flow token', async () => {
+      const authorization = {
+        authorizationUrl: 'https://idp.example.com/authorize',
+        flowToken: 'flow-token',
+      };
+      oidcService.authorize.mockResolvedValue(authorization);
+
+      await expect(controller.authorizeOidc()).resolves.toEqual(authorization);
+    });
+  });
+
+  describe('oidcCallback', () => {
+    it('should log in the user authenticated by the provider', async () => {
+      const req = { user: mockUser } as RequestWithUser;
+      authService.login.mockResolvedValue(mockAuthResponse);
+
+      const result = await controller.oidcCallback(req, client);
+
+      expect(authService.login).toHaveBeenCalledWith(mockUser, client);
+      expect(result).toEqual(mockAuthResponse);
+    });
+  });
+
+  describe('getSessions', () => {
+    it('should list the sessions of the user', async () => {
+      const sessions = [
+        {
+          id: 'session-id',
+          device: 'Firefox (Linux)',
+          ipAddress: '127.0.0.1',
+          userAgent: 'Mozilla/5.0',
+          createdAt: new Date(),
+          lastUsedAt: new Date(),
+          isCurrent: true,
+        },
+      ];
+      authService.getSessions.mockResolvedValue(sessions);
+
+      const result = await controller.getSessions('test-id', 'mock-jwt-token');
+
+      expect(authService.getSessions).toHaveBeenCalledWith(
+        'test-id',
+        'mock-jwt-token'
+      );
+      expect(result).toEqual(sessions);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should revoke the session and disconnect its sockets', async () => {
+      authService.revokeSession.mockResolvedValue(undefined);
+
+      await controller.revokeSession('test-id', 'session-id');
+
+      expect(authService.revokeSession).toHaveBeenCalledWith(
+        'test-id',
+        'session-id'
+      );
+      expect(messagesGateway.disconnectSession).toHaveBeenCalledWith(
+        'session-id'
+      );
+    });
+
+    it('should not disconnect anything if the session is not found', async () => {
+      authService.revokeSession.mockRejectedValue(new Error('Not found'));
+
+      await expect(
+        controller.revokeSession('test-id', 'session-id')
+      ).rejects.toThrow('Not found');
+      expect(messagesGateway.disconnectSession).not.toHaveBeenCalled();
+    });
+  });
+
   describe('verifyToken', () => {
     it('should verify token and return user info', async () => {
       const result = await controller.verifyToken(mockUser);
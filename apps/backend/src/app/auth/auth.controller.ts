@@ -6,46 +6,90 @@ import {
   HttpCode,
   HttpStatus,
   Get,
+  Delete,
+  Param,
   Request,
+  ParseUUIDPipe,
 } from '@nestjs/common';
 import {
   ApiTags,
+  ApiParam,
   ApiBody,
   ApiResponse,
   ApiOperation,
   ApiBearerAuth,
+  ApiExtraModels,
+  getSchemaPath,
 } from '@nestjs/swagger';
 import { AuthService } from '@backend/auth/auth.service';
+import { MfaService } from '@backend/auth/mfa.service';
+import { OidcService } from '@backend/auth/oidc.service';
+import { MessagesGateway } from '@backend/messages/messages.gateway';
 
 import { Public } from '@backend/auth/decorators/public.decorator';
+import { ClientInfo } from '@backend/auth/decorators/client-info.decorator';
+import { AccessToken } from '@backend/auth/decorators/access-token.decorator';
 import { CurrentUser } from '@backend/auth/decorators/current-user.decorator';
+import { AUTH_CONSTANTS } from '@backend/auth/constants/auth.constants';
+import { RateLimit } from '@backend/app/rate-limit/decorators/rate-limit.decorator';
 
 import {
   AuthResponseDto,
   UserResponseDto,
+  RegisterResponseDto,
+  MfaChallengeResponseDto,
 } from '@backend/auth/dto/authentication.dto';
+import {
+  MfaCodeDto,
+  MfaVerifyDto,
+  MfaEnrollmentResponseDto,
+  MfaRecoveryCodesResponseDto,
+} from '@backend/auth/dto/mfa.dto';
+import {
+  OidcCallbackDto,
+  OidcAuthorizationResponseDto,
+  OidcConfigurationResponseDto,
+} from '@backend/auth/dto/oidc.dto';
+import {
+  VerifyEmailDto,
+  ResetPasswordDto,
+  ForgotPasswordDto,
+} from '@backend/auth/dto/account-tokens.dto';
 import { LoginDto } from '@backend/auth/dto/login.dto';
 import { RegisterDto } from '@backend/auth/dto/register.dto';
+import {
+  LogoutDto,
+  RefreshTokenDto,
+} from '@backend/auth/dto/refresh-token.dto';
+import { SessionResponseDto } from '@backend/auth/dto/session-response.dto';
 
 import { UserEntity } from '@backend/users/user.entity';
 
 import { LocalAuthGuard } from '@backend/auth/guards/local-auth.guard';
+import { OidcAuthGuard } from '@backend/auth/guards/oidc-auth.guard';
 
 import type { RequestWithUser } from '@backend/auth/interfaces/request-with-user.interface';
+import type { ClientInfoInterface } from '@backend/auth/interfaces/client-info.interface';
 
 @ApiTags('Authentication & User Session')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly mfaService: MfaService,
+    private readonly oidcService: OidcService,
+    private readonly messagesGateway: MessagesGateway
+  ) {}
 
   @Public()
+  @RateLimit(AUTH_CONSTANTS.REGISTER_RATE_LIMIT)
   @Post('register')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ summary: 'New user registration' })
   @ApiResponse({
     status: 201,
-    description: 'User created successfully',
-    type: AuthResponseDto,
+    description: 'User created, a verification email was sent',
+    type: RegisterResponseDto,
   })
   @ApiResponse({
     status: 400,
@@ -71,26 +115,40 @@ export class AuthController {
       },
     },
   })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many registrations from this address',
+  })
   /**
-   * Registers a new user account
+   * Registers a new user account, which can log in once its email is verified
    *
    * @param {RegisterDto} registerDto - User registration data including email, name, and password
-   * @returns {Promise<AuthResponseDto>} Authentication response with access token and user data
+   * @returns {Promise<RegisterResponseDto>} The address the verification email was sent to
    */
-  async register(@Body() registerDto: RegisterDto): Promise<AuthResponseDto> {
+  async register(
+    @Body() registerDto: RegisterDto
+  ): Promise<RegisterResponseDto> {
     return this.authService.register(registerDto);
   }
 
   @Public()
   @UseGuards(LocalAuthGuard)
+  @RateLimit(AUTH_CONSTANTS.LOGIN_RATE_LIMIT)
   @Post('login')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'User login' })
   @ApiBody({ type: LoginDto })
+  @ApiExtraModels(AuthResponseDto, MfaChallengeResponseDto)
   @ApiResponse({
     status: 200,
-    description: 'Login successful',
-    type: AuthResponseDto,
+    description:
+      'Login successful, or second factor required if two-factor authentication is enabled',
+    schema: {
+      oneOf: [
+        { $ref: getSchemaPath(AuthResponseDto) },
+        { $ref: getSchemaPath(MfaChallengeResponseDto) },
+      ],
+    },
   })
   @ApiResponse({
     status: 401,
@@ -104,14 +162,39 @@ export class AuthController {
       },
     },
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Email not verified',
+  })
+  @ApiResponse({
+    status: 429,
+    description:
+      'Too many attempts, or account locked after too many failed logins',
+    schema: {
+      type: 'object',
+      properties: {
+        statusCode: { type: 'number', example: 429 },
+        message: {
+          type: 'string',
+          example: 'Account temporarily locked after too many failed logins',
+        },
+        error: { type: 'string', example: 'Too Many Requests' },
+        retryAfter: { type: 'number', example: 60 },
+      },
+    },
+  })
   /**
    * Authenticates a user with email and password
    *
    * @param {RequestWithUser} req - Express request object containing the authenticated user
-   * @returns {Promise<AuthResponseDto>} Authentication response with access token and user data
+   * @param {ClientInfoInterface} client - IP address and user agent of the request
+   * @returns {Promise<AuthResponseDto | MfaChallengeResponseDto>} Authentication response with access token and user data, or the second factor challenge
    */
-  async login(@Request() req: RequestWithUser): Promise<AuthResponseDto> {
-    return this.authService.login(req.user);
+  async login(
+    @Request() req: RequestWithUser,
+    @ClientInfo() client: ClientInfoInterface
+  ): Promise<AuthResponseDto | MfaChallengeResponseDto> {
+    return this.authService.login(req.user, client);
   }
 
   @Get('profile')
@@ -140,42 +223,442 @@ export class AuthController {
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'User logout' })
+  @ApiBody({ type: LogoutDto, required: false })
   @ApiResponse({
     status: 204,
     description: 'Logout successful',
   })
   /**
-   * Logs out the current user by invalidating their session
+   * Logs out the current user by ending their session, then closes the
+   * WebSocket connections opened with it
    *
    * @param {string} userId - The ID of the user to log out
+   * @param {string | undefined} accessToken - The access token of the request
+   * @param {LogoutDto} logoutDto - The refresh token of the session, if any
    * @returns {Promise<void>} Promise that resolves when logout is complete
    */
-  async logout(@CurrentUser('id') userId: string): Promise<void> {
-    await this.authService.logout(userId);
+  async logout(
+    @CurrentUser('id') userId: string,
+    @AccessToken() accessToken: string | undefined,
+    @Body() logoutDto: LogoutDto
+  ): Promise<void> {
+    const sessionId = await this.authService.logout(
+      userId,
+      accessToken,
+      logoutDto?.refreshToken
+    );
+
+    if (sessionId) {
+      this.messagesGateway.disconnectSession(sessionId);
+    } else {
+      this.messagesGateway.disconnectUser(userId);
+    }
   }
 
+  @Public()
   @Post('refresh')
-  @ApiBearerAuth('JWT-auth')
-  @ApiOperation({ summary: 'Refresh JWT token' })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Exchange a refresh token for new tokens' })
+  @ApiBody({ type: RefreshTokenDto })
   @ApiResponse({
     status: 200,
-    description: 'Token refreshed',
+    description: 'Tokens refreshed',
     type: AuthResponseDto,
   })
   @ApiResponse({
     status: 401,
-    description: 'Invalid or expired token',
+    description: 'Invalid, expired or reused refresh token',
+    schema: {
+      type: 'object',
+      properties: {
+        statusCode: { type: 'number', example: 401 },
+        message: { type: 'string', example: 'Invalid refresh token' },
+        error: { type: 'string', example: 'Unauthorized' },
+      },
+    },
   })
   /**
-   * Refreshes the JWT token for the authenticated user
+   * Exchanges a refresh token for a new access token and refresh token,
+   * the presented refresh token being revoked
    *
-   * @param {UserEntity} user - The authenticated user entity from current JWT token
-   * @returns {Promise<AuthResponseDto>} New authentication response with fresh token
+   * @param {RefreshTokenDto} refreshTokenDto - The refresh token to exchange
+   * @param {ClientInfoInterface} client - IP address and user agent of the request
+   * @returns {Promise<AuthResponseDto>} New authentication response with fresh tokens
    */
   async refreshToken(
-    @CurrentUser() user: UserEntity
+    @Body() refreshTokenDto: RefreshTokenDto,
+    @ClientInfo() client: ClientInfoInterface
   ): Promise<AuthResponseDto> {
-    return this.authService.refreshToken(user);
+    return this.authService.refreshToken(refreshTokenDto.refreshToken, client);
+  }
+
+  @Public()
+  @RateLimit(AUTH_CONSTANTS.ACCOUNT_TOKEN_RATE_LIMIT)
+  @Post('verify-email')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Verify an email address' })
+  @ApiBody({ type: VerifyEmailDto })
+  @ApiResponse({
+    status: 204,
+    description: 'Email verified',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid or expired token',
+  })
+  /**
+   * Verifies the email address of an account with the token sent to it
+   *
+   * @param {VerifyEmailDto} verifyEmailDto - The verification token
+   * @returns {Promise<void>}
+   */
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto): Promise<void> {
+    await this.authService.verifyEmail(verifyEmailDto.token);
+  }
+
+  @Public()
+  @RateLimit(AUTH_CONSTANTS.ACCOUNT_TOKEN_RATE_LIMIT)
+  @Post('confirm-email')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Confirm an email address change' })
+  @ApiBody({ type: VerifyEmailDto })
+  @ApiResponse({
+    status: 204,
+    description: 'Email address changed',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid or expired token',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Email already in use',
+  })
+  /**
+   * Replaces the email address of an account with the new address the
+   * confirmation token was sent to
+   *
+   * @param {VerifyEmailDto} verifyEmailDto - The confirmation token
+   * @returns {Promise<void>}
+   */
+  async confirmEmail(@Body() verifyEmailDto: VerifyEmailDto): Promise<void> {
+    await this.authService.confirmEmailChange(verifyEmailDto.token);
+  }
+
+  @Public()
+  @RateLimit(AUTH_CONSTANTS.ACCOUNT_TOKEN_RATE_LIMIT)
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Request a password reset email' })
+  @ApiBody({ type: ForgotPasswordDto })
+  @ApiResponse({
+    status: 204,
+    description: 'Reset email sent if the address belongs to an account',
+  })
+  /**
+   * Sends a password reset link to the address, answering the same way
+   * whether or not it belongs to an account
+   *
+   * @param {ForgotPasswordDto} forgotPasswordDto - The address of the account
+   * @returns {Promise<void>}
+   */
+  async forgotPassword(
+    @Body() forgotPasswordDto: ForgotPasswordDto
+  ): Promise<void> {
+    await this.authService.forgotPassword(forgotPasswordDto.email);
+  }
+
+  @Public()
+  @RateLimit(AUTH_CONSTANTS.ACCOUNT_TOKEN_RATE_LIMIT)
+  @Post('reset-password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Reset a password' })
+  @ApiBody({ type: ResetPasswordDto })
+  @ApiResponse({
+    status: 204,
+    description: 'Password reset, all sessions signed out',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid, expired or already used token',
+  })
+  /**
+   * Replaces the password of an account with the token sent by email,
+   * then closes the WebSocket connections of the signed out sessions
+   *
+   * @param {ResetPasswordDto} resetPasswordDto - The reset token and the new password
+   * @returns {Promise<void>}
+   */
+  async resetPassword(
+    @Body() resetPasswordDto: ResetPasswordDto
+  ): Promise<void> {
+    const userId = await this.authService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.password
+    );
+    this.messagesGateway.disconnectUser(userId);
+  }
+
+  @Public()
+  @RateLimit(AUTH_CONSTANTS.MFA_RATE_LIMIT)
+  @Post('mfa/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Complete a login with a second factor' })
+  @ApiBody({ type: MfaVerifyDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid or expired MFA token, or invalid code',
+  })
+  /**
+   * Exchanges the token returned by login and a code of the authenticator
+   * app, or a recovery code, for the authentication response
+   *
+   * @param {MfaVerifyDto} mfaVerifyDto - The token returned by login and the code
+   * @param {ClientInfoInterface} client - IP address and user agent of the request
+   * @returns {Promise<AuthResponseDto>} Authentication response with access token and user data
+   */
+  async verifyMfa(
+    @Body() mfaVerifyDto: MfaVerifyDto,
+    @ClientInfo() client: ClientInfoInterface
+  ): Promise<AuthResponseDto> {
+    return this.authService.verifyMfa(
+      mfaVerifyDto.mfaToken,
+      mfaVerifyDto.code,
+      client
+    );
+  }
+
+  @Post('mfa/enroll')
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start two-factor authentication enrollment' })
+  @ApiResponse({
+    status: 200,
+    description: 'Secret generated, to confirm with a first code',
+    type: MfaEnrollmentResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Two-factor authentication already enabled',
+  })
+  /**
+   * Generates the TOTP secret of the current user, replacing the one of an
+   * unconfirmed enrollment
+   *
+   * @param {UserEntity} user - The current user
+   * @returns {Promise<MfaEnrollmentResponseDto>} The secret and the otpauth URI to scan
+   */
+  async enrollMfa(
+    @CurrentUser() user: UserEntity
+  ): Promise<MfaEnrollmentResponseDto> {
+    return this.mfaService.enroll(user);
+  }
+
+  @Post('mfa/confirm')
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Enable two-factor authentication' })
+  @ApiBody({ type: MfaCodeDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor authentication enabled',
+    type: MfaRecoveryCodesResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Enrollment not started or invalid code',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Two-factor authentication already enabled',
+  })
+  /**
+   * Enables two-factor authentication with a first code of the enrolled
+   * secret
+   *
+   * @param {UserEntity} user - The current user
+   * @param {MfaCodeDto} mfaCodeDto - A code of the authenticator app
+   * @returns {Promise<MfaRecoveryCodesResponseDto>} The recovery codes, shown once
+   */
+  async confirmMfa(
+    @CurrentUser() user: UserEntity,
+    @Body() mfaCodeDto: MfaCodeDto
+  ): Promise<MfaRecoveryCodesResponseDto> {
+    return this.mfaService.confirm(user, mfaCodeDto.code);
+  }
+
+  @Post('mfa/disable')
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Disable two-factor authentication' })
+  @ApiBody({ type: MfaCodeDto })
+  @ApiResponse({
+    status: 204,
+    description: 'Two-factor authentication disabled',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Two-factor authentication not enabled or invalid code',
+  })
+  /**
+   * Disables two-factor authentication, proven by a code of the
+   * authenticator app or a recovery code
+   *
+   * @param {UserEntity} user - The current user
+   * @param {MfaCodeDto} mfaCodeDto - A TOTP code or a recovery code
+   * @returns {Promise<void>}
+   */
+  async disableMfa(
+    @CurrentUser() user: UserEntity,
+    @Body() mfaCodeDto: MfaCodeDto
+  ): Promise<void> {
+    await this.mfaService.disable(user, mfaCodeDto.code);
+  }
+
+  @Public()
+  @Get('oidc')
+  @ApiOperation({ summary: 'Get the single sign-on configuration' })
+  @ApiResponse({
+    status: 200,
+    description: 'Whether single sign-on is available',
+    type: OidcConfigurationResponseDto,
+  })
+  /**
+   * Tells the login page whether to offer single sign-on
+   *
+   * @returns {OidcConfigurationResponseDto} Whether a provider is configured, and its name
+   */
+  getOidcConfiguration(): OidcConfigurationResponseDto {
+    return this.oidcService.getConfiguration();
+  }
+
+  @Public()
+  @Get('oidc/authorize')
+  @ApiOperation({ summary: 'Start a single sign-on' })
+  @ApiResponse({
+    status: 200,
+    description: 'Login page of the identity provider and flow token',
+    type: OidcAuthorizationResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Single sign-on not configured',
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Identity provider unavailable',
+  })
+  /**
+   * Starts the authorization code flow, the frontend keeping the flow
+   * token until the identity provider redirects back to it
+   *
+   * @returns {Promise<OidcAuthorizationResponseDto>} The URL of the provider login page and the flow token
+   */
+  async authorizeOidc(): Promise<OidcAuthorizationResponseDto> {
+    return this.oidcService.authorize();
+  }
+
+  @Public()
+  @UseGuards(OidcAuthGuard)
+  @RateLimit(AUTH_CONSTANTS.LOGIN_RATE_LIMIT)
+  @Post('oidc/callback')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Complete a single sign-on' })
+  @ApiBody({ type: OidcCallbackDto })
+  @ApiExtraModels(AuthResponseDto, MfaChallengeResponseDto)
+  @ApiResponse({
+    status: 200,
+    description:
+      'Login successful, or second factor required if two-factor authentication is enabled',
+    schema: {
+      oneOf: [
+        { $ref: getSchemaPath(AuthResponseDto) },
+        { $ref: getSchemaPath(MfaChallengeResponseDto) },
+      ],
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description:
+      'Invalid sign-on request, code rejected by the provider, or email not verified',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Single sign-on not configured',
+  })
+  /**
+   * Logs in the user the identity provider authenticated, like a login
+   * with email and password
+   *
+   * @param {RequestWithUser} req - Express request object containing the authenticated user
+   * @param {ClientInfoInterface} client - IP address and user agent of the request
+   * @returns {Promise<AuthResponseDto | MfaChallengeResponseDto>} Authentication response with access token and user data, or the second factor challenge
+   */
+  async oidcCallback(
+    @Request() req: RequestWithUser,
+    @ClientInfo() client: ClientInfoInterface
+  ): Promise<AuthResponseDto | MfaChallengeResponseDto> {
+    return this.authService.login(req.user, client);
+  }
+
+  @Get('sessions')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List the active sessions of the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Active sessions, most recently used first',
+    type: [SessionResponseDto],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Not authenticated',
+  })
+  /**
+   * Lists the devices the current user is signed in on
+   *
+   * @param {string} userId - The ID of the current user
+   * @param {string | undefined} accessToken - The access token of the request, identifying the current session
+   * @returns {Promise<SessionResponseDto[]>} The active sessions
+   */
+  async getSessions(
+    @CurrentUser('id') userId: string,
+    @AccessToken() accessToken: string | undefined
+  ): Promise<SessionResponseDto[]> {
+    return this.authService.getSessions(userId, accessToken);
+  }
+
+  @Delete('sessions/:id')
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Sign out of a session' })
+  @ApiParam({ name: 'id', description: 'Session ID', type: 'string' })
+  @ApiResponse({
+    status: 204,
+    description: 'Session revoked',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Session not found',
+  })
+  /**
+   * Revokes a session of the current user and closes the WebSocket
+   * connections opened with it
+   *
+   * @param {string} userId - The ID of the current user
+   * @param {string} sessionId - The ID of the session to revoke
+   * @returns {Promise<void>}
+   */
+  async revokeSession(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) sessionId: string
+  ): Promise<void> {
+    await this.authService.revokeSession(userId, sessionId);
+    this.messagesGateway.disconnectSession(sessionId);
   }
 
   @Get('verify')
@@ -1,23 +1,44 @@
 import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { APP_GUARD } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 
 import { AuthService } from '@backend/auth/auth.service';
 import { AuthController } from '@backend/auth/auth.controller';
+import { AccountController } from '@backend/auth/account.controller';
+import { AccountTokensService } from '@backend/auth/account-tokens.service';
+import { MfaService } from '@backend/auth/mfa.service';
+import { OidcService } from '@backend/auth/oidc.service';
+import { LoginThrottleService } from '@backend/auth/login-throttle.service';
+import { SessionEntity } from '@backend/auth/session.entity';
+import { SessionsService } from '@backend/auth/sessions.service';
+import { SessionsRepository } from '@backend/auth/sessions.repository';
+import { RefreshTokenEntity } from '@backend/auth/refresh-token.entity';
+import { RefreshTokensRepository } from '@backend/auth/refresh-tokens.repository';
 
 import { JwtAuthGuard } from '@backend/auth/guards/jwt-auth.guard';
 import { AdminGuard } from '@backend/auth/guards/admin.guard';
 
 import { JwtStrategy } from '@backend/auth/strategies/jwt.strategy';
 import { LocalStrategy } from '@backend/auth/strategies/local.strategy';
+import { OidcStrategy } from '@backend/auth/strategies/oidc.strategy';
 
 import { UsersModule } from '@backend/users/users.module';
+import { MessagesModule } from '@backend/messages/messages.module';
+import { TokenDenylistModule } from '@backend/auth/token-denylist.module';
+import { MailerModule } from '@backend/app/mailer/mailer.module';
+import { RateLimitModule } from '@backend/app/rate-limit/rate-limit.module';
 
 @Module({
   imports: [
     UsersModule,
+    MessagesModule,
+    TokenDenylistModule,
+    MailerModule,
+    RateLimitModule,
+    TypeOrmModule.forFeature([RefreshTokenEntity, SessionEntity]),
     PassportModule.register({ defaultStrategy: 'jwt' }),
     JwtModule.registerAsync({
       imports: [ConfigModule],
@@ -30,9 +51,16 @@ import { UsersModule } from '@backend/users/users.module';
       inject: [ConfigService],
     }),
   ],
-  controllers: [AuthController],
+  controllers: [AuthController, AccountController],
   providers: [
     AuthService,
+    AccountTokensService,
+    MfaService,
+    OidcService,
+    LoginThrottleService,
+    SessionsService,
+    SessionsRepository,
+    RefreshTokensRepository,
     JwtAuthGuard,
     AdminGuard,
     {
@@ -41,6 +69,7 @@ import { UsersModule } from '@backend/users/users.module';
     },
     JwtStrategy,
     LocalStrategy,
+    OidcStrategy,
   ],
   exports: [AuthService, AdminGuard],
 })
@@ -9,14 +9,25 @@ import { ConfigService } from '@nestjs/config';
 import { Test, TestingModule } from '@nestjs/testing';
 
 import { UserEntity } from '@backend/users/user.entity';
+import { AuthResponseDto } from '@backend/auth/dto/authentication.dto';
 import { AuthService } from '@backend/auth/auth.service';
 import { UsersService } from '@backend/users/users.service';
+import { MessagesService } from '@backend/messages/messages.service';
 import { RegisterDto } from '@backend/auth/dto/register.dto';
+import { SessionEntity } from '@backend/auth/session.entity';
+import { SessionsService } from '@backend/auth/sessions.service';
+import { MAILER } from '@backend/app/mailer/constants/mailer.constants';
+import { AccountTokensService } from '@backend/auth/account-tokens.service';
+import { MfaService } from '@backend/auth/mfa.service';
+import { RefreshTokenEntity } from '@backend/auth/refresh-token.entity';
+import { TokenDenylistService } from '@backend/auth/token-denylist.service';
+import { RefreshTokensRepository } from '@backend/auth/refresh-tokens.repository';
 
 jest.mock('class-transformer', () => ({
   plainToClass: jest.fn((_, obj) => obj),
   Expose: () => () => ({}),
   Exclude: () => () => ({}),
+  Transform: () => () => ({}),
 }));
 
 jest.mock('@nestjs/swagger', () => ({
@@ -28,19 +39,36 @@ describe('AuthService', () => {
   let usersService: jest.Mocked<UsersService>;
   let jwtService: jest.Mocked<JwtService>;
   let configService: jest.Mocked<ConfigService>;
+  let refreshTokensRepository: jest.Mocked<RefreshTokensRepository>;
+  let tokenDenylistService: jest.Mocked<TokenDenylistService>;
+  let sessionsService: jest.Mocked<SessionsService>;
+  let accountTokensService: jest.Mocked<AccountTokensService>;
+  let mfaService: jest.Mocked<MfaService>;
+  let messagesService: jest.Mocked<MessagesService>;
 
   const mockUser: UserEntity = {
     id: 'test-id',
     email: 'test@example.com',
     firstName: 'John',
     lastName: 'Doe',
+    displayName: null,
+    avatarUrl: null,
+    bio: null,
+    timezone: null,
+    locale: null,
     password: 'hashedPassword',
     isActive: true,
     isAdmin: false,
+    emailVerifiedAt: new Date(),
+    mfaSecret: null,
+    mfaEnabledAt: null,
+    mfaRecoveryCodes: [],
+    oidcSubject: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     validatePassword: jest.fn(),
     fullName: 'John Doe',
+    publicName: 'John Doe',
   };
 
   const mockUsersService = {
@@ -48,16 +76,87 @@ describe('AuthService', () => {
     create: jest.fn(),
     validateUser: jest.fn(),
     findOne: jest.fn(),
+    setPassword: jest.fn(),
+    markEmailVerified: jest.fn(),
+    changeEmail: jest.fn(),
+    remove: jest.fn(),
   };
 
   const mockJwtService = {
     sign: jest.fn(),
+    decode: jest.fn(),
   };
 
   const mockConfigService = {
     get: jest.fn(),
   };
 
+  const mockRefreshTokensRepository = {
+    create: jest.fn(),
+    findByHash: jest.fn(),
+    revoke: jest.fn(),
+    revokeFamily: jest.fn(),
+    deleteExpired: jest.fn(),
+  };
+
+  const mockTokenDenylistService = {
+    revoke: jest.fn(),
+    isRevoked: jest.fn(),
+  };
+
+  const mockSession: SessionEntity = {
+    id: 'session-id',
+    userId: 'test-id',
+    device: 'Firefox (Linux)',
+    ipAddress: '127.0.0.1',
+    userAgent: 'Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Firefox/128.0',
+    accessTokenExpiresAt: new Date(Date.now() + 3600 * 1000),
+    expiresAt: new Date(Date.now() + 86400 * 1000),
+    revokedAt: null,
+    createdAt: new Date(),
+    lastUsedAt: new Date(),
+  };
+
+  const mockSessionsService = {
+    create: jest.fn().mockResolvedValue(mockSession),
+    findActive: jest.fn(),
+    recordRefresh: jest.fn(),
+    findAllForUser: jest.fn(),
+    revoke: jest.fn(),
+    end: jest.fn(),
+    endAll: jest.fn().mockResolvedValue([]),
+  };
+
+  const mockAccountTokensService = {
+    sign: jest.fn().mockReturnValue('account-token'),
+    verify: jest.fn(),
+    signEmailChange: jest.fn().mockReturnValue('email-change-token'),
+    verifyEmailChange: jest.fn(),
+  };
+
+  const mockMessagesService = {
+    deleteUserData: jest.fn(),
+  };
+
+  const mockMailer = {
+    send: jest.fn(),
+  };
+
+  const mockMfaService = {
+    verifyCode: jest.fn(),
+  };
+
+  const mockRefreshToken: RefreshTokenEntity = {
+    id: 'refresh-token-id',
+    tokenHash: 'hash',
+    familyId: 'session-id',
+    userId: 'test-id',
+    expiresAt: new Date(Date.now() + 86400 * 1000),
+    revokedAt: null,
+    replacedById: null,
+    createdAt: new Date(),
+  };
+
   beforeEach(async () => {
     jest.clearAllMocks();
 
@@ -76,6 +175,34 @@ describe('AuthService', () => {
           provide: ConfigService,
           useValue: mockConfigService,
         },
+        {
+          provide: RefreshTokensRepository,
+          useValue: mockRefreshTokensRepository,
+        },
+        {
+          provide: TokenDenylistService,
+          useValue: mockTokenDenylistService,
+        },
+        {
+          provide: SessionsService,
+          useValue: mockSessionsService,
+        },
+        {
+          provide: AccountTokensService,
+          useValue: mockAccountTokensService,
+        },
+        {
+          provide: MAILER,
+          useValue: mockMailer,
+        },
+        {
+          provide: MfaService,
+          useValue: mockMfaService,
+        },
+        {
+          provide: MessagesService,
+          useValue: mockMessagesService,
+        },
       ],
     }).compile();
 
@@ -83,6 +210,12 @@ describe('AuthService', () => {
     usersService = module.get(UsersService);
     jwtService = module.get(JwtService);
     configService = module.get(ConfigService);
+    refreshTokensRepository = module.get(RefreshTokensRepository);
+    tokenDenylistService = module.get(TokenDenylistService);
+    sessionsService = module.get(SessionsService);
+    accountTokensService = module.get(AccountTokensService);
+    mfaService = module.get(MfaService);
+    messagesService = module.get(MessagesService);
   });
 
   it('should be defined', () => {
@@ -119,22 +252,53 @@ describe('AuthService', () => {
       password: 'password123',
     };
 
-    it('should register a new user successfully', async () => {
-      const newUser = { ...mockUser, ...registerDto } as UserEntity;
+    const newUser = {
+      ...mockUser,
+      ...registerDto,
+      emailVerifiedAt: null,
+    } as UserEntity;
+
+    beforeEach(() => {
+      configService.get.mockImplementation(
+        (_key: string, defaultValue?: unknown) => defaultValue
+      );
+    });
+
+    it('should register an unverified user and send the verification email', async () => {
       usersService.create.mockResolvedValue(newUser);
-      configService.get.mockReturnValue('1h');
-      jwtService.sign.mockReturnValue('mock-jwt-token');
 
       const result = await service.register(registerDto);
 
       expect(usersService.create).toHaveBeenCalledWith({
         ...registerDto,
         isActive: true,
+        emailVerified: false,
       });
-      expect(result).toMatchObject({
-        accessToken: 'mock-jwt-token',
-        tokenType: 'Bearer',
-        expiresIn: 3600,
+      expect(accountTokensService.sign).toHaveBeenCalledWith(
+        newUser,
+        'verify-email'
+      );
+      expect(mockMailer.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'new@example.com',
+          text: expect.stringContaining(
+            'http://localhost:4200/verify-email?token=account-token'
+          ),
+        })
+      );
+      expect(result).toEqual({
+        message: 'Account created, check your email to verify your address',
+        email: 'new@example.com',
+      });
+      expect(sessionsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should register the user even if the email cannot be sent', async () => {
+      usersService.create.mockResolvedValue(newUser);
+      mockMailer.send.mockRejectedValueOnce(new Error('Connection refused'));
+
+      await expect(service.register(registerDto)).resolves.toMatchObject({
+        email: 'new@example.com',
       });
     });
 
@@ -173,6 +337,8 @@ describe('AuthService', () => {
       expect(jwtService.sign).toHaveBeenCalledWith({
         sub: mockUser.id,
         email: mockUser.email,
+        jti: expect.any(String),
+        sid: mockSession.id,
       });
       expect(result).toMatchObject({
         accessToken: 'mock-jwt-token',
@@ -181,12 +347,89 @@ describe('AuthService', () => {
       });
     });
 
+    it('should open a session for the client', async () => {
+      configService.get.mockReturnValue('1h');
+      const client = { ipAddress: '127.0.0.1', userAgent: 'Mozilla/5.0' };
+
+      await service.login(mockUser, client);
+
+      expect(sessionsService.create).toHaveBeenCalledWith(mockUser.id, client, {
+        accessTokenExpiresAt: expect.any(Date),
+        expiresAt: expect.any(Date),
+      });
+      expect(sessionsService.recordRefresh).not.toHaveBeenCalled();
+    });
+
     it('should throw UnauthorizedException if user is null', async () => {
       const nullUser = null as unknown as UserEntity;
       
       await expect(service.login(nullUser)).rejects.toThrow(UnauthorizedException);
       await expect(service.login(nullUser)).rejects.toThrow('User not found');
     });
+
+    it('should return a second factor challenge if two-factor authentication is enabled', async () => {
+      configService.get.mockImplementation(
+        (_key: string, defaultValue?: unknown) => defaultValue
+      );
+      const mfaUser = { ...mockUser, mfaEnabledAt: new Date() } as UserEntity;
+
+      const result = await service.login(mfaUser);
+
+      expect(accountTokensService.sign).toHaveBeenCalledWith(mfaUser, 'mfa');
+      expect(result).toEqual({
+        mfaRequired: true,
+        mfaToken: 'account-token',
+        expiresIn: 300,
+      });
+      expect(sessionsService.create).not.toHaveBeenCalled();
+      expect(jwtService.sign).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyMfa', () => {
+    const client = { ipAddress: '127.0.0.1', userAgent: 'Mozilla/5.0' };
+
+    it('should log the user in with a valid code', async () => {
+      configService.get.mockReturnValue('1h');
+      jwtService.sign.mockReturnValue('mock-jwt-token');
+      accountTokensService.verify.mockResolvedValue(mockUser);
+      mfaService.verifyCode.mockResolvedValue(true);
+
+      const result = await service.verifyMfa('mfa-token', '123456', client);
+
+      expect(accountTokensService.verify).toHaveBeenCalledWith(
+        'mfa-token',
+        'mfa'
+      );
+      expect(mfaService.verifyCode).toHaveBeenCalledWith(mockUser, '123456');
+      expect(sessionsService.create).toHaveBeenCalledWith(
+        mockUser.id,
+        client,
+        expect.any(Object)
+      );
+      expect(result).toMatchObject({ accessToken: 'mock-jwt-token' });
+    });
+
+    it('should throw UnauthorizedException for an invalid code', async () => {
+      accountTokensService.verify.mockResolvedValue(mockUser);
+      mfaService.verifyCode.mockResolvedValue(false);
+
+      await expect(
+        service.verifyMfa('mfa-token', '000000', client)
+      ).rejects.toThrow('Invalid code');
+      expect(sessionsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should propagate UnauthorizedException for an expired token', async () => {
+      accountTokensService.verify.mockRejectedValue(
+        new UnauthorizedException('Invalid or expired MFA token')
+      );
+
+      await expect(
+        service.verifyMfa('expired-token', '123456', client)
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mfaService.verifyCode).not.toHaveBeenCalled();
+    });
   });
 
   describe('generateAuthResponse', () => {
@@ -194,23 +437,47 @@ describe('AuthService', () => {
       jwtService.sign.mockReturnValue('mock-jwt-token');
 
       configService.get.mockReturnValue('30s');
-      let result = await service.login(mockUser);
+      let result = (await service.login(mockUser)) as AuthResponseDto;
       expect(result.expiresIn).toBe(30);
 
       configService.get.mockReturnValue('15m');
-      result = await service.login(mockUser);
+      result = (await service.login(mockUser)) as AuthResponseDto;
       expect(result.expiresIn).toBe(900);
 
       configService.get.mockReturnValue('2h');
-      result = await service.login(mockUser);
+      result = (await service.login(mockUser)) as AuthResponseDto;
       expect(result.expiresIn).toBe(7200);
       configService.get.mockReturnValue('7d');
-      result = await service.login(mockUser);
+      result = (await service.login(mockUser)) as AuthResponseDto;
       expect(result.expiresIn).toBe(604800);
 
       configService.get.mockReturnValue('invalid');
-      result = await service.login(mockUser);
+      result = (await service.login(mockUser)) as AuthResponseDto;
       expect(result.expiresIn).toBe(3600);
+      expect(result.refreshExpiresIn).toBe(30 * 86400);
+    });
+
+    it('should issue a hashed refresh token in the family of a new session', async () => {
+      configService.get.mockReturnValue('1h');
+      jwtService.sign.mockReturnValue('mock-jwt-token');
+
+      const result = (await service.login(mockUser)) as AuthResponseDto;
+
+      expect(result.refreshToken).toEqual(expect.any(String));
+      expect(result.refreshExpiresIn).toBe(3600);
+      expect(refreshTokensRepository.deleteExpired).toHaveBeenCalledWith(
+        mockUser.id
+      );
+      expect(refreshTokensRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: mockUser.id,
+          familyId: mockSession.id,
+          expiresAt: expect.any(Date),
+        })
+      );
+      const { tokenHash } = refreshTokensRepository.create.mock.calls[0][0];
+      expect(tokenHash).toMatch(/^[a-f0-9]{64}$/);
+      expect(tokenHash).not.toBe(result.refreshToken);
     });
 
     it('should throw UnauthorizedException if user.id is undefined', async () => {
@@ -229,47 +496,630 @@ describe('AuthService', () => {
   });
 
   describe('refreshToken', () => {
-    it('should refresh token for active user', async () => {
-      usersService.findOne.mockResolvedValue(mockUser);
+    beforeEach(() => {
       configService.get.mockReturnValue('1h');
       jwtService.sign.mockReturnValue('new-jwt-token');
+      sessionsService.findActive.mockResolvedValue(mockSession);
+    });
 
-      const result = await service.refreshToken(mockUser);
+    it('should rotate the refresh token within its family', async () => {
+      refreshTokensRepository.findByHash.mockResolvedValue(mockRefreshToken);
+      refreshTokensRepository.revoke.mockResolvedValue(true);
+      usersService.findOne.mockResolvedValue(mockUser);
+
+      const result = await service.refreshToken('refresh-token', {
+        ipAddress: '10.0.0.2',
+      });
 
+      expect(refreshTokensRepository.findByHash).toHaveBeenCalledWith(
+        expect.stringMatching(/^[a-f0-9]{64}$/)
+      );
       expect(usersService.findOne).toHaveBeenCalledWith(mockUser.id);
+      const replacementId = refreshTokensRepository.revoke.mock.calls[0][1];
+      expect(refreshTokensRepository.revoke).toHaveBeenCalledWith(
+        mockRefreshToken.id,
+        expect.any(String)
+      );
+      expect(refreshTokensRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: replacementId,
+          familyId: mockRefreshToken.familyId,
+        })
+      );
+      expect(refreshTokensRepository.deleteExpired).not.toHaveBeenCalled();
+      expect(sessionsService.create).not.toHaveBeenCalled();
+      expect(sessionsService.recordRefresh).toHaveBeenCalledWith(
+        mockSession,
+        { ipAddress: '10.0.0.2' },
+        {
+          accessTokenExpiresAt: expect.any(Date),
+          expiresAt: expect.any(Date),
+        }
+      );
+      expect(jwtService.sign).toHaveBeenCalledWith(
+        expect.objectContaining({ sid: mockSession.id })
+      );
       expect(result).toMatchObject({
         accessToken: 'new-jwt-token',
         tokenType: 'Bearer',
         expiresIn: 3600,
       });
+      expect(result.refreshToken).not.toBe('refresh-token');
+    });
+
+    it('should throw UnauthorizedException for an unknown token', async () => {
+      refreshTokensRepository.findByHash.mockResolvedValue(null);
+
+      await expect(service.refreshToken('unknown')).rejects.toThrow(
+        'Invalid refresh token'
+      );
+      expect(refreshTokensRepository.revokeFamily).not.toHaveBeenCalled();
+    });
+
+    it('should end the session when a revoked token is reused', async () => {
+      refreshTokensRepository.findByHash.mockResolvedValue({
+        ...mockRefreshToken,
+        revokedAt: new Date(),
+      });
+
+      await expect(service.refreshToken('refresh-token')).rejects.toThrow(
+        UnauthorizedException
+      );
+      expect(sessionsService.findActive).toHaveBeenCalledWith(
+        mockRefreshToken.familyId
+      );
+      expect(sessionsService.end).toHaveBeenCalledWith(mockSession);
+      expect(refreshTokensRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the whole family when a token of an ended session is reused', async () => {
+      refreshTokensRepository.findByHash.mockResolvedValue({
+        ...mockRefreshToken,
+        revokedAt: new Date(),
+      });
+      sessionsService.findActive.mockResolvedValue(null);
+
+      await expect(service.refreshToken('refresh-token')).rejects.toThrow(
+        UnauthorizedException
+      );
+      expect(sessionsService.end).not.toHaveBeenCalled();
+      expect(refreshTokensRepository.revokeFamily).toHaveBeenCalledWith(
+        mockRefreshToken.familyId
+      );
+    });
+
+    it('should end the session when the token was rotated concurrently', async () => {
+      refreshTokensRepository.findByHash.mockResolvedValue(mockRefreshToken);
+      refreshTokensRepository.revoke.mockResolvedValue(false);
+      usersService.findOne.mockResolvedValue(mockUser);
+
+      await expect(service.refreshToken('refresh-token')).rejects.toThrow(
+        'Invalid refresh token'
+      );
+      expect(sessionsService.end).toHaveBeenCalledWith(mockSession);
+      expect(refreshTokensRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedException for an expired token', async () => {
+      refreshTokensRepository.findByHash.mockResolvedValue({
+        ...mockRefreshToken,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.refreshToken('refresh-token')).rejects.toThrow(
+        'Refresh token expired'
+      );
+    });
+
+    it('should revoke the family when its session was revoked', async () => {
+      refreshTokensRepository.findByHash.mockResolvedValue(mockRefreshToken);
+      sessionsService.findActive.mockResolvedValue(null);
+
+      await expect(service.refreshToken('refresh-token')).rejects.toThrow(
+        'Session revoked'
+      );
+      expect(sessionsService.findActive).toHaveBeenCalledWith(
+        mockRefreshToken.familyId
+      );
+      expect(refreshTokensRepository.revokeFamily).toHaveBeenCalledWith(
+        mockRefreshToken.familyId
+      );
+      expect(refreshTokensRepository.revoke).not.toHaveBeenCalled();
     });
 
     it('should throw UnauthorizedException if user not found', async () => {
+      refreshTokensRepository.findByHash.mockResolvedValue(mockRefreshToken);
       usersService.findOne.mockRejectedValue(
         new NotFoundException(`User with ID ${mockUser.id} not found`)
       );
 
-      await expect(service.refreshToken(mockUser)).rejects.toThrow(
-        NotFoundException
+      await expect(service.refreshToken('refresh-token')).rejects.toThrow(
+        UnauthorizedException
+      );
+      expect(refreshTokensRepository.revokeFamily).toHaveBeenCalledWith(
+        mockRefreshToken.familyId
       );
     });
 
     it('should throw UnauthorizedException if user is inactive', async () => {
       const inactiveUser = { ...mockUser, isActive: false } as UserEntity;
+      refreshTokensRepository.findByHash.mockResolvedValue(mockRefreshToken);
       usersService.findOne.mockResolvedValue(inactiveUser);
 
-      await expect(service.refreshToken(mockUser)).rejects.toThrow(
+      await expect(service.refreshToken('refresh-token')).rejects.toThrow(
         UnauthorizedException
       );
-      await expect(service.refreshToken(mockUser)).rejects.toThrow(
+      await expect(service.refreshToken('refresh-token')).rejects.toThrow(
         'Unauthorized user'
       );
+      expect(refreshTokensRepository.revoke).not.toHaveBeenCalled();
     });
   });
 
   describe('logout', () => {
+    const exp = Math.floor(Date.now() / 1000) + 3600;
+
     it('should logout user successfully', async () => {
       await expect(service.logout('test-id')).resolves.toBeUndefined();
+      expect(tokenDenylistService.revoke).not.toHaveBeenCalled();
+      expect(refreshTokensRepository.revokeFamily).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the access token until it expires', async () => {
+      jwtService.decode.mockReturnValue({
+        sub: 'test-id',
+        email: mockUser.email,
+        jti: 'token-jti',
+        exp,
+      });
+
+      await service.logout('test-id', 'access-token');
+
+      expect(jwtService.decode).toHaveBeenCalledWith('access-token');
+      expect(tokenDenylistService.revoke).toHaveBeenCalledWith(
+        'token-jti',
+        'test-id',
+        new Date(exp * 1000)
+      );
+    });
+
+    it('should not revoke an access token of another user', async () => {
+      jwtService.decode.mockReturnValue({
+        sub: 'other-id',
+        email: 'other@example.com',
+        jti: 'token-jti',
+        exp,
+      });
+
+      await service.logout('test-id', 'access-token');
+
+      expect(tokenDenylistService.revoke).not.toHaveBeenCalled();
+    });
+
+    it('should end the session of the access token', async () => {
+      jwtService.decode.mockReturnValue({
+        sub: 'test-id',
+        email: mockUser.email,
+        jti: 'token-jti',
+        sid: mockSession.id,
+        exp,
+      });
+      sessionsService.findActive.mockResolvedValue(mockSession);
+
+      await expect(service.logout('test-id', 'access-token')).resolves.toBe(
+        mockSession.id
+      );
+
+      expect(sessionsService.findActive).toHaveBeenCalledWith(mockSession.id);
+      expect(sessionsService.end).toHaveBeenCalledWith(mockSession);
+      expect(tokenDenylistService.revoke).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the access token if its session is no longer active', async () => {
+      jwtService.decode.mockReturnValue({
+        sub: 'test-id',
+        email: mockUser.email,
+        jti: 'token-jti',
+        sid: mockSession.id,
+        exp,
+      });
+      sessionsService.findActive.mockResolvedValue(null);
+
+      await expect(
+        service.logout('test-id', 'access-token')
+      ).resolves.toBeUndefined();
+
+      expect(sessionsService.end).not.toHaveBeenCalled();
+      expect(tokenDenylistService.revoke).toHaveBeenCalledWith(
+        'token-jti',
+        'test-id',
+        new Date(exp * 1000)
+      );
+    });
+
+    it('should revoke the family of the session refresh token', async () => {
+      refreshTokensRepository.findByHash.mockResolvedValue(mockRefreshToken);
+
+      await service.logout('test-id', undefined, 'refresh-token');
+
+      expect(refreshTokensRepository.revokeFamily).toHaveBeenCalledWith(
+        mockRefreshToken.familyId
+      );
+    });
+
+    it('should not revoke a refresh token owned by another user', async () => {
+      refreshTokensRepository.findByHash.mockResolvedValue({
+        ...mockRefreshToken,
+        userId: 'other-id',
+      });
+
+      await service.logout('test-id', undefined, 'refresh-token');
+
+      expect(refreshTokensRepository.revokeFamily).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSessions', () => {
+    it('should list the sessions and flag the current one', async () => {
+      jwtService.decode.mockReturnValue({
+        sub: 'test-id',
+        email: mockUser.email,
+        sid: mockSession.id,
+      });
+      sessionsService.findAllForUser.mockResolvedValue([]);
+
+      await expect(
+        service.getSessions('test-id', 'access-token')
+      ).resolves.toEqual([]);
+
+      expect(sessionsService.findAllForUser).toHaveBeenCalledWith(
+        'test-id',
+        mockSession.id
+      );
+    });
+
+    it('should not flag a session without an access token', async () => {
+      sessionsService.findAllForUser.mockResolvedValue([]);
+
+      await service.getSessions('test-id');
+
+      expect(jwtService.decode).not.toHaveBeenCalled();
+      expect(sessionsService.findAllForUser).toHaveBeenCalledWith(
+        'test-id',
+        undefined
+      );
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should revoke the session of the user', async () => {
+      await service.revokeSession('test-id', mockSession.id);
+
+      expect(sessionsService.revoke).toHaveBeenCalledWith(
+        'test-id',
+        mockSession.id
+      );
+    });
+
+    it('should propagate NotFoundException', async () => {
+      sessionsService.revoke.mockRejectedValue(
+        new NotFoundException('Session not found')
+      );
+
+      await expect(
+        service.revokeSession('test-id', 'unknown-id')
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should mark the email of the token owner as verified', async () => {
+      accountTokensService.verify.mockResolvedValue(mockUser);
+
+      await service.verifyEmail('account-token');
+
+      expect(accountTokensService.verify).toHaveBeenCalledWith(
+        'account-token',
+        'verify-email'
+      );
+      expect(usersService.markEmailVerified).toHaveBeenCalledWith(mockUser);
+    });
+
+    it('should propagate BadRequestException for an invalid token', async () => {
+      accountTokensService.verify.mockRejectedValue(
+        new BadRequestException('Invalid or expired token')
+      );
+
+      await expect(service.verifyEmail('bad-token')).rejects.toThrow(
+        BadRequestException
+      );
+      expect(usersService.markEmailVerified).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('forgotPassword', () => {
+    beforeEach(() => {
+      configService.get.mockImplementation(
+        (_key: string, defaultValue?: unknown) => defaultValue
+      );
+    });
+
+    it('should send a reset link to an active user', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+
+      await service.forgotPassword('test@example.com');
+
+      expect(accountTokensService.sign).toHaveBeenCalledWith(
+        mockUser,
+        'reset-password'
+      );
+      expect(mockMailer.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'test@example.com',
+          text: expect.stringContaining(
+            'http://localhost:4200/reset-password?token=account-token'
+          ),
+        })
+      );
+    });
+
+    it('should not send anything for an unknown address', async () => {
+      usersService.findByEmail.mockResolvedValue(null);
+
+      await expect(
+        service.forgotPassword('unknown@example.com')
+      ).resolves.toBeUndefined();
+      expect(mockMailer.send).not.toHaveBeenCalled();
+    });
+
+    it('should not send anything to an inactive user', async () => {
+      usersService.findByEmail.mockResolvedValue({
+        ...mockUser,
+        isActive: false,
+      } as UserEntity);
+
+      await service.forgotPassword('test@example.com');
+
+      expect(mockMailer.send).not.toHaveBeenCalled();
+    });
+
+    it('should not reveal a failure to send the email', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+      mockMailer.send.mockRejectedValueOnce(new Error('Connection refused'));
+
+      await expect(
+        service.forgotPassword('test@example.com')
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should replace the password and end all the sessions', async () => {
+      accountTokensService.verify.mockResolvedValue(mockUser);
+
+      const result = await service.resetPassword(
+        'account-token',
+        'NewPassword123'
+      );
+
+      expect(accountTokensService.verify).toHaveBeenCalledWith(
+        'account-token',
+        'reset-password'
+      );
+      expect(usersService.setPassword).toHaveBeenCalledWith(
+        mockUser,
+        'NewPassword123'
+      );
+      expect(usersService.markEmailVerified).toHaveBeenCalledWith(mockUser);
+      expect(sessionsService.endAll).toHaveBeenCalledWith('test-id');
+      expect(result).toBe('test-id');
+    });
+
+    it('should propagate BadRequestException for a used token', async () => {
+      accountTokensService.verify.mockRejectedValue(
+        new BadRequestException('Invalid or expired token')
+      );
+
+      await expect(
+        service.resetPassword('used-token', 'NewPassword123')
+      ).rejects.toThrow(BadRequestException);
+      expect(usersService.setPassword).not.toHaveBeenCalled();
+      expect(sessionsService.endAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changePassword', () => {
+    beforeEach(() => {
+      usersService.findOne.mockResolvedValue(mockUser);
+    });
+
+    it('should replace the password and end the other sessions', async () => {
+      (mockUser.validatePassword as jest.Mock).mockResolvedValue(true);
+      jwtService.decode.mockReturnValue({
+        sub: 'test-id',
+        email: mockUser.email,
+        jti: 'token-jti',
+        sid: mockSession.id,
+      });
+      sessionsService.endAll.mockResolvedValue(['other-session-id']);
+
+      const result = await service.changePassword(
+        'test-id',
+        'OldPassword123!',
+        'NewPassword123!',
+        'access-token'
+      );
+
+      expect(mockUser.validatePassword).toHaveBeenCalledWith('OldPassword123!');
+      expect(usersService.setPassword).toHaveBeenCalledWith(
+        mockUser,
+        'NewPassword123!'
+      );
+      expect(sessionsService.endAll).toHaveBeenCalledWith(
+        'test-id',
+        mockSession.id
+      );
+      expect(result).toEqual(['other-session-id']);
+    });
+
+    it('should throw BadRequestException for an incorrect current password', async () => {
+      (mockUser.validatePassword as jest.Mock).mockResolvedValue(false);
+
+      await expect(
+        service.changePassword('test-id', 'wrong', 'NewPassword123!')
+      ).rejects.toThrow(BadRequestException);
+      expect(usersService.setPassword).not.toHaveBeenCalled();
+      expect(sessionsService.endAll).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException for an unchanged password', async () => {
+      (mockUser.validatePassword as jest.Mock).mockResolvedValue(true);
+
+      await expect(
+        service.changePassword('test-id', 'OldPassword123!', 'OldPassword123!')
+      ).rejects.toThrow(BadRequestException);
+      expect(usersService.setPassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestEmailChange', () => {
+    beforeEach(() => {
+      usersService.findOne.mockResolvedValue(mockUser);
+      (mockUser.validatePassword as jest.Mock).mockResolvedValue(true);
+      configService.get.mockImplementation(
+        (_key: string, defaultValue?: unknown) => defaultValue
+      );
+    });
+
+    it('should send a confirmation link to the new address', async () => {
+      usersService.findByEmail.mockResolvedValue(null);
+
+      await service.requestEmailChange(
+        'test-id',
+        'new@example.com',
+        'Password123!'
+      );
+
+      expect(accountTokensService.signEmailChange).toHaveBeenCalledWith(
+        mockUser,
+        'new@example.com'
+      );
+      expect(mockMailer.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'new@example.com',
+          text: expect.stringContaining(
+            'http://localhost:4200/confirm-email?token=email-change-token'
+          ),
+        })
+      );
+    });
+
+    it('should throw BadRequestException for an incorrect password', async () => {
+      (mockUser.validatePassword as jest.Mock).mockResolvedValue(false);
+
+      await expect(
+        service.requestEmailChange('test-id', 'new@example.com', 'wrong')
+      ).rejects.toThrow(BadRequestException);
+      expect(mockMailer.send).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException for the current address', async () => {
+      await expect(
+        service.requestEmailChange('test-id', mockUser.email, 'Password123!')
+      ).rejects.toThrow(BadRequestException);
+      expect(mockMailer.send).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException for an address already in use', async () => {
+      usersService.findByEmail.mockResolvedValue({
+        ...mockUser,
+        id: 'other-id',
+        email: 'new@example.com',
+      } as UserEntity);
+
+      await expect(
+        service.requestEmailChange('test-id', 'new@example.com', 'Password123!')
+      ).rejects.toThrow(ConflictException);
+      expect(mockMailer.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmEmailChange', () => {
+    beforeEach(() => {
+      configService.get.mockImplementation(
+        (_key: string, defaultValue?: unknown) => defaultValue
+      );
+    });
+
+    it('should change the address and notify the previous one', async () => {
+      accountTokensService.verifyEmailChange.mockResolvedValue({
+        user: mockUser,
+        email: 'new@example.com',
+      });
+
+      await service.confirmEmailChange('email-change-token');
+
+      expect(usersService.changeEmail).toHaveBeenCalledWith(
+        mockUser,
+        'new@example.com'
+      );
+      expect(mockMailer.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'test@example.com',
+          text: expect.stringContaining(
+            'http://localhost:4200/forgot-password'
+          ),
+        })
+      );
+    });
+
+    it('should propagate BadRequestException for an invalid token', async () => {
+      accountTokensService.verifyEmailChange.mockRejectedValue(
+        new BadRequestException('Invalid or expired token')
+      );
+
+      await expect(service.confirmEmailChange('bad-token')).rejects.toThrow(
+        BadRequestException
+      );
+      expect(usersService.changeEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteAccount', () => {
+    beforeEach(() => {
+      usersService.findOne.mockResolvedValue(mockUser);
+    });
+
+    it('should clean up the messages data, sessions and user', async () => {
+      (mockUser.validatePassword as jest.Mock).mockResolvedValue(true);
+
+      await service.deleteAccount('test-id', 'Password123!');
+
+      expect(messagesService.deleteUserData).toHaveBeenCalledWith('test-id');
+      expect(sessionsService.endAll).toHaveBeenCalledWith('test-id');
+      expect(usersService.remove).toHaveBeenCalledWith('test-id');
+    });
+
+    it('should throw BadRequestException for an incorrect password', async () => {
+      (mockUser.validatePassword as jest.Mock).mockResolvedValue(false);
+
+      await expect(service.deleteAccount('test-id', 'wrong')).rejects.toThrow(
+        BadRequestException
+      );
+      expect(messagesService.deleteUserData).not.toHaveBeenCalled();
+      expect(usersService.remove).not.toHaveBeenCalled();
+    });
+
+    it('should keep the user when the messages data could not be cleaned up', async () => {
+      (mockUser.validatePassword as jest.Mock).mockResolvedValue(true);
+      messagesService.deleteUserData.mockRejectedValueOnce(
+        new Error('Mongo down')
+      );
+
+      await expect(
+        service.deleteAccount('test-id', 'Password123!')
+      ).rejects.toThrow('Mongo down');
+      expect(usersService.remove).not.toHaveBeenCalled();
     });
   });
 });
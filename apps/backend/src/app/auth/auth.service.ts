@@ -1,21 +1,46 @@
 import {
+  Inject,
   Logger,
   Injectable,
+  ConflictException,
   BadRequestException,
   UnauthorizedException,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { plainToClass } from 'class-transformer';
+import { createHash, randomBytes, randomUUID } from 'crypto';
 
 import {
   AuthResponseDto,
   UserResponseDto,
+  RegisterResponseDto,
+  MfaChallengeResponseDto,
 } from '@backend/auth/dto/authentication.dto';
+import {
+  emailChangeMail,
+  emailChangedMail,
+  passwordResetMail,
+  emailVerificationMail,
+} from '@backend/auth/mails/account-mails';
 import { RegisterDto } from '@backend/auth/dto/register.dto';
 import { UserEntity } from '@backend/users/user.entity';
 import { UsersService } from '@backend/users/users.service';
+import { MessagesService } from '@backend/messages/messages.service';
+import { AUTH_CONSTANTS } from '@backend/auth/constants/auth.constants';
+import { MAILER } from '@backend/app/mailer/constants/mailer.constants';
+import { AccountTokensService } from '@backend/auth/account-tokens.service';
+import { MfaService } from '@backend/auth/mfa.service';
+import { SessionEntity } from '@backend/auth/session.entity';
+import { SessionsService } from '@backend/auth/sessions.service';
+import { TokenDenylistService } from '@backend/auth/token-denylist.service';
+import { SessionResponseDto } from '@backend/auth/dto/session-response.dto';
+import { RefreshTokensRepository } from '@backend/auth/refresh-tokens.repository';
 import { JwtPayloadInterface } from '@backend/auth/interfaces/jwt-payload.interface';
+import { ClientInfoInterface } from '@backend/auth/interfaces/client-info.interface';
+import { MailMessage } from '@backend/app/mailer/interfaces/mail-message.interface';
+
+import type { Mailer } from '@backend/app/mailer/interfaces/mailer.interface';
 
 @Injectable()
 export class AuthService {
@@ -24,7 +49,14 @@ export class AuthService {
   constructor(
     private usersService: UsersService,
     private jwtService: JwtService,
-    private configService: ConfigService
+    private configService: ConfigService,
+    private refreshTokensRepository: RefreshTokensRepository,
+    private tokenDenylistService: TokenDenylistService,
+    private sessionsService: SessionsService,
+    private accountTokensService: AccountTokensService,
+    private mfaService: MfaService,
+    private messagesService: MessagesService,
+    @Inject(MAILER) private mailer: Mailer
   ) {}
 
   /**
@@ -42,24 +74,29 @@ export class AuthService {
   }
 
   /**
-   * Registers a new user account and returns authentication tokens
+   * Registers a new user account and sends the email verifying its address
+   * 
+   * No tokens are issued: the user can log in once the address is verified.
+   * A verification email that cannot be sent does not fail the registration,
+   * a password reset verifies the address as well.
    * 
    * @param {RegisterDto} registerDto - The registration data containing user information
-   * @returns {Promise<AuthResponseDto>} Authentication response with access token and user data
+   * @returns {Promise<RegisterResponseDto>} The address the verification email was sent to
    * @throws {BadRequestException} When registration fails due to validation or creation errors
    * @throws {ConflictException} When a user with the email already exists (status 409)
    */
-  async register(registerDto: RegisterDto): Promise<AuthResponseDto> {
+  async register(registerDto: RegisterDto): Promise<RegisterResponseDto> {
+    let user: UserEntity;
+
     try {
-      const user = await this.usersService.create({
+      user = await this.usersService.create({
         email: registerDto.email,
         firstName: registerDto.firstName,
         lastName: registerDto.lastName,
         password: registerDto.password,
         isActive: true,
+        emailVerified: false,
       });
-
-      return this.generateAuthResponse(user);
     } catch (error: unknown) {
       if (error && typeof error === 'object' && 'status' in error) {
         if (error.status === 409) {
@@ -68,33 +105,278 @@ export class AuthService {
       }
       throw new BadRequestException("Error during registration");
     }
+
+    const token = this.accountTokensService.sign(user, 'verify-email');
+    await this.sendMail(
+      emailVerificationMail(user, this.frontendLink('/verify-email', token))
+    );
+
+    return {
+      message: 'Account created, check your email to verify your address',
+      email: user.email,
+    };
+  }
+
+  /**
+   * Verifies the email address of a user with the token sent to it
+   * 
+   * @param {string} token - The verification token received by email
+   * @returns {Promise<void>}
+   * @throws {BadRequestException} When the token is invalid, expired or was issued for another address
+   */
+  async verifyEmail(token: string): Promise<void> {
+    const user = await this.accountTokensService.verify(token, 'verify-email');
+    await this.usersService.markEmailVerified(user);
+
+    this.logger.log(`Email of user ${user.id} verified`);
+  }
+
+  /**
+   * Sends a password reset link to an address if it belongs to an active
+   * account, without telling whether it does
+   * 
+   * @param {string} email - The address of the account
+   * @returns {Promise<void>}
+   */
+  async forgotPassword(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    const token = this.accountTokensService.sign(user, 'reset-password');
+    await this.sendMail(
+      passwordResetMail(user, this.frontendLink('/reset-password', token))
+    );
+  }
+
+  /**
+   * Replaces the password of a user with the token sent by email, then
+   * ends all their sessions
+   * 
+   * The token can only be used once, as it is bound to the previous password.
+   * Receiving the email proves the address, which is verified as well.
+   * 
+   * @param {string} token - The reset token received by email
+   * @param {string} password - The new password
+   * @returns {Promise<string>} The ID of the user, whose connections must be closed
+   * @throws {BadRequestException} When the token is invalid, expired or was already used
+   */
+  async resetPassword(token: string, password: string): Promise<string> {
+    const user = await this.accountTokensService.verify(
+      token,
+      'reset-password'
+    );
+
+    await this.usersService.setPassword(user, password);
+    await this.usersService.markEmailVerified(user);
+    await this.sessionsService.endAll(user.id);
+
+    this.logger.log(`Password of user ${user.id} reset`);
+
+    return user.id;
+  }
+
+  /**
+   * Replaces the password of a user who knows the current one, then ends
+   * their other sessions
+   * 
+   * @param {string} userId - The ID of the user
+   * @param {string} currentPassword - The current password
+   * @param {string} newPassword - The new password
+   * @param {string} [accessToken] - The access token the request was authenticated with, whose session is kept
+   * @returns {Promise<string[]>} The IDs of the ended sessions, whose connections must be closed
+   * @throws {BadRequestException} When the current password is incorrect or the new one is the same
+   */
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    accessToken?: string
+  ): Promise<string[]> {
+    const user = await this.usersService.findOne(userId);
+    await this.assertPassword(user, currentPassword);
+
+    if (currentPassword === newPassword) {
+      throw new BadRequestException(
+        'New password must be different from the current one'
+      );
+    }
+
+    await this.usersService.setPassword(user, newPassword);
+    const payload = this.decodeAccessToken(userId, accessToken);
+    const endedSessionIds = await this.sessionsService.endAll(
+      userId,
+      payload?.sid
+    );
+
+    this.logger.log(`Password of user ${userId} changed`);
+
+    return endedSessionIds;
+  }
+
+  /**
+   * Sends a confirmation link to the new email address of a user, the
+   * current address staying in use until the link is followed
+   * 
+   * @param {string} userId - The ID of the user
+   * @param {string} email - The new address
+   * @param {string} password - The current password
+   * @returns {Promise<void>}
+   * @throws {BadRequestException} When the password is incorrect or the address is already the user's
+   * @throws {ConflictException} When the address belongs to another user
+   */
+  async requestEmailChange(
+    userId: string,
+    email: string,
+    password: string
+  ): Promise<void> {
+    const user = await this.usersService.findOne(userId);
+    await this.assertPassword(user, password);
+
+    if (email === user.email) {
+      throw new BadRequestException('This is already your email address');
+    }
+
+    if (await this.usersService.findByEmail(email)) {
+      throw new ConflictException('A user with this email already exists');
+    }
+
+    const token = this.accountTokensService.signEmailChange(user, email);
+    await this.sendMail(
+      emailChangeMail(user, email, this.frontendLink('/confirm-email', token))
+    );
+  }
+
+  /**
+   * Replaces the email address of a user with the one the token was sent
+   * to, then tells the previous address
+   * 
+   * @param {string} token - The confirmation token received at the new address
+   * @returns {Promise<void>}
+   * @throws {BadRequestException} When the token is invalid, expired or already used
+   * @throws {ConflictException} When another user registered the address in the meantime
+   */
+  async confirmEmailChange(token: string): Promise<void> {
+    const { user, email } =
+      await this.accountTokensService.verifyEmailChange(token);
+    const notice = emailChangedMail(
+      user,
+      email,
+      this.frontendLink('/forgot-password')
+    );
+
+    await this.usersService.changeEmail(user, email);
+    await this.sendMail(notice);
+
+    this.logger.log(`Email of user ${user.id} changed`);
+  }
+
+  /**
+   * Deletes the account of a user who confirmed it with their password
+   * 
+   * Rooms and messages are cleaned up first, so that a failure leaves an
+   * account that can still be deleted again rather than data pointing to
+   * a missing user.
+   * 
+   * @param {string} userId - The ID of the user
+   * @param {string} password - The current password
+   * @returns {Promise<void>}
+   * @throws {BadRequestException} When the password is incorrect
+   */
+  async deleteAccount(userId: string, password: string): Promise<void> {
+    const user = await this.usersService.findOne(userId);
+    await this.assertPassword(user, password);
+
+    await this.messagesService.deleteUserData(userId);
+    await this.sessionsService.endAll(userId);
+    await this.usersService.remove(userId);
+
+    this.logger.log(`Account of user ${userId} deleted`);
   }
 
   /**
    * Authenticates a user and generates JWT tokens for access
    * 
+   * A user with two-factor authentication enabled gets a short-lived token
+   * instead, exchanged with a code on verifyMfa for the tokens.
+   * 
    * @param {UserEntity} user - The validated user entity to authenticate
-   * @returns {Promise<AuthResponseDto>} Authentication response with access token and user data
+   * @param {ClientInfoInterface} [client] - IP address and user agent of the request, recorded on the session
+   * @returns {Promise<AuthResponseDto | MfaChallengeResponseDto>} Authentication response with access token and user data, or the second factor challenge
    * @throws {UnauthorizedException} When user is undefined or invalid
    */
-  async login(user: UserEntity): Promise<AuthResponseDto> {
+  async login(
+    user: UserEntity,
+    client: ClientInfoInterface = {}
+  ): Promise<AuthResponseDto | MfaChallengeResponseDto> {
     if (!user) {
       this.logger.error('Login failed: user is undefined');
       throw new UnauthorizedException('User not found');
     }
 
-    return this.generateAuthResponse(user);
+    if (user.mfaEnabledAt) {
+      return {
+        mfaRequired: true,
+        mfaToken: this.accountTokensService.sign(user, 'mfa'),
+        expiresIn: this.parseExpirationTime(
+          this.configService.get<string>(
+            'MFA_PENDING_TOKEN_EXPIRATION',
+            AUTH_CONSTANTS.MFA_PENDING_TOKEN_EXPIRATION
+          ),
+          300
+        ),
+      };
+    }
+
+    return this.generateAuthResponse(user, client);
+  }
+
+  /**
+   * Completes a login with two-factor authentication
+   * 
+   * @param {string} mfaToken - The token returned by login
+   * @param {string} code - A code of the authenticator app or a recovery code
+   * @param {ClientInfoInterface} [client] - IP address and user agent of the request, recorded on the session
+   * @returns {Promise<AuthResponseDto>} Authentication response with access token and user data
+   * @throws {UnauthorizedException} When the token is invalid or expired, or the code is invalid
+   */
+  async verifyMfa(
+    mfaToken: string,
+    code: string,
+    client: ClientInfoInterface = {}
+  ): Promise<AuthResponseDto> {
+    const user = await this.accountTokensService.verify(mfaToken, 'mfa');
+
+    if (!(await this.mfaService.verifyCode(user, code))) {
+      throw new UnauthorizedException('Invalid code');
+    }
+
+    return this.generateAuthResponse(user, client);
   }
 
   /**
-   * Generates an authentication response with JWT token and user data
+   * Generates an authentication response with JWT token, refresh token and user data
+   * 
+   * A login opens a new session, whose ID is the family of its refresh tokens
+   * and the `sid` claim of its access tokens. A rotation continues the session
+   * of the token it replaces.
    * 
    * @private
    * @param {UserEntity} user - The user entity to generate tokens for
-   * @returns {AuthResponseDto} Complete authentication response with token and user info
+   * @param {ClientInfoInterface} client - IP address and user agent of the request
+   * @param {SessionEntity} [session] - The session of the rotated refresh token
+   * @param {string} [refreshTokenId] - The ID reserved for the new refresh token
+   * @returns {Promise<AuthResponseDto>} Complete authentication response with tokens and user info
    * @throws {UnauthorizedException} When user or user.id is invalid
    */
-  private generateAuthResponse(user: UserEntity): AuthResponseDto {
+  private async generateAuthResponse(
+    user: UserEntity,
+    client: ClientInfoInterface,
+    session?: SessionEntity,
+    refreshTokenId?: string
+  ): Promise<AuthResponseDto> {
     if (!user || !user.id) {
       this.logger.error(
         'Cannot generate auth response: user or user.id is undefined'
@@ -102,14 +384,48 @@ export class AuthService {
       throw new UnauthorizedException('Invalid user data');
     }
 
+    const expiresIn = this.parseExpirationTime(
+      this.configService.get<string>('JWT_EXPIRATION', '1h')
+    );
+    const refreshExpiresIn = this.parseExpirationTime(
+      this.configService.get<string>(
+        'REFRESH_TOKEN_EXPIRATION',
+        AUTH_CONSTANTS.REFRESH_TOKEN_EXPIRATION
+      ),
+      AUTH_CONSTANTS.REFRESH_TOKEN_DEFAULT_TTL
+    );
+    const tokens = {
+      accessTokenExpiresAt: new Date(Date.now() + expiresIn * 1000),
+      expiresAt: new Date(Date.now() + refreshExpiresIn * 1000),
+    };
+
+    if (session) {
+      await this.sessionsService.recordRefresh(session, client, tokens);
+    } else {
+      await this.refreshTokensRepository.deleteExpired(user.id);
+      session = await this.sessionsService.create(user.id, client, tokens);
+    }
+
     const payload: JwtPayloadInterface = {
       sub: user.id,
       email: user.email,
+      jti: randomUUID(),
+      sid: session.id,
     };
 
-    const expiresIn = this.configService.get<string>('JWT_EXPIRATION', '1h');
     const accessToken = this.jwtService.sign(payload);
 
+    const refreshToken = randomBytes(
+      AUTH_CONSTANTS.REFRESH_TOKEN_BYTES
+    ).toString('base64url');
+    await this.refreshTokensRepository.create({
+      id: refreshTokenId,
+      tokenHash: this.hashRefreshToken(refreshToken),
+      familyId: session.id,
+      userId: user.id,
+      expiresAt: tokens.expiresAt,
+    });
+
     const userResponse = plainToClass(UserResponseDto, user, {
       excludeExtraneousValues: true,
     });
@@ -117,22 +433,36 @@ export class AuthService {
     return {
       accessToken,
       tokenType: 'Bearer',
-      expiresIn: this.parseExpirationTime(expiresIn),
+      expiresIn,
+      refreshToken,
+      refreshExpiresIn,
       user: userResponse,
     };
   }
 
+  /**
+   * Hashes a refresh token, only the hash being stored
+   * 
+   * @private
+   * @param {string} refreshToken - The refresh token sent to the client
+   * @returns {string} SHA-256 hash of the token (hex)
+   */
+  private hashRefreshToken(refreshToken: string): string {
+    return createHash('sha256').update(refreshToken).digest('hex');
+  }
+
   /**
    * Parses JWT expiration time string and converts to seconds
    * 
    * @private
    * @param {string} expiration - Expiration string in format like '1h', '30m', '7d', '3600s'
-   * @returns {number} Expiration time in seconds (defaults to 3600 if parsing fails)
+   * @param {number} [fallback=3600] - Expiration time in seconds used if parsing fails
+   * @returns {number} Expiration time in seconds (defaults to the fallback if parsing fails)
    */
-  private parseExpirationTime(expiration: string): number {
+  private parseExpirationTime(expiration: string, fallback = 3600): number {
     const match = expiration.match(/^(\d+)([smhd])$/);
     if (!match) {
-      return 3600;
+      return fallback;
     }
 
     const [, value, unit] = match;
@@ -148,35 +478,248 @@ export class AuthService {
       case 'd':
         return numValue * 86400;
       default:
-        return 3600;
+        return fallback;
     }
   }
 
   /**
-   * Refreshes an existing JWT token by generating a new one for the user
+   * Exchanges a refresh token for a new access token and refresh token
+   * 
+   * The presented token is revoked and replaced by a new one of the same
+   * family. A token presented again once revoked has been stolen or replayed,
+   * so its whole family is revoked, logging out both the thief and the user.
    * 
-   * @param {UserEntity} user - The user entity to refresh tokens for
+   * @param {string} refreshToken - The refresh token issued by a previous authentication
+   * @param {ClientInfoInterface} [client] - IP address and user agent of the request, recorded on the session
    * @returns {Promise<AuthResponseDto>} New authentication response with fresh tokens
-   * @throws {UnauthorizedException} When user is not found or account is deactivated
+   * @throws {UnauthorizedException} When the token is unknown, expired, reused, its session was revoked, or the user is not found or deactivated
    */
-  async refreshToken(user: UserEntity): Promise<AuthResponseDto> {
-    const currentUser = await this.usersService.findOne(user.id);
+  async refreshToken(
+    refreshToken: string,
+    client: ClientInfoInterface = {}
+  ): Promise<AuthResponseDto> {
+    const storedToken = await this.refreshTokensRepository.findByHash(
+      this.hashRefreshToken(refreshToken)
+    );
+
+    if (!storedToken) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (storedToken.revokedAt) {
+      this.logger.warn(
+        `Refresh token reuse detected for user ${storedToken.userId}, revoking family ${storedToken.familyId}`
+      );
+
+      // The access tokens already issued to the session are denied as well
+      const reusedSession = await this.sessionsService.findActive(
+        storedToken.familyId
+      );
+      if (reusedSession && reusedSession.userId === storedToken.userId) {
+        await this.sessionsService.end(reusedSession);
+      } else {
+        await this.refreshTokensRepository.revokeFamily(storedToken.familyId);
+      }
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (storedToken.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException('Refresh token expired');
+    }
+
+    const session = await this.sessionsService.findActive(storedToken.familyId);
+
+    if (!session || session.userId !== storedToken.userId) {
+      await this.refreshTokensRepository.revokeFamily(storedToken.familyId);
+      throw new UnauthorizedException('Session revoked');
+    }
+
+    const currentUser = await this.usersService
+      .findOne(storedToken.userId)
+      .catch(() => null);
 
     if (!currentUser || !currentUser.isActive) {
+      await this.refreshTokensRepository.revokeFamily(storedToken.familyId);
       throw new UnauthorizedException('Unauthorized user');
     }
 
-    return this.generateAuthResponse(currentUser);
+    const replacementId = randomUUID();
+    const isRevoked = await this.refreshTokensRepository.revoke(
+      storedToken.id,
+      replacementId
+    );
+
+    // Another request rotated the same token first
+    if (!isRevoked) {
+      this.logger.warn(
+        `Concurrent refresh token use for user ${storedToken.userId}, revoking family ${storedToken.familyId}`
+      );
+      await this.sessionsService.end(session);
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    return this.generateAuthResponse(
+      currentUser,
+      client,
+      session,
+      replacementId
+    );
   }
 
   /**
-   * Logs out a user by invalidating their session (currently just logs the action)
+   * Logs out a user by ending the session of their access token
+   * 
+   * Tokens issued before sessions existed have no session, only the
+   * presented access token and refresh token family are revoked then.
    * 
    * @param {string} userId - The ID of the user to log out
-   * @returns {Promise<void>} Promise that resolves when logout is complete
+   * @param {string} [accessToken] - The access token the request was authenticated with
+   * @param {string} [refreshToken] - The refresh token of the session, if the client has one
+   * @returns {Promise<string | undefined>} The ID of the ended session, if any
    */
-  async logout(userId: string): Promise<void> {
+  async logout(
+    userId: string,
+    accessToken?: string,
+    refreshToken?: string
+  ): Promise<string | undefined> {
+    const payload = this.decodeAccessToken(userId, accessToken);
+    let sessionId: string | undefined;
+
+    if (payload?.sid) {
+      const session = await this.sessionsService.findActive(payload.sid);
+
+      if (session && session.userId === userId) {
+        await this.sessionsService.end(session);
+        sessionId = session.id;
+      }
+    }
+
+    // The token only needs to be denied until it expires
+    if (!sessionId && payload?.jti && payload.exp) {
+      await this.tokenDenylistService.revoke(
+        payload.jti,
+        userId,
+        new Date(payload.exp * 1000)
+      );
+    }
+
+    if (refreshToken) {
+      const storedToken = await this.refreshTokensRepository.findByHash(
+        this.hashRefreshToken(refreshToken)
+      );
+
+      if (storedToken && storedToken.userId === userId) {
+        await this.refreshTokensRepository.revokeFamily(storedToken.familyId);
+      }
+    }
+
     this.logger.log(`User ${userId} logged out`);
-    return Promise.resolve();
+
+    return sessionId;
+  }
+
+  /**
+   * Lists the active sessions of a user
+   * 
+   * @param {string} userId - The ID of the user
+   * @param {string} [accessToken] - The access token the request was authenticated with, used to flag the current session
+   * @returns {Promise<SessionResponseDto[]>} The sessions, most recently used first
+   */
+  async getSessions(
+    userId: string,
+    accessToken?: string
+  ): Promise<SessionResponseDto[]> {
+    const payload = this.decodeAccessToken(userId, accessToken);
+    return this.sessionsService.findAllForUser(userId, payload?.sid);
+  }
+
+  /**
+   * Signs a user out of one of their sessions
+   * 
+   * @param {string} userId - The ID of the user
+   * @param {string} sessionId - The ID of the session to revoke
+   * @returns {Promise<void>}
+   * @throws {NotFoundException} When the session does not exist, is not active or belongs to another user
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    await this.sessionsService.revoke(userId, sessionId);
+  }
+
+  /**
+   * Checks the password a user typed to confirm a sensitive change
+   * 
+   * @private
+   * @param {UserEntity} user - The user
+   * @param {string} password - The password typed
+   * @returns {Promise<void>}
+   * @throws {BadRequestException} When the password is incorrect
+   */
+  private async assertPassword(
+    user: UserEntity,
+    password: string
+  ): Promise<void> {
+    if (!(await user.validatePassword(password))) {
+      throw new BadRequestException('Incorrect password');
+    }
+  }
+
+  /**
+   * Builds a link to a page of the frontend, carrying a token if any
+   * 
+   * @private
+   * @param {string} path - The path of the page
+   * @param {string} [token] - The token to pass to the page
+   * @returns {string} The absolute link
+   */
+  private frontendLink(path: string, token?: string): string {
+    const url = new URL(
+      path,
+      this.configService.get<string>('FRONTEND_URL', 'http://localhost:4200')
+    );
+    if (token) {
+      url.searchParams.set('token', token);
+    }
+    return url.toString();
+  }
+
+  /**
+   * Sends an email, logging instead of throwing when it cannot be sent so
+   * the caller does not reveal whether an account exists
+   * 
+   * @private
+   * @param {MailMessage} mail - The email to send
+   * @returns {Promise<void>}
+   */
+  private async sendMail(mail: MailMessage): Promise<void> {
+    try {
+      await this.mailer.send(mail);
+    } catch (error) {
+      this.logger.error(
+        `Failed to send "${mail.subject}" email: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Decodes an access token already verified by the JWT guard
+   * 
+   * @private
+   * @param {string} userId - The ID of the authenticated user
+   * @param {string} [accessToken] - The access token to decode
+   * @returns {JwtPayloadInterface | null} The payload, or null if missing or issued to another user
+   */
+  private decodeAccessToken(
+    userId: string,
+    accessToken?: string
+  ): JwtPayloadInterface | null {
+    if (!accessToken) {
+      return null;
+    }
+
+    const payload = this.jwtService.decode<JwtPayloadInterface | null>(
+      accessToken
+    );
+
+    return payload?.sub === userId ? payload : null;
   }
 }
@@ -2,6 +2,35 @@ export const AUTH_CONSTANTS = {
   JWT_SECRET: process.env.JWT_SECRET || 'production-key-change',
   JWT_EXPIRATION: process.env.JWT_EXPIRATION || '1h',
   BCRYPT_ROUNDS: 10,
+  REFRESH_TOKEN_EXPIRATION: '30d',
+  REFRESH_TOKEN_DEFAULT_TTL: 30 * 86400,
+  REFRESH_TOKEN_BYTES: 48,
+  EMAIL_VERIFICATION_TOKEN_EXPIRATION: '24h',
+  EMAIL_CHANGE_TOKEN_EXPIRATION: '24h',
+  PASSWORD_RESET_TOKEN_EXPIRATION: '1h',
+  MFA_PENDING_TOKEN_EXPIRATION: '5m',
+  MFA_ISSUER: 'Chat',
+  MFA_RECOVERY_CODES: 10,
+  TOTP_SECRET_BYTES: 20,
+  TOTP_PERIOD: 30,
+  TOTP_DIGITS: 6,
+  TOTP_WINDOW: 1,
+  OIDC_PROVIDER_NAME: 'SSO',
+  OIDC_SCOPES: 'openid email profile',
+  OIDC_CALLBACK_PATH: '/oidc/callback',
+  OIDC_FLOW_TOKEN_EXPIRATION: '10m',
+  OIDC_CLOCK_TOLERANCE: 60,
+  LOGIN_MAX_FAILURES: 5,
+  LOGIN_MAX_FAILURES_PER_IP: 20,
+  LOGIN_FAILURES_WINDOW_MS: 15 * 60 * 1000,
+  LOGIN_LOCKOUT_MS: 60 * 1000,
+  LOGIN_MAX_LOCKOUT_MS: 60 * 60 * 1000,
+  LOGIN_LOCKOUT_MEMORY_MS: 24 * 60 * 60 * 1000,
+  LOGIN_RATE_LIMIT: { limit: 10, windowMs: 60 * 1000 },
+  REGISTER_RATE_LIMIT: { limit: 5, windowMs: 60 * 60 * 1000 },
+  ACCOUNT_TOKEN_RATE_LIMIT: { limit: 10, windowMs: 15 * 60 * 1000 },
+  MFA_RATE_LIMIT: { limit: 10, windowMs: 60 * 1000 },
+  PASSWORD_CHECK_RATE_LIMIT: { limit: 5, windowMs: 15 * 60 * 1000 },
 };
 
 export const IS_PUBLIC_KEY = 'isPublic';
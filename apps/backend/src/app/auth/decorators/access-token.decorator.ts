@@ -0,0 +1,12 @@
+import { ExtractJwt } from 'passport-jwt';
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+const extractToken = ExtractJwt.fromAuthHeaderAsBearerToken();
+
+export const AccessToken = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext) => {
+    const request = ctx.switchToHttp().getRequest();
+
+    return extractToken(request) ?? undefined;
+  }
+);
@@ -0,0 +1,14 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+import { ClientInfoInterface } from '@backend/auth/interfaces/client-info.interface';
+
+export const ClientInfo = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): ClientInfoInterface => {
+    const request = ctx.switchToHttp().getRequest();
+
+    return {
+      ipAddress: request.ip,
+      userAgent: request.headers?.['user-agent'],
+    };
+  }
+);
@@ -0,0 +1,49 @@
+/**
+ * Browsers recognized in user agents, in matching order: Edge and Opera
+ * user agents also contain "Chrome", and Chrome ones also contain "Safari"
+ */
+const BROWSERS: [RegExp, string][] = [
+  [/\bEdg(e|A|iOS)?\//, 'Edge'],
+  [/\b(OPR|Opera)\//, 'Opera'],
+  [/\b(Firefox|FxiOS)\//, 'Firefox'],
+  [/\b(Chrome|CriOS)\//, 'Chrome'],
+  [/\bVersion\/[\d.]+.*Safari\//, 'Safari'],
+];
+
+/**
+ * Operating systems recognized in user agents, in matching order: iOS user
+ * agents also contain "Mac OS X", and Android ones also contain "Linux"
+ */
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/\bWindows\b/, 'Windows'],
+  [/\b(iPhone|iPad|iPod)\b/, 'iOS'],
+  [/\bMac OS X\b/, 'macOS'],
+  [/\bAndroid\b/, 'Android'],
+  [/\bCrOS\b/, 'ChromeOS'],
+  [/\bLinux\b/, 'Linux'],
+];
+
+export const UNKNOWN_DEVICE = 'Unknown device';
+
+/**
+ * Describes the device of a session from its user agent, such as
+ * "Firefox (Windows)", to be recognized in the list of sessions
+ *
+ * @param {string} [userAgent] - The User-Agent header of the request
+ * @returns {string} The browser and operating system, or "Unknown device"
+ */
+export function describeDevice(userAgent?: string): string {
+  if (!userAgent) {
+    return UNKNOWN_DEVICE;
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) =>
+    pattern.test(userAgent)
+  )?.[1];
+
+  if (browser && os) {
+    return `${browser} (${os})`;
+  }
+  return browser ?? os ?? UNKNOWN_DEVICE;
+}
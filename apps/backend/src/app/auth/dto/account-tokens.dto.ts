@@ -0,0 +1,75 @@
+import {
+  IsEmail,
+  IsString,
+  MinLength,
+  MaxLength,
+  Matches,
+  IsNotEmpty,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for email verification request.
+ * Carries the token sent by email on registration.
+ */
+export class VerifyEmailDto {
+  @ApiProperty({
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    description: 'Verification token received by email',
+  })
+  @IsString({ message: 'Token must be a string' })
+  @IsNotEmpty({ message: 'Token is required' })
+  token!: string;
+}
+
+/**
+ * DTO for forgotten password request.
+ * A reset link is sent to the address if it belongs to an active account.
+ */
+export class ForgotPasswordDto {
+  @ApiProperty({
+    example: 'user@example.com',
+    description: 'Email address of the account',
+    format: 'email',
+  })
+  @IsEmail({}, { message: 'Invalid email' })
+  @IsNotEmpty({ message: 'Email is required' })
+  email!: string;
+}
+
+/**
+ * DTO for password reset request.
+ * Carries the token sent by email and the new password, validated with
+ * the same complexity requirements as on registration.
+ */
+export class ResetPasswordDto {
+  @ApiProperty({
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    description: 'Reset token received by email',
+  })
+  @IsString({ message: 'Token must be a string' })
+  @IsNotEmpty({ message: 'Token is required' })
+  token!: string;
+
+  @ApiProperty({
+    example: 'SecurePass123!',
+    description:
+      'New password (min 8 characters, 1 uppercase, 1 lowercase, 1 digit, 1 special character)',
+    minLength: 8,
+    maxLength: 32,
+    format: 'password',
+  })
+  @IsString({ message: 'Password must be a string' })
+  @IsNotEmpty({ message: 'Password is required' })
+  @MinLength(8, {
+    message: 'Password must be at least 8 characters',
+  })
+  @MaxLength(32, {
+    message: 'Password cannot exceed 32 characters',
+  })
+  @Matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/, {
+    message:
+      'Password must contain at least one uppercase letter, one lowercase letter, one number and one special character',
+  })
+  password!: string;
+}
@@ -0,0 +1,86 @@
+import {
+  IsEmail,
+  IsString,
+  MinLength,
+  MaxLength,
+  Matches,
+  IsNotEmpty,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for password change request.
+ * The new password is validated with the same complexity requirements
+ * as on registration.
+ */
+export class ChangePasswordDto {
+  @ApiProperty({
+    example: 'OldPass123!',
+    description: 'Current password',
+    format: 'password',
+  })
+  @IsString({ message: 'Current password must be a string' })
+  @IsNotEmpty({ message: 'Current password is required' })
+  currentPassword!: string;
+
+  @ApiProperty({
+    example: 'SecurePass123!',
+    description:
+      'New password (min 8 characters, 1 uppercase, 1 lowercase, 1 digit, 1 special character)',
+    minLength: 8,
+    maxLength: 32,
+    format: 'password',
+  })
+  @IsString({ message: 'Password must be a string' })
+  @IsNotEmpty({ message: 'Password is required' })
+  @MinLength(8, {
+    message: 'Password must be at least 8 characters',
+  })
+  @MaxLength(32, {
+    message: 'Password cannot exceed 32 characters',
+  })
+  @Matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/, {
+    message:
+      'Password must contain at least one uppercase letter, one lowercase letter, one number and one special character',
+  })
+  newPassword!: string;
+}
+
+/**
+ * DTO for email change request.
+ * The new address is only used once confirmed with the link sent to it.
+ */
+export class ChangeEmailDto {
+  @ApiProperty({
+    example: 'new@example.com',
+    description: 'New email address',
+    format: 'email',
+  })
+  @IsEmail({}, { message: 'Invalid email' })
+  @IsNotEmpty({ message: 'Email is required' })
+  email!: string;
+
+  @ApiProperty({
+    example: 'SecurePass123!',
+    description: 'Current password',
+    format: 'password',
+  })
+  @IsString({ message: 'Password must be a string' })
+  @IsNotEmpty({ message: 'Password is required' })
+  password!: string;
+}
+
+/**
+ * DTO for account deletion request.
+ * The password is asked again as the deletion cannot be undone.
+ */
+export class DeleteAccountDto {
+  @ApiProperty({
+    example: 'SecurePass123!',
+    description: 'Current password',
+    format: 'password',
+  })
+  @IsString({ message: 'Password must be a string' })
+  @IsNotEmpty({ message: 'Password is required' })
+  password!: string;
+}
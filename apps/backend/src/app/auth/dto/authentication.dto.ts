@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { Exclude, Expose } from 'class-transformer';
+import { Exclude, Expose, Transform } from 'class-transformer';
 
 /**
  * DTO for user information in authentication responses.
@@ -36,6 +36,46 @@ export class UserResponseDto {
   @Expose()
   lastName!: string;
 
+  @ApiProperty({
+    example: 'Johnny',
+    description: 'Name shown to the other users instead of the full name',
+    nullable: true,
+  })
+  @Expose()
+  displayName!: string | null;
+
+  @ApiProperty({
+    example: '/users/123e4567-e89b-12d3-a456-426614174000/avatar?v=lr0x5c00',
+    description: 'URL of the avatar, relative to the API',
+    nullable: true,
+  })
+  @Expose()
+  avatarUrl!: string | null;
+
+  @ApiProperty({
+    example: 'Développeur backend, fan de café',
+    description: 'Short presentation',
+    nullable: true,
+  })
+  @Expose()
+  bio!: string | null;
+
+  @ApiProperty({
+    example: 'Europe/Paris',
+    description: 'IANA time zone, null to use the one of the browser',
+    nullable: true,
+  })
+  @Expose()
+  timezone!: string | null;
+
+  @ApiProperty({
+    example: 'fr-FR',
+    description: 'Preferred language, null to use the one of the browser',
+    nullable: true,
+  })
+  @Expose()
+  locale!: string | null;
+
   @ApiProperty({
     example: true,
     description: 'Indicates if the user account is active',
@@ -66,9 +106,26 @@ export class UserResponseDto {
   @Expose()
   updatedAt!: Date;
 
+  @ApiProperty({
+    example: false,
+    description: 'Indicates if the user logs in with a second factor',
+  })
+  @Expose()
+  @Transform(({ obj }) => !!obj.mfaEnabledAt)
+  mfaEnabled!: boolean;
+
   @Exclude()
   password!: string;
 
+  @Exclude()
+  mfaSecret!: string | null;
+
+  @Exclude()
+  mfaRecoveryCodes!: string[];
+
+  @Exclude()
+  oidcSubject!: string | null;
+
   constructor(partial: Partial<UserResponseDto>) {
     Object.assign(this, partial);
   }
@@ -77,7 +134,8 @@ export class UserResponseDto {
 /**
  * DTO for authentication response after successful login or registration.
  * Contains the JWT access token and user information needed by the client
- * to authenticate subsequent requests and display user details.
+ * to authenticate subsequent requests and display user details, along with
+ * the refresh token used to renew the access token once expired.
  */
 export class AuthResponseDto {
   @ApiProperty({
@@ -98,9 +156,67 @@ export class AuthResponseDto {
   })
   expiresIn!: number;
 
+  @ApiProperty({
+    description:
+      'Refresh token, exchanged once on POST /auth/refresh for new tokens',
+    example: 'k3Jv9mQ2xN8pL5tR7wY1zA4bC6dE0fG...',
+  })
+  refreshToken!: string;
+
+  @ApiProperty({
+    description: 'Refresh token expiration time in seconds',
+    example: 2592000,
+  })
+  refreshExpiresIn!: number;
+
   @ApiProperty({
     description: 'User information',
     type: UserResponseDto,
   })
   user!: UserResponseDto;
 }
+
+/**
+ * DTO for registration response.
+ * No tokens are issued on registration: the user logs in once their email
+ * address is verified through the link sent to it.
+ */
+export class RegisterResponseDto {
+  @ApiProperty({
+    description: 'Outcome of the registration',
+    example: 'Account created, check your email to verify your address',
+  })
+  message!: string;
+
+  @ApiProperty({
+    description: 'Address the verification email was sent to',
+    example: 'user@example.com',
+    format: 'email',
+  })
+  email!: string;
+}
+
+/**
+ * DTO for login response when two-factor authentication is enabled.
+ * The password was valid: the token is exchanged with a code of the
+ * authenticator app on POST /auth/mfa/verify for the authentication response.
+ */
+export class MfaChallengeResponseDto {
+  @ApiProperty({
+    description: 'Always true, tells the challenge apart from a login',
+    example: true,
+  })
+  mfaRequired!: true;
+
+  @ApiProperty({
+    description: 'Short-lived token exchanged on POST /auth/mfa/verify',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  mfaToken!: string;
+
+  @ApiProperty({
+    description: 'MFA token expiration time in seconds',
+    example: 300,
+  })
+  expiresIn!: number;
+}
@@ -0,0 +1,64 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for a second factor code.
+ * Accepts a code of the authenticator app or a recovery code.
+ */
+export class MfaCodeDto {
+  @ApiProperty({
+    example: '123456',
+    description: 'Code of the authenticator app, or a recovery code',
+  })
+  @IsString({ message: 'Code must be a string' })
+  @IsNotEmpty({ message: 'Code is required' })
+  @MaxLength(20, { message: 'Code cannot exceed 20 characters' })
+  code!: string;
+}
+
+/**
+ * DTO for the second step of a login with two-factor authentication.
+ * Carries the token returned by POST /auth/login and the code.
+ */
+export class MfaVerifyDto extends MfaCodeDto {
+  @ApiProperty({
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    description: 'Token returned by POST /auth/login',
+  })
+  @IsString({ message: 'MFA token must be a string' })
+  @IsNotEmpty({ message: 'MFA token is required' })
+  mfaToken!: string;
+}
+
+/**
+ * DTO for two-factor enrollment response.
+ * The secret is added to an authenticator app by scanning the QR code of
+ * the URI, or typed manually.
+ */
+export class MfaEnrollmentResponseDto {
+  @ApiProperty({
+    description: 'TOTP secret (base32)',
+    example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+  })
+  secret!: string;
+
+  @ApiProperty({
+    description: 'otpauth URI, encoded in the QR code to scan',
+    example:
+      'otpauth://totp/Chat:user%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=Chat',
+  })
+  otpauthUri!: string;
+}
+
+/**
+ * DTO for two-factor confirmation response.
+ * The recovery codes are only returned once, each one can be used once.
+ */
+export class MfaRecoveryCodesResponseDto {
+  @ApiProperty({
+    description: 'One-time recovery codes',
+    example: ['3f9a1-c07be', '81d2e-4b6f0'],
+    type: [String],
+  })
+  recoveryCodes!: string[];
+}
@@ -0,0 +1,67 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for the single sign-on configuration.
+ * Tells the login page whether to offer the identity provider.
+ */
+export class OidcConfigurationResponseDto {
+  @ApiProperty({
+    example: true,
+    description: 'Indicates if single sign-on is configured',
+  })
+  enabled!: boolean;
+
+  @ApiProperty({
+    example: 'SSO',
+    description: 'Name of the identity provider shown on the login page',
+  })
+  providerName!: string;
+}
+
+/**
+ * DTO for the start of a single sign-on.
+ * The flow token is kept by the frontend until the provider redirects back.
+ */
+export class OidcAuthorizationResponseDto {
+  @ApiProperty({
+    description: 'Login page of the identity provider the browser is sent to',
+    example:
+      'https://idp.example.com/authorize?response_type=code&client_id=chat&code_challenge_method=S256',
+  })
+  authorizationUrl!: string;
+
+  @ApiProperty({
+    description:
+      'Signed state, nonce and PKCE code verifier of the request, sent back with the callback',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  flowToken!: string;
+}
+
+/**
+ * DTO for the callback of a single sign-on.
+ * Carries the parameters the identity provider redirected with.
+ */
+export class OidcCallbackDto {
+  @ApiProperty({
+    description: 'Authorization code returned by the identity provider',
+  })
+  @IsString({ message: 'Code must be a string' })
+  @IsNotEmpty({ message: 'Code is required' })
+  code!: string;
+
+  @ApiProperty({
+    description: 'State returned by the identity provider',
+  })
+  @IsString({ message: 'State must be a string' })
+  @IsNotEmpty({ message: 'State is required' })
+  state!: string;
+
+  @ApiProperty({
+    description: 'Token returned by GET /auth/oidc/authorize',
+  })
+  @IsString({ message: 'Flow token must be a string' })
+  @IsNotEmpty({ message: 'Flow token is required' })
+  flowToken!: string;
+}
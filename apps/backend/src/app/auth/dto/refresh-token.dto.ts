@@ -0,0 +1,33 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+/**
+ * DTO for refresh token request.
+ * Carries the refresh token issued by a previous authentication, exchanged
+ * for a new access token and a new refresh token.
+ */
+export class RefreshTokenDto {
+  @ApiProperty({
+    example: 'k3Jv9mQ2xN8pL5tR7wY1zA4bC6dE0fG...',
+    description:
+      'Refresh token issued by login, registration or a previous refresh',
+  })
+  @IsString({ message: 'Refresh token must be a string' })
+  @IsNotEmpty({ message: 'Refresh token is required' })
+  refreshToken!: string;
+}
+
+/**
+ * DTO for logout request.
+ * The refresh token, when sent, is revoked along with its whole family
+ * so the session cannot be refreshed anymore.
+ */
+export class LogoutDto {
+  @ApiPropertyOptional({
+    example: 'k3Jv9mQ2xN8pL5tR7wY1zA4bC6dE0fG...',
+    description: 'Refresh token of the session to close',
+  })
+  @IsOptional()
+  @IsString({ message: 'Refresh token must be a string' })
+  refreshToken?: string;
+}
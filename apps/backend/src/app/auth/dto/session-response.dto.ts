@@ -0,0 +1,57 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for an active session of the current user.
+ * Lets the user recognize where they are signed in and revoke the
+ * sessions they do not know.
+ */
+export class SessionResponseDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Unique session identifier',
+  })
+  id!: string;
+
+  @ApiProperty({
+    example: 'Firefox (Windows)',
+    description: 'Browser and operating system of the session',
+  })
+  device!: string;
+
+  @ApiProperty({
+    example: '203.0.113.42',
+    description: 'IP address of the last use of the session',
+    nullable: true,
+    type: String,
+  })
+  ipAddress!: string | null;
+
+  @ApiProperty({
+    example:
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:128.0) Gecko/20100101 Firefox/128.0',
+    description: 'User agent of the last use of the session',
+    nullable: true,
+    type: String,
+  })
+  userAgent!: string | null;
+
+  @ApiProperty({
+    example: '2024-01-01T00:00:00.000Z',
+    description: 'Login date',
+    format: 'date-time',
+  })
+  createdAt!: Date;
+
+  @ApiProperty({
+    example: '2024-01-01T00:00:00.000Z',
+    description: 'Date of the last login or token refresh',
+    format: 'date-time',
+  })
+  lastUsedAt!: Date;
+
+  @ApiProperty({
+    example: true,
+    description: 'Indicates if this is the session of the current request',
+  })
+  isCurrent!: boolean;
+}
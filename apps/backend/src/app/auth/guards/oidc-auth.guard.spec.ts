@@ -0,0 +1,24 @@
+import { AuthGuard } from '@nestjs/passport';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { OidcAuthGuard } from '@backend/auth/guards/oidc-auth.guard';
+
+describe('OidcAuthGuard', () => {
+  let guard: OidcAuthGuard;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [OidcAuthGuard],
+    }).compile();
+
+    guard = module.get<OidcAuthGuard>(OidcAuthGuard);
+  });
+
+  it('should be defined', () => {
+    expect(guard).toBeDefined();
+  });
+
+  it('should extend AuthGuard with oidc strategy', () => {
+    expect(guard).toBeInstanceOf(AuthGuard('oidc'));
+  });
+});
@@ -0,0 +1,4 @@
+export interface ClientInfoInterface {
+  ipAddress?: string;
+  userAgent?: string;
+}
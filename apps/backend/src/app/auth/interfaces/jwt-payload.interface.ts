@@ -1,6 +1,8 @@
 export interface JwtPayloadInterface {
   sub: string;
   email: string;
+  jti?: string;
+  sid?: string;
   iat?: number;
   exp?: number;
 }
@@ -0,0 +1,164 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { UserEntity } from '@backend/users/user.entity';
+import { UsersService } from '@backend/users/users.service';
+import { AUTH_CONSTANTS } from '@backend/auth/constants/auth.constants';
+import { LoginThrottleService } from '@backend/auth/login-throttle.service';
+import { MAILER } from '@backend/app/mailer/constants/mailer.constants';
+import { RATE_LIMIT_STORE } from '@backend/app/rate-limit/constants/rate-limit.constants';
+import { MemoryRateLimitStore } from '@backend/app/rate-limit/drivers/memory-rate-limit.driver';
+import { TooManyRequestsException } from '@backend/app/rate-limit/exceptions/too-many-requests.exception';
+
+describe('LoginThrottleService', () => {
+  let service: LoginThrottleService;
+  let store: MemoryRateLimitStore;
+
+  const email = 'test@example.com';
+  const ipAddress = '203.0.113.7';
+
+  const mockUser = {
+    id: 'user-id',
+    email,
+    firstName: 'Test',
+    lastName: 'User',
+    isActive: true,
+  } as UserEntity;
+
+  const mockUsersService = {
+    findByEmail: jest.fn(),
+  };
+
+  const mockMailer = {
+    send: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) => defaultValue),
+  };
+
+  const failLogins = async (count: number, ip = ipAddress) => {
+    for (let i = 0; i < count; i++) {
+      await service.recordFailure(email, ip).catch(() => undefined);
+    }
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    store = new MemoryRateLimitStore(60000);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginThrottleService,
+        { provide: RATE_LIMIT_STORE, useValue: store },
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: MAILER, useValue: mockMailer },
+      ],
+    }).compile();
+
+    service = module.get<LoginThrottleService>(LoginThrottleService);
+
+    mockUsersService.findByEmail.mockResolvedValue(mockUser);
+    mockMailer.send.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    store.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  describe('recordFailure', () => {
+    it('should lock the account once it reaches the limit', async () => {
+      await failLogins(AUTH_CONSTANTS.LOGIN_MAX_FAILURES - 1);
+      await expect(service.assertNotLocked(email)).resolves.toBeUndefined();
+
+      await expect(service.recordFailure(email, ipAddress)).rejects.toThrow(
+        TooManyRequestsException
+      );
+      await expect(service.assertNotLocked('TEST@example.com')).rejects.toThrow(
+        'Account temporarily locked after too many failed logins'
+      );
+    });
+
+    it('should email the owner of the locked account', async () => {
+      await failLogins(AUTH_CONSTANTS.LOGIN_MAX_FAILURES);
+
+      expect(mockMailer.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: email,
+          subject: 'Connexion à votre compte bloquée',
+          text: expect.stringContaining(
+            'http://localhost:4200/forgot-password'
+          ),
+        })
+      );
+    });
+
+    it('should not email anyone for an unknown account', async () => {
+      mockUsersService.findByEmail.mockResolvedValue(null);
+
+      await failLogins(AUTH_CONSTANTS.LOGIN_MAX_FAILURES);
+
+      expect(mockMailer.send).not.toHaveBeenCalled();
+      await expect(service.assertNotLocked(email)).rejects.toThrow(
+        TooManyRequestsException
+      );
+    });
+
+    it('should double the lockout each time the account is locked again', async () => {
+      await failLogins(AUTH_CONSTANTS.LOGIN_MAX_FAILURES);
+      jest.advanceTimersByTime(AUTH_CONSTANTS.LOGIN_LOCKOUT_MS);
+      await expect(service.assertNotLocked(email)).resolves.toBeUndefined();
+
+      await failLogins(AUTH_CONSTANTS.LOGIN_MAX_FAILURES);
+      jest.advanceTimersByTime(AUTH_CONSTANTS.LOGIN_LOCKOUT_MS);
+
+      const error = await service.assertNotLocked(email).catch((e) => e);
+      expect(error).toBeInstanceOf(TooManyRequestsException);
+      expect(error.getResponse()).toMatchObject({
+        retryAfter: AUTH_CONSTANTS.LOGIN_LOCKOUT_MS / 1000,
+      });
+    });
+
+    it('should refuse an IP reaching its limit whatever the account', async () => {
+      for (let i = 0; i < AUTH_CONSTANTS.LOGIN_MAX_FAILURES_PER_IP; i++) {
+        await service.recordFailure(`user${i}@example.com`, ipAddress);
+      }
+
+      await expect(
+        service.assertNotLocked('other@example.com', ipAddress)
+      ).rejects.toThrow('Too many failed logins, try again later');
+      await expect(
+        service.assertNotLocked('other@example.com', '198.51.100.1')
+      ).resolves.toBeUndefined();
+    });
+
+    it('should let logins through when the store fails', async () => {
+      jest
+        .spyOn(store, 'increment')
+        .mockRejectedValue(new Error('Redis connection closed'));
+      jest
+        .spyOn(store, 'get')
+        .mockRejectedValue(new Error('Redis connection closed'));
+
+      await expect(
+        service.recordFailure(email, ipAddress)
+      ).resolves.toBeUndefined();
+      await expect(
+        service.assertNotLocked(email, ipAddress)
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('recordSuccess', () => {
+    it('should clear the failures of the account', async () => {
+      await failLogins(AUTH_CONSTANTS.LOGIN_MAX_FAILURES - 1);
+      await service.recordSuccess(email);
+      await failLogins(AUTH_CONSTANTS.LOGIN_MAX_FAILURES - 1);
+
+      await expect(service.assertNotLocked(email)).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { UsersService } from '@backend/users/users.service';
+import { accountLockedMail } from '@backend/auth/mails/account-mails';
+import { AUTH_CONSTANTS } from '@backend/auth/constants/auth.constants';
+import { MAILER } from '@backend/app/mailer/constants/mailer.constants';
+import type { Mailer } from '@backend/app/mailer/interfaces/mailer.interface';
+import { RATE_LIMIT_STORE } from '@backend/app/rate-limit/constants/rate-limit.constants';
+import type {
+  RateLimitStore,
+  RateLimitCounter,
+} from '@backend/app/rate-limit/interfaces/rate-limit-store.interface';
+import { TooManyRequestsException } from '@backend/app/rate-limit/exceptions/too-many-requests.exception';
+
+/**
+ * Throttles password logins to slow down credential guessing
+ *
+ * Failed logins are counted per account and per client IP. An account
+ * reaching LOGIN_MAX_FAILURES is locked, each new lockout within a day
+ * lasting twice as long as the previous one, and its owner is notified
+ * by email. An IP reaching LOGIN_MAX_FAILURES_PER_IP is refused until
+ * its failures expire, whatever the account.
+ *
+ * A store that cannot be reached lets logins through.
+ */
+@Injectable()
+export class LoginThrottleService {
+  private readonly logger = new Logger(LoginThrottleService.name);
+
+  constructor(
+    @Inject(RATE_LIMIT_STORE) private store: RateLimitStore,
+    private usersService: UsersService,
+    private configService: ConfigService,
+    @Inject(MAILER) private mailer: Mailer
+  ) {}
+
+  /**
+   * Refuses a login attempt while the account or the client IP is locked
+   *
+   * @param {string} email - The email the login is attempted for
+   * @param {string} [ipAddress] - The IP address of the client
+   * @returns {Promise<void>}
+   * @throws {TooManyRequestsException} When the account or the IP is locked (status 429)
+   */
+  async assertNotLocked(email: string, ipAddress?: string): Promise<void> {
+    const [lockout, ipFailures] = await Promise.all([
+      this.read(this.lockoutKey(email)),
+      ipAddress ? this.read(this.ipKey(ipAddress)) : null,
+    ]);
+
+    if (lockout) {
+      throw this.lockedException(lockout.resetInMs);
+    }
+
+    if (
+      ipFailures &&
+      ipFailures.count >= AUTH_CONSTANTS.LOGIN_MAX_FAILURES_PER_IP
+    ) {
+      throw new TooManyRequestsException(
+        'Too many failed logins, try again later',
+        Math.ceil(ipFailures.resetInMs / 1000)
+      );
+    }
+  }
+
+  /**
+   * Counts a failed login, locking the account once it reaches the limit
+   *
+   * @param {string} email - The email the login was attempted for
+   * @param {string} [ipAddress] - The IP address of the client
+   * @returns {Promise<void>}
+   * @throws {TooManyRequestsException} When this failure locks the account (status 429)
+   */
+  async recordFailure(email: string, ipAddress?: string): Promise<void> {
+    const windowMs = AUTH_CONSTANTS.LOGIN_FAILURES_WINDOW_MS;
+
+    try {
+      const [failures] = await Promise.all([
+        this.store.increment(this.failuresKey(email), windowMs),
+        ipAddress
+          ? this.store.increment(this.ipKey(ipAddress), windowMs)
+          : null,
+      ]);
+
+      if (failures.count < AUTH_CONSTANTS.LOGIN_MAX_FAILURES) {
+        return;
+      }
+
+      // Lockouts are remembered for a day, each one doubling the next
+      const { count: lockouts } = await this.store.increment(
+        this.lockoutsKey(email),
+        AUTH_CONSTANTS.LOGIN_LOCKOUT_MEMORY_MS
+      );
+      const durationMs = Math.min(
+        AUTH_CONSTANTS.LOGIN_LOCKOUT_MS * 2 ** (lockouts - 1),
+        AUTH_CONSTANTS.LOGIN_MAX_LOCKOUT_MS
+      );
+
+      await this.store.set(this.lockoutKey(email), lockouts, durationMs);
+      await this.store.delete(this.failuresKey(email));
+      await this.sendLockoutNotice(email, durationMs);
+
+      throw this.lockedException(durationMs);
+    } catch (error) {
+      if (error instanceof TooManyRequestsException) {
+        throw error;
+      }
+      this.logger.warn(`Failed login not counted: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Clears the failures and lockouts of an account after a valid login
+   *
+   * @param {string} email - The email of the account
+   * @returns {Promise<void>}
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await Promise.all([
+      this.store.delete(this.failuresKey(email)),
+      this.store.delete(this.lockoutsKey(email)),
+    ]).catch((error) =>
+      this.logger.warn(`Failed logins not cleared: ${(error as Error).message}`)
+    );
+  }
+
+  /**
+   * Emails the owner of a locked account, if it exists
+   *
+   * @private
+   * @param {string} email - The email the logins were attempted for
+   * @param {number} durationMs - The duration of the lockout
+   * @returns {Promise<void>}
+   */
+  private async sendLockoutNotice(
+    email: string,
+    durationMs: number
+  ): Promise<void> {
+    const user = await this.usersService.findByEmail(email).catch(() => null);
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    const link = new URL(
+      '/forgot-password',
+      this.configService.get<string>('FRONTEND_URL', 'http://localhost:4200')
+    ).toString();
+
+    try {
+      await this.mailer.send(
+        accountLockedMail(user, Math.ceil(durationMs / 60000), link)
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send lockout notice: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private lockedException(resetInMs: number): TooManyRequestsException {
+    return new TooManyRequestsException(
+      'Account temporarily locked after too many failed logins',
+      Math.ceil(resetInMs / 1000)
+    );
+  }
+
+  private read(key: string): Promise<RateLimitCounter | null> {
+    return this.store.get(key).catch((error) => {
+      this.logger.warn(`Login lockout not checked: ${error.message}`);
+      return null;
+    });
+  }
+
+  private account(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  private failuresKey(email: string): string {
+    return `login:failures:${this.account(email)}`;
+  }
+
+  private lockoutsKey(email: string): string {
+    return `login:lockouts:${this.account(email)}`;
+  }
+
+  private lockoutKey(email: string): string {
+    return `login:lockout:${this.account(email)}`;
+  }
+
+  private ipKey(ipAddress: string): string {
+    return `login:failures-ip:${ipAddress}`;
+  }
+}
@@ -0,0 +1,159 @@
+import { UserEntity } from '@backend/users/user.entity';
+import { MailMessage } from '@backend/app/mailer/interfaces/mail-message.interface';
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Builds an email made of a greeting, a paragraph and a link
+ *
+ * @param {UserEntity} user - The recipient
+ * @param {string} subject - The subject of the email
+ * @param {string[]} lines - The paragraph, the link being inserted after it
+ * @param {string} link - The link to follow
+ * @param {string} [notice] - The closing sentence
+ * @returns {MailMessage} The email
+ */
+function linkMail(
+  user: UserEntity,
+  subject: string,
+  lines: string[],
+  link: string,
+  notice = "Si vous n'êtes pas à l'origine de cette demande, ignorez cet email."
+): MailMessage {
+  const greeting = `Bonjour ${user.firstName},`;
+
+  return {
+    to: user.email,
+    subject,
+    text: [greeting, '', ...lines, '', link, '', notice].join('\n'),
+    html: [
+      `<p>${escapeHtml(greeting)}</p>`,
+      `<p>${lines.map(escapeHtml).join('<br>')}</p>`,
+      `<p><a href="${escapeHtml(link)}">${escapeHtml(link)}</a></p>`,
+      `<p>${escapeHtml(notice)}</p>`,
+    ].join('\n'),
+  };
+}
+
+/**
+ * Email asking a new user to verify their address
+ *
+ * @param {UserEntity} user - The new user
+ * @param {string} link - The verification page, token included
+ * @returns {MailMessage} The email
+ */
+export function emailVerificationMail(
+  user: UserEntity,
+  link: string
+): MailMessage {
+  return linkMail(
+    user,
+    'Confirmez votre adresse email',
+    [
+      'Merci pour votre inscription. Confirmez votre adresse email pour activer votre compte :',
+    ],
+    link
+  );
+}
+
+/**
+ * Email letting a user choose a new password
+ *
+ * @param {UserEntity} user - The user who forgot their password
+ * @param {string} link - The reset page, token included
+ * @returns {MailMessage} The email
+ */
+export function passwordResetMail(user: UserEntity, link: string): MailMessage {
+  return linkMail(
+    user,
+    'Réinitialisation de votre mot de passe',
+    [
+      'Une réinitialisation de votre mot de passe a été demandée.',
+      'Choisissez un nouveau mot de passe en suivant ce lien, valable pour une durée limitée :',
+    ],
+    link
+  );
+}
+
+/**
+ * Email telling a user their account is locked after failed logins
+ *
+ * @param {UserEntity} user - The user whose account is locked
+ * @param {number} minutes - The duration of the lockout
+ * @param {string} link - The forgot password page
+ * @returns {MailMessage} The email
+ */
+export function accountLockedMail(
+  user: UserEntity,
+  minutes: number,
+  link: string
+): MailMessage {
+  return linkMail(
+    user,
+    'Connexion à votre compte bloquée',
+    [
+      `Plusieurs tentatives de connexion avec un mot de passe incorrect ont eu lieu sur votre compte. La connexion est bloquée pendant ${minutes} minute${
+        minutes > 1 ? 's' : ''
+      }.`,
+      "Si vous n'êtes pas à l'origine de ces tentatives, changez votre mot de passe :",
+    ],
+    link,
+    'Si vous avez simplement oublié votre mot de passe, vous pouvez le réinitialiser avec ce même lien.'
+  );
+}
+
+/**
+ * Email sent to the new address of a user to confirm it
+ *
+ * @param {UserEntity} user - The user changing their address
+ * @param {string} email - The new address, recipient of the email
+ * @param {string} link - The confirmation page, token included
+ * @returns {MailMessage} The email
+ */
+export function emailChangeMail(
+  user: UserEntity,
+  email: string,
+  link: string
+): MailMessage {
+  return {
+    ...linkMail(
+      user,
+      'Confirmez votre nouvelle adresse email',
+      [
+        'Vous avez demandé à utiliser cette adresse pour votre compte. Confirmez-la en suivant ce lien, valable pour une durée limitée :',
+      ],
+      link
+    ),
+    to: email,
+  };
+}
+
+/**
+ * Email telling a user, at their previous address, that it was replaced
+ *
+ * @param {UserEntity} user - The user, still with their previous address
+ * @param {string} email - The new address
+ * @param {string} link - The forgot password page
+ * @returns {MailMessage} The email
+ */
+export function emailChangedMail(
+  user: UserEntity,
+  email: string,
+  link: string
+): MailMessage {
+  return linkMail(
+    user,
+    'Adresse email de votre compte modifiée',
+    [
+      `L'adresse email de votre compte a été remplacée par ${email}. Les prochains emails y seront envoyés.`,
+      "Si vous n'êtes pas à l'origine de ce changement, réinitialisez votre mot de passe :",
+    ],
+    link,
+    'Si vous avez fait ce changement, ignorez cet email.'
+  );
+}
@@ -0,0 +1,215 @@
+import { createHash } from 'crypto';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+
+import { hotp } from '@backend/auth/mfa/totp';
+import { MfaService } from '@backend/auth/mfa.service';
+import { UserEntity } from '@backend/users/user.entity';
+import { UsersService } from '@backend/users/users.service';
+
+jest.mock('@nestjs/swagger', () => ({
+  ApiProperty: () => () => ({}),
+}));
+
+describe('MfaService', () => {
+  let service: MfaService;
+  let usersService: jest.Mocked<UsersService>;
+
+  const secret = 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP';
+
+  const currentCode = () => hotp(secret, Math.floor(Date.now() / 30000));
+
+  const hash = (code: string) =>
+    createHash('sha256').update(code).digest('hex');
+
+  const baseUser: UserEntity = {
+    id: 'test-id',
+    email: 'test@example.com',
+    firstName: 'John',
+    lastName: 'Doe',
+    displayName: null,
+    avatarUrl: null,
+    bio: null,
+    timezone: null,
+    locale: null,
+    password: 'hashedPassword',
+    isActive: true,
+    isAdmin: false,
+    emailVerifiedAt: new Date(),
+    mfaSecret: null,
+    mfaEnabledAt: null,
+    mfaRecoveryCodes: [],
+    oidcSubject: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    validatePassword: jest.fn(),
+    fullName: 'John Doe',
+    publicName: 'John Doe',
+  };
+
+  const enabledUser = () =>
+    ({
+      ...baseUser,
+      mfaSecret: secret,
+      mfaEnabledAt: new Date(),
+      mfaRecoveryCodes: [hash('3f9a1c07be'), hash('81d2e4b6f0')],
+    } as UserEntity);
+
+  const mockUsersService = {
+    updateMfa: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockConfigService.get.mockImplementation(
+      (_key: string, defaultValue?: unknown) => defaultValue
+    );
+    mockUsersService.updateMfa.mockImplementation(async (user, changes) =>
+      Object.assign(user, changes)
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        {
+          provide: UsersService,
+          useValue: mockUsersService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<MfaService>(MfaService);
+    usersService = module.get(UsersService);
+  });
+
+  describe('enroll', () => {
+    it('should store a new secret and return its otpauth URI', async () => {
+      const user = { ...baseUser } as UserEntity;
+
+      const result = await service.enroll(user);
+
+      expect(result.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(result.otpauthUri).toBe(
+        `otpauth://totp/Chat:test%40example.com?secret=${result.secret}&issuer=Chat&algorithm=SHA1&digits=6&period=30`
+      );
+      expect(usersService.updateMfa).toHaveBeenCalledWith(user, {
+        mfaSecret: result.secret,
+      });
+    });
+
+    it('should throw ConflictException if already enabled', async () => {
+      await expect(service.enroll(enabledUser())).rejects.toThrow(
+        ConflictException
+      );
+      expect(usersService.updateMfa).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirm', () => {
+    it('should enable two-factor authentication and return recovery codes', async () => {
+      const user = { ...baseUser, mfaSecret: secret } as UserEntity;
+
+      const { recoveryCodes } = await service.confirm(user, currentCode());
+
+      expect(recoveryCodes).toHaveLength(10);
+      recoveryCodes.forEach((code) => {
+        expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+      });
+      expect(user.mfaEnabledAt).toEqual(expect.any(Date));
+      expect(user.mfaRecoveryCodes).toEqual(
+        recoveryCodes.map((code) => hash(code.replace('-', '')))
+      );
+    });
+
+    it('should throw BadRequestException for an invalid code', async () => {
+      const user = { ...baseUser, mfaSecret: secret } as UserEntity;
+
+      await expect(service.confirm(user, '000000')).rejects.toThrow(
+        'Invalid code'
+      );
+      expect(usersService.updateMfa).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException if enrollment was not started', async () => {
+      await expect(
+        service.confirm({ ...baseUser } as UserEntity, '123456')
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw ConflictException if already enabled', async () => {
+      await expect(
+        service.confirm(enabledUser(), currentCode())
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('disable', () => {
+    it('should clear the secret and recovery codes', async () => {
+      const user = enabledUser();
+
+      await service.disable(user, currentCode());
+
+      expect(usersService.updateMfa).toHaveBeenCalledWith(user, {
+        mfaSecret: null,
+        mfaEnabledAt: null,
+        mfaRecoveryCodes: [],
+      });
+    });
+
+    it('should throw BadRequestException for an invalid code', async () => {
+      await expect(service.disable(enabledUser(), '000000')).rejects.toThrow(
+        BadRequestException
+      );
+      expect(usersService.updateMfa).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException if not enabled', async () => {
+      await expect(
+        service.disable({ ...baseUser } as UserEntity, '123456')
+      ).rejects.toThrow('Two-factor authentication not enabled');
+    });
+  });
+
+  describe('verifyCode', () => {
+    it('should accept a code of the authenticator app', async () => {
+      await expect(
+        service.verifyCode(enabledUser(), currentCode())
+      ).resolves.toBe(true);
+      expect(usersService.updateMfa).not.toHaveBeenCalled();
+    });
+
+    it('should accept a recovery code once', async () => {
+      const user = enabledUser();
+
+      await expect(service.verifyCode(user, '3F9A1-C07BE')).resolves.toBe(true);
+      expect(user.mfaRecoveryCodes).toEqual([hash('81d2e4b6f0')]);
+      await expect(service.verifyCode(user, '3f9a1-c07be')).resolves.toBe(
+        false
+      );
+    });
+
+    it('should reject an invalid code', async () => {
+      await expect(
+        service.verifyCode(enabledUser(), 'unknown-code')
+      ).resolves.toBe(false);
+    });
+
+    it('should reject any code while not enabled', async () => {
+      await expect(
+        service.verifyCode(
+          { ...baseUser, mfaSecret: secret } as UserEntity,
+          currentCode()
+        )
+      ).resolves.toBe(false);
+    });
+  });
+});
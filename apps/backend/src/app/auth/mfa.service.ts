@@ -0,0 +1,184 @@
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes } from 'crypto';
+import {
+  Logger,
+  Injectable,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+
+import {
+  verifyTotp,
+  otpauthUri,
+  generateTotpSecret,
+} from '@backend/auth/mfa/totp';
+import { UserEntity } from '@backend/users/user.entity';
+import { UsersService } from '@backend/users/users.service';
+import { AUTH_CONSTANTS } from '@backend/auth/constants/auth.constants';
+import {
+  MfaEnrollmentResponseDto,
+  MfaRecoveryCodesResponseDto,
+} from '@backend/auth/dto/mfa.dto';
+
+/**
+ * Manages the TOTP second factor of the users: enrollment, confirmation,
+ * deactivation, and checking the codes typed at login
+ */
+@Injectable()
+export class MfaService {
+  private readonly logger = new Logger(MfaService.name);
+
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly configService: ConfigService
+  ) {}
+
+  /**
+   * Generates a new TOTP secret for a user, only used once confirmed with
+   * a first code so a failed enrollment does not lock the user out
+   *
+   * @param {UserEntity} user - The user enrolling
+   * @returns {Promise<MfaEnrollmentResponseDto>} The secret and the otpauth URI to scan
+   * @throws {ConflictException} When two-factor authentication is already enabled
+   */
+  async enroll(user: UserEntity): Promise<MfaEnrollmentResponseDto> {
+    if (user.mfaEnabledAt) {
+      throw new ConflictException('Two-factor authentication already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.usersService.updateMfa(user, { mfaSecret: secret });
+
+    const issuer = this.configService.get<string>(
+      'MFA_ISSUER',
+      AUTH_CONSTANTS.MFA_ISSUER
+    );
+
+    return { secret, otpauthUri: otpauthUri(issuer, user.email, secret) };
+  }
+
+  /**
+   * Enables two-factor authentication once the user typed a first code of
+   * the enrolled secret, and generates the recovery codes
+   *
+   * @param {UserEntity} user - The user enrolling
+   * @param {string} code - A code of the authenticator app
+   * @returns {Promise<MfaRecoveryCodesResponseDto>} The recovery codes, shown once
+   * @throws {ConflictException} When two-factor authentication is already enabled
+   * @throws {BadRequestException} When no enrollment was started or the code is invalid
+   */
+  async confirm(
+    user: UserEntity,
+    code: string
+  ): Promise<MfaRecoveryCodesResponseDto> {
+    if (user.mfaEnabledAt) {
+      throw new ConflictException('Two-factor authentication already enabled');
+    }
+
+    if (!user.mfaSecret) {
+      throw new BadRequestException('Two-factor enrollment not started');
+    }
+
+    if (!verifyTotp(user.mfaSecret, code)) {
+      throw new BadRequestException('Invalid code');
+    }
+
+    const recoveryCodes = Array.from(
+      { length: AUTH_CONSTANTS.MFA_RECOVERY_CODES },
+      () => this.generateRecoveryCode()
+    );
+
+    await this.usersService.updateMfa(user, {
+      mfaEnabledAt: new Date(),
+      mfaRecoveryCodes: recoveryCodes.map((recoveryCode) =>
+        this.hashRecoveryCode(recoveryCode)
+      ),
+    });
+
+    this.logger.log(`Two-factor authentication enabled for user ${user.id}`);
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Disables two-factor authentication, proven by a code of the
+   * authenticator app or a recovery code
+   *
+   * @param {UserEntity} user - The user
+   * @param {string} code - A TOTP code or a recovery code
+   * @returns {Promise<void>}
+   * @throws {BadRequestException} When two-factor authentication is not enabled or the code is invalid
+   */
+  async disable(user: UserEntity, code: string): Promise<void> {
+    if (!user.mfaEnabledAt) {
+      throw new BadRequestException('Two-factor authentication not enabled');
+    }
+
+    if (!(await this.verifyCode(user, code))) {
+      throw new BadRequestException('Invalid code');
+    }
+
+    await this.usersService.updateMfa(user, {
+      mfaSecret: null,
+      mfaEnabledAt: null,
+      mfaRecoveryCodes: [],
+    });
+
+    this.logger.log(`Two-factor authentication disabled for user ${user.id}`);
+  }
+
+  /**
+   * Checks a second factor code, a recovery code being consumed when used
+   *
+   * @param {UserEntity} user - The user with two-factor authentication enabled
+   * @param {string} code - A TOTP code or a recovery code
+   * @returns {Promise<boolean>} True if the code is valid
+   */
+  async verifyCode(user: UserEntity, code: string): Promise<boolean> {
+    if (!user.mfaEnabledAt || !user.mfaSecret) {
+      return false;
+    }
+
+    if (verifyTotp(user.mfaSecret, code)) {
+      return true;
+    }
+
+    const hash = this.hashRecoveryCode(code);
+    if (!user.mfaRecoveryCodes.includes(hash)) {
+      return false;
+    }
+
+    await this.usersService.updateMfa(user, {
+      mfaRecoveryCodes: user.mfaRecoveryCodes.filter(
+        (recoveryCode) => recoveryCode !== hash
+      ),
+    });
+
+    this.logger.log(`Recovery code used by user ${user.id}`);
+
+    return true;
+  }
+
+  /**
+   * Generates a recovery code such as "3f9a1-c07be"
+   *
+   * @private
+   * @returns {string} 40 random bits in hexadecimal
+   */
+  private generateRecoveryCode(): string {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  }
+
+  /**
+   * Hashes a recovery code, ignoring case, spaces and dashes
+   *
+   * @private
+   * @param {string} code - The recovery code
+   * @returns {string} SHA-256 hash of the normalized code (hex)
+   */
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+}
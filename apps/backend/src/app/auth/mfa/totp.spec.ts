@@ -0,0 +1,84 @@
+import {
+  hotp,
+  verifyTotp,
+  otpauthUri,
+  base32Decode,
+  base32Encode,
+  generateTotpSecret,
+} from '@backend/auth/mfa/totp';
+
+describe('totp', () => {
+  // Secret of the RFC 4226 and RFC 6238 test vectors
+  const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+
+  describe('base32', () => {
+    it('should encode and decode the RFC 4648 test vectors', () => {
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+      expect(base32Decode('MZXW6YTBOI').toString()).toBe('foobar');
+      expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    it('should generate distinct 160-bit secrets', () => {
+      const secret = generateTotpSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret)).toHaveLength(20);
+      expect(generateTotpSecret()).not.toBe(secret);
+    });
+  });
+
+  describe('hotp', () => {
+    it('should compute the RFC 4226 test vectors', () => {
+      expect(hotp(rfcSecret, 0)).toBe('755224');
+      expect(hotp(rfcSecret, 1)).toBe('287082');
+      expect(hotp(rfcSecret, 9)).toBe('520489');
+    });
+
+    it('should compute the RFC 6238 test vectors', () => {
+      expect(hotp(rfcSecret, Math.floor(59 / 30), 8)).toBe('94287082');
+      expect(hotp(rfcSecret, Math.floor(1111111109 / 30), 8)).toBe('07081804');
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1111111109 * 1000;
+
+    it('should accept the code of the current time step', () => {
+      const code = hotp(rfcSecret, Math.floor(now / 30000));
+
+      expect(verifyTotp(rfcSecret, code, now)).toBe(true);
+      expect(
+        verifyTotp(rfcSecret, `${code.slice(0, 3)} ${code.slice(3)}`, now)
+      ).toBe(true);
+    });
+
+    it('should accept the codes of the adjacent time steps', () => {
+      const step = Math.floor(now / 30000);
+
+      expect(verifyTotp(rfcSecret, hotp(rfcSecret, step - 1), now)).toBe(true);
+      expect(verifyTotp(rfcSecret, hotp(rfcSecret, step + 1), now)).toBe(true);
+    });
+
+    it('should reject older codes and malformed input', () => {
+      const step = Math.floor(now / 30000);
+
+      expect(verifyTotp(rfcSecret, hotp(rfcSecret, step - 2), now)).toBe(false);
+      expect(verifyTotp(rfcSecret, '12345', now)).toBe(false);
+      expect(verifyTotp(rfcSecret, 'abcdef', now)).toBe(false);
+    });
+  });
+
+  describe('otpauthUri', () => {
+    it('should build the URI scanned by authenticator apps', () => {
+      expect(otpauthUri('Chat', 'user@example.com', 'JBSWY3DPEHPK3PXP')).toBe(
+        'otpauth://totp/Chat:user%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Chat&algorithm=SHA1&digits=6&period=30'
+      );
+    });
+  });
+});
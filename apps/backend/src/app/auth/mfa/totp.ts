@@ -0,0 +1,164 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+import { AUTH_CONSTANTS } from '@backend/auth/constants/auth.constants';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encodes bytes in base32 (RFC 4648) without padding, the format
+ * authenticator apps expect secrets in
+ *
+ * @param {Buffer} buffer - The bytes to encode
+ * @returns {string} The base32 string
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decodes a base32 string, ignoring case, spaces and padding
+ *
+ * @param {string} input - The base32 string
+ * @returns {Buffer} The decoded bytes
+ * @throws {Error} When the string contains a character outside the alphabet
+ */
+export function base32Decode(input: string): Buffer {
+  const characters = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const character of characters) {
+    const index = BASE32_ALPHABET.indexOf(character);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${character}`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generates a random TOTP secret
+ *
+ * @returns {string} A 160-bit secret encoded in base32
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(AUTH_CONSTANTS.TOTP_SECRET_BYTES));
+}
+
+/**
+ * Computes the HOTP code (RFC 4226) of a secret for a counter, the time
+ * step being the counter for TOTP (RFC 6238)
+ *
+ * @param {string} secret - The base32 secret
+ * @param {number} counter - The counter, or time step
+ * @param {number} [digits] - The length of the code
+ * @returns {string} The code, padded with leading zeros
+ */
+export function hotp(
+  secret: string,
+  counter: number,
+  digits: number = AUTH_CONSTANTS.TOTP_DIGITS
+): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac('sha1', base32Decode(secret))
+    .update(message)
+    .digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+/**
+ * Checks a TOTP code, accepting the previous and next time steps to
+ * tolerate clock drift between the server and the authenticator app
+ *
+ * @param {string} secret - The base32 secret
+ * @param {string} code - The code typed by the user
+ * @param {number} [now] - The current time in milliseconds
+ * @returns {boolean} True if the code matches one of the accepted steps
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  now: number = Date.now()
+): boolean {
+  const normalized = code.replace(/\s/g, '');
+  if (
+    !/^\d+$/.test(normalized) ||
+    normalized.length !== AUTH_CONSTANTS.TOTP_DIGITS
+  ) {
+    return false;
+  }
+
+  const step = Math.floor(now / 1000 / AUTH_CONSTANTS.TOTP_PERIOD);
+
+  for (
+    let drift = -AUTH_CONSTANTS.TOTP_WINDOW;
+    drift <= AUTH_CONSTANTS.TOTP_WINDOW;
+    drift++
+  ) {
+    const expected = Buffer.from(hotp(secret, step + drift));
+    if (timingSafeEqual(expected, Buffer.from(normalized))) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Builds the otpauth URI encoded in the QR code scanned by authenticator
+ * apps, or opened directly on mobile
+ *
+ * @param {string} issuer - The name of the application shown in the app
+ * @param {string} account - The account the secret belongs to
+ * @param {string} secret - The base32 secret
+ * @returns {string} The otpauth://totp URI
+ */
+export function otpauthUri(
+  issuer: string,
+  account: string,
+  secret: string
+): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(AUTH_CONSTANTS.TOTP_DIGITS),
+    period: String(AUTH_CONSTANTS.TOTP_PERIOD),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
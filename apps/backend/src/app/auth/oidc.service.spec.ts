@@ -0,0 +1,324 @@
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  NotFoundException,
+  UnauthorizedException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+
+import { OidcService } from '@backend/auth/oidc.service';
+import { UserEntity } from '@backend/users/user.entity';
+import { UsersService } from '@backend/users/users.service';
+import { OidcClaims, OidcClient } from '@backend/auth/oidc/oidc-client';
+
+jest.mock('@backend/auth/oidc/oidc-client', () => ({
+  ...jest.requireActual('@backend/auth/oidc/oidc-client'),
+  OidcClient: jest.fn(),
+}));
+
+jest.mock('@nestjs/swagger', () => ({
+  ApiProperty: () => () => ({}),
+}));
+
+describe('OidcService', () => {
+  let service: OidcService;
+  let usersService: jest.Mocked<UsersService>;
+
+  const mockUser: UserEntity = {
+    id: 'test-id',
+    email: 'jane@example.com',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    displayName: null,
+    avatarUrl: null,
+    bio: null,
+    timezone: null,
+    locale: null,
+    password: 'hashedPassword',
+    isActive: true,
+    isAdmin: false,
+    emailVerifiedAt: new Date(),
+    mfaSecret: null,
+    mfaEnabledAt: null,
+    mfaRecoveryCodes: [],
+    oidcSubject: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    validatePassword: jest.fn(),
+    fullName: 'Jane Doe',
+    publicName: 'Jane Doe',
+  };
+
+  const claims: OidcClaims = {
+    iss: 'https://idp.example.com',
+    sub: 'provider-user-1',
+    aud: 'chat',
+    exp: Math.floor(Date.now() / 1000) + 300,
+    email: 'jane@example.com',
+    email_verified: true,
+    given_name: 'Jane',
+    family_name: 'Doe',
+  };
+
+  const mockClient = {
+    authorizationUrl: jest.fn(),
+    callback: jest.fn(),
+  };
+
+  const mockUsersService = {
+    findByOidcSubject: jest.fn(),
+    findByEmail: jest.fn(),
+    create: jest.fn(),
+    linkOidcSubject: jest.fn(),
+  };
+
+  let config: Record<string, string>;
+
+  const mockConfigService = {
+    get: jest.fn(
+      (key: string, defaultValue?: unknown) => config[key] ?? defaultValue
+    ),
+    getOrThrow: jest.fn((key: string) => config[key]),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    config = {
+      JWT_SECRET: 'test-secret',
+      OIDC_ISSUER: 'https://idp.example.com',
+      OIDC_CLIENT_ID: 'chat',
+      OIDC_CLIENT_SECRET: 'secret',
+      FRONTEND_URL: 'http://localhost:4200/',
+    };
+    (OidcClient as jest.Mock).mockImplementation(() => mockClient);
+    mockClient.authorizationUrl.mockResolvedValue(
+      'https://idp.example.com/authorize?client_id=chat'
+    );
+    mockClient.callback.mockResolvedValue(claims);
+    mockUsersService.linkOidcSubject.mockImplementation(
+      async (user: UserEntity, subject: string) => ({
+        ...user,
+        oidcSubject: subject,
+      })
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OidcService,
+        JwtService,
+        {
+          provide: UsersService,
+          useValue: mockUsersService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<OidcService>(OidcService);
+    usersService = module.get(UsersService);
+  });
+
+  describe('getConfiguration', () => {
+    it('should tell whether a provider is configured', () => {
+      expect(service.getConfiguration()).toEqual({
+        enabled: true,
+        providerName: 'SSO',
+      });
+
+      delete config.OIDC_ISSUER;
+      expect(service.getConfiguration().enabled).toBe(false);
+    });
+  });
+
+  describe('authorize', () => {
+    it('should return the authorization URL and a flow token', async () => {
+      const result = await service.authorize();
+
+      expect(result.authorizationUrl).toBe(
+        'https://idp.example.com/authorize?client_id=chat'
+      );
+      expect(result.flowToken).toEqual(expect.any(String));
+      expect(OidcClient).toHaveBeenCalledWith({
+        issuer: 'https://idp.example.com',
+        clientId: 'chat',
+        clientSecret: 'secret',
+        redirectUri: 'http://localhost:4200/oidc/callback',
+        scopes: 'openid email profile',
+      });
+
+      const [params] = mockClient.authorizationUrl.mock.calls[0];
+      expect(params).toEqual({
+        state: expect.any(String),
+        nonce: expect.any(String),
+        codeVerifier: expect.any(String),
+      });
+      expect(new Set(Object.values(params)).size).toBe(3);
+    });
+
+    it('should throw NotFoundException when single sign-on is not configured', async () => {
+      delete config.OIDC_CLIENT_ID;
+
+      await expect(service.authorize()).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw ServiceUnavailableException when the provider cannot be discovered', async () => {
+      mockClient.authorizationUrl.mockRejectedValue(
+        new Error('Request failed with status 502')
+      );
+
+      await expect(service.authorize()).rejects.toThrow(
+        ServiceUnavailableException
+      );
+    });
+  });
+
+  describe('handleCallback', () => {
+    it('should validate the code with the parameters of the flow token', async () => {
+      const { flowToken } = await service.authorize();
+      const [params] = mockClient.authorizationUrl.mock.calls[0];
+
+      const result = await service.handleCallback({
+        code: 'code',
+        state: params.state,
+        flowToken,
+      });
+
+      expect(result).toBe(claims);
+      expect(mockClient.callback).toHaveBeenCalledWith(
+        'code',
+        expect.objectContaining(params)
+      );
+    });
+
+    it('should reject a state that does not match the flow token', async () => {
+      const { flowToken } = await service.authorize();
+
+      await expect(
+        service.handleCallback({ code: 'code', state: 'forged', flowToken })
+      ).rejects.toThrow('Invalid or expired sign-on request');
+      expect(mockClient.callback).not.toHaveBeenCalled();
+    });
+
+    it('should reject a forged flow token', async () => {
+      const forged = new JwtService().sign(
+        { state: 'state', nonce: 'nonce', codeVerifier: 'verifier' },
+        { secret: 'test-secret', audience: 'oidc' }
+      );
+
+      await expect(
+        service.handleCallback({
+          code: 'code',
+          state: 'state',
+          flowToken: forged,
+        })
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should throw UnauthorizedException when the provider rejects the code', async () => {
+      const { flowToken } = await service.authorize();
+      const [params] = mockClient.authorizationUrl.mock.calls[0];
+      mockClient.callback.mockRejectedValue(
+        new Error('Token request failed with status 400: invalid_grant')
+      );
+
+      await expect(
+        service.handleCallback({ code: 'code', state: params.state, flowToken })
+      ).rejects.toThrow('Single sign-on failed');
+    });
+  });
+
+  describe('findOrCreateUser', () => {
+    it('should return the user already linked to the subject', async () => {
+      const linkedUser = { ...mockUser, oidcSubject: claims.sub } as UserEntity;
+      usersService.findByOidcSubject.mockResolvedValue(linkedUser);
+
+      await expect(service.findOrCreateUser(claims)).resolves.toBe(linkedUser);
+      expect(usersService.findByEmail).not.toHaveBeenCalled();
+    });
+
+    it('should link the account with the same verified email', async () => {
+      usersService.findByOidcSubject.mockResolvedValue(null);
+      usersService.findByEmail.mockResolvedValue(mockUser);
+
+      const result = await service.findOrCreateUser(claims);
+
+      expect(usersService.linkOidcSubject).toHaveBeenCalledWith(
+        mockUser,
+        'provider-user-1'
+      );
+      expect(result.oidcSubject).toBe('provider-user-1');
+      expect(usersService.create).not.toHaveBeenCalled();
+    });
+
+    it('should create an account for a new email', async () => {
+      usersService.findByOidcSubject.mockResolvedValue(null);
+      usersService.findByEmail.mockResolvedValue(null);
+      usersService.create.mockResolvedValue(mockUser);
+
+      await service.findOrCreateUser({
+        ...claims,
+        given_name: undefined,
+        family_name: undefined,
+        name: 'Jane Ann Doe',
+      });
+
+      expect(usersService.create).toHaveBeenCalledWith({
+        email: 'jane@example.com',
+        firstName: 'Jane',
+        lastName: 'Ann Doe',
+        password: expect.any(String),
+        emailVerified: true,
+      });
+      expect(usersService.linkOidcSubject).toHaveBeenCalledWith(
+        mockUser,
+        'provider-user-1'
+      );
+    });
+
+    it('should refuse to link an email the provider did not verify', async () => {
+      usersService.findByOidcSubject.mockResolvedValue(null);
+
+      await expect(
+        service.findOrCreateUser({ ...claims, email_verified: false })
+      ).rejects.toThrow('Email not verified by the identity provider');
+      expect(usersService.findByEmail).not.toHaveBeenCalled();
+    });
+
+    it('should accept the email_verified claim as a string', async () => {
+      usersService.findByOidcSubject.mockResolvedValue(null);
+      usersService.findByEmail.mockResolvedValue(mockUser);
+
+      await expect(
+        service.findOrCreateUser({ ...claims, email_verified: 'true' })
+      ).resolves.toBeDefined();
+    });
+
+    it('should refuse an account linked to another subject', async () => {
+      usersService.findByOidcSubject.mockResolvedValue(null);
+      usersService.findByEmail.mockResolvedValue({
+        ...mockUser,
+        oidcSubject: 'another-subject',
+      } as UserEntity);
+
+      await expect(service.findOrCreateUser(claims)).rejects.toThrow(
+        'Account linked to another identity'
+      );
+      expect(usersService.linkOidcSubject).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a deactivated account', async () => {
+      usersService.findByOidcSubject.mockResolvedValue({
+        ...mockUser,
+        isActive: false,
+      } as UserEntity);
+
+      await expect(service.findOrCreateUser(claims)).rejects.toThrow(
+        'Account deactivated'
+      );
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import {
+  Logger,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+
+import {
+  OidcClaims,
+  OidcClient,
+  generateRandomToken,
+  OidcAuthorizationParams,
+} from '@backend/auth/oidc/oidc-client';
+import { UserEntity } from '@backend/users/user.entity';
+import { UsersService } from '@backend/users/users.service';
+import { AUTH_CONSTANTS } from '@backend/auth/constants/auth.constants';
+import { OidcCallbackParams } from '@backend/auth/oidc/oidc-passport.strategy';
+import {
+  OidcAuthorizationResponseDto,
+  OidcConfigurationResponseDto,
+} from '@backend/auth/dto/oidc.dto';
+
+/**
+ * Single sign-on through the OpenID provider configured by OIDC_ISSUER
+ *
+ * The state, nonce and PKCE code verifier of an authorization request are
+ * signed in a flow token the frontend sends back with the callback, so no
+ * server-side session is needed. Users are found by their subject at the
+ * provider, then by verified email, and created otherwise.
+ */
+@Injectable()
+export class OidcService {
+  private readonly logger = new Logger(OidcService.name);
+  private client: OidcClient | null = null;
+
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService
+  ) {}
+
+  /**
+   * Tells the login page whether single sign-on is available
+   *
+   * @returns {OidcConfigurationResponseDto} Whether a provider is configured, and its name
+   */
+  getConfiguration(): OidcConfigurationResponseDto {
+    return {
+      enabled: this.isEnabled(),
+      providerName: this.configService.get<string>(
+        'OIDC_PROVIDER_NAME',
+        AUTH_CONSTANTS.OIDC_PROVIDER_NAME
+      ),
+    };
+  }
+
+  /**
+   * Starts a single sign-on
+   *
+   * @returns {Promise<OidcAuthorizationResponseDto>} The URL of the provider login page and the flow token
+   * @throws {NotFoundException} When single sign-on is not configured
+   * @throws {ServiceUnavailableException} When the provider cannot be discovered
+   */
+  async authorize(): Promise<OidcAuthorizationResponseDto> {
+    const client = this.getClient();
+    const params: OidcAuthorizationParams = {
+      state: generateRandomToken(),
+      nonce: generateRandomToken(),
+      codeVerifier: generateRandomToken(),
+    };
+
+    let authorizationUrl: string;
+    try {
+      authorizationUrl = await client.authorizationUrl(params);
+    } catch (error) {
+      this.logger.error(`OpenID provider discovery failed: ${error}`);
+      throw new ServiceUnavailableException('Identity provider unavailable');
+    }
+
+    const flowToken = this.jwtService.sign(params, {
+      secret: this.secret(),
+      audience: 'oidc',
+      expiresIn: this.configService.get<string>(
+        'OIDC_FLOW_TOKEN_EXPIRATION',
+        AUTH_CONSTANTS.OIDC_FLOW_TOKEN_EXPIRATION
+      ),
+    });
+
+    return { authorizationUrl, flowToken };
+  }
+
+  /**
+   * Completes a single sign-on: checks the state against the flow token,
+   * exchanges the code and validates the ID token
+   *
+   * @param {OidcCallbackParams} callback - The code and state of the redirect, and the flow token
+   * @returns {Promise<OidcClaims>} The claims of the ID token
+   * @throws {NotFoundException} When single sign-on is not configured
+   * @throws {UnauthorizedException} When the flow token is invalid, the state does not match or the provider rejects the code
+   */
+  async handleCallback(callback: OidcCallbackParams): Promise<OidcClaims> {
+    const client = this.getClient();
+    let params: OidcAuthorizationParams;
+
+    try {
+      params = this.jwtService.verify<OidcAuthorizationParams>(
+        callback.flowToken,
+        { secret: this.secret(), audience: 'oidc' }
+      );
+    } catch {
+      throw new UnauthorizedException('Invalid or expired sign-on request');
+    }
+
+    if (params.state !== callback.state) {
+      throw new UnauthorizedException('Invalid or expired sign-on request');
+    }
+
+    try {
+      return await client.callback(callback.code, params);
+    } catch (error) {
+      this.logger.warn(`Single sign-on failed: ${error}`);
+      throw new UnauthorizedException('Single sign-on failed');
+    }
+  }
+
+  /**
+   * Returns the user signing on, linking an account with the same
+   * verified email on the first sign-on, or creating one
+   *
+   * Created accounts get a random password, a password reset gives them
+   * one to log in without the provider.
+   *
+   * @param {OidcClaims} claims - The claims of the ID token
+   * @returns {Promise<UserEntity>} The user to log in
+   * @throws {UnauthorizedException} When the email is not verified by the provider, the account is linked to another subject or deactivated
+   */
+  async findOrCreateUser(claims: OidcClaims): Promise<UserEntity> {
+    let user = await this.usersService.findByOidcSubject(claims.sub);
+
+    if (!user) {
+      // Linking by an unverified email would let anyone take over an account
+      if (!claims.email || !this.isEmailVerified(claims)) {
+        throw new UnauthorizedException(
+          'Email not verified by the identity provider'
+        );
+      }
+
+      user = await this.usersService.findByEmail(claims.email);
+
+      if (user?.oidcSubject) {
+        throw new UnauthorizedException('Account linked to another identity');
+      }
+
+      if (!user) {
+        user = await this.usersService.create({
+          email: claims.email,
+          ...this.names(claims),
+          password: generateRandomToken(),
+          emailVerified: true,
+        });
+        this.logger.log(`User ${user.id} created by single sign-on`);
+      }
+
+      user = await this.usersService.linkOidcSubject(user, claims.sub);
+      this.logger.log(`User ${user.id} linked to single sign-on`);
+    }
+
+    if (!user.isActive) {
+      throw new UnauthorizedException('Account deactivated');
+    }
+
+    return user;
+  }
+
+  private isEnabled(): boolean {
+    return (
+      !!this.configService.get<string>('OIDC_ISSUER') &&
+      !!this.configService.get<string>('OIDC_CLIENT_ID')
+    );
+  }
+
+  /**
+   * Creates the client of the configured provider on first use
+   *
+   * @private
+   * @returns {OidcClient} The OpenID Connect client
+   * @throws {NotFoundException} When single sign-on is not configured
+   */
+  private getClient(): OidcClient {
+    if (!this.isEnabled()) {
+      throw new NotFoundException('Single sign-on not configured');
+    }
+
+    if (!this.client) {
+      const frontendUrl = this.configService.get<string>(
+        'FRONTEND_URL',
+        'http://localhost:4200'
+      );
+
+      this.client = new OidcClient({
+        issuer: this.configService.getOrThrow<string>('OIDC_ISSUER'),
+        clientId: this.configService.getOrThrow<string>('OIDC_CLIENT_ID'),
+        clientSecret: this.configService.get<string>('OIDC_CLIENT_SECRET'),
+        redirectUri: this.configService.get<string>(
+          'OIDC_REDIRECT_URI',
+          `${frontendUrl.replace(/\/$/, '')}${
+            AUTH_CONSTANTS.OIDC_CALLBACK_PATH
+          }`
+        ),
+        scopes: this.configService.get<string>(
+          'OIDC_SCOPES',
+          AUTH_CONSTANTS.OIDC_SCOPES
+        ),
+      });
+    }
+
+    return this.client;
+  }
+
+  // Some providers send the claim as a string
+  private isEmailVerified(claims: OidcClaims): boolean {
+    return claims.email_verified === true || claims.email_verified === 'true';
+  }
+
+  private names(claims: OidcClaims): { firstName: string; lastName: string } {
+    if (claims.given_name || claims.family_name) {
+      return {
+        firstName: claims.given_name ?? '',
+        lastName: claims.family_name ?? '',
+      };
+    }
+
+    const [firstName, ...lastName] = (
+      claims.name ??
+      claims.email?.split('@')[0] ??
+      ''
+    ).split(' ');
+    return { firstName, lastName: lastName.join(' ') };
+  }
+
+  // Derived from the JWT secret, so that a flow token cannot be verified as
+  // an access token nor the other way around
+  private secret(): string {
+    return `${this.configService.get<string>(
+      'JWT_SECRET',
+      'your-secret-key'
+    )}:oidc`;
+  }
+}
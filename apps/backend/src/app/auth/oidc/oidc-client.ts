@@ -0,0 +1,409 @@
+import {
+  verify,
+  KeyObject,
+  createHash,
+  randomBytes,
+  JsonWebKey,
+  createPublicKey,
+} from 'crypto';
+
+import { AUTH_CONSTANTS } from '@backend/auth/constants/auth.constants';
+
+/**
+ * Registration of the application with the OpenID provider
+ */
+export interface OidcClientOptions {
+  /** Issuer URL, the discovery document being under it */
+  issuer: string;
+  clientId: string;
+  /** Omitted for a public client, PKCE protecting the code alone */
+  clientSecret?: string;
+  /** Page of the frontend the provider redirects to with the code */
+  redirectUri: string;
+  /** Space separated scopes, "openid" included */
+  scopes: string;
+}
+
+/**
+ * Fields of the discovery document used by the client
+ */
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+/**
+ * Claims of the ID token, completed by the userinfo endpoint
+ */
+export interface OidcClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat?: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * Values of an authorization request checked on its callback
+ */
+export interface OidcAuthorizationParams {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+interface TokenResponse {
+  access_token?: string;
+  id_token?: string;
+  error?: string;
+  error_description?: string;
+}
+
+// Hash of the signature algorithms accepted for ID tokens
+const SIGNATURE_HASHES: Record<string, string> = {
+  RS256: 'sha256',
+  RS384: 'sha384',
+  RS512: 'sha512',
+  ES256: 'sha256',
+  ES384: 'sha384',
+};
+
+/**
+ * Generates a random value for the state, the nonce or the PKCE code
+ * verifier
+ *
+ * @returns {string} 256 random bits in base64url
+ */
+export function generateRandomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Derives the PKCE code challenge sent with the authorization request
+ * (method S256)
+ *
+ * @param {string} codeVerifier - The code verifier kept until the callback
+ * @returns {string} SHA-256 hash of the verifier in base64url
+ */
+export function codeChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/**
+ * OpenID Connect relying party for the authorization code flow with PKCE:
+ * discovery, authorization URL, code exchange and ID token validation
+ *
+ * The discovery document and the signing keys are cached, the keys being
+ * fetched again when a token is signed with an unknown key (rotation).
+ */
+export class OidcClient {
+  private metadata: Promise<OidcProviderMetadata> | null = null;
+  private keys: Promise<JsonWebKey[]> | null = null;
+
+  constructor(private readonly options: OidcClientOptions) {}
+
+  /**
+   * Fetches the discovery document of the provider
+   *
+   * @returns {Promise<OidcProviderMetadata>} The endpoints of the provider
+   * @throws {Error} When the document cannot be fetched or belongs to another issuer
+   */
+  discover(): Promise<OidcProviderMetadata> {
+    if (!this.metadata) {
+      const url = `${this.options.issuer.replace(
+        /\/$/,
+        ''
+      )}/.well-known/openid-configuration`;
+
+      this.metadata = this.fetchJson<OidcProviderMetadata>(url).then(
+        (metadata) => {
+          if (metadata.issuer !== this.options.issuer) {
+            throw new Error(
+              `Discovery document issued by ${metadata.issuer} instead of ${this.options.issuer}`
+            );
+          }
+          return metadata;
+        }
+      );
+      // A provider down at startup is discovered again on the next login
+      this.metadata.catch(() => {
+        this.metadata = null;
+      });
+    }
+
+    return this.metadata;
+  }
+
+  /**
+   * Builds the URL of the provider login page
+   *
+   * @param {OidcAuthorizationParams} params - The state, nonce and code verifier of the request
+   * @returns {Promise<string>} The authorization URL the browser is sent to
+   */
+  async authorizationUrl(params: OidcAuthorizationParams): Promise<string> {
+    const { authorization_endpoint } = await this.discover();
+    const url = new URL(authorization_endpoint);
+
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.options.clientId);
+    url.searchParams.set('redirect_uri', this.options.redirectUri);
+    url.searchParams.set('scope', this.options.scopes);
+    url.searchParams.set('state', params.state);
+    url.searchParams.set('nonce', params.nonce);
+    url.searchParams.set('code_challenge', codeChallenge(params.codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return url.toString();
+  }
+
+  /**
+   * Exchanges the code of the callback for the tokens and returns the
+   * claims of the validated ID token, completed by the userinfo endpoint
+   * when the email is not in the token
+   *
+   * @param {string} code - The authorization code
+   * @param {OidcAuthorizationParams} params - The values of the authorization request
+   * @returns {Promise<OidcClaims>} The claims identifying the user
+   * @throws {Error} When the exchange fails or the ID token is invalid
+   */
+  async callback(
+    code: string,
+    params: OidcAuthorizationParams
+  ): Promise<OidcClaims> {
+    const tokens = await this.exchangeCode(code, params.codeVerifier);
+
+    if (!tokens.id_token) {
+      throw new Error('Token response without ID token');
+    }
+
+    const claims = await this.verifyIdToken(tokens.id_token, params.nonce);
+
+    if (claims.email || !tokens.access_token) {
+      return claims;
+    }
+
+    const userinfo = await this.userinfo(tokens.access_token);
+    if (!userinfo || userinfo.sub !== claims.sub) {
+      return claims;
+    }
+
+    // The validated claims of the ID token take precedence
+    return { ...userinfo, ...claims };
+  }
+
+  /**
+   * Validates the signature and the claims of an ID token
+   *
+   * @param {string} idToken - The ID token of the token response
+   * @param {string} nonce - The nonce of the authorization request
+   * @param {number} [now] - The current time in milliseconds
+   * @returns {Promise<OidcClaims>} The claims of the token
+   * @throws {Error} When the token is malformed, badly signed, expired, or issued for another client or request
+   */
+  async verifyIdToken(
+    idToken: string,
+    nonce: string,
+    now: number = Date.now()
+  ): Promise<OidcClaims> {
+    const [encodedHeader, encodedPayload, signature] = idToken.split('.');
+    if (!encodedHeader || !encodedPayload || !signature) {
+      throw new Error('Malformed ID token');
+    }
+
+    const header = this.decodeSegment<{ alg: string; kid?: string }>(
+      encodedHeader
+    );
+    const hash = SIGNATURE_HASHES[header.alg];
+    if (!hash) {
+      throw new Error(`Unsupported ID token algorithm ${header.alg}`);
+    }
+
+    const key = await this.signingKey(header.kid);
+    const isValid = verify(
+      hash,
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      header.alg.startsWith('ES') ? { key, dsaEncoding: 'ieee-p1363' } : key,
+      Buffer.from(signature, 'base64url')
+    );
+    if (!isValid) {
+      throw new Error('Invalid ID token signature');
+    }
+
+    const claims = this.decodeSegment<OidcClaims>(encodedPayload);
+    const { issuer } = await this.discover();
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    const seconds = now / 1000;
+
+    if (claims.iss !== issuer) {
+      throw new Error(`ID token issued by ${claims.iss}`);
+    }
+    if (
+      !audiences.includes(this.options.clientId) ||
+      (audiences.length > 1 && claims.azp !== this.options.clientId)
+    ) {
+      throw new Error('ID token issued for another client');
+    }
+    if (
+      typeof claims.exp !== 'number' ||
+      claims.exp + AUTH_CONSTANTS.OIDC_CLOCK_TOLERANCE < seconds
+    ) {
+      throw new Error('Expired ID token');
+    }
+    if (claims.nonce !== nonce) {
+      throw new Error('ID token nonce mismatch');
+    }
+    if (!claims.sub) {
+      throw new Error('ID token without subject');
+    }
+
+    return claims;
+  }
+
+  /**
+   * Exchanges an authorization code at the token endpoint, the client
+   * authenticating with HTTP Basic when it has a secret
+   *
+   * @private
+   * @param {string} code - The authorization code
+   * @param {string} codeVerifier - The PKCE code verifier
+   * @returns {Promise<TokenResponse>} The token response
+   * @throws {Error} When the provider rejects the code
+   */
+  private async exchangeCode(
+    code: string,
+    codeVerifier: string
+  ): Promise<TokenResponse> {
+    const { token_endpoint } = await this.discover();
+    const headers: Record<string, string> = {
+      'content-type': 'application/x-www-form-urlencoded',
+      accept: 'application/json',
+    };
+
+    if (this.options.clientSecret) {
+      const credentials = `${encodeURIComponent(
+        this.options.clientId
+      )}:${encodeURIComponent(this.options.clientSecret)}`;
+      headers.authorization = `Basic ${Buffer.from(credentials).toString(
+        'base64'
+      )}`;
+    }
+
+    const response = await fetch(token_endpoint, {
+      method: 'POST',
+      headers,
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.options.redirectUri,
+        client_id: this.options.clientId,
+        code_verifier: codeVerifier,
+      }),
+    });
+    const body = (await response.json().catch(() => ({}))) as TokenResponse;
+
+    if (!response.ok) {
+      throw new Error(
+        `Token request failed with status ${response.status}: ${
+          body.error_description ?? body.error ?? 'unknown error'
+        }`
+      );
+    }
+
+    return body;
+  }
+
+  /**
+   * Fetches the claims of the userinfo endpoint
+   *
+   * @private
+   * @param {string} accessToken - The access token of the token response
+   * @returns {Promise<OidcClaims | null>} The claims, or null without userinfo endpoint
+   */
+  private async userinfo(accessToken: string): Promise<OidcClaims | null> {
+    const { userinfo_endpoint } = await this.discover();
+    if (!userinfo_endpoint) {
+      return null;
+    }
+
+    return this.fetchJson<OidcClaims>(userinfo_endpoint, {
+      authorization: `Bearer ${accessToken}`,
+    });
+  }
+
+  /**
+   * Returns the public key an ID token is signed with
+   *
+   * @private
+   * @param {string} [kid] - The key ID of the token header
+   * @returns {Promise<KeyObject>} The public key
+   * @throws {Error} When the key is not in the key set, even once fetched again
+   */
+  private async signingKey(kid?: string): Promise<KeyObject> {
+    const find = (keys: JsonWebKey[]) =>
+      kid
+        ? keys.find((key) => key.kid === kid)
+        : keys.find((key) => !key.use || key.use === 'sig');
+
+    let jwk = find(await this.signingKeys());
+    if (!jwk) {
+      this.keys = null;
+      jwk = find(await this.signingKeys());
+    }
+    if (!jwk) {
+      throw new Error(`Unknown ID token signing key ${kid ?? ''}`.trim());
+    }
+
+    return createPublicKey({ key: jwk, format: 'jwk' });
+  }
+
+  private signingKeys(): Promise<JsonWebKey[]> {
+    if (!this.keys) {
+      this.keys = this.discover()
+        .then(({ jwks_uri }) =>
+          this.fetchJson<{ keys: JsonWebKey[] }>(jwks_uri)
+        )
+        .then(({ keys }) => keys ?? []);
+      this.keys.catch(() => {
+        this.keys = null;
+      });
+    }
+
+    return this.keys;
+  }
+
+  private async fetchJson<T>(
+    url: string,
+    headers: Record<string, string> = {}
+  ): Promise<T> {
+    const response = await fetch(url, {
+      headers: { accept: 'application/json', ...headers },
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Request to ${url} failed with status ${response.status}`
+      );
+    }
+
+    return (await response.json()) as T;
+  }
+
+  private decodeSegment<T>(segment: string): T {
+    try {
+      return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Malformed ID token');
+    }
+  }
+}
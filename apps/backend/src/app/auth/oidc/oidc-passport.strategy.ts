@@ -0,0 +1,74 @@
+import type { Request } from 'express';
+import { BadRequestException } from '@nestjs/common';
+import { Strategy } from 'passport-strategy';
+
+import { OidcClaims } from '@backend/auth/oidc/oidc-client';
+
+/**
+ * Body of the callback request, posted by the frontend page the provider
+ * redirected to
+ */
+export interface OidcCallbackParams {
+  code: string;
+  state: string;
+  flowToken: string;
+}
+
+export interface OidcPassportStrategyOptions {
+  /** Validates the callback and returns the claims of the ID token */
+  callback: (params: OidcCallbackParams) => Promise<OidcClaims>;
+}
+
+export type OidcVerifyCallback = (
+  claims: OidcClaims,
+  done: (error: unknown, user?: Express.User | false | null) => void
+) => void;
+
+/**
+ * Passport strategy authenticating the callback of an OpenID Connect
+ * authorization code flow
+ *
+ * The redirect to the provider is done by the frontend with the URL of
+ * GET /auth/oidc/authorize, so the strategy only handles the callback.
+ */
+export class OidcPassportStrategy extends Strategy {
+  name = 'oidc';
+
+  constructor(
+    private readonly options: OidcPassportStrategyOptions,
+    private readonly verify: OidcVerifyCallback
+  ) {
+    super();
+  }
+
+  override authenticate(req: Request): void {
+    const { code, state, flowToken } = req.body ?? {};
+
+    if (
+      typeof code !== 'string' ||
+      typeof state !== 'string' ||
+      typeof flowToken !== 'string'
+    ) {
+      return this.error(
+        new BadRequestException(
+          'Authorization code, state and flow token are required'
+        )
+      );
+    }
+
+    this.options
+      .callback({ code, state, flowToken })
+      .then((claims) =>
+        this.verify(claims, (error, user) => {
+          if (error) {
+            return this.error(error as Error);
+          }
+          if (!user) {
+            return this.fail(401);
+          }
+          this.success(user);
+        })
+      )
+      .catch((error) => this.error(error));
+  }
+}
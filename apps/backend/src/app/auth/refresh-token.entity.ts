@@ -0,0 +1,82 @@
+import {
+  Index,
+  Entity,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+import { UserEntity } from '@backend/users/user.entity';
+
+/**
+ * Refresh token entity stored in PostgreSQL
+ *
+ * Each login starts a token family. Every refresh revokes the presented
+ * token and issues its successor in the same family, so a revoked token
+ * being presented again means it was stolen: the whole family is revoked.
+ *
+ * Only a SHA-256 hash of the token is stored, the token itself is
+ * returned once to the client.
+ *
+ * @entity refresh_tokens - PostgreSQL refresh tokens table
+ */
+@Entity('refresh_tokens')
+export class RefreshTokenEntity {
+  /**
+   * Unique token identifier (UUID v4)
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  /**
+   * SHA-256 hash of the token (hex)
+   * Unique, used to look the token up
+   */
+  @Column({ name: 'token_hash', unique: true, length: 64 })
+  tokenHash!: string;
+
+  /**
+   * Family shared by all the tokens rotated from the same login
+   */
+  @Column({ name: 'family_id', type: 'uuid' })
+  @Index()
+  familyId!: string;
+
+  /**
+   * Owner of the token
+   */
+  @Column({ name: 'user_id', type: 'uuid' })
+  @Index()
+  userId!: string;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: UserEntity;
+
+  /**
+   * Expiration date, after which the token cannot be used
+   */
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt!: Date;
+
+  /**
+   * Revocation date
+   * Set when the token is rotated, logged out or its family is revoked
+   */
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt!: Date | null;
+
+  /**
+   * Token issued in exchange for this one, null until rotated
+   */
+  @Column({ name: 'replaced_by_id', type: 'uuid', nullable: true })
+  replacedById!: string | null;
+
+  /**
+   * Issue date and time
+   */
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
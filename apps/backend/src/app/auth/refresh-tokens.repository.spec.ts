@@ -0,0 +1,135 @@
+import { IsNull, Repository } from 'typeorm';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { RefreshTokenEntity } from '@backend/auth/refresh-token.entity';
+import { RefreshTokensRepository } from '@backend/auth/refresh-tokens.repository';
+
+describe('RefreshTokensRepository', () => {
+  let repository: RefreshTokensRepository;
+  let typeOrmRepository: jest.Mocked<Repository<RefreshTokenEntity>>;
+
+  const mockRefreshToken: RefreshTokenEntity = {
+    id: 'token-id',
+    tokenHash: 'hash',
+    familyId: 'family-id',
+    userId: 'user-id',
+    expiresAt: new Date(),
+    revokedAt: null,
+    replacedById: null,
+    createdAt: new Date(),
+  };
+
+  const mockTypeOrmRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefreshTokensRepository,
+        {
+          provide: getRepositoryToken(RefreshTokenEntity),
+          useValue: mockTypeOrmRepository,
+        },
+      ],
+    }).compile();
+
+    repository = module.get<RefreshTokensRepository>(RefreshTokensRepository);
+    typeOrmRepository = module.get(getRepositoryToken(RefreshTokenEntity));
+  });
+
+  it('should be defined', () => {
+    expect(repository).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should create and save a new token', async () => {
+      const data = {
+        tokenHash: 'hash',
+        familyId: 'family-id',
+        userId: 'user-id',
+        expiresAt: mockRefreshToken.expiresAt,
+      };
+      typeOrmRepository.create.mockReturnValue(mockRefreshToken);
+      typeOrmRepository.save.mockResolvedValue(mockRefreshToken);
+
+      const result = await repository.create(data);
+
+      expect(typeOrmRepository.create).toHaveBeenCalledWith(data);
+      expect(typeOrmRepository.save).toHaveBeenCalledWith(mockRefreshToken);
+      expect(result).toEqual(mockRefreshToken);
+    });
+  });
+
+  describe('findByHash', () => {
+    it('should find a token by its hash', async () => {
+      typeOrmRepository.findOne.mockResolvedValue(mockRefreshToken);
+
+      const result = await repository.findByHash('hash');
+
+      expect(typeOrmRepository.findOne).toHaveBeenCalledWith({
+        where: { tokenHash: 'hash' },
+      });
+      expect(result).toEqual(mockRefreshToken);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should revoke an active token and record its replacement', async () => {
+      typeOrmRepository.update.mockResolvedValue({
+        affected: 1,
+        raw: [],
+        generatedMaps: [],
+      });
+
+      const result = await repository.revoke('token-id', 'replacement-id');
+
+      expect(typeOrmRepository.update).toHaveBeenCalledWith(
+        { id: 'token-id', revokedAt: IsNull() },
+        { revokedAt: expect.any(Date), replacedById: 'replacement-id' }
+      );
+      expect(result).toBe(true);
+    });
+
+    it('should return false if the token was already revoked', async () => {
+      typeOrmRepository.update.mockResolvedValue({
+        affected: 0,
+        raw: [],
+        generatedMaps: [],
+      });
+
+      const result = await repository.revoke('token-id');
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('revokeFamily', () => {
+    it('should revoke the active tokens of the family', async () => {
+      await repository.revokeFamily('family-id');
+
+      expect(typeOrmRepository.update).toHaveBeenCalledWith(
+        { familyId: 'family-id', revokedAt: IsNull() },
+        { revokedAt: expect.any(Date) }
+      );
+    });
+  });
+
+  describe('deleteExpired', () => {
+    it('should delete the expired tokens of the user', async () => {
+      await repository.deleteExpired('user-id');
+
+      expect(typeOrmRepository.delete).toHaveBeenCalledWith({
+        userId: 'user-id',
+        expiresAt: expect.anything(),
+      });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThan, Repository } from 'typeorm';
+
+import { RefreshTokenEntity } from '@backend/auth/refresh-token.entity';
+
+export type CreateRefreshTokenData = Pick<
+  RefreshTokenEntity,
+  'tokenHash' | 'familyId' | 'userId' | 'expiresAt'
+> &
+  Partial<Pick<RefreshTokenEntity, 'id'>>;
+
+export interface IRefreshTokensRepository {
+  create(data: CreateRefreshTokenData): Promise<RefreshTokenEntity>;
+  findByHash(tokenHash: string): Promise<RefreshTokenEntity | null>;
+  revoke(id: string, replacedById?: string): Promise<boolean>;
+  revokeFamily(familyId: string): Promise<void>;
+  deleteExpired(userId: string): Promise<void>;
+}
+
+@Injectable()
+export class RefreshTokensRepository implements IRefreshTokensRepository {
+  constructor(
+    @InjectRepository(RefreshTokenEntity)
+    private readonly refreshTokenRepository: Repository<RefreshTokenEntity>
+  ) {}
+
+  /**
+   * Stores a new refresh token
+   *
+   * @param {CreateRefreshTokenData} data - Hash, family, owner and expiration of the token
+   * @returns {Promise<RefreshTokenEntity>} The saved token entity
+   */
+  async create(data: CreateRefreshTokenData): Promise<RefreshTokenEntity> {
+    const token = this.refreshTokenRepository.create(data);
+    return this.refreshTokenRepository.save(token);
+  }
+
+  /**
+   * Finds a refresh token by the hash of its value
+   *
+   * @param {string} tokenHash - SHA-256 hash of the token
+   * @returns {Promise<RefreshTokenEntity | null>} The token entity or null if not found
+   */
+  async findByHash(tokenHash: string): Promise<RefreshTokenEntity | null> {
+    return this.refreshTokenRepository.findOne({ where: { tokenHash } });
+  }
+
+  /**
+   * Revokes a token unless it already is, in a single conditional update
+   * so two concurrent uses of the same token cannot both succeed
+   *
+   * @param {string} id - The ID of the token to revoke
+   * @param {string} [replacedById] - The ID of the token issued in exchange
+   * @returns {Promise<boolean>} True if the token was revoked by this call
+   */
+  async revoke(id: string, replacedById?: string): Promise<boolean> {
+    const result = await this.refreshTokenRepository.update(
+      { id, revokedAt: IsNull() },
+      { revokedAt: new Date(), replacedById: replacedById ?? null }
+    );
+    return !!result?.affected;
+  }
+
+  /**
+   * Revokes every token of a family that is still active
+   *
+   * @param {string} familyId - The family to revoke
+   * @returns {Promise<void>}
+   */
+  async revokeFamily(familyId: string): Promise<void> {
+    await this.refreshTokenRepository.update(
+      { familyId, revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+  }
+
+  /**
+   * Deletes the expired tokens of a user, which can no longer be used
+   * nor help detecting a reuse
+   *
+   * @param {string} userId - The owner of the tokens
+   * @returns {Promise<void>}
+   */
+  async deleteExpired(userId: string): Promise<void> {
+    await this.refreshTokenRepository.delete({
+      userId,
+      expiresAt: LessThan(new Date()),
+    });
+  }
+}
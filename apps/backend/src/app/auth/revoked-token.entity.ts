@@ -0,0 +1,61 @@
+import {
+  Index,
+  Entity,
+  Column,
+  CreateDateColumn,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+/**
+ * Revoked access token entity stored in PostgreSQL
+ *
+ * Access tokens are stateless JWTs, valid until they expire. Logging out
+ * adds the `jti` claim of the token to this denylist, and revoking a
+ * session adds its `sid` claim, denying every access token of the session.
+ * The denylist is checked on every HTTP request and WebSocket event, and
+ * entries are only needed until the tokens would have expired anyway.
+ *
+ * @entity revoked_tokens - PostgreSQL access token denylist table
+ */
+@Entity('revoked_tokens')
+export class RevokedTokenEntity {
+  /**
+   * Unique entry identifier (UUID v4)
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  /**
+   * The `jti` claim of the revoked token, null for a revoked session
+   */
+  @Column({ type: 'uuid', nullable: true })
+  @Index()
+  jti!: string | null;
+
+  /**
+   * The `sid` claim of the revoked tokens
+   */
+  @Column({ name: 'session_id', type: 'uuid', nullable: true })
+  @Index()
+  sessionId!: string | null;
+
+  /**
+   * Owner of the token
+   */
+  @Column({ name: 'user_id', type: 'uuid' })
+  @Index()
+  userId!: string;
+
+  /**
+   * Expiration date of the tokens, after which the entry can be deleted
+   */
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  @Index()
+  expiresAt!: Date;
+
+  /**
+   * Revocation date and time
+   */
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
@@ -0,0 +1,100 @@
+import { Repository } from 'typeorm';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { RevokedTokenEntity } from '@backend/auth/revoked-token.entity';
+import { RevokedTokensRepository } from '@backend/auth/revoked-tokens.repository';
+
+describe('RevokedTokensRepository', () => {
+  let repository: RevokedTokensRepository;
+  let typeOrmRepository: jest.Mocked<Repository<RevokedTokenEntity>>;
+
+  const mockRevokedToken: RevokedTokenEntity = {
+    id: 'revoked-token-id',
+    jti: 'token-jti',
+    sessionId: null,
+    userId: 'user-id',
+    expiresAt: new Date(),
+    createdAt: new Date(),
+  };
+
+  const mockTypeOrmRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    exists: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RevokedTokensRepository,
+        {
+          provide: getRepositoryToken(RevokedTokenEntity),
+          useValue: mockTypeOrmRepository,
+        },
+      ],
+    }).compile();
+
+    repository = module.get<RevokedTokensRepository>(RevokedTokensRepository);
+    typeOrmRepository = module.get(getRepositoryToken(RevokedTokenEntity));
+  });
+
+  it('should be defined', () => {
+    expect(repository).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should create and save a denylist entry', async () => {
+      const data = {
+        jti: 'token-jti',
+        userId: 'user-id',
+        expiresAt: mockRevokedToken.expiresAt,
+      };
+      typeOrmRepository.create.mockReturnValue(mockRevokedToken);
+      typeOrmRepository.save.mockResolvedValue(mockRevokedToken);
+
+      const result = await repository.create(data);
+
+      expect(typeOrmRepository.create).toHaveBeenCalledWith(data);
+      expect(typeOrmRepository.save).toHaveBeenCalledWith(mockRevokedToken);
+      expect(result).toEqual(mockRevokedToken);
+    });
+  });
+
+  describe('exists', () => {
+    it('should check the denylist by jti', async () => {
+      typeOrmRepository.exists.mockResolvedValue(true);
+
+      const result = await repository.exists('token-jti');
+
+      expect(typeOrmRepository.exists).toHaveBeenCalledWith({
+        where: { jti: 'token-jti' },
+      });
+      expect(result).toBe(true);
+    });
+
+    it('should check the denylist by jti or session', async () => {
+      typeOrmRepository.exists.mockResolvedValue(false);
+
+      const result = await repository.exists('token-jti', 'session-id');
+
+      expect(typeOrmRepository.exists).toHaveBeenCalledWith({
+        where: [{ jti: 'token-jti' }, { sessionId: 'session-id' }],
+      });
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('deleteExpired', () => {
+    it('should delete the entries of expired tokens', async () => {
+      await repository.deleteExpired();
+
+      expect(typeOrmRepository.delete).toHaveBeenCalledWith({
+        expiresAt: expect.anything(),
+      });
+    });
+  });
+});
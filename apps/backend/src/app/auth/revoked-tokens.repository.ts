@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+
+import { RevokedTokenEntity } from '@backend/auth/revoked-token.entity';
+
+export type CreateRevokedTokenData = Pick<
+  RevokedTokenEntity,
+  'userId' | 'expiresAt'
+> &
+  Partial<Pick<RevokedTokenEntity, 'jti' | 'sessionId'>>;
+
+export interface IRevokedTokensRepository {
+  create(data: CreateRevokedTokenData): Promise<RevokedTokenEntity>;
+  exists(jti: string, sessionId?: string): Promise<boolean>;
+  deleteExpired(): Promise<void>;
+}
+
+@Injectable()
+export class RevokedTokensRepository implements IRevokedTokensRepository {
+  constructor(
+    @InjectRepository(RevokedTokenEntity)
+    private readonly revokedTokenRepository: Repository<RevokedTokenEntity>
+  ) {}
+
+  /**
+   * Adds a token or a session to the denylist
+   *
+   * @param {CreateRevokedTokenData} data - The `jti` or `sid`, owner and expiration of the tokens
+   * @returns {Promise<RevokedTokenEntity>} The saved denylist entry
+   */
+  async create(data: CreateRevokedTokenData): Promise<RevokedTokenEntity> {
+    const token = this.revokedTokenRepository.create(data);
+    return this.revokedTokenRepository.save(token);
+  }
+
+  /**
+   * Checks whether a token or its session is in the denylist
+   *
+   * @param {string} jti - The `jti` claim of the token
+   * @param {string} [sessionId] - The `sid` claim of the token
+   * @returns {Promise<boolean>} True if the token or its session was revoked
+   */
+  async exists(jti: string, sessionId?: string): Promise<boolean> {
+    return this.revokedTokenRepository.exists({
+      where: sessionId ? [{ jti }, { sessionId }] : { jti },
+    });
+  }
+
+  /**
+   * Deletes the entries of the tokens that have expired since,
+   * which are rejected anyway by the signature check
+   *
+   * @returns {Promise<void>}
+   */
+  async deleteExpired(): Promise<void> {
+    await this.revokedTokenRepository.delete({
+      expiresAt: LessThan(new Date()),
+    });
+  }
+}
@@ -0,0 +1,90 @@
+import {
+  Index,
+  Entity,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+import { UserEntity } from '@backend/users/user.entity';
+
+/**
+ * Session entity stored in PostgreSQL
+ *
+ * A session is opened on each login and lasts as long as its refresh
+ * tokens are rotated: the session ID is the family of its refresh tokens
+ * and the `sid` claim of its access tokens. Revoking a session revokes
+ * both, and closes its WebSocket connections.
+ *
+ * @entity sessions - PostgreSQL sessions table
+ */
+@Entity('sessions')
+export class SessionEntity {
+  /**
+   * Unique session identifier (UUID v4)
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  /**
+   * Owner of the session
+   */
+  @Column({ name: 'user_id', type: 'uuid' })
+  @Index()
+  userId!: string;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: UserEntity;
+
+  /**
+   * Browser and operating system, described from the user agent
+   */
+  @Column({ length: 100 })
+  device!: string;
+
+  /**
+   * IP address of the last request that used the session
+   */
+  @Column({ name: 'ip_address', type: 'varchar', length: 45, nullable: true })
+  ipAddress!: string | null;
+
+  /**
+   * User agent of the last request that used the session
+   */
+  @Column({ name: 'user_agent', type: 'varchar', length: 512, nullable: true })
+  userAgent!: string | null;
+
+  /**
+   * Expiration date of the last access token issued for the session,
+   * until which the session stays in the denylist once revoked
+   */
+  @Column({ name: 'access_token_expires_at', type: 'timestamp' })
+  accessTokenExpiresAt!: Date;
+
+  /**
+   * Expiration date of the last refresh token, after which the session ends
+   */
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt!: Date;
+
+  /**
+   * Revocation date, set on logout or remote sign-out
+   */
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt!: Date | null;
+
+  /**
+   * Login date and time
+   */
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  /**
+   * Date and time of the last login or token refresh
+   */
+  @Column({ name: 'last_used_at', type: 'timestamp' })
+  lastUsedAt!: Date;
+}
@@ -0,0 +1,150 @@
+import { IsNull, Repository } from 'typeorm';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { SessionEntity } from '@backend/auth/session.entity';
+import { SessionsRepository } from '@backend/auth/sessions.repository';
+
+describe('SessionsRepository', () => {
+  let repository: SessionsRepository;
+  let typeOrmRepository: jest.Mocked<Repository<SessionEntity>>;
+
+  const mockSession: SessionEntity = {
+    id: 'session-id',
+    userId: 'user-id',
+    device: 'Firefox (Linux)',
+    ipAddress: '127.0.0.1',
+    userAgent: 'Mozilla/5.0',
+    accessTokenExpiresAt: new Date(),
+    expiresAt: new Date(),
+    revokedAt: null,
+    createdAt: new Date(),
+    lastUsedAt: new Date(),
+  };
+
+  const mockTypeOrmRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    findOne: jest.fn(),
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsRepository,
+        {
+          provide: getRepositoryToken(SessionEntity),
+          useValue: mockTypeOrmRepository,
+        },
+      ],
+    }).compile();
+
+    repository = module.get<SessionsRepository>(SessionsRepository);
+    typeOrmRepository = module.get(getRepositoryToken(SessionEntity));
+  });
+
+  it('should be defined', () => {
+    expect(repository).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should create and save a session', async () => {
+      const data = {
+        userId: 'user-id',
+        device: 'Firefox (Linux)',
+        ipAddress: '127.0.0.1',
+        userAgent: 'Mozilla/5.0',
+        accessTokenExpiresAt: mockSession.accessTokenExpiresAt,
+        expiresAt: mockSession.expiresAt,
+        lastUsedAt: mockSession.lastUsedAt,
+      };
+      typeOrmRepository.create.mockReturnValue(mockSession);
+      typeOrmRepository.save.mockResolvedValue(mockSession);
+
+      const result = await repository.create(data);
+
+      expect(typeOrmRepository.create).toHaveBeenCalledWith(data);
+      expect(typeOrmRepository.save).toHaveBeenCalledWith(mockSession);
+      expect(result).toEqual(mockSession);
+    });
+  });
+
+  describe('findActiveById', () => {
+    it('should only find a session neither revoked nor expired', async () => {
+      typeOrmRepository.findOne.mockResolvedValue(mockSession);
+
+      const result = await repository.findActiveById('session-id');
+
+      expect(typeOrmRepository.findOne).toHaveBeenCalledWith({
+        where: {
+          id: 'session-id',
+          revokedAt: IsNull(),
+          expiresAt: expect.anything(),
+        },
+      });
+      expect(result).toEqual(mockSession);
+    });
+  });
+
+  describe('findActiveByUser', () => {
+    it('should find the active sessions of a user, most recently used first', async () => {
+      typeOrmRepository.find.mockResolvedValue([mockSession]);
+
+      const result = await repository.findActiveByUser('user-id');
+
+      expect(typeOrmRepository.find).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-id',
+          revokedAt: IsNull(),
+          expiresAt: expect.anything(),
+        },
+        order: { lastUsedAt: 'DESC' },
+      });
+      expect(result).toEqual([mockSession]);
+    });
+  });
+
+  describe('update', () => {
+    it('should update the session', async () => {
+      const lastUsedAt = new Date();
+
+      await repository.update('session-id', { lastUsedAt });
+
+      expect(typeOrmRepository.update).toHaveBeenCalledWith('session-id', {
+        lastUsedAt,
+      });
+    });
+  });
+
+  describe('revoke', () => {
+    it('should revoke an active session', async () => {
+      typeOrmRepository.update.mockResolvedValue({
+        affected: 1,
+        raw: [],
+        generatedMaps: [],
+      });
+
+      const result = await repository.revoke('session-id');
+
+      expect(typeOrmRepository.update).toHaveBeenCalledWith(
+        { id: 'session-id', revokedAt: IsNull() },
+        { revokedAt: expect.any(Date) }
+      );
+      expect(result).toBe(true);
+    });
+
+    it('should return false if the session was already revoked', async () => {
+      typeOrmRepository.update.mockResolvedValue({
+        affected: 0,
+        raw: [],
+        generatedMaps: [],
+      });
+
+      await expect(repository.revoke('session-id')).resolves.toBe(false);
+    });
+  });
+});
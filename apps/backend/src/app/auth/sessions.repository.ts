@@ -0,0 +1,95 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+
+import { SessionEntity } from '@backend/auth/session.entity';
+
+export type CreateSessionData = Pick<
+  SessionEntity,
+  | 'userId'
+  | 'device'
+  | 'ipAddress'
+  | 'userAgent'
+  | 'accessTokenExpiresAt'
+  | 'expiresAt'
+  | 'lastUsedAt'
+>;
+
+export type UpdateSessionData = Partial<Omit<CreateSessionData, 'userId'>>;
+
+export interface ISessionsRepository {
+  create(data: CreateSessionData): Promise<SessionEntity>;
+  findActiveById(id: string): Promise<SessionEntity | null>;
+  findActiveByUser(userId: string): Promise<SessionEntity[]>;
+  update(id: string, data: UpdateSessionData): Promise<void>;
+  revoke(id: string): Promise<boolean>;
+}
+
+@Injectable()
+export class SessionsRepository implements ISessionsRepository {
+  constructor(
+    @InjectRepository(SessionEntity)
+    private readonly sessionRepository: Repository<SessionEntity>
+  ) {}
+
+  /**
+   * Stores a new session
+   *
+   * @param {CreateSessionData} data - Owner, device and tokens of the session
+   * @returns {Promise<SessionEntity>} The saved session entity
+   */
+  async create(data: CreateSessionData): Promise<SessionEntity> {
+    const session = this.sessionRepository.create(data);
+    return this.sessionRepository.save(session);
+  }
+
+  /**
+   * Finds a session that is neither revoked nor expired
+   *
+   * @param {string} id - The ID of the session
+   * @returns {Promise<SessionEntity | null>} The session entity or null if not active
+   */
+  async findActiveById(id: string): Promise<SessionEntity | null> {
+    return this.sessionRepository.findOne({
+      where: { id, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+    });
+  }
+
+  /**
+   * Finds the active sessions of a user, most recently used first
+   *
+   * @param {string} userId - The owner of the sessions
+   * @returns {Promise<SessionEntity[]>} The active sessions of the user
+   */
+  async findActiveByUser(userId: string): Promise<SessionEntity[]> {
+    return this.sessionRepository.find({
+      where: { userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      order: { lastUsedAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Updates a session
+   *
+   * @param {string} id - The ID of the session
+   * @param {UpdateSessionData} data - The fields to update
+   * @returns {Promise<void>}
+   */
+  async update(id: string, data: UpdateSessionData): Promise<void> {
+    await this.sessionRepository.update(id, data);
+  }
+
+  /**
+   * Revokes a session unless it already is
+   *
+   * @param {string} id - The ID of the session
+   * @returns {Promise<boolean>} True if the session was revoked by this call
+   */
+  async revoke(id: string): Promise<boolean> {
+    const result = await this.sessionRepository.update(
+      { id, revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+    return !!result?.affected;
+  }
+}
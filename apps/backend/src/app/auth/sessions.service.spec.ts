@@ -0,0 +1,254 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { SessionEntity } from '@backend/auth/session.entity';
+import { SessionsService } from '@backend/auth/sessions.service';
+import { SessionsRepository } from '@backend/auth/sessions.repository';
+import { TokenDenylistService } from '@backend/auth/token-denylist.service';
+import { RefreshTokensRepository } from '@backend/auth/refresh-tokens.repository';
+
+jest.mock('@nestjs/swagger', () => ({
+  ApiProperty: () => () => ({}),
+}));
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+  let sessionsRepository: jest.Mocked<SessionsRepository>;
+  let refreshTokensRepository: jest.Mocked<RefreshTokensRepository>;
+  let tokenDenylistService: jest.Mocked<TokenDenylistService>;
+
+  const firefoxUserAgent =
+    'Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Gecko/20100101 Firefox/128.0';
+
+  const tokens = {
+    accessTokenExpiresAt: new Date(Date.now() + 3600 * 1000),
+    expiresAt: new Date(Date.now() + 86400 * 1000),
+  };
+
+  const mockSession: SessionEntity = {
+    id: 'session-id',
+    userId: 'user-id',
+    device: 'Firefox (Linux)',
+    ipAddress: '127.0.0.1',
+    userAgent: firefoxUserAgent,
+    ...tokens,
+    revokedAt: null,
+    createdAt: new Date(),
+    lastUsedAt: new Date(),
+  };
+
+  const mockSessionsRepository = {
+    create: jest.fn(),
+    findActiveById: jest.fn(),
+    findActiveByUser: jest.fn(),
+    update: jest.fn(),
+    revoke: jest.fn(),
+  };
+
+  const mockRefreshTokensRepository = {
+    revokeFamily: jest.fn(),
+  };
+
+  const mockTokenDenylistService = {
+    revokeSession: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        {
+          provide: SessionsRepository,
+          useValue: mockSessionsRepository,
+        },
+        {
+          provide: RefreshTokensRepository,
+          useValue: mockRefreshTokensRepository,
+        },
+        {
+          provide: TokenDenylistService,
+          useValue: mockTokenDenylistService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SessionsService>(SessionsService);
+    sessionsRepository = module.get(SessionsRepository);
+    refreshTokensRepository = module.get(RefreshTokensRepository);
+    tokenDenylistService = module.get(TokenDenylistService);
+  });
+
+  describe('create', () => {
+    it('should record the device the session is opened from', async () => {
+      sessionsRepository.create.mockResolvedValue(mockSession);
+
+      const result = await service.create(
+        'user-id',
+        { ipAddress: '127.0.0.1', userAgent: firefoxUserAgent },
+        tokens
+      );
+
+      expect(sessionsRepository.create).toHaveBeenCalledWith({
+        userId: 'user-id',
+        device: 'Firefox (Linux)',
+        ipAddress: '127.0.0.1',
+        userAgent: firefoxUserAgent,
+        ...tokens,
+        lastUsedAt: expect.any(Date),
+      });
+      expect(result).toEqual(mockSession);
+    });
+
+    it('should accept a client without IP address nor user agent', async () => {
+      await service.create('user-id', {}, tokens);
+
+      expect(sessionsRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          device: 'Unknown device',
+          ipAddress: null,
+          userAgent: null,
+        })
+      );
+    });
+  });
+
+  describe('recordRefresh', () => {
+    it('should update the tokens and last use of the session', async () => {
+      await service.recordRefresh(
+        mockSession,
+        { ipAddress: '10.0.0.2' },
+        tokens
+      );
+
+      expect(sessionsRepository.update).toHaveBeenCalledWith('session-id', {
+        ipAddress: '10.0.0.2',
+        ...tokens,
+        lastUsedAt: expect.any(Date),
+      });
+    });
+  });
+
+  describe('findAllForUser', () => {
+    it('should flag the current session', async () => {
+      sessionsRepository.findActiveByUser.mockResolvedValue([
+        mockSession,
+        { ...mockSession, id: 'other-session-id' },
+      ]);
+
+      const result = await service.findAllForUser('user-id', 'session-id');
+
+      expect(sessionsRepository.findActiveByUser).toHaveBeenCalledWith(
+        'user-id'
+      );
+      expect(result.map((session) => session.isCurrent)).toEqual([true, false]);
+      expect(result[0]).toEqual({
+        id: 'session-id',
+        device: 'Firefox (Linux)',
+        ipAddress: '127.0.0.1',
+        userAgent: firefoxUserAgent,
+        createdAt: mockSession.createdAt,
+        lastUsedAt: mockSession.lastUsedAt,
+        isCurrent: true,
+      });
+    });
+  });
+
+  describe('revoke', () => {
+    it('should revoke the session, its refresh tokens and its access tokens', async () => {
+      sessionsRepository.findActiveById.mockResolvedValue(mockSession);
+      sessionsRepository.revoke.mockResolvedValue(true);
+
+      await service.revoke('user-id', 'session-id');
+
+      expect(sessionsRepository.revoke).toHaveBeenCalledWith('session-id');
+      expect(refreshTokensRepository.revokeFamily).toHaveBeenCalledWith(
+        'session-id'
+      );
+      expect(tokenDenylistService.revokeSession).toHaveBeenCalledWith(
+        'session-id',
+        'user-id',
+        tokens.accessTokenExpiresAt
+      );
+    });
+
+    it('should not deny access tokens that already expired', async () => {
+      sessionsRepository.findActiveById.mockResolvedValue({
+        ...mockSession,
+        accessTokenExpiresAt: new Date(Date.now() - 1000),
+      });
+      sessionsRepository.revoke.mockResolvedValue(true);
+
+      await service.revoke('user-id', 'session-id');
+
+      expect(refreshTokensRepository.revokeFamily).toHaveBeenCalled();
+      expect(tokenDenylistService.revokeSession).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for a session of another user', async () => {
+      sessionsRepository.findActiveById.mockResolvedValue(mockSession);
+
+      await expect(service.revoke('other-id', 'session-id')).rejects.toThrow(
+        NotFoundException
+      );
+      expect(sessionsRepository.revoke).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an inactive session', async () => {
+      sessionsRepository.findActiveById.mockResolvedValue(null);
+
+      await expect(service.revoke('user-id', 'session-id')).rejects.toThrow(
+        'Session not found'
+      );
+    });
+
+    it('should throw NotFoundException if the session was revoked concurrently', async () => {
+      sessionsRepository.findActiveById.mockResolvedValue(mockSession);
+      sessionsRepository.revoke.mockResolvedValue(false);
+
+      await expect(service.revoke('user-id', 'session-id')).rejects.toThrow(
+        NotFoundException
+      );
+      expect(refreshTokensRepository.revokeFamily).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('endAll', () => {
+    it('should end every active session of the user', async () => {
+      sessionsRepository.findActiveByUser.mockResolvedValue([
+        mockSession,
+        { ...mockSession, id: 'other-session-id' },
+      ]);
+      sessionsRepository.revoke.mockResolvedValue(true);
+
+      const result = await service.endAll('user-id');
+
+      expect(sessionsRepository.findActiveByUser).toHaveBeenCalledWith(
+        'user-id'
+      );
+      expect(sessionsRepository.revoke).toHaveBeenCalledWith('session-id');
+      expect(sessionsRepository.revoke).toHaveBeenCalledWith(
+        'other-session-id'
+      );
+      expect(refreshTokensRepository.revokeFamily).toHaveBeenCalledTimes(2);
+      expect(result).toEqual(['session-id', 'other-session-id']);
+    });
+
+    it('should keep the given session', async () => {
+      sessionsRepository.findActiveByUser.mockResolvedValue([
+        mockSession,
+        { ...mockSession, id: 'other-session-id' },
+      ]);
+      sessionsRepository.revoke.mockResolvedValue(true);
+
+      const result = await service.endAll('user-id', 'session-id');
+
+      expect(sessionsRepository.revoke).toHaveBeenCalledTimes(1);
+      expect(sessionsRepository.revoke).toHaveBeenCalledWith(
+        'other-session-id'
+      );
+      expect(result).toEqual(['other-session-id']);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+
+import { SessionEntity } from '@backend/auth/session.entity';
+import { SessionsRepository } from '@backend/auth/sessions.repository';
+import { describeDevice } from '@backend/auth/devices/describe-device';
+import { TokenDenylistService } from '@backend/auth/token-denylist.service';
+import { SessionResponseDto } from '@backend/auth/dto/session-response.dto';
+import { RefreshTokensRepository } from '@backend/auth/refresh-tokens.repository';
+import { ClientInfoInterface } from '@backend/auth/interfaces/client-info.interface';
+
+/**
+ * Tokens issued when a session is opened or refreshed
+ */
+export interface SessionTokensInterface {
+  accessTokenExpiresAt: Date;
+  expiresAt: Date;
+}
+
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+
+  constructor(
+    private sessionsRepository: SessionsRepository,
+    private refreshTokensRepository: RefreshTokensRepository,
+    private tokenDenylistService: TokenDenylistService
+  ) {}
+
+  /**
+   * Opens a session on login, recording the device it was opened from
+   *
+   * @param {string} userId - The ID of the user logging in
+   * @param {ClientInfoInterface} client - IP address and user agent of the request
+   * @param {SessionTokensInterface} tokens - The tokens issued for the session
+   * @returns {Promise<SessionEntity>} The created session
+   */
+  async create(
+    userId: string,
+    client: ClientInfoInterface,
+    tokens: SessionTokensInterface
+  ): Promise<SessionEntity> {
+    return this.sessionsRepository.create({
+      userId,
+      device: describeDevice(client.userAgent),
+      ipAddress: client.ipAddress ?? null,
+      userAgent: client.userAgent?.slice(0, 512) ?? null,
+      ...tokens,
+      lastUsedAt: new Date(),
+    });
+  }
+
+  /**
+   * Finds a session that is neither revoked nor expired
+   *
+   * @param {string} sessionId - The ID of the session
+   * @returns {Promise<SessionEntity | null>} The session or null if not active
+   */
+  async findActive(sessionId: string): Promise<SessionEntity | null> {
+    return this.sessionsRepository.findActiveById(sessionId);
+  }
+
+  /**
+   * Records a token refresh on a session
+   *
+   * @param {SessionEntity} session - The refreshed session
+   * @param {ClientInfoInterface} client - IP address and user agent of the request
+   * @param {SessionTokensInterface} tokens - The tokens issued by the refresh
+   * @returns {Promise<void>}
+   */
+  async recordRefresh(
+    session: SessionEntity,
+    client: ClientInfoInterface,
+    tokens: SessionTokensInterface
+  ): Promise<void> {
+    await this.sessionsRepository.update(session.id, {
+      ...(client.userAgent && {
+        device: describeDevice(client.userAgent),
+        userAgent: client.userAgent.slice(0, 512),
+      }),
+      ...(client.ipAddress && { ipAddress: client.ipAddress }),
+      ...tokens,
+      lastUsedAt: new Date(),
+    });
+  }
+
+  /**
+   * Lists the active sessions of a user, most recently used first
+   *
+   * @param {string} userId - The ID of the user
+   * @param {string} [currentSessionId] - The session of the current request
+   * @returns {Promise<SessionResponseDto[]>} The active sessions
+   */
+  async findAllForUser(
+    userId: string,
+    currentSessionId?: string
+  ): Promise<SessionResponseDto[]> {
+    const sessions = await this.sessionsRepository.findActiveByUser(userId);
+
+    return sessions.map((session) => ({
+      id: session.id,
+      device: session.device,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      isCurrent: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revokes a session of a user
+   *
+   * @param {string} userId - The ID of the user owning the session
+   * @param {string} sessionId - The ID of the session to revoke
+   * @returns {Promise<void>}
+   * @throws {NotFoundException} When the session does not exist, is not active or belongs to another user
+   */
+  async revoke(userId: string, sessionId: string): Promise<void> {
+    const session = await this.sessionsRepository.findActiveById(sessionId);
+
+    if (!session || session.userId !== userId || !(await this.end(session))) {
+      throw new NotFoundException('Session not found');
+    }
+
+    this.logger.log(`Session ${session.id} of user ${userId} revoked`);
+  }
+
+  /**
+   * Ends every active session of a user, signing them out of all devices
+   *
+   * @param {string} userId - The ID of the user
+   * @param {string} [keptSessionId] - The ID of a session to leave active, the one of the current device
+   * @returns {Promise<string[]>} The IDs of the ended sessions
+   */
+  async endAll(userId: string, keptSessionId?: string): Promise<string[]> {
+    const sessions = await this.sessionsRepository.findActiveByUser(userId);
+    const endedSessionIds: string[] = [];
+
+    for (const session of sessions) {
+      if (session.id !== keptSessionId && (await this.end(session))) {
+        endedSessionIds.push(session.id);
+      }
+    }
+
+    this.logger.log(
+      keptSessionId
+        ? `Other sessions of user ${userId} ended`
+        : `All sessions of user ${userId} ended`
+    );
+
+    return endedSessionIds;
+  }
+
+  /**
+   * Ends a session: its refresh tokens can no longer be used and its
+   * access tokens are denied until the last one expires
+   *
+   * @param {SessionEntity} session - The session to end
+   * @returns {Promise<boolean>} False if the session was already ended
+   */
+  async end(session: SessionEntity): Promise<boolean> {
+    if (!(await this.sessionsRepository.revoke(session.id))) {
+      return false;
+    }
+
+    await this.refreshTokensRepository.revokeFamily(session.id);
+
+    if (session.accessTokenExpiresAt.getTime() > Date.now()) {
+      await this.tokenDenylistService.revokeSession(
+        session.id,
+        session.userId,
+        session.accessTokenExpiresAt
+      );
+    }
+
+    return true;
+  }
+}
@@ -4,6 +4,7 @@ import { UnauthorizedException, NotFoundException } from '@nestjs/common';
 
 import { UserEntity } from '@backend/users/user.entity';
 import { UsersService } from '@backend/users/users.service';
+import { TokenDenylistService } from '@backend/auth/token-denylist.service';
 import { JwtStrategy } from '@backend/auth/strategies/jwt.strategy';
 import { JwtPayloadInterface } from '@backend/auth/interfaces/jwt-payload.interface';
 
@@ -38,25 +39,41 @@ describe('JwtStrategy', () => {
   let strategy: JwtStrategy;
   let usersService: jest.Mocked<UsersService>;
   let configService: jest.Mocked<ConfigService>;
+  let tokenDenylistService: jest.Mocked<TokenDenylistService>;
 
   const mockUser: UserEntity = {
     id: 'test-id',
     email: 'test@example.com',
     firstName: 'John',
     lastName: 'Doe',
+    displayName: null,
+    avatarUrl: null,
+    bio: null,
+    timezone: null,
+    locale: null,
     password: 'hashedPassword',
     isActive: true,
     isAdmin: false,
+    emailVerifiedAt: new Date(),
+    mfaSecret: null,
+    mfaEnabledAt: null,
+    mfaRecoveryCodes: [],
+    oidcSubject: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     validatePassword: jest.fn(),
     fullName: 'John Doe',
+    publicName: 'John Doe',
   };
 
   const mockUsersService = {
     findOne: jest.fn(),
   };
 
+  const mockTokenDenylistService = {
+    isRevoked: jest.fn(),
+  };
+
   const mockConfigService = {
     get: jest.fn().mockReturnValue('test-secret-key'),
   };
@@ -72,6 +89,10 @@ describe('JwtStrategy', () => {
           provide: UsersService,
           useValue: mockUsersService,
         },
+        {
+          provide: TokenDenylistService,
+          useValue: mockTokenDenylistService,
+        },
         {
           provide: ConfigService,
           useValue: mockConfigService,
@@ -82,6 +103,8 @@ describe('JwtStrategy', () => {
     strategy = module.get<JwtStrategy>(JwtStrategy);
     usersService = module.get(UsersService);
     configService = module.get(ConfigService);
+    tokenDenylistService = module.get(TokenDenylistService);
+    tokenDenylistService.isRevoked.mockResolvedValue(false);
   });
 
   it('should be defined', () => {
@@ -99,6 +122,8 @@ describe('JwtStrategy', () => {
     const payload: JwtPayloadInterface = {
       sub: 'test-id',
       email: 'test@example.com',
+      jti: 'token-jti',
+      sid: 'session-id',
     };
 
     it('should validate and return user for valid payload', async () => {
@@ -106,10 +131,28 @@ describe('JwtStrategy', () => {
 
       const result = await strategy.validate(payload);
 
+      expect(tokenDenylistService.isRevoked).toHaveBeenCalledWith(
+        'token-jti',
+        'session-id'
+      );
       expect(usersService.findOne).toHaveBeenCalledWith(payload.sub);
       expect(result).toEqual(mockUser);
     });
 
+    it('should throw UnauthorizedException if token was revoked', async () => {
+      tokenDenylistService.isRevoked.mockResolvedValue(true);
+
+      await expect(strategy.validate(payload)).rejects.toThrow('Token revoked');
+      expect(usersService.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedException if token has no jti', async () => {
+      await expect(
+        strategy.validate({ sub: 'test-id', email: 'test@example.com' })
+      ).rejects.toThrow(UnauthorizedException);
+      expect(tokenDenylistService.isRevoked).not.toHaveBeenCalled();
+    });
+
     it('should throw UnauthorizedException if user not found', async () => {
       usersService.findOne.mockRejectedValue(
         new NotFoundException(`User with ID ${payload.sub} not found`)
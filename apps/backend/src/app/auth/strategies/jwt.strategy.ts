@@ -5,6 +5,7 @@ import { Injectable, UnauthorizedException, Logger } from '@nestjs/common';
 
 import { UserEntity } from '@backend/users/user.entity';
 import { UsersService } from '@backend/users/users.service';
+import { TokenDenylistService } from '@backend/auth/token-denylist.service';
 import { JwtPayloadInterface } from '@backend/auth/interfaces/jwt-payload.interface';
 
 @Injectable()
@@ -13,6 +14,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
 
   constructor(
     private usersService: UsersService,
+    private tokenDenylistService: TokenDenylistService,
     configService: ConfigService
   ) {
     const secret = configService.get<string>('JWT_SECRET', 'your-secret-key');
@@ -32,12 +34,21 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
    * 
    * @param {JwtPayloadInterface} payload - The decoded JWT payload containing user info
    * @returns {Promise<UserEntity>} The user entity if validation succeeds
-   * @throws {UnauthorizedException} When user is not found or account is deactivated
+   * @throws {UnauthorizedException} When token was revoked, user is not found or account is deactivated
    */
   async validate(payload: JwtPayloadInterface): Promise<UserEntity> {
     this.logger.log(`Validating JWT payload: ${JSON.stringify(payload)}`);
 
     try {
+      // Tokens without a jti could not be revoked on logout
+      if (
+        !payload.jti ||
+        (await this.tokenDenylistService.isRevoked(payload.jti, payload.sid))
+      ) {
+        this.logger.error(`Revoked token used by user: ${payload.sub}`);
+        throw new UnauthorizedException('Token revoked');
+      }
+
       const user = await this.usersService.findOne(payload.sub);
 
       if (!user) {
@@ -1,32 +1,53 @@
+import type { Request } from 'express';
 import { Test, TestingModule } from '@nestjs/testing';
-import { UnauthorizedException } from '@nestjs/common';
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
 
 import { AuthService } from '@backend/auth/auth.service';
 import { UserEntity } from '@backend/users/user.entity';
 import { LocalStrategy } from '@backend/auth/strategies/local.strategy';
+import { LoginThrottleService } from '@backend/auth/login-throttle.service';
+import { TooManyRequestsException } from '@backend/app/rate-limit/exceptions/too-many-requests.exception';
 
 describe('LocalStrategy', () => {
   let strategy: LocalStrategy;
   let authService: jest.Mocked<AuthService>;
+  let loginThrottleService: jest.Mocked<LoginThrottleService>;
 
   const mockUser: UserEntity = {
     id: 'test-id',
     email: 'test@example.com',
     firstName: 'John',
     lastName: 'Doe',
+    displayName: null,
+    avatarUrl: null,
+    bio: null,
+    timezone: null,
+    locale: null,
     password: 'hashedPassword',
     isActive: true,
     isAdmin: false,
+    emailVerifiedAt: new Date(),
+    mfaSecret: null,
+    mfaEnabledAt: null,
+    mfaRecoveryCodes: [],
+    oidcSubject: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     validatePassword: jest.fn(),
     fullName: 'John Doe',
+    publicName: 'John Doe',
   };
 
   const mockAuthService = {
     validateUser: jest.fn(),
   };
 
+  const mockLoginThrottleService = {
+    assertNotLocked: jest.fn(),
+    recordFailure: jest.fn(),
+    recordSuccess: jest.fn(),
+  };
+
   beforeEach(async () => {
     jest.clearAllMocks();
 
@@ -37,11 +58,16 @@ describe('LocalStrategy', () => {
           provide: AuthService,
           useValue: mockAuthService,
         },
+        {
+          provide: LoginThrottleService,
+          useValue: mockLoginThrottleService,
+        },
       ],
     }).compile();
 
     strategy = module.get<LocalStrategy>(LocalStrategy);
     authService = module.get(AuthService);
+    loginThrottleService = module.get(LoginThrottleService);
   });
 
   it('should be defined', () => {
@@ -51,25 +77,69 @@ describe('LocalStrategy', () => {
   describe('validate', () => {
     const email = 'test@example.com';
     const password = 'password123';
+    const req = { ip: '203.0.113.7' } as Request;
 
     it('should validate and return user for valid credentials', async () => {
       authService.validateUser.mockResolvedValue(mockUser);
 
-      const result = await strategy.validate(email, password);
+      const result = await strategy.validate(req, email, password);
 
       expect(authService.validateUser).toHaveBeenCalledWith(email, password);
+      expect(loginThrottleService.recordSuccess).toHaveBeenCalledWith(email);
       expect(result).toEqual(mockUser);
     });
 
+    it('should count the failure of invalid credentials', async () => {
+      authService.validateUser.mockResolvedValue(null);
+
+      await expect(strategy.validate(req, email, password)).rejects.toThrow(
+        UnauthorizedException
+      );
+      expect(loginThrottleService.recordFailure).toHaveBeenCalledWith(
+        email,
+        '203.0.113.7'
+      );
+      expect(loginThrottleService.recordSuccess).not.toHaveBeenCalled();
+    });
+
+    it('should not check the password of a locked account', async () => {
+      loginThrottleService.assertNotLocked.mockRejectedValueOnce(
+        new TooManyRequestsException('Account temporarily locked', 60)
+      );
+
+      await expect(strategy.validate(req, email, password)).rejects.toThrow(
+        TooManyRequestsException
+      );
+      expect(loginThrottleService.assertNotLocked).toHaveBeenCalledWith(
+        email,
+        '203.0.113.7'
+      );
+      expect(authService.validateUser).not.toHaveBeenCalled();
+    });
+
     it('should throw UnauthorizedException for invalid credentials', async () => {
       authService.validateUser.mockResolvedValue(null);
 
-      await expect(strategy.validate(email, password)).rejects.toThrow(
+      await expect(strategy.validate(req, email, password)).rejects.toThrow(
         UnauthorizedException
       );
-      await expect(strategy.validate(email, password)).rejects.toThrow(
+      await expect(strategy.validate(req, email, password)).rejects.toThrow(
         'Invalid email or password'
       );
     });
+
+    it('should throw ForbiddenException if the email is not verified', async () => {
+      authService.validateUser.mockResolvedValue({
+        ...mockUser,
+        emailVerifiedAt: null,
+      } as UserEntity);
+
+      await expect(strategy.validate(req, email, password)).rejects.toThrow(
+        ForbiddenException
+      );
+      await expect(strategy.validate(req, email, password)).rejects.toThrow(
+        'Email not verified'
+      );
+    });
   });
 });
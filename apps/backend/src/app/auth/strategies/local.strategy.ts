@@ -1,34 +1,61 @@
+import type { Request } from 'express';
 import { Strategy } from 'passport-local';
 import { PassportStrategy } from '@nestjs/passport';
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  Injectable,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
 
 import { UserEntity } from '@backend/users/user.entity';
 import { AuthService } from '@backend/auth/auth.service';
+import { LoginThrottleService } from '@backend/auth/login-throttle.service';
 
 @Injectable()
 export class LocalStrategy extends PassportStrategy(Strategy) {
-  constructor(private authService: AuthService) {
+  constructor(
+    private authService: AuthService,
+    private loginThrottleService: LoginThrottleService
+  ) {
     super({
       usernameField: 'email',
       passwordField: 'password',
+      passReqToCallback: true,
     });
   }
 
   /**
    * Validates user credentials using email and password
    * This method is called by Passport Local strategy during login
+   * Failed attempts are counted per account and IP, locking them out
    * 
+   * @param {Request} req - The login request
    * @param {string} email - The user's email address
    * @param {string} password - The user's plain text password
    * @returns {Promise<UserEntity>} The authenticated user entity
    * @throws {UnauthorizedException} When credentials are invalid
+   * @throws {ForbiddenException} When the email address is not verified yet
+   * @throws {TooManyRequestsException} When the account or the IP is locked out
    */
-  async validate(email: string, password: string): Promise<UserEntity> {
+  async validate(
+    req: Request,
+    email: string,
+    password: string
+  ): Promise<UserEntity> {
+    await this.loginThrottleService.assertNotLocked(email, req.ip);
+
     const user = await this.authService.validateUser(email, password);
     if (!user) {
+      await this.loginThrottleService.recordFailure(email, req.ip);
       throw new UnauthorizedException('Invalid email or password');
     }
 
+    await this.loginThrottleService.recordSuccess(email);
+
+    if (!user.emailVerifiedAt) {
+      throw new ForbiddenException('Email not verified');
+    }
+
     return user;
   }
 }
@@ -0,0 +1,128 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+
+import { UserEntity } from '@backend/users/user.entity';
+import { OidcService } from '@backend/auth/oidc.service';
+import { OidcClaims } from '@backend/auth/oidc/oidc-client';
+import { OidcStrategy } from '@backend/auth/strategies/oidc.strategy';
+
+describe('OidcStrategy', () => {
+  let strategy: OidcStrategy;
+  let oidcService: jest.Mocked<OidcService>;
+
+  const mockUser: UserEntity = {
+    id: 'test-id',
+    email: 'jane@example.com',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    displayName: null,
+    avatarUrl: null,
+    bio: null,
+    timezone: null,
+    locale: null,
+    password: 'hashedPassword',
+    isActive: true,
+    isAdmin: false,
+    emailVerifiedAt: new Date(),
+    mfaSecret: null,
+    mfaEnabledAt: null,
+    mfaRecoveryCodes: [],
+    oidcSubject: 'provider-user-1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    validatePassword: jest.fn(),
+    fullName: 'Jane Doe',
+    publicName: 'Jane Doe',
+  };
+
+  const claims: OidcClaims = {
+    iss: 'https://idp.example.com',
+    sub: 'provider-user-1',
+    aud: 'chat',
+    exp: Math.floor(Date.now() / 1000) + 300,
+  };
+
+  const mockOidcService = {
+    handleCallback: jest.fn(),
+    findOrCreateUser: jest.fn(),
+  };
+
+  /**
+   * Runs the strategy on a request as passport does, resolving with the
+   * outcome it reports
+   */
+  const authenticate = (body: Record<string, unknown>) =>
+    new Promise<{ user?: unknown; error?: unknown; status?: number }>(
+      (resolve) => {
+        const instance = Object.create(strategy);
+        instance.success = (user: unknown) => resolve({ user });
+        instance.error = (error: unknown) => resolve({ error });
+        instance.fail = (status: number) => resolve({ status });
+        instance.authenticate({ body });
+      }
+    );
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OidcStrategy,
+        {
+          provide: OidcService,
+          useValue: mockOidcService,
+        },
+      ],
+    }).compile();
+
+    strategy = module.get<OidcStrategy>(OidcStrategy);
+    oidcService = module.get(OidcService);
+  });
+
+  it('should be defined', () => {
+    expect(strategy).toBeDefined();
+  });
+
+  describe('validate', () => {
+    it('should return the user of the claims', async () => {
+      oidcService.findOrCreateUser.mockResolvedValue(mockUser);
+
+      await expect(strategy.validate(claims)).resolves.toBe(mockUser);
+      expect(oidcService.findOrCreateUser).toHaveBeenCalledWith(claims);
+    });
+  });
+
+  describe('authenticate', () => {
+    const body = { code: 'code', state: 'state', flowToken: 'flow-token' };
+
+    it('should authenticate the user of a valid callback', async () => {
+      oidcService.handleCallback.mockResolvedValue(claims);
+      oidcService.findOrCreateUser.mockResolvedValue(mockUser);
+
+      await expect(authenticate(body)).resolves.toEqual({ user: mockUser });
+      expect(oidcService.handleCallback).toHaveBeenCalledWith(body);
+    });
+
+    it('should report the error of a rejected callback', async () => {
+      const error = new UnauthorizedException('Single sign-on failed');
+      oidcService.handleCallback.mockRejectedValue(error);
+
+      await expect(authenticate(body)).resolves.toEqual({ error });
+    });
+
+    it('should report the error of a user that cannot sign on', async () => {
+      const error = new UnauthorizedException('Account deactivated');
+      oidcService.handleCallback.mockResolvedValue(claims);
+      oidcService.findOrCreateUser.mockRejectedValue(error);
+
+      await expect(authenticate(body)).resolves.toEqual({ error });
+    });
+
+    it('should reject a callback without code', async () => {
+      const { error } = await authenticate({ state: 'state' });
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect(oidcService.handleCallback).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+
+import { UserEntity } from '@backend/users/user.entity';
+import { OidcService } from '@backend/auth/oidc.service';
+import { OidcClaims } from '@backend/auth/oidc/oidc-client';
+import { OidcPassportStrategy } from '@backend/auth/oidc/oidc-passport.strategy';
+
+@Injectable()
+export class OidcStrategy extends PassportStrategy(
+  OidcPassportStrategy,
+  'oidc'
+) {
+  constructor(private oidcService: OidcService) {
+    super({
+      callback: (params) => oidcService.handleCallback(params),
+    });
+  }
+
+  /**
+   * Returns the user of a validated single sign-on
+   * This method is called by the OIDC strategy once the ID token is validated
+   * 
+   * @param {OidcClaims} claims - The claims of the ID token
+   * @returns {Promise<UserEntity>} The authenticated user entity
+   * @throws {UnauthorizedException} When the account cannot be linked or is deactivated
+   */
+  async validate(claims: OidcClaims): Promise<UserEntity> {
+    return this.oidcService.findOrCreateUser(claims);
+  }
+}
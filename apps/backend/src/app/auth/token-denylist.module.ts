@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { RevokedTokenEntity } from '@backend/auth/revoked-token.entity';
+import { TokenDenylistService } from '@backend/auth/token-denylist.service';
+import { RevokedTokensRepository } from '@backend/auth/revoked-tokens.repository';
+
+/**
+ * Provides the access token denylist on its own, so the WebSocket
+ * authentication of MessagesModule can check it without importing AuthModule
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([RevokedTokenEntity])],
+  providers: [TokenDenylistService, RevokedTokensRepository],
+  exports: [TokenDenylistService],
+})
+export class TokenDenylistModule {}
@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { TokenDenylistService } from '@backend/auth/token-denylist.service';
+import { RevokedTokensRepository } from '@backend/auth/revoked-tokens.repository';
+
+describe('TokenDenylistService', () => {
+  let service: TokenDenylistService;
+  let revokedTokensRepository: jest.Mocked<RevokedTokensRepository>;
+
+  const mockRevokedTokensRepository = {
+    create: jest.fn(),
+    exists: jest.fn(),
+    deleteExpired: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TokenDenylistService,
+        {
+          provide: RevokedTokensRepository,
+          useValue: mockRevokedTokensRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TokenDenylistService>(TokenDenylistService);
+    revokedTokensRepository = module.get(RevokedTokensRepository);
+  });
+
+  describe('revoke', () => {
+    it('should add the token to the denylist after purging expired entries', async () => {
+      const expiresAt = new Date();
+
+      await service.revoke('token-jti', 'user-id', expiresAt);
+
+      expect(revokedTokensRepository.deleteExpired).toHaveBeenCalled();
+      expect(revokedTokensRepository.create).toHaveBeenCalledWith({
+        jti: 'token-jti',
+        userId: 'user-id',
+        expiresAt,
+      });
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should add the session to the denylist after purging expired entries', async () => {
+      const expiresAt = new Date();
+
+      await service.revokeSession('session-id', 'user-id', expiresAt);
+
+      expect(revokedTokensRepository.deleteExpired).toHaveBeenCalled();
+      expect(revokedTokensRepository.create).toHaveBeenCalledWith({
+        sessionId: 'session-id',
+        userId: 'user-id',
+        expiresAt,
+      });
+    });
+  });
+
+  describe('isRevoked', () => {
+    it('should tell whether the token is in the denylist', async () => {
+      revokedTokensRepository.exists.mockResolvedValue(true);
+
+      await expect(service.isRevoked('token-jti')).resolves.toBe(true);
+      expect(revokedTokensRepository.exists).toHaveBeenCalledWith(
+        'token-jti',
+        undefined
+      );
+    });
+
+    it('should check the session of the token as well', async () => {
+      revokedTokensRepository.exists.mockResolvedValue(false);
+
+      await expect(service.isRevoked('token-jti', 'session-id')).resolves.toBe(
+        false
+      );
+      expect(revokedTokensRepository.exists).toHaveBeenCalledWith(
+        'token-jti',
+        'session-id'
+      );
+    });
+  });
+});
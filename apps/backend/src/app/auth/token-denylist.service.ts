@@ -0,0 +1,63 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import { RevokedTokensRepository } from '@backend/auth/revoked-tokens.repository';
+
+/**
+ * Denylist of revoked access tokens, keyed by their `jti` claim, or by
+ * their `sid` claim to deny every token of a revoked session
+ *
+ * Shared by the HTTP authentication (JwtStrategy) and the WebSocket
+ * authentication (MessagesGateway, WsJwtGuard), so a logged out token
+ * is rejected everywhere before it expires.
+ */
+@Injectable()
+export class TokenDenylistService {
+  private readonly logger = new Logger(TokenDenylistService.name);
+
+  constructor(private revokedTokensRepository: RevokedTokensRepository) {}
+
+  /**
+   * Revokes an access token until its expiration
+   *
+   * @param {string} jti - The `jti` claim of the token
+   * @param {string} userId - The owner of the token
+   * @param {Date} expiresAt - The expiration date of the token
+   * @returns {Promise<void>}
+   */
+  async revoke(jti: string, userId: string, expiresAt: Date): Promise<void> {
+    await this.revokedTokensRepository.deleteExpired();
+    await this.revokedTokensRepository.create({ jti, userId, expiresAt });
+
+    this.logger.log(`Access token ${jti} of user ${userId} revoked`);
+  }
+
+  /**
+   * Revokes every access token of a session until the last one expires
+   *
+   * @param {string} sessionId - The `sid` claim of the tokens
+   * @param {string} userId - The owner of the session
+   * @param {Date} expiresAt - The expiration date of the last token of the session
+   * @returns {Promise<void>}
+   */
+  async revokeSession(
+    sessionId: string,
+    userId: string,
+    expiresAt: Date
+  ): Promise<void> {
+    await this.revokedTokensRepository.deleteExpired();
+    await this.revokedTokensRepository.create({ sessionId, userId, expiresAt });
+
+    this.logger.log(`Access tokens of session ${sessionId} revoked`);
+  }
+
+  /**
+   * Checks whether an access token or its session was revoked
+   *
+   * @param {string} jti - The `jti` claim of the token
+   * @param {string} [sessionId] - The `sid` claim of the token
+   * @returns {Promise<boolean>} True if the token must be rejected
+   */
+  async isRevoked(jti: string, sessionId?: string): Promise<boolean> {
+    return this.revokedTokensRepository.exists(jti, sessionId);
+  }
+}
@@ -0,0 +1,10 @@
+export const MAILER_CONSTANTS = {
+  DEFAULT_DRIVER: 'file',
+  DEFAULT_FILE_DIR: 'mails',
+  DEFAULT_SMTP_HOST: 'localhost',
+  DEFAULT_SMTP_PORT: 1025,
+  DEFAULT_FROM: 'Chat <no-reply@chat.local>',
+  SMTP_TIMEOUT: 10000,
+};
+
+export const MAILER = 'MAILER';
@@ -0,0 +1,75 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+
+import { FileMailer } from '@backend/app/mailer/drivers/file-mailer.driver';
+
+describe('FileMailer', () => {
+  let directory: string;
+  let mailer: FileMailer;
+
+  const readMail = async () => {
+    const [file] = await readdir(directory);
+    return readFile(join(directory, file), 'utf8');
+  };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mails-'));
+    mailer = new FileMailer(directory, 'Chat <no-reply@chat.local>');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write the email as an .eml file', async () => {
+    await mailer.send({
+      to: 'user@example.com',
+      subject: 'Hello',
+      text: 'Hello world',
+    });
+
+    const [file] = await readdir(directory);
+    expect(file).toMatch(/\.eml$/);
+
+    const mail = await readMail();
+    expect(mail).toContain('From: Chat <no-reply@chat.local>\r\n');
+    expect(mail).toContain('To: user@example.com\r\n');
+    expect(mail).toContain('Subject: Hello\r\n');
+    expect(mail).toMatch(/Message-ID: <[0-9a-f-]+@chat\.local>/);
+    expect(mail).toContain('Content-Type: text/plain; charset=utf-8');
+    expect(mail).toContain(Buffer.from('Hello world').toString('base64'));
+  });
+
+  it('should encode non-ASCII subjects', async () => {
+    await mailer.send({
+      to: 'user@example.com',
+      subject: 'Réinitialisation',
+      text: 'Bonjour',
+    });
+
+    expect(await readMail()).toContain(
+      `Subject: =?UTF-8?B?${Buffer.from('Réinitialisation').toString(
+        'base64'
+      )}?=`
+    );
+  });
+
+  it('should send the HTML body as an alternative', async () => {
+    await mailer.send({
+      to: 'user@example.com',
+      subject: 'Hello',
+      text: 'Hello world',
+      html: '<p>Hello world</p>',
+    });
+
+    const mail = await readMail();
+    const [, boundary] = mail.match(/boundary="([^"]+)"/) ?? [];
+    expect(boundary).toBeDefined();
+    expect(mail).toContain('Content-Type: text/html; charset=utf-8');
+    expect(mail).toContain(
+      Buffer.from('<p>Hello world</p>').toString('base64')
+    );
+    expect(mail.trimEnd().endsWith(`--${boundary}--`)).toBe(true);
+  });
+});
@@ -0,0 +1,27 @@
+import { join, resolve } from 'path';
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+
+import { Mailer } from '@backend/app/mailer/interfaces/mailer.interface';
+import { formatMail } from '@backend/app/mailer/drivers/format-mail';
+import { MailMessage } from '@backend/app/mailer/interfaces/mail-message.interface';
+
+/**
+ * Writes emails as .eml files in a directory instead of sending them,
+ * so they can be read offline with any mail client
+ */
+export class FileMailer implements Mailer {
+  private readonly directory: string;
+
+  constructor(directory: string, private readonly from: string) {
+    this.directory = resolve(directory);
+  }
+
+  async send(mail: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(
+      join(this.directory, `${Date.now()}-${randomUUID()}.eml`),
+      formatMail(mail, this.from)
+    );
+  }
+}
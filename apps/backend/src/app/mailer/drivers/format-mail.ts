@@ -0,0 +1,90 @@
+import { randomUUID } from 'crypto';
+
+import { MailMessage } from '@backend/app/mailer/interfaces/mail-message.interface';
+
+const LINE_LENGTH = 76;
+
+/**
+ * Encodes a header value as an RFC 2047 encoded word when it is not ASCII
+ *
+ * @param {string} value - The header value
+ * @returns {string} The value, safe to put in a header
+ */
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Encodes a body in base64 split in lines, so it never needs escaping
+ *
+ * @param {string} body - The body to encode
+ * @returns {string} The encoded body
+ */
+function encodeBody(body: string): string {
+  const encoded = Buffer.from(body, 'utf8').toString('base64');
+  return (
+    encoded.match(new RegExp(`.{1,${LINE_LENGTH}}`, 'g'))?.join('\r\n') ?? ''
+  );
+}
+
+/**
+ * Extracts the address of a "Name <address>" mailbox
+ *
+ * @param {string} mailbox - The mailbox, with or without a display name
+ * @returns {string} The bare address
+ */
+export function mailboxAddress(mailbox: string): string {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
+
+/**
+ * Formats an email as an RFC 5322 message with CRLF line endings, the
+ * HTML body, if any, being sent as a multipart/alternative part
+ *
+ * @param {MailMessage} mail - The email to format
+ * @param {string} from - The sender mailbox
+ * @param {Date} [date] - The date of the email
+ * @returns {string} The message, ready to be written or sent
+ */
+export function formatMail(
+  mail: MailMessage,
+  from: string,
+  date: Date = new Date()
+): string {
+  const domain = mailboxAddress(from).split('@')[1] ?? 'localhost';
+  const headers = [
+    `From: ${from}`,
+    `To: ${mail.to}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+  const part = (type: string, body: string) => [
+    `Content-Type: ${type}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(body),
+  ];
+
+  if (!mail.html) {
+    return [...headers, ...part('text/plain', mail.text)].join('\r\n');
+  }
+
+  const boundary = `alt-${randomUUID()}`;
+
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...part('text/plain', mail.text),
+    `--${boundary}`,
+    ...part('text/html', mail.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
@@ -0,0 +1,125 @@
+import { AddressInfo, createServer, Server, Socket } from 'net';
+
+import { SmtpMailer } from '@backend/app/mailer/drivers/smtp-mailer.driver';
+
+describe('SmtpMailer', () => {
+  let server: Server;
+  let port: number;
+  let commands: string[];
+  let data: string;
+  let rcptReply: string;
+
+  /**
+   * Minimal SMTP server recording the commands and the message it receives
+   */
+  const handleConnection = (socket: Socket) => {
+    let buffer = '';
+    let isReadingData = false;
+
+    socket.setEncoding('utf8');
+    socket.write('220 localhost ESMTP\r\n');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+
+      if (isReadingData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) {
+          return;
+        }
+        data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        isReadingData = false;
+        socket.write('250 Queued\r\n');
+        return;
+      }
+
+      let index: number;
+      while (!isReadingData && (index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        commands.push(line);
+
+        if (line.startsWith('EHLO')) {
+          socket.write('250-localhost\r\n250 8BITMIME\r\n');
+        } else if (line.startsWith('RCPT')) {
+          socket.write(`${rcptReply}\r\n`);
+        } else if (line === 'DATA') {
+          isReadingData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  };
+
+  beforeEach(async () => {
+    commands = [];
+    data = '';
+    rcptReply = '250 OK';
+    server = createServer(handleConnection);
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const createMailer = () =>
+    new SmtpMailer({
+      host: '127.0.0.1',
+      port,
+      from: 'Chat <no-reply@chat.local>',
+      timeout: 2000,
+    });
+
+  it('should send the email through the SMTP dialogue', async () => {
+    await createMailer().send({
+      to: 'user@example.com',
+      subject: 'Hello',
+      text: 'Hello world',
+    });
+
+    expect(commands).toEqual([
+      expect.stringMatching(/^EHLO /),
+      'MAIL FROM:<no-reply@chat.local>',
+      'RCPT TO:<user@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(data).toContain('To: user@example.com\r\n');
+    expect(data).toContain(Buffer.from('Hello world').toString('base64'));
+  });
+
+  it('should reject when the server refuses the recipient', async () => {
+    rcptReply = '550 No such user';
+
+    await expect(
+      createMailer().send({
+        to: 'unknown@example.com',
+        subject: 'Hello',
+        text: 'Hello world',
+      })
+    ).rejects.toThrow('SMTP error 550: No such user');
+    expect(commands).not.toContain('DATA');
+  });
+
+  it('should reject when the server cannot be reached', async () => {
+    await new Promise((resolve) => server.close(resolve));
+    server = createServer();
+    server.listen(0);
+
+    await expect(
+      createMailer().send({
+        to: 'user@example.com',
+        subject: 'Hello',
+        text: 'Hello world',
+      })
+    ).rejects.toThrow();
+  });
+});
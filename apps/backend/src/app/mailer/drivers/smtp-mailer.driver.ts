@@ -0,0 +1,136 @@
+import { hostname } from 'os';
+import { createConnection, Socket } from 'net';
+
+import { Mailer } from '@backend/app/mailer/interfaces/mailer.interface';
+import { MailMessage } from '@backend/app/mailer/interfaces/mail-message.interface';
+import {
+  formatMail,
+  mailboxAddress,
+} from '@backend/app/mailer/drivers/format-mail';
+
+export interface SmtpMailerOptions {
+  host: string;
+  port: number;
+  from: string;
+  /** Milliseconds of inactivity after which the connection is dropped */
+  timeout: number;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * Reads the replies of an SMTP server one at a time, multiline replies
+ * ("250-...", "250 ...") being joined
+ */
+class SmtpReplyReader {
+  private buffer = '';
+  private lines: string[] = [];
+  private readonly replies: SmtpReply[] = [];
+  private pending: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private error: Error | null = null;
+
+  constructor(socket: Socket) {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+    });
+  }
+
+  private receive(chunk: string) {
+    this.buffer += chunk;
+
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line.slice(4));
+
+      if (line.charAt(3) !== '-') {
+        this.push({
+          code: parseInt(line.slice(0, 3), 10),
+          text: this.lines.join('\n'),
+        });
+        this.lines = [];
+      }
+    }
+  }
+
+  private push(reply: SmtpReply) {
+    if (this.pending) {
+      this.pending.resolve(reply);
+      this.pending = null;
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error) {
+    this.error ??= error;
+    this.pending?.reject(this.error);
+    this.pending = null;
+  }
+}
+
+/**
+ * Sends emails to an SMTP server without authentication nor TLS, meant
+ * for a local catch-all such as MailHog or a relay on the same host
+ */
+export class SmtpMailer implements Mailer {
+  constructor(private readonly options: SmtpMailerOptions) {}
+
+  async send(mail: MailMessage): Promise<void> {
+    const socket = createConnection({
+      host: this.options.host,
+      port: this.options.port,
+    });
+    socket.setTimeout(this.options.timeout, () =>
+      socket.destroy(new Error('SMTP connection timed out'))
+    );
+    const reader = new SmtpReplyReader(socket);
+
+    const command = async (line: string | null, expected: number[]) => {
+      if (line !== null) {
+        socket.write(`${line}\r\n`);
+      }
+      const reply = await reader.read();
+      if (!expected.includes(reply.code)) {
+        throw new Error(`SMTP error ${reply.code}: ${reply.text}`);
+      }
+    };
+
+    try {
+      await command(null, [220]);
+      await command(`EHLO ${hostname()}`, [250]);
+      await command(`MAIL FROM:<${mailboxAddress(this.options.from)}>`, [250]);
+      await command(`RCPT TO:<${mailboxAddress(mail.to)}>`, [250, 251]);
+      await command('DATA', [354]);
+
+      // Lines starting with a dot are escaped by doubling it
+      const data = formatMail(mail, this.options.from).replace(/^\./gm, '..');
+      await command(`${data}\r\n.`, [250]);
+      await command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      socket.destroy();
+    }
+  }
+}
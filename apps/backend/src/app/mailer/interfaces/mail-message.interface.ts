@@ -0,0 +1,13 @@
+/**
+ * Email to send, the sender being configured on the mailer
+ */
+export interface MailMessage {
+  /** Address of the recipient */
+  to: string;
+  /** Subject line, may contain non-ASCII characters */
+  subject: string;
+  /** Plain text body */
+  text: string;
+  /** HTML body, sent as an alternative to the text body */
+  html?: string;
+}
@@ -0,0 +1,14 @@
+import { MailMessage } from '@backend/app/mailer/interfaces/mail-message.interface';
+
+/**
+ * Transport delivering emails (files on disk, SMTP...)
+ */
+export interface Mailer {
+  /**
+   * Sends an email
+   *
+   * @param {MailMessage} mail - The email to send
+   * @throws {Error} If the email could not be handed over to the transport
+   */
+  send(mail: MailMessage): Promise<void>;
+}
@@ -0,0 +1,57 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import {
+  MAILER,
+  MAILER_CONSTANTS,
+} from '@backend/app/mailer/constants/mailer.constants';
+import { Mailer } from '@backend/app/mailer/interfaces/mailer.interface';
+import { FileMailer } from '@backend/app/mailer/drivers/file-mailer.driver';
+import { SmtpMailer } from '@backend/app/mailer/drivers/smtp-mailer.driver';
+
+/**
+ * Provides the Mailer selected by MAIL_DRIVER ('file' or 'smtp')
+ */
+@Module({
+  providers: [
+    {
+      provide: MAILER,
+      useFactory: (configService: ConfigService): Mailer => {
+        const driver = configService.get(
+          'MAIL_DRIVER',
+          MAILER_CONSTANTS.DEFAULT_DRIVER
+        );
+        const from = configService.get(
+          'MAIL_FROM',
+          MAILER_CONSTANTS.DEFAULT_FROM
+        );
+
+        if (driver === 'smtp') {
+          return new SmtpMailer({
+            host: configService.get(
+              'SMTP_HOST',
+              MAILER_CONSTANTS.DEFAULT_SMTP_HOST
+            ),
+            port: Number(
+              configService.get('SMTP_PORT', MAILER_CONSTANTS.DEFAULT_SMTP_PORT)
+            ),
+            from,
+            timeout: MAILER_CONSTANTS.SMTP_TIMEOUT,
+          });
+        }
+
+        if (driver !== 'file') {
+          throw new Error(`Unknown mail driver "${driver}"`);
+        }
+
+        return new FileMailer(
+          configService.get('MAIL_FILE_DIR', MAILER_CONSTANTS.DEFAULT_FILE_DIR),
+          from
+        );
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [MAILER],
+})
+export class MailerModule {}
@@ -0,0 +1,74 @@
+import { BadRequestException, PayloadTooLargeException } from '@nestjs/common';
+
+import {
+  MAX_ATTACHMENT_SIZE,
+  sanitizeFileName,
+  validateAttachment,
+} from '@backend/messages/attachments/message-attachment';
+import { MessageType } from '@backend/messages/schemas/message.schema';
+
+describe('MessageAttachment', () => {
+  const pngHeader = Buffer.from([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+  ]);
+
+  const createFile = (mimetype: string, buffer: Buffer) => ({
+    originalname: 'file',
+    mimetype,
+    size: buffer.length,
+    buffer,
+  });
+
+  describe('validateAttachment', () => {
+    it('should accept images whose content matches their type', () => {
+      expect(validateAttachment(createFile('image/png', pngHeader))).toBe(
+        MessageType.IMAGE
+      );
+    });
+
+    it('should accept allowed documents as files', () => {
+      expect(
+        validateAttachment(createFile('application/pdf', Buffer.from('%PDF')))
+      ).toBe(MessageType.FILE);
+    });
+
+    it('should reject images whose content does not match their type', () => {
+      expect(() =>
+        validateAttachment(createFile('image/jpeg', pngHeader))
+      ).toThrow(
+        new BadRequestException('File content does not match its type')
+      );
+    });
+
+    it('should reject unsupported types', () => {
+      expect(() =>
+        validateAttachment(createFile('image/svg+xml', Buffer.from('<svg/>')))
+      ).toThrow(new BadRequestException('Unsupported file type'));
+    });
+
+    it('should reject empty and oversized files', () => {
+      expect(() =>
+        validateAttachment(createFile('text/plain', Buffer.alloc(0)))
+      ).toThrow(BadRequestException);
+      expect(() =>
+        validateAttachment({
+          ...createFile('text/plain', Buffer.from('a')),
+          size: MAX_ATTACHMENT_SIZE + 1,
+        })
+      ).toThrow(PayloadTooLargeException);
+    });
+  });
+
+  describe('sanitizeFileName', () => {
+    it('should decode UTF-8 names received as latin1', () => {
+      const received = Buffer.from('résumé.pdf', 'utf8').toString('latin1');
+
+      expect(sanitizeFileName(received)).toBe('résumé.pdf');
+    });
+
+    it('should drop directories and control characters', () => {
+      expect(sanitizeFileName('..\\..\\secret\u0000.txt')).toBe('secret.txt');
+      expect(sanitizeFileName('   ')).toBe('file');
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { basename } from 'path';
+import { BadRequestException, PayloadTooLargeException } from '@nestjs/common';
+
+import { MessageType } from '@backend/messages/schemas/message.schema';
+import { UploadedFileInterface } from '@backend/app/storage/interfaces/uploaded-file.interface';
+import {
+  IMAGE_MIME_TYPES,
+  detectImageType,
+} from '@backend/app/storage/image-types';
+
+/**
+ * Maximum size of an attachment in bytes (10 MB)
+ */
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+/**
+ * MIME types accepted as attachments, besides images
+ */
+const FILE_MIME_TYPES = [
+  'application/pdf',
+  'application/zip',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+];
+
+/**
+ * Checks the size and type of an uploaded file
+ *
+ * @param {UploadedFileInterface} file - The uploaded file
+ * @returns {MessageType} IMAGE for images, FILE otherwise
+ * @throws {BadRequestException} When the file is empty, of an unsupported type or its content does not match its type
+ * @throws {PayloadTooLargeException} When the file exceeds MAX_ATTACHMENT_SIZE
+ */
+export function validateAttachment(file: UploadedFileInterface): MessageType {
+  if (file.size === 0) {
+    throw new BadRequestException('File is empty');
+  }
+
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new PayloadTooLargeException('File is too large');
+  }
+
+  if (IMAGE_MIME_TYPES.includes(file.mimetype)) {
+    if (detectImageType(file.buffer) !== file.mimetype) {
+      throw new BadRequestException('File content does not match its type');
+    }
+    return MessageType.IMAGE;
+  }
+
+  if (!FILE_MIME_TYPES.includes(file.mimetype)) {
+    throw new BadRequestException('Unsupported file type');
+  }
+
+  return MessageType.FILE;
+}
+
+/**
+ * Cleans the client file name before storing it.
+ * Multer decodes names as latin1, so UTF-8 names are decoded again.
+ *
+ * @param {string} originalName - The name sent by the client
+ * @returns {string} The base name, without control characters, at most 255 characters
+ */
+export function sanitizeFileName(originalName: string): string {
+  const decoded = Buffer.from(originalName, 'latin1').toString('utf8');
+  const name = basename(decoded.replace(/\\/g, '/'))
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u001f\u007f]/g, '')
+    .trim();
+
+  return name.slice(0, 255) || 'file';
+}
@@ -4,6 +4,57 @@ import { MessageType } from '@backend/messages/schemas/message.schema';
 import { UserStatus } from '@backend/messages/schemas/online-user.schema';
 import { RoomType, MemberRole } from '@backend/messages/schemas/room.schema';
 
+/**
+ * DTO for message reaction data.
+ * Groups the users who reacted to a message
+ * with the same emoji.
+ */
+export class MessageReactionDto {
+  @ApiProperty({
+    example: '👍',
+    description: 'Reaction emoji',
+  })
+  emoji!: string;
+
+  @ApiProperty({
+    type: [String],
+    example: ['507f1f77bcf86cd799439012'],
+    description: 'IDs of the users who reacted with this emoji',
+  })
+  userIds!: string[];
+}
+
+/**
+ * DTO for message attachment metadata.
+ * The content is downloaded from
+ * GET /messages/:id/attachments/:attachmentId.
+ */
+export class MessageAttachmentDto {
+  @ApiProperty({
+    example: '3f6c1a52-8a1e-4c8b-9a53-2a8f7b1e4c21',
+    description: 'Attachment identifier',
+  })
+  id!: string;
+
+  @ApiProperty({
+    example: 'slides.pdf',
+    description: 'Original file name',
+  })
+  fileName!: string;
+
+  @ApiProperty({
+    example: 'application/pdf',
+    description: 'MIME type of the file',
+  })
+  mimeType!: string;
+
+  @ApiProperty({
+    example: 482133,
+    description: 'Size of the file in bytes',
+  })
+  size!: number;
+}
+
 /**
  * DTO for message response data.
  * Used when returning message information from the API,
@@ -30,16 +81,28 @@ export class MessageResponseDto {
 
   @ApiProperty({
     example: 'John Doe',
-    description: 'Sender full name',
+    description: 'Sender display name, or full name when not set',
   })
   senderUsername!: string;
 
+  @ApiPropertyOptional({
+    example: '/users/507f1f77bcf86cd799439012/avatar?v=lr5x3k00',
+    description: 'URL of the sender avatar, relative to the API (if any)',
+  })
+  senderAvatar?: string;
+
   @ApiProperty({
     example: '507f1f77bcf86cd799439013',
     description: 'Room/conversation ID',
   })
   roomId!: string;
 
+  @ApiPropertyOptional({
+    example: '9b2f6c1e-3a4d-4f7b-8c2e-5d1a7e9f0b3c',
+    description: 'ID generated by the sending client (if any)',
+  })
+  clientMessageId?: string;
+
   @ApiProperty({
     example: '2024-01-15T10:30:00.000Z',
     description: 'Message send date and time',
@@ -47,6 +110,25 @@ export class MessageResponseDto {
   })
   timestamp!: Date;
 
+  @ApiPropertyOptional({
+    example: '507f1f77bcf86cd799439014',
+    description: 'ID of the parent message (thread replies only)',
+  })
+  parentMessageId?: string;
+
+  @ApiProperty({
+    example: 3,
+    description: 'Number of replies in the thread started by this message',
+  })
+  threadReplyCount!: number;
+
+  @ApiPropertyOptional({
+    example: '2024-01-15T10:45:00.000Z',
+    description: 'Date of the latest thread reply (if applicable)',
+    format: 'date-time',
+  })
+  threadLastReplyAt?: Date;
+
   @ApiProperty({
     enum: MessageType,
     example: MessageType.TEXT,
@@ -54,6 +136,18 @@ export class MessageResponseDto {
   })
   messageType!: MessageType;
 
+  @ApiProperty({
+    type: [MessageReactionDto],
+    description: 'Emoji reactions on the message',
+  })
+  reactions!: MessageReactionDto[];
+
+  @ApiProperty({
+    type: [MessageAttachmentDto],
+    description: 'Files attached to the message (IMAGE and FILE messages)',
+  })
+  attachments!: MessageAttachmentDto[];
+
   @ApiProperty({
     example: false,
     description: 'Indicates if the message has been edited',
@@ -113,6 +207,45 @@ export class RoomMemberDto {
     format: 'date-time',
   })
   leftAt?: Date;
+
+  @ApiPropertyOptional({
+    example: '507f1f77bcf86cd799439014',
+    description: 'ID of the latest message read by the member',
+  })
+  lastReadMessageId?: string;
+
+  @ApiPropertyOptional({
+    example: '2024-01-15T10:30:00.000Z',
+    description: 'Timestamp of the latest message read by the member',
+    format: 'date-time',
+  })
+  lastReadAt?: Date;
+}
+
+/**
+ * DTO for pinned message data.
+ * Points at a message pinned to a room
+ * and records who pinned it and when.
+ */
+export class PinnedMessageDto {
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439014',
+    description: 'ID of the pinned message',
+  })
+  messageId!: string;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439012',
+    description: 'ID of the member who pinned the message',
+  })
+  pinnedBy!: string;
+
+  @ApiProperty({
+    example: '2024-01-15T10:30:00.000Z',
+    description: 'Pin date',
+    format: 'date-time',
+  })
+  pinnedAt!: Date;
 }
 
 /**
@@ -158,6 +291,12 @@ export class RoomResponseDto {
   })
   members!: RoomMemberDto[];
 
+  @ApiProperty({
+    type: [PinnedMessageDto],
+    description: 'Pinned messages, most recently pinned last',
+  })
+  pinnedMessages!: PinnedMessageDto[];
+
   @ApiProperty({
     example: true,
     description: 'Indicates if the room is active',
@@ -171,6 +310,13 @@ export class RoomResponseDto {
   })
   lastActivity!: Date;
 
+  @ApiPropertyOptional({
+    example: 3,
+    description:
+      'Number of messages from other members not read yet (room list only)',
+  })
+  unreadCount?: number;
+
   @ApiProperty({
     example: '2024-01-15T10:00:00.000Z',
     description: 'Room creation date',
@@ -189,7 +335,7 @@ export class RoomResponseDto {
 /**
  * DTO for online user status information.
  * Tracks user presence in the chat system,
- * including their connection status and last activity.
+ * as shown to the other users.
  */
 export class OnlineUserResponseDto {
   @ApiProperty({
@@ -198,56 +344,241 @@ export class OnlineUserResponseDto {
   })
   userId!: string;
 
-  @ApiProperty({
-    example: 'socket_abc123',
-    description: 'WebSocket connection ID',
-  })
-  socketId!: string;
-
   @ApiProperty({
     enum: UserStatus,
     example: UserStatus.ONLINE,
-    description: 'User status',
+    description: 'User status, away for idle users who chose online',
   })
   status!: UserStatus;
 
-  @ApiProperty({
-    example: '2024-01-15T10:30:00.000Z',
-    description: 'User last activity',
-    format: 'date-time',
+  @ApiPropertyOptional({
+    example: 'In a meeting',
+    description: 'Status text chosen by the user',
   })
-  lastSeen!: Date;
+  customStatus?: string;
+
+  @ApiPropertyOptional({
+    example: '📅',
+    description: 'Emoji shown next to the status text',
+  })
+  statusEmoji?: string;
 }
 
 /**
  * DTO for paginated message list response.
- * Used when returning multiple messages with pagination metadata,
+ * Used when returning a page of messages with its cursor,
  * typically for message history retrieval.
  */
-export class MessagesListResponseDto {
+export class MessagePageResponseDto {
   @ApiProperty({
     type: [MessageResponseDto],
-    description: 'List of messages',
+    description: 'Page of messages, oldest first',
   })
-  messages!: MessageResponseDto[];
+  items!: MessageResponseDto[];
 
   @ApiProperty({
-    example: 25,
-    description: 'Total number of messages in the response',
+    example: 'WzE3MDUzMTQyMDAwMDAsIjUwN2YxZjc3YmNmODZjZDc5OTQzOTAxNCJd',
+    description:
+      'Cursor to pass as before (or after) to fetch the next page, null when there is none',
+    type: String,
+    nullable: true,
   })
-  count!: number;
+  nextCursor!: string | null;
 
   @ApiProperty({
-    example: 0,
-    description: 'Offset applied for pagination',
+    example: true,
+    description: 'Whether more messages are available beyond this page',
+  })
+  hasMore!: boolean;
+}
+
+/**
+ * DTO for a highlighted range of a search snippet.
+ */
+export class TextHighlightDto {
+  @ApiProperty({
+    example: 12,
+    description: 'Index of the first highlighted character in the snippet',
   })
   offset!: number;
 
   @ApiProperty({
-    example: 50,
-    description: 'Limit applied for pagination',
+    example: 7,
+    description: 'Number of highlighted characters',
+  })
+  length!: number;
+}
+
+/**
+ * DTO for a message search result.
+ * Pairs the matching message with a highlighted snippet of its
+ * content and the cursor needed to open its room history around it.
+ */
+export class MessageSearchResultDto {
+  @ApiProperty({
+    type: MessageResponseDto,
+    description: 'Matching message',
+  })
+  message!: MessageResponseDto;
+
+  @ApiPropertyOptional({
+    type: MessageResponseDto,
+    description: 'Message starting the thread when the match is a reply',
+  })
+  parent?: MessageResponseDto;
+
+  @ApiProperty({
+    example: '…we ship the release next monday if QA signs off…',
+    description: 'Excerpt of the content around the first match',
+  })
+  snippet!: string;
+
+  @ApiProperty({
+    type: [TextHighlightDto],
+    description: 'Ranges of the snippet matching the search terms',
+  })
+  highlights!: TextHighlightDto[];
+
+  @ApiProperty({
+    example: 'WzE3MDUzMTQyMDAwMDAsIjUwN2YxZjc3YmNmODZjZDc5OTQzOTAxNCJd',
+    description:
+      'Cursor of the room message to jump to (the thread parent for replies)',
+  })
+  cursor!: string;
+}
+
+/**
+ * DTO for message search response.
+ * Results are sorted by relevance, then newest first.
+ */
+export class MessageSearchResponseDto {
+  @ApiProperty({
+    type: [MessageSearchResultDto],
+    description: 'Matching messages',
+  })
+  items!: MessageSearchResultDto[];
+
+  @ApiProperty({
+    example: false,
+    description: 'Whether more results are available beyond the limit',
+  })
+  hasMore!: boolean;
+}
+
+/**
+ * DTO for a pinned message with its content.
+ * Lists the pins of a room for the pins dropdown.
+ */
+export class RoomPinResponseDto extends PinnedMessageDto {
+  @ApiProperty({
+    type: MessageResponseDto,
+    description: 'Pinned message',
+  })
+  message!: MessageResponseDto;
+
+  @ApiProperty({
+    example: 'WzE3MDUzMTQyMDAwMDAsIjUwN2YxZjc3YmNmODZjZDc5OTQzOTAxNCJd',
+    description: 'Cursor of the message, to load the room around it',
+  })
+  cursor!: string;
+}
+
+/**
+ * DTO for thread response.
+ * Returns the message starting a thread together with
+ * a page of its replies in chronological order.
+ */
+export class MessageThreadResponseDto {
+  @ApiProperty({
+    type: MessageResponseDto,
+    description: 'Message starting the thread',
+  })
+  parent!: MessageResponseDto;
+
+  @ApiProperty({
+    type: [MessageResponseDto],
+    description: 'Page of replies, oldest first',
+  })
+  replies!: MessageResponseDto[];
+
+  @ApiProperty({
+    example: false,
+    description: 'Indicates if more replies are available after this page',
+  })
+  hasMore!: boolean;
+}
+
+/**
+ * DTO for catch-up sync response.
+ * Lists the changes a client missed while it was disconnected.
+ */
+export class MessageSyncResponseDto {
+  @ApiProperty({
+    type: [MessageResponseDto],
+    description:
+      'Messages created, edited or deleted since the previous sync, including thread replies, least recently changed first',
+  })
+  messages!: MessageResponseDto[];
+
+  @ApiProperty({
+    type: [RoomResponseDto],
+    description:
+      'Rooms joined or changed since the previous sync, with their unread count',
+  })
+  rooms!: RoomResponseDto[];
+
+  @ApiProperty({
+    type: [String],
+    example: ['507f1f77bcf86cd799439013'],
+    description: 'Rooms left, removed from or deleted since the previous sync',
+  })
+  removedRoomIds!: string[];
+
+  @ApiProperty({
+    example: false,
+    description:
+      'Whether more messages changed than the limit, the client should then reload its rooms and messages',
+  })
+  hasMore!: boolean;
+
+  @ApiProperty({
+    example: '2024-01-15T10:35:00.000Z',
+    description: 'Date to pass as since to the next sync',
+    format: 'date-time',
+  })
+  syncedAt!: Date;
+}
+
+/**
+ * DTO for read receipt response.
+ * Describes how far a member has read a room,
+ * as returned by markRead and broadcast to the room.
+ */
+export class MessagesReadResponseDto {
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439013',
+    description: 'ID of the room',
+  })
+  roomId!: string;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439012',
+    description: 'ID of the member who read the room',
+  })
+  userId!: string;
+
+  @ApiPropertyOptional({
+    example: '507f1f77bcf86cd799439014',
+    description: 'ID of the latest message read by the member',
+  })
+  lastReadMessageId?: string;
+
+  @ApiPropertyOptional({
+    example: '2024-01-15T10:30:00.000Z',
+    description: 'Timestamp of the latest message read by the member',
+    format: 'date-time',
   })
-  limit!: number;
+  lastReadAt?: Date;
 }
 
 /**
@@ -1,16 +1,25 @@
 import {
+  IsArray,
   IsString,
   IsNotEmpty,
+  ArrayNotEmpty,
+  ArrayMaxSize,
   IsOptional,
   IsEnum,
+  IsIn,
   IsNumber,
   IsDateString,
+  Min,
+  Max,
   MaxLength,
   MinLength,
 } from 'class-validator';
+import { Transform } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 import { MessageType } from '@backend/messages/schemas/message.schema';
+import { MemberRole } from '@backend/messages/schemas/room.schema';
+import { UserStatus } from '@backend/messages/schemas/online-user.schema';
 
 export * from './message-response.dto';
 
@@ -49,6 +58,27 @@ export class CreateMessageDto {
   @IsOptional()
   @IsEnum(MessageType)
   messageType?: MessageType;
+
+  @ApiPropertyOptional({
+    description: 'ID of the message to reply to, in its thread',
+    example: '507f1f77bcf86cd799439014',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  parentMessageId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Identifier generated by the client, a message resent with the same identifier is only stored once',
+    maxLength: 64,
+    example: '9b2f6c1e-3a4d-4f7b-8c2e-5d1a7e9f0b3c',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  clientMessageId?: string;
 }
 
 /**
@@ -70,6 +100,40 @@ export class UpdateMessageDto {
   content!: string;
 }
 
+/**
+ * DTO for the fields sent along an attachment upload.
+ * The file itself is read from the multipart `file` field,
+ * the optional content is used as caption.
+ */
+export class UploadAttachmentDto {
+  @ApiProperty({
+    description: 'ID of the room/conversation where the file will be sent',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsString()
+  @IsNotEmpty()
+  roomId!: string;
+
+  @ApiPropertyOptional({
+    description: 'Caption of the attachment',
+    maxLength: 2000,
+    example: 'Here are the slides of the meeting',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  content?: string;
+
+  @ApiPropertyOptional({
+    description: 'ID of the message to reply to, in its thread',
+    example: '507f1f77bcf86cd799439014',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  parentMessageId?: string;
+}
+
 /**
  * DTO for creating a direct message room.
  * Initiates a one-on-one conversation between the current user
@@ -85,6 +149,51 @@ export class CreateDirectRoomDto {
   targetUserId!: string;
 }
 
+/**
+ * DTO for creating a group room.
+ * Starts a named conversation between the current user
+ * and an initial list of members.
+ */
+export class CreateGroupRoomDto {
+  @ApiProperty({
+    description: 'Name of the group room',
+    minLength: 1,
+    maxLength: 100,
+    example: 'Project team',
+  })
+  // A name made of spaces only is empty once trimmed
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(1)
+  @MaxLength(100)
+  name!: string;
+
+  @ApiPropertyOptional({
+    description: 'Optional description of the group room',
+    maxLength: 500,
+    example: 'Daily coordination for the project team',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({
+    description: 'IDs of the users to add to the group (creator excluded)',
+    type: [String],
+    minItems: 1,
+    maxItems: 50,
+    example: ['507f1f77bcf86cd799439012', '507f1f77bcf86cd799439013'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  memberIds!: string[];
+}
+
 /**
  * DTO for adding a member to an existing room.
  * Used when inviting users to group conversations,
@@ -100,10 +209,74 @@ export class AddMemberDto {
   userId!: string;
 }
 
+/**
+ * DTO for changing the role of a room member.
+ * Used by room owners to promote members to admin
+ * or demote admins back to regular members.
+ */
+export class UpdateMemberRoleDto {
+  @ApiProperty({
+    enum: [MemberRole.ADMIN, MemberRole.MEMBER],
+    description: 'New role of the member (ownership is transferred separately)',
+    example: MemberRole.ADMIN,
+  })
+  @IsIn([MemberRole.ADMIN, MemberRole.MEMBER])
+  role!: MemberRole.ADMIN | MemberRole.MEMBER;
+}
+
+/**
+ * DTO for transferring room ownership.
+ * Hands the owner role over to another active member,
+ * the previous owner becoming an admin.
+ */
+export class TransferOwnershipDto {
+  @ApiProperty({
+    description: 'ID of the member who becomes the new owner',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @IsString()
+  @IsNotEmpty()
+  newOwnerId!: string;
+}
+
+/**
+ * DTO for reacting to a message.
+ * Carries the emoji to add to the message reactions
+ * through REST API endpoints.
+ */
+export class AddReactionDto {
+  @ApiProperty({
+    description: 'Emoji to react with',
+    maxLength: 32,
+    example: '👍',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  emoji!: string;
+}
+
+/**
+ * DTO for marking a room as read.
+ * Optionally points at the last read message,
+ * the latest room message is used otherwise.
+ */
+export class MarkReadDto {
+  @ApiPropertyOptional({
+    description: 'ID of the last read message (defaults to the latest one)',
+    example: '507f1f77bcf86cd799439014',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  messageId?: string;
+}
+
 /**
  * DTO for message retrieval query parameters.
- * Supports pagination and filtering when fetching message history
- * from a room or conversation.
+ * Supports cursor pagination when fetching message history
+ * from a room or conversation. Without a cursor the latest
+ * messages are returned.
  */
 export class GetMessagesDto {
   @ApiPropertyOptional({
@@ -115,10 +288,114 @@ export class GetMessagesDto {
   })
   @IsOptional()
   @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 50;
+
+  @ApiPropertyOptional({
+    description: 'Opaque cursor, get the messages sent before it',
+    example: 'WzE3MDUzMTQyMDAwMDAsIjUwN2YxZjc3YmNmODZjZDc5OTQzOTAxNCJd',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  before?: string;
+
+  @ApiPropertyOptional({
+    description: 'Opaque cursor, get the messages sent after it',
+    example: 'WzE3MDUzMTQyMDAwMDAsIjUwN2YxZjc3YmNmODZjZDc5OTQzOTAxNCJd',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  after?: string;
+}
+
+/**
+ * DTO for message search query parameters.
+ * Searches the content of the messages of the rooms the user
+ * is an active member of, optionally narrowed down by room,
+ * sender and date range.
+ */
+export class SearchMessagesDto {
+  @ApiProperty({
+    description:
+      'Words to search for, "quoted phrases" and -excluded words are supported',
+    minLength: 1,
+    maxLength: 200,
+    example: 'release "next monday"',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  q!: string;
+
+  @ApiPropertyOptional({
+    description: 'Only search the messages of this room',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  roomId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only search the messages sent by this user',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  senderId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only search the messages sent from this date (ISO string)',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only search the messages sent until this date (ISO string)',
+    example: '2024-01-31T23:59:59.999Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({
+    description: 'Number of results to retrieve (max 50)',
+    default: 20,
+    minimum: 1,
+    maximum: 50,
+    example: 20,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(50)
+  limit?: number = 20;
+}
+
+/**
+ * DTO for thread retrieval query parameters.
+ * Supports offset pagination over the replies of a thread.
+ */
+export class GetThreadDto {
+  @ApiPropertyOptional({
+    description: 'Number of replies to retrieve (max 100)',
+    default: 50,
+    minimum: 1,
+    maximum: 100,
+    example: 20,
+  })
+  @IsOptional()
+  @IsNumber()
   limit?: number = 50;
 
   @ApiPropertyOptional({
-    description: 'Number of messages to skip for pagination',
+    description: 'Number of replies to skip for pagination',
     default: 0,
     minimum: 0,
     example: 0,
@@ -126,14 +403,34 @@ export class GetMessagesDto {
   @IsOptional()
   @IsNumber()
   offset?: number = 0;
+}
 
-  @ApiPropertyOptional({
-    description: 'Get messages sent before this date (ISO string)',
+/**
+ * DTO for catch-up sync query parameters.
+ * Used by clients coming back online to fetch what changed
+ * since the last sync they made.
+ */
+export class SyncMessagesDto {
+  @ApiProperty({
+    description:
+      'Date of the previous sync (ISO string), as returned in its syncedAt',
     example: '2024-01-15T10:30:00.000Z',
   })
-  @IsOptional()
   @IsDateString()
-  before?: string;
+  since!: string;
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of changed messages to retrieve (max 500)',
+    default: 200,
+    minimum: 1,
+    maximum: 500,
+    example: 200,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(500)
+  limit?: number = 200;
 }
 
 /**
@@ -201,4 +498,234 @@ export class WsSendMessageDto {
   @IsOptional()
   @IsEnum(MessageType)
   messageType?: MessageType;
+
+  @ApiPropertyOptional({
+    description:
+      'Identifier generated by the client, a message resent with the same identifier is only stored once',
+    maxLength: 64,
+    example: '9b2f6c1e-3a4d-4f7b-8c2e-5d1a7e9f0b3c',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  clientMessageId?: string;
+}
+
+/**
+ * DTO for sending a thread reply via WebSocket.
+ * Variant of the sendMessage event that targets the thread
+ * started by an existing message of the room.
+ */
+export class WsSendThreadReplyDto {
+  @ApiProperty({
+    description: 'Content of the reply to send via WebSocket',
+    minLength: 1,
+    maxLength: 2000,
+    example: 'Replying in the thread!',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(1)
+  @MaxLength(2000)
+  content!: string;
+
+  @ApiProperty({
+    description: 'ID of the room containing the parent message',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsString()
+  @IsNotEmpty()
+  roomId!: string;
+
+  @ApiProperty({
+    description: 'ID of the message starting the thread',
+    example: '507f1f77bcf86cd799439014',
+  })
+  @IsString()
+  @IsNotEmpty()
+  parentMessageId!: string;
+
+  @ApiPropertyOptional({
+    enum: MessageType,
+    default: MessageType.TEXT,
+    description: 'Type of the message content',
+    example: MessageType.TEXT,
+  })
+  @IsOptional()
+  @IsEnum(MessageType)
+  messageType?: MessageType;
+}
+
+/**
+ * DTO for WebSocket typing events.
+ * Used by the typingStart and typingStop events
+ * to show who is composing a message in a room.
+ */
+export class WsTypingDto {
+  @ApiProperty({
+    description: 'ID of the room where the user is typing',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsString()
+  @IsNotEmpty()
+  roomId!: string;
+}
+
+/**
+ * DTO for WebSocket read receipt events.
+ * Used by the markRead event to move the read position
+ * of the client in a room.
+ */
+export class WsMarkReadDto {
+  @ApiProperty({
+    description: 'ID of the room to mark as read',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsString()
+  @IsNotEmpty()
+  roomId!: string;
+
+  @ApiPropertyOptional({
+    description: 'ID of the last read message (defaults to the latest one)',
+    example: '507f1f77bcf86cd799439014',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  messageId?: string;
+}
+
+/**
+ * DTO for editing a message via WebSocket.
+ * Carries the new content of a message owned by the client
+ * so the edit can be broadcast to the room in real-time.
+ */
+export class WsEditMessageDto {
+  @ApiProperty({
+    description: 'ID of the message to edit',
+    example: '507f1f77bcf86cd799439014',
+  })
+  @IsString()
+  @IsNotEmpty()
+  messageId!: string;
+
+  @ApiProperty({
+    description: 'New content of the message',
+    minLength: 1,
+    maxLength: 2000,
+    example: 'Edited from WebSocket!',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(1)
+  @MaxLength(2000)
+  content!: string;
+}
+
+/**
+ * DTO for deleting a message via WebSocket.
+ * Identifies a message owned by the client to soft delete
+ * and remove from the room in real-time.
+ */
+export class WsDeleteMessageDto {
+  @ApiProperty({
+    description: 'ID of the message to delete',
+    example: '507f1f77bcf86cd799439014',
+  })
+  @IsString()
+  @IsNotEmpty()
+  messageId!: string;
+}
+
+/**
+ * DTO for WebSocket reaction events.
+ * Used by the addReaction and removeReaction events
+ * to toggle an emoji on a message in real-time.
+ */
+export class WsReactionDto {
+  @ApiProperty({
+    description: 'ID of the message to react to',
+    example: '507f1f77bcf86cd799439014',
+  })
+  @IsString()
+  @IsNotEmpty()
+  messageId!: string;
+
+  @ApiProperty({
+    description: 'Emoji to add or remove',
+    maxLength: 32,
+    example: '👍',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  emoji!: string;
+}
+
+/**
+ * DTO for WebSocket pin events.
+ * Used by the pinMessage and unpinMessage events
+ * to change the pinned messages of a room in real-time.
+ */
+export class WsPinMessageDto {
+  @ApiProperty({
+    description: 'ID of the message to pin or unpin',
+    example: '507f1f77bcf86cd799439014',
+  })
+  @IsString()
+  @IsNotEmpty()
+  messageId!: string;
+}
+
+/**
+ * DTO for setting the presence status via WebSocket.
+ * The custom text and emoji are cleared when omitted.
+ */
+export class WsSetStatusDto {
+  @ApiProperty({
+    enum: UserStatus,
+    description: 'Presence status chosen by the user',
+    example: UserStatus.BUSY,
+  })
+  @IsEnum(UserStatus)
+  status!: UserStatus;
+
+  @ApiPropertyOptional({
+    description: 'Status text shown to the other users',
+    maxLength: 100,
+    example: 'In a meeting',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  customStatus?: string;
+
+  @ApiPropertyOptional({
+    description: 'Emoji shown next to the status text',
+    maxLength: 32,
+    example: '📅',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  statusEmoji?: string;
+}
+
+/**
+ * DTO for client activity reports via WebSocket.
+ * Clients periodically report how long the user has been inactive
+ * so that they can be shown as away.
+ */
+export class WsReportActivityDto {
+  @ApiProperty({
+    description: 'Seconds elapsed since the last user interaction',
+    minimum: 0,
+    example: 30,
+  })
+  @IsNumber()
+  @Min(0)
+  idleSeconds!: number;
 }
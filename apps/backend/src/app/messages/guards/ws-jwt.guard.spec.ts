@@ -5,16 +5,21 @@ import { ConfigService } from '@nestjs/config';
 import { WsException } from '@nestjs/websockets';
 import { Socket } from 'socket.io';
 
+import { TokenDenylistService } from '@backend/auth/token-denylist.service';
+
 import { WsJwtGuard } from './ws-jwt.guard';
 
 describe('WsJwtGuard', () => {
   let guard: WsJwtGuard;
   let jwtService: JwtService;
   let configService: ConfigService;
+  let tokenDenylistService: TokenDenylistService;
 
   const mockJwtPayload = {
     sub: 'user123',
     email: 'test@example.com',
+    jti: 'token-jti',
+    sid: 'session-id',
     iat: 1234567890,
     exp: 1234567890,
   };
@@ -61,16 +66,25 @@ describe('WsJwtGuard', () => {
             get: jest.fn(),
           },
         },
+        {
+          provide: TokenDenylistService,
+          useValue: {
+            isRevoked: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
     guard = module.get<WsJwtGuard>(WsJwtGuard);
     jwtService = module.get<JwtService>(JwtService);
     configService = module.get<ConfigService>(ConfigService);
+    tokenDenylistService =
+      module.get<TokenDenylistService>(TokenDenylistService);
 
     // Setup default mocks
     jest.spyOn(configService, 'get').mockReturnValue('test-secret');
     jest.spyOn(jwtService, 'verify').mockReturnValue(mockJwtPayload);
+    jest.spyOn(tokenDenylistService, 'isRevoked').mockResolvedValue(false);
   });
 
   afterEach(() => {
@@ -168,6 +182,35 @@ describe('WsJwtGuard', () => {
         new WsException('Invalid token')
       );
     });
+
+    it('should throw WsException if token was revoked', async () => {
+      jest.spyOn(tokenDenylistService, 'isRevoked').mockResolvedValue(true);
+
+      const socket = createMockSocket('revoked.jwt.token');
+      const context = createMockExecutionContext(socket);
+
+      await expect(guard.canActivate(context)).rejects.toThrow(
+        new WsException('Token revoked')
+      );
+      expect(tokenDenylistService.isRevoked).toHaveBeenCalledWith(
+        'token-jti',
+        'session-id'
+      );
+      expect(socket.userId).toBeUndefined();
+    });
+
+    it('should throw WsException if token has no jti', async () => {
+      jest
+        .spyOn(jwtService, 'verify')
+        .mockReturnValue({ ...mockJwtPayload, jti: undefined });
+
+      const socket = createMockSocket('legacy.jwt.token');
+      const context = createMockExecutionContext(socket);
+
+      await expect(guard.canActivate(context)).rejects.toThrow(
+        new WsException('Token revoked')
+      );
+    });
   });
 
   describe('extractTokenFromClient', () => {
@@ -233,6 +276,7 @@ describe('WsJwtGuard', () => {
       const customPayload = {
         sub: 'customUser456',
         email: 'custom@example.com',
+        jti: 'token-jti',
         iat: 1234567890,
         exp: 1234567890,
       };
@@ -250,6 +294,7 @@ describe('WsJwtGuard', () => {
     it('should handle missing email in payload', async () => {
       const payloadWithoutEmail = {
         sub: 'user789',
+        jti: 'token-jti',
         iat: 1234567890,
         exp: 1234567890,
       };
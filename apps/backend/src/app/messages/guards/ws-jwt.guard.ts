@@ -4,6 +4,9 @@ import { ConfigService } from '@nestjs/config';
 import { WsException } from '@nestjs/websockets';
 import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
 
+import { TokenDenylistService } from '@backend/auth/token-denylist.service';
+import { JwtPayloadInterface } from '@backend/auth/interfaces/jwt-payload.interface';
+
 interface AuthenticatedSocket extends Socket {
   userId?: string;
   userEmail?: string;
@@ -13,7 +16,8 @@ interface AuthenticatedSocket extends Socket {
 export class WsJwtGuard implements CanActivate {
   constructor(
     private jwtService: JwtService,
-    private configService: ConfigService
+    private configService: ConfigService,
+    private tokenDenylistService: TokenDenylistService
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -24,18 +28,26 @@ export class WsJwtGuard implements CanActivate {
       throw new WsException('No token provided');
     }
 
+    let payload: JwtPayloadInterface;
     try {
-      const payload = this.jwtService.verify(token, {
+      payload = this.jwtService.verify<JwtPayloadInterface>(token, {
         secret: this.configService.get('JWT_SECRET'),
       });
-
-      client.userId = payload.sub;
-      client.userEmail = payload.email;
-
-      return true;
     } catch {
       throw new WsException('Invalid token');
     }
+
+    if (
+      !payload.jti ||
+      (await this.tokenDenylistService.isRevoked(payload.jti, payload.sid))
+    ) {
+      throw new WsException('Token revoked');
+    }
+
+    client.userId = payload.sub;
+    client.userEmail = payload.email;
+
+    return true;
   }
 
   private extractTokenFromClient(client: AuthenticatedSocket): string | undefined {
@@ -1,16 +1,25 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { NotFoundException, ForbiddenException } from '@nestjs/common';
+import {
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ValidationPipe,
+} from '@nestjs/common';
 
 import {
   AddMemberDto,
+  GetThreadDto,
   GetMessagesDto,
   CreateMessageDto,
+  SearchMessagesDto,
+  SyncMessagesDto,
   UpdateMessageDto,
+  CreateGroupRoomDto,
   CreateDirectRoomDto,
 } from '@backend/messages/dto/message.dto';
-import { AdminGuard } from '@backend/auth/guards/admin.guard';
 import { JwtAuthGuard } from '@backend/auth/guards/jwt-auth.guard';
 import { MessagesService } from '@backend/messages/messages.service';
+import { MessagesGateway } from '@backend/messages/messages.gateway';
 import { MessageType } from '@backend/messages/schemas/message.schema';
 import { UserStatus } from '@backend/messages/schemas/online-user.schema';
 import { MessagesController } from '@backend/messages/messages.controller';
@@ -20,6 +29,7 @@ import type { RequestWithUser } from '@backend/auth/interfaces/request-with-user
 describe('MessagesController', () => {
   let controller: MessagesController;
   let service: MessagesService;
+  let gateway: MessagesGateway;
 
   const mockUser = {
     id: 'user123',
@@ -52,6 +62,9 @@ describe('MessagesController', () => {
     timestamp: new Date(),
     messageType: MessageType.TEXT,
     isEdited: false,
+    threadReplyCount: 0,
+    reactions: [],
+    attachments: [],
     isDeleted: false,
   };
 
@@ -72,6 +85,7 @@ describe('MessagesController', () => {
         joinedAt: new Date(),
       },
     ],
+    pinnedMessages: [],
     isActive: true,
     lastActivity: new Date(),
   };
@@ -79,14 +93,16 @@ describe('MessagesController', () => {
   const mockOnlineUsers = [
     {
       userId: 'user123',
-      socketId: 'socket123',
+      socketIds: ['socket123'],
       status: UserStatus.ONLINE,
+      isIdle: false,
       lastSeen: new Date(),
     },
     {
       userId: 'user456',
-      socketId: 'socket456',
+      socketIds: ['socket456'],
       status: UserStatus.AWAY,
+      isIdle: false,
       lastSeen: new Date(),
     },
   ];
@@ -99,28 +115,59 @@ describe('MessagesController', () => {
           provide: MessagesService,
           useValue: {
             createMessage: jest.fn(),
+            createAttachmentMessage: jest.fn(),
+            getAttachment: jest.fn(),
             getMessages: jest.fn(),
+            searchMessages: jest.fn(),
+            syncChanges: jest.fn(),
+            getThread: jest.fn(),
             updateMessage: jest.fn(),
             deleteMessage: jest.fn(),
+            addReaction: jest.fn(),
+            removeReaction: jest.fn(),
+            pinMessage: jest.fn(),
+            unpinMessage: jest.fn(),
             createDirectRoom: jest.fn(),
+            createGroupRoom: jest.fn(),
             getUserRooms: jest.fn(),
             getRoomById: jest.fn(),
+            getRoomPins: jest.fn(),
             addMemberToRoom: jest.fn(),
             leaveRoom: jest.fn(),
+            markRoomAsRead: jest.fn(),
+            removeMemberFromRoom: jest.fn(),
+            updateMemberRole: jest.fn(),
+            transferOwnership: jest.fn(),
             deleteRoom: jest.fn(),
             getOnlineUsers: jest.fn(),
           },
         },
+        {
+          provide: MessagesGateway,
+          useValue: {
+            broadcastNewMessage: jest.fn(),
+            broadcastMessagesRead: jest.fn(),
+            broadcastMessageUpdated: jest.fn(),
+            broadcastMessageDeleted: jest.fn(),
+            broadcastReactionUpdate: jest.fn(),
+            broadcastMessagePinned: jest.fn(),
+            broadcastMessageUnpinned: jest.fn(),
+            joinRoomMembers: jest.fn(),
+            joinUserToRoom: jest.fn(),
+            removeUserFromRoom: jest.fn(),
+            closeRoom: jest.fn(),
+            broadcastRoomUpdated: jest.fn(),
+          },
+        },
       ],
     })
       .overrideGuard(JwtAuthGuard)
       .useValue({ canActivate: () => true })
-      .overrideGuard(AdminGuard)
-      .useValue({ canActivate: () => true })
       .compile();
 
     controller = module.get<MessagesController>(MessagesController);
     service = module.get<MessagesService>(MessagesService);
+    gateway = module.get<MessagesGateway>(MessagesGateway);
   });
 
   afterEach(() => {
@@ -185,9 +232,74 @@ describe('MessagesController', () => {
       });
     });
 
+    describe('POST /messages/attachments', () => {
+      it('should create the message and broadcast it', async () => {
+        const file = {
+          originalname: 'report.pdf',
+          mimetype: 'application/pdf',
+          size: 4,
+          buffer: Buffer.from('%PDF'),
+        };
+
+        jest
+          .spyOn(service, 'createAttachmentMessage')
+          .mockResolvedValue(mockMessage);
+
+        const result = await controller.uploadAttachment(
+          mockRequest,
+          { roomId: 'room123' },
+          file
+        );
+
+        expect(service.createAttachmentMessage).toHaveBeenCalledWith(
+          'user123',
+          { roomId: 'room123' },
+          file
+        );
+        expect(gateway.broadcastNewMessage).toHaveBeenCalledWith(mockMessage);
+        expect(result).toEqual(mockMessage);
+      });
+    });
+
+    describe('GET /messages/:id/attachments/:attachmentId', () => {
+      it('should return the content with its type and file name', async () => {
+        jest.spyOn(service, 'getAttachment').mockResolvedValue({
+          attachment: {
+            id: 'attachment123',
+            storageKey: 'attachments/room123/attachment123',
+            fileName: 'rapport final.pdf',
+            mimeType: 'application/pdf',
+            size: 4,
+          },
+          content: Buffer.from('%PDF'),
+        });
+
+        const result = await controller.downloadAttachment(
+          mockRequest,
+          'message123',
+          'attachment123'
+        );
+
+        expect(service.getAttachment).toHaveBeenCalledWith(
+          'user123',
+          'message123',
+          'attachment123'
+        );
+        expect(result.getHeaders()).toEqual({
+          type: 'application/pdf',
+          length: 4,
+          disposition: "attachment; filename*=UTF-8''rapport%20final.pdf",
+        });
+      });
+    });
+
     describe('GET /messages/room/:roomId', () => {
       it('should get messages with default query', async () => {
-        const mockMessages = [mockMessage];
+        const mockMessages = {
+          items: [mockMessage],
+          nextCursor: null,
+          hasMore: false,
+        };
         const query: GetMessagesDto = {};
 
         jest
@@ -209,11 +321,14 @@ describe('MessagesController', () => {
       });
 
       it('should get messages with pagination', async () => {
-        const mockMessages = [mockMessage];
+        const mockMessages = {
+          items: [mockMessage],
+          nextCursor: 'next-cursor',
+          hasMore: true,
+        };
         const query: GetMessagesDto = {
           limit: 20,
-          offset: 10,
-          before: '2024-01-01T00:00:00.000Z',
+          before: 'cursor',
         };
 
         jest
@@ -257,6 +372,84 @@ describe('MessagesController', () => {
       });
     });
 
+    describe('GET /messages/search', () => {
+      it('should search the messages of the user', async () => {
+        const results = {
+          items: [
+            {
+              message: mockMessage,
+              snippet: 'Test message',
+              highlights: [{ offset: 5, length: 7 }],
+              cursor: 'cursor',
+            },
+          ],
+          hasMore: false,
+        };
+        const query: SearchMessagesDto = { q: 'message', roomId: 'room123' };
+
+        jest
+          .spyOn(service, 'searchMessages')
+          .mockResolvedValue(results as never);
+
+        const result = await controller.searchMessages(mockRequest, query);
+
+        expect(service.searchMessages).toHaveBeenCalledWith('user123', query);
+        expect(result).toEqual(results);
+      });
+    });
+
+    describe('GET /messages/sync', () => {
+      it('should return the changes the user missed', async () => {
+        const changes = {
+          messages: [mockMessage],
+          rooms: [],
+          removedRoomIds: ['room456'],
+          hasMore: false,
+          syncedAt: new Date(),
+        };
+        const query: SyncMessagesDto = { since: '2024-01-15T10:30:00.000Z' };
+
+        jest.spyOn(service, 'syncChanges').mockResolvedValue(changes as never);
+
+        const result = await controller.syncChanges(mockRequest, query);
+
+        expect(service.syncChanges).toHaveBeenCalledWith('user123', query);
+        expect(result).toEqual(changes);
+      });
+    });
+
+    describe('GET /messages/:id/thread', () => {
+      it('should get a message thread', async () => {
+        const thread = { parent: mockMessage, replies: [], hasMore: false };
+        const query: GetThreadDto = { limit: 20 };
+
+        jest.spyOn(service, 'getThread').mockResolvedValue(thread as never);
+
+        const result = await controller.getThread(
+          mockRequest,
+          'message123',
+          query
+        );
+
+        expect(service.getThread).toHaveBeenCalledWith(
+          'user123',
+          'message123',
+          query
+        );
+        expect(result).toEqual(thread);
+      });
+
+      it('should handle message not found error', async () => {
+        jest
+          .spyOn(service, 'getThread')
+          .mockRejectedValue(new NotFoundException('Message not found'));
+
+        await expect(
+          controller.getThread(mockRequest, 'nonexistent', {})
+        ).rejects.toThrow(NotFoundException);
+      });
+    });
+
     describe('PATCH /messages/:id', () => {
       it('should update message successfully', async () => {
         const updateMessageDto: UpdateMessageDto = {
@@ -282,6 +475,9 @@ describe('MessagesController', () => {
           'message123',
           updateMessageDto
         );
+        expect(gateway.broadcastMessageUpdated).toHaveBeenCalledWith(
+          updatedMessage
+        );
         expect(result).toEqual(updatedMessage);
       });
 
@@ -313,6 +509,7 @@ describe('MessagesController', () => {
         await expect(
           controller.updateMessage(mockRequest, 'message123', updateMessageDto)
         ).rejects.toThrow(ForbiddenException);
+        expect(gateway.broadcastMessageUpdated).not.toHaveBeenCalled();
       });
     });
 
@@ -335,6 +532,9 @@ describe('MessagesController', () => {
           'user123',
           'message123'
         );
+        expect(gateway.broadcastMessageDeleted).toHaveBeenCalledWith(
+          deletedMessage
+        );
         expect(result).toEqual(deletedMessage);
       });
 
@@ -358,6 +558,122 @@ describe('MessagesController', () => {
         await expect(
           controller.deleteMessage(mockRequest, 'message123')
         ).rejects.toThrow(ForbiddenException);
+        expect(gateway.broadcastMessageDeleted).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('POST /messages/:id/reactions', () => {
+      it('should add a reaction and broadcast the update', async () => {
+        const reactedMessage = {
+          ...mockMessage,
+          reactions: [{ emoji: '👍', userIds: ['user123'] }],
+        };
+
+        jest.spyOn(service, 'addReaction').mockResolvedValue(reactedMessage);
+
+        const result = await controller.addReaction(mockRequest, 'message123', {
+          emoji: '👍',
+        });
+
+        expect(service.addReaction).toHaveBeenCalledWith(
+          'user123',
+          'message123',
+          '👍'
+        );
+        expect(gateway.broadcastReactionUpdate).toHaveBeenCalledWith(
+          reactedMessage
+        );
+        expect(result).toEqual(reactedMessage);
+      });
+
+      it('should not broadcast when the reaction fails', async () => {
+        jest
+          .spyOn(service, 'addReaction')
+          .mockRejectedValue(
+            new ForbiddenException('You do not have access to this room')
+          );
+
+        await expect(
+          controller.addReaction(mockRequest, 'message123', { emoji: '👍' })
+        ).rejects.toThrow(ForbiddenException);
+        expect(gateway.broadcastReactionUpdate).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('DELETE /messages/:id/reactions/:emoji', () => {
+      it('should remove a reaction and broadcast the update', async () => {
+        jest.spyOn(service, 'removeReaction').mockResolvedValue(mockMessage);
+
+        const result = await controller.removeReaction(
+          mockRequest,
+          'message123',
+          '👍'
+        );
+
+        expect(service.removeReaction).toHaveBeenCalledWith(
+          'user123',
+          'message123',
+          '👍'
+        );
+        expect(gateway.broadcastReactionUpdate).toHaveBeenCalledWith(
+          mockMessage
+        );
+        expect(result).toEqual(mockMessage);
+      });
+    });
+
+    describe('POST /messages/:id/pin', () => {
+      it('should pin a message and broadcast the pin', async () => {
+        const pin = {
+          messageId: 'message123',
+          pinnedBy: 'user123',
+          pinnedAt: new Date(),
+          message: mockMessage,
+          cursor: 'cursor',
+        };
+
+        jest.spyOn(service, 'pinMessage').mockResolvedValue(pin);
+
+        const result = await controller.pinMessage(mockRequest, 'message123');
+
+        expect(service.pinMessage).toHaveBeenCalledWith(
+          'user123',
+          'message123'
+        );
+        expect(gateway.broadcastMessagePinned).toHaveBeenCalledWith(pin);
+        expect(result).toEqual(pin);
+      });
+
+      it('should not broadcast when the role does not allow pinning', async () => {
+        jest
+          .spyOn(service, 'pinMessage')
+          .mockRejectedValue(
+            new ForbiddenException(
+              'Your role in this room does not allow this action'
+            )
+          );
+
+        await expect(
+          controller.pinMessage(mockRequest, 'message123')
+        ).rejects.toThrow(ForbiddenException);
+        expect(gateway.broadcastMessagePinned).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('DELETE /messages/:id/pin', () => {
+      it('should unpin a message and broadcast the removal', async () => {
+        jest.spyOn(service, 'unpinMessage').mockResolvedValue(mockMessage);
+
+        const result = await controller.unpinMessage(mockRequest, 'message123');
+
+        expect(service.unpinMessage).toHaveBeenCalledWith(
+          'user123',
+          'message123'
+        );
+        expect(gateway.broadcastMessageUnpinned).toHaveBeenCalledWith(
+          mockMessage
+        );
+        expect(result).toEqual(mockMessage);
       });
     });
   });
@@ -380,6 +696,7 @@ describe('MessagesController', () => {
           'user123',
           createDirectRoomDto
         );
+        expect(gateway.joinRoomMembers).toHaveBeenCalledWith(mockRoom);
         expect(result).toEqual(mockRoom);
       });
 
@@ -415,6 +732,68 @@ describe('MessagesController', () => {
       });
     });
 
+    describe('POST /messages/rooms/group', () => {
+      const createGroupRoomDto: CreateGroupRoomDto = {
+        name: 'Project team',
+        description: 'Daily coordination',
+        memberIds: ['user456', 'user789'],
+      };
+
+      it('should create group room successfully', async () => {
+        const mockGroupRoom = {
+          ...mockRoom,
+          name: 'Project team',
+          type: RoomType.GROUP,
+        };
+        jest
+          .spyOn(service, 'createGroupRoom')
+          .mockResolvedValue(mockGroupRoom);
+
+        const result = await controller.createGroupRoom(
+          mockRequest,
+          createGroupRoomDto
+        );
+
+        expect(service.createGroupRoom).toHaveBeenCalledWith(
+          'user123',
+          createGroupRoomDto
+        );
+        expect(gateway.joinRoomMembers).toHaveBeenCalledWith(mockGroupRoom);
+        expect(result).toEqual(mockGroupRoom);
+      });
+
+      it('should handle member not found error', async () => {
+        jest
+          .spyOn(service, 'createGroupRoom')
+          .mockRejectedValue(new NotFoundException('User not found'));
+
+        await expect(
+          controller.createGroupRoom(mockRequest, createGroupRoomDto)
+        ).rejects.toThrow(NotFoundException);
+      });
+
+      it('should reject a name made of spaces only', async () => {
+        const validationPipe = new ValidationPipe({
+          whitelist: true,
+          forbidNonWhitelisted: true,
+          transform: true,
+        });
+
+        await expect(
+          validationPipe.transform(
+            { ...createGroupRoomDto, name: '   ' },
+            { type: 'body', metatype: CreateGroupRoomDto }
+          )
+        ).rejects.toThrow(BadRequestException);
+        await expect(
+          validationPipe.transform(
+            { ...createGroupRoomDto, name: '  Project team ' },
+            { type: 'body', metatype: CreateGroupRoomDto }
+          )
+        ).resolves.toMatchObject({ name: 'Project team' });
+      });
+    });
+
     describe('GET /messages/rooms', () => {
       it('should get user rooms successfully', async () => {
         const mockRooms = [mockRoom];
@@ -459,6 +838,27 @@ describe('MessagesController', () => {
       });
     });
 
+    describe('GET /messages/rooms/:id/pins', () => {
+      it('should get the pinned messages of the room', async () => {
+        const pins = [
+          {
+            messageId: 'message123',
+            pinnedBy: 'user123',
+            pinnedAt: new Date(),
+            message: mockMessage,
+            cursor: 'cursor',
+          },
+        ];
+
+        jest.spyOn(service, 'getRoomPins').mockResolvedValue(pins);
+
+        const result = await controller.getRoomPins(mockRequest, 'room123');
+
+        expect(service.getRoomPins).toHaveBeenCalledWith('user123', 'room123');
+        expect(result).toEqual(pins);
+      });
+    });
+
     describe('POST /messages/rooms/:id/members', () => {
       it('should add member to room successfully', async () => {
         const addMemberDto: AddMemberDto = {
@@ -489,6 +889,10 @@ describe('MessagesController', () => {
           'room123',
           'user789'
         );
+        expect(gateway.joinUserToRoom).toHaveBeenCalledWith(
+          'user789',
+          'room123'
+        );
         expect(result).toEqual(updatedRoom);
       });
 
@@ -525,6 +929,30 @@ describe('MessagesController', () => {
       });
     });
 
+    describe('POST /messages/rooms/:id/read', () => {
+      it('should mark the room as read and broadcast the receipt', async () => {
+        const receipt = {
+          roomId: 'room123',
+          userId: 'user123',
+          lastReadMessageId: 'message123',
+          lastReadAt: new Date(),
+        };
+        jest.spyOn(service, 'markRoomAsRead').mockResolvedValue(receipt);
+
+        const result = await controller.markRoomAsRead(mockRequest, 'room123', {
+          messageId: 'message123',
+        });
+
+        expect(service.markRoomAsRead).toHaveBeenCalledWith(
+          'user123',
+          'room123',
+          'message123'
+        );
+        expect(gateway.broadcastMessagesRead).toHaveBeenCalledWith(receipt);
+        expect(result).toEqual(receipt);
+      });
+    });
+
     describe('DELETE /messages/rooms/:id/leave', () => {
       it('should leave room successfully', async () => {
         jest.spyOn(service, 'leaveRoom').mockResolvedValue(undefined);
@@ -532,6 +960,10 @@ describe('MessagesController', () => {
         const result = await controller.leaveRoom(mockRequest, 'room123');
 
         expect(service.leaveRoom).toHaveBeenCalledWith('user123', 'room123');
+        expect(gateway.removeUserFromRoom).toHaveBeenCalledWith(
+          'user123',
+          'room123'
+        );
         expect(result).toEqual({ message: 'Left room successfully' });
       });
 
@@ -543,6 +975,7 @@ describe('MessagesController', () => {
         await expect(
           controller.leaveRoom(mockRequest, 'nonexistent')
         ).rejects.toThrow(NotFoundException);
+        expect(gateway.removeUserFromRoom).not.toHaveBeenCalled();
       });
 
       it('should handle bad request when not a member', async () => {
@@ -558,13 +991,109 @@ describe('MessagesController', () => {
       });
     });
 
+    describe('PATCH /messages/rooms/:id/members/:memberId/role', () => {
+      it('should update member role successfully', async () => {
+        jest.spyOn(service, 'updateMemberRole').mockResolvedValue(mockRoom);
+
+        const result = await controller.updateMemberRole(
+          mockRequest,
+          'room123',
+          'user456',
+          { role: MemberRole.ADMIN }
+        );
+
+        expect(service.updateMemberRole).toHaveBeenCalledWith(
+          'user123',
+          'room123',
+          'user456',
+          MemberRole.ADMIN
+        );
+        expect(gateway.broadcastRoomUpdated).toHaveBeenCalledWith(mockRoom);
+        expect(result).toEqual(mockRoom);
+      });
+
+      it('should handle forbidden error when not owner', async () => {
+        jest
+          .spyOn(service, 'updateMemberRole')
+          .mockRejectedValue(
+            new ForbiddenException(
+              'Your role in this room does not allow this action'
+            )
+          );
+
+        await expect(
+          controller.updateMemberRole(mockRequest, 'room123', 'user456', {
+            role: MemberRole.MEMBER,
+          })
+        ).rejects.toThrow(ForbiddenException);
+        expect(gateway.broadcastRoomUpdated).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('DELETE /messages/rooms/:id/members/:memberId', () => {
+      it('should remove member successfully', async () => {
+        jest.spyOn(service, 'removeMemberFromRoom').mockResolvedValue(mockRoom);
+
+        const result = await controller.removeMember(
+          mockRequest,
+          'room123',
+          'user456'
+        );
+
+        expect(service.removeMemberFromRoom).toHaveBeenCalledWith(
+          'user123',
+          'room123',
+          'user456'
+        );
+        expect(gateway.removeUserFromRoom).toHaveBeenCalledWith(
+          'user456',
+          'room123'
+        );
+        expect(result).toEqual(mockRoom);
+      });
+
+      it('should handle member not found error', async () => {
+        jest
+          .spyOn(service, 'removeMemberFromRoom')
+          .mockRejectedValue(
+            new NotFoundException('Member not found in this room')
+          );
+
+        await expect(
+          controller.removeMember(mockRequest, 'room123', 'unknown')
+        ).rejects.toThrow(NotFoundException);
+        expect(gateway.removeUserFromRoom).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('POST /messages/rooms/:id/transfer-ownership', () => {
+      it('should transfer ownership successfully', async () => {
+        jest.spyOn(service, 'transferOwnership').mockResolvedValue(mockRoom);
+
+        const result = await controller.transferOwnership(
+          mockRequest,
+          'room123',
+          { newOwnerId: 'user456' }
+        );
+
+        expect(service.transferOwnership).toHaveBeenCalledWith(
+          'user123',
+          'room123',
+          'user456'
+        );
+        expect(gateway.broadcastRoomUpdated).toHaveBeenCalledWith(mockRoom);
+        expect(result).toEqual(mockRoom);
+      });
+    });
+
     describe('DELETE /messages/rooms/:id', () => {
-      it('should delete room successfully (admin only)', async () => {
+      it('should delete room successfully (owner only)', async () => {
         jest.spyOn(service, 'deleteRoom').mockResolvedValue(undefined);
 
-        const result = await controller.deleteRoom('room123');
+        const result = await controller.deleteRoom(mockRequest, 'room123');
 
-        expect(service.deleteRoom).toHaveBeenCalledWith('room123');
+        expect(service.deleteRoom).toHaveBeenCalledWith('user123', 'room123');
+        expect(gateway.closeRoom).toHaveBeenCalledWith('room123');
         expect(result).toEqual({ message: 'Room deleted successfully' });
       });
 
@@ -573,9 +1102,23 @@ describe('MessagesController', () => {
           .spyOn(service, 'deleteRoom')
           .mockRejectedValue(new NotFoundException('Room not found'));
 
-        await expect(controller.deleteRoom('nonexistent')).rejects.toThrow(
-          NotFoundException
-        );
+        await expect(
+          controller.deleteRoom(mockRequest, 'nonexistent')
+        ).rejects.toThrow(NotFoundException);
+      });
+
+      it('should handle forbidden error when not owner', async () => {
+        jest
+          .spyOn(service, 'deleteRoom')
+          .mockRejectedValue(
+            new ForbiddenException(
+              'Your role in this room does not allow this action'
+            )
+          );
+
+        await expect(
+          controller.deleteRoom(mockRequest, 'room123')
+        ).rejects.toThrow(ForbiddenException);
       });
     });
   });
@@ -587,16 +1130,34 @@ describe('MessagesController', () => {
           .spyOn(service, 'getOnlineUsers')
           .mockResolvedValue(mockOnlineUsers);
 
-        const result = await controller.getOnlineUsers();
+        const result = await controller.getOnlineUsers(mockRequest);
 
         expect(service.getOnlineUsers).toHaveBeenCalled();
-        expect(result).toEqual(mockOnlineUsers);
+        expect(result).toEqual([
+          { userId: 'user123', status: UserStatus.ONLINE },
+          { userId: 'user456', status: UserStatus.AWAY },
+        ]);
+      });
+
+      it('should hide the invisible users from the others', async () => {
+        jest.spyOn(service, 'getOnlineUsers').mockResolvedValue(
+          mockOnlineUsers.map((onlineUser) => ({
+            ...onlineUser,
+            status: UserStatus.INVISIBLE,
+          }))
+        );
+
+        const result = await controller.getOnlineUsers(mockRequest);
+
+        expect(result).toEqual([
+          { userId: 'user123', status: UserStatus.INVISIBLE },
+        ]);
       });
 
       it('should return empty array if no online users', async () => {
         jest.spyOn(service, 'getOnlineUsers').mockResolvedValue([]);
 
-        const result = await controller.getOnlineUsers();
+        const result = await controller.getOnlineUsers(mockRequest);
 
         expect(result).toEqual([]);
       });
@@ -614,17 +1175,12 @@ describe('MessagesController', () => {
       expect(jwtGuard).toBeTruthy();
     });
 
-    it('should have AdminGuard on deleteRoom endpoint', () => {
+    it('should check room permissions instead of AdminGuard on deleteRoom', () => {
       const guards = Reflect.getMetadata(
         '__guards__',
         MessagesController.prototype.deleteRoom
       );
-      const adminGuard = guards?.find(
-        (guard: unknown) =>
-          guard === AdminGuard ||
-          (guard as { name?: string }).name === 'AdminGuard'
-      );
-      expect(adminGuard).toBeTruthy();
+      expect(guards).toBeUndefined();
     });
   });
 });
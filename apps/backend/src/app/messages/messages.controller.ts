@@ -9,7 +9,12 @@ import {
   Query,
   UseGuards,
   Request,
+  Header,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
@@ -17,21 +22,45 @@ import {
   ApiBearerAuth,
   ApiParam,
   ApiQuery,
+  ApiBody,
+  ApiConsumes,
+  ApiProduces,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '@backend/app/auth/guards/jwt-auth.guard';
-import { AdminGuard } from '@backend/app/auth/guards/admin.guard';
 import { MessagesService } from '@backend/messages/messages.service';
+import { MessagesGateway } from '@backend/messages/messages.gateway';
 
 import type { RequestWithUser } from '@backend/app/auth/interfaces/request-with-user.interface';
+import type { UploadedFileInterface } from '@backend/app/storage/interfaces/uploaded-file.interface';
+import { MAX_ATTACHMENT_SIZE } from '@backend/messages/attachments/message-attachment';
+import {
+  toUserPresence,
+  isPresenceVisibleTo,
+} from '@backend/messages/policies/presence.policy';
 
 import {
   CreateMessageDto,
   UpdateMessageDto,
+  UploadAttachmentDto,
   CreateDirectRoomDto,
+  CreateGroupRoomDto,
   GetMessagesDto,
+  GetThreadDto,
+  SearchMessagesDto,
+  SyncMessagesDto,
   AddMemberDto,
+  AddReactionDto,
+  MarkReadDto,
+  UpdateMemberRoleDto,
+  TransferOwnershipDto,
   MessageResponseDto,
+  MessagePageResponseDto,
+  MessageSearchResponseDto,
+  MessageSyncResponseDto,
+  MessageThreadResponseDto,
+  MessagesReadResponseDto,
   RoomResponseDto,
+  RoomPinResponseDto,
   OnlineUsersListResponseDto,
   ApiErrorResponseDto,
 } from '@backend/messages/dto/message.dto';
@@ -41,7 +70,10 @@ import {
 @UseGuards(JwtAuthGuard)
 @Controller('messages')
 export class MessagesController {
-  constructor(private readonly messagesService: MessagesService) {}
+  constructor(
+    private readonly messagesService: MessagesService,
+    private readonly messagesGateway: MessagesGateway
+  ) {}
 
   // ========== MESSAGES ENDPOINTS ==========
 
@@ -90,11 +122,155 @@ export class MessagesController {
     return this.messagesService.createMessage(req.user.id, createMessageDto);
   }
 
+  @Post('attachments')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_ATTACHMENT_SIZE } })
+  )
+  @ApiOperation({
+    summary: 'Send a file',
+    description:
+      'Uploads an image or a document (10 MB max) and sends it to a room as an IMAGE or FILE message, with an optional caption. The message is broadcast to the room members.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file', 'roomId'],
+      properties: {
+        file: { type: 'string', format: 'binary' },
+        roomId: { type: 'string', example: '507f1f77bcf86cd799439011' },
+        content: { type: 'string', maxLength: 2000 },
+        parentMessageId: { type: 'string' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'File sent successfully',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad Request - Missing file, unsupported type or content not matching the type',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - No access to room',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Room or parent message not found',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 413,
+    description: 'File too large',
+    type: ApiErrorResponseDto,
+  })
+  /**
+   * Stores an uploaded file and sends it to a room, then notifies the room members
+   *
+   * @param {RequestWithUser} req - Express request containing authenticated user
+   * @param {UploadAttachmentDto} uploadAttachmentDto - Target room, caption and thread
+   * @param {UploadedFileInterface} file - The uploaded file
+   * @returns {Promise<Message>} The created message with its attachment
+   */
+  async uploadAttachment(
+    @Request() req: RequestWithUser,
+    @Body() uploadAttachmentDto: UploadAttachmentDto,
+    @UploadedFile() file?: UploadedFileInterface
+  ) {
+    const message = await this.messagesService.createAttachmentMessage(
+      req.user.id,
+      uploadAttachmentDto,
+      file
+    );
+    this.messagesGateway.broadcastNewMessage(message);
+    return message;
+  }
+
+  @Get(':id/attachments/:attachmentId')
+  @Header('X-Content-Type-Options', 'nosniff')
+  @Header('Cache-Control', 'private, max-age=86400')
+  @ApiOperation({
+    summary: 'Download an attachment',
+    description:
+      'Returns the content of a message attachment. Images are served inline, other files as downloads. Only accessible to room members.',
+  })
+  @ApiProduces('application/octet-stream')
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the message',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiParam({
+    name: 'attachmentId',
+    description: 'ID of the attachment',
+    example: '3f6c1a52-8a1e-4c8b-9a53-2a8f7b1e4c21',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Attachment content',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - No access to room',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Message or attachment not found',
+    type: ApiErrorResponseDto,
+  })
+  /**
+   * Streams the content of a message attachment
+   *
+   * @param {RequestWithUser} req - Express request containing authenticated user
+   * @param {string} messageId - The ID of the message
+   * @param {string} attachmentId - The ID of the attachment
+   * @returns {Promise<StreamableFile>} The attachment content with its type and file name
+   */
+  async downloadAttachment(
+    @Request() req: RequestWithUser,
+    @Param('id') messageId: string,
+    @Param('attachmentId') attachmentId: string
+  ) {
+    const { attachment, content } = await this.messagesService.getAttachment(
+      req.user.id,
+      messageId,
+      attachmentId
+    );
+    const disposition = attachment.mimeType.startsWith('image/')
+      ? 'inline'
+      : 'attachment';
+
+    return new StreamableFile(content, {
+      type: attachment.mimeType,
+      length: attachment.size,
+      disposition: `${disposition}; filename*=UTF-8''${encodeURIComponent(
+        attachment.fileName
+      )}`,
+    });
+  }
+
   @Get('room/:roomId')
   @ApiOperation({
     summary: 'Get messages from a room',
     description:
-      'Retrieves messages from a room with pagination. Only accessible to room members.',
+      'Retrieves a page of messages from a room, latest first unless a cursor is given. Pages are returned oldest first. Only accessible to room members.',
   })
   @ApiParam({
     name: 'roomId',
@@ -109,23 +285,28 @@ export class MessagesController {
     example: 20,
   })
   @ApiQuery({
-    name: 'offset',
+    name: 'before',
     required: false,
-    type: Number,
-    description: 'Number of messages to skip for pagination',
-    example: 0,
+    type: String,
+    description: 'Opaque cursor, get the messages sent before it',
+    example: 'WzE3MDUzMTQyMDAwMDAsIjUwN2YxZjc3YmNmODZjZDc5OTQzOTAxNCJd',
   })
   @ApiQuery({
-    name: 'before',
+    name: 'after',
     required: false,
     type: String,
-    description: 'Get messages sent before this date (ISO string)',
-    example: '2024-01-15T10:30:00.000Z',
+    description: 'Opaque cursor, get the messages sent after it',
+    example: 'WzE3MDUzMTQyMDAwMDAsIjUwN2YxZjc3YmNmODZjZDc5OTQzOTAxNCJd',
   })
   @ApiResponse({
     status: 200,
     description: 'Messages retrieved successfully',
-    type: [MessageResponseDto],
+    type: MessagePageResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid cursor or both cursors given',
+    type: ApiErrorResponseDto,
   })
   @ApiResponse({
     status: 401,
@@ -143,12 +324,12 @@ export class MessagesController {
     type: ApiErrorResponseDto,
   })
   /**
-   * Retrieves messages from a room with pagination support
+   * Retrieves a page of messages from a room with cursor pagination
    *
    * @param {RequestWithUser} req - Express request containing authenticated user
    * @param {string} roomId - The ID of the room to fetch messages from
-   * @param {GetMessagesDto} query - Query parameters for pagination and filtering
-   * @returns {Promise<Message[]>} Array of messages from the room
+   * @param {GetMessagesDto} query - Query parameters for pagination
+   * @returns {Promise<{items: Message[], nextCursor: string | null, hasMore: boolean}>} The page of messages
    */
   async getMessages(
     @Request() req: RequestWithUser,
@@ -158,11 +339,215 @@ export class MessagesController {
     return this.messagesService.getMessages(req.user.id, roomId, query);
   }
 
+  @Get('search')
+  @ApiOperation({
+    summary: 'Search messages',
+    description:
+      'Full-text search in the messages of the rooms the user is an active member of. Results are sorted by relevance and come with highlighted snippets.',
+  })
+  @ApiQuery({
+    name: 'q',
+    required: true,
+    type: String,
+    description:
+      'Words to search for, "quoted phrases" and -excluded words are supported',
+    example: 'release "next monday"',
+  })
+  @ApiQuery({
+    name: 'roomId',
+    required: false,
+    type: String,
+    description: 'Only search the messages of this room',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiQuery({
+    name: 'senderId',
+    required: false,
+    type: String,
+    description: 'Only search the messages sent by this user',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiQuery({
+    name: 'from',
+    required: false,
+    type: String,
+    description: 'Only search the messages sent from this date (ISO string)',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @ApiQuery({
+    name: 'to',
+    required: false,
+    type: String,
+    description: 'Only search the messages sent until this date (ISO string)',
+    example: '2024-01-31T23:59:59.999Z',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Number of results to retrieve (max 50)',
+    example: 20,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Search results retrieved successfully',
+    type: MessageSearchResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid search query or date range',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - No access to the filtered room',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Filtered room not found',
+    type: ApiErrorResponseDto,
+  })
+  /**
+   * Searches the messages of the rooms of the authenticated user
+   *
+   * @param {RequestWithUser} req - Express request containing authenticated user
+   * @param {SearchMessagesDto} query - Search string and filters
+   * @returns {Promise<{items: MessageSearchResult[], hasMore: boolean}>} The matching messages
+   */
+  async searchMessages(
+    @Request() req: RequestWithUser,
+    @Query() query: SearchMessagesDto
+  ) {
+    return this.messagesService.searchMessages(req.user.id, query);
+  }
+
+  @Get('sync')
+  @ApiOperation({
+    summary: 'Catch up on missed changes',
+    description:
+      'Retrieves the messages created, edited or deleted and the room membership changes since a previous sync. Called by clients when they reconnect.',
+  })
+  @ApiQuery({
+    name: 'since',
+    required: true,
+    type: String,
+    description:
+      'Date of the previous sync (ISO string), as returned in its syncedAt',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Maximum number of changed messages to retrieve (max 500)',
+    example: 200,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Changes retrieved successfully',
+    type: MessageSyncResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid date',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+    type: ApiErrorResponseDto,
+  })
+  /**
+   * Lists the changes the authenticated user missed since a previous sync
+   *
+   * @param {RequestWithUser} req - Express request containing authenticated user
+   * @param {SyncMessagesDto} query - Date of the previous sync and message limit
+   * @returns {Promise<{messages: Message[], rooms: Room[], removedRoomIds: string[], hasMore: boolean, syncedAt: Date}>} The missed changes
+   */
+  async syncChanges(
+    @Request() req: RequestWithUser,
+    @Query() query: SyncMessagesDto
+  ) {
+    return this.messagesService.syncChanges(req.user.id, query);
+  }
+
+  @Get(':id/thread')
+  @ApiOperation({
+    summary: 'Get the replies of a message thread',
+    description:
+      'Retrieves a message with a page of its thread replies, oldest first. Only accessible to room members.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the message starting the thread',
+    example: '507f1f77bcf86cd799439014',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Number of replies to retrieve (max 100)',
+    example: 20,
+  })
+  @ApiQuery({
+    name: 'offset',
+    required: false,
+    type: Number,
+    description: 'Number of replies to skip for pagination',
+    example: 0,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Thread retrieved successfully',
+    type: MessageThreadResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Message is itself a thread reply',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - No access to room',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Message not found',
+    type: ApiErrorResponseDto,
+  })
+  /**
+   * Retrieves a message thread with pagination support
+   *
+   * @param {RequestWithUser} req - Express request containing authenticated user
+   * @param {string} messageId - The ID of the message starting the thread
+   * @param {GetThreadDto} query - Query parameters for pagination
+   * @returns {Promise<{parent: Message, replies: Message[], hasMore: boolean}>} The thread page
+   */
+  async getThread(
+    @Request() req: RequestWithUser,
+    @Param('id') messageId: string,
+    @Query() query: GetThreadDto
+  ) {
+    return this.messagesService.getThread(req.user.id, messageId, query);
+  }
+
   @Patch(':id')
   @ApiOperation({
     summary: 'Edit a message',
     description:
-      'Updates the content of an existing message. Only the message owner can edit it.',
+      'Updates the content of an existing message. Only the message owner can edit it. The edit is broadcast to the room members.',
   })
   @ApiParam({
     name: 'id',
@@ -195,7 +580,7 @@ export class MessagesController {
     type: ApiErrorResponseDto,
   })
   /**
-   * Updates an existing message (only by message owner)
+   * Updates an existing message (only by message owner) and notifies the room members
    *
    * @param {RequestWithUser} req - Express request containing authenticated user
    * @param {string} messageId - The ID of the message to update
@@ -207,27 +592,247 @@ export class MessagesController {
     @Param('id') messageId: string,
     @Body() updateMessageDto: UpdateMessageDto
   ) {
-    return this.messagesService.updateMessage(
+    const message = await this.messagesService.updateMessage(
       req.user.id,
       messageId,
       updateMessageDto
     );
+    this.messagesGateway.broadcastMessageUpdated(message);
+    return message;
   }
 
   @Delete(':id')
   @ApiOperation({
-    summary: 'Delete a message (soft delete)',
+    summary: 'Delete a message (soft delete)',
+    description:
+      'Soft deletes a message. Only the message owner can delete it. The deletion is broadcast to the room members.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the message to delete',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Message deleted successfully',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Not your message',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Message not found',
+    type: ApiErrorResponseDto,
+  })
+  /**
+   * Soft deletes a message (only by message owner) and notifies the room members
+   *
+   * @param {RequestWithUser} req - Express request containing authenticated user
+   * @param {string} messageId - The ID of the message to delete
+   * @returns {Promise<Message>} The soft-deleted message with deletion metadata
+   */
+  async deleteMessage(
+    @Request() req: RequestWithUser,
+    @Param('id') messageId: string
+  ) {
+    const message = await this.messagesService.deleteMessage(
+      req.user.id,
+      messageId
+    );
+    this.messagesGateway.broadcastMessageDeleted(message);
+    return message;
+  }
+
+  @Post(':id/reactions')
+  @ApiOperation({
+    summary: 'React to a message',
+    description:
+      'Adds the current user reaction with an emoji to a message and broadcasts the updated reactions to the room.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the message to react to',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Reaction added successfully',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid emoji or too many reactions',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - No access to this room',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Message not found',
+    type: ApiErrorResponseDto,
+  })
+  /**
+   * Adds a reaction to a message and notifies the room members
+   *
+   * @param {RequestWithUser} req - Express request containing authenticated user
+   * @param {string} messageId - The ID of the message to react to
+   * @param {AddReactionDto} addReactionDto - The emoji to react with
+   * @returns {Promise<Message>} The message with its updated reactions
+   */
+  async addReaction(
+    @Request() req: RequestWithUser,
+    @Param('id') messageId: string,
+    @Body() addReactionDto: AddReactionDto
+  ) {
+    const message = await this.messagesService.addReaction(
+      req.user.id,
+      messageId,
+      addReactionDto.emoji
+    );
+    this.messagesGateway.broadcastReactionUpdate(message);
+    return message;
+  }
+
+  @Delete(':id/reactions/:emoji')
+  @ApiOperation({
+    summary: 'Remove a reaction from a message',
+    description:
+      'Removes the current user reaction with an emoji from a message and broadcasts the updated reactions to the room.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the message',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiParam({
+    name: 'emoji',
+    description: 'URL-encoded emoji to remove',
+    example: '%F0%9F%91%8D',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reaction removed successfully',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - No access to this room',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Message not found',
+    type: ApiErrorResponseDto,
+  })
+  /**
+   * Removes a reaction from a message and notifies the room members
+   *
+   * @param {RequestWithUser} req - Express request containing authenticated user
+   * @param {string} messageId - The ID of the message
+   * @param {string} emoji - The emoji to remove
+   * @returns {Promise<Message>} The message with its updated reactions
+   */
+  async removeReaction(
+    @Request() req: RequestWithUser,
+    @Param('id') messageId: string,
+    @Param('emoji') emoji: string
+  ) {
+    const message = await this.messagesService.removeReaction(
+      req.user.id,
+      messageId,
+      emoji
+    );
+    this.messagesGateway.broadcastReactionUpdate(message);
+    return message;
+  }
+
+  @Post(':id/pin')
+  @ApiOperation({
+    summary: 'Pin a message',
+    description:
+      'Pins a message to its room and notifies the room members. Requires the admin role in group rooms.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the message to pin',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Message pinned successfully',
+    type: RoomPinResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Thread reply or too many pinned messages',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Role does not allow pinning',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Message not found',
+    type: ApiErrorResponseDto,
+  })
+  /**
+   * Pins a message to its room and notifies the room members
+   *
+   * @param {RequestWithUser} req - Express request containing authenticated user
+   * @param {string} messageId - The ID of the message to pin
+   * @returns {Promise<RoomPin>} The pin with the pinned message
+   */
+  async pinMessage(
+    @Request() req: RequestWithUser,
+    @Param('id') messageId: string
+  ) {
+    const pin = await this.messagesService.pinMessage(req.user.id, messageId);
+    this.messagesGateway.broadcastMessagePinned(pin);
+    return pin;
+  }
+
+  @Delete(':id/pin')
+  @ApiOperation({
+    summary: 'Unpin a message',
     description:
-      'Soft deletes a message. Only the message owner can delete it.',
+      'Unpins a message from its room and notifies the room members. Requires the admin role in group rooms.',
   })
   @ApiParam({
     name: 'id',
-    description: 'ID of the message to delete',
+    description: 'ID of the message to unpin',
     example: '507f1f77bcf86cd799439011',
   })
   @ApiResponse({
     status: 200,
-    description: 'Message deleted successfully',
+    description: 'Message unpinned successfully',
     type: MessageResponseDto,
   })
   @ApiResponse({
@@ -237,7 +842,7 @@ export class MessagesController {
   })
   @ApiResponse({
     status: 403,
-    description: 'Forbidden - Not your message',
+    description: 'Forbidden - Role does not allow unpinning',
     type: ApiErrorResponseDto,
   })
   @ApiResponse({
@@ -246,17 +851,22 @@ export class MessagesController {
     type: ApiErrorResponseDto,
   })
   /**
-   * Soft deletes a message (only by message owner)
+   * Unpins a message from its room and notifies the room members
    *
    * @param {RequestWithUser} req - Express request containing authenticated user
-   * @param {string} messageId - The ID of the message to delete
-   * @returns {Promise<Message>} The soft-deleted message with deletion metadata
+   * @param {string} messageId - The ID of the message to unpin
+   * @returns {Promise<Message>} The unpinned message
    */
-  async deleteMessage(
+  async unpinMessage(
     @Request() req: RequestWithUser,
     @Param('id') messageId: string
   ) {
-    return this.messagesService.deleteMessage(req.user.id, messageId);
+    const message = await this.messagesService.unpinMessage(
+      req.user.id,
+      messageId
+    );
+    this.messagesGateway.broadcastMessageUnpinned(message);
+    return message;
   }
 
   // ========== ROOMS ENDPOINTS ==========
@@ -298,10 +908,61 @@ export class MessagesController {
     @Request() req: RequestWithUser,
     @Body() createDirectRoomDto: CreateDirectRoomDto
   ) {
-    return this.messagesService.createDirectRoom(
+    const room = await this.messagesService.createDirectRoom(
       req.user.id,
       createDirectRoomDto
     );
+
+    this.messagesGateway.joinRoomMembers(room);
+
+    return room;
+  }
+
+  @Post('rooms/group')
+  @ApiOperation({
+    summary: 'Create a group room',
+    description:
+      'Creates a named group room with the current user as admin and the given initial members.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Group room created successfully',
+    type: RoomResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid name or member list',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'One of the members was not found',
+    type: ApiErrorResponseDto,
+  })
+  /**
+   * Creates a named group room with an initial member list
+   *
+   * @param {RequestWithUser} req - Express request containing authenticated user
+   * @param {CreateGroupRoomDto} createGroupRoomDto - Group name, description and member IDs
+   * @returns {Promise<Room>} The created group room
+   */
+  async createGroupRoom(
+    @Request() req: RequestWithUser,
+    @Body() createGroupRoomDto: CreateGroupRoomDto
+  ) {
+    const room = await this.messagesService.createGroupRoom(
+      req.user.id,
+      createGroupRoomDto
+    );
+
+    this.messagesGateway.joinRoomMembers(room);
+
+    return room;
   }
 
   @Get('rooms')
@@ -365,6 +1026,51 @@ export class MessagesController {
     return this.messagesService.getRoomById(roomId);
   }
 
+  @Get('rooms/:id/pins')
+  @ApiOperation({
+    summary: 'Get the pinned messages of a room',
+    description:
+      'Retrieves the messages pinned to a room, most recently pinned first.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the room',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Pinned messages retrieved successfully',
+    type: [RoomPinResponseDto],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - No access to this room',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Room not found',
+    type: ApiErrorResponseDto,
+  })
+  /**
+   * Lists the pinned messages of a room
+   *
+   * @param {RequestWithUser} req - Express request containing authenticated user
+   * @param {string} roomId - The ID of the room
+   * @returns {Promise<RoomPin[]>} The pins with their messages, most recently pinned first
+   */
+  async getRoomPins(
+    @Request() req: RequestWithUser,
+    @Param('id') roomId: string
+  ) {
+    return this.messagesService.getRoomPins(req.user.id, roomId);
+  }
+
   @Post('rooms/:id/members')
   @ApiOperation({
     summary: 'Add a member to a room',
@@ -414,11 +1120,73 @@ export class MessagesController {
     @Param('id') roomId: string,
     @Body() addMemberDto: AddMemberDto
   ) {
-    return this.messagesService.addMemberToRoom(
+    const room = await this.messagesService.addMemberToRoom(
       req.user.id,
       roomId,
       addMemberDto.userId
     );
+
+    this.messagesGateway.joinUserToRoom(addMemberDto.userId, roomId);
+
+    return room;
+  }
+
+  @Post('rooms/:id/read')
+  @ApiOperation({
+    summary: 'Mark a room as read',
+    description:
+      'Moves the current user read position up to a message (the latest one by default) and broadcasts it to the room.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the room to mark as read',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Read position updated successfully',
+    type: MessagesReadResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Message does not belong to this room',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Not a member of this room',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Room or message not found',
+    type: ApiErrorResponseDto,
+  })
+  /**
+   * Marks a room as read for the current user and notifies the room members
+   *
+   * @param {RequestWithUser} req - Express request containing authenticated user
+   * @param {string} roomId - The ID of the room to mark as read
+   * @param {MarkReadDto} markReadDto - Optional ID of the last read message
+   * @returns {Promise<MessagesReadResponseDto>} The user's read position
+   */
+  async markRoomAsRead(
+    @Request() req: RequestWithUser,
+    @Param('id') roomId: string,
+    @Body() markReadDto: MarkReadDto
+  ) {
+    const receipt = await this.messagesService.markRoomAsRead(
+      req.user.id,
+      roomId,
+      markReadDto.messageId
+    );
+    this.messagesGateway.broadcastMessagesRead(receipt);
+    return receipt;
   }
 
   @Delete('rooms/:id/leave')
@@ -471,15 +1239,208 @@ export class MessagesController {
     @Param('id') roomId: string
   ) {
     await this.messagesService.leaveRoom(req.user.id, roomId);
+    this.messagesGateway.removeUserFromRoom(req.user.id, roomId);
     return { message: 'Left room successfully' };
   }
 
+  @Patch('rooms/:id/members/:memberId/role')
+  @ApiOperation({
+    summary: 'Change the role of a room member',
+    description:
+      'Promotes a member to admin or demotes an admin to member. Only the room owner can change roles.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the room',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @ApiParam({
+    name: 'memberId',
+    description: 'ID of the member whose role changes',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Role updated successfully',
+    type: RoomResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid role or own role',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Not the room owner',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Room or member not found',
+    type: ApiErrorResponseDto,
+  })
+  /**
+   * Promotes or demotes a room member (owner only)
+   *
+   * @param {RequestWithUser} req - Express request containing authenticated user
+   * @param {string} roomId - The ID of the room
+   * @param {string} memberId - The ID of the member whose role changes
+   * @param {UpdateMemberRoleDto} updateMemberRoleDto - Contains the new role
+   * @returns {Promise<Room>} The updated room
+   */
+  async updateMemberRole(
+    @Request() req: RequestWithUser,
+    @Param('id') roomId: string,
+    @Param('memberId') memberId: string,
+    @Body() updateMemberRoleDto: UpdateMemberRoleDto
+  ) {
+    const room = await this.messagesService.updateMemberRole(
+      req.user.id,
+      roomId,
+      memberId,
+      updateMemberRoleDto.role
+    );
+
+    this.messagesGateway.broadcastRoomUpdated(room);
+
+    return room;
+  }
+
+  @Delete('rooms/:id/members/:memberId')
+  @ApiOperation({
+    summary: 'Kick a member from a room',
+    description:
+      'Removes a member from a room. Admins can kick members, the owner can kick anyone.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the room',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @ApiParam({
+    name: 'memberId',
+    description: 'ID of the member to remove',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Member removed successfully',
+    type: RoomResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Cannot kick yourself',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Role too low to remove this member',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Room or member not found',
+    type: ApiErrorResponseDto,
+  })
+  /**
+   * Kicks a member out of a room (must outrank the member)
+   *
+   * @param {RequestWithUser} req - Express request containing authenticated user
+   * @param {string} roomId - The ID of the room
+   * @param {string} memberId - The ID of the member to remove
+   * @returns {Promise<Room>} The updated room
+   */
+  async removeMember(
+    @Request() req: RequestWithUser,
+    @Param('id') roomId: string,
+    @Param('memberId') memberId: string
+  ) {
+    const room = await this.messagesService.removeMemberFromRoom(
+      req.user.id,
+      roomId,
+      memberId
+    );
+
+    this.messagesGateway.removeUserFromRoom(memberId, roomId);
+
+    return room;
+  }
+
+  @Post('rooms/:id/transfer-ownership')
+  @ApiOperation({
+    summary: 'Transfer room ownership',
+    description:
+      'Makes another member the owner of the room. The previous owner becomes an admin.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the room',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Ownership transferred successfully',
+    type: RoomResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Already the owner',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Not the room owner',
+    type: ApiErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Room or member not found',
+    type: ApiErrorResponseDto,
+  })
+  /**
+   * Transfers room ownership to another member (owner only)
+   *
+   * @param {RequestWithUser} req - Express request containing authenticated user
+   * @param {string} roomId - The ID of the room
+   * @param {TransferOwnershipDto} transferOwnershipDto - Contains the new owner ID
+   * @returns {Promise<Room>} The updated room
+   */
+  async transferOwnership(
+    @Request() req: RequestWithUser,
+    @Param('id') roomId: string,
+    @Body() transferOwnershipDto: TransferOwnershipDto
+  ) {
+    const room = await this.messagesService.transferOwnership(
+      req.user.id,
+      roomId,
+      transferOwnershipDto.newOwnerId
+    );
+
+    this.messagesGateway.broadcastRoomUpdated(room);
+
+    return room;
+  }
+
   @Delete('rooms/:id')
-  @UseGuards(AdminGuard)
   @ApiOperation({
-    summary: 'Delete a room (Admin only)',
+    summary: 'Delete a room (Owner only)',
     description:
-      'Permanently deletes a room and all its messages. Admin access required.',
+      'Permanently deletes a room and all its messages. Only the room owner can delete it.',
   })
   @ApiParam({
     name: 'id',
@@ -507,7 +1468,7 @@ export class MessagesController {
   })
   @ApiResponse({
     status: 403,
-    description: 'Forbidden - Admin access only',
+    description: 'Forbidden - Not the room owner',
     type: ApiErrorResponseDto,
   })
   @ApiResponse({
@@ -516,13 +1477,18 @@ export class MessagesController {
     type: ApiErrorResponseDto,
   })
   /**
-   * Permanently deletes a room and all its messages (Admin only)
+   * Permanently deletes a room and all its messages (Owner only)
    *
+   * @param {RequestWithUser} req - Express request containing authenticated user
    * @param {string} roomId - The ID of the room to delete
    * @returns {Promise<{message: string}>} Success confirmation message
    */
-  async deleteRoom(@Param('id') roomId: string) {
-    await this.messagesService.deleteRoom(roomId);
+  async deleteRoom(
+    @Request() req: RequestWithUser,
+    @Param('id') roomId: string
+  ) {
+    await this.messagesService.deleteRoom(req.user.id, roomId);
+    this.messagesGateway.closeRoom(roomId);
     return { message: 'Room deleted successfully' };
   }
 
@@ -532,7 +1498,7 @@ export class MessagesController {
   @ApiOperation({
     summary: 'Get list of online users',
     description:
-      'Retrieves a list of all currently online users with their status.',
+      'Retrieves a list of all currently online users with their status. Invisible users are only listed to themselves.',
   })
   @ApiResponse({
     status: 200,
@@ -546,10 +1512,16 @@ export class MessagesController {
   })
   /**
    * Retrieves a list of all currently online users
+   * Invisible users are only listed to themselves
    *
-   * @returns {Promise<OnlineUser[]>} Array of online user records
+   * @param {RequestWithUser} req - The authenticated request containing user information
+   * @returns {Promise<UserPresence[]>} Presence of the online users
    */
-  async getOnlineUsers() {
-    return this.messagesService.getOnlineUsers();
+  async getOnlineUsers(@Request() req: RequestWithUser) {
+    const onlineUsers = await this.messagesService.getOnlineUsers();
+
+    return onlineUsers
+      .filter((onlineUser) => isPresenceVisibleTo(onlineUser, req.user.id))
+      .map(toUserPresence);
   }
 }
@@ -8,15 +8,21 @@ import {
   WsJoinRoomDto,
   WsLeaveRoomDto,
   WsSendMessageDto,
+  WsSendThreadReplyDto,
 } from '@backend/messages/dto/message.dto';
 import { UserEntity } from '@backend/users/user.entity';
 import { UsersService } from '@backend/users/users.service';
+import { TokenDenylistService } from '@backend/auth/token-denylist.service';
 import { WsJwtGuard } from '@backend/messages/guards/ws-jwt.guard';
 import { MessagesGateway } from '@backend/messages/messages.gateway';
 import { MessagesService } from '@backend/messages/messages.service';
 import { MessageType } from '@backend/messages/schemas/message.schema';
 import { UserStatus } from '@backend/messages/schemas/online-user.schema';
 import { RoomType, MemberRole } from '@backend/messages/schemas/room.schema';
+import { RATE_LIMIT_STORE } from '@backend/app/rate-limit/constants/rate-limit.constants';
+import { WsRateLimitException } from '@backend/app/rate-limit/exceptions/ws-rate-limit.exception';
+import { CONNECTION_STORE } from '@backend/app/realtime/constants/realtime.constants';
+import { MemoryConnectionStore } from '@backend/app/realtime/drivers/memory-connection-store.driver';
 
 describe('MessagesGateway', () => {
   let jwtService: JwtService;
@@ -24,19 +30,36 @@ describe('MessagesGateway', () => {
   let usersService: UsersService;
   let configService: ConfigService;
   let messagesService: MessagesService;
+  let connectionStore: MemoryConnectionStore;
+  let tokenDenylistService: TokenDenylistService;
+
+  const mockRateLimitStore = {
+    consume: jest.fn(),
+  };
 
   const mockUser = {
     id: 'user123',
     email: 'test@example.com',
     firstName: 'Test',
     lastName: 'User',
+    displayName: null,
+    avatarUrl: null,
+    bio: null,
+    timezone: null,
+    locale: null,
     password: 'hashedPassword',
     isActive: true,
     isAdmin: false,
+    emailVerifiedAt: new Date(),
+    mfaSecret: null,
+    mfaEnabledAt: null,
+    mfaRecoveryCodes: [],
+    oidcSubject: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     validatePassword: jest.fn().mockResolvedValue(true),
     fullName: 'Test User',
+    publicName: 'Test User',
   } as UserEntity;
 
   const mockRoom = {
@@ -56,6 +79,7 @@ describe('MessagesGateway', () => {
         joinedAt: new Date(),
       },
     ],
+    pinnedMessages: [],
     isActive: true,
     lastActivity: new Date(),
     _id: 'room123',
@@ -71,13 +95,17 @@ describe('MessagesGateway', () => {
     timestamp: new Date(),
     messageType: MessageType.TEXT,
     isEdited: false,
+    threadReplyCount: 0,
+    reactions: [],
+    attachments: [],
     isDeleted: false,
   };
 
   const mockOnlineUser = {
     userId: 'user123',
-    socketId: 'socket123',
+    socketIds: ['socket123'],
     status: UserStatus.ONLINE,
+    isIdle: false,
     lastSeen: new Date(),
   };
 
@@ -95,19 +123,25 @@ describe('MessagesGateway', () => {
       auth: { token: 'valid.jwt.token' },
       headers: {},
     },
+    rooms: new Set(['socket123', 'room:room123']),
     join: jest.fn(),
     leave: jest.fn(),
     to: jest.fn().mockReturnThis(),
     emit: jest.fn(),
+    broadcast: { emit: jest.fn() },
     disconnect: jest.fn(),
   } as unknown as TestSocket;
 
   const mockServer = {
     emit: jest.fn(),
     to: jest.fn().mockReturnThis(),
+    in: jest.fn().mockReturnThis(),
+    except: jest.fn().mockReturnThis(),
+    disconnectSockets: jest.fn(),
   } as unknown as Server;
 
   beforeEach(async () => {
+    connectionStore = new MemoryConnectionStore();
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         MessagesGateway,
@@ -116,10 +150,21 @@ describe('MessagesGateway', () => {
           useValue: {
             setUserOnline: jest.fn(),
             setUserOffline: jest.fn(),
-            getUserRooms: jest.fn(),
+            getUserRoomIds: jest.fn(),
             getRoomById: jest.fn(),
             createMessage: jest.fn(),
+            findSentMessage: jest.fn(),
+            markRoomAsRead: jest.fn(),
+            updateMessage: jest.fn(),
+            deleteMessage: jest.fn(),
+            addReaction: jest.fn(),
+            removeReaction: jest.fn(),
+            pinMessage: jest.fn(),
+            unpinMessage: jest.fn(),
             getOnlineUsers: jest.fn(),
+            updateUserStatus: jest.fn(),
+            setUserIdle: jest.fn(),
+            refreshLastSeen: jest.fn(),
           },
         },
         {
@@ -140,6 +185,20 @@ describe('MessagesGateway', () => {
             get: jest.fn(),
           },
         },
+        {
+          provide: TokenDenylistService,
+          useValue: {
+            isRevoked: jest.fn(),
+          },
+        },
+        {
+          provide: RATE_LIMIT_STORE,
+          useValue: mockRateLimitStore,
+        },
+        {
+          provide: CONNECTION_STORE,
+          useValue: connectionStore,
+        },
       ],
     })
       .overrideGuard(WsJwtGuard)
@@ -151,18 +210,30 @@ describe('MessagesGateway', () => {
     usersService = module.get<UsersService>(UsersService);
     jwtService = module.get<JwtService>(JwtService);
     configService = module.get<ConfigService>(ConfigService);
+    tokenDenylistService =
+      module.get<TokenDenylistService>(TokenDenylistService);
 
     gateway.server = mockServer;
 
-    jest.spyOn(jwtService, 'verify').mockReturnValue({ sub: 'user123' });
+    jest.spyOn(jwtService, 'verify').mockReturnValue({
+      sub: 'user123',
+      jti: 'token-jti',
+      sid: 'session123',
+    });
+    jest.spyOn(tokenDenylistService, 'isRevoked').mockResolvedValue(false);
+    mockRateLimitStore.consume.mockResolvedValue({
+      allowed: true,
+      remaining: 9,
+      retryAfterMs: 0,
+    });
     jest.spyOn(configService, 'get').mockReturnValue('test-secret');
     jest.spyOn(usersService, 'findOne').mockResolvedValue(mockUser);
     jest
       .spyOn(messagesService, 'setUserOnline')
       .mockResolvedValue(mockOnlineUser);
     jest
-      .spyOn(messagesService, 'getUserRooms')
-      .mockResolvedValue([mockRoom] as any);
+      .spyOn(messagesService, 'getUserRoomIds')
+      .mockResolvedValue(['room123']);
   });
 
   afterEach(() => {
@@ -179,16 +250,82 @@ describe('MessagesGateway', () => {
       expect(usersService.findOne).toHaveBeenCalledWith('user123');
       expect(messagesService.setUserOnline).toHaveBeenCalledWith(
         'user123',
-        'socket123'
+        'socket123',
+        UserStatus.ONLINE
       );
-      expect(messagesService.getUserRooms).toHaveBeenCalledWith('user123');
+      expect(messagesService.getUserRoomIds).toHaveBeenCalledWith('user123');
       expect(mockSocket.join).toHaveBeenCalledWith('room:room123');
+      expect(mockSocket.join).toHaveBeenCalledWith('session:session123');
+      expect(mockSocket.join).toHaveBeenCalledWith('user:user123');
       expect(mockServer.emit).toHaveBeenCalledWith('userConnected', {
         userId: 'user123',
         username: 'Test User',
+        status: UserStatus.ONLINE,
       });
       expect(mockSocket.userId).toBe('user123');
       expect(mockSocket.user).toBe(mockUser);
+      await expect(connectionStore.remove('socket123')).resolves.toMatchObject({
+        userId: 'user123',
+      });
+    });
+
+    it('should connect invisible users without announcing them', async () => {
+      const invisibleSocket = {
+        ...mockSocket,
+        handshake: {
+          auth: { token: 'valid.jwt.token', status: UserStatus.INVISIBLE },
+          headers: {},
+        },
+      };
+      jest.spyOn(messagesService, 'setUserOnline').mockResolvedValue({
+        ...mockOnlineUser,
+        status: UserStatus.INVISIBLE,
+      });
+
+      await gateway.handleConnection(invisibleSocket as unknown as TestSocket);
+
+      expect(messagesService.setUserOnline).toHaveBeenCalledWith(
+        'user123',
+        'socket123',
+        UserStatus.INVISIBLE
+      );
+      expect(mockServer.emit).not.toHaveBeenCalledWith(
+        'userConnected',
+        expect.anything()
+      );
+    });
+
+    it('should not announce another device of a connected user', async () => {
+      jest.spyOn(messagesService, 'setUserOnline').mockResolvedValue({
+        ...mockOnlineUser,
+        socketIds: ['socket456', 'socket123'],
+      });
+
+      await gateway.handleConnection(mockSocket);
+
+      expect(mockSocket.join).toHaveBeenCalledWith('user:user123');
+      expect(mockServer.emit).not.toHaveBeenCalledWith(
+        'userConnected',
+        expect.anything()
+      );
+    });
+
+    it('should ignore an unknown requested status', async () => {
+      const socketWithStatus = {
+        ...mockSocket,
+        handshake: {
+          auth: { token: 'valid.jwt.token', status: 'offline' },
+          headers: {},
+        },
+      };
+
+      await gateway.handleConnection(socketWithStatus as unknown as TestSocket);
+
+      expect(messagesService.setUserOnline).toHaveBeenCalledWith(
+        'user123',
+        'socket123',
+        UserStatus.ONLINE
+      );
     });
 
     it('should handle connection with token in headers', async () => {
@@ -237,6 +374,29 @@ describe('MessagesGateway', () => {
       );
     });
 
+    it('should disconnect client if token was revoked', async () => {
+      jest.spyOn(tokenDenylistService, 'isRevoked').mockResolvedValue(true);
+
+      await gateway.handleConnection(mockSocket);
+
+      expect(tokenDenylistService.isRevoked).toHaveBeenCalledWith(
+        'token-jti',
+        'session123'
+      );
+      expect(mockSocket.disconnect).toHaveBeenCalled();
+      expect(usersService.findOne).not.toHaveBeenCalled();
+      expect(messagesService.setUserOnline).not.toHaveBeenCalled();
+    });
+
+    it('should disconnect client if token has no jti', async () => {
+      jest.spyOn(jwtService, 'verify').mockReturnValue({ sub: 'user123' });
+
+      await gateway.handleConnection(mockSocket);
+
+      expect(mockSocket.disconnect).toHaveBeenCalled();
+      expect(messagesService.setUserOnline).not.toHaveBeenCalled();
+    });
+
     it('should disconnect client if user not found', async () => {
       jest
         .spyOn(usersService, 'findOne')
@@ -255,10 +415,49 @@ describe('MessagesGateway', () => {
     });
   });
 
+  describe('token expiry', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(jwtService, 'verify').mockReturnValue({
+        sub: 'user123',
+        jti: 'token-jti',
+        sid: 'session123',
+        exp: Math.floor(Date.now() / 1000) + 60,
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should close the connection once its token expires', async () => {
+      await gateway.handleConnection(mockSocket);
+
+      jest.advanceTimersByTime(59000);
+      expect(mockSocket.disconnect).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1000);
+      expect(mockSocket.disconnect).toHaveBeenCalledWith(true);
+    });
+
+    it('should forget the expiry of a closed connection', async () => {
+      await gateway.handleConnection(mockSocket);
+      await gateway.handleDisconnect(mockSocket);
+
+      jest.advanceTimersByTime(60000);
+
+      expect(mockSocket.disconnect).not.toHaveBeenCalled();
+    });
+  });
+
   describe('handleDisconnect', () => {
     it('should handle user disconnect', async () => {
       // Setup connection first
       await gateway.handleConnection(mockSocket);
+      jest.spyOn(messagesService, 'setUserOffline').mockResolvedValue({
+        ...mockOnlineUser,
+        socketIds: [],
+      });
 
       // Then disconnect
       await gateway.handleDisconnect(mockSocket);
@@ -269,6 +468,38 @@ describe('MessagesGateway', () => {
       });
     });
 
+    it('should keep the user online while another device is connected', async () => {
+      await gateway.handleConnection(mockSocket);
+      jest.spyOn(messagesService, 'setUserOffline').mockResolvedValue({
+        ...mockOnlineUser,
+        socketIds: ['socket456'],
+      });
+
+      await gateway.handleDisconnect(mockSocket);
+
+      expect(messagesService.setUserOffline).toHaveBeenCalledWith('socket123');
+      expect(mockServer.emit).not.toHaveBeenCalledWith(
+        'userDisconnected',
+        expect.any(Object)
+      );
+    });
+
+    it('should not announce the disconnection of invisible users', async () => {
+      await gateway.handleConnection(mockSocket);
+      jest.spyOn(messagesService, 'setUserOffline').mockResolvedValue({
+        ...mockOnlineUser,
+        socketIds: [],
+        status: UserStatus.INVISIBLE,
+      });
+
+      await gateway.handleDisconnect(mockSocket);
+
+      expect(mockServer.emit).not.toHaveBeenCalledWith(
+        'userDisconnected',
+        expect.any(Object)
+      );
+    });
+
     it('should handle disconnect for unknown socket', async () => {
       await gateway.handleDisconnect(mockSocket);
 
@@ -283,17 +514,13 @@ describe('MessagesGateway', () => {
       // Setup connection first
       await gateway.handleConnection(mockSocket);
 
-      // Verify user is in connected users map by attempting to send event
-      gateway.sendToUser('user123', 'testEvent', { data: 'test' });
-      expect(mockServer.to).toHaveBeenCalledWith('socket123');
-
-      // Clear mocks and disconnect
+      // Clear mocks and disconnect twice
       jest.clearAllMocks();
       await gateway.handleDisconnect(mockSocket);
+      await gateway.handleDisconnect(mockSocket);
 
-      // Verify user is no longer in connected users map
-      gateway.sendToUser('user123', 'testEvent', { data: 'test' });
-      expect(mockServer.to).not.toHaveBeenCalled();
+      // Verify the second disconnection is ignored
+      expect(messagesService.setUserOffline).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -425,6 +652,51 @@ describe('MessagesGateway', () => {
       expect(result).toEqual({ status: 'sent', messageId: 'message123' });
     });
 
+    it('should store a message with its client message ID', async () => {
+      jest.spyOn(messagesService, 'findSentMessage').mockResolvedValue(null);
+
+      const result = await gateway.handleSendMessage(
+        { ...sendMessageDto, clientMessageId: 'client-1' },
+        mockSocket
+      );
+
+      expect(messagesService.findSentMessage).toHaveBeenCalledWith(
+        'user123',
+        'client-1'
+      );
+      expect(messagesService.createMessage).toHaveBeenCalledWith('user123', {
+        content: 'Test message',
+        roomId: 'room123',
+        messageType: MessageType.TEXT,
+        clientMessageId: 'client-1',
+      });
+      expect(result).toEqual({
+        status: 'sent',
+        messageId: 'message123',
+        clientMessageId: 'client-1',
+      });
+    });
+
+    it('should acknowledge a resent message without storing it again', async () => {
+      jest
+        .spyOn(messagesService, 'findSentMessage')
+        .mockResolvedValue(mockMessage);
+
+      const result = await gateway.handleSendMessage(
+        { ...sendMessageDto, clientMessageId: 'client-1' },
+        mockSocket
+      );
+
+      expect(result).toEqual({
+        status: 'sent',
+        messageId: 'message123',
+        clientMessageId: 'client-1',
+      });
+      expect(messagesService.createMessage).not.toHaveBeenCalled();
+      expect(mockRateLimitStore.consume).not.toHaveBeenCalled();
+      expect(mockServer.emit).not.toHaveBeenCalled();
+    });
+
     it('should throw exception if user not authenticated', async () => {
       const unauthenticatedSocket = {
         ...mockSocket,
@@ -449,6 +721,50 @@ describe('MessagesGateway', () => {
       ).rejects.toThrow(new WsException('Failed to create message'));
     });
 
+    it('should take a token from the bucket of the sender', async () => {
+      await gateway.handleSendMessage(sendMessageDto, mockSocket);
+
+      expect(mockRateLimitStore.consume).toHaveBeenCalledWith(
+        'ws:messages:user123',
+        expect.objectContaining({ capacity: expect.any(Number) })
+      );
+    });
+
+    it('should reject a message flood with a rate limit exception', async () => {
+      mockRateLimitStore.consume.mockResolvedValue({
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: 800,
+      });
+
+      const error = await gateway
+        .handleSendMessage(sendMessageDto, mockSocket)
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(WsRateLimitException);
+      expect(error.getError()).toEqual({
+        status: 'error',
+        code: 'RATE_LIMITED',
+        event: 'sendMessage',
+        message: 'Too many messages, slow down',
+        retryAfterMs: 800,
+      });
+      expect(messagesService.createMessage).not.toHaveBeenCalled();
+    });
+
+    it('should send the message when the rate limit store fails', async () => {
+      mockRateLimitStore.consume.mockRejectedValue(
+        new Error('Redis connection closed')
+      );
+
+      const result = await gateway.handleSendMessage(
+        sendMessageDto,
+        mockSocket
+      );
+
+      expect(result).toEqual({ status: 'sent', messageId: 'message123' });
+    });
+
     it('should handle unknown user gracefully', async () => {
       const socketWithoutUser = {
         ...mockSocket,
@@ -471,79 +787,874 @@ describe('MessagesGateway', () => {
     });
   });
 
-  describe('handleGetOnlineUsers', () => {
-    it('should return online users', async () => {
-      const mockOnlineUsers = [
-        mockOnlineUser,
-        { ...mockOnlineUser, userId: 'user456', socketId: 'socket456' },
-      ];
-      jest
-        .spyOn(messagesService, 'getOnlineUsers')
-        .mockResolvedValue(mockOnlineUsers);
+  describe('handleSendThreadReply', () => {
+    const sendThreadReplyDto: WsSendThreadReplyDto = {
+      content: 'Test reply',
+      roomId: 'room123',
+      parentMessageId: 'parent123',
+      messageType: MessageType.TEXT,
+    };
 
-      const result = await gateway.handleGetOnlineUsers();
+    it('should send thread reply and broadcast it to the room', async () => {
+      const reply = { ...mockMessage, parentMessageId: 'parent123' };
+      jest.spyOn(messagesService, 'createMessage').mockResolvedValue(reply);
 
-      expect(messagesService.getOnlineUsers).toHaveBeenCalled();
-      expect(result).toEqual({ onlineUsers: mockOnlineUsers });
+      const result = await gateway.handleSendThreadReply(
+        sendThreadReplyDto,
+        mockSocket
+      );
+
+      expect(messagesService.createMessage).toHaveBeenCalledWith('user123', {
+        content: 'Test reply',
+        roomId: 'room123',
+        messageType: MessageType.TEXT,
+        parentMessageId: 'parent123',
+      });
+      expect(mockServer.to).toHaveBeenCalledWith('room:room123');
+      expect(mockServer.emit).toHaveBeenCalledWith('newThreadReply', {
+        ...reply,
+        senderInfo: {
+          id: 'user123',
+          username: 'Test User',
+        },
+      });
+      expect(result).toEqual({ status: 'sent', messageId: 'message123' });
     });
 
-    it('should handle empty online users list', async () => {
-      jest.spyOn(messagesService, 'getOnlineUsers').mockResolvedValue([]);
+    it('should handle reply creation error', async () => {
+      jest
+        .spyOn(messagesService, 'createMessage')
+        .mockRejectedValue(new Error('Cannot start a thread on a reply'));
+
+      await expect(
+        gateway.handleSendThreadReply(sendThreadReplyDto, mockSocket)
+      ).rejects.toThrow(new WsException('Cannot start a thread on a reply'));
+    });
 
-      const result = await gateway.handleGetOnlineUsers();
+    it('should reject a reply flood with a rate limit exception', async () => {
+      mockRateLimitStore.consume.mockResolvedValue({
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: 1000,
+      });
 
-      expect(result).toEqual({ onlineUsers: [] });
+      await expect(
+        gateway.handleSendThreadReply(sendThreadReplyDto, mockSocket)
+      ).rejects.toBeInstanceOf(WsRateLimitException);
+      expect(messagesService.createMessage).not.toHaveBeenCalled();
     });
   });
 
-  describe('sendToUser', () => {
-    it('should send event to connected user', async () => {
-      await gateway.handleConnection(mockSocket);
+  describe('typing indicators', () => {
+    const typingDto = { roomId: 'room123' };
 
-      gateway.sendToUser('user123', 'testEvent', { data: 'test' });
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
 
-      expect(mockServer.to).toHaveBeenCalledWith('socket123');
-      expect(mockServer.emit).toHaveBeenCalledWith('testEvent', {
-        data: 'test',
+    afterEach(() => {
+      gateway.handleTypingStop(typingDto, mockSocket);
+      jest.useRealTimers();
+    });
+
+    it('should notify the room except the sender when typing starts', () => {
+      gateway.handleTypingStart(typingDto, mockSocket);
+
+      expect(mockSocket.to).toHaveBeenCalledWith('room:room123');
+      expect(mockSocket.emit).toHaveBeenCalledWith('userTyping', {
+        userId: 'user123',
+        username: 'Test User',
+        roomId: 'room123',
+        isTyping: true,
       });
+      expect(mockServer.emit).not.toHaveBeenCalled();
     });
 
-    it('should not send event if user not connected', () => {
-      gateway.sendToUser('user456', 'testEvent', { data: 'test' });
+    it('should debounce repeated typingStart events', () => {
+      gateway.handleTypingStart(typingDto, mockSocket);
+      gateway.handleTypingStart(typingDto, mockSocket);
+      gateway.handleTypingStart(typingDto, mockSocket);
 
-      expect(mockServer.to).not.toHaveBeenCalled();
+      expect(mockSocket.emit).toHaveBeenCalledTimes(1);
     });
-  });
 
-  describe('Guards', () => {
-    it('should use WsJwtGuard on joinRoom', () => {
-      const guards = Reflect.getMetadata(
-        '__guards__',
-        MessagesGateway.prototype.handleJoinRoom
+    it('should expire the indicator without a new typingStart', () => {
+      gateway.handleTypingStart(typingDto, mockSocket);
+      jest.advanceTimersByTime(3000);
+      gateway.handleTypingStart(typingDto, mockSocket);
+      jest.advanceTimersByTime(3000);
+
+      expect(mockSocket.emit).not.toHaveBeenCalledWith(
+        'userTyping',
+        expect.objectContaining({ isTyping: false })
       );
-      expect(guards).toContain(WsJwtGuard);
+
+      jest.advanceTimersByTime(2000);
+
+      expect(mockSocket.emit).toHaveBeenLastCalledWith('userTyping', {
+        userId: 'user123',
+        username: 'Test User',
+        roomId: 'room123',
+        isTyping: false,
+      });
     });
 
-    it('should use WsJwtGuard on leaveRoom', () => {
-      const guards = Reflect.getMetadata(
-        '__guards__',
-        MessagesGateway.prototype.handleLeaveRoom
+    it('should notify the room when typing stops', () => {
+      gateway.handleTypingStart(typingDto, mockSocket);
+      gateway.handleTypingStop(typingDto, mockSocket);
+
+      expect(mockSocket.emit).toHaveBeenLastCalledWith(
+        'userTyping',
+        expect.objectContaining({ isTyping: false })
       );
-      expect(guards).toContain(WsJwtGuard);
     });
 
-    it('should use WsJwtGuard on sendMessage', () => {
-      const guards = Reflect.getMetadata(
-        '__guards__',
-        MessagesGateway.prototype.handleSendMessage
+    it('should ignore typingStop when the user was not typing', () => {
+      gateway.handleTypingStop(typingDto, mockSocket);
+
+      expect(mockSocket.emit).not.toHaveBeenCalled();
+    });
+
+    it('should stop typing when the user sends a message', async () => {
+      jest
+        .spyOn(messagesService, 'createMessage')
+        .mockResolvedValue(mockMessage);
+      gateway.handleTypingStart(typingDto, mockSocket);
+
+      await gateway.handleSendMessage(
+        {
+          content: 'Test message',
+          roomId: 'room123',
+          messageType: MessageType.TEXT,
+        },
+        mockSocket
+      );
+
+      expect(mockSocket.emit).toHaveBeenLastCalledWith(
+        'userTyping',
+        expect.objectContaining({ isTyping: false })
       );
-      expect(guards).toContain(WsJwtGuard);
     });
 
-    it('should use WsJwtGuard on getOnlineUsers', () => {
-      const guards = Reflect.getMetadata(
-        '__guards__',
-        MessagesGateway.prototype.handleGetOnlineUsers
+    it('should stop typing when the socket disconnects', async () => {
+      gateway.handleTypingStart(typingDto, mockSocket);
+
+      await gateway.handleDisconnect(mockSocket);
+
+      expect(mockSocket.emit).toHaveBeenLastCalledWith(
+        'userTyping',
+        expect.objectContaining({ isTyping: false })
+      );
+    });
+
+    it('should reject typing in a room the socket has not joined', () => {
+      expect(() =>
+        gateway.handleTypingStart({ roomId: 'other-room' }, mockSocket)
+      ).toThrow(new WsException('Access denied to this room'));
+    });
+  });
+
+  describe('handleMarkRead', () => {
+    it('should mark the room as read and broadcast the receipt', async () => {
+      const receipt = {
+        roomId: 'room123',
+        userId: 'user123',
+        lastReadMessageId: 'message123',
+        lastReadAt: new Date(),
+      };
+      jest.spyOn(messagesService, 'markRoomAsRead').mockResolvedValue(receipt);
+
+      const result = await gateway.handleMarkRead(
+        { roomId: 'room123', messageId: 'message123' },
+        mockSocket
+      );
+
+      expect(messagesService.markRoomAsRead).toHaveBeenCalledWith(
+        'user123',
+        'room123',
+        'message123'
+      );
+      expect(mockServer.to).toHaveBeenCalledWith('room:room123');
+      expect(mockServer.emit).toHaveBeenCalledWith('messagesRead', receipt);
+      expect(result).toEqual({ status: 'read', roomId: 'room123' });
+    });
+
+    it('should handle mark read error', async () => {
+      jest
+        .spyOn(messagesService, 'markRoomAsRead')
+        .mockRejectedValue(new Error('You do not have access to this room'));
+
+      await expect(
+        gateway.handleMarkRead({ roomId: 'room123' }, mockSocket)
+      ).rejects.toThrow(new WsException('You do not have access to this room'));
+    });
+  });
+
+  describe('handleEditMessage', () => {
+    it('should edit message and broadcast it to the room', async () => {
+      const editedMessage = {
+        ...mockMessage,
+        content: 'Edited message',
+        isEdited: true,
+        editedAt: new Date(),
+      };
+      jest
+        .spyOn(messagesService, 'updateMessage')
+        .mockResolvedValue(editedMessage);
+
+      const result = await gateway.handleEditMessage(
+        { messageId: 'message123', content: 'Edited message' },
+        mockSocket
+      );
+
+      expect(messagesService.updateMessage).toHaveBeenCalledWith(
+        'user123',
+        'message123',
+        { content: 'Edited message' }
+      );
+      expect(mockServer.to).toHaveBeenCalledWith('room:room123');
+      expect(mockServer.emit).toHaveBeenCalledWith(
+        'messageUpdated',
+        editedMessage
+      );
+      expect(result).toEqual({ status: 'updated', messageId: 'message123' });
+    });
+
+    it('should handle edit error', async () => {
+      jest
+        .spyOn(messagesService, 'updateMessage')
+        .mockRejectedValue(new Error('You can only edit your own messages'));
+
+      await expect(
+        gateway.handleEditMessage(
+          { messageId: 'message123', content: 'Edited message' },
+          mockSocket
+        )
+      ).rejects.toThrow(new WsException('You can only edit your own messages'));
+      expect(mockServer.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleDeleteMessage', () => {
+    it('should delete message and notify the room without its content', async () => {
+      const deletedAt = new Date();
+      jest.spyOn(messagesService, 'deleteMessage').mockResolvedValue({
+        ...mockMessage,
+        parentMessageId: 'parent123',
+        isDeleted: true,
+        deletedAt,
+      });
+
+      const result = await gateway.handleDeleteMessage(
+        { messageId: 'message123' },
+        mockSocket
+      );
+
+      expect(messagesService.deleteMessage).toHaveBeenCalledWith(
+        'user123',
+        'message123'
+      );
+      expect(mockServer.to).toHaveBeenCalledWith('room:room123');
+      expect(mockServer.emit).toHaveBeenCalledWith('messageDeleted', {
+        messageId: 'message123',
+        roomId: 'room123',
+        parentMessageId: 'parent123',
+        deletedAt,
+      });
+      expect(result).toEqual({ status: 'deleted', messageId: 'message123' });
+    });
+
+    it('should handle delete error', async () => {
+      jest
+        .spyOn(messagesService, 'deleteMessage')
+        .mockRejectedValue(new Error('Message not found'));
+
+      await expect(
+        gateway.handleDeleteMessage({ messageId: 'message123' }, mockSocket)
+      ).rejects.toThrow(new WsException('Message not found'));
+    });
+  });
+
+  describe('handleAddReaction', () => {
+    it('should add reaction and broadcast the reactions to the room', async () => {
+      const reactions = [{ emoji: '👍', userIds: ['user123'] }];
+      jest
+        .spyOn(messagesService, 'addReaction')
+        .mockResolvedValue({ ...mockMessage, reactions });
+
+      const result = await gateway.handleAddReaction(
+        { messageId: 'message123', emoji: '👍' },
+        mockSocket
+      );
+
+      expect(messagesService.addReaction).toHaveBeenCalledWith(
+        'user123',
+        'message123',
+        '👍'
+      );
+      expect(mockServer.to).toHaveBeenCalledWith('room:room123');
+      expect(mockServer.emit).toHaveBeenCalledWith('messageReactionUpdated', {
+        messageId: 'message123',
+        roomId: 'room123',
+        reactions,
+      });
+      expect(result).toEqual({ status: 'updated', messageId: 'message123' });
+    });
+
+    it('should handle reaction error', async () => {
+      jest
+        .spyOn(messagesService, 'addReaction')
+        .mockRejectedValue(new Error('You do not have access to this room'));
+
+      await expect(
+        gateway.handleAddReaction(
+          { messageId: 'message123', emoji: '👍' },
+          mockSocket
+        )
+      ).rejects.toThrow(new WsException('You do not have access to this room'));
+      expect(mockServer.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleRemoveReaction', () => {
+    it('should remove reaction and broadcast the reactions to the room', async () => {
+      jest
+        .spyOn(messagesService, 'removeReaction')
+        .mockResolvedValue(mockMessage);
+
+      const result = await gateway.handleRemoveReaction(
+        { messageId: 'message123', emoji: '👍' },
+        mockSocket
+      );
+
+      expect(messagesService.removeReaction).toHaveBeenCalledWith(
+        'user123',
+        'message123',
+        '👍'
+      );
+      expect(mockServer.emit).toHaveBeenCalledWith('messageReactionUpdated', {
+        messageId: 'message123',
+        roomId: 'room123',
+        reactions: [],
+      });
+      expect(result).toEqual({ status: 'updated', messageId: 'message123' });
+    });
+  });
+
+  describe('handlePinMessage', () => {
+    it('should pin the message and broadcast the pin to the room', async () => {
+      const pin = {
+        messageId: 'message123',
+        pinnedBy: 'user123',
+        pinnedAt: new Date(),
+        message: mockMessage,
+        cursor: 'cursor',
+      };
+      jest.spyOn(messagesService, 'pinMessage').mockResolvedValue(pin);
+
+      const result = await gateway.handlePinMessage(
+        { messageId: 'message123' },
+        mockSocket
+      );
+
+      expect(messagesService.pinMessage).toHaveBeenCalledWith(
+        'user123',
+        'message123'
+      );
+      expect(mockServer.to).toHaveBeenCalledWith('room:room123');
+      expect(mockServer.emit).toHaveBeenCalledWith('messagePinned', {
+        roomId: 'room123',
+        ...pin,
+      });
+      expect(result).toEqual({ status: 'pinned', messageId: 'message123' });
+    });
+
+    it('should handle pin error', async () => {
+      jest
+        .spyOn(messagesService, 'pinMessage')
+        .mockRejectedValue(
+          new Error('Your role in this room does not allow this action')
+        );
+
+      await expect(
+        gateway.handlePinMessage({ messageId: 'message123' }, mockSocket)
+      ).rejects.toThrow(
+        new WsException('Your role in this room does not allow this action')
+      );
+      expect(mockServer.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleUnpinMessage', () => {
+    it('should unpin the message and notify the room', async () => {
+      jest
+        .spyOn(messagesService, 'unpinMessage')
+        .mockResolvedValue(mockMessage);
+
+      const result = await gateway.handleUnpinMessage(
+        { messageId: 'message123' },
+        mockSocket
+      );
+
+      expect(messagesService.unpinMessage).toHaveBeenCalledWith(
+        'user123',
+        'message123'
+      );
+      expect(mockServer.emit).toHaveBeenCalledWith('messageUnpinned', {
+        messageId: 'message123',
+        roomId: 'room123',
+      });
+      expect(result).toEqual({ status: 'unpinned', messageId: 'message123' });
+    });
+  });
+
+  describe('handleGetOnlineUsers', () => {
+    it('should return the presence of online users', async () => {
+      const mockOnlineUsers = [
+        mockOnlineUser,
+        {
+          ...mockOnlineUser,
+          userId: 'user456',
+          socketIds: ['socket456'],
+          status: UserStatus.BUSY,
+          customStatus: 'In a meeting',
+        },
+      ];
+      jest
+        .spyOn(messagesService, 'getOnlineUsers')
+        .mockResolvedValue(mockOnlineUsers);
+
+      const result = await gateway.handleGetOnlineUsers(mockSocket);
+
+      expect(messagesService.getOnlineUsers).toHaveBeenCalled();
+      expect(result).toEqual({
+        onlineUsers: [
+          { userId: 'user123', status: UserStatus.ONLINE },
+          {
+            userId: 'user456',
+            status: UserStatus.BUSY,
+            customStatus: 'In a meeting',
+          },
+        ],
+      });
+    });
+
+    it('should show idle users as away', async () => {
+      jest
+        .spyOn(messagesService, 'getOnlineUsers')
+        .mockResolvedValue([{ ...mockOnlineUser, isIdle: true }]);
+
+      const result = await gateway.handleGetOnlineUsers(mockSocket);
+
+      expect(result.onlineUsers[0].status).toBe(UserStatus.AWAY);
+    });
+
+    it('should only list invisible users to themselves', async () => {
+      jest.spyOn(messagesService, 'getOnlineUsers').mockResolvedValue([
+        { ...mockOnlineUser, status: UserStatus.INVISIBLE },
+        {
+          ...mockOnlineUser,
+          userId: 'user456',
+          socketIds: ['socket456'],
+          status: UserStatus.INVISIBLE,
+        },
+      ]);
+
+      const result = await gateway.handleGetOnlineUsers(mockSocket);
+
+      expect(result.onlineUsers).toEqual([
+        { userId: 'user123', status: UserStatus.INVISIBLE },
+      ]);
+    });
+
+    it('should handle empty online users list', async () => {
+      jest.spyOn(messagesService, 'getOnlineUsers').mockResolvedValue([]);
+
+      const result = await gateway.handleGetOnlineUsers(mockSocket);
+
+      expect(result).toEqual({ onlineUsers: [] });
+    });
+  });
+
+  describe('handleSetStatus', () => {
+    it('should save the status and broadcast the presence', async () => {
+      jest.spyOn(messagesService, 'updateUserStatus').mockResolvedValue({
+        ...mockOnlineUser,
+        status: UserStatus.BUSY,
+        customStatus: 'In a meeting',
+        statusEmoji: '📅',
+      });
+
+      const result = await gateway.handleSetStatus(
+        {
+          status: UserStatus.BUSY,
+          customStatus: 'In a meeting',
+          statusEmoji: '📅',
+        },
+        mockSocket
+      );
+
+      const presence = {
+        userId: 'user123',
+        status: UserStatus.BUSY,
+        customStatus: 'In a meeting',
+        statusEmoji: '📅',
+      };
+      expect(messagesService.updateUserStatus).toHaveBeenCalledWith(
+        'user123',
+        UserStatus.BUSY,
+        'In a meeting',
+        '📅'
+      );
+      expect(mockServer.emit).toHaveBeenCalledWith('presenceUpdated', presence);
+      expect(result).toEqual({ status: 'updated', presence });
+    });
+
+    it('should show invisible users as disconnected to the others', async () => {
+      jest.spyOn(messagesService, 'updateUserStatus').mockResolvedValue({
+        ...mockOnlineUser,
+        status: UserStatus.INVISIBLE,
+      });
+
+      await gateway.handleSetStatus(
+        { status: UserStatus.INVISIBLE },
+        mockSocket
+      );
+
+      expect(mockServer.except).toHaveBeenCalledWith('user:user123');
+      expect(mockServer.emit).toHaveBeenCalledWith('userDisconnected', {
+        userId: 'user123',
+      });
+      expect(mockServer.to).toHaveBeenCalledWith('user:user123');
+      expect(mockServer.emit).toHaveBeenCalledWith('presenceUpdated', {
+        userId: 'user123',
+        status: UserStatus.INVISIBLE,
+      });
+    });
+
+    it('should throw WsException when user is not online', async () => {
+      jest.spyOn(messagesService, 'updateUserStatus').mockResolvedValue(null);
+
+      await expect(
+        gateway.handleSetStatus({ status: UserStatus.AWAY }, mockSocket)
+      ).rejects.toThrow('User is not online');
+    });
+  });
+
+  describe('handleReportActivity', () => {
+    beforeEach(() => {
+      jest
+        .spyOn(configService, 'get')
+        .mockImplementation((key: string, defaultValue?: unknown) =>
+          key === 'PRESENCE_AWAY_AFTER_SECONDS' ? '300' : defaultValue
+        );
+    });
+
+    it('should show users idle for too long as away', async () => {
+      jest.spyOn(messagesService, 'setUserIdle').mockResolvedValue({
+        ...mockOnlineUser,
+        isIdle: true,
+      });
+
+      const result = await gateway.handleReportActivity(
+        { idleSeconds: 300 },
+        mockSocket
+      );
+
+      expect(messagesService.setUserIdle).toHaveBeenCalledWith('user123', true);
+      expect(mockServer.emit).toHaveBeenCalledWith('presenceUpdated', {
+        userId: 'user123',
+        status: UserStatus.AWAY,
+      });
+      expect(result).toEqual({ status: 'ok', isIdle: true });
+    });
+
+    it('should not broadcast when the idle state did not change', async () => {
+      jest.spyOn(messagesService, 'setUserIdle').mockResolvedValue(null);
+
+      const result = await gateway.handleReportActivity(
+        { idleSeconds: 10 },
+        mockSocket
+      );
+
+      expect(messagesService.setUserIdle).toHaveBeenCalledWith(
+        'user123',
+        false
+      );
+      expect(mockServer.emit).not.toHaveBeenCalled();
+      expect(result).toEqual({ status: 'ok', isIdle: false });
+    });
+
+    it('should not broadcast idleness of users with another status', async () => {
+      jest.spyOn(messagesService, 'setUserIdle').mockResolvedValue({
+        ...mockOnlineUser,
+        status: UserStatus.BUSY,
+        isIdle: true,
+      });
+
+      await gateway.handleReportActivity({ idleSeconds: 600 }, mockSocket);
+
+      expect(mockServer.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('broadcastNewMessage', () => {
+    it('should emit newMessage to the room with the sender info', () => {
+      gateway.broadcastNewMessage(mockMessage as any);
+
+      expect(mockServer.to).toHaveBeenCalledWith('room:room123');
+      expect(mockServer.emit).toHaveBeenCalledWith('newMessage', {
+        ...mockMessage,
+        senderInfo: { id: 'user123', username: 'Test User' },
+      });
+    });
+
+    it('should emit newThreadReply for thread replies', () => {
+      gateway.broadcastNewMessage({
+        ...mockMessage,
+        parentMessageId: 'parent123',
+      } as any);
+
+      expect(mockServer.emit).toHaveBeenCalledWith(
+        'newThreadReply',
+        expect.objectContaining({ parentMessageId: 'parent123' })
+      );
+    });
+  });
+
+  describe('broadcastRoomUpdated', () => {
+    it('should emit roomUpdated to the room with the updated room', () => {
+      gateway.broadcastRoomUpdated(mockRoom);
+
+      expect(mockServer.to).toHaveBeenCalledWith('room:room123');
+      expect(mockServer.emit).toHaveBeenCalledWith('roomUpdated', {
+        room: mockRoom,
+      });
+    });
+  });
+
+  describe('sendToUser', () => {
+    it('should send event to every device of the user', () => {
+      gateway.sendToUser('user123', 'testEvent', { data: 'test' });
+
+      expect(mockServer.to).toHaveBeenCalledWith('user:user123');
+      expect(mockServer.emit).toHaveBeenCalledWith('testEvent', {
+        data: 'test',
+      });
+    });
+  });
+
+  describe('disconnectUser', () => {
+    it('should close the connections of the user', () => {
+      gateway.disconnectUser('user123');
+
+      expect(mockServer.in).toHaveBeenCalledWith('user:user123');
+      expect(mockServer.disconnectSockets).toHaveBeenCalledWith(true);
+    });
+  });
+
+  describe('presence heartbeat', () => {
+    const runHeartbeat = async () => {
+      gateway.onModuleInit();
+      await new Promise((resolve) => setImmediate(resolve));
+    };
+
+    afterEach(() => {
+      gateway.onModuleDestroy();
+    });
+
+    it('should keep the presence of the connections of this instance', async () => {
+      await gateway.handleConnection(mockSocket);
+
+      await runHeartbeat();
+
+      expect(messagesService.refreshLastSeen).toHaveBeenCalledWith([
+        'socket123',
+      ]);
+    });
+
+    it('should release the connections of a stopped instance', async () => {
+      await connectionStore.add({
+        socketId: 'socket456',
+        userId: 'user456',
+        nodeId: 'stopped-node',
+      });
+      await connectionStore.heartbeat('stopped-node', -1);
+      jest.spyOn(messagesService, 'setUserOffline').mockResolvedValue({
+        ...mockOnlineUser,
+        userId: 'user456',
+        socketIds: [],
+      });
+
+      await runHeartbeat();
+
+      expect(messagesService.setUserOffline).toHaveBeenCalledWith('socket456');
+      expect(mockServer.emit).toHaveBeenCalledWith('userDisconnected', {
+        userId: 'user456',
+      });
+      await expect(connectionStore.reclaimExpired()).resolves.toEqual([]);
+    });
+
+    it('should survive a failing store', async () => {
+      jest
+        .spyOn(connectionStore, 'heartbeat')
+        .mockRejectedValue(new Error('Redis connection closed'));
+
+      await expect(runHeartbeat()).resolves.toBeUndefined();
+      expect(messagesService.refreshLastSeen).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('disconnectSession', () => {
+    it('should close the connections opened with the session', () => {
+      gateway.disconnectSession('session123');
+
+      expect(mockServer.in).toHaveBeenCalledWith('session:session123');
+      expect(mockServer.disconnectSockets).toHaveBeenCalledWith(true);
+    });
+  });
+
+  describe('room membership', () => {
+    let memberRooms: Set<string>;
+    let received: string[];
+    const memberSocket = {
+      ...mockSocket,
+      id: 'socket456',
+      userId: 'user456',
+    } as unknown as TestSocket;
+
+    beforeEach(() => {
+      memberRooms = new Set(['socket456', 'user:user456', 'room:room123']);
+      received = [];
+      Object.assign(memberSocket, { rooms: memberRooms });
+
+      // Delivers the events like socket.io, to the sockets of the room only
+      const reaches = (rooms: string | string[]) =>
+        [rooms].flat().some((room) => memberRooms.has(room));
+      gateway.server = {
+        in: (rooms: string | string[]) => ({
+          socketsJoin: (room: string) =>
+            reaches(rooms) && memberRooms.add(room),
+          socketsLeave: (room: string) =>
+            reaches(rooms) && memberRooms.delete(room),
+        }),
+        to: (rooms: string | string[]) => ({
+          emit: (event: string) => reaches(rooms) && received.push(event),
+        }),
+      } as unknown as Server;
+    });
+
+    const broadcastRoomEvents = () => {
+      gateway.broadcastNewMessage(mockMessage as any);
+      gateway.broadcastMessageUnpinned(mockMessage as any);
+    };
+
+    it('should stop sending the room events to a kicked member', () => {
+      broadcastRoomEvents();
+      expect(received).toEqual(['newMessage', 'messageUnpinned']);
+
+      gateway.removeUserFromRoom('user456', 'room123');
+      received = [];
+      broadcastRoomEvents();
+
+      expect(received).toEqual([]);
+      expect(() =>
+        gateway.handleTypingStart({ roomId: 'room123' }, memberSocket)
+      ).toThrow(WsException);
+    });
+
+    it('should stop sending the events of a deleted room', () => {
+      gateway.closeRoom('room123');
+      broadcastRoomEvents();
+
+      expect(received).toEqual([]);
+      expect(memberRooms.has('user:user456')).toBe(true);
+    });
+
+    it('should keep other members in the room', () => {
+      gateway.removeUserFromRoom('user789', 'room123');
+      broadcastRoomEvents();
+
+      expect(received).toEqual(['newMessage', 'messageUnpinned']);
+    });
+
+    it('should send the room events to an added member', () => {
+      memberRooms.delete('room:room123');
+
+      gateway.joinUserToRoom('user456', 'room123');
+      broadcastRoomEvents();
+
+      expect(received).toEqual(['newMessage', 'messageUnpinned']);
+    });
+
+    it('should subscribe the active members of a created room', () => {
+      memberRooms.delete('room:room123');
+
+      gateway.joinRoomMembers(mockRoom as any);
+
+      expect(memberRooms.has('room:room123')).toBe(true);
+    });
+
+    it('should not subscribe the members who left a created room', () => {
+      memberRooms.delete('room:room123');
+
+      gateway.joinRoomMembers({
+        ...mockRoom,
+        members: [
+          mockRoom.members[0],
+          { ...mockRoom.members[1], leftAt: new Date() },
+        ],
+      } as any);
+
+      expect(memberRooms.has('room:room123')).toBe(false);
+    });
+  });
+
+  describe('Guards', () => {
+    it('should use WsJwtGuard on joinRoom', () => {
+      const guards = Reflect.getMetadata(
+        '__guards__',
+        MessagesGateway.prototype.handleJoinRoom
+      );
+      expect(guards).toContain(WsJwtGuard);
+    });
+
+    it('should use WsJwtGuard on leaveRoom', () => {
+      const guards = Reflect.getMetadata(
+        '__guards__',
+        MessagesGateway.prototype.handleLeaveRoom
+      );
+      expect(guards).toContain(WsJwtGuard);
+    });
+
+    it('should use WsJwtGuard on sendMessage', () => {
+      const guards = Reflect.getMetadata(
+        '__guards__',
+        MessagesGateway.prototype.handleSendMessage
+      );
+      expect(guards).toContain(WsJwtGuard);
+    });
+
+    it('should use WsJwtGuard on getOnlineUsers', () => {
+      const guards = Reflect.getMetadata(
+        '__guards__',
+        MessagesGateway.prototype.handleGetOnlineUsers
+      );
+      expect(guards).toContain(WsJwtGuard);
+    });
+
+    it('should use WsJwtGuard on setStatus', () => {
+      const guards = Reflect.getMetadata(
+        '__guards__',
+        MessagesGateway.prototype.handleSetStatus
+      );
+      expect(guards).toContain(WsJwtGuard);
+    });
+
+    it('should use WsJwtGuard on reportActivity', () => {
+      const guards = Reflect.getMetadata(
+        '__guards__',
+        MessagesGateway.prototype.handleReportActivity
       );
       expect(guards).toContain(WsJwtGuard);
     });
@@ -8,26 +8,83 @@ import {
   ConnectedSocket,
   WsException,
 } from '@nestjs/websockets';
+import { randomUUID } from 'crypto';
 import { JwtService } from '@nestjs/jwt';
 import { Server, Socket } from 'socket.io';
 import { ConfigService } from '@nestjs/config';
-import { UseGuards, Injectable, Logger } from '@nestjs/common';
+import {
+  UseGuards,
+  Injectable,
+  Logger,
+  Inject,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
 
 import {
   WsJoinRoomDto,
   WsLeaveRoomDto,
   WsSendMessageDto,
+  WsSendThreadReplyDto,
+  WsTypingDto,
+  WsMarkReadDto,
+  MessagesReadResponseDto,
+  WsEditMessageDto,
+  WsDeleteMessageDto,
+  WsReactionDto,
+  WsPinMessageDto,
+  WsSetStatusDto,
+  WsReportActivityDto,
 } from '@backend/messages/dto/message.dto';
+import {
+  toUserPresence,
+  isPresenceVisibleTo,
+} from '@backend/messages/policies/presence.policy';
+import { Room } from '@backend/messages/schemas/room.schema';
+import { Message } from '@backend/messages/schemas/message.schema';
+import {
+  OnlineUser,
+  UserStatus,
+} from '@backend/messages/schemas/online-user.schema';
 import { UserEntity } from '@backend/app/users/user.entity';
 import { UsersService } from '@backend/app/users/users.service';
 import { WsJwtGuard } from '@backend/messages/guards/ws-jwt.guard';
-import { MessagesService } from '@backend/messages/messages.service';
+import { RoomPin, MessagesService } from '@backend/messages/messages.service';
+import { TokenDenylistService } from '@backend/auth/token-denylist.service';
+import { JwtPayloadInterface } from '@backend/auth/interfaces/jwt-payload.interface';
+import { RATE_LIMIT_STORE } from '@backend/app/rate-limit/constants/rate-limit.constants';
+import { WsRateLimitException } from '@backend/app/rate-limit/exceptions/ws-rate-limit.exception';
+import type {
+  RateLimitStore,
+  TokenBucketOptions,
+} from '@backend/app/rate-limit/interfaces/rate-limit-store.interface';
+import {
+  CONNECTION_STORE,
+  REALTIME_CONSTANTS,
+} from '@backend/app/realtime/constants/realtime.constants';
+import type { ConnectionStore } from '@backend/app/realtime/interfaces/connection-store.interface';
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
   user?: UserEntity;
 }
 
+/**
+ * Delay after which a typing indicator expires without a new typingStart
+ */
+const TYPING_EXPIRY_MS = 5000;
+
+/**
+ * Messages a user can send in a burst, then per second
+ */
+const MESSAGE_BURST = 10;
+const MESSAGES_PER_SECOND = 1;
+
+/**
+ * Inactivity after which a user who chose to be online is shown as away
+ */
+const AWAY_AFTER_SECONDS = 300;
+
 @Injectable()
 @WebSocketGateway({
   cors: {
@@ -37,25 +94,78 @@ interface AuthenticatedSocket extends Socket {
   namespace: '/chat',
 })
 export class MessagesGateway
-  implements OnGatewayConnection, OnGatewayDisconnect
+  implements
+    OnGatewayConnection,
+    OnGatewayDisconnect,
+    OnModuleInit,
+    OnModuleDestroy
 {
   @WebSocketServer()
   server!: Server;
 
   private readonly logger = new Logger(MessagesGateway.name);
-  private connectedUsers = new Map<string, string>();
+  // Identifies this instance among the instances sharing the connections
+  private readonly nodeId = randomUUID();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private typingTimers = new Map<string, NodeJS.Timeout>();
+  private tokenExpiryTimers = new Map<string, NodeJS.Timeout>();
+  private readonly messageBucket: TokenBucketOptions;
 
   constructor(
     private readonly messagesService: MessagesService,
     private readonly usersService: UsersService,
     private readonly jwtService: JwtService,
-    private readonly configService: ConfigService
-  ) {}
+    private readonly configService: ConfigService,
+    private readonly tokenDenylistService: TokenDenylistService,
+    @Inject(RATE_LIMIT_STORE) private readonly rateLimitStore: RateLimitStore,
+    @Inject(CONNECTION_STORE) private readonly connectionStore: ConnectionStore
+  ) {
+    this.messageBucket = {
+      capacity: Number(
+        configService.get('MESSAGE_RATE_LIMIT_BURST', MESSAGE_BURST)
+      ),
+      refillPerSecond: Number(
+        configService.get('MESSAGE_RATE_LIMIT_PER_SECOND', MESSAGES_PER_SECOND)
+      ),
+    };
+  }
+
+  /**
+   * Starts the heartbeat of this instance, sent right away so that its
+   * connections can be reclaimed if it crashes
+   *
+   * @returns {void}
+   */
+  onModuleInit() {
+    void this.heartbeat();
+    this.heartbeatTimer = setInterval(
+      () => void this.heartbeat(),
+      REALTIME_CONSTANTS.HEARTBEAT_INTERVAL
+    );
+    this.heartbeatTimer.unref();
+  }
+
+  /**
+   * Stops the heartbeat of this instance
+   *
+   * @returns {void}
+   */
+  onModuleDestroy() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    for (const timer of this.tokenExpiryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.tokenExpiryTimers.clear();
+  }
 
   /**
    * Handles new WebSocket connections with JWT authentication
    * Authenticates user, joins them to their rooms, and marks them as online
-   * 
+   *
    * @param {AuthenticatedSocket} client - The WebSocket client connection
    * @returns {Promise<void>} Promise that resolves when connection is handled
    */
@@ -69,33 +179,72 @@ export class MessagesGateway
         throw new WsException('No token provided');
       }
 
-      const payload = this.jwtService.verify(token, {
+      const payload = this.jwtService.verify<JwtPayloadInterface>(token, {
         secret: this.configService.get('JWT_SECRET'),
       });
 
+      if (
+        !payload.jti ||
+        (await this.tokenDenylistService.isRevoked(payload.jti, payload.sid))
+      ) {
+        throw new WsException('Token revoked');
+      }
+
       client.userId = payload.sub;
       const user = await this.usersService.findOne(payload.sub);
       client.user = user;
 
-      await this.messagesService.setUserOnline(payload.sub, client.id);
-      this.connectedUsers.set(client.id, payload.sub);
+      // Lets clients restore their status without showing up online first
+      const onlineUser = await this.messagesService.setUserOnline(
+        payload.sub,
+        client.id,
+        this.getRequestedStatus(client)
+      );
+      await this.connectionStore.add({
+        socketId: client.id,
+        userId: payload.sub,
+        nodeId: this.nodeId,
+      });
+
+      // Reaches every device of the user
+      client.join(`user:${payload.sub}`);
 
-      const userRooms = await this.messagesService.getUserRooms(payload.sub);
-      for (const room of userRooms) {
-        client.join(`room:${room.id}`);
+      const roomIds = await this.messagesService.getUserRoomIds(payload.sub);
+      for (const roomId of roomIds) {
+        client.join(`room:${roomId}`);
       }
 
-      this.server.emit('userConnected', {
-        userId: payload.sub,
-        username: `${user.firstName} ${user.lastName}`,
-      });
+      // Lets a revoked session have its sockets closed
+      if (payload.sid) {
+        client.join(`session:${payload.sid}`);
+      }
+
+      // The token is only checked again by the guards, failing every event
+      // once expired: closing the connection makes the client reconnect
+      // with a refreshed token
+      if (payload.exp) {
+        this.closeOnTokenExpiry(client, payload.exp);
+      }
+
+      // Other devices of the user are already announced
+      const presence = onlineUser && toUserPresence(onlineUser);
+      if (
+        onlineUser?.socketIds.length === 1 &&
+        presence?.status !== UserStatus.INVISIBLE
+      ) {
+        this.server.emit('userConnected', {
+          userId: payload.sub,
+          username: user.publicName,
+          status: presence?.status,
+        });
+      }
 
       this.logger.log(
         `User ${payload.sub} connected with socket ${client.id}`,
         {
           userId: payload.sub,
           socketId: client.id,
-          username: `${user.firstName} ${user.lastName}`,
+          username: user.publicName,
         }
       );
     } catch (error) {
@@ -114,32 +263,114 @@ export class MessagesGateway
   /**
    * Handles WebSocket disconnections and cleans up user session
    * Marks user as offline and notifies other connected users
-   * 
+   * once the last connection of the user is closed
+   *
    * @param {AuthenticatedSocket} client - The disconnecting WebSocket client
    * @returns {Promise<void>} Promise that resolves when disconnection is handled
    */
   async handleDisconnect(client: AuthenticatedSocket) {
-    const userId = this.connectedUsers.get(client.id);
+    clearTimeout(this.tokenExpiryTimers.get(client.id));
+    this.tokenExpiryTimers.delete(client.id);
 
-    if (userId) {
-      await this.messagesService.setUserOffline(client.id);
-      this.connectedUsers.delete(client.id);
+    for (const key of this.typingTimers.keys()) {
+      if (key.startsWith(`${client.id}:`)) {
+        this.stopTyping(client, key.slice(client.id.length + 1));
+      }
+    }
 
-      this.server.emit('userDisconnected', { userId });
+    // Only connections that completed the authentication are recorded
+    const connection = await this.connectionStore.remove(client.id);
 
-      this.logger.log(`User ${userId} disconnected`, {
-        userId,
+    if (connection) {
+      await this.releaseConnection(client.id, connection.userId);
+
+      this.logger.log(`User ${connection.userId} disconnected`, {
+        userId: connection.userId,
         socketId: client.id,
       });
     }
   }
 
+  /**
+   * Closes a connection once the access token it was opened with expires
+   *
+   * @private
+   * @param {AuthenticatedSocket} client - The authenticated connection
+   * @param {number} exp - The expiry of the token, in seconds since the epoch
+   * @returns {void}
+   */
+  private closeOnTokenExpiry(client: AuthenticatedSocket, exp: number) {
+    const timer = setTimeout(() => {
+      this.tokenExpiryTimers.delete(client.id);
+      client.disconnect(true);
+    }, Math.max(exp * 1000 - Date.now(), 0));
+    timer.unref();
+    this.tokenExpiryTimers.set(client.id, timer);
+  }
+
+  /**
+   * Removes a connection from the presence of its user, announcing the
+   * user as disconnected once their last connection is removed
+   *
+   * @private
+   * @param {string} socketId - The ID of the closed connection
+   * @param {string} userId - The ID of the user holding the connection
+   * @returns {Promise<void>}
+   */
+  private async releaseConnection(socketId: string, userId: string) {
+    const onlineUser = await this.messagesService.setUserOffline(socketId);
+
+    // A missing record means the user is no longer tracked at all
+    const isLastConnection = !onlineUser || onlineUser.socketIds.length === 0;
+    if (isLastConnection && onlineUser?.status !== UserStatus.INVISIBLE) {
+      this.server.emit('userDisconnected', { userId });
+    }
+  }
+
+  /**
+   * Marks this instance as alive, keeps the presence of its users from
+   * expiring, and releases the connections of the instances that stopped
+   * sending heartbeats
+   *
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async heartbeat() {
+    try {
+      await this.connectionStore.heartbeat(
+        this.nodeId,
+        REALTIME_CONSTANTS.NODE_TIMEOUT
+      );
+
+      const connections = await this.connectionStore.listByNode(this.nodeId);
+      await this.messagesService.refreshLastSeen(
+        connections.map((connection) => connection.socketId)
+      );
+
+      const orphans = await this.connectionStore.reclaimExpired();
+      for (const orphan of orphans) {
+        await this.releaseConnection(orphan.socketId, orphan.userId);
+      }
+
+      if (orphans.length) {
+        this.logger.warn(
+          `Released ${orphans.length} connections of stopped instances`
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        'Presence heartbeat failed',
+        error instanceof Error ? error.stack : undefined
+      );
+    }
+  }
+
   @UseGuards(WsJwtGuard)
   @SubscribeMessage('joinRoom')
   /**
    * Handles user joining a room via WebSocket
    * Validates room access and adds user to the room's socket group
-   * 
+   *
    * @param {WsJoinRoomDto} data - Room join data containing room ID
    * @param {AuthenticatedSocket} client - The authenticated WebSocket client
    * @returns {Promise<{status: string, roomId: string}>} Join status response
@@ -163,9 +394,7 @@ export class MessagesGateway
 
       client.to(`room:${data.roomId}`).emit('userJoinedRoom', {
         userId: client.userId,
-        username: client.user
-          ? `${client.user.firstName} ${client.user.lastName}`
-          : 'Unknown',
+        username: client.user?.publicName ?? 'Unknown',
         roomId: data.roomId,
       });
 
@@ -182,7 +411,7 @@ export class MessagesGateway
   /**
    * Handles user leaving a room via WebSocket
    * Removes user from the room's socket group and notifies other members
-   * 
+   *
    * @param {WsLeaveRoomDto} data - Room leave data containing room ID
    * @param {AuthenticatedSocket} client - The authenticated WebSocket client
    * @returns {{status: string, roomId: string}} Leave status response
@@ -191,6 +420,7 @@ export class MessagesGateway
     @MessageBody() data: WsLeaveRoomDto,
     @ConnectedSocket() client: AuthenticatedSocket
   ) {
+    this.stopTyping(client, data.roomId);
     client.leave(`room:${data.roomId}`);
 
     client.to(`room:${data.roomId}`).emit('userLeftRoom', {
@@ -205,12 +435,15 @@ export class MessagesGateway
   @SubscribeMessage('sendMessage')
   /**
    * Handles sending a message via WebSocket in real-time
-   * Creates the message and broadcasts it to all room members
-   * 
+   * Creates the message and broadcasts it to all room members.
+   * A message resent with a client message ID that was already received
+   * is acknowledged again without being stored or broadcast twice.
+   *
    * @param {WsSendMessageDto} data - Message data including content, room ID, and type
    * @param {AuthenticatedSocket} client - The authenticated WebSocket client
-   * @returns {Promise<{status: string, messageId: string}>} Send status with message ID
+   * @returns {Promise<{status: string, messageId: string, clientMessageId?: string}>} Send status with message ID
    * @throws {WsException} When user is not authenticated or message creation fails
+   * @throws {WsRateLimitException} When the user sends messages too fast
    */
   async handleSendMessage(
     @MessageBody() data: WsSendMessageDto,
@@ -220,57 +453,796 @@ export class MessagesGateway
       if (!client.userId) {
         throw new WsException('User not authenticated');
       }
+
+      const { clientMessageId } = data;
+      if (clientMessageId) {
+        const sentMessage = await this.messagesService.findSentMessage(
+          client.userId,
+          clientMessageId
+        );
+        if (sentMessage) {
+          return { status: 'sent', messageId: sentMessage.id, clientMessageId };
+        }
+      }
+
+      await this.consumeMessageToken(client.userId, 'sendMessage');
+
       const message = await this.messagesService.createMessage(client.userId, {
         content: data.content,
         roomId: data.roomId,
         messageType: data.messageType,
+        clientMessageId,
       });
 
+      this.stopTyping(client, data.roomId);
+
       this.server.to(`room:${data.roomId}`).emit('newMessage', {
         ...message,
         senderInfo: {
           id: client.userId,
-          username: client.user
-            ? `${client.user.firstName} ${client.user.lastName}`
-            : 'Unknown',
+          username: client.user?.publicName ?? 'Unknown',
         },
       });
 
-      return { status: 'sent', messageId: message.id };
+      return { status: 'sent', messageId: message.id, clientMessageId };
     } catch (error) {
+      if (error instanceof WsException) {
+        throw error;
+      }
       throw new WsException(
         error instanceof Error ? error.message : 'Failed to send message'
       );
     }
   }
 
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('sendThreadReply')
+  /**
+   * Handles replying to a message thread via WebSocket in real-time
+   * Creates the reply and broadcasts it to all room members
+   *
+   * @param {WsSendThreadReplyDto} data - Reply data including content, room ID and parent message ID
+   * @param {AuthenticatedSocket} client - The authenticated WebSocket client
+   * @returns {Promise<{status: string, messageId: string}>} Send status with reply ID
+   * @throws {WsException} When user is not authenticated or reply creation fails
+   * @throws {WsRateLimitException} When the user sends messages too fast
+   */
+  async handleSendThreadReply(
+    @MessageBody() data: WsSendThreadReplyDto,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!client.userId) {
+        throw new WsException('User not authenticated');
+      }
+      await this.consumeMessageToken(client.userId, 'sendThreadReply');
+
+      const reply = await this.messagesService.createMessage(client.userId, {
+        content: data.content,
+        roomId: data.roomId,
+        messageType: data.messageType,
+        parentMessageId: data.parentMessageId,
+      });
+
+      this.server.to(`room:${data.roomId}`).emit('newThreadReply', {
+        ...reply,
+        senderInfo: {
+          id: client.userId,
+          username: client.user?.publicName ?? 'Unknown',
+        },
+      });
+
+      return { status: 'sent', messageId: reply.id };
+    } catch (error) {
+      if (error instanceof WsException) {
+        throw error;
+      }
+      throw new WsException(
+        error instanceof Error ? error.message : 'Failed to send reply'
+      );
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('typingStart')
+  /**
+   * Handles a user starting to type in a room
+   * Notifies the other room members once, then only refreshes the expiry
+   * while typingStart keeps coming, so clients can send it on every keystroke
+   *
+   * @param {WsTypingDto} data - Typing data containing room ID
+   * @param {AuthenticatedSocket} client - The authenticated WebSocket client
+   * @returns {void}
+   * @throws {WsException} When the client has not joined the room
+   */
+  handleTypingStart(
+    @MessageBody() data: WsTypingDto,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    if (!client.rooms.has(`room:${data.roomId}`)) {
+      throw new WsException('Access denied to this room');
+    }
+
+    const key = `${client.id}:${data.roomId}`;
+    const existingTimer = this.typingTimers.get(key);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+    } else {
+      this.emitUserTyping(client, data.roomId, true);
+    }
+
+    this.typingTimers.set(
+      key,
+      setTimeout(() => this.stopTyping(client, data.roomId), TYPING_EXPIRY_MS)
+    );
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('typingStop')
+  /**
+   * Handles a user stopping to type in a room
+   *
+   * @param {WsTypingDto} data - Typing data containing room ID
+   * @param {AuthenticatedSocket} client - The authenticated WebSocket client
+   * @returns {void}
+   */
+  handleTypingStop(
+    @MessageBody() data: WsTypingDto,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    this.stopTyping(client, data.roomId);
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('markRead')
+  /**
+   * Handles a user reading a room via WebSocket
+   * Moves the read position and broadcasts it to all room members
+   *
+   * @param {WsMarkReadDto} data - Read data containing room ID and optional message ID
+   * @param {AuthenticatedSocket} client - The authenticated WebSocket client
+   * @returns {Promise<{status: string, roomId: string}>} Read status with room ID
+   * @throws {WsException} When user is not authenticated or not a member of the room
+   */
+  async handleMarkRead(
+    @MessageBody() data: WsMarkReadDto,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!client.userId) {
+        throw new WsException('User not authenticated');
+      }
+      const receipt = await this.messagesService.markRoomAsRead(
+        client.userId,
+        data.roomId,
+        data.messageId
+      );
+
+      this.broadcastMessagesRead(receipt);
+
+      return { status: 'read', roomId: data.roomId };
+    } catch (error) {
+      throw new WsException(
+        error instanceof Error ? error.message : 'Failed to mark room as read'
+      );
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('editMessage')
+  /**
+   * Handles editing a message via WebSocket in real-time
+   * Updates the message content and broadcasts it to all room members
+   *
+   * @param {WsEditMessageDto} data - Edit data containing message ID and new content
+   * @param {AuthenticatedSocket} client - The authenticated WebSocket client
+   * @returns {Promise<{status: string, messageId: string}>} Update status with message ID
+   * @throws {WsException} When user is not authenticated or the edit fails
+   */
+  async handleEditMessage(
+    @MessageBody() data: WsEditMessageDto,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!client.userId) {
+        throw new WsException('User not authenticated');
+      }
+      const message = await this.messagesService.updateMessage(
+        client.userId,
+        data.messageId,
+        { content: data.content }
+      );
+
+      this.broadcastMessageUpdated(message);
+
+      return { status: 'updated', messageId: data.messageId };
+    } catch (error) {
+      throw new WsException(
+        error instanceof Error ? error.message : 'Failed to edit message'
+      );
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('deleteMessage')
+  /**
+   * Handles deleting a message via WebSocket in real-time
+   * Soft deletes the message and notifies all room members
+   *
+   * @param {WsDeleteMessageDto} data - Delete data containing message ID
+   * @param {AuthenticatedSocket} client - The authenticated WebSocket client
+   * @returns {Promise<{status: string, messageId: string}>} Delete status with message ID
+   * @throws {WsException} When user is not authenticated or the deletion fails
+   */
+  async handleDeleteMessage(
+    @MessageBody() data: WsDeleteMessageDto,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!client.userId) {
+        throw new WsException('User not authenticated');
+      }
+      const message = await this.messagesService.deleteMessage(
+        client.userId,
+        data.messageId
+      );
+
+      this.broadcastMessageDeleted(message);
+
+      return { status: 'deleted', messageId: data.messageId };
+    } catch (error) {
+      throw new WsException(
+        error instanceof Error ? error.message : 'Failed to delete message'
+      );
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('addReaction')
+  /**
+   * Handles adding a reaction to a message via WebSocket
+   * Updates the reactions and broadcasts them to all room members
+   *
+   * @param {WsReactionDto} data - Reaction data containing message ID and emoji
+   * @param {AuthenticatedSocket} client - The authenticated WebSocket client
+   * @returns {Promise<{status: string, messageId: string}>} Update status with message ID
+   * @throws {WsException} When user is not authenticated or the reaction fails
+   */
+  async handleAddReaction(
+    @MessageBody() data: WsReactionDto,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!client.userId) {
+        throw new WsException('User not authenticated');
+      }
+      const message = await this.messagesService.addReaction(
+        client.userId,
+        data.messageId,
+        data.emoji
+      );
+
+      this.broadcastReactionUpdate(message);
+
+      return { status: 'updated', messageId: data.messageId };
+    } catch (error) {
+      throw new WsException(
+        error instanceof Error ? error.message : 'Failed to add reaction'
+      );
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('removeReaction')
+  /**
+   * Handles removing a reaction from a message via WebSocket
+   * Updates the reactions and broadcasts them to all room members
+   *
+   * @param {WsReactionDto} data - Reaction data containing message ID and emoji
+   * @param {AuthenticatedSocket} client - The authenticated WebSocket client
+   * @returns {Promise<{status: string, messageId: string}>} Update status with message ID
+   * @throws {WsException} When user is not authenticated or the removal fails
+   */
+  async handleRemoveReaction(
+    @MessageBody() data: WsReactionDto,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!client.userId) {
+        throw new WsException('User not authenticated');
+      }
+      const message = await this.messagesService.removeReaction(
+        client.userId,
+        data.messageId,
+        data.emoji
+      );
+
+      this.broadcastReactionUpdate(message);
+
+      return { status: 'updated', messageId: data.messageId };
+    } catch (error) {
+      throw new WsException(
+        error instanceof Error ? error.message : 'Failed to remove reaction'
+      );
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('pinMessage')
+  /**
+   * Handles pinning a message to its room via WebSocket
+   * Broadcasts the new pin to all room members
+   *
+   * @param {WsPinMessageDto} data - Pin data containing the message ID
+   * @param {AuthenticatedSocket} client - The authenticated WebSocket client
+   * @returns {Promise<{status: string, messageId: string}>} Pin status with message ID
+   * @throws {WsException} When user is not authenticated or the pin fails
+   */
+  async handlePinMessage(
+    @MessageBody() data: WsPinMessageDto,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!client.userId) {
+        throw new WsException('User not authenticated');
+      }
+      const pin = await this.messagesService.pinMessage(
+        client.userId,
+        data.messageId
+      );
+
+      this.broadcastMessagePinned(pin);
+
+      return { status: 'pinned', messageId: data.messageId };
+    } catch (error) {
+      throw new WsException(
+        error instanceof Error ? error.message : 'Failed to pin message'
+      );
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('unpinMessage')
+  /**
+   * Handles unpinning a message from its room via WebSocket
+   * Notifies all room members that the pin was removed
+   *
+   * @param {WsPinMessageDto} data - Pin data containing the message ID
+   * @param {AuthenticatedSocket} client - The authenticated WebSocket client
+   * @returns {Promise<{status: string, messageId: string}>} Unpin status with message ID
+   * @throws {WsException} When user is not authenticated or the unpin fails
+   */
+  async handleUnpinMessage(
+    @MessageBody() data: WsPinMessageDto,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!client.userId) {
+        throw new WsException('User not authenticated');
+      }
+      const message = await this.messagesService.unpinMessage(
+        client.userId,
+        data.messageId
+      );
+
+      this.broadcastMessageUnpinned(message);
+
+      return { status: 'unpinned', messageId: data.messageId };
+    } catch (error) {
+      throw new WsException(
+        error instanceof Error ? error.message : 'Failed to unpin message'
+      );
+    }
+  }
+
   @UseGuards(WsJwtGuard)
   @SubscribeMessage('getOnlineUsers')
   /**
    * Handles request for list of online users via WebSocket
-   * 
-   * @returns {Promise<{onlineUsers: OnlineUser[]}>} List of currently online users
+   * Invisible users are only listed to themselves
+   *
+   * @param {AuthenticatedSocket} client - The authenticated WebSocket client
+   * @returns {Promise<{onlineUsers: UserPresence[]}>} Presence of the currently online users
    */
-  async handleGetOnlineUsers() {
+  async handleGetOnlineUsers(@ConnectedSocket() client: AuthenticatedSocket) {
     const onlineUsers = await this.messagesService.getOnlineUsers();
-    return { onlineUsers };
+
+    return {
+      onlineUsers: onlineUsers
+        .filter((onlineUser) =>
+          isPresenceVisibleTo(onlineUser, client.userId ?? '')
+        )
+        .map(toUserPresence),
+    };
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('setStatus')
+  /**
+   * Handles a presence status change via WebSocket
+   * Going invisible is shown to the other users as a disconnection
+   *
+   * @param {WsSetStatusDto} data - Status data with optional custom text and emoji
+   * @param {AuthenticatedSocket} client - The authenticated WebSocket client
+   * @returns {Promise<{status: string, presence: UserPresence}>} Update status with the new presence
+   * @throws {WsException} When user is not authenticated or not online
+   */
+  async handleSetStatus(
+    @MessageBody() data: WsSetStatusDto,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!client.userId) {
+        throw new WsException('User not authenticated');
+      }
+
+      const onlineUser = await this.messagesService.updateUserStatus(
+        client.userId,
+        data.status,
+        data.customStatus,
+        data.statusEmoji
+      );
+      if (!onlineUser) {
+        throw new WsException('User is not online');
+      }
+
+      this.broadcastPresence(onlineUser);
+
+      return { status: 'updated', presence: toUserPresence(onlineUser) };
+    } catch (error) {
+      throw new WsException(
+        error instanceof Error ? error.message : 'Failed to set status'
+      );
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('reportActivity')
+  /**
+   * Handles the periodic activity report of a client via WebSocket
+   * Users idle for longer than the away delay are shown as away
+   * until they report activity again
+   *
+   * @param {WsReportActivityDto} data - Seconds since the last user interaction
+   * @param {AuthenticatedSocket} client - The authenticated WebSocket client
+   * @returns {Promise<{status: string, isIdle: boolean}>} Whether the user is now idle
+   * @throws {WsException} When user is not authenticated
+   */
+  async handleReportActivity(
+    @MessageBody() data: WsReportActivityDto,
+    @ConnectedSocket() client: AuthenticatedSocket
+  ) {
+    try {
+      if (!client.userId) {
+        throw new WsException('User not authenticated');
+      }
+
+      const awayAfterSeconds = Number(
+        this.configService.get(
+          'PRESENCE_AWAY_AFTER_SECONDS',
+          AWAY_AFTER_SECONDS
+        )
+      );
+      const isIdle = data.idleSeconds >= awayAfterSeconds;
+
+      // Only a change of idle state is returned, and only shows for ONLINE
+      const onlineUser = await this.messagesService.setUserIdle(
+        client.userId,
+        isIdle
+      );
+      if (onlineUser?.status === UserStatus.ONLINE) {
+        this.broadcastPresence(onlineUser);
+      }
+
+      return { status: 'ok', isIdle };
+    } catch (error) {
+      throw new WsException(
+        error instanceof Error ? error.message : 'Failed to report activity'
+      );
+    }
+  }
+
+  /**
+   * Takes a token from the message bucket of a user, shared by all their
+   * sockets, a store that cannot be reached letting the message through
+   *
+   * @private
+   * @param {string} userId - The ID of the sender
+   * @param {string} event - The event being handled
+   * @returns {Promise<void>}
+   * @throws {WsRateLimitException} When the bucket is empty
+   */
+  private async consumeMessageToken(userId: string, event: string) {
+    let result;
+    try {
+      result = await this.rateLimitStore.consume(
+        `ws:messages:${userId}`,
+        this.messageBucket
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Message rate limit not checked: ${(error as Error).message}`
+      );
+      return;
+    }
+
+    if (!result.allowed) {
+      throw new WsRateLimitException(event, result.retryAfterMs);
+    }
   }
 
   /**
-   * Sends a targeted message to a specific user via their WebSocket connection
-   * 
+   * Reads the status a client asked to connect with,
+   * falling back to ONLINE when missing or unknown
+   *
+   * @private
+   * @param {AuthenticatedSocket} client - The connecting WebSocket client
+   * @returns {UserStatus} The initial status of the user
+   */
+  private getRequestedStatus(client: AuthenticatedSocket): UserStatus {
+    const status = client.handshake.auth?.status;
+
+    return Object.values(UserStatus).includes(status)
+      ? status
+      : UserStatus.ONLINE;
+  }
+
+  /**
+   * Sends the presence of a user to everyone, or only to the devices
+   * of the user when invisible, the others being told the user disconnected
+   *
+   * @private
+   * @param {OnlineUser} onlineUser - The updated presence record
+   * @returns {void}
+   */
+  private broadcastPresence(onlineUser: OnlineUser) {
+    const presence = toUserPresence(onlineUser);
+    const userRoom = `user:${presence.userId}`;
+
+    if (presence.status === UserStatus.INVISIBLE) {
+      this.server
+        .except(userRoom)
+        .emit('userDisconnected', { userId: presence.userId });
+      this.server.to(userRoom).emit('presenceUpdated', presence);
+      return;
+    }
+
+    this.server.emit('presenceUpdated', presence);
+  }
+
+  /**
+   * Clears the typing indicator of a socket in a room
+   * Notifies the other room members only if the socket was typing
+   *
+   * @private
+   * @param {AuthenticatedSocket} client - The WebSocket client that stopped typing
+   * @param {string} roomId - The ID of the room
+   * @returns {void}
+   */
+  private stopTyping(client: AuthenticatedSocket, roomId: string) {
+    const key = `${client.id}:${roomId}`;
+    const timer = this.typingTimers.get(key);
+    if (!timer) {
+      return;
+    }
+
+    clearTimeout(timer);
+    this.typingTimers.delete(key);
+    this.emitUserTyping(client, roomId, false);
+  }
+
+  /**
+   * Sends the typing state of a user to the room, excluding the sender
+   *
+   * @private
+   * @param {AuthenticatedSocket} client - The WebSocket client typing
+   * @param {string} roomId - The ID of the room
+   * @param {boolean} isTyping - Whether the user is typing
+   * @returns {void}
+   */
+  private emitUserTyping(
+    client: AuthenticatedSocket,
+    roomId: string,
+    isTyping: boolean
+  ) {
+    client.to(`room:${roomId}`).emit('userTyping', {
+      userId: client.userId,
+      username: client.user?.publicName ?? 'Unknown',
+      roomId,
+      isTyping,
+    });
+  }
+
+  /**
+   * Broadcasts a message created through the REST endpoints to its room members
+   * Thread replies are sent as newThreadReply, like the WebSocket handlers do
+   *
+   * @param {Message} message - The created message
+   * @returns {void}
+   */
+  broadcastNewMessage(message: Message) {
+    const event = message.parentMessageId ? 'newThreadReply' : 'newMessage';
+
+    this.server.to(`room:${message.roomId}`).emit(event, {
+      ...message,
+      senderInfo: {
+        id: message.senderId,
+        username: message.senderUsername ?? 'Unknown',
+      },
+    });
+  }
+
+  /**
+   * Broadcasts the read position of a member to the room
+   * Also reaches the member's other connections so they can clear their badges
+   *
+   * @param {MessagesReadResponseDto} receipt - The member's read position
+   * @returns {void}
+   */
+  broadcastMessagesRead(receipt: MessagesReadResponseDto) {
+    this.server.to(`room:${receipt.roomId}`).emit('messagesRead', receipt);
+  }
+
+  /**
+   * Broadcasts an edited message to its room members
+   * Shared by the WebSocket handlers and the REST endpoints
+   *
+   * @param {Message} message - The message with its updated content
+   * @returns {void}
+   */
+  broadcastMessageUpdated(message: Message) {
+    this.server.to(`room:${message.roomId}`).emit('messageUpdated', message);
+  }
+
+  /**
+   * Notifies room members that a message was deleted
+   * Only identifiers are sent so the deleted content never leaves the server
+   *
+   * @param {Message} message - The soft-deleted message
+   * @returns {void}
+   */
+  broadcastMessageDeleted(message: Message) {
+    this.server.to(`room:${message.roomId}`).emit('messageDeleted', {
+      messageId: message.id,
+      roomId: message.roomId,
+      parentMessageId: message.parentMessageId,
+      deletedAt: message.deletedAt,
+    });
+  }
+
+  /**
+   * Broadcasts the current reactions of a message to its room members
+   * Shared by the WebSocket handlers and the REST endpoints
+   *
+   * @param {Message} message - The message with its updated reactions
+   * @returns {void}
+   */
+  broadcastReactionUpdate(message: Message) {
+    this.server.to(`room:${message.roomId}`).emit('messageReactionUpdated', {
+      messageId: message.id,
+      roomId: message.roomId,
+      reactions: message.reactions,
+    });
+  }
+
+  /**
+   * Broadcasts a message pinned to its room to the room members
+   * Shared by the WebSocket handlers and the REST endpoints
+   *
+   * @param {RoomPin} pin - The pin with the pinned message
+   * @returns {void}
+   */
+  broadcastMessagePinned(pin: RoomPin) {
+    this.server.to(`room:${pin.message.roomId}`).emit('messagePinned', {
+      roomId: pin.message.roomId,
+      ...pin,
+    });
+  }
+
+  /**
+   * Notifies room members that a message was unpinned
+   * Shared by the WebSocket handlers and the REST endpoints
+   *
+   * @param {Message} message - The unpinned message
+   * @returns {void}
+   */
+  broadcastMessageUnpinned(message: Message) {
+    this.server.to(`room:${message.roomId}`).emit('messageUnpinned', {
+      messageId: message.id,
+      roomId: message.roomId,
+    });
+  }
+
+  /**
+   * Notifies room members that the roles of its members changed
+   * Shared by the REST endpoints
+   *
+   * @param {Room} room - The updated room
+   * @returns {void}
+   */
+  broadcastRoomUpdated(room: Room) {
+    this.server.to(`room:${room.id}`).emit('roomUpdated', { room });
+  }
+
+  /**
+   * Subscribes every WebSocket connection of a user to a room they were
+   * added to, so that they receive its events without reconnecting
+   *
+   * @param {string} userId - The ID of the new member
+   * @param {string} roomId - The ID of the room
+   * @returns {void}
+   */
+  joinUserToRoom(userId: string, roomId: string) {
+    this.server.in(`user:${userId}`).socketsJoin(`room:${roomId}`);
+  }
+
+  /**
+   * Subscribes the WebSocket connections of the active members of a room
+   * just created
+   *
+   * @param {Room} room - The created room
+   * @returns {void}
+   */
+  joinRoomMembers(room: Room) {
+    const memberRooms = room.members
+      .filter((member) => !member.leftAt)
+      .map((member) => `user:${member.userId}`);
+    this.server.in(memberRooms).socketsJoin(`room:${room.id}`);
+  }
+
+  /**
+   * Unsubscribes every WebSocket connection of a user from a room they
+   * left or were kicked out of, so that they stop receiving its events
+   *
+   * @param {string} userId - The ID of the former member
+   * @param {string} roomId - The ID of the room
+   * @returns {void}
+   */
+  removeUserFromRoom(userId: string, roomId: string) {
+    this.server.in(`user:${userId}`).socketsLeave(`room:${roomId}`);
+  }
+
+  /**
+   * Unsubscribes every WebSocket connection from a deleted room
+   *
+   * @param {string} roomId - The ID of the deleted room
+   * @returns {void}
+   */
+  closeRoom(roomId: string) {
+    this.server.in(`room:${roomId}`).socketsLeave(`room:${roomId}`);
+  }
+
+  /**
+   * Sends a targeted message to every WebSocket connection of a user
+   *
    * @param {string} userId - The ID of the user to send the message to
    * @param {string} event - The event name to emit
    * @param {unknown} data - The data to send with the event
    * @returns {void}
    */
   sendToUser(userId: string, event: string, data: unknown) {
-    const socketId = Array.from(this.connectedUsers.entries()).find(
-      ([, id]) => id === userId
-    )?.[0];
+    this.server.to(`user:${userId}`).emit(event, data);
+  }
 
-    if (socketId) {
-      this.server.to(socketId).emit(event, data);
-    }
+  /**
+   * Closes every WebSocket connection of a user, used on logout
+   * The connections are cleaned up by handleDisconnect
+   *
+   * @param {string} userId - The ID of the user to disconnect
+   * @returns {void}
+   */
+  disconnectUser(userId: string) {
+    this.server.in(`user:${userId}`).disconnectSockets(true);
+  }
+
+  /**
+   * Closes the WebSocket connections opened with the tokens of a session,
+   * used when the session is revoked
+   *
+   * @param {string} sessionId - The ID of the session
+   * @returns {void}
+   */
+  disconnectSession(sessionId: string) {
+    this.server.in(`session:${sessionId}`).disconnectSockets(true);
   }
 }
@@ -12,6 +12,10 @@ import {
   OnlineUserSchema,
 } from '@backend/messages/schemas/online-user.schema';
 import { UsersModule } from '@backend/app/users/users.module';
+import { TokenDenylistModule } from '@backend/auth/token-denylist.module';
+import { StorageModule } from '@backend/app/storage/storage.module';
+import { RateLimitModule } from '@backend/app/rate-limit/rate-limit.module';
+import { RealtimeModule } from '@backend/app/realtime/realtime.module';
 import { MessagesService } from '@backend/messages/messages.service';
 import { MessagesGateway } from '@backend/messages/messages.gateway';
 import { Room, RoomSchema } from '@backend/messages/schemas/room.schema';
@@ -33,9 +37,13 @@ import { MessagesController } from '@backend/messages/messages.controller';
       inject: [ConfigService],
     }),
     forwardRef(() => UsersModule),
+    StorageModule,
+    TokenDenylistModule,
+    RateLimitModule,
+    RealtimeModule,
   ],
   controllers: [MessagesController],
   providers: [MessagesService, MessagesGateway],
-  exports: [MessagesService],
+  exports: [MessagesService, MessagesGateway],
 })
 export class MessagesModule {}
@@ -11,20 +11,31 @@ import {
   CreateMessageDto,
   UpdateMessageDto,
   GetMessagesDto,
+  CreateGroupRoomDto,
   CreateDirectRoomDto,
 } from '@backend/messages/dto/message.dto';
 import { UsersService } from '@backend/users/users.service';
-import { MessagesService } from '@backend/messages/messages.service';
+import {
+  MessagesService,
+  DELETED_SENDER_ID,
+} from '@backend/messages/messages.service';
 import { Message, MessageType } from '@backend/messages/schemas/message.schema';
 import {
   Room,
   RoomType,
   MemberRole,
+  PinnedMessage,
 } from '@backend/messages/schemas/room.schema';
 import {
   OnlineUser,
   UserStatus,
 } from '@backend/messages/schemas/online-user.schema';
+import {
+  decodeMessageCursor,
+  encodeMessageCursor,
+} from '@backend/messages/pagination/message-cursor';
+import { STORAGE_DRIVER } from '@backend/app/storage/constants/storage.constants';
+import { StorageDriver } from '@backend/app/storage/interfaces/storage-driver.interface';
 
 describe('MessagesService', () => {
   let service: MessagesService;
@@ -32,15 +43,26 @@ describe('MessagesService', () => {
   let messageModel: Model<Message>;
   let onlineUserModel: Model<OnlineUser>;
   let usersService: UsersService;
+  let storage: StorageDriver;
 
   const mockUser = {
     id: 'user123',
     firstName: 'John',
     lastName: 'Doe',
+    displayName: null,
+    avatarUrl: null,
+    bio: null,
+    timezone: null,
+    locale: null,
     email: 'john@example.com',
     password: 'hashedPassword',
     isActive: true,
     isAdmin: false,
+    emailVerifiedAt: new Date(),
+    mfaSecret: null,
+    mfaEnabledAt: null,
+    mfaRecoveryCodes: [],
+    oidcSubject: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     async validatePassword(password: string): Promise<boolean> {
@@ -49,16 +71,29 @@ describe('MessagesService', () => {
     get fullName(): string {
       return `${this.firstName} ${this.lastName}`;
     },
+    get publicName(): string {
+      return this.fullName;
+    },
   };
 
   const mockTargetUser = {
     id: 'user456',
     firstName: 'Jane',
     lastName: 'Smith',
+    displayName: null,
+    avatarUrl: null,
+    bio: null,
+    timezone: null,
+    locale: null,
     email: 'jane@example.com',
     password: 'hashedPassword',
     isActive: true,
     isAdmin: false,
+    emailVerifiedAt: new Date(),
+    mfaSecret: null,
+    mfaEnabledAt: null,
+    mfaRecoveryCodes: [],
+    oidcSubject: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     async validatePassword(password: string): Promise<boolean> {
@@ -67,6 +102,9 @@ describe('MessagesService', () => {
     get fullName(): string {
       return `${this.firstName} ${this.lastName}`;
     },
+    get publicName(): string {
+      return this.fullName;
+    },
   };
 
   const mockRoom = {
@@ -87,6 +125,7 @@ describe('MessagesService', () => {
         joinedAt: new Date(),
       },
     ],
+    pinnedMessages: [],
     isActive: true,
     lastActivity: new Date(),
     toJSON: jest.fn().mockReturnThis(),
@@ -110,7 +149,7 @@ describe('MessagesService', () => {
   const mockOnlineUser = {
     _id: 'online123',
     userId: 'user123',
-    socketId: 'socket123',
+    socketIds: ['socket123'],
     status: UserStatus.ONLINE,
     lastSeen: new Date(),
   };
@@ -154,8 +193,15 @@ describe('MessagesService', () => {
             })),
             {
               find: jest.fn(),
+              findOne: jest.fn(),
               findById: jest.fn(),
+              findByIdAndUpdate: jest.fn(),
+              findOneAndUpdate: jest.fn(),
+              updateOne: jest.fn(),
+              countDocuments: jest.fn(),
+              aggregate: jest.fn(),
               create: jest.fn(),
+              updateMany: jest.fn(),
               deleteMany: jest.fn(),
               exec: jest.fn(),
               lean: jest.fn(),
@@ -171,7 +217,9 @@ describe('MessagesService', () => {
             find: jest.fn(),
             findOne: jest.fn(),
             findOneAndUpdate: jest.fn(),
+            updateMany: jest.fn(),
             deleteOne: jest.fn(),
+            deleteMany: jest.fn(),
             exec: jest.fn(),
             lean: jest.fn(),
           },
@@ -182,6 +230,14 @@ describe('MessagesService', () => {
             findOne: jest.fn(),
           },
         },
+        {
+          provide: STORAGE_DRIVER,
+          useValue: {
+            put: jest.fn().mockResolvedValue(undefined),
+            get: jest.fn(),
+            delete: jest.fn().mockResolvedValue(undefined),
+          },
+        },
       ],
     }).compile();
 
@@ -192,6 +248,7 @@ describe('MessagesService', () => {
       getModelToken(OnlineUser.name)
     );
     usersService = module.get<UsersService>(UsersService);
+    storage = module.get<StorageDriver>(STORAGE_DRIVER);
 
     // Setup default mocks
     jest.spyOn(usersService, 'findOne').mockResolvedValue(mockUser);
@@ -237,6 +294,23 @@ describe('MessagesService', () => {
         expect(result).toEqual(mockMessage);
       });
 
+      it('should denormalize the sender display name and avatar', async () => {
+        jest.spyOn(usersService, 'findOne').mockResolvedValue({
+          ...mockUser,
+          publicName: 'Johnny',
+          avatarUrl: '/users/user123/avatar?v=abc',
+        });
+
+        await service.createMessage('user123', createMessageDto);
+
+        expect(messageModel).toHaveBeenCalledWith(
+          expect.objectContaining({
+            senderUsername: 'Johnny',
+            senderAvatar: '/users/user123/avatar?v=abc',
+          })
+        );
+      });
+
       it('should throw NotFoundException if room not found', async () => {
         jest
           .spyOn(service, 'getRoomById' as keyof MessagesService)
@@ -256,12 +330,192 @@ describe('MessagesService', () => {
           service.createMessage('user123', createMessageDto)
         ).rejects.toThrow(ForbiddenException);
       });
+
+      it('should create a thread reply and update the parent summary', async () => {
+        (messageModel.findById as jest.Mock).mockResolvedValue({
+          ...mockMessage,
+          id: 'parent123',
+        });
+
+        await service.createMessage('user123', {
+          ...createMessageDto,
+          parentMessageId: 'parent123',
+        });
+
+        expect(messageModel.findById).toHaveBeenCalledWith('parent123');
+        expect(messageModel.findByIdAndUpdate).toHaveBeenCalledWith(
+          'parent123',
+          {
+            $inc: { threadReplyCount: 1 },
+            threadLastReplyAt: mockMessage.timestamp,
+          }
+        );
+      });
+
+      it('should throw BadRequestException when replying to a reply', async () => {
+        (messageModel.findById as jest.Mock).mockResolvedValue({
+          ...mockMessage,
+          parentMessageId: 'root123',
+        });
+
+        await expect(
+          service.createMessage('user123', {
+            ...createMessageDto,
+            parentMessageId: 'parent123',
+          })
+        ).rejects.toThrow(BadRequestException);
+        expect(messageModel.findByIdAndUpdate).not.toHaveBeenCalled();
+      });
+
+      it('should throw BadRequestException if parent is in another room', async () => {
+        (messageModel.findById as jest.Mock).mockResolvedValue({
+          ...mockMessage,
+          roomId: 'otherRoom',
+        });
+
+        await expect(
+          service.createMessage('user123', {
+            ...createMessageDto,
+            parentMessageId: 'parent123',
+          })
+        ).rejects.toThrow(BadRequestException);
+      });
+
+      it('should throw BadRequestException for an image without attachment', async () => {
+        await expect(
+          service.createMessage('user123', {
+            ...createMessageDto,
+            messageType: MessageType.IMAGE,
+          })
+        ).rejects.toThrow(BadRequestException);
+        expect(messageModel).not.toHaveBeenCalled();
+      });
+
+      it('should return the stored message when a client message ID is resent', async () => {
+        const duplicateKeyError = Object.assign(new Error('E11000'), {
+          code: 11000,
+        });
+        (messageModel as unknown as jest.Mock).mockImplementationOnce(() => ({
+          save: jest.fn().mockRejectedValue(duplicateKeyError),
+        }));
+        (messageModel.findOne as jest.Mock).mockResolvedValue(mockMessage);
+
+        const result = await service.createMessage('user123', {
+          ...createMessageDto,
+          clientMessageId: 'client-1',
+        });
+
+        expect(messageModel.findOne).toHaveBeenCalledWith({
+          senderId: 'user123',
+          clientMessageId: 'client-1',
+        });
+        expect(result).toEqual(mockMessage);
+        expect(roomModel.findByIdAndUpdate).not.toHaveBeenCalled();
+      });
+
+      it('should rethrow other save errors', async () => {
+        (messageModel as unknown as jest.Mock).mockImplementationOnce(() => ({
+          save: jest.fn().mockRejectedValue(new Error('Connection lost')),
+        }));
+
+        await expect(
+          service.createMessage('user123', {
+            ...createMessageDto,
+            clientMessageId: 'client-1',
+          })
+        ).rejects.toThrow('Connection lost');
+        expect(messageModel.findOne).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('findSentMessage', () => {
+      it('should find the message sent with a client message ID', async () => {
+        (messageModel.findOne as jest.Mock).mockResolvedValue(mockMessage);
+
+        const result = await service.findSentMessage('user123', 'client-1');
+
+        expect(messageModel.findOne).toHaveBeenCalledWith({
+          senderId: 'user123',
+          clientMessageId: 'client-1',
+        });
+        expect(result).toEqual(mockMessage);
+      });
+
+      it('should return null for a message never received', async () => {
+        (messageModel.findOne as jest.Mock).mockResolvedValue(null);
+
+        await expect(
+          service.findSentMessage('user123', 'client-1')
+        ).resolves.toBeNull();
+      });
+    });
+
+    describe('getThread', () => {
+      const replies = [1, 2, 3].map((index) => ({
+        id: `reply${index}`,
+        toJSON: jest.fn().mockReturnValue({ id: `reply${index}` }),
+      }));
+      let chainMock: Record<string, jest.Mock>;
+
+      beforeEach(() => {
+        chainMock = {
+          sort: jest.fn().mockReturnThis(),
+          skip: jest.fn().mockReturnThis(),
+          limit: jest.fn().mockReturnThis(),
+          exec: jest.fn().mockResolvedValue(replies),
+        };
+        (messageModel.find as jest.Mock).mockReturnValue(chainMock);
+        (messageModel.findById as jest.Mock).mockResolvedValue(mockMessage);
+        jest
+          .spyOn(service, 'getRoomById' as keyof MessagesService)
+          .mockResolvedValue(mockRoom);
+        jest
+          .spyOn(service, 'userHasAccessToRoom' as keyof MessagesService)
+          .mockResolvedValue(true);
+      });
+
+      it('should return the parent and a page of replies', async () => {
+        const result = await service.getThread('user123', 'message123', {
+          limit: 2,
+          offset: 0,
+        });
+
+        expect(messageModel.find).toHaveBeenCalledWith({
+          parentMessageId: 'message123',
+          isDeleted: false,
+        });
+        expect(chainMock.sort).toHaveBeenCalledWith({ timestamp: 1 });
+        expect(chainMock.limit).toHaveBeenCalledWith(3);
+        expect(result).toEqual({
+          parent: mockMessage,
+          replies: [{ id: 'reply1' }, { id: 'reply2' }],
+          hasMore: true,
+        });
+      });
+
+      it('should throw NotFoundException if message not found', async () => {
+        (messageModel.findById as jest.Mock).mockResolvedValue(null);
+
+        await expect(
+          service.getThread('user123', 'message123', {})
+        ).rejects.toThrow(NotFoundException);
+      });
+
+      it('should throw ForbiddenException if user has no access', async () => {
+        jest
+          .spyOn(service, 'userHasAccessToRoom' as keyof MessagesService)
+          .mockResolvedValue(false);
+
+        await expect(
+          service.getThread('user123', 'message123', {})
+        ).rejects.toThrow(ForbiddenException);
+      });
     });
 
     describe('getMessages', () => {
       const mockMessagesData = [
-        { _id: 'message123', __v: 0, content: 'Test message', senderId: 'user123', senderUsername: 'John Doe', roomId: 'room123', timestamp: new Date('2024-01-01'), messageType: MessageType.TEXT, isEdited: false, isDeleted: false },
-        { _id: 'message456', __v: 0, content: 'Test message 2', senderId: 'user123', senderUsername: 'John Doe', roomId: 'room123', timestamp: new Date('2024-01-02'), messageType: MessageType.TEXT, isEdited: false, isDeleted: false },
+        { _id: '507f1f77bcf86cd799439021', __v: 0, content: 'Test message', senderId: 'user123', senderUsername: 'John Doe', roomId: 'room123', timestamp: new Date('2024-01-01'), messageType: MessageType.TEXT, isEdited: false, isDeleted: false },
+        { _id: '507f1f77bcf86cd799439022', __v: 0, content: 'Test message 2', senderId: 'user123', senderUsername: 'John Doe', roomId: 'room123', timestamp: new Date('2024-01-02'), messageType: MessageType.TEXT, isEdited: false, isDeleted: false },
       ];
 
       const mockMessages = mockMessagesData.map(data => ({
@@ -279,14 +533,17 @@ describe('MessagesService', () => {
         }),
       }));
 
+      let chainMock: {
+        sort: jest.Mock;
+        limit: jest.Mock;
+        exec: jest.Mock;
+      };
+
       beforeEach(() => {
-        const chainMock = {
-          find: jest.fn().mockReturnThis(),
+        chainMock = {
           sort: jest.fn().mockReturnThis(),
           limit: jest.fn().mockReturnThis(),
-          skip: jest.fn().mockReturnThis(),
-          lean: jest.fn().mockReturnThis(),
-          exec: jest.fn().mockResolvedValue(mockMessages),
+          exec: jest.fn().mockResolvedValue([...mockMessages].reverse()),
         };
 
         (messageModel.find as jest.Mock).mockReturnValue(chainMock);
@@ -298,7 +555,7 @@ describe('MessagesService', () => {
           .mockResolvedValue(true);
       });
 
-      it('should get messages with default pagination and include id field', async () => {
+      it('should get the latest messages oldest first and include id field', async () => {
         const query: GetMessagesDto = {};
         const result = await service.getMessages('user123', 'room123', query);
 
@@ -313,45 +570,95 @@ describe('MessagesService', () => {
           isEdited: data.isEdited,
           isDeleted: data.isDeleted,
         }));
-        
-        expect(result).toEqual(expectedMessages);
+
+        expect(result).toEqual({
+          items: expectedMessages,
+          nextCursor: null,
+          hasMore: false,
+        });
         expect(messageModel.find).toHaveBeenCalledWith({
           roomId: 'room123',
           isDeleted: false,
-          timestamp: { $lt: expect.any(Date) },
+          parentMessageId: { $exists: false },
+        });
+        expect(chainMock.sort).toHaveBeenCalledWith({ timestamp: -1, _id: -1 });
+        expect(chainMock.limit).toHaveBeenCalledWith(51);
+      });
+
+      it('should return a cursor on the oldest message when more are available', async () => {
+        const result = await service.getMessages('user123', 'room123', {
+          limit: 1,
+        });
+
+        expect(chainMock.limit).toHaveBeenCalledWith(2);
+        expect(result.items).toEqual([
+          expect.objectContaining({ id: '507f1f77bcf86cd799439022' }),
+        ]);
+        expect(result.hasMore).toBe(true);
+        expect(decodeMessageCursor(result.nextCursor as string)).toEqual({
+          timestamp: new Date('2024-01-02'),
+          id: '507f1f77bcf86cd799439022',
         });
       });
 
-      it('should get messages with before timestamp', async () => {
-        const beforeDate = '2024-01-15T00:00:00.000Z';
-        const query: GetMessagesDto = { before: beforeDate };
+      it('should get the messages before a cursor', async () => {
+        const before = encodeMessageCursor({
+          timestamp: new Date('2024-01-15'),
+          id: '507f1f77bcf86cd799439014',
+        });
 
-        await service.getMessages('user123', 'room123', query);
+        await service.getMessages('user123', 'room123', { before });
 
         expect(messageModel.find).toHaveBeenCalledWith({
           roomId: 'room123',
           isDeleted: false,
-          timestamp: { $lt: new Date(beforeDate) },
+          parentMessageId: { $exists: false },
+          $or: [
+            { timestamp: { $lt: new Date('2024-01-15') } },
+            {
+              timestamp: new Date('2024-01-15'),
+              _id: { $lt: '507f1f77bcf86cd799439014' },
+            },
+          ],
         });
+        expect(chainMock.sort).toHaveBeenCalledWith({ timestamp: -1, _id: -1 });
       });
 
-      it('should apply pagination parameters', async () => {
-        const query: GetMessagesDto = { limit: 20, offset: 10 };
-        const chainMock = {
-          find: jest.fn().mockReturnThis(),
-          sort: jest.fn().mockReturnThis(),
-          limit: jest.fn().mockReturnThis(),
-          skip: jest.fn().mockReturnThis(),
-          lean: jest.fn().mockReturnThis(),
-          exec: jest.fn().mockResolvedValue(mockMessages),
-        };
+      it('should get the messages after a cursor in ascending order', async () => {
+        chainMock.exec.mockResolvedValue(mockMessages);
+        const after = encodeMessageCursor({
+          timestamp: new Date('2023-12-31'),
+          id: '507f1f77bcf86cd799439014',
+        });
 
-        (messageModel.find as jest.Mock).mockReturnValue(chainMock);
+        const result = await service.getMessages('user123', 'room123', {
+          after,
+          limit: 1,
+        });
 
-        await service.getMessages('user123', 'room123', query);
+        expect(chainMock.sort).toHaveBeenCalledWith({ timestamp: 1, _id: 1 });
+        expect(result.items).toEqual([
+          expect.objectContaining({ id: '507f1f77bcf86cd799439021' }),
+        ]);
+        expect(decodeMessageCursor(result.nextCursor as string)).toEqual({
+          timestamp: new Date('2024-01-01'),
+          id: '507f1f77bcf86cd799439021',
+        });
+      });
+
+      it('should throw BadRequestException when both cursors are given', async () => {
+        await expect(
+          service.getMessages('user123', 'room123', {
+            before: 'cursor',
+            after: 'cursor',
+          })
+        ).rejects.toThrow(BadRequestException);
+      });
 
-        expect(chainMock.limit).toHaveBeenCalledWith(20);
-        expect(chainMock.skip).toHaveBeenCalledWith(10);
+      it('should throw BadRequestException on a malformed cursor', async () => {
+        await expect(
+          service.getMessages('user123', 'room123', { before: 'not-a-cursor' })
+        ).rejects.toThrow(BadRequestException);
       });
 
       it('should throw ForbiddenException if user has no access', async () => {
@@ -365,83 +672,486 @@ describe('MessagesService', () => {
       });
     });
 
-    describe('updateMessage', () => {
-      const updateMessageDto: UpdateMessageDto = {
-        content: 'Updated message',
-      };
+    describe('searchMessages', () => {
+      const createMessageDoc = (data: Record<string, unknown>) => ({
+        ...data,
+        toJSON: jest.fn().mockReturnValue({ id: data._id, ...data }),
+      });
+
+      const match = createMessageDoc({
+        _id: '507f1f77bcf86cd799439031',
+        content: 'The release is planned for next monday',
+        senderId: 'user456',
+        roomId: 'room123',
+        timestamp: new Date('2024-01-10'),
+      });
+
+      let chainMock: { sort: jest.Mock; limit: jest.Mock; exec: jest.Mock };
 
       beforeEach(() => {
-        const mockMessageInstance = {
-          ...mockMessage,
-          content: 'Updated message',
-          isEdited: true,
-          editedAt: new Date(),
-          save: jest.fn().mockResolvedValue({
-            ...mockMessage,
-            content: 'Updated message',
-            isEdited: true,
-            editedAt: new Date(),
-            toJSON: jest.fn().mockReturnValue({
-              ...mockMessage,
-              content: 'Updated message',
-              isEdited: true,
-              editedAt: new Date(),
-            }),
-          }),
+        chainMock = {
+          sort: jest.fn().mockReturnThis(),
+          limit: jest.fn().mockReturnThis(),
+          exec: jest.fn().mockResolvedValue([match]),
         };
-        (messageModel.findById as jest.Mock).mockResolvedValue(
-          mockMessageInstance
-        );
+
+        (messageModel.find as jest.Mock).mockReturnValue(chainMock);
+        (roomModel.find as jest.Mock).mockReturnValue({
+          exec: jest.fn().mockResolvedValue([
+            mockRoom,
+            {
+              ...mockRoom,
+              _id: 'room789',
+              members: [
+                {
+                  userId: 'user123',
+                  role: MemberRole.MEMBER,
+                  joinedAt: new Date(),
+                  leftAt: new Date(),
+                },
+              ],
+            },
+          ]),
+        });
       });
 
-      it('should update message successfully', async () => {
-        const result = await service.updateMessage(
-          'user123',
-          'message123',
-          updateMessageDto
-        );
+      it('should search the rooms the user is an active member of', async () => {
+        const result = await service.searchMessages('user123', {
+          q: 'release',
+        });
 
-        expect(messageModel.findById).toHaveBeenCalledWith('message123');
-        expect(result.content).toBe('Updated message');
-        expect(result.isEdited).toBe(true);
-        expect(result).toHaveProperty('editedAt');
+        expect(roomModel.find).toHaveBeenCalledWith({
+          'members.userId': 'user123',
+          isActive: true,
+        });
+        expect(messageModel.find).toHaveBeenCalledWith({
+          $text: { $search: 'release' },
+          roomId: { $in: ['room123'] },
+          isDeleted: false,
+        });
+        expect(chainMock.sort).toHaveBeenCalledWith({
+          score: { $meta: 'textScore' },
+          timestamp: -1,
+        });
+        expect(chainMock.limit).toHaveBeenCalledWith(21);
+        expect(result).toEqual({
+          items: [
+            {
+              message: expect.objectContaining({
+                id: '507f1f77bcf86cd799439031',
+              }),
+              snippet: 'The release is planned for next monday',
+              highlights: [{ offset: 4, length: 7 }],
+              cursor: encodeMessageCursor({
+                timestamp: new Date('2024-01-10'),
+                id: '507f1f77bcf86cd799439031',
+              }),
+            },
+          ],
+          hasMore: false,
+        });
       });
 
-      it('should throw NotFoundException if message not found', async () => {
-        (messageModel.findById as jest.Mock).mockResolvedValue(null);
+      it('should apply the room, sender and date filters', async () => {
+        jest
+          .spyOn(service, 'getRoomById' as keyof MessagesService)
+          .mockResolvedValue(mockRoom);
 
-        await expect(
-          service.updateMessage('user123', 'message123', updateMessageDto)
-        ).rejects.toThrow(NotFoundException);
+        await service.searchMessages('user123', {
+          q: 'release',
+          roomId: 'room123',
+          senderId: 'user456',
+          from: '2024-01-01T00:00:00.000Z',
+          to: '2024-01-31T23:59:59.999Z',
+        });
+
+        expect(roomModel.find).not.toHaveBeenCalled();
+        expect(messageModel.find).toHaveBeenCalledWith({
+          $text: { $search: 'release' },
+          roomId: { $in: ['room123'] },
+          isDeleted: false,
+          senderId: 'user456',
+          timestamp: {
+            $gte: new Date('2024-01-01T00:00:00.000Z'),
+            $lte: new Date('2024-01-31T23:59:59.999Z'),
+          },
+        });
       });
 
-      it('should throw ForbiddenException if not message owner', async () => {
-        (messageModel.findById as jest.Mock).mockResolvedValue({
-          ...mockMessage,
-          senderId: 'otherUser',
+      it('should point replies to the message starting their thread', async () => {
+        const parent = createMessageDoc({
+          _id: '507f1f77bcf86cd799439032',
+          content: 'When do we ship?',
+          roomId: 'room123',
+          timestamp: new Date('2024-01-09'),
+        });
+        const reply = createMessageDoc({
+          _id: '507f1f77bcf86cd799439033',
+          content: 'Release next monday',
+          roomId: 'room123',
+          parentMessageId: '507f1f77bcf86cd799439032',
+          timestamp: new Date('2024-01-10'),
+        });
+        chainMock.exec.mockResolvedValue([reply]);
+        (messageModel.find as jest.Mock)
+          .mockReturnValueOnce(chainMock)
+          .mockReturnValueOnce({ exec: jest.fn().mockResolvedValue([parent]) });
+
+        const result = await service.searchMessages('user123', {
+          q: 'release',
+        });
+
+        expect(messageModel.find).toHaveBeenLastCalledWith({
+          _id: { $in: ['507f1f77bcf86cd799439032'] },
+        });
+        expect(result.items[0].parent).toEqual(
+          expect.objectContaining({ id: '507f1f77bcf86cd799439032' })
+        );
+        expect(decodeMessageCursor(result.items[0].cursor)).toEqual({
+          timestamp: new Date('2024-01-09'),
+          id: '507f1f77bcf86cd799439032',
         });
+      });
+
+      it('should throw ForbiddenException if user has no access to the filtered room', async () => {
+        jest
+          .spyOn(service, 'getRoomById' as keyof MessagesService)
+          .mockResolvedValue(mockRoom);
 
         await expect(
-          service.updateMessage('user123', 'message123', updateMessageDto)
+          service.searchMessages('user789', { q: 'release', roomId: 'room123' })
         ).rejects.toThrow(ForbiddenException);
       });
 
-      it('should throw BadRequestException if message is deleted', async () => {
-        (messageModel.findById as jest.Mock).mockResolvedValue({
-          ...mockMessage,
-          isDeleted: true,
-        });
-
+      it('should throw BadRequestException if the date range is inverted', async () => {
         await expect(
-          service.updateMessage('user123', 'message123', updateMessageDto)
+          service.searchMessages('user123', {
+            q: 'release',
+            from: '2024-02-01T00:00:00.000Z',
+            to: '2024-01-01T00:00:00.000Z',
+          })
         ).rejects.toThrow(BadRequestException);
       });
     });
 
-    describe('deleteMessage', () => {
-      beforeEach(() => {
-        const mockMessageInstance = {
-          ...mockMessage,
+    describe('syncChanges', () => {
+      const since = '2024-01-15T10:30:00.000Z';
+
+      const leftRoom = {
+        ...mockRoom,
+        _id: 'room456',
+        id: 'room456',
+        members: [
+          {
+            userId: 'user123',
+            role: MemberRole.MEMBER,
+            joinedAt: new Date('2024-01-01'),
+            leftAt: new Date('2024-01-16'),
+          },
+        ],
+      };
+      const deletedRoom = { ...mockRoom, _id: 'room789', isActive: false };
+
+      let chainMock: { sort: jest.Mock; limit: jest.Mock; exec: jest.Mock };
+
+      beforeEach(() => {
+        chainMock = {
+          sort: jest.fn().mockReturnThis(),
+          limit: jest.fn().mockReturnThis(),
+          exec: jest
+            .fn()
+            .mockResolvedValue([{ ...mockMessage, toJSON: () => mockMessage }]),
+        };
+
+        (messageModel.find as jest.Mock).mockReturnValue(chainMock);
+        (messageModel.aggregate as jest.Mock).mockReturnValue({
+          exec: jest.fn().mockResolvedValue([{ _id: 'room123', count: 2 }]),
+        });
+        (roomModel.find as jest.Mock)
+          .mockReturnValueOnce({
+            exec: jest
+              .fn()
+              .mockResolvedValue([mockRoom, leftRoom, deletedRoom]),
+          })
+          .mockReturnValueOnce({
+            exec: jest.fn().mockResolvedValue([mockRoom]),
+          });
+      });
+
+      it('should return the messages changed since the previous sync', async () => {
+        const result = await service.syncChanges('user123', { since });
+
+        expect(messageModel.find).toHaveBeenCalledWith({
+          roomId: { $in: ['room123'] },
+          updatedAt: { $gt: new Date(since) },
+        });
+        expect(chainMock.sort).toHaveBeenCalledWith({ updatedAt: 1 });
+        expect(chainMock.limit).toHaveBeenCalledWith(201);
+        expect(result.messages).toEqual([mockMessage]);
+        expect(result.hasMore).toBe(false);
+        expect(result.syncedAt).toBeInstanceOf(Date);
+      });
+
+      it('should return the changed rooms and the rooms the user lost', async () => {
+        const result = await service.syncChanges('user123', { since });
+
+        expect(roomModel.find).toHaveBeenCalledWith({
+          'members.userId': 'user123',
+          updatedAt: { $gt: new Date(since) },
+        });
+        expect(result.rooms).toEqual([
+          expect.objectContaining({ id: 'room123', unreadCount: 2 }),
+        ]);
+        expect(result.removedRoomIds).toEqual(['room456', 'room789']);
+      });
+
+      it('should not remove a room the user had already left', async () => {
+        (roomModel.find as jest.Mock).mockReset();
+        (roomModel.find as jest.Mock)
+          .mockReturnValueOnce({
+            exec: jest.fn().mockResolvedValue([leftRoom]),
+          })
+          .mockReturnValueOnce({ exec: jest.fn().mockResolvedValue([]) });
+
+        const result = await service.syncChanges('user123', {
+          since: '2024-01-20T00:00:00.000Z',
+        });
+
+        expect(result.removedRoomIds).toEqual([]);
+      });
+
+      it('should report that more messages changed than the limit', async () => {
+        chainMock.exec.mockResolvedValue(
+          [mockMessage, mockMessage].map((message) => ({
+            ...message,
+            toJSON: () => message,
+          }))
+        );
+
+        const result = await service.syncChanges('user123', {
+          since,
+          limit: 1,
+        });
+
+        expect(chainMock.limit).toHaveBeenCalledWith(2);
+        expect(result.messages).toHaveLength(1);
+        expect(result.hasMore).toBe(true);
+      });
+    });
+
+    describe('createAttachmentMessage', () => {
+      const file = {
+        originalname: 'report.pdf',
+        mimetype: 'application/pdf',
+        size: 4,
+        buffer: Buffer.from('%PDF'),
+      };
+
+      beforeEach(() => {
+        jest
+          .spyOn(service, 'getRoomById' as keyof MessagesService)
+          .mockResolvedValue(mockRoom);
+        jest
+          .spyOn(service, 'userHasAccessToRoom' as keyof MessagesService)
+          .mockResolvedValue(true);
+      });
+
+      it('should store the file and create a FILE message', async () => {
+        const result = await service.createAttachmentMessage(
+          'user123',
+          { roomId: 'room123' },
+          file
+        );
+
+        expect(storage.put).toHaveBeenCalledWith(
+          expect.stringMatching(/^attachments\/room123\/[0-9a-f-]{36}$/),
+          file.buffer,
+          'application/pdf'
+        );
+        expect(messageModel).toHaveBeenCalledWith(
+          expect.objectContaining({
+            content: 'report.pdf',
+            messageType: MessageType.FILE,
+            attachments: [
+              expect.objectContaining({
+                fileName: 'report.pdf',
+                mimeType: 'application/pdf',
+                size: 4,
+              }),
+            ],
+          })
+        );
+        expect(result).toEqual(mockMessage);
+      });
+
+      it('should throw BadRequestException without a file', async () => {
+        await expect(
+          service.createAttachmentMessage('user123', { roomId: 'room123' })
+        ).rejects.toThrow(BadRequestException);
+        expect(storage.put).not.toHaveBeenCalled();
+      });
+
+      it('should throw ForbiddenException before storing if user has no access', async () => {
+        jest
+          .spyOn(service, 'userHasAccessToRoom' as keyof MessagesService)
+          .mockResolvedValue(false);
+
+        await expect(
+          service.createAttachmentMessage(
+            'user123',
+            { roomId: 'room123' },
+            file
+          )
+        ).rejects.toThrow(ForbiddenException);
+        expect(storage.put).not.toHaveBeenCalled();
+      });
+
+      it('should delete the stored file if the message cannot be created', async () => {
+        (messageModel.findById as jest.Mock).mockResolvedValue(null);
+
+        await expect(
+          service.createAttachmentMessage(
+            'user123',
+            { roomId: 'room123', parentMessageId: 'missing' },
+            file
+          )
+        ).rejects.toThrow(NotFoundException);
+
+        const [key] = (storage.put as jest.Mock).mock.calls[0];
+        expect(storage.delete).toHaveBeenCalledWith(key);
+      });
+    });
+
+    describe('getAttachment', () => {
+      const attachment = {
+        id: 'attachment123',
+        storageKey: 'attachments/room123/attachment123',
+        fileName: 'report.pdf',
+        mimeType: 'application/pdf',
+        size: 4,
+      };
+
+      beforeEach(() => {
+        (messageModel.findById as jest.Mock).mockResolvedValue({
+          ...mockMessage,
+          attachments: [attachment],
+        });
+        jest
+          .spyOn(service, 'getRoomById' as keyof MessagesService)
+          .mockResolvedValue(mockRoom);
+        jest
+          .spyOn(service, 'userHasAccessToRoom' as keyof MessagesService)
+          .mockResolvedValue(true);
+      });
+
+      it('should return the attachment and its content', async () => {
+        (storage.get as jest.Mock).mockResolvedValue(Buffer.from('%PDF'));
+
+        const result = await service.getAttachment(
+          'user123',
+          'message123',
+          'attachment123'
+        );
+
+        expect(storage.get).toHaveBeenCalledWith(attachment.storageKey);
+        expect(result).toEqual({ attachment, content: Buffer.from('%PDF') });
+      });
+
+      it('should throw NotFoundException for an unknown attachment', async () => {
+        await expect(
+          service.getAttachment('user123', 'message123', 'other')
+        ).rejects.toThrow(NotFoundException);
+      });
+
+      it('should throw ForbiddenException if user has no access', async () => {
+        jest
+          .spyOn(service, 'userHasAccessToRoom' as keyof MessagesService)
+          .mockResolvedValue(false);
+
+        await expect(
+          service.getAttachment('user123', 'message123', 'attachment123')
+        ).rejects.toThrow(ForbiddenException);
+        expect(storage.get).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('updateMessage', () => {
+      const updateMessageDto: UpdateMessageDto = {
+        content: 'Updated message',
+      };
+
+      beforeEach(() => {
+        const mockMessageInstance = {
+          ...mockMessage,
+          content: 'Updated message',
+          isEdited: true,
+          editedAt: new Date(),
+          save: jest.fn().mockResolvedValue({
+            ...mockMessage,
+            content: 'Updated message',
+            isEdited: true,
+            editedAt: new Date(),
+            toJSON: jest.fn().mockReturnValue({
+              ...mockMessage,
+              content: 'Updated message',
+              isEdited: true,
+              editedAt: new Date(),
+            }),
+          }),
+        };
+        (messageModel.findById as jest.Mock).mockResolvedValue(
+          mockMessageInstance
+        );
+      });
+
+      it('should update message successfully', async () => {
+        const result = await service.updateMessage(
+          'user123',
+          'message123',
+          updateMessageDto
+        );
+
+        expect(messageModel.findById).toHaveBeenCalledWith('message123');
+        expect(result.content).toBe('Updated message');
+        expect(result.isEdited).toBe(true);
+        expect(result).toHaveProperty('editedAt');
+      });
+
+      it('should throw NotFoundException if message not found', async () => {
+        (messageModel.findById as jest.Mock).mockResolvedValue(null);
+
+        await expect(
+          service.updateMessage('user123', 'message123', updateMessageDto)
+        ).rejects.toThrow(NotFoundException);
+      });
+
+      it('should throw ForbiddenException if not message owner', async () => {
+        (messageModel.findById as jest.Mock).mockResolvedValue({
+          ...mockMessage,
+          senderId: 'otherUser',
+        });
+
+        await expect(
+          service.updateMessage('user123', 'message123', updateMessageDto)
+        ).rejects.toThrow(ForbiddenException);
+      });
+
+      it('should throw BadRequestException if message is deleted', async () => {
+        (messageModel.findById as jest.Mock).mockResolvedValue({
+          ...mockMessage,
+          isDeleted: true,
+        });
+
+        await expect(
+          service.updateMessage('user123', 'message123', updateMessageDto)
+        ).rejects.toThrow(BadRequestException);
+      });
+    });
+
+    describe('deleteMessage', () => {
+      beforeEach(() => {
+        const mockMessageInstance = {
+          ...mockMessage,
           isDeleted: true,
           deletedAt: new Date(),
           save: jest.fn().mockResolvedValue({
@@ -486,93 +1196,849 @@ describe('MessagesService', () => {
           service.deleteMessage('user123', 'message123')
         ).rejects.toThrow(ForbiddenException);
       });
+
+      it('should decrement the parent reply count when deleting a reply', async () => {
+        (messageModel.findById as jest.Mock).mockResolvedValue({
+          ...mockMessage,
+          parentMessageId: 'parent123',
+          save: jest.fn().mockResolvedValue(mockMessage),
+        });
+
+        await service.deleteMessage('user123', 'message123');
+
+        expect(messageModel.findByIdAndUpdate).toHaveBeenCalledWith(
+          'parent123',
+          { $inc: { threadReplyCount: -1 } }
+        );
+      });
+
+      it('should unpin the deleted message from its room', async () => {
+        await service.deleteMessage('user123', 'message123');
+
+        expect(roomModel.findByIdAndUpdate).toHaveBeenCalledWith('room123', {
+          $pull: { pinnedMessages: { messageId: 'message123' } },
+        });
+      });
     });
   });
 
-  describe('Rooms', () => {
-    describe('createDirectRoom', () => {
-      const createDirectRoomDto: CreateDirectRoomDto = {
-        targetUserId: 'user456',
-      };
+  describe('Reactions', () => {
+    type Reaction = { emoji: string; userIds: string[] };
 
-      beforeEach(() => {
-        jest
-          .spyOn(usersService, 'findOne')
-          .mockImplementation(async (userId: string) => {
-            if (userId === 'user123') return mockUser;
-            if (userId === 'user456') return mockTargetUser;
-            throw new NotFoundException();
-          });
+    // Applies the updates to a stored message the way the database does,
+    // whatever the message read before the update contained
+    const storeMessage = (reactions: Reaction[] = []) => {
+      const stored = { reactions };
+      const toDocument = () => ({
+        toJSON: () => ({ ...mockMessage, reactions: stored.reactions }),
+      });
 
-        // The roomModel constructor is already mocked in the module setup
+      (messageModel.findById as jest.Mock).mockImplementation(async () => ({
+        ...mockMessage,
+        reactions: stored.reactions,
+      }));
+      (messageModel.findOneAndUpdate as jest.Mock).mockImplementation(
+        async (
+          filter: Record<string, unknown>,
+          update: {
+            $addToSet?: Record<string, string>;
+            $push?: { reactions: Reaction };
+          }
+        ) => {
+          if (update.$addToSet) {
+            const userId = update.$addToSet['reactions.$.userIds'];
+            const reaction = stored.reactions.find(
+              (r) => r.emoji === filter['reactions.emoji']
+            );
+            if (!reaction) {
+              return null;
+            }
+            if (!reaction.userIds.includes(userId)) {
+              reaction.userIds = [...reaction.userIds, userId];
+            }
+            return toDocument();
+          }
+
+          const added = update.$push?.reactions;
+          if (
+            !added ||
+            stored.reactions.some((r) => r.emoji === added.emoji) ||
+            stored.reactions.length >= 20
+          ) {
+            return null;
+          }
+          stored.reactions = [...stored.reactions, added];
+          return toDocument();
+        }
+      );
+      (messageModel.updateOne as jest.Mock).mockImplementation(
+        async (
+          _filter: unknown,
+          update: { $pull: Record<string, string> },
+          options: { arrayFilters: Record<string, string>[] }
+        ) => {
+          const userId = update.$pull['reactions.$[reaction].userIds'];
+          const emoji = options.arrayFilters[0]['reaction.emoji'];
+          stored.reactions = stored.reactions.map((r) =>
+            r.emoji === emoji
+              ? { ...r, userIds: r.userIds.filter((id) => id !== userId) }
+              : r
+          );
+        }
+      );
+      (messageModel.findByIdAndUpdate as jest.Mock).mockImplementation(
+        async () => {
+          stored.reactions = stored.reactions.filter(
+            (r) => r.userIds.length > 0
+          );
+          return toDocument();
+        }
+      );
+
+      return stored;
+    };
+
+    beforeEach(() => {
+      jest
+        .spyOn(service, 'getRoomById' as keyof MessagesService)
+        .mockResolvedValue(mockRoom);
+      jest
+        .spyOn(service, 'userHasAccessToRoom' as keyof MessagesService)
+        .mockResolvedValue(true);
+    });
+
+    describe('addReaction', () => {
+      it('should add a new emoji entry', async () => {
+        storeMessage();
+
+        const result = await service.addReaction('user123', 'message123', '👍');
+
+        expect(messageModel.findOneAndUpdate).toHaveBeenCalledWith(
+          {
+            _id: 'message123',
+            'reactions.emoji': { $ne: '👍' },
+            'reactions.19': { $exists: false },
+          },
+          { $push: { reactions: { emoji: '👍', userIds: ['user123'] } } },
+          { new: true }
+        );
+        expect(result.reactions).toEqual([
+          { emoji: '👍', userIds: ['user123'] },
+        ]);
+      });
+
+      it('should add the user to an existing emoji only once', async () => {
+        storeMessage([{ emoji: '👍', userIds: ['user456'] }]);
+
+        await service.addReaction('user123', 'message123', '👍');
+        const result = await service.addReaction('user123', 'message123', '👍');
+
+        expect(messageModel.findOneAndUpdate).toHaveBeenCalledWith(
+          { _id: 'message123', 'reactions.emoji': '👍' },
+          { $addToSet: { 'reactions.$.userIds': 'user123' } },
+          { new: true }
+        );
+        expect(result.reactions).toEqual([
+          { emoji: '👍', userIds: ['user456', 'user123'] },
+        ]);
+      });
+
+      it('should keep the reactions of users reacting at the same time', async () => {
+        const stored = storeMessage();
+
+        await Promise.all([
+          service.addReaction('user123', 'message123', '👍'),
+          service.addReaction('user456', 'message123', '👍'),
+          service.addReaction('user789', 'message123', '🎉'),
+        ]);
+
+        expect(stored.reactions).toEqual([
+          { emoji: '👍', userIds: ['user123', 'user456'] },
+          { emoji: '🎉', userIds: ['user789'] },
+        ]);
+      });
+
+      it('should throw BadRequestException when too many emojis are used', async () => {
+        storeMessage(
+          Array.from({ length: 20 }, (_, index) => ({
+            emoji: `emoji${index}`,
+            userIds: ['user456'],
+          }))
+        );
+
+        await expect(
+          service.addReaction('user123', 'message123', '👍')
+        ).rejects.toThrow(BadRequestException);
+      });
+
+      it('should throw NotFoundException for a deleted message', async () => {
+        (messageModel.findById as jest.Mock).mockResolvedValue({
+          ...mockMessage,
+          reactions: [],
+          isDeleted: true,
+        });
+
+        await expect(
+          service.addReaction('user123', 'message123', '👍')
+        ).rejects.toThrow(NotFoundException);
+        expect(messageModel.findOneAndUpdate).not.toHaveBeenCalled();
+      });
+
+      it('should throw ForbiddenException without room access', async () => {
+        storeMessage();
+        jest
+          .spyOn(service, 'userHasAccessToRoom' as keyof MessagesService)
+          .mockResolvedValue(false);
+
+        await expect(
+          service.addReaction('user123', 'message123', '👍')
+        ).rejects.toThrow(ForbiddenException);
+      });
+    });
+
+    describe('removeReaction', () => {
+      it('should remove the user and drop emojis without users', async () => {
+        storeMessage([
+          { emoji: '👍', userIds: ['user123'] },
+          { emoji: '🎉', userIds: ['user123', 'user456'] },
+        ]);
+
+        const result = await service.removeReaction(
+          'user123',
+          'message123',
+          '👍'
+        );
+
+        expect(messageModel.updateOne).toHaveBeenCalledWith(
+          { _id: 'message123' },
+          { $pull: { 'reactions.$[reaction].userIds': 'user123' } },
+          { arrayFilters: [{ 'reaction.emoji': '👍' }] }
+        );
+        expect(messageModel.findByIdAndUpdate).toHaveBeenCalledWith(
+          'message123',
+          { $pull: { reactions: { userIds: { $size: 0 } } } },
+          { new: true }
+        );
+        expect(result.reactions).toEqual([
+          { emoji: '🎉', userIds: ['user123', 'user456'] },
+        ]);
+      });
+
+      it('should keep a reaction added while another one is removed', async () => {
+        const stored = storeMessage([{ emoji: '👍', userIds: ['user123'] }]);
+
+        await Promise.all([
+          service.removeReaction('user123', 'message123', '👍'),
+          service.addReaction('user456', 'message123', '🎉'),
+        ]);
+
+        expect(stored.reactions).toEqual([
+          { emoji: '🎉', userIds: ['user456'] },
+        ]);
+      });
+    });
+  });
+
+  describe('Pins', () => {
+    const createPinnableRoom = (pinnedMessages: PinnedMessage[] = []) => ({
+      ...mockRoom,
+      type: RoomType.GROUP,
+      pinnedMessages,
+      save: jest.fn(),
+    });
+
+    beforeEach(() => {
+      (messageModel.findById as jest.Mock).mockResolvedValue({
+        ...mockMessage,
+        toJSON: () => mockMessage,
+      });
+    });
+
+    describe('pinMessage', () => {
+      it('should pin the message to its room', async () => {
+        const room = createPinnableRoom();
+        (roomModel.findById as jest.Mock).mockResolvedValue(room);
+        (roomModel.findOneAndUpdate as jest.Mock).mockResolvedValue(room);
+
+        const result = await service.pinMessage('user123', 'message123');
+
+        expect(roomModel.findById).toHaveBeenCalledWith('room123');
+        expect(roomModel.findOneAndUpdate).toHaveBeenCalledWith(
+          {
+            _id: room._id,
+            'pinnedMessages.messageId': { $ne: 'message123' },
+            'pinnedMessages.49': { $exists: false },
+          },
+          {
+            $push: {
+              pinnedMessages: {
+                messageId: 'message123',
+                pinnedBy: 'user123',
+                pinnedAt: expect.any(Date),
+              },
+            },
+          },
+          { new: true }
+        );
+        expect(room.save).not.toHaveBeenCalled();
+        expect(result).toEqual({
+          messageId: 'message123',
+          pinnedBy: 'user123',
+          pinnedAt: expect.any(Date),
+          message: mockMessage,
+          cursor: encodeMessageCursor({
+            timestamp: mockMessage.timestamp,
+            id: 'message123',
+          }),
+        });
+      });
+
+      it('should keep the existing pin of a pinned message', async () => {
+        const pinnedAt = new Date('2024-01-01');
+        const room = createPinnableRoom([
+          { messageId: 'message123', pinnedBy: 'user456', pinnedAt },
+        ]);
+        (roomModel.findById as jest.Mock).mockResolvedValue(room);
+
+        const result = await service.pinMessage('user123', 'message123');
+
+        expect(roomModel.findOneAndUpdate).not.toHaveBeenCalled();
+        expect(result).toEqual(
+          expect.objectContaining({ pinnedBy: 'user456', pinnedAt })
+        );
+      });
+
+      it('should keep the pin of a message pinned concurrently', async () => {
+        const pinnedAt = new Date('2024-01-01');
+        (roomModel.findById as jest.Mock)
+          .mockResolvedValueOnce(createPinnableRoom())
+          .mockResolvedValueOnce(
+            createPinnableRoom([
+              { messageId: 'message123', pinnedBy: 'user456', pinnedAt },
+            ])
+          );
+        (roomModel.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+        const result = await service.pinMessage('user123', 'message123');
+
+        expect(result).toEqual(
+          expect.objectContaining({ pinnedBy: 'user456', pinnedAt })
+        );
+      });
+
+      it('should throw ForbiddenException if the role does not allow pinning', async () => {
+        (roomModel.findById as jest.Mock).mockResolvedValue(
+          createPinnableRoom()
+        );
+
+        await expect(
+          service.pinMessage('user456', 'message123')
+        ).rejects.toThrow(ForbiddenException);
+      });
+
+      it('should throw BadRequestException for a thread reply', async () => {
+        (messageModel.findById as jest.Mock).mockResolvedValue({
+          ...mockMessage,
+          parentMessageId: 'parent123',
+        });
+
+        await expect(
+          service.pinMessage('user123', 'message123')
+        ).rejects.toThrow(BadRequestException);
+      });
+
+      it('should throw BadRequestException when the room has too many pins', async () => {
+        const room = createPinnableRoom(
+          Array.from({ length: 50 }, (_, index) => ({
+            messageId: `message${index}`,
+            pinnedBy: 'user123',
+            pinnedAt: new Date(),
+          }))
+        );
+        (roomModel.findById as jest.Mock).mockResolvedValue(room);
+        (roomModel.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+        await expect(
+          service.pinMessage('user123', 'message123')
+        ).rejects.toThrow(BadRequestException);
+      });
+    });
+
+    describe('unpinMessage', () => {
+      it('should unpin the message from its room', async () => {
+        const room = createPinnableRoom([
+          {
+            messageId: 'message123',
+            pinnedBy: 'user123',
+            pinnedAt: new Date(),
+          },
+          {
+            messageId: 'message456',
+            pinnedBy: 'user123',
+            pinnedAt: new Date(),
+          },
+        ]);
+        (roomModel.findById as jest.Mock).mockResolvedValue(room);
+
+        const result = await service.unpinMessage('user123', 'message123');
+
+        expect(roomModel.findByIdAndUpdate).toHaveBeenCalledWith(room._id, {
+          $pull: { pinnedMessages: { messageId: 'message123' } },
+        });
+        expect(room.save).not.toHaveBeenCalled();
+        expect(result).toEqual(mockMessage);
+      });
+
+      it('should not update a room where the message is not pinned', async () => {
+        (roomModel.findById as jest.Mock).mockResolvedValue(
+          createPinnableRoom()
+        );
+
+        const result = await service.unpinMessage('user123', 'message123');
+
+        expect(roomModel.findByIdAndUpdate).not.toHaveBeenCalled();
+        expect(result).toEqual(mockMessage);
+      });
+    });
+
+    describe('getRoomPins', () => {
+      it('should list the pinned messages, most recently pinned first', async () => {
+        const older = {
+          messageId: 'message123',
+          pinnedBy: 'user123',
+          pinnedAt: new Date('2024-01-01'),
+        };
+        const newer = {
+          messageId: 'message456',
+          pinnedBy: 'user456',
+          pinnedAt: new Date('2024-01-02'),
+        };
+        const deleted = {
+          messageId: 'message789',
+          pinnedBy: 'user123',
+          pinnedAt: new Date('2024-01-03'),
+        };
+        jest
+          .spyOn(service, 'getRoomById' as keyof MessagesService)
+          .mockResolvedValue({
+            ...mockRoom,
+            pinnedMessages: [older, newer, deleted],
+          });
+        const found = ['message123', 'message456'].map((id) => ({
+          _id: id,
+          timestamp: mockMessage.timestamp,
+          toJSON: () => ({ ...mockMessage, id }),
+        }));
+        const cursorOf = (id: string) =>
+          encodeMessageCursor({ timestamp: mockMessage.timestamp, id });
+        (messageModel.find as jest.Mock).mockReturnValue({
+          exec: jest.fn().mockResolvedValue(found),
+        });
+
+        const result = await service.getRoomPins('user123', 'room123');
+
+        expect(messageModel.find).toHaveBeenCalledWith({
+          _id: { $in: ['message123', 'message456', 'message789'] },
+          isDeleted: false,
+        });
+        expect(result).toEqual([
+          {
+            ...newer,
+            message: { ...mockMessage, id: 'message456' },
+            cursor: cursorOf('message456'),
+          },
+          {
+            ...older,
+            message: { ...mockMessage, id: 'message123' },
+            cursor: cursorOf('message123'),
+          },
+        ]);
+      });
+
+      it('should throw ForbiddenException if user has no access to the room', async () => {
+        jest
+          .spyOn(service, 'getRoomById' as keyof MessagesService)
+          .mockResolvedValue({ ...mockRoom, pinnedMessages: [] });
+
+        await expect(service.getRoomPins('user789', 'room123')).rejects.toThrow(
+          ForbiddenException
+        );
+      });
+    });
+  });
+
+  describe('Rooms', () => {
+    describe('createDirectRoom', () => {
+      const createDirectRoomDto: CreateDirectRoomDto = {
+        targetUserId: 'user456',
+      };
+
+      beforeEach(() => {
+        jest
+          .spyOn(usersService, 'findOne')
+          .mockImplementation(async (userId: string) => {
+            if (userId === 'user123') return mockUser;
+            if (userId === 'user456') return mockTargetUser;
+            throw new NotFoundException();
+          });
+
+        // The roomModel constructor is already mocked in the module setup
+      });
+
+      it('should create direct room successfully', async () => {
+        (roomModel.findOne as jest.Mock).mockResolvedValue(null);
+
+        const result = await service.createDirectRoom(
+          'user123',
+          createDirectRoomDto
+        );
+
+        expect(usersService.findOne).toHaveBeenCalledWith('user456');
+        expect(roomModel.findOne).toHaveBeenCalledWith({
+          type: RoomType.DIRECT,
+          $and: [
+            { 'members.userId': 'user123' },
+            { 'members.userId': 'user456' },
+          ],
+        });
+        expect(result).toEqual(mockRoom);
+      });
+
+      it('should return existing room if already exists', async () => {
+        (roomModel.findOne as jest.Mock).mockResolvedValue(mockRoom);
+
+        const result = await service.createDirectRoom(
+          'user123',
+          createDirectRoomDto
+        );
+
+        expect(result).toEqual(mockRoom);
+      });
+
+      it('should throw NotFoundException if target user not found', async () => {
+        jest
+          .spyOn(usersService, 'findOne')
+          .mockRejectedValue(new NotFoundException());
+
+        await expect(
+          service.createDirectRoom('user123', createDirectRoomDto)
+        ).rejects.toThrow(NotFoundException);
+      });
+    });
+
+    describe('createGroupRoom', () => {
+      const createGroupRoomDto: CreateGroupRoomDto = {
+        name: '  Project team  ',
+        description: 'Daily coordination',
+        memberIds: ['user456', 'user789', 'user456', 'user123'],
+      };
+
+      it('should create group room with creator as owner and unique members', async () => {
+        const result = await service.createGroupRoom(
+          'user123',
+          createGroupRoomDto
+        );
+
+        expect(usersService.findOne).toHaveBeenCalledWith('user456');
+        expect(usersService.findOne).toHaveBeenCalledWith('user789');
+        expect(usersService.findOne).not.toHaveBeenCalledWith('user123');
+        expect(roomModel).toHaveBeenCalledWith({
+          name: 'Project team',
+          description: 'Daily coordination',
+          type: RoomType.GROUP,
+          createdBy: 'user123',
+          members: [
+            {
+              userId: 'user123',
+              role: MemberRole.OWNER,
+              joinedAt: expect.any(Date),
+            },
+            {
+              userId: 'user456',
+              role: MemberRole.MEMBER,
+              joinedAt: expect.any(Date),
+            },
+            {
+              userId: 'user789',
+              role: MemberRole.MEMBER,
+              joinedAt: expect.any(Date),
+            },
+          ],
+          lastActivity: expect.any(Date),
+        });
+        expect(result).toEqual(mockRoom);
+      });
+
+      it('should throw BadRequestException if creator is the only member', async () => {
+        await expect(
+          service.createGroupRoom('user123', {
+            name: 'Alone',
+            memberIds: ['user123'],
+          })
+        ).rejects.toThrow(BadRequestException);
+      });
+
+      it('should throw NotFoundException if a member does not exist', async () => {
+        jest
+          .spyOn(usersService, 'findOne')
+          .mockRejectedValue(new NotFoundException());
+
+        await expect(
+          service.createGroupRoom('user123', createGroupRoomDto)
+        ).rejects.toThrow(NotFoundException);
+      });
+    });
+
+    describe('getUserRooms', () => {
+      const joinedAt = new Date('2024-01-01T00:00:00.000Z');
+      const lastReadAt = new Date('2024-01-02T00:00:00.000Z');
+      const mockRooms = [
+        {
+          ...mockRoom,
+          members: [{ userId: 'user123', role: MemberRole.OWNER, joinedAt }],
+          toJSON: jest.fn().mockReturnValue(mockRoom),
+        },
+        {
+          ...mockRoom,
+          id: 'room456',
+          members: [
+            {
+              userId: 'user123',
+              role: MemberRole.MEMBER,
+              joinedAt,
+              lastReadMessageId: 'message123',
+              lastReadAt,
+            },
+          ],
+          toJSON: jest.fn().mockReturnValue({ ...mockRoom, id: 'room456' }),
+        },
+      ];
+
+      beforeEach(() => {
+        const chainMock = {
+          find: jest.fn().mockReturnThis(),
+          sort: jest.fn().mockReturnThis(),
+          exec: jest.fn().mockResolvedValue(mockRooms),
+        };
+
+        (roomModel.find as jest.Mock).mockReturnValue(chainMock);
+        (messageModel.aggregate as jest.Mock).mockReturnValue({
+          exec: jest.fn().mockResolvedValue([{ _id: 'room123', count: 3 }]),
+        });
+      });
+
+      it('should get user rooms successfully', async () => {
+        const result = await service.getUserRooms('user123');
+
+        expect(roomModel.find).toHaveBeenCalledWith({
+          members: {
+            $elemMatch: { userId: 'user123', leftAt: { $exists: false } },
+          },
+          isActive: true,
+        });
+        expect(result).toEqual([
+          { ...mockRoom, unreadCount: 3 },
+          { ...mockRoom, id: 'room456', unreadCount: 0 },
+        ]);
+      });
+
+      it('should count unread messages from others since the last read one', async () => {
+        await service.getUserRooms('user123');
+
+        expect(messageModel.aggregate).toHaveBeenCalledTimes(1);
+        expect(messageModel.aggregate).toHaveBeenCalledWith([
+          {
+            $match: {
+              $or: [
+                { roomId: 'room123', timestamp: { $gt: joinedAt } },
+                { roomId: 'room456', timestamp: { $gt: lastReadAt } },
+              ],
+              isDeleted: false,
+              parentMessageId: { $exists: false },
+              senderId: { $ne: 'user123' },
+            },
+          },
+          { $group: { _id: '$roomId', count: { $sum: 1 } } },
+        ]);
+      });
+
+      it('should not list the rooms the user was kicked from', async () => {
+        const kickedFrom = {
+          ...mockRoom,
+          id: 'room789',
+          members: [
+            {
+              userId: 'user123',
+              role: MemberRole.MEMBER,
+              joinedAt,
+              leftAt: lastReadAt,
+            },
+            { userId: 'user456', role: MemberRole.OWNER, joinedAt },
+          ],
+          toJSON: jest.fn().mockReturnValue({ ...mockRoom, id: 'room789' }),
+        };
+        // Matches the member entries the way the database does
+        (roomModel.find as jest.Mock).mockImplementation(
+          ({ members }: { members: { $elemMatch: { userId: string } } }) => {
+            const rooms = [mockRooms[0], kickedFrom].filter((room) =>
+              room.members.some(
+                (member) =>
+                  member.userId === members.$elemMatch.userId &&
+                  !('leftAt' in member)
+              )
+            );
+            return {
+              sort: jest.fn().mockReturnThis(),
+              exec: jest.fn().mockResolvedValue(rooms),
+            };
+          }
+        );
+
+        const result = await service.getUserRooms('user123');
+
+        expect(result.map((room) => room.id)).toEqual(['room123']);
+      });
+
+      it('should not count messages for a user without rooms', async () => {
+        (roomModel.find as jest.Mock).mockReturnValue({
+          sort: jest.fn().mockReturnThis(),
+          exec: jest.fn().mockResolvedValue([]),
+        });
+
+        const result = await service.getUserRooms('user123');
+
+        expect(result).toEqual([]);
+        expect(messageModel.aggregate).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('getUserRoomIds', () => {
+      it('should only load the IDs of the rooms the user is active in', async () => {
+        const chainMock = {
+          lean: jest.fn().mockReturnThis(),
+          exec: jest
+            .fn()
+            .mockResolvedValue([{ _id: 'room123' }, { _id: 'room456' }]),
+        };
+        (roomModel.find as jest.Mock).mockReturnValue(chainMock);
+
+        const result = await service.getUserRoomIds('user123');
+
+        expect(roomModel.find).toHaveBeenCalledWith(
+          {
+            members: {
+              $elemMatch: { userId: 'user123', leftAt: { $exists: false } },
+            },
+            isActive: true,
+          },
+          { _id: 1 }
+        );
+        expect(result).toEqual(['room123', 'room456']);
+        expect(messageModel.aggregate).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('markRoomAsRead', () => {
+      const lastReadAt = new Date('2024-01-02T00:00:00.000Z');
+      let room: {
+        members: Record<string, unknown>[];
+        save: jest.Mock;
+      };
+
+      beforeEach(() => {
+        room = {
+          ...mockRoom,
+          members: [
+            {
+              userId: 'user123',
+              role: MemberRole.MEMBER,
+              joinedAt: new Date('2024-01-01T00:00:00.000Z'),
+              lastReadMessageId: 'oldMessage',
+              lastReadAt,
+            },
+          ],
+          save: jest.fn(),
+        };
+        (roomModel.findById as jest.Mock).mockResolvedValue(room);
       });
 
-      it('should create direct room successfully', async () => {
-        (roomModel.findOne as jest.Mock).mockResolvedValue(null);
+      it('should move the read position forward to the given message', async () => {
+        const timestamp = new Date('2024-01-03T00:00:00.000Z');
+        (messageModel.findById as jest.Mock).mockResolvedValue({
+          ...mockMessage,
+          timestamp,
+        });
 
-        const result = await service.createDirectRoom(
+        const result = await service.markRoomAsRead(
           'user123',
-          createDirectRoomDto
+          'room123',
+          'message123'
         );
 
-        expect(usersService.findOne).toHaveBeenCalledWith('user456');
-        expect(roomModel.findOne).toHaveBeenCalledWith({
-          type: RoomType.DIRECT,
-          $and: [
-            { 'members.userId': 'user123' },
-            { 'members.userId': 'user456' },
-          ],
+        expect(room.save).toHaveBeenCalled();
+        expect(result).toEqual({
+          roomId: 'room123',
+          userId: 'user123',
+          lastReadMessageId: 'message123',
+          lastReadAt: timestamp,
         });
-        expect(result).toEqual(mockRoom);
       });
 
-      it('should return existing room if already exists', async () => {
-        (roomModel.findOne as jest.Mock).mockResolvedValue(mockRoom);
+      it('should default to the latest message of the room', async () => {
+        const timestamp = new Date('2024-01-03T00:00:00.000Z');
+        const chainMock = {
+          sort: jest.fn().mockReturnThis(),
+          exec: jest.fn().mockResolvedValue({ ...mockMessage, timestamp }),
+        };
+        (messageModel.findOne as jest.Mock).mockReturnValue(chainMock);
 
-        const result = await service.createDirectRoom(
-          'user123',
-          createDirectRoomDto
-        );
+        const result = await service.markRoomAsRead('user123', 'room123');
 
-        expect(result).toEqual(mockRoom);
+        expect(messageModel.findOne).toHaveBeenCalledWith({
+          roomId: 'room123',
+          isDeleted: false,
+          parentMessageId: { $exists: false },
+        });
+        expect(chainMock.sort).toHaveBeenCalledWith({ timestamp: -1 });
+        expect(result.lastReadMessageId).toBe('message123');
       });
 
-      it('should throw NotFoundException if target user not found', async () => {
-        jest
-          .spyOn(usersService, 'findOne')
-          .mockRejectedValue(new NotFoundException());
+      it('should not move the read position backwards', async () => {
+        (messageModel.findById as jest.Mock).mockResolvedValue({
+          ...mockMessage,
+          timestamp: new Date('2024-01-01T12:00:00.000Z'),
+        });
 
-        await expect(
-          service.createDirectRoom('user123', createDirectRoomDto)
-        ).rejects.toThrow(NotFoundException);
-      });
-    });
+        const result = await service.markRoomAsRead(
+          'user123',
+          'room123',
+          'message123'
+        );
 
-    describe('getUserRooms', () => {
-      const mockRooms = [
-        { ...mockRoom, toJSON: jest.fn().mockReturnValue(mockRoom) },
-        { ...mockRoom, id: 'room456', toJSON: jest.fn().mockReturnValue({ ...mockRoom, id: 'room456' }) }
-      ];
+        expect(room.save).not.toHaveBeenCalled();
+        expect(result).toEqual({
+          roomId: 'room123',
+          userId: 'user123',
+          lastReadMessageId: 'oldMessage',
+          lastReadAt,
+        });
+      });
 
-      beforeEach(() => {
-        const chainMock = {
-          find: jest.fn().mockReturnThis(),
-          sort: jest.fn().mockReturnThis(),
-          exec: jest.fn().mockResolvedValue(mockRooms),
-        };
+      it('should throw BadRequestException for a message of another room', async () => {
+        (messageModel.findById as jest.Mock).mockResolvedValue({
+          ...mockMessage,
+          roomId: 'otherRoom',
+        });
 
-        (roomModel.find as jest.Mock).mockReturnValue(chainMock);
+        await expect(
+          service.markRoomAsRead('user123', 'room123', 'message123')
+        ).rejects.toThrow(BadRequestException);
       });
 
-      it('should get user rooms successfully', async () => {
-        const result = await service.getUserRooms('user123');
-
-        expect(roomModel.find).toHaveBeenCalledWith({
-          'members.userId': 'user123',
-          'members.leftAt': { $exists: false },
-          isActive: true,
-        });
-        expect(result).toEqual([mockRoom, { ...mockRoom, id: 'room456' }]);
+      it('should throw ForbiddenException if user is not a member', async () => {
+        await expect(
+          service.markRoomAsRead('stranger', 'room123', 'message123')
+        ).rejects.toThrow(ForbiddenException);
       });
     });
 
@@ -612,6 +2078,7 @@ describe('MessagesService', () => {
         const roomSaveMock = jest.fn().mockResolvedValue(mockRoomWithToJSON);
         const mockRoomWithSave = {
           ...mockRoom,
+          type: RoomType.GROUP,
           save: roomSaveMock,
         };
         (roomModel.findById as jest.Mock).mockResolvedValue(mockRoomWithSave);
@@ -631,6 +2098,8 @@ describe('MessagesService', () => {
       it('should throw ForbiddenException if user is not admin', async () => {
         const roomWithMemberRole = {
           ...mockRoom,
+          type: RoomType.GROUP,
+          createdBy: 'user456',
           members: [
             {
               userId: 'user123',
@@ -649,6 +2118,7 @@ describe('MessagesService', () => {
       it('should throw BadRequestException if user already member', async () => {
         const roomWithExistingMember = {
           ...mockRoom,
+          type: RoomType.GROUP,
           members: [
             ...mockRoom.members,
             {
@@ -677,7 +2147,7 @@ describe('MessagesService', () => {
         const roomWithLeftMember = {
           id: 'room123',
           name: 'Test Room',
-          type: RoomType.DIRECT,
+          type: RoomType.GROUP,
           createdBy: 'user123',
           members: [
             {
@@ -713,6 +2183,19 @@ describe('MessagesService', () => {
         expect(leftMember.leftAt).toBeUndefined();
         expect(leftMember.joinedAt).toEqual(expect.any(Date));
       });
+
+      it('should throw ForbiddenException for direct rooms', async () => {
+        (roomModel.findById as jest.Mock).mockResolvedValue({
+          ...mockRoom,
+          members: [
+            { userId: 'user123', role: MemberRole.OWNER, joinedAt: new Date() },
+          ],
+        });
+
+        await expect(
+          service.addMemberToRoom('user123', 'room123', 'user789')
+        ).rejects.toThrow(ForbiddenException);
+      });
     });
 
     describe('leaveRoom', () => {
@@ -751,6 +2234,134 @@ describe('MessagesService', () => {
           BadRequestException
         );
       });
+
+      it('should throw BadRequestException if owner leaves a group with members', async () => {
+        (roomModel.findById as jest.Mock).mockResolvedValue({
+          ...mockRoom,
+          type: RoomType.GROUP,
+          members: [
+            { userId: 'user123', role: MemberRole.OWNER, joinedAt: new Date() },
+            {
+              userId: 'user456',
+              role: MemberRole.MEMBER,
+              joinedAt: new Date(),
+            },
+          ],
+        });
+
+        await expect(service.leaveRoom('user123', 'room123')).rejects.toThrow(
+          BadRequestException
+        );
+      });
+    });
+
+    describe('room management', () => {
+      let groupRoom: typeof mockRoom & {
+        save: jest.Mock;
+        members: Array<{
+          userId: string;
+          role: MemberRole;
+          joinedAt: Date;
+          leftAt?: Date;
+        }>;
+      };
+
+      beforeEach(() => {
+        groupRoom = {
+          ...mockRoom,
+          type: RoomType.GROUP,
+          members: [
+            { userId: 'user123', role: MemberRole.OWNER, joinedAt: new Date() },
+            { userId: 'user456', role: MemberRole.ADMIN, joinedAt: new Date() },
+            {
+              userId: 'user789',
+              role: MemberRole.MEMBER,
+              joinedAt: new Date(),
+            },
+          ],
+          save: jest.fn().mockImplementation(function (this: typeof groupRoom) {
+            return Promise.resolve({ ...this, toJSON: () => this });
+          }),
+        };
+        (roomModel.findById as jest.Mock).mockResolvedValue(groupRoom);
+      });
+
+      describe('removeMemberFromRoom', () => {
+        it('should let an admin kick a member', async () => {
+          await service.removeMemberFromRoom('user456', 'room123', 'user789');
+
+          expect(groupRoom.members[2].leftAt).toEqual(expect.any(Date));
+          expect(groupRoom.save).toHaveBeenCalled();
+        });
+
+        it('should not let an admin kick the owner', async () => {
+          await expect(
+            service.removeMemberFromRoom('user456', 'room123', 'user123')
+          ).rejects.toThrow(ForbiddenException);
+        });
+
+        it('should not let a member kick anyone', async () => {
+          await expect(
+            service.removeMemberFromRoom('user789', 'room123', 'user456')
+          ).rejects.toThrow(ForbiddenException);
+        });
+
+        it('should throw NotFoundException if target is not a member', async () => {
+          await expect(
+            service.removeMemberFromRoom('user123', 'room123', 'unknown')
+          ).rejects.toThrow(NotFoundException);
+        });
+      });
+
+      describe('updateMemberRole', () => {
+        it('should let the owner promote a member to admin', async () => {
+          await service.updateMemberRole(
+            'user123',
+            'room123',
+            'user789',
+            MemberRole.ADMIN
+          );
+
+          expect(groupRoom.members[2].role).toBe(MemberRole.ADMIN);
+        });
+
+        it('should not let an admin change roles', async () => {
+          await expect(
+            service.updateMemberRole(
+              'user456',
+              'room123',
+              'user789',
+              MemberRole.ADMIN
+            )
+          ).rejects.toThrow(ForbiddenException);
+        });
+
+        it('should refuse to grant the owner role', async () => {
+          await expect(
+            service.updateMemberRole(
+              'user123',
+              'room123',
+              'user789',
+              MemberRole.OWNER
+            )
+          ).rejects.toThrow(BadRequestException);
+        });
+      });
+
+      describe('transferOwnership', () => {
+        it('should make the target owner and demote the previous owner to admin', async () => {
+          await service.transferOwnership('user123', 'room123', 'user789');
+
+          expect(groupRoom.members[0].role).toBe(MemberRole.ADMIN);
+          expect(groupRoom.members[2].role).toBe(MemberRole.OWNER);
+        });
+
+        it('should not let a non-owner transfer ownership', async () => {
+          await expect(
+            service.transferOwnership('user456', 'room123', 'user789')
+          ).rejects.toThrow(ForbiddenException);
+        });
+      });
     });
 
     describe('deleteRoom', () => {
@@ -759,6 +2370,14 @@ describe('MessagesService', () => {
       beforeEach(() => {
         roomInstance = {
           ...mockRoom,
+          members: [
+            { userId: 'user123', role: MemberRole.OWNER, joinedAt: new Date() },
+            {
+              userId: 'user456',
+              role: MemberRole.MEMBER,
+              joinedAt: new Date(),
+            },
+          ],
           save: jest
             .fn()
             .mockImplementation(function (this: typeof roomInstance) {
@@ -771,7 +2390,7 @@ describe('MessagesService', () => {
       });
 
       it('should delete room and messages successfully', async () => {
-        await service.deleteRoom('room123');
+        await service.deleteRoom('user123', 'room123');
 
         expect(roomModel.findById).toHaveBeenCalledWith('room123');
         expect(roomInstance.isActive).toBe(false);
@@ -783,10 +2402,17 @@ describe('MessagesService', () => {
       it('should throw NotFoundException if room not found', async () => {
         (roomModel.findById as jest.Mock).mockResolvedValue(null);
 
-        await expect(service.deleteRoom('room123')).rejects.toThrow(
+        await expect(service.deleteRoom('user123', 'room123')).rejects.toThrow(
           NotFoundException
         );
       });
+
+      it('should throw ForbiddenException if user is not the owner', async () => {
+        await expect(service.deleteRoom('user456', 'room123')).rejects.toThrow(
+          ForbiddenException
+        );
+        expect(messageModel.deleteMany).not.toHaveBeenCalled();
+      });
     });
   });
 
@@ -798,21 +2424,36 @@ describe('MessagesService', () => {
         );
       });
 
-      it('should set user online successfully', async () => {
+      it('should add the connection to the connections of the user', async () => {
         const result = await service.setUserOnline('user123', 'socket123');
 
         expect(onlineUserModel.findOneAndUpdate).toHaveBeenCalledWith(
           { userId: 'user123' },
           {
-            userId: 'user123',
-            socketId: 'socket123',
-            lastSeen: expect.any(Date),
-            status: UserStatus.ONLINE,
+            $addToSet: { socketIds: 'socket123' },
+            $set: { lastSeen: expect.any(Date), isIdle: false },
+            $setOnInsert: { status: UserStatus.ONLINE },
           },
           { upsert: true, new: true, lean: true }
         );
         expect(result).toEqual(mockOnlineUser);
       });
+
+      it('should only use the requested status for the first connection', async () => {
+        await service.setUserOnline(
+          'user123',
+          'socket123',
+          UserStatus.INVISIBLE
+        );
+
+        expect(onlineUserModel.findOneAndUpdate).toHaveBeenCalledWith(
+          { userId: 'user123' },
+          expect.objectContaining({
+            $setOnInsert: { status: UserStatus.INVISIBLE },
+          }),
+          { upsert: true, new: true, lean: true }
+        );
+      });
     });
 
     describe('setUserOffline', () => {
@@ -820,13 +2461,64 @@ describe('MessagesService', () => {
         (onlineUserModel.deleteOne as jest.Mock).mockResolvedValue({});
       });
 
-      it('should set user offline successfully', async () => {
+      it('should keep the user online while other connections remain', async () => {
+        const remaining = { ...mockOnlineUser, socketIds: ['socket456'] };
+        (onlineUserModel.findOneAndUpdate as jest.Mock).mockResolvedValue(
+          remaining
+        );
+
+        const result = await service.setUserOffline('socket123');
+
+        expect(onlineUserModel.findOneAndUpdate).toHaveBeenCalledWith(
+          { socketIds: 'socket123' },
+          { $pull: { socketIds: 'socket123' } },
+          { new: true, lean: true }
+        );
+        expect(onlineUserModel.deleteOne).not.toHaveBeenCalled();
+        expect(result).toEqual(remaining);
+      });
+
+      it('should set user offline when the last connection closes', async () => {
+        (onlineUserModel.findOneAndUpdate as jest.Mock).mockResolvedValue({
+          ...mockOnlineUser,
+          socketIds: [],
+        });
+
         await service.setUserOffline('socket123');
 
         expect(onlineUserModel.deleteOne).toHaveBeenCalledWith({
-          socketId: 'socket123',
+          userId: 'user123',
+          socketIds: { $size: 0 },
         });
       });
+
+      it('should ignore unknown connections', async () => {
+        (onlineUserModel.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+        const result = await service.setUserOffline('unknown');
+
+        expect(onlineUserModel.deleteOne).not.toHaveBeenCalled();
+        expect(result).toBeNull();
+      });
+    });
+
+    describe('refreshLastSeen', () => {
+      it('should refresh the users holding the connections', async () => {
+        (onlineUserModel.updateMany as jest.Mock).mockResolvedValue({});
+
+        await service.refreshLastSeen(['socket123', 'socket456']);
+
+        expect(onlineUserModel.updateMany).toHaveBeenCalledWith(
+          { socketIds: { $in: ['socket123', 'socket456'] } },
+          { $set: { lastSeen: expect.any(Date) } }
+        );
+      });
+
+      it('should skip the update without connections', async () => {
+        await service.refreshLastSeen([]);
+
+        expect(onlineUserModel.updateMany).not.toHaveBeenCalled();
+      });
     });
 
     describe('updateUserStatus', () => {
@@ -844,11 +2536,54 @@ describe('MessagesService', () => {
 
         expect(onlineUserModel.findOneAndUpdate).toHaveBeenCalledWith(
           { userId: 'user123' },
-          { status: UserStatus.AWAY, lastSeen: expect.any(Date) },
+          {
+            $set: { status: UserStatus.AWAY, lastSeen: expect.any(Date) },
+            $unset: { customStatus: 1, statusEmoji: 1 },
+          },
           { new: true, lean: true }
         );
         expect(result).toEqual(mockOnlineUser);
       });
+
+      it('should set the custom status text and emoji', async () => {
+        await service.updateUserStatus(
+          'user123',
+          UserStatus.BUSY,
+          'In a meeting',
+          '📅'
+        );
+
+        expect(onlineUserModel.findOneAndUpdate).toHaveBeenCalledWith(
+          { userId: 'user123' },
+          {
+            $set: {
+              status: UserStatus.BUSY,
+              lastSeen: expect.any(Date),
+              customStatus: 'In a meeting',
+              statusEmoji: '📅',
+            },
+          },
+          { new: true, lean: true }
+        );
+      });
+    });
+
+    describe('setUserIdle', () => {
+      it('should only update users who were not already in that state', async () => {
+        (onlineUserModel.findOneAndUpdate as jest.Mock).mockResolvedValue({
+          ...mockOnlineUser,
+          isIdle: true,
+        });
+
+        const result = await service.setUserIdle('user123', true);
+
+        expect(onlineUserModel.findOneAndUpdate).toHaveBeenCalledWith(
+          { userId: 'user123', isIdle: { $ne: true } },
+          { isIdle: true, lastSeen: expect.any(Date) },
+          { new: true, lean: true }
+        );
+        expect(result?.isIdle).toBe(true);
+      });
     });
 
     describe('getOnlineUsers', () => {
@@ -899,6 +2634,134 @@ describe('MessagesService', () => {
     });
   });
 
+  describe('Deleted users', () => {
+    describe('deleteUserData', () => {
+      const mockFind = (replies: unknown[], messagesWithFiles: unknown[]) => {
+        (messageModel.find as jest.Mock).mockImplementation(
+          (filter: Record<string, unknown>) => ({
+            lean: () => ({
+              exec: () =>
+                Promise.resolve(
+                  'parentMessageId' in filter ? replies : messagesWithFiles
+                ),
+            }),
+          })
+        );
+      };
+
+      const groupRoom = (members: Array<Record<string, unknown>>) => ({
+        ...mockRoom,
+        type: RoomType.GROUP,
+        members,
+        save: jest.fn().mockResolvedValue(undefined),
+      });
+
+      beforeEach(() => {
+        (roomModel.find as jest.Mock).mockResolvedValue([]);
+        mockFind([], []);
+      });
+
+      it('should hand an owned group over to the highest ranked member', async () => {
+        const room = groupRoom([
+          { userId: 'user123', role: MemberRole.OWNER, joinedAt: new Date(1) },
+          { userId: 'user456', role: MemberRole.MEMBER, joinedAt: new Date(2) },
+          { userId: 'user789', role: MemberRole.ADMIN, joinedAt: new Date(3) },
+        ]);
+        (roomModel.find as jest.Mock).mockResolvedValue([room]);
+
+        await service.deleteUserData('user123');
+
+        expect(roomModel.find).toHaveBeenCalledWith({
+          'members.userId': 'user123',
+        });
+        expect(room.members).toEqual([
+          expect.objectContaining({
+            userId: 'user456',
+            role: MemberRole.MEMBER,
+          }),
+          expect.objectContaining({
+            userId: 'user789',
+            role: MemberRole.OWNER,
+          }),
+        ]);
+        expect(room.isActive).toBe(true);
+        expect(room.save).toHaveBeenCalled();
+      });
+
+      it('should deactivate a room nobody else is left in', async () => {
+        const room = groupRoom([
+          { userId: 'user123', role: MemberRole.OWNER, joinedAt: new Date() },
+          {
+            userId: 'user456',
+            role: MemberRole.MEMBER,
+            joinedAt: new Date(),
+            leftAt: new Date(),
+          },
+        ]);
+        (roomModel.find as jest.Mock).mockResolvedValue([room]);
+
+        await service.deleteUserData('user123');
+
+        expect(room.isActive).toBe(false);
+        expect(room.members.map((m) => m.userId)).toEqual(['user456']);
+      });
+
+      it('should decrement the reply counts of the threads', async () => {
+        mockFind(
+          [
+            { parentMessageId: 'parent1' },
+            { parentMessageId: 'parent1' },
+            { parentMessageId: 'parent2' },
+          ],
+          []
+        );
+
+        await service.deleteUserData('user123');
+
+        expect(messageModel.findByIdAndUpdate).toHaveBeenCalledWith('parent1', {
+          $inc: { threadReplyCount: -2 },
+        });
+        expect(messageModel.findByIdAndUpdate).toHaveBeenCalledWith('parent2', {
+          $inc: { threadReplyCount: -1 },
+        });
+      });
+
+      it('should delete the files and anonymize the messages', async () => {
+        mockFind([], [{ attachments: [{ storageKey: 'room123/file1.png' }] }]);
+
+        await service.deleteUserData('user123');
+
+        expect(storage.delete).toHaveBeenCalledWith('room123/file1.png');
+        expect(messageModel.updateMany).toHaveBeenCalledWith(
+          { senderId: 'user123', isDeleted: false },
+          { $set: { isDeleted: true, deletedAt: expect.any(Date) } }
+        );
+        expect(messageModel.updateMany).toHaveBeenCalledWith(
+          { senderId: 'user123' },
+          expect.objectContaining({
+            $set: expect.objectContaining({
+              senderId: DELETED_SENDER_ID,
+              content: '',
+              attachments: [],
+            }),
+          })
+        );
+      });
+
+      it('should remove the reactions and presence of the user', async () => {
+        await service.deleteUserData('user123');
+
+        expect(messageModel.updateMany).toHaveBeenCalledWith(
+          { 'reactions.userIds': 'user123' },
+          { $pull: { 'reactions.$[].userIds': 'user123' } }
+        );
+        expect(onlineUserModel.deleteMany).toHaveBeenCalledWith({
+          userId: 'user123',
+        });
+      });
+    });
+  });
+
   describe('Helpers', () => {
     describe('userHasAccessToRoom', () => {
       it('should return true if user is active member', async () => {
@@ -1,16 +1,23 @@
 import {
+  Inject,
   Injectable,
   NotFoundException,
   ForbiddenException,
   BadRequestException,
 } from '@nestjs/common';
-import { Model } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { Model, HydratedDocument } from 'mongoose';
 import { InjectModel } from '@nestjs/mongoose';
 
 import {
+  GetThreadDto,
   GetMessagesDto,
   CreateMessageDto,
+  SearchMessagesDto,
+  SyncMessagesDto,
   UpdateMessageDto,
+  UploadAttachmentDto,
+  CreateGroupRoomDto,
   CreateDirectRoomDto,
 } from '@backend/messages/dto/message.dto';
 
@@ -19,12 +26,70 @@ import {
   Room,
   RoomType,
   MemberRole,
+  PinnedMessage,
 } from '@backend/messages/schemas/room.schema';
 import {
   OnlineUser,
   UserStatus,
 } from '@backend/messages/schemas/online-user.schema';
-import { Message } from '@backend/messages/schemas/message.schema';
+import {
+  Message,
+  MessageType,
+  MessageAttachment,
+} from '@backend/messages/schemas/message.schema';
+import {
+  RoomAction,
+  MEMBER_ROLE_RANK,
+  getEffectiveRole,
+  findActiveMember,
+  assertRoomPermission,
+} from '@backend/messages/policies/room.policy';
+import {
+  buildCursorFilter,
+  decodeMessageCursor,
+  encodeMessageCursor,
+} from '@backend/messages/pagination/message-cursor';
+import {
+  buildMessageSnippet,
+  extractSearchTerms,
+} from '@backend/messages/search/message-snippet';
+import {
+  sanitizeFileName,
+  validateAttachment,
+} from '@backend/messages/attachments/message-attachment';
+import { STORAGE_DRIVER } from '@backend/app/storage/constants/storage.constants';
+import type { StorageDriver } from '@backend/app/storage/interfaces/storage-driver.interface';
+import type { UploadedFileInterface } from '@backend/app/storage/interfaces/uploaded-file.interface';
+
+/**
+ * Maximum number of distinct emojis on a single message
+ */
+const MAX_REACTIONS_PER_MESSAGE = 20;
+
+/**
+ * Maximum number of messages pinned to a single room
+ */
+const MAX_PINNED_MESSAGES_PER_ROOM = 50;
+
+/**
+ * Pinned message listed with its content and the cursor to jump to it
+ */
+export type RoomPin = PinnedMessage & { message: Message; cursor: string };
+
+/**
+ * Sender of the messages of deleted users, which no longer point to them
+ */
+export const DELETED_SENDER_ID = 'deleted-user';
+
+/**
+ * Sender name shown on the messages of deleted users
+ */
+const DELETED_SENDER_USERNAME = 'Deleted user';
+
+/**
+ * MongoDB error code of a write rejected by a unique index
+ */
+const DUPLICATE_KEY_ERROR_CODE = 11000;
 
 @Injectable()
 export class MessagesService {
@@ -32,24 +97,37 @@ export class MessagesService {
     @InjectModel(Room.name) private roomModel: Model<Room>,
     @InjectModel(Message.name) private messageModel: Model<Message>,
     @InjectModel(OnlineUser.name) private onlineUserModel: Model<OnlineUser>,
-    private usersService: UsersService
+    private usersService: UsersService,
+    @Inject(STORAGE_DRIVER) private storage: StorageDriver
   ) {}
 
   // ========== MESSAGES ==========
 
   /**
-   * Creates a new message in a room after validating user access
+   * Creates a new message in a room after validating user access.
+   * A message resent with the same client message ID is not stored again,
+   * the message stored the first time is returned instead.
    * 
    * @param {string} userId - The ID of the user sending the message
    * @param {CreateMessageDto} createMessageDto - Message data including content and room ID
+   * @param {MessageAttachment[]} [attachments=[]] - Metadata of the files already stored for the message
    * @returns {Promise<Message>} The created message with sender information
-   * @throws {NotFoundException} When the specified room is not found
+   * @throws {NotFoundException} When the specified room or parent message is not found
    * @throws {ForbiddenException} When user doesn't have access to the room
+   * @throws {BadRequestException} When the parent message cannot start a thread or an attachment type is used without attachments
    */
   async createMessage(
     userId: string,
-    createMessageDto: CreateMessageDto
+    createMessageDto: CreateMessageDto,
+    attachments: MessageAttachment[] = []
   ): Promise<Message> {
+    const { messageType = MessageType.TEXT } = createMessageDto;
+    if (messageType !== MessageType.TEXT && attachments.length === 0) {
+      throw new BadRequestException(
+        'Attachments must be uploaded to POST /messages/attachments'
+      );
+    }
+
     const room = await this.getRoomById(createMessageDto.roomId);
     if (!room) {
       throw new NotFoundException('Room not found');
@@ -60,16 +138,43 @@ export class MessagesService {
       throw new ForbiddenException('You do not have access to this room');
     }
 
+    const { parentMessageId } = createMessageDto;
+    if (parentMessageId) {
+      await this.getThreadParent(parentMessageId, createMessageDto.roomId);
+    }
+
     const user = await this.usersService.findOne(userId);
 
     const message = new this.messageModel({
       ...createMessageDto,
       senderId: userId,
-      senderUsername: `${user.firstName} ${user.lastName}`,
+      senderUsername: user.publicName,
+      senderAvatar: user.avatarUrl ?? undefined,
+      attachments,
       timestamp: new Date(),
     });
 
-    const savedMessage = await message.save();
+    let savedMessage: typeof message;
+    try {
+      savedMessage = await message.save();
+    } catch (error) {
+      const sentMessage = await this.findDuplicateMessage(
+        error,
+        userId,
+        createMessageDto.clientMessageId
+      );
+      if (sentMessage) {
+        return sentMessage;
+      }
+      throw error;
+    }
+
+    if (parentMessageId) {
+      await this.messageModel.findByIdAndUpdate(parentMessageId, {
+        $inc: { threadReplyCount: 1 },
+        threadLastReplyAt: savedMessage.timestamp,
+      });
+    }
 
     await this.roomModel.findByIdAndUpdate(createMessageDto.roomId, {
       lastActivity: new Date(),
@@ -79,14 +184,36 @@ export class MessagesService {
   }
 
   /**
-   * Retrieves messages from a room with pagination and access control
+   * Finds a message already stored for a client message ID of the sender
+   *
+   * @param {string} userId - The ID of the user who sent the message
+   * @param {string} clientMessageId - The ID generated by the client for the message
+   * @returns {Promise<Message | null>} The stored message, or null if it was never received
+   */
+  async findSentMessage(
+    userId: string,
+    clientMessageId: string
+  ): Promise<Message | null> {
+    const message = await this.messageModel.findOne({
+      senderId: userId,
+      clientMessageId,
+    });
+
+    return message ? message.toJSON() : null;
+  }
+
+  /**
+   * Retrieves a page of messages from a room with cursor pagination and access control.
+   * Without a cursor the latest messages are returned; `before` walks back
+   * through the history and `after` walks forward from a known message.
    * 
    * @param {string} userId - The ID of the user requesting messages
    * @param {string} roomId - The ID of the room to fetch messages from
-   * @param {GetMessagesDto} query - Query parameters for pagination and filtering
-   * @returns {Promise<Message[]>} Array of messages sorted by timestamp (newest first)
+   * @param {GetMessagesDto} query - Query parameters for pagination
+   * @returns {Promise<{items: Message[], nextCursor: string | null, hasMore: boolean}>} The page of messages sorted by timestamp (oldest first)
    * @throws {NotFoundException} When the specified room is not found
    * @throws {ForbiddenException} When user doesn't have access to the room
+   * @throws {BadRequestException} When both cursors are given or a cursor is malformed
    */
   async getMessages(userId: string, roomId: string, query: GetMessagesDto) {
     const room = await this.getRoomById(roomId);
@@ -100,20 +227,92 @@ export class MessagesService {
       throw new ForbiddenException('You do not have access to this room');
     }
 
-    const filter = { roomId, isDeleted: false, timestamp: { $lt: new Date() } };
+    if (query.before && query.after) {
+      throw new BadRequestException(
+        'Only one of before and after can be given'
+      );
+    }
 
-    if (query.before) {
-      filter.timestamp = { $lt: new Date(query.before) };
+    const filter = {
+      roomId,
+      isDeleted: false,
+      parentMessageId: { $exists: false },
+    };
+
+    const forward = Boolean(query.after);
+    const cursor = query.after || query.before;
+    if (cursor) {
+      Object.assign(
+        filter,
+        buildCursorFilter(
+          decodeMessageCursor(cursor),
+          forward ? 'after' : 'before'
+        )
+      );
     }
 
+    const limit = query.limit || 50;
+    const order = forward ? 1 : -1;
     const messages = await this.messageModel
       .find(filter)
+      .sort({ timestamp: order, _id: order })
+      .limit(limit + 1)
+      .exec();
+
+    const hasMore = messages.length > limit;
+    const page = messages.slice(0, limit);
+    if (!forward) {
+      page.reverse();
+    }
+
+    const edge = forward ? page[page.length - 1] : page[0];
+
+    return {
+      items: page.map((message) => message.toJSON()),
+      nextCursor:
+        hasMore && edge
+          ? encodeMessageCursor({
+              timestamp: edge.timestamp,
+              id: edge._id.toString(),
+            })
+          : null,
+      hasMore,
+    };
+  }
+
+  /**
+   * Retrieves a message and a page of the replies in its thread
+   *
+   * @param {string} userId - The ID of the user requesting the thread
+   * @param {string} messageId - The ID of the message starting the thread
+   * @param {GetThreadDto} query - Query parameters for pagination
+   * @returns {Promise<{parent: Message, replies: Message[], hasMore: boolean}>} The parent message and its replies sorted by timestamp (oldest first)
+   * @throws {NotFoundException} When the message is not found
+   * @throws {ForbiddenException} When user doesn't have access to the room
+   * @throws {BadRequestException} When the message is itself a thread reply
+   */
+  async getThread(userId: string, messageId: string, query: GetThreadDto) {
+    const parent = await this.getThreadParent(messageId);
+
+    const room = await this.getRoomById(parent.roomId);
+    const hasAccess = await this.userHasAccessToRoom(userId, room);
+    if (!hasAccess) {
+      throw new ForbiddenException('You do not have access to this room');
+    }
+
+    const limit = query.limit || 50;
+    const replies = await this.messageModel
+      .find({ parentMessageId: messageId, isDeleted: false })
       .sort({ timestamp: 1 })
-      .limit(query.limit || 50)
       .skip(query.offset || 0)
+      .limit(limit + 1)
       .exec();
 
-    return messages.map((message) => message.toJSON());
+    return {
+      parent: parent.toJSON(),
+      replies: replies.slice(0, limit).map((reply) => reply.toJSON()),
+      hasMore: replies.length > limit,
+    };
   }
 
   /**
@@ -172,13 +371,472 @@ export class MessagesService {
       throw new ForbiddenException('You can only delete your own messages');
     }
 
+    const wasDeleted = message.isDeleted;
     message.isDeleted = true;
     message.deletedAt = new Date();
 
     const deletedMessage = await message.save();
+
+    if (message.parentMessageId && !wasDeleted) {
+      await this.messageModel.findByIdAndUpdate(message.parentMessageId, {
+        $inc: { threadReplyCount: -1 },
+      });
+    }
+
+    if (!message.parentMessageId) {
+      await this.roomModel.findByIdAndUpdate(message.roomId, {
+        $pull: { pinnedMessages: { messageId } },
+      });
+    }
+
     return deletedMessage.toJSON();
   }
 
+  // ========== ATTACHMENTS ==========
+
+  /**
+   * Stores an uploaded file and sends it in a room as an IMAGE or FILE message.
+   * The caption defaults to the file name, the stored file is removed
+   * if the message cannot be created.
+   *
+   * @param {string} userId - The ID of the user sending the file
+   * @param {UploadAttachmentDto} uploadAttachmentDto - Target room, caption and thread
+   * @param {UploadedFileInterface} [file] - The uploaded file
+   * @returns {Promise<Message>} The created message with its attachment
+   * @throws {BadRequestException} When the file is missing, empty, unsupported or does not match its type
+   * @throws {PayloadTooLargeException} When the file is too large
+   * @throws {NotFoundException} When the specified room or parent message is not found
+   * @throws {ForbiddenException} When user doesn't have access to the room
+   */
+  async createAttachmentMessage(
+    userId: string,
+    uploadAttachmentDto: UploadAttachmentDto,
+    file?: UploadedFileInterface
+  ): Promise<Message> {
+    if (!file) {
+      throw new BadRequestException('A file is required');
+    }
+
+    const messageType = validateAttachment(file);
+    const { roomId, content, parentMessageId } = uploadAttachmentDto;
+
+    const room = await this.getRoomById(roomId);
+    const hasAccess = await this.userHasAccessToRoom(userId, room);
+    if (!hasAccess) {
+      throw new ForbiddenException('You do not have access to this room');
+    }
+
+    const { mimetype, size, buffer, originalname } = file;
+    const id = randomUUID();
+    const attachment: MessageAttachment = {
+      id,
+      storageKey: `attachments/${roomId}/${id}`,
+      fileName: sanitizeFileName(originalname),
+      mimeType: mimetype,
+      size,
+    };
+
+    await this.storage.put(attachment.storageKey, buffer, mimetype);
+
+    try {
+      return await this.createMessage(
+        userId,
+        {
+          roomId,
+          parentMessageId,
+          messageType,
+          content: content?.trim() || attachment.fileName,
+        },
+        [attachment]
+      );
+    } catch (error) {
+      await this.storage.delete(attachment.storageKey).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the content of a message attachment with access control
+   *
+   * @param {string} userId - The ID of the user downloading the file
+   * @param {string} messageId - The ID of the message
+   * @param {string} attachmentId - The ID of the attachment
+   * @returns {Promise<{attachment: MessageAttachment, content: Buffer}>} The attachment metadata and content
+   * @throws {NotFoundException} When the message or attachment is not found, or the message is deleted
+   * @throws {ForbiddenException} When user doesn't have access to the room
+   */
+  async getAttachment(userId: string, messageId: string, attachmentId: string) {
+    const message = await this.messageModel.findById(messageId);
+    if (!message || message.isDeleted) {
+      throw new NotFoundException('Message not found');
+    }
+
+    const room = await this.getRoomById(message.roomId);
+    const hasAccess = await this.userHasAccessToRoom(userId, room);
+    if (!hasAccess) {
+      throw new ForbiddenException('You do not have access to this room');
+    }
+
+    const attachment = message.attachments.find(
+      (item) => item.id === attachmentId
+    );
+    if (!attachment) {
+      throw new NotFoundException('Attachment not found');
+    }
+
+    const content = await this.storage.get(attachment.storageKey);
+
+    return { attachment, content };
+  }
+
+  // ========== SEARCH ==========
+
+  /**
+   * Searches the messages of the rooms the user is an active member of.
+   * Results are sorted by text relevance, then newest first, and come with
+   * a highlighted snippet and the cursor of the room message to jump to.
+   *
+   * @param {string} userId - The ID of the user searching
+   * @param {SearchMessagesDto} query - Search string and filters
+   * @returns {Promise<{items: MessageSearchResult[], hasMore: boolean}>} The matching messages
+   * @throws {NotFoundException} When the room filter targets an unknown room
+   * @throws {ForbiddenException} When user doesn't have access to the filtered room
+   * @throws {BadRequestException} When the date range is inverted
+   */
+  async searchMessages(userId: string, query: SearchMessagesDto) {
+    let roomIds: string[];
+    if (query.roomId) {
+      const room = await this.getRoomById(query.roomId);
+      const hasAccess = await this.userHasAccessToRoom(userId, room);
+      if (!hasAccess) {
+        throw new ForbiddenException('You do not have access to this room');
+      }
+      roomIds = [query.roomId];
+    } else {
+      roomIds = await this.getAccessibleRoomIds(userId);
+    }
+
+    const timestamp: { $gte?: Date; $lte?: Date } = {};
+    if (query.from) {
+      timestamp.$gte = new Date(query.from);
+    }
+    if (query.to) {
+      timestamp.$lte = new Date(query.to);
+    }
+    if (timestamp.$gte && timestamp.$lte && timestamp.$gte > timestamp.$lte) {
+      throw new BadRequestException('The from date must precede the to date');
+    }
+
+    const filter = {
+      $text: { $search: query.q },
+      roomId: { $in: roomIds },
+      isDeleted: false,
+      ...(query.senderId && { senderId: query.senderId }),
+      ...((query.from || query.to) && { timestamp }),
+    };
+
+    const limit = query.limit || 20;
+    const messages = await this.messageModel
+      .find(filter)
+      .sort({ score: { $meta: 'textScore' }, timestamp: -1 })
+      .limit(limit + 1)
+      .exec();
+    const matches = messages.slice(0, limit);
+
+    const parentIds = [
+      ...new Set(
+        matches
+          .map((message) => message.parentMessageId)
+          .filter((parentId): parentId is string => !!parentId)
+      ),
+    ];
+    const parents = parentIds.length
+      ? await this.messageModel.find({ _id: { $in: parentIds } }).exec()
+      : [];
+    const parentsById = new Map(
+      parents.map((parent) => [parent._id.toString(), parent])
+    );
+
+    const terms = extractSearchTerms(query.q);
+
+    return {
+      items: matches.map((message) => {
+        const parent = message.parentMessageId
+          ? parentsById.get(message.parentMessageId)
+          : undefined;
+        const anchor = parent ?? message;
+
+        return {
+          message: message.toJSON(),
+          ...(parent && { parent: parent.toJSON() }),
+          ...buildMessageSnippet(message.content, terms),
+          cursor: encodeMessageCursor({
+            timestamp: anchor.timestamp,
+            id: anchor._id.toString(),
+          }),
+        };
+      }),
+      hasMore: messages.length > limit,
+    };
+  }
+
+  // ========== SYNC ==========
+
+  /**
+   * Lists what changed for a user since a previous sync, for a client
+   * catching up after a disconnection: the messages created, edited or
+   * deleted in their rooms, the rooms they joined or that changed, and
+   * the rooms they no longer belong to.
+   *
+   * @param {string} userId - The ID of the user syncing
+   * @param {SyncMessagesDto} query - Date of the previous sync and message limit
+   * @returns {Promise<{messages: Message[], rooms: Room[], removedRoomIds: string[], hasMore: boolean, syncedAt: Date}>} The changes, least recently changed messages first
+   */
+  async syncChanges(userId: string, query: SyncMessagesDto) {
+    // Taken before reading, changes made meanwhile are returned again next time
+    const syncedAt = new Date();
+    const since = new Date(query.since);
+
+    const changedRooms = await this.roomModel
+      .find({ 'members.userId': userId, updatedAt: { $gt: since } })
+      .exec();
+
+    const unreadCounts = await this.countUnreadMessages(
+      userId,
+      changedRooms.filter((room) => room.isActive)
+    );
+
+    const rooms = [];
+    const removedRoomIds: string[] = [];
+    for (const room of changedRooms) {
+      const member = room.members.find((m) => m.userId === userId);
+      if (room.isActive && member && !member.leftAt) {
+        rooms.push({
+          ...room.toJSON(),
+          unreadCount: unreadCounts.get(room.id) ?? 0,
+        });
+      } else if (!room.isActive || (member?.leftAt && member.leftAt > since)) {
+        removedRoomIds.push(room._id.toString());
+      }
+    }
+
+    const roomIds = await this.getAccessibleRoomIds(userId);
+    const limit = query.limit || 200;
+    const messages = await this.messageModel
+      .find({ roomId: { $in: roomIds }, updatedAt: { $gt: since } })
+      .sort({ updatedAt: 1 })
+      .limit(limit + 1)
+      .exec();
+
+    return {
+      messages: messages.slice(0, limit).map((message) => message.toJSON()),
+      rooms,
+      removedRoomIds,
+      hasMore: messages.length > limit,
+      syncedAt,
+    };
+  }
+
+  // ========== REACTIONS ==========
+
+  /**
+   * Adds the user's reaction with an emoji to a message.
+   * Reacting twice with the same emoji has no effect.
+   *
+   * @param {string} userId - The ID of the user reacting
+   * @param {string} messageId - The ID of the message to react to
+   * @param {string} emoji - The emoji to react with
+   * @returns {Promise<Message>} The message with its updated reactions
+   * @throws {NotFoundException} When the message is not found or deleted
+   * @throws {ForbiddenException} When user doesn't have access to the room
+   * @throws {BadRequestException} When the message already has too many distinct emojis
+   */
+  async addReaction(
+    userId: string,
+    messageId: string,
+    emoji: string
+  ): Promise<Message> {
+    await this.getReactableMessage(userId, messageId);
+
+    // Updated in place so that users reacting at the same time do not
+    // overwrite each other's reactions
+    const joinReaction = () =>
+      this.messageModel.findOneAndUpdate(
+        { _id: messageId, 'reactions.emoji': emoji },
+        { $addToSet: { 'reactions.$.userIds': userId } },
+        { new: true }
+      );
+    const addReaction = () =>
+      this.messageModel.findOneAndUpdate(
+        {
+          _id: messageId,
+          'reactions.emoji': { $ne: emoji },
+          [`reactions.${MAX_REACTIONS_PER_MESSAGE - 1}`]: { $exists: false },
+        },
+        { $push: { reactions: { emoji, userIds: [userId] } } },
+        { new: true }
+      );
+
+    // Another user may have added the emoji between the two updates
+    const updatedMessage =
+      (await joinReaction()) ?? (await addReaction()) ?? (await joinReaction());
+    if (!updatedMessage) {
+      throw new BadRequestException(
+        'This message has reached the maximum number of reactions'
+      );
+    }
+
+    return updatedMessage.toJSON();
+  }
+
+  /**
+   * Removes the user's reaction with an emoji from a message.
+   * The emoji entry is dropped once nobody reacts with it anymore.
+   *
+   * @param {string} userId - The ID of the user removing the reaction
+   * @param {string} messageId - The ID of the message
+   * @param {string} emoji - The emoji to remove
+   * @returns {Promise<Message>} The message with its updated reactions
+   * @throws {NotFoundException} When the message is not found or deleted
+   * @throws {ForbiddenException} When user doesn't have access to the room
+   */
+  async removeReaction(
+    userId: string,
+    messageId: string,
+    emoji: string
+  ): Promise<Message> {
+    await this.getReactableMessage(userId, messageId);
+
+    await this.messageModel.updateOne(
+      { _id: messageId },
+      { $pull: { 'reactions.$[reaction].userIds': userId } },
+      { arrayFilters: [{ 'reaction.emoji': emoji }] }
+    );
+    const updatedMessage = await this.messageModel.findByIdAndUpdate(
+      messageId,
+      { $pull: { reactions: { userIds: { $size: 0 } } } },
+      { new: true }
+    );
+    if (!updatedMessage) {
+      throw new NotFoundException('Message not found');
+    }
+
+    return updatedMessage.toJSON();
+  }
+
+  // ========== PINS ==========
+
+  /**
+   * Pins a message to its room.
+   * Pinning an already pinned message has no effect.
+   *
+   * @param {string} userId - The ID of the user pinning the message
+   * @param {string} messageId - The ID of the message to pin
+   * @returns {Promise<RoomPin>} The pin with the pinned message
+   * @throws {NotFoundException} When the message or its room is not found
+   * @throws {ForbiddenException} When the user's role in the room does not allow pinning
+   * @throws {BadRequestException} When the message is a reply or the room has too many pinned messages
+   */
+  async pinMessage(userId: string, messageId: string): Promise<RoomPin> {
+    const { message, room } = await this.getPinnableMessage(userId, messageId);
+
+    const existingPin = room.pinnedMessages.find(
+      (p) => p.messageId === messageId
+    );
+    if (existingPin) {
+      return this.toRoomPin(existingPin, message);
+    }
+
+    // The pin is only added if the message is still unpinned and the room
+    // below the limit, concurrent pins cannot go over it
+    const pin = { messageId, pinnedBy: userId, pinnedAt: new Date() };
+    const updatedRoom = await this.roomModel.findOneAndUpdate(
+      {
+        _id: room._id,
+        'pinnedMessages.messageId': { $ne: messageId },
+        [`pinnedMessages.${MAX_PINNED_MESSAGES_PER_ROOM - 1}`]: {
+          $exists: false,
+        },
+      },
+      { $push: { pinnedMessages: pin } },
+      { new: true }
+    );
+
+    if (!updatedRoom) {
+      // Another request may have pinned the same message in the meantime
+      const currentRoom = await this.roomModel.findById(room._id);
+      const currentPin = currentRoom?.pinnedMessages.find(
+        (p) => p.messageId === messageId
+      );
+      if (currentPin) {
+        return this.toRoomPin(currentPin, message);
+      }
+
+      throw new BadRequestException(
+        'This room has reached the maximum number of pinned messages'
+      );
+    }
+
+    return this.toRoomPin(pin, message);
+  }
+
+  /**
+   * Unpins a message from its room.
+   * Unpinning a message that is not pinned has no effect.
+   *
+   * @param {string} userId - The ID of the user unpinning the message
+   * @param {string} messageId - The ID of the message to unpin
+   * @returns {Promise<Message>} The unpinned message
+   * @throws {NotFoundException} When the message or its room is not found
+   * @throws {ForbiddenException} When the user's role in the room does not allow unpinning
+   * @throws {BadRequestException} When the message is a reply
+   */
+  async unpinMessage(userId: string, messageId: string): Promise<Message> {
+    const { message, room } = await this.getPinnableMessage(userId, messageId);
+
+    if (room.pinnedMessages.some((p) => p.messageId === messageId)) {
+      await this.roomModel.findByIdAndUpdate(room._id, {
+        $pull: { pinnedMessages: { messageId } },
+      });
+    }
+
+    return message.toJSON();
+  }
+
+  /**
+   * Lists the pinned messages of a room
+   *
+   * @param {string} userId - The ID of the user requesting the pins
+   * @param {string} roomId - The ID of the room
+   * @returns {Promise<RoomPin[]>} The pins with their messages, most recently pinned first
+   * @throws {NotFoundException} When the room is not found
+   * @throws {ForbiddenException} When user doesn't have access to the room
+   */
+  async getRoomPins(userId: string, roomId: string): Promise<RoomPin[]> {
+    const room = await this.getRoomById(roomId);
+    const hasAccess = await this.userHasAccessToRoom(userId, room);
+    if (!hasAccess) {
+      throw new ForbiddenException('You do not have access to this room');
+    }
+
+    const pins = room.pinnedMessages;
+    const messages = await this.messageModel
+      .find({
+        _id: { $in: pins.map((pin) => pin.messageId) },
+        isDeleted: false,
+      })
+      .exec();
+    const messagesById = new Map(
+      messages.map((message) => [message._id.toString(), message])
+    );
+
+    // Deleted messages are unpinned, older rooms may still point to them
+    return [...pins].reverse().flatMap((pin) => {
+      const message = messagesById.get(pin.messageId);
+      return message ? [this.toRoomPin(pin, message)] : [];
+    });
+  }
+
   // ========== ROOMS ==========
 
   /**
@@ -216,7 +874,7 @@ export class MessagesService {
       members: [
         {
           userId,
-          role: MemberRole.ADMIN,
+          role: MemberRole.OWNER,
           joinedAt: new Date(),
         },
         {
@@ -232,6 +890,59 @@ export class MessagesService {
     return savedRoom.toJSON();
   }
 
+  /**
+   * Creates a named group room with the creator and an initial member list
+   *
+   * @param {string} userId - The ID of the user creating the room
+   * @param {CreateGroupRoomDto} createGroupRoomDto - Group name, optional description and member IDs
+   * @returns {Promise<Room>} The created group room
+   * @throws {NotFoundException} When one of the members is not found
+   * @throws {BadRequestException} When no member other than the creator is provided
+   */
+  async createGroupRoom(
+    userId: string,
+    createGroupRoomDto: CreateGroupRoomDto
+  ): Promise<Room> {
+    const { name, description, memberIds } = createGroupRoomDto;
+
+    const uniqueMemberIds = [...new Set(memberIds)].filter(
+      (memberId) => memberId !== userId
+    );
+    if (uniqueMemberIds.length === 0) {
+      throw new BadRequestException(
+        'A group room needs at least one other member'
+      );
+    }
+
+    for (const memberId of uniqueMemberIds) {
+      await this.usersService.findOne(memberId);
+    }
+
+    const joinedAt = new Date();
+    const room = new this.roomModel({
+      name: name.trim(),
+      description: description?.trim() || undefined,
+      type: RoomType.GROUP,
+      createdBy: userId,
+      members: [
+        {
+          userId,
+          role: MemberRole.OWNER,
+          joinedAt,
+        },
+        ...uniqueMemberIds.map((memberId) => ({
+          userId: memberId,
+          role: MemberRole.MEMBER,
+          joinedAt,
+        })),
+      ],
+      lastActivity: joinedAt,
+    });
+
+    const savedRoom = await room.save();
+    return savedRoom.toJSON();
+  }
+
   /**
    * Retrieves all active rooms that a user is a member of
    * 
@@ -241,14 +952,40 @@ export class MessagesService {
   async getUserRooms(userId: string) {
     const rooms = await this.roomModel
       .find({
-        'members.userId': userId,
-        'members.leftAt': { $exists: false },
+        members: { $elemMatch: { userId, leftAt: { $exists: false } } },
         isActive: true,
       })
       .sort({ lastActivity: -1 })
       .exec();
 
-    return rooms.map((room) => room.toJSON());
+    const unreadCounts = await this.countUnreadMessages(userId, rooms);
+
+    return rooms.map((room) => ({
+      ...room.toJSON(),
+      unreadCount: unreadCounts.get(room.id) ?? 0,
+    }));
+  }
+
+  /**
+   * Lists the IDs of the active rooms a user is an active member of,
+   * without loading the rooms
+   *
+   * @param {string} userId - The ID of the user
+   * @returns {Promise<string[]>} The IDs of the rooms
+   */
+  async getUserRoomIds(userId: string): Promise<string[]> {
+    const rooms = await this.roomModel
+      .find(
+        {
+          members: { $elemMatch: { userId, leftAt: { $exists: false } } },
+          isActive: true,
+        },
+        { _id: 1 }
+      )
+      .lean()
+      .exec();
+
+    return rooms.map((room) => room._id.toString());
   }
 
   /**
@@ -287,12 +1024,7 @@ export class MessagesService {
       throw new NotFoundException('Room not found');
     }
 
-    const userMember = room.members.find((m) => m.userId === userId);
-    if (!userMember || !['owner', 'admin'].includes(userMember.role)) {
-      throw new ForbiddenException(
-        'Only room owners and admins can add members'
-      );
-    }
+    assertRoomPermission(room, userId, RoomAction.ADD_MEMBER);
 
     const existingMember = room.members.find((m) => m.userId === memberId);
     if (existingMember && !existingMember.leftAt) {
@@ -302,6 +1034,7 @@ export class MessagesService {
     if (existingMember) {
       existingMember.leftAt = undefined;
       existingMember.joinedAt = new Date();
+      existingMember.role = MemberRole.MEMBER;
     } else {
       room.members.push({
         userId: memberId,
@@ -322,7 +1055,7 @@ export class MessagesService {
    * @param {string} roomId - The ID of the room to leave
    * @returns {Promise<void>} Promise that resolves when user has left
    * @throws {NotFoundException} When the room is not found
-   * @throws {BadRequestException} When user is not a member of the room
+   * @throws {BadRequestException} When user is not a member of the room, or is the owner of a group with other members
    */
   async leaveRoom(userId: string, roomId: string): Promise<void> {
     const room = await this.roomModel.findById(roomId);
@@ -335,49 +1068,262 @@ export class MessagesService {
       throw new BadRequestException('You are not a member of this room');
     }
 
+    const hasOtherMembers = room.members.some(
+      (m) => m.userId !== userId && !m.leftAt
+    );
+    if (
+      room.type === RoomType.GROUP &&
+      hasOtherMembers &&
+      getEffectiveRole(room, userId) === MemberRole.OWNER
+    ) {
+      throw new BadRequestException(
+        'Transfer ownership of this room before leaving it'
+      );
+    }
+
     member.leftAt = new Date();
     await room.save();
   }
 
   /**
-   * Deactivates a room and removes all its messages (Admin only operation)
-   * 
+   * Kicks an active member out of a room
+   *
+   * @param {string} userId - The ID of the user kicking the member (must outrank them)
+   * @param {string} roomId - The ID of the room to remove the member from
+   * @param {string} memberId - The ID of the member to remove
+   * @returns {Promise<Room>} The updated room
+   * @throws {NotFoundException} When the room or the member is not found
+   * @throws {ForbiddenException} When user lacks permission to remove this member
+   * @throws {BadRequestException} When user tries to remove themselves
+   */
+  async removeMemberFromRoom(
+    userId: string,
+    roomId: string,
+    memberId: string
+  ): Promise<Room> {
+    const room = await this.roomModel.findById(roomId);
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+
+    if (memberId === userId) {
+      throw new BadRequestException('Use the leave endpoint to leave a room');
+    }
+
+    assertRoomPermission(room, userId, RoomAction.REMOVE_MEMBER, memberId);
+
+    const member = findActiveMember(room, memberId);
+    if (!member) {
+      throw new NotFoundException('Member not found in this room');
+    }
+
+    member.leftAt = new Date();
+
+    const updatedRoom = await room.save();
+    return updatedRoom.toJSON();
+  }
+
+  /**
+   * Promotes or demotes an active member (owner only operation)
+   *
+   * @param {string} userId - The ID of the user changing the role
+   * @param {string} roomId - The ID of the room
+   * @param {string} memberId - The ID of the member whose role changes
+   * @param {MemberRole} role - The new role, ADMIN or MEMBER
+   * @returns {Promise<Room>} The updated room
+   * @throws {NotFoundException} When the room or the member is not found
+   * @throws {ForbiddenException} When user lacks permission to change roles
+   * @throws {BadRequestException} When trying to grant OWNER or to change one's own role
+   */
+  async updateMemberRole(
+    userId: string,
+    roomId: string,
+    memberId: string,
+    role: MemberRole
+  ): Promise<Room> {
+    const room = await this.roomModel.findById(roomId);
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+
+    if (role === MemberRole.OWNER) {
+      throw new BadRequestException(
+        'Use the transfer ownership endpoint to change the room owner'
+      );
+    }
+
+    if (memberId === userId) {
+      throw new BadRequestException('You cannot change your own role');
+    }
+
+    assertRoomPermission(room, userId, RoomAction.CHANGE_ROLE, memberId);
+
+    const member = findActiveMember(room, memberId);
+    if (!member) {
+      throw new NotFoundException('Member not found in this room');
+    }
+
+    member.role = role;
+
+    const updatedRoom = await room.save();
+    return updatedRoom.toJSON();
+  }
+
+  /**
+   * Transfers room ownership to another active member.
+   * The previous owner stays in the room as an ADMIN.
+   *
+   * @param {string} userId - The ID of the current owner
+   * @param {string} roomId - The ID of the room
+   * @param {string} newOwnerId - The ID of the member becoming owner
+   * @returns {Promise<Room>} The updated room
+   * @throws {NotFoundException} When the room or the new owner is not found
+   * @throws {ForbiddenException} When user is not the room owner
+   * @throws {BadRequestException} When user tries to transfer ownership to themselves
+   */
+  async transferOwnership(
+    userId: string,
+    roomId: string,
+    newOwnerId: string
+  ): Promise<Room> {
+    const room = await this.roomModel.findById(roomId);
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+
+    if (newOwnerId === userId) {
+      throw new BadRequestException('You already own this room');
+    }
+
+    assertRoomPermission(
+      room,
+      userId,
+      RoomAction.TRANSFER_OWNERSHIP,
+      newOwnerId
+    );
+
+    const newOwner = findActiveMember(room, newOwnerId);
+    if (!newOwner) {
+      throw new NotFoundException('Member not found in this room');
+    }
+
+    const currentOwner = findActiveMember(room, userId);
+    if (currentOwner) {
+      currentOwner.role = MemberRole.ADMIN;
+    }
+    newOwner.role = MemberRole.OWNER;
+
+    const updatedRoom = await room.save();
+    return updatedRoom.toJSON();
+  }
+
+  /**
+   * Deactivates a room and removes all its messages (owner only operation)
+   *
+   * @param {string} userId - The ID of the user deleting the room
    * @param {string} roomId - The ID of the room to delete
    * @returns {Promise<void>} Promise that resolves when room is deleted
    * @throws {NotFoundException} When the room is not found
+   * @throws {ForbiddenException} When user is not the room owner
    */
-  async deleteRoom(roomId: string): Promise<void> {
+  async deleteRoom(userId: string, roomId: string): Promise<void> {
     const room = await this.roomModel.findById(roomId);
     if (!room) {
       throw new NotFoundException('Room not found');
     }
 
+    assertRoomPermission(room, userId, RoomAction.DELETE_ROOM);
+
     room.isActive = false;
     await room.save();
 
     await this.messageModel.deleteMany({ roomId });
   }
 
+  /**
+   * Marks a room as read up to a message for a member.
+   * The read position only moves forward, reading an older message is a no-op.
+   *
+   * @param {string} userId - The ID of the member reading the room
+   * @param {string} roomId - The ID of the room
+   * @param {string} [messageId] - The ID of the last read message, defaults to the latest room message
+   * @returns {Promise<{roomId: string, userId: string, lastReadMessageId?: string, lastReadAt?: Date}>} The member's read position
+   * @throws {NotFoundException} When the room or the message is not found
+   * @throws {ForbiddenException} When user is not an active member of the room
+   * @throws {BadRequestException} When the message belongs to another room
+   */
+  async markRoomAsRead(userId: string, roomId: string, messageId?: string) {
+    const room = await this.roomModel.findById(roomId);
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+
+    const member = findActiveMember(room, userId);
+    if (!member) {
+      throw new ForbiddenException('You do not have access to this room');
+    }
+
+    const message = messageId
+      ? await this.messageModel.findById(messageId)
+      : await this.messageModel
+          .findOne({
+            roomId,
+            isDeleted: false,
+            parentMessageId: { $exists: false },
+          })
+          .sort({ timestamp: -1 })
+          .exec();
+
+    if (messageId && !message) {
+      throw new NotFoundException('Message not found');
+    }
+
+    if (message && message.roomId !== roomId) {
+      throw new BadRequestException('Message does not belong to this room');
+    }
+
+    if (
+      message &&
+      (!member.lastReadAt || message.timestamp > member.lastReadAt)
+    ) {
+      member.lastReadMessageId = message.id;
+      member.lastReadAt = message.timestamp;
+      await room.save();
+    }
+
+    return {
+      roomId,
+      userId,
+      lastReadMessageId: member.lastReadMessageId,
+      lastReadAt: member.lastReadAt,
+    };
+  }
+
   // ========== ONLINE USERS ==========
 
   /**
    * Marks a user as online and associates them with a WebSocket connection
    * 
+   * The status is only used for the first connection, the other ones
+   * keeping the status already chosen by the user
+   * 
    * @param {string} userId - The ID of the user to mark online
    * @param {string} socketId - The WebSocket connection ID
-   * @returns {Promise<OnlineUser | null>} The online user record or null
+   * @param {UserStatus} [status=UserStatus.ONLINE] - The status chosen by the user
+   * @returns {Promise<OnlineUser | null>} The online user record with all
+   * the connections of the user, or null
    */
   async setUserOnline(
     userId: string,
-    socketId: string
+    socketId: string,
+    status: UserStatus = UserStatus.ONLINE
   ): Promise<OnlineUser | null> {
     const onlineUser = await this.onlineUserModel.findOneAndUpdate(
       { userId },
       {
-        userId,
-        socketId,
-        lastSeen: new Date(),
-        status: UserStatus.ONLINE,
+        $addToSet: { socketIds: socketId },
+        $set: { lastSeen: new Date(), isIdle: false },
+        $setOnInsert: { status },
       },
       { upsert: true, new: true, lean: true }
     );
@@ -386,29 +1332,100 @@ export class MessagesService {
   }
 
   /**
-   * Removes a user from online status by their WebSocket connection ID
+   * Removes a WebSocket connection from the connections of its user
+   * The user is only marked offline once their last connection is removed
    * 
    * @param {string} socketId - The WebSocket connection ID to remove
-   * @returns {Promise<void>} Promise that resolves when user is marked offline
+   * @returns {Promise<OnlineUser | null>} The online user record with the
+   * remaining connections, or null if the connection was unknown
    */
-  async setUserOffline(socketId: string): Promise<void> {
-    await this.onlineUserModel.deleteOne({ socketId });
+  async setUserOffline(socketId: string): Promise<OnlineUser | null> {
+    const onlineUser = await this.onlineUserModel.findOneAndUpdate(
+      { socketIds: socketId },
+      { $pull: { socketIds: socketId } },
+      { new: true, lean: true }
+    );
+
+    // Left in place if another connection was added in the meantime
+    if (onlineUser && onlineUser.socketIds.length === 0) {
+      await this.onlineUserModel.deleteOne({
+        userId: onlineUser.userId,
+        socketIds: { $size: 0 },
+      });
+    }
+
+    return onlineUser;
+  }
+
+  /**
+   * Refreshes lastSeen of the users holding the given connections, so that
+   * their records do not expire while they stay connected
+   *
+   * @param {string[]} socketIds - The WebSocket connection IDs still open
+   * @returns {Promise<void>}
+   */
+  async refreshLastSeen(socketIds: string[]): Promise<void> {
+    if (!socketIds.length) {
+      return;
+    }
+
+    await this.onlineUserModel.updateMany(
+      { socketIds: { $in: socketIds } },
+      { $set: { lastSeen: new Date() } }
+    );
   }
 
   /**
    * Updates a user's online status (online, away, etc.)
+   * The custom text and emoji are cleared when not given
    * 
    * @param {string} userId - The ID of the user to update
    * @param {UserStatus} status - The new status to set
+   * @param {string} [customStatus] - Optional status text
+   * @param {string} [statusEmoji] - Optional emoji shown with the text
    * @returns {Promise<OnlineUser | null>} The updated online user record or null
    */
   async updateUserStatus(
     userId: string,
-    status: UserStatus
+    status: UserStatus,
+    customStatus?: string,
+    statusEmoji?: string
   ): Promise<OnlineUser | null> {
+    const unset = {
+      ...(customStatus === undefined && { customStatus: 1 }),
+      ...(statusEmoji === undefined && { statusEmoji: 1 }),
+    };
+
     return this.onlineUserModel.findOneAndUpdate(
       { userId },
-      { status, lastSeen: new Date() },
+      {
+        $set: {
+          status,
+          lastSeen: new Date(),
+          ...(customStatus !== undefined && { customStatus }),
+          ...(statusEmoji !== undefined && { statusEmoji }),
+        },
+        ...(Object.keys(unset).length > 0 && { $unset: unset }),
+      },
+      { new: true, lean: true }
+    );
+  }
+
+  /**
+   * Records whether a user stopped interacting with their client
+   * 
+   * @param {string} userId - The ID of the user to update
+   * @param {boolean} isIdle - Whether the user is idle
+   * @returns {Promise<OnlineUser | null>} The updated online user record,
+   * or null if the user is offline or was already in that state
+   */
+  async setUserIdle(
+    userId: string,
+    isIdle: boolean
+  ): Promise<OnlineUser | null> {
+    return this.onlineUserModel.findOneAndUpdate(
+      { userId, isIdle: { $ne: isIdle } },
+      { isIdle, lastSeen: new Date() },
       { new: true, lean: true }
     );
   }
@@ -433,8 +1450,324 @@ export class MessagesService {
     return !!user;
   }
 
+  // ========== DELETED USERS ==========
+
+  /**
+   * Removes the traces of a user whose account is being deleted
+   *
+   * The rooms they owned are handed over to the longest-standing admin,
+   * or member, and deactivated when nobody else is left. Their memberships,
+   * reactions and presence are removed. Their messages stay as deleted
+   * messages, without content, attachments nor sender, so that threads and
+   * read positions remain consistent. Running it again is harmless, in case
+   * the account itself could not be deleted afterwards.
+   *
+   * @param {string} userId - The ID of the user being deleted
+   * @returns {Promise<void>} Promise that resolves when the data is cleaned up
+   */
+  async deleteUserData(userId: string): Promise<void> {
+    const rooms = await this.roomModel.find({ 'members.userId': userId });
+
+    for (const room of rooms) {
+      const otherMembers = room.members.filter(
+        (m) => m.userId !== userId && !m.leftAt
+      );
+
+      if (
+        room.type === RoomType.GROUP &&
+        getEffectiveRole(room, userId) === MemberRole.OWNER
+      ) {
+        const [successor] = [...otherMembers].sort(
+          (a, b) =>
+            MEMBER_ROLE_RANK[b.role] - MEMBER_ROLE_RANK[a.role] ||
+            a.joinedAt.getTime() - b.joinedAt.getTime()
+        );
+        if (successor) {
+          successor.role = MemberRole.OWNER;
+        }
+      }
+
+      if (otherMembers.length === 0) {
+        room.isActive = false;
+      }
+
+      room.members = room.members.filter((m) => m.userId !== userId);
+      await room.save();
+    }
+
+    // Thread summaries stop counting the replies about to be deleted
+    const replies = await this.messageModel
+      .find(
+        {
+          senderId: userId,
+          isDeleted: false,
+          parentMessageId: { $exists: true },
+        },
+        { parentMessageId: 1 }
+      )
+      .lean()
+      .exec();
+    const replyCounts = new Map<string, number>();
+    for (const { parentMessageId } of replies) {
+      if (parentMessageId) {
+        replyCounts.set(
+          parentMessageId,
+          (replyCounts.get(parentMessageId) ?? 0) + 1
+        );
+      }
+    }
+    for (const [parentMessageId, count] of replyCounts) {
+      await this.messageModel.findByIdAndUpdate(parentMessageId, {
+        $inc: { threadReplyCount: -count },
+      });
+    }
+
+    const messagesWithFiles = await this.messageModel
+      .find(
+        { senderId: userId, 'attachments.0': { $exists: true } },
+        { attachments: 1 }
+      )
+      .lean()
+      .exec();
+    for (const { attachments } of messagesWithFiles) {
+      for (const attachment of attachments) {
+        await this.storage
+          .delete(attachment.storageKey)
+          .catch(() => undefined);
+      }
+    }
+
+    await this.messageModel.updateMany(
+      { senderId: userId, isDeleted: false },
+      { $set: { isDeleted: true, deletedAt: new Date() } }
+    );
+    await this.messageModel.updateMany(
+      { senderId: userId },
+      {
+        $set: {
+          senderId: DELETED_SENDER_ID,
+          senderUsername: DELETED_SENDER_USERNAME,
+          content: '',
+          attachments: [],
+        },
+        $unset: { senderAvatar: 1 },
+      }
+    );
+
+    await this.messageModel.updateMany(
+      { 'reactions.userIds': userId },
+      { $pull: { 'reactions.$[].userIds': userId } }
+    );
+    await this.messageModel.updateMany(
+      { reactions: { $elemMatch: { userIds: { $size: 0 } } } },
+      { $pull: { reactions: { userIds: { $size: 0 } } } }
+    );
+
+    await this.onlineUserModel.deleteMany({ userId });
+  }
+
   // ========== HELPERS ==========
 
+  /**
+   * Loads a message that can start a thread
+   *
+   * @private
+   * @param {string} messageId - The ID of the parent message
+   * @param {string} [roomId] - The room the parent message must belong to
+   * @returns {Promise<MessageDocument>} The parent message document
+   * @throws {NotFoundException} When the message is not found or deleted
+   * @throws {BadRequestException} When the message is a reply or belongs to another room
+   */
+  private async getThreadParent(messageId: string, roomId?: string) {
+    const parent = await this.messageModel.findById(messageId);
+    if (!parent || parent.isDeleted) {
+      throw new NotFoundException('Message not found');
+    }
+
+    if (parent.parentMessageId) {
+      throw new BadRequestException('Cannot start a thread on a reply');
+    }
+
+    if (roomId && parent.roomId !== roomId) {
+      throw new BadRequestException(
+        'Parent message does not belong to this room'
+      );
+    }
+
+    return parent;
+  }
+
+  /**
+   * Finds the message a save was rejected for when the sender had already
+   * sent it with the same client message ID
+   *
+   * @private
+   * @param {unknown} error - The error thrown by the save
+   * @param {string} userId - The ID of the user sending the message
+   * @param {string} [clientMessageId] - The ID generated by the client for the message
+   * @returns {Promise<Message | null>} The stored message, or null if the error has another cause
+   */
+  private async findDuplicateMessage(
+    error: unknown,
+    userId: string,
+    clientMessageId?: string
+  ): Promise<Message | null> {
+    const isDuplicate =
+      (error as { code?: number } | null)?.code === DUPLICATE_KEY_ERROR_CODE;
+    if (!isDuplicate || !clientMessageId) {
+      return null;
+    }
+
+    return this.findSentMessage(userId, clientMessageId);
+  }
+
+  /**
+   * Loads a message the user can pin or unpin, with its room
+   *
+   * @private
+   * @param {string} userId - The ID of the user pinning the message
+   * @param {string} messageId - The ID of the message
+   * @returns {Promise<{message: MessageDocument, room: RoomDocument}>} The message and room documents
+   * @throws {NotFoundException} When the message or its room is not found
+   * @throws {ForbiddenException} When the user's role in the room does not allow pinning
+   * @throws {BadRequestException} When the message is a reply
+   */
+  private async getPinnableMessage(userId: string, messageId: string) {
+    const message = await this.messageModel.findById(messageId);
+    if (!message || message.isDeleted) {
+      throw new NotFoundException('Message not found');
+    }
+
+    if (message.parentMessageId) {
+      throw new BadRequestException('Cannot pin a thread reply');
+    }
+
+    const room = await this.roomModel.findById(message.roomId);
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+
+    assertRoomPermission(room, userId, RoomAction.PIN_MESSAGE);
+
+    return { message, room };
+  }
+
+  /**
+   * Lists a pin with its message and the cursor to load the room around it
+   *
+   * @private
+   * @param {PinnedMessage} pin - The pin stored on the room
+   * @param {HydratedDocument<Message>} message - The pinned message document
+   * @returns {RoomPin} The pin with its message
+   */
+  private toRoomPin(
+    pin: PinnedMessage,
+    message: HydratedDocument<Message>
+  ): RoomPin {
+    return {
+      messageId: pin.messageId,
+      pinnedBy: pin.pinnedBy,
+      pinnedAt: pin.pinnedAt,
+      message: message.toJSON(),
+      cursor: encodeMessageCursor({
+        timestamp: message.timestamp,
+        id: message._id.toString(),
+      }),
+    };
+  }
+
+  /**
+   * Loads a message the user can react to
+   *
+   * @private
+   * @param {string} userId - The ID of the user reacting
+   * @param {string} messageId - The ID of the message
+   * @returns {Promise<MessageDocument>} The message document
+   * @throws {NotFoundException} When the message is not found or deleted
+   * @throws {ForbiddenException} When user doesn't have access to the room
+   */
+  private async getReactableMessage(userId: string, messageId: string) {
+    const message = await this.messageModel.findById(messageId);
+    if (!message || message.isDeleted) {
+      throw new NotFoundException('Message not found');
+    }
+
+    const room = await this.getRoomById(message.roomId);
+    const hasAccess = await this.userHasAccessToRoom(userId, room);
+    if (!hasAccess) {
+      throw new ForbiddenException('You do not have access to this room');
+    }
+
+    return message;
+  }
+
+  /**
+   * Counts the messages a member has not read yet in each of their rooms,
+   * in a single query
+   * Own messages and thread replies are not counted
+   *
+   * @private
+   * @param {string} userId - The ID of the member
+   * @param {Room[]} rooms - The rooms to count messages in
+   * @returns {Promise<Map<string, number>>} Number of unread messages by room ID, rooms without any left out
+   */
+  private async countUnreadMessages(
+    userId: string,
+    rooms: Room[]
+  ): Promise<Map<string, number>> {
+    const unreadSince = [];
+    for (const room of rooms) {
+      const member = findActiveMember(room, userId);
+      if (member) {
+        unreadSince.push({
+          roomId: room.id,
+          timestamp: { $gt: member.lastReadAt ?? member.joinedAt },
+        });
+      }
+    }
+
+    if (!unreadSince.length) {
+      return new Map();
+    }
+
+    const counts = await this.messageModel
+      .aggregate<{ _id: string; count: number }>([
+        {
+          $match: {
+            $or: unreadSince,
+            isDeleted: false,
+            parentMessageId: { $exists: false },
+            senderId: { $ne: userId },
+          },
+        },
+        { $group: { _id: '$roomId', count: { $sum: 1 } } },
+      ])
+      .exec();
+
+    return new Map(counts.map(({ _id, count }) => [_id, count]));
+  }
+
+  /**
+   * Lists the IDs of the active rooms the user is an active member of
+   *
+   * @private
+   * @param {string} userId - The ID of the user
+   * @returns {Promise<string[]>} The IDs of the accessible rooms
+   */
+  private async getAccessibleRoomIds(userId: string): Promise<string[]> {
+    const rooms = await this.roomModel
+      .find({ 'members.userId': userId, isActive: true })
+      .exec();
+
+    const accessible = await Promise.all(
+      rooms.map((room) => this.userHasAccessToRoom(userId, room))
+    );
+
+    return rooms
+      .filter((_, index) => accessible[index])
+      .map((room) => room._id.toString());
+  }
+
   /**
    * Checks if a user has access to a specific room
    * 
@@ -0,0 +1,57 @@
+import { BadRequestException } from '@nestjs/common';
+
+import {
+  buildCursorFilter,
+  decodeMessageCursor,
+  encodeMessageCursor,
+} from '@backend/messages/pagination/message-cursor';
+
+describe('MessageCursor', () => {
+  const cursor = {
+    timestamp: new Date('2024-01-15T10:30:00.000Z'),
+    id: '507f1f77bcf86cd799439014',
+  };
+
+  describe('encodeMessageCursor / decodeMessageCursor', () => {
+    it('should round-trip a message position', () => {
+      const encoded = encodeMessageCursor(cursor);
+
+      expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodeMessageCursor(encoded)).toEqual(cursor);
+    });
+
+    it('should reject a cursor that is not valid JSON', () => {
+      expect(() => decodeMessageCursor('not-a-cursor')).toThrow(
+        BadRequestException
+      );
+    });
+
+    it('should reject a cursor with an invalid message id', () => {
+      const encoded = Buffer.from(
+        JSON.stringify([cursor.timestamp.getTime(), 'message123'])
+      ).toString('base64url');
+
+      expect(() => decodeMessageCursor(encoded)).toThrow(BadRequestException);
+    });
+  });
+
+  describe('buildCursorFilter', () => {
+    it('should match older messages and ties with a lower id before the cursor', () => {
+      expect(buildCursorFilter(cursor, 'before')).toEqual({
+        $or: [
+          { timestamp: { $lt: cursor.timestamp } },
+          { timestamp: cursor.timestamp, _id: { $lt: cursor.id } },
+        ],
+      });
+    });
+
+    it('should match newer messages and ties with a higher id after the cursor', () => {
+      expect(buildCursorFilter(cursor, 'after')).toEqual({
+        $or: [
+          { timestamp: { $gt: cursor.timestamp } },
+          { timestamp: cursor.timestamp, _id: { $gt: cursor.id } },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { Types } from 'mongoose';
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Position of a message in the history of a room.
+ * Messages sharing a timestamp are ordered by their ObjectId.
+ */
+export interface MessageCursor {
+  /** Timestamp of the message */
+  timestamp: Date;
+  /** ObjectId of the message, used as a tie-breaker */
+  id: string;
+}
+
+/**
+ * Encodes the position of a message into an opaque cursor
+ *
+ * @param {MessageCursor} cursor - The position to encode
+ * @returns {string} A base64url cursor to hand over to clients
+ */
+export function encodeMessageCursor(cursor: MessageCursor): string {
+  return Buffer.from(
+    JSON.stringify([cursor.timestamp.getTime(), cursor.id])
+  ).toString('base64url');
+}
+
+/**
+ * Decodes an opaque cursor received from a client
+ *
+ * @param {string} cursor - The cursor to decode
+ * @returns {MessageCursor} The position of the message
+ * @throws {BadRequestException} When the cursor is malformed
+ */
+export function decodeMessageCursor(cursor: string): MessageCursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== 2) {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  const [time, id] = decoded;
+  if (
+    !Number.isSafeInteger(time) ||
+    typeof id !== 'string' ||
+    !Types.ObjectId.isValid(id)
+  ) {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  return { timestamp: new Date(time), id };
+}
+
+/**
+ * Builds the query matching the messages strictly before or after a cursor
+ * in the (timestamp, _id) order
+ *
+ * @param {MessageCursor} cursor - The reference position
+ * @param {'before' | 'after'} direction - Side of the cursor to match
+ * @returns {object} A MongoDB filter to merge into a message query
+ */
+export function buildCursorFilter(
+  cursor: MessageCursor,
+  direction: 'before' | 'after'
+) {
+  const operator = direction === 'before' ? '$lt' : '$gt';
+
+  return {
+    $or: [
+      { timestamp: { [operator]: cursor.timestamp } },
+      { timestamp: cursor.timestamp, _id: { [operator]: cursor.id } },
+    ],
+  };
+}
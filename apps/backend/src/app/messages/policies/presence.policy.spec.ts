@@ -0,0 +1,75 @@
+import {
+  OnlineUser,
+  UserStatus,
+} from '@backend/messages/schemas/online-user.schema';
+import {
+  toUserPresence,
+  getEffectiveStatus,
+  isPresenceVisibleTo,
+} from '@backend/messages/policies/presence.policy';
+
+describe('PresencePolicy', () => {
+  const createOnlineUser = (
+    overrides: Partial<OnlineUser> = {}
+  ): OnlineUser => ({
+    userId: 'user123',
+    socketIds: ['socket123'],
+    status: UserStatus.ONLINE,
+    isIdle: false,
+    lastSeen: new Date(),
+    ...overrides,
+  });
+
+  describe('getEffectiveStatus', () => {
+    it('should show idle online users as away', () => {
+      expect(getEffectiveStatus(createOnlineUser({ isIdle: true }))).toBe(
+        UserStatus.AWAY
+      );
+    });
+
+    it('should keep any other chosen status while idle', () => {
+      for (const status of [UserStatus.BUSY, UserStatus.INVISIBLE]) {
+        expect(
+          getEffectiveStatus(createOnlineUser({ status, isIdle: true }))
+        ).toBe(status);
+      }
+    });
+  });
+
+  describe('isPresenceVisibleTo', () => {
+    it('should only show invisible users to themselves', () => {
+      const onlineUser = createOnlineUser({ status: UserStatus.INVISIBLE });
+
+      expect(isPresenceVisibleTo(onlineUser, 'user123')).toBe(true);
+      expect(isPresenceVisibleTo(onlineUser, 'user456')).toBe(false);
+    });
+
+    it('should show the other statuses to everyone', () => {
+      expect(
+        isPresenceVisibleTo(
+          createOnlineUser({ status: UserStatus.BUSY }),
+          'user456'
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe('toUserPresence', () => {
+    it('should keep the custom status and drop the connection details', () => {
+      const presence = toUserPresence(
+        createOnlineUser({
+          isIdle: true,
+          customStatus: 'Lunch',
+          statusEmoji: '🍔',
+        })
+      );
+
+      expect(presence).toEqual({
+        userId: 'user123',
+        status: UserStatus.AWAY,
+        customStatus: 'Lunch',
+        statusEmoji: '🍔',
+      });
+    });
+  });
+});
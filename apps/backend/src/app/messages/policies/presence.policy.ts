@@ -0,0 +1,62 @@
+import {
+  OnlineUser,
+  UserStatus,
+} from '@backend/messages/schemas/online-user.schema';
+
+/**
+ * Presence of a connected user as shown to the other users
+ */
+export interface UserPresence {
+  userId: string;
+  status: UserStatus;
+  customStatus?: string;
+  statusEmoji?: string;
+}
+
+/**
+ * Computes the status shown for a connected user:
+ * an idle user who chose ONLINE is shown as AWAY,
+ * any other chosen status is kept as is
+ *
+ * @param {OnlineUser} onlineUser - The presence record of the user
+ * @returns {UserStatus} The status to show
+ */
+export function getEffectiveStatus(onlineUser: OnlineUser): UserStatus {
+  if (onlineUser.status === UserStatus.ONLINE && onlineUser.isIdle) {
+    return UserStatus.AWAY;
+  }
+
+  return onlineUser.status;
+}
+
+/**
+ * Checks whether a connected user may be listed as online to another user.
+ * Invisible users are only listed to themselves.
+ *
+ * @param {OnlineUser} onlineUser - The presence record of the user
+ * @param {string} viewerId - The ID of the user looking at the presence
+ * @returns {boolean} True if the presence may be shown
+ */
+export function isPresenceVisibleTo(
+  onlineUser: OnlineUser,
+  viewerId: string
+): boolean {
+  return (
+    onlineUser.status !== UserStatus.INVISIBLE || onlineUser.userId === viewerId
+  );
+}
+
+/**
+ * Builds the presence sent to clients from a presence record
+ *
+ * @param {OnlineUser} onlineUser - The presence record of the user
+ * @returns {UserPresence} The presence to send
+ */
+export function toUserPresence(onlineUser: OnlineUser): UserPresence {
+  return {
+    userId: onlineUser.userId,
+    status: getEffectiveStatus(onlineUser),
+    customStatus: onlineUser.customStatus,
+    statusEmoji: onlineUser.statusEmoji,
+  };
+}
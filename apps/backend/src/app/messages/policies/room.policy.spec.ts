@@ -0,0 +1,141 @@
+import { ForbiddenException } from '@nestjs/common';
+
+import {
+  Room,
+  RoomType,
+  MemberRole,
+} from '@backend/messages/schemas/room.schema';
+import {
+  RoomAction,
+  getEffectiveRole,
+  findActiveMember,
+  assertRoomPermission,
+} from '@backend/messages/policies/room.policy';
+
+describe('RoomPolicy', () => {
+  const createRoom = (overrides: Partial<Room> = {}): Room => ({
+    id: 'room123',
+    name: 'Project team',
+    type: RoomType.GROUP,
+    createdBy: 'owner',
+    members: [
+      { userId: 'owner', role: MemberRole.OWNER, joinedAt: new Date() },
+      { userId: 'admin', role: MemberRole.ADMIN, joinedAt: new Date() },
+      { userId: 'member', role: MemberRole.MEMBER, joinedAt: new Date() },
+      {
+        userId: 'former',
+        role: MemberRole.ADMIN,
+        joinedAt: new Date(),
+        leftAt: new Date(),
+      },
+    ],
+    pinnedMessages: [],
+    isActive: true,
+    ...overrides,
+  });
+
+  describe('findActiveMember', () => {
+    it('should ignore members who left the room', () => {
+      const room = createRoom();
+
+      expect(findActiveMember(room, 'member')?.userId).toBe('member');
+      expect(findActiveMember(room, 'former')).toBeUndefined();
+    });
+  });
+
+  describe('getEffectiveRole', () => {
+    it('should return the stored role of active members', () => {
+      const room = createRoom();
+
+      expect(getEffectiveRole(room, 'admin')).toBe(MemberRole.ADMIN);
+      expect(getEffectiveRole(room, 'former')).toBeUndefined();
+    });
+
+    it('should treat the creator as owner in rooms without an owner', () => {
+      const room = createRoom({
+        members: [
+          { userId: 'owner', role: MemberRole.ADMIN, joinedAt: new Date() },
+          { userId: 'member', role: MemberRole.MEMBER, joinedAt: new Date() },
+        ],
+      });
+
+      expect(getEffectiveRole(room, 'owner')).toBe(MemberRole.OWNER);
+    });
+  });
+
+  describe('assertRoomPermission', () => {
+    it('should allow admins to add members', () => {
+      expect(() =>
+        assertRoomPermission(createRoom(), 'admin', RoomAction.ADD_MEMBER)
+      ).not.toThrow();
+    });
+
+    it('should reject regular members adding members', () => {
+      expect(() =>
+        assertRoomPermission(createRoom(), 'member', RoomAction.ADD_MEMBER)
+      ).toThrow(ForbiddenException);
+    });
+
+    it('should reject users who are not active members', () => {
+      expect(() =>
+        assertRoomPermission(createRoom(), 'former', RoomAction.ADD_MEMBER)
+      ).toThrow(ForbiddenException);
+    });
+
+    it('should require the actor to outrank the target', () => {
+      const room = createRoom();
+
+      expect(() =>
+        assertRoomPermission(room, 'admin', RoomAction.REMOVE_MEMBER, 'member')
+      ).not.toThrow();
+      expect(() =>
+        assertRoomPermission(room, 'admin', RoomAction.REMOVE_MEMBER, 'owner')
+      ).toThrow(ForbiddenException);
+    });
+
+    it('should reserve role changes, transfers and deletion to the owner', () => {
+      const room = createRoom();
+
+      for (const action of [
+        RoomAction.CHANGE_ROLE,
+        RoomAction.TRANSFER_OWNERSHIP,
+        RoomAction.DELETE_ROOM,
+      ]) {
+        expect(() => assertRoomPermission(room, 'admin', action)).toThrow(
+          ForbiddenException
+        );
+        expect(() => assertRoomPermission(room, 'owner', action)).not.toThrow();
+      }
+    });
+
+    it('should reject membership changes in direct rooms', () => {
+      const room = createRoom({ type: RoomType.DIRECT });
+
+      expect(() =>
+        assertRoomPermission(room, 'owner', RoomAction.ADD_MEMBER)
+      ).toThrow('Direct rooms have a fixed membership');
+      expect(() =>
+        assertRoomPermission(room, 'owner', RoomAction.DELETE_ROOM)
+      ).not.toThrow();
+    });
+
+    it('should let admins pin messages in groups', () => {
+      const room = createRoom();
+
+      expect(() =>
+        assertRoomPermission(room, 'admin', RoomAction.PIN_MESSAGE)
+      ).not.toThrow();
+      expect(() =>
+        assertRoomPermission(room, 'member', RoomAction.PIN_MESSAGE)
+      ).toThrow(ForbiddenException);
+    });
+
+    it('should let both members pin messages in direct rooms', () => {
+      const room = createRoom({ type: RoomType.DIRECT });
+
+      expect(() =>
+        assertRoomPermission(room, 'member', RoomAction.PIN_MESSAGE)
+      ).not.toThrow();
+    });
+  });
+});
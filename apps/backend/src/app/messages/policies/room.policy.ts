@@ -0,0 +1,153 @@
+import { ForbiddenException } from '@nestjs/common';
+
+import {
+  Room,
+  RoomType,
+  MemberRole,
+  RoomMember,
+} from '@backend/messages/schemas/room.schema';
+
+/**
+ * Room mutations subject to a permission check
+ */
+export enum RoomAction {
+  /** Invite a user into the room */
+  ADD_MEMBER = 'add_member',
+  /** Kick an active member out of the room */
+  REMOVE_MEMBER = 'remove_member',
+  /** Promote or demote an active member */
+  CHANGE_ROLE = 'change_role',
+  /** Hand the OWNER role over to another member */
+  TRANSFER_OWNERSHIP = 'transfer_ownership',
+  /** Deactivate the room and drop its messages */
+  DELETE_ROOM = 'delete_room',
+  /** Pin a message to the room or unpin it */
+  PIN_MESSAGE = 'pin_message',
+}
+
+/**
+ * Rank of each role, higher ranks include the permissions of lower ones
+ */
+export const MEMBER_ROLE_RANK: Record<MemberRole, number> = {
+  [MemberRole.OWNER]: 3,
+  [MemberRole.ADMIN]: 2,
+  [MemberRole.MEMBER]: 1,
+};
+
+/**
+ * Lowest role allowed to perform each action
+ */
+const REQUIRED_ROLE: Record<RoomAction, MemberRole> = {
+  [RoomAction.ADD_MEMBER]: MemberRole.ADMIN,
+  [RoomAction.REMOVE_MEMBER]: MemberRole.ADMIN,
+  [RoomAction.CHANGE_ROLE]: MemberRole.OWNER,
+  [RoomAction.TRANSFER_OWNERSHIP]: MemberRole.OWNER,
+  [RoomAction.DELETE_ROOM]: MemberRole.OWNER,
+  [RoomAction.PIN_MESSAGE]: MemberRole.ADMIN,
+};
+
+/**
+ * Lowest role allowed to perform each action in a direct room, where both
+ * members share the conversation
+ */
+const DIRECT_REQUIRED_ROLE: Partial<Record<RoomAction, MemberRole>> = {
+  [RoomAction.PIN_MESSAGE]: MemberRole.MEMBER,
+};
+
+/**
+ * Actions that would change the fixed membership of a direct room
+ */
+const MEMBERSHIP_ACTIONS = [
+  RoomAction.ADD_MEMBER,
+  RoomAction.REMOVE_MEMBER,
+  RoomAction.CHANGE_ROLE,
+  RoomAction.TRANSFER_OWNERSHIP,
+];
+
+/**
+ * Finds the active membership of a user in a room
+ *
+ * @param {Room} room - The room to look into
+ * @param {string} userId - The ID of the user
+ * @returns {RoomMember | undefined} The membership, or undefined if the user is not an active member
+ */
+export function findActiveMember(
+  room: Room,
+  userId: string
+): RoomMember | undefined {
+  return room.members.find((m) => m.userId === userId && !m.leftAt);
+}
+
+/**
+ * Resolves the effective role of a user in a room.
+ * Rooms created before the OWNER role existed have no owner member,
+ * in which case their creator is treated as the owner.
+ *
+ * @param {Room} room - The room to look into
+ * @param {string} userId - The ID of the user
+ * @returns {MemberRole | undefined} The effective role, or undefined if the user is not an active member
+ */
+export function getEffectiveRole(
+  room: Room,
+  userId: string
+): MemberRole | undefined {
+  const member = findActiveMember(room, userId);
+  if (!member) {
+    return undefined;
+  }
+
+  const hasOwner = room.members.some(
+    (m) => m.role === MemberRole.OWNER && !m.leftAt
+  );
+  if (!hasOwner && room.createdBy === userId) {
+    return MemberRole.OWNER;
+  }
+
+  return member.role;
+}
+
+/**
+ * Ensures a user is allowed to perform an action on a room.
+ * When the action targets another member, the actor must also outrank them.
+ *
+ * @param {Room} room - The room being mutated
+ * @param {string} userId - The ID of the user performing the action
+ * @param {RoomAction} action - The action being performed
+ * @param {string} [targetUserId] - The ID of the member targeted by the action
+ * @throws {ForbiddenException} When the action is not allowed
+ */
+export function assertRoomPermission(
+  room: Room,
+  userId: string,
+  action: RoomAction,
+  targetUserId?: string
+): void {
+  if (room.type === RoomType.DIRECT && MEMBERSHIP_ACTIONS.includes(action)) {
+    throw new ForbiddenException('Direct rooms have a fixed membership');
+  }
+
+  const role = getEffectiveRole(room, userId);
+  if (!role) {
+    throw new ForbiddenException('You are not a member of this room');
+  }
+
+  const requiredRole =
+    (room.type === RoomType.DIRECT && DIRECT_REQUIRED_ROLE[action]) ||
+    REQUIRED_ROLE[action];
+  if (MEMBER_ROLE_RANK[role] < MEMBER_ROLE_RANK[requiredRole]) {
+    throw new ForbiddenException(
+      'Your role in this room does not allow this action'
+    );
+  }
+
+  if (targetUserId === undefined || targetUserId === userId) {
+    return;
+  }
+
+  const targetRole = getEffectiveRole(room, targetUserId);
+  if (targetRole && MEMBER_ROLE_RANK[targetRole] >= MEMBER_ROLE_RANK[role]) {
+    throw new ForbiddenException(
+      'You can only manage members with a lower role than yours'
+    );
+  }
+}
@@ -77,6 +77,7 @@ describe('MessageSchema', () => {
       expect(message.editedAt).toBeUndefined();
       expect(message.deletedAt).toBeUndefined();
       expect(message.senderAvatar).toBeUndefined();
+      expect(message.attachments).toHaveLength(0);
     });
 
     it('should create a message with optional fields', async () => {
@@ -95,6 +96,28 @@ describe('MessageSchema', () => {
       expect(message.senderAvatar).toBe(messageData.senderAvatar);
       expect(message.messageType).toBe(MessageType.IMAGE);
     });
+
+    it('should store attachment metadata', async () => {
+      const attachment = {
+        id: '3f6c1a52-8a1e-4c8b-9a53-2a8f7b1e4c21',
+        storageKey: 'attachments/room123/3f6c1a52-8a1e-4c8b-9a53-2a8f7b1e4c21',
+        fileName: 'report.pdf',
+        mimeType: 'application/pdf',
+        size: 482133,
+      };
+
+      const message = await messageModel.create({
+        content: 'report.pdf',
+        senderId: 'user123',
+        senderUsername: 'testuser',
+        roomId: 'room123',
+        timestamp: new Date(),
+        messageType: MessageType.FILE,
+        attachments: [attachment],
+      });
+
+      expect(message.toJSON().attachments).toEqual([attachment]);
+    });
   });
 
   describe('Validation', () => {
@@ -142,6 +165,34 @@ describe('MessageSchema', () => {
 
       await expect(messageModel.create(messageData)).rejects.toThrow();
     });
+
+    it('should fail when a client message ID is reused by its sender', async () => {
+      const messageData = {
+        content: 'Sent twice',
+        senderId: 'user123',
+        roomId: 'room123',
+        clientMessageId: 'client-1',
+      };
+
+      await messageModel.create(messageData);
+
+      await expect(messageModel.create(messageData)).rejects.toThrow();
+      await expect(
+        messageModel.create({ ...messageData, senderId: 'user456' })
+      ).resolves.toBeDefined();
+    });
+
+    it('should allow several messages without client message ID', async () => {
+      const messageData = {
+        content: 'No client ID',
+        senderId: 'user123',
+        roomId: 'room123',
+      };
+
+      await messageModel.create(messageData);
+
+      await expect(messageModel.create(messageData)).resolves.toBeDefined();
+    });
   });
 
   describe('Edited Messages', () => {
@@ -272,10 +323,18 @@ describe('MessageSchema', () => {
       const indexes = await messageModel.collection.listIndexes().toArray();
       const indexKeys = indexes.map((index: any) => index.key);
 
-      expect(indexKeys).toContainEqual({ roomId: 1, timestamp: -1 });
+      expect(indexKeys).toContainEqual({
+        roomId: 1,
+        timestamp: -1,
+        _id: -1,
+      });
       expect(indexKeys).toContainEqual({ senderId: 1 });
       expect(indexKeys).toContainEqual({ timestamp: -1 });
       expect(indexKeys).toContainEqual({ roomId: 1, isDeleted: 1 });
+      expect(indexKeys).toContainEqual({ parentMessageId: 1, timestamp: 1 });
+      expect(indexKeys).toContainEqual({ senderId: 1, clientMessageId: 1 });
+      expect(indexKeys).toContainEqual({ roomId: 1, updatedAt: 1 });
+      expect(indexKeys).toContainEqual({ _fts: 'text', _ftsx: 1 });
     });
   });
 });
@@ -11,8 +11,66 @@ export type MessageDocument = Message & Document;
 export enum MessageType {
   /** Standard text message */
   TEXT = 'text',
-  /** Message containing an image (not implemented) */
+  /** Message carrying an image attachment, previewed inline */
   IMAGE = 'image',
+  /** Message carrying any other file attachment */
+  FILE = 'file',
+}
+
+/**
+ * Embedded schema for message reactions
+ * One entry per emoji, listing the users who reacted with it
+ */
+@Schema({ _id: false })
+export class MessageReaction {
+  /**
+   * Reaction emoji (unicode character sequence)
+   */
+  @Prop({ required: true, maxlength: 32 })
+  emoji!: string;
+
+  /**
+   * UUIDs of the users who reacted (reference UserEntity in PostgreSQL)
+   */
+  @Prop({ type: [String], default: [] })
+  userIds!: string[];
+}
+
+/**
+ * Embedded schema for message attachments
+ * Metadata only, the content lives in the configured storage
+ */
+@Schema({ _id: false })
+export class MessageAttachment {
+  /**
+   * Attachment UUID, used in download URLs
+   */
+  @Prop({ required: true })
+  id!: string;
+
+  /**
+   * Key of the content in the storage driver
+   */
+  @Prop({ required: true })
+  storageKey!: string;
+
+  /**
+   * Original file name, shown to the users
+   */
+  @Prop({ required: true, maxlength: 255 })
+  fileName!: string;
+
+  /**
+   * MIME type of the content, validated on upload
+   */
+  @Prop({ required: true })
+  mimeType!: string;
+
+  /**
+   * Size of the content in bytes
+   */
+  @Prop({ required: true })
+  size!: number;
 }
 
 /**
@@ -70,6 +128,34 @@ export class Message {
   @Prop({ required: true })
   roomId!: string;
 
+  /**
+   * Identifier generated by the sending client
+   * Lets a resent message be recognized instead of duplicated
+   */
+  @Prop()
+  clientMessageId?: string;
+
+  /**
+   * Parent message ObjectId when this message is a thread reply
+   * Undefined for top-level room messages
+   */
+  @Prop()
+  parentMessageId?: string;
+
+  /**
+   * Number of replies in the thread started by this message
+   * Denormalized on the parent to display it without counting
+   */
+  @Prop({ default: 0 })
+  threadReplyCount!: number;
+
+  /**
+   * Date of the latest reply in the thread
+   * null if the message has no replies
+   */
+  @Prop({ type: Date })
+  threadLastReplyAt?: Date;
+
   /**
    * Message creation timestamp
    * Used to order messages chronologically
@@ -84,6 +170,20 @@ export class Message {
   @Prop({ type: String, enum: MessageType, default: MessageType.TEXT })
   messageType!: MessageType;
 
+  /**
+   * Emoji reactions on the message
+   * Embedded array, at most one entry per emoji
+   */
+  @Prop({ type: [MessageReaction], default: [] })
+  reactions!: MessageReaction[];
+
+  /**
+   * Files attached to the message
+   * Empty for TEXT messages, content holds the caption otherwise
+   */
+  @Prop({ type: [MessageAttachment], default: [] })
+  attachments!: MessageAttachment[];
+
   /**
    * Edit indicator
    * true if message was edited after sending
@@ -117,12 +217,27 @@ export const MessageSchema = SchemaFactory.createForClass(Message);
 
 /**
  * Indexing strategy to optimize queries:
- * - roomId + timestamp: Retrieve room messages in chronological order
+ * - roomId + timestamp + _id: Page through room messages with cursors
  * - senderId: Search messages by user
  * - timestamp: Global sort of recent messages
  * - roomId + isDeleted: Filter active messages by room
+ * - parentMessageId + timestamp: Retrieve thread replies in chronological order
+ * - senderId + clientMessageId (unique): Store a resent message only once
+ * - roomId + updatedAt: Find the messages changed since a client last synced
+ * - content (text): Full-text message search, without language-specific
+ *   stemming or stop words since rooms mix languages
  */
-MessageSchema.index({ roomId: 1, timestamp: -1 });
+MessageSchema.index({ roomId: 1, timestamp: -1, _id: -1 });
 MessageSchema.index({ senderId: 1 });
 MessageSchema.index({ timestamp: -1 });
 MessageSchema.index({ roomId: 1, isDeleted: 1 });
+MessageSchema.index({ parentMessageId: 1, timestamp: 1 });
+MessageSchema.index(
+  { senderId: 1, clientMessageId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { clientMessageId: { $exists: true } },
+  }
+);
+MessageSchema.index({ roomId: 1, updatedAt: 1 });
+MessageSchema.index({ content: 'text' }, { default_language: 'none' });
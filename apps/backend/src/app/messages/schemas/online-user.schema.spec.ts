@@ -43,14 +43,14 @@ describe('OnlineUserSchema', () => {
     it('should create an online user with all required fields', async () => {
       const userData = {
         userId: 'user123',
-        socketId: 'socket123',
+        socketIds: ['socket123'],
         lastSeen: new Date(),
       };
 
       const user = await onlineUserModel.create(userData);
 
       expect(user.userId).toBe(userData.userId);
-      expect(user.socketId).toBe(userData.socketId);
+      expect(user.socketIds).toEqual(userData.socketIds);
       expect(user.lastSeen).toEqual(userData.lastSeen);
       expect(user.status).toBe(UserStatus.ONLINE);
     });
@@ -58,12 +58,13 @@ describe('OnlineUserSchema', () => {
     it('should apply default values correctly', async () => {
       const userData = {
         userId: 'user123',
-        socketId: 'socket123',
+        socketIds: ['socket123'],
       };
 
       const user = await onlineUserModel.create(userData);
 
       expect(user.status).toBe(UserStatus.ONLINE);
+      expect(user.socketIds).toEqual([]);
       expect(user.lastSeen).toBeDefined();
       expect(user.lastSeen).toBeInstanceOf(Date);
     });
@@ -71,7 +72,7 @@ describe('OnlineUserSchema', () => {
     it('should create an online user with custom status', async () => {
       const userData = {
         userId: 'user123',
-        socketId: 'socket123',
+        socketIds: ['socket123'],
         status: UserStatus.AWAY,
         lastSeen: new Date(),
       };
@@ -80,12 +81,27 @@ describe('OnlineUserSchema', () => {
 
       expect(user.status).toBe(UserStatus.AWAY);
     });
+
+    it('should create an online user with a custom status', async () => {
+      const user = await onlineUserModel.create({
+        userId: 'user123',
+        socketIds: ['socket123'],
+        status: UserStatus.BUSY,
+        customStatus: 'In a meeting',
+        statusEmoji: '📅',
+      });
+
+      expect(user.status).toBe(UserStatus.BUSY);
+      expect(user.customStatus).toBe('In a meeting');
+      expect(user.statusEmoji).toBe('📅');
+      expect(user.isIdle).toBe(false);
+    });
   });
 
   describe('Validation', () => {
     it('should fail when required fields are missing', async () => {
       const userData = {
-        userId: 'user123',
+        socketIds: ['socket123'],
       };
 
       await expect(onlineUserModel.create(userData)).rejects.toThrow();
@@ -94,7 +110,7 @@ describe('OnlineUserSchema', () => {
     it('should fail when userId is empty', async () => {
       const userData = {
         userId: '',
-        socketId: 'socket123',
+        socketIds: ['socket123'],
       };
 
       await expect(onlineUserModel.create(userData)).rejects.toThrow();
@@ -103,51 +119,57 @@ describe('OnlineUserSchema', () => {
     it('should fail with invalid status', async () => {
       const userData = {
         userId: 'user123',
-        socketId: 'socket123',
+        socketIds: ['socket123'],
         status: 'invalid' as UserStatus,
       };
 
       await expect(onlineUserModel.create(userData)).rejects.toThrow();
     });
+
+    it('should fail when the custom status is too long', async () => {
+      const userData = {
+        userId: 'user123',
+        socketIds: ['socket123'],
+        customStatus: 'a'.repeat(101),
+      };
+
+      await expect(onlineUserModel.create(userData)).rejects.toThrow();
+    });
   });
 
   describe('Unique Constraints', () => {
     it('should enforce unique userId constraint', async () => {
       const userData = {
         userId: 'user123',
-        socketId: 'socket123',
+        socketIds: ['socket123'],
       };
 
       await onlineUserModel.create(userData);
 
       const duplicateData = {
         userId: 'user123',
-        socketId: 'socket456',
+        socketIds: ['socket456'],
       };
 
       await expect(onlineUserModel.create(duplicateData)).rejects.toThrow();
     });
 
-    it('should enforce unique socketId constraint', async () => {
-      const userData = {
+    it('should keep several connections on the same user', async () => {
+      const user = await onlineUserModel.create({
         userId: 'user123',
-        socketId: 'socket123',
-      };
-
-      await onlineUserModel.create(userData);
+        socketIds: ['socket123'],
+      });
 
-      const duplicateData = {
-        userId: 'user456',
-        socketId: 'socket123',
-      };
+      user.socketIds.push('socket456');
 
-      await expect(onlineUserModel.create(duplicateData)).rejects.toThrow();
+      await expect(user.save()).resolves.toBeDefined();
+      expect(user.socketIds).toEqual(['socket123', 'socket456']);
     });
 
     it('should allow updating the same user', async () => {
       const user = await onlineUserModel.create({
         userId: 'user123',
-        socketId: 'socket123',
+        socketIds: ['socket123'],
       });
 
       user.status = UserStatus.AWAY;
@@ -161,7 +183,7 @@ describe('OnlineUserSchema', () => {
     it('should update user status', async () => {
       const user = await onlineUserModel.create({
         userId: 'user123',
-        socketId: 'socket123',
+        socketIds: ['socket123'],
       });
 
       expect(user.status).toBe(UserStatus.ONLINE);
@@ -176,7 +198,7 @@ describe('OnlineUserSchema', () => {
     it('should update lastSeen timestamp', async () => {
       const user = await onlineUserModel.create({
         userId: 'user123',
-        socketId: 'socket123',
+        socketIds: ['socket123'],
       });
 
       const originalLastSeen = user.lastSeen;
@@ -198,7 +220,7 @@ describe('OnlineUserSchema', () => {
     it('should transform _id to id in JSON output', async () => {
       const user = await onlineUserModel.create({
         userId: 'user123',
-        socketId: 'socket123',
+        socketIds: ['socket123'],
       });
 
       const json = user.toJSON() as unknown as OnlineUserWithTimestamps;
@@ -212,7 +234,7 @@ describe('OnlineUserSchema', () => {
     it('should transform _id to id in object output', async () => {
       const user = await onlineUserModel.create({
         userId: 'user123',
-        socketId: 'socket123',
+        socketIds: ['socket123'],
       });
 
       const obj = user.toObject() as unknown as OnlineUserWithTimestamps;
@@ -228,7 +250,7 @@ describe('OnlineUserSchema', () => {
     it('should add createdAt and updatedAt timestamps', async () => {
       const user = await onlineUserModel.create({
         userId: 'user123',
-        socketId: 'socket123',
+        socketIds: ['socket123'],
       });
 
       const userWithTimestamps = user as unknown as OnlineUserWithTimestamps;
@@ -241,7 +263,7 @@ describe('OnlineUserSchema', () => {
     it('should update updatedAt on save', async () => {
       const user = await onlineUserModel.create({
         userId: 'user123',
-        socketId: 'socket123',
+        socketIds: ['socket123'],
       });
 
       const userWithTimestamps = user as unknown as OnlineUserWithTimestamps;
@@ -266,7 +288,7 @@ describe('OnlineUserSchema', () => {
       const indexKeys = indexes.map((index: any) => index.key);
 
       expect(indexKeys).toContainEqual({ userId: 1 });
-      expect(indexKeys).toContainEqual({ socketId: 1 });
+      expect(indexKeys).toContainEqual({ socketIds: 1 });
       expect(indexKeys).toContainEqual({ status: 1 });
       expect(indexKeys).toContainEqual({ lastSeen: 1 });
     });
@@ -289,7 +311,7 @@ describe('OnlineUserSchema', () => {
     it('should have TTL index configured for automatic cleanup', async () => {
       const user = await onlineUserModel.create({
         userId: 'user123',
-        socketId: 'socket123',
+        socketIds: ['socket123'],
         lastSeen: new Date(Date.now() - 301 * 1000),
       });
 
@@ -13,6 +13,10 @@ export enum UserStatus {
   ONLINE = 'online',
   /** Connected but inactive user */
   AWAY = 'away',
+  /** Connected user who does not want to be disturbed */
+  BUSY = 'busy',
+  /** Connected user shown as offline to the others */
+  INVISIBLE = 'invisible',
 }
 
 /**
@@ -23,8 +27,12 @@ export enum UserStatus {
  * - Optimal performance for frequent updates
  * - Simple management of multiple connections
  * 
+ * One document per user, holding every open connection of the user:
+ * the user goes offline when the last one closes
+ * 
  * Documents automatically expire 5 minutes after lastSeen
- * to handle unclean disconnections
+ * to handle unclean disconnections, lastSeen being refreshed
+ * by the heartbeat of the instance holding the connections
  * 
  * @collection online_users - Ephemeral MongoDB collection
  */
@@ -38,22 +46,41 @@ export class OnlineUser {
   userId!: string;
 
   /**
-   * Unique Socket.io connection identifier
-   * Allows targeting messages to a specific connection
+   * Socket.io identifiers of the open connections of the user
+   * Added on connection and removed on disconnection
    */
-  @Prop({ required: true })
-  socketId!: string;
+  @Prop({ type: [String], default: [] })
+  socketIds!: string[];
 
   /**
-   * User presence status
-   * Can be extended to include 'busy', 'offline', etc.
+   * Presence status chosen by the user
+   * An idle user who chose ONLINE is shown as AWAY
    */
   @Prop({ type: String, enum: UserStatus, default: UserStatus.ONLINE })
   status!: UserStatus;
 
+  /**
+   * Optional status text chosen by the user
+   */
+  @Prop({ maxlength: 100 })
+  customStatus?: string;
+
+  /**
+   * Optional emoji shown next to the status text
+   */
+  @Prop({ maxlength: 32 })
+  statusEmoji?: string;
+
+  /**
+   * Whether the client reported no activity for longer than
+   * the away delay
+   */
+  @Prop({ default: false })
+  isIdle!: boolean;
+
   /**
    * Last detected activity
-   * Periodically updated to maintain presence
+   * Refreshed by the presence heartbeat while connected
    * TTL index: document deleted 5 min after this date
    */
   @Prop({ required: true, type: Date, default: Date.now })
@@ -65,11 +92,11 @@ export const OnlineUserSchema = SchemaFactory.createForClass(OnlineUser);
 /**
  * Indexing strategy to optimize queries:
  * - userId (unique): One entry per user
- * - socketId (unique): Fast lookup by connection
+ * - socketIds: Fast lookup by connection
  * - status: Filter by presence status
  * - lastSeen (TTL): Auto-deletion after 5 minutes of inactivity
  */
 OnlineUserSchema.index({ userId: 1 }, { unique: true });
-OnlineUserSchema.index({ socketId: 1 }, { unique: true });
+OnlineUserSchema.index({ socketIds: 1 });
 OnlineUserSchema.index({ status: 1 });
 OnlineUserSchema.index({ lastSeen: 1 }, { expireAfterSeconds: 300 });
@@ -74,6 +74,7 @@ describe('RoomSchema', () => {
 
       expect(room.isActive).toBe(true);
       expect(room.members).toEqual([]);
+      expect(room.pinnedMessages).toEqual([]);
     });
 
     it('should create a room with optional fields', async () => {
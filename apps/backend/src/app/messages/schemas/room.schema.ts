@@ -11,14 +11,17 @@ export type RoomDocument = Room & Document;
 export enum RoomType {
   /** Direct chat between two users */
   DIRECT = 'direct',
-  // GROUP = 'group', // Future: group rooms
+  /** Named chat room shared by several users */
+  GROUP = 'group',
 }
 
 /**
  * Member roles within a room
  */
 export enum MemberRole {
-  /** Room administrator (creator) */
+  /** Room owner (creator, unless ownership was transferred) */
+  OWNER = 'owner',
+  /** Room administrator, can manage regular members */
   ADMIN = 'admin',
   /** Standard member */
   MEMBER = 'member',
@@ -38,7 +41,7 @@ export class RoomMember {
 
   /**
    * Member's role in the room
-   * ADMIN for creator, MEMBER for others
+   * OWNER for creator, MEMBER for others until promoted
    */
   @Prop({ type: String, enum: MemberRole, default: MemberRole.MEMBER })
   role!: MemberRole;
@@ -55,6 +58,45 @@ export class RoomMember {
    */
   @Prop({ type: Date })
   leftAt?: Date;
+
+  /**
+   * ObjectId of the latest message read by the member
+   * Undefined until the member reads a message
+   */
+  @Prop()
+  lastReadMessageId?: string;
+
+  /**
+   * Timestamp of the latest message read by the member
+   * Messages sent after it count as unread
+   */
+  @Prop({ type: Date })
+  lastReadAt?: Date;
+}
+
+/**
+ * Embedded schema for pinned messages
+ * Kept on the room so the pins come with it
+ */
+@Schema({ ...defaultSchemaOptions })
+export class PinnedMessage {
+  /**
+   * ObjectId of the pinned message
+   */
+  @Prop({ required: true })
+  messageId!: string;
+
+  /**
+   * UUID of the member who pinned the message
+   */
+  @Prop({ required: true })
+  pinnedBy!: string;
+
+  /**
+   * Pin date
+   */
+  @Prop({ required: true, type: Date, default: Date.now })
+  pinnedAt!: Date;
 }
 
 /**
@@ -63,7 +105,7 @@ export class RoomMember {
  * Stored in MongoDB for:
  * - Flexible member management (embedded array)
  * - Optimal performance for real-time operations
- * - Easy extension for future group rooms
+ * - Same structure for direct and group rooms
  * 
  * @collection rooms - MongoDB rooms collection
  */
@@ -78,20 +120,20 @@ export class Room {
   /**
    * Room name
    * For DIRECT: concatenated usernames
-   * For GROUP (future): customizable name
+   * For GROUP: customizable name
    */
   @Prop({ required: true, minlength: 1, maxlength: 100 })
   name!: string;
 
   /**
-   * Room type (currently only DIRECT)
+   * Room type (DIRECT or GROUP)
    */
   @Prop({ required: true, type: String, enum: RoomType })
   type!: RoomType;
 
   /**
    * Optional room description
-   * Mainly used for future group rooms
+   * Mainly used for group rooms
    */
   @Prop({ maxlength: 500 })
   description?: string;
@@ -107,10 +149,18 @@ export class Room {
    * List of room members
    * Embedded array for performance and atomicity
    * For DIRECT: exactly 2 members
+   * For GROUP: creator plus the invited members
    */
   @Prop({ type: [RoomMember], default: [] })
   members!: RoomMember[];
 
+  /**
+   * Messages pinned by the members, most recently pinned last
+   * Capped to keep the room document small
+   */
+  @Prop({ type: [PinnedMessage], default: [] })
+  pinnedMessages!: PinnedMessage[];
+
   /**
    * Room activity status
    * false = archived/deleted room (soft delete)
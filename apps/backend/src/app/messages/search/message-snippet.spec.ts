@@ -0,0 +1,60 @@
+import {
+  buildMessageSnippet,
+  extractSearchTerms,
+} from '@backend/messages/search/message-snippet';
+
+describe('MessageSnippet', () => {
+  describe('extractSearchTerms', () => {
+    it('should split words and keep quoted phrases whole', () => {
+      expect(extractSearchTerms('Release "next Monday" notes')).toEqual([
+        'next monday',
+        'release',
+        'notes',
+      ]);
+    });
+
+    it('should ignore negated terms and duplicates', () => {
+      expect(extractSearchTerms('deploy -staging Deploy -"dry run"')).toEqual([
+        'deploy',
+      ]);
+    });
+  });
+
+  describe('buildMessageSnippet', () => {
+    it('should keep short contents whole and highlight every match', () => {
+      expect(
+        buildMessageSnippet('Deploy done, next deploy on Monday', ['deploy'])
+      ).toEqual({
+        snippet: 'Deploy done, next deploy on Monday',
+        highlights: [
+          { offset: 0, length: 6 },
+          { offset: 18, length: 6 },
+        ],
+      });
+    });
+
+    it('should merge overlapping matches', () => {
+      expect(buildMessageSnippet('database', ['data', 'base'])).toEqual({
+        snippet: 'database',
+        highlights: [{ offset: 0, length: 8 }],
+      });
+    });
+
+    it('should cut long contents around the first match', () => {
+      const content = `${'a'.repeat(100)} needle ${'b'.repeat(100)}`;
+
+      const { snippet, highlights } = buildMessageSnippet(
+        content,
+        ['needle'],
+        30
+      );
+
+      expect(snippet.startsWith('…')).toBe(true);
+      expect(snippet.endsWith('…')).toBe(true);
+      expect(snippet).toHaveLength(32);
+      expect(highlights).toHaveLength(1);
+      const [{ offset, length }] = highlights;
+      expect(snippet.slice(offset, offset + length)).toBe('needle');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Maximum length of a search snippet, ellipses excluded
+ */
+export const SNIPPET_LENGTH = 160;
+
+const ELLIPSIS = '…';
+
+/**
+ * Range of a snippet matching one of the search terms
+ */
+export interface TextHighlight {
+  /** Index of the first highlighted character */
+  offset: number;
+  /** Number of highlighted characters */
+  length: number;
+}
+
+/**
+ * Excerpt of a message around its first match
+ */
+export interface MessageSnippet {
+  /** Excerpt of the content, with ellipses where it was cut */
+  snippet: string;
+  /** Ranges of the excerpt matching the search terms, in order */
+  highlights: TextHighlight[];
+}
+
+/**
+ * Extracts the terms to highlight from a MongoDB text search string.
+ * Quoted phrases are kept whole and negated terms are ignored.
+ *
+ * @param {string} query - The raw search string
+ * @returns {string[]} The lowercased terms, without duplicates
+ */
+export function extractSearchTerms(query: string): string[] {
+  const terms = new Set<string>();
+
+  const unquoted = query.replace(/(-?)"([^"]*)"/g, (_, negated, phrase) => {
+    if (!negated && phrase.trim()) {
+      terms.add(phrase.trim().toLowerCase());
+    }
+    return ' ';
+  });
+
+  for (const word of unquoted.split(/\s+/)) {
+    if (word && !word.startsWith('-')) {
+      terms.add(word.toLowerCase());
+    }
+  }
+
+  return [...terms];
+}
+
+/**
+ * Finds the ranges of a text matching any of the terms, merging overlaps
+ *
+ * @param {string} text - The text to look into
+ * @param {string[]} terms - The lowercased terms to find
+ * @returns {TextHighlight[]} The matching ranges, in order
+ */
+function findHighlights(text: string, terms: string[]): TextHighlight[] {
+  const lowered = text.toLowerCase();
+  const ranges: TextHighlight[] = [];
+
+  for (const term of terms) {
+    let index = lowered.indexOf(term);
+    while (index !== -1) {
+      ranges.push({ offset: index, length: term.length });
+      index = lowered.indexOf(term, index + term.length);
+    }
+  }
+
+  ranges.sort((a, b) => a.offset - b.offset);
+
+  return ranges.reduce<TextHighlight[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.offset <= last.offset + last.length) {
+      last.length =
+        Math.max(last.offset + last.length, range.offset + range.length) -
+        last.offset;
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Builds a snippet of a message content centered on its first match
+ *
+ * @param {string} content - The message content
+ * @param {string[]} terms - The lowercased search terms
+ * @param {number} [maxLength=SNIPPET_LENGTH] - Maximum length of the excerpt
+ * @returns {MessageSnippet} The excerpt and its highlighted ranges
+ */
+export function buildMessageSnippet(
+  content: string,
+  terms: string[],
+  maxLength: number = SNIPPET_LENGTH
+): MessageSnippet {
+  const highlights = findHighlights(content, terms);
+
+  if (content.length <= maxLength) {
+    return { snippet: content, highlights };
+  }
+
+  const firstMatch = highlights[0]?.offset ?? 0;
+  const end = Math.min(
+    content.length,
+    Math.max(firstMatch - Math.floor(maxLength / 3), 0) + maxLength
+  );
+  const start = end - maxLength;
+  const prefix = start > 0 ? ELLIPSIS : '';
+  const suffix = end < content.length ? ELLIPSIS : '';
+
+  return {
+    snippet: prefix + content.slice(start, end) + suffix,
+    highlights: highlights
+      .filter((range) => range.offset >= start && range.offset < end)
+      .map((range) => ({
+        offset: range.offset - start + prefix.length,
+        length: Math.min(range.length, end - range.offset),
+      })),
+  };
+}
@@ -0,0 +1,13 @@
+export const RATE_LIMIT_CONSTANTS = {
+  DEFAULT_STORE: 'memory',
+  DEFAULT_REDIS_URL: 'redis://localhost:6379',
+  DEFAULT_KEY_PREFIX: 'rate-limit:',
+  REDIS_TIMEOUT: 5000,
+  MEMORY_SWEEP_INTERVAL: 60000,
+  DEFAULT_LIMIT: 100,
+  DEFAULT_WINDOW_MS: 60000,
+};
+
+export const RATE_LIMIT_STORE = 'RATE_LIMIT_STORE';
+
+export const RATE_LIMIT_KEY = 'rateLimit';
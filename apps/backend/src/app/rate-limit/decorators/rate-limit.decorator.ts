@@ -0,0 +1,18 @@
+import { SetMetadata } from '@nestjs/common';
+
+import { RATE_LIMIT_KEY } from '@backend/app/rate-limit/constants/rate-limit.constants';
+
+/**
+ * Limit of a route, counted per client IP apart from the global limit
+ */
+export interface RateLimitOptions {
+  /** Requests allowed per window */
+  limit: number;
+  /** Duration of the window in milliseconds */
+  windowMs: number;
+}
+
+export const RateLimit = (options: RateLimitOptions) =>
+  SetMetadata(RATE_LIMIT_KEY, options);
+
+export const SkipRateLimit = () => SetMetadata(RATE_LIMIT_KEY, false);
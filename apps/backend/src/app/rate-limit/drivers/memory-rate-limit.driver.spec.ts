@@ -0,0 +1,111 @@
+import { MemoryRateLimitStore } from '@backend/app/rate-limit/drivers/memory-rate-limit.driver';
+
+describe('MemoryRateLimitStore', () => {
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    store = new MemoryRateLimitStore(60000);
+  });
+
+  afterEach(() => {
+    store.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  describe('increment', () => {
+    it('should count the hits of a window', async () => {
+      await store.increment('key', 1000);
+      jest.advanceTimersByTime(400);
+
+      await expect(store.increment('key', 1000)).resolves.toEqual({
+        count: 2,
+        resetInMs: 600,
+      });
+    });
+
+    it('should start a new window once the previous one expired', async () => {
+      await store.increment('key', 1000);
+      await store.increment('key', 1000);
+      jest.advanceTimersByTime(1000);
+
+      await expect(store.increment('key', 1000)).resolves.toEqual({
+        count: 1,
+        resetInMs: 1000,
+      });
+    });
+  });
+
+  describe('get', () => {
+    it('should return null for an unknown or expired counter', async () => {
+      await store.set('key', 3, 500);
+
+      await expect(store.get('unknown')).resolves.toBeNull();
+      await expect(store.get('key')).resolves.toEqual({
+        count: 3,
+        resetInMs: 500,
+      });
+
+      jest.advanceTimersByTime(500);
+      await expect(store.get('key')).resolves.toBeNull();
+    });
+  });
+
+  describe('delete', () => {
+    it('should drop the counter', async () => {
+      await store.increment('key', 1000);
+      await store.delete('key');
+
+      await expect(store.get('key')).resolves.toBeNull();
+    });
+  });
+
+  describe('consume', () => {
+    const bucket = { capacity: 2, refillPerSecond: 1 };
+
+    it('should allow a burst up to the capacity of the bucket', async () => {
+      await expect(store.consume('key', bucket)).resolves.toEqual({
+        allowed: true,
+        remaining: 1,
+        retryAfterMs: 0,
+      });
+      await expect(store.consume('key', bucket)).resolves.toEqual({
+        allowed: true,
+        remaining: 0,
+        retryAfterMs: 0,
+      });
+      await expect(store.consume('key', bucket)).resolves.toEqual({
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: 1000,
+      });
+    });
+
+    it('should refill the bucket over time', async () => {
+      await store.consume('key', bucket);
+      await store.consume('key', bucket);
+      jest.advanceTimersByTime(500);
+
+      await expect(store.consume('key', bucket)).resolves.toEqual({
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: 500,
+      });
+
+      jest.advanceTimersByTime(500);
+      await expect(store.consume('key', bucket)).resolves.toMatchObject({
+        allowed: true,
+      });
+    });
+
+    it('should keep separate buckets per key', async () => {
+      await store.consume('first', bucket);
+      await store.consume('first', bucket);
+
+      await expect(store.consume('second', bucket)).resolves.toMatchObject({
+        allowed: true,
+        remaining: 1,
+      });
+    });
+  });
+});
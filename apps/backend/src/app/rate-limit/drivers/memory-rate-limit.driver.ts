@@ -0,0 +1,128 @@
+import { OnModuleDestroy } from '@nestjs/common';
+
+import {
+  RateLimitStore,
+  RateLimitCounter,
+  TokenBucketResult,
+  TokenBucketOptions,
+} from '@backend/app/rate-limit/interfaces/rate-limit-store.interface';
+
+interface CounterEntry {
+  count: number;
+  expiresAt: number;
+}
+
+interface BucketEntry {
+  tokens: number;
+  updatedAt: number;
+  /** Time at which the bucket is full again and can be dropped */
+  expiresAt: number;
+}
+
+/**
+ * Keeps the limiters in the memory of the process, for a single instance:
+ * each instance of a scaled deployment would count on its own
+ *
+ * Expired entries are dropped when read and by a periodic sweep.
+ */
+export class MemoryRateLimitStore implements RateLimitStore, OnModuleDestroy {
+  private readonly counters = new Map<string, CounterEntry>();
+  private readonly buckets = new Map<string, BucketEntry>();
+  private readonly sweepTimer: NodeJS.Timeout;
+
+  constructor(sweepIntervalMs: number) {
+    this.sweepTimer = setInterval(() => this.sweep(), sweepIntervalMs);
+    this.sweepTimer.unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    let entry = this.counter(key, now);
+
+    if (!entry) {
+      entry = { count: 0, expiresAt: now + windowMs };
+      this.counters.set(key, entry);
+    }
+    entry.count++;
+
+    return { count: entry.count, resetInMs: entry.expiresAt - now };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const now = Date.now();
+    const entry = this.counter(key, now);
+
+    return entry
+      ? { count: entry.count, resetInMs: entry.expiresAt - now }
+      : null;
+  }
+
+  async set(key: string, count: number, ttlMs: number): Promise<void> {
+    this.counters.set(key, { count, expiresAt: Date.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.counters.delete(key);
+    this.buckets.delete(key);
+  }
+
+  async consume(
+    key: string,
+    { capacity, refillPerSecond }: TokenBucketOptions
+  ): Promise<TokenBucketResult> {
+    const now = Date.now();
+    const bucket = this.buckets.get(key);
+    const elapsedMs = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+    let tokens = bucket
+      ? Math.min(capacity, bucket.tokens + (elapsedMs * refillPerSecond) / 1000)
+      : capacity;
+
+    const allowed = tokens >= 1;
+    if (allowed) {
+      tokens--;
+    }
+
+    this.buckets.set(key, {
+      tokens,
+      updatedAt: now,
+      expiresAt: now + ((capacity - tokens) * 1000) / refillPerSecond,
+    });
+
+    return {
+      allowed,
+      remaining: Math.floor(tokens),
+      retryAfterMs: allowed
+        ? 0
+        : Math.ceil(((1 - tokens) * 1000) / refillPerSecond),
+    };
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
+  private counter(key: string, now: number): CounterEntry | null {
+    const entry = this.counters.get(key);
+    if (entry && entry.expiresAt <= now) {
+      this.counters.delete(key);
+      return null;
+    }
+
+    return entry ?? null;
+  }
+
+  private sweep() {
+    const now = Date.now();
+
+    for (const [key, entry] of this.counters) {
+      if (entry.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.expiresAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
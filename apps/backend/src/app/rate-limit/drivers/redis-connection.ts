@@ -0,0 +1,283 @@
+import { createConnection, Socket } from 'net';
+
+export interface RedisConnectionOptions {
+  /** redis://[:password@]host[:port][/db] */
+  url: string;
+  /** Milliseconds a command may wait for its reply */
+  timeout: number;
+}
+
+export type RedisReply = string | number | null | Error | RedisReply[];
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+const CRLF = '\r\n';
+
+/**
+ * Error reply of the server, e.g. "WRONGTYPE Operation against a key..."
+ */
+export class RedisReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisReplyError';
+  }
+}
+
+/**
+ * Encodes a command as an array of bulk strings (RESP)
+ *
+ * @param {Array<string | number>} args - The command and its arguments
+ * @returns {Buffer} The request to write to the socket
+ */
+export function encodeCommand(args: (string | number)[]): Buffer {
+  const parts = [`*${args.length}${CRLF}`];
+
+  for (const arg of args) {
+    const value = String(arg);
+    parts.push(`$${Buffer.byteLength(value)}${CRLF}${value}${CRLF}`);
+  }
+
+  return Buffer.from(parts.join(''));
+}
+
+/**
+ * Decodes the reply starting at an offset of the buffer
+ *
+ * @param {Buffer} buffer - The data received so far
+ * @param {number} offset - Start of the reply
+ * @returns {{ reply: RedisReply, offset: number } | null} The reply and the offset after it, or null while incomplete
+ */
+export function decodeReply(
+  buffer: Buffer,
+  offset: number
+): { reply: RedisReply; offset: number } | null {
+  const lineEnd = buffer.indexOf(CRLF, offset);
+  if (lineEnd < 0) {
+    return null;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { reply: line, offset: next };
+    case '-':
+      return { reply: new RedisReplyError(line), offset: next };
+    case ':':
+      return { reply: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) {
+        return { reply: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+      return {
+        reply: buffer.toString('utf8', next, next + length),
+        offset: next + length + 2,
+      };
+    }
+    case '*': {
+      const length = Number(line);
+      if (length < 0) {
+        return { reply: null, offset: next };
+      }
+
+      const replies: RedisReply[] = [];
+      let position = next;
+      for (let i = 0; i < length; i++) {
+        const element = decodeReply(buffer, position);
+        if (!element) {
+          return null;
+        }
+        replies.push(element.reply);
+        position = element.offset;
+      }
+      return { reply: replies, offset: position };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type "${type}"`);
+  }
+}
+
+/**
+ * Single connection to a Redis server, commands being pipelined and their
+ * replies matched in order
+ *
+ * The connection is opened by the first command and opened again by the
+ * next command after it is lost, the pending commands being rejected.
+ */
+export class RedisConnection {
+  private socket: Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+
+  constructor(private readonly options: RedisConnectionOptions) {}
+
+  /**
+   * Sends a command
+   *
+   * @param {Array<string | number>} args - The command and its arguments
+   * @returns {Promise<RedisReply>} The reply, errors nested in arrays included
+   * @throws {RedisReplyError} When the server replies with an error
+   * @throws {Error} When the connection fails or the reply times out
+   */
+  command(args: (string | number)[]): Promise<RedisReply> {
+    const socket = this.socket ?? this.connect();
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({
+        resolve: (reply) =>
+          reply instanceof RedisReplyError ? reject(reply) : resolve(reply),
+        reject,
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  /**
+   * Closes the connection, rejecting the pending commands
+   */
+  close() {
+    this.socket?.destroy();
+    this.reset(new Error('Redis connection closed'));
+  }
+
+  private connect(): Socket {
+    const url = new URL(this.options.url);
+    const socket = createConnection({
+      host: url.hostname || 'localhost',
+      port: Number(url.port) || 6379,
+    });
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+
+    socket.setTimeout(this.options.timeout, () => {
+      // An idle connection is kept, only a command waiting for its reply fails
+      if (this.socket === socket && this.pending.length) {
+        socket.destroy(new Error('Redis command timed out'));
+      }
+    });
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    socket.on('error', (error) => {
+      if (this.socket === socket) {
+        this.reset(error);
+      }
+    });
+    socket.on('close', () => {
+      if (this.socket === socket) {
+        this.reset(new Error('Redis connection closed'));
+      }
+    });
+
+    // Sent before any command, their replies are consumed here
+    const password = decodeURIComponent(url.password);
+    const database = url.pathname.slice(1);
+    if (password) {
+      const username = decodeURIComponent(url.username);
+      this.pending.push(this.setupCommand(socket));
+      socket.write(
+        encodeCommand(
+          username ? ['AUTH', username, password] : ['AUTH', password]
+        )
+      );
+    }
+    if (database) {
+      this.pending.push(this.setupCommand(socket));
+      socket.write(encodeCommand(['SELECT', database]));
+    }
+
+    return socket;
+  }
+
+  /**
+   * Consumes the reply of a command sent on connection (AUTH, SELECT).
+   * A failure closes the connection right away, rejecting the commands
+   * queued behind it with its error, whose replies may already be received.
+   */
+  private setupCommand(socket: Socket): PendingCommand {
+    const fail = (error: Error) => {
+      if (this.socket === socket) {
+        socket.destroy();
+        this.reset(error);
+      }
+    };
+
+    return {
+      resolve: (reply) => {
+        if (reply instanceof Error) {
+          fail(reply);
+        }
+      },
+      reject: fail,
+    };
+  }
+
+  private receive(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let offset = 0;
+    let decoded: ReturnType<typeof decodeReply>;
+    try {
+      while ((decoded = decodeReply(this.buffer, offset))) {
+        offset = decoded.offset;
+        if (this.isPush?.(decoded.reply)) {
+          this.onPush?.(decoded.reply as RedisReply[]);
+        } else {
+          this.pending.shift()?.resolve(decoded.reply);
+        }
+      }
+    } catch (error) {
+      this.socket?.destroy(error as Error);
+      return;
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  /**
+   * Tells replies sent by the server on its own (e.g. pub/sub messages)
+   * from the replies of the commands, every reply answers a command
+   * when not implemented
+   *
+   * @protected
+   * @param {RedisReply} reply - A decoded reply
+   * @returns {boolean} True if the reply answers no command
+   */
+  protected isPush?(reply: RedisReply): boolean;
+
+  /**
+   * Receives the replies recognized by isPush
+   *
+   * @protected
+   * @param {RedisReply[]} reply - The pushed reply
+   */
+  protected onPush?(reply: RedisReply[]): void;
+
+  /**
+   * Called once the connection is lost or closed, the next command opens
+   * it again
+   *
+   * @protected
+   * @param {Error} error - Why the connection ended
+   */
+  protected onReset?(error: Error): void;
+
+  private reset(error: Error) {
+    const pending = this.pending;
+
+    this.socket = null;
+    this.pending = [];
+    this.buffer = Buffer.alloc(0);
+    for (const command of pending) {
+      command.reject(error);
+    }
+    this.onReset?.(error);
+  }
+}
@@ -0,0 +1,235 @@
+import { AddressInfo, createServer, Server, Socket } from 'net';
+
+import {
+  RedisReply,
+  decodeReply,
+  encodeCommand,
+} from '@backend/app/rate-limit/drivers/redis-connection';
+import { RedisRateLimitStore } from '@backend/app/rate-limit/drivers/redis-rate-limit.driver';
+
+describe('RedisRateLimitStore', () => {
+  let server: Server;
+  let port: number;
+  let commands: string[][];
+  let values: Map<string, { value: string; expiresAt: number }>;
+  let evalReply: RedisReply;
+  let failingCommand: string | null;
+  let store: RedisRateLimitStore;
+
+  const encodeReply = (reply: RedisReply): string => {
+    if (reply === null) {
+      return '$-1\r\n';
+    }
+    if (reply instanceof Error) {
+      return `-${reply.message}\r\n`;
+    }
+    if (typeof reply === 'number') {
+      return `:${reply}\r\n`;
+    }
+    if (Array.isArray(reply)) {
+      return `*${reply.length}\r\n${reply.map(encodeReply).join('')}`;
+    }
+    return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`;
+  };
+
+  /**
+   * Minimal Redis server keeping strings in a map and recording the
+   * commands it receives
+   */
+  const execute = (command: string[]): RedisReply => {
+    const [name, key, ...args] = command;
+    if (name === failingCommand) {
+      return new Error(
+        'WRONGTYPE Operation against a key holding the wrong kind of value'
+      );
+    }
+    const entry = values.get(key);
+    const current =
+      entry && entry.expiresAt > Date.now()
+        ? entry
+        : (values.delete(key), null);
+
+    switch (name) {
+      case 'AUTH':
+      case 'SELECT':
+        return 'OK';
+      case 'SET': {
+        if (args.includes('NX') && current) {
+          return null;
+        }
+        const ttl = Number(args[args.indexOf('PX') + 1]);
+        values.set(key, { value: args[0], expiresAt: Date.now() + ttl });
+        return 'OK';
+      }
+      case 'INCR': {
+        const value = String(Number(current?.value ?? 0) + 1);
+        values.set(key, {
+          value,
+          expiresAt: current?.expiresAt ?? Number.MAX_SAFE_INTEGER,
+        });
+        return Number(value);
+      }
+      case 'GET':
+        return current?.value ?? null;
+      case 'PTTL':
+        return current ? current.expiresAt - Date.now() : -2;
+      case 'DEL':
+        return values.delete(key) ? 1 : 0;
+      case 'EVAL':
+        return evalReply;
+      default:
+        return new Error(`ERR unknown command '${name}'`);
+    }
+  };
+
+  const handleConnection = (socket: Socket) => {
+    let buffer = Buffer.alloc(0);
+    let queue: string[][] | null = null;
+
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      let decoded: ReturnType<typeof decodeReply>;
+      while ((decoded = decodeReply(buffer, 0))) {
+        buffer = buffer.subarray(decoded.offset);
+        const command = decoded.reply as string[];
+        commands.push(command);
+
+        if (command[0] === 'MULTI') {
+          queue = [];
+          socket.write(encodeReply('OK'));
+        } else if (command[0] === 'EXEC') {
+          const replies = (queue ?? []).map(execute);
+          queue = null;
+          socket.write(encodeReply(replies));
+        } else if (queue) {
+          queue.push(command);
+          socket.write(encodeReply('QUEUED'));
+        } else {
+          socket.write(encodeReply(execute(command)));
+        }
+      }
+    });
+  };
+
+  const createStore = (url = `redis://127.0.0.1:${port}`) =>
+    new RedisRateLimitStore({ url, timeout: 2000, keyPrefix: 'test:' });
+
+  beforeEach(async () => {
+    commands = [];
+    values = new Map();
+    evalReply = [1, 4, 0];
+    failingCommand = null;
+    server = createServer(handleConnection);
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    port = (server.address() as AddressInfo).port;
+    store = createStore();
+  });
+
+  afterEach(async () => {
+    store.onModuleDestroy();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should count the hits of a window in a transaction', async () => {
+    await store.increment('key', 60000);
+    const counter = await store.increment('key', 60000);
+
+    expect(counter.count).toBe(2);
+    expect(counter.resetInMs).toBeGreaterThan(59000);
+    expect(commands.slice(0, 5)).toEqual([
+      ['MULTI'],
+      ['SET', 'test:key', '0', 'PX', '60000', 'NX'],
+      ['INCR', 'test:key'],
+      ['PTTL', 'test:key'],
+      ['EXEC'],
+    ]);
+  });
+
+  it('should read, set and delete counters', async () => {
+    await expect(store.get('key')).resolves.toBeNull();
+
+    await store.set('key', 3, 1000);
+    const counter = await store.get('key');
+    expect(counter?.count).toBe(3);
+    expect(counter?.resetInMs).toBeGreaterThan(0);
+
+    await store.delete('key');
+    await expect(store.get('key')).resolves.toBeNull();
+  });
+
+  it('should consume a token with the bucket script', async () => {
+    evalReply = [0, 0, 750];
+
+    await expect(
+      store.consume('bucket', { capacity: 5, refillPerSecond: 2 })
+    ).resolves.toEqual({ allowed: false, remaining: 0, retryAfterMs: 750 });
+
+    const [name, script, keys, key, capacity, rate] = commands[0];
+    expect([name, keys, key, capacity, rate]).toEqual([
+      'EVAL',
+      '1',
+      'test:bucket',
+      '5',
+      '2',
+    ]);
+    expect(script).toContain("redis.call('HMGET', KEYS[1]");
+  });
+
+  it('should authenticate and select the database of the url', async () => {
+    store.onModuleDestroy();
+    store = createStore(`redis://:s3cret@127.0.0.1:${port}/2`);
+
+    await store.delete('key');
+
+    expect(commands).toEqual([
+      ['AUTH', 's3cret'],
+      ['SELECT', '2'],
+      ['DEL', 'test:key'],
+    ]);
+  });
+
+  it('should reject the commands when the authentication fails', async () => {
+    store.onModuleDestroy();
+    store = createStore(`redis://:wrong@127.0.0.1:${port}`);
+    failingCommand = 'AUTH';
+
+    await expect(store.get('key')).rejects.toThrow('WRONGTYPE');
+  });
+
+  it('should reject when a command of the transaction fails', async () => {
+    failingCommand = 'INCR';
+
+    await expect(store.increment('key', 1000)).rejects.toThrow(
+      'WRONGTYPE Operation against a key holding the wrong kind of value'
+    );
+
+    // The connection is still usable once the block is ended
+    failingCommand = null;
+    await expect(store.increment('key', 1000)).resolves.toMatchObject({
+      count: 1,
+    });
+  });
+
+  it('should reject when a single command fails', async () => {
+    failingCommand = 'DEL';
+
+    await expect(store.delete('key')).rejects.toThrow('WRONGTYPE');
+  });
+
+  it('should reject when the server cannot be reached', async () => {
+    await new Promise((resolve) => server.close(resolve));
+    server = createServer();
+    server.listen(0);
+
+    await expect(store.get('key')).rejects.toThrow();
+  });
+
+  it('should encode commands as arrays of bulk strings', () => {
+    expect(encodeCommand(['GET', 'clé']).toString()).toBe(
+      '*2\r\n$3\r\nGET\r\n$4\r\nclé\r\n'
+    );
+  });
+});
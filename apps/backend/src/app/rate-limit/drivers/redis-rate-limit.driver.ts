@@ -0,0 +1,155 @@
+import { OnModuleDestroy } from '@nestjs/common';
+
+import {
+  RateLimitStore,
+  RateLimitCounter,
+  TokenBucketResult,
+  TokenBucketOptions,
+} from '@backend/app/rate-limit/interfaces/rate-limit-store.interface';
+import {
+  RedisReply,
+  RedisConnection,
+  RedisConnectionOptions,
+} from '@backend/app/rate-limit/drivers/redis-connection';
+
+export interface RedisRateLimitOptions extends RedisConnectionOptions {
+  /** Prefix of the keys, separating the limiters from other data */
+  keyPrefix: string;
+}
+
+/**
+ * Refills the bucket for the time elapsed since its last use and takes a
+ * token, atomically. The bucket expires once it would be full again.
+ *
+ * KEYS[1]: bucket, ARGV: capacity, tokens per second, current time in ms
+ */
+const CONSUME_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(bucket[1]) or capacity
+local elapsed = math.max(0, now - (tonumber(bucket[2]) or now))
+tokens = math.min(capacity, tokens + elapsed * rate / 1000)
+local allowed = 0
+local retryAfter = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+else
+  retryAfter = math.ceil((1 - tokens) * 1000 / rate)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil((capacity - tokens) * 1000 / rate) + 1000)
+return {allowed, math.floor(tokens), retryAfter}
+`;
+
+/**
+ * Keeps the limiters in Redis, shared by all the instances of the backend
+ *
+ * Counters are strings expiring with their window, buckets are hashes
+ * updated by a script.
+ */
+export class RedisRateLimitStore implements RateLimitStore, OnModuleDestroy {
+  private readonly connection: RedisConnection;
+
+  constructor(private readonly options: RedisRateLimitOptions) {
+    this.connection = new RedisConnection(options);
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const redisKey = this.key(key);
+
+    // The first hit creates the counter with the expiry of the window
+    const replies = await this.transaction([
+      ['SET', redisKey, 0, 'PX', windowMs, 'NX'],
+      ['INCR', redisKey],
+      ['PTTL', redisKey],
+    ]);
+
+    return {
+      count: replies[1] as number,
+      resetInMs: Math.max(0, replies[2] as number),
+    };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const redisKey = this.key(key);
+    const [count, ttl] = await this.transaction([
+      ['GET', redisKey],
+      ['PTTL', redisKey],
+    ]);
+
+    if (count === null) {
+      return null;
+    }
+
+    return { count: Number(count), resetInMs: Math.max(0, ttl as number) };
+  }
+
+  async set(key: string, count: number, ttlMs: number): Promise<void> {
+    await this.connection.command([
+      'SET',
+      this.key(key),
+      count,
+      'PX',
+      Math.max(1, Math.ceil(ttlMs)),
+    ]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.connection.command(['DEL', this.key(key)]);
+  }
+
+  async consume(
+    key: string,
+    { capacity, refillPerSecond }: TokenBucketOptions
+  ): Promise<TokenBucketResult> {
+    const [allowed, remaining, retryAfterMs] = (await this.connection.command([
+      'EVAL',
+      CONSUME_SCRIPT,
+      1,
+      this.key(key),
+      capacity,
+      refillPerSecond,
+      Date.now(),
+    ])) as number[];
+
+    return { allowed: allowed === 1, remaining, retryAfterMs };
+  }
+
+  onModuleDestroy() {
+    this.connection.close();
+  }
+
+  private key(key: string): string {
+    return `${this.options.keyPrefix}${key}`;
+  }
+
+  /**
+   * Runs commands in a MULTI/EXEC block
+   *
+   * @private
+   * @param {Array<Array<string | number>>} commands - The commands to run atomically
+   * @returns {Promise<RedisReply[]>} The replies of the commands
+   * @throws {Error} When a command fails
+   */
+  private async transaction(
+    commands: (string | number)[][]
+  ): Promise<RedisReply[]> {
+    // Written at once, so EXEC ends the block even if a command is refused
+    const replies = await Promise.all([
+      this.connection.command(['MULTI']),
+      ...commands.map((command) => this.connection.command(command)),
+      this.connection.command(['EXEC']),
+    ]).then((results) => results[results.length - 1] as RedisReply[]);
+
+    // Errors of commands run by EXEC are returned among the replies
+    const error = replies.find((reply) => reply instanceof Error);
+    if (error) {
+      throw error;
+    }
+
+    return replies;
+  }
+}
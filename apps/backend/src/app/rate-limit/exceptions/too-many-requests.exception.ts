@@ -0,0 +1,20 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Exception for a client over a rate limit or locked out (status 429)
+ *
+ * The body tells the client when to try again, in seconds.
+ */
+export class TooManyRequestsException extends HttpException {
+  constructor(message: string, retryAfter: number) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        error: 'Too Many Requests',
+        message,
+        retryAfter,
+      },
+      HttpStatus.TOO_MANY_REQUESTS
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { WsException } from '@nestjs/websockets';
+
+/**
+ * Payload of the "exception" event sent for a rejected socket event
+ */
+export interface WsRateLimitError {
+  status: 'error';
+  code: 'RATE_LIMITED';
+  /** Event that was rejected, e.g. sendMessage */
+  event: string;
+  message: string;
+  /** Milliseconds until the event is accepted again */
+  retryAfterMs: number;
+}
+
+/**
+ * Exception for a socket event sent faster than its rate limit
+ */
+export class WsRateLimitException extends WsException {
+  constructor(event: string, retryAfterMs: number) {
+    super({
+      status: 'error',
+      code: 'RATE_LIMITED',
+      event,
+      message: 'Too many messages, slow down',
+      retryAfterMs,
+    } satisfies WsRateLimitError);
+  }
+}
@@ -0,0 +1,129 @@
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { ExecutionContext } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { RateLimitGuard } from '@backend/app/rate-limit/guards/rate-limit.guard';
+import { RATE_LIMIT_STORE } from '@backend/app/rate-limit/constants/rate-limit.constants';
+import { TooManyRequestsException } from '@backend/app/rate-limit/exceptions/too-many-requests.exception';
+
+describe('RateLimitGuard', () => {
+  let guard: RateLimitGuard;
+
+  const mockReflector = {
+    getAllAndOverride: jest.fn(),
+  };
+
+  const mockStore = {
+    increment: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key === 'RATE_LIMIT_MAX' ? '3' : defaultValue
+    ),
+  };
+
+  const mockResponse = {
+    setHeader: jest.fn(),
+  };
+
+  class AuthController {
+    login() {
+      return null;
+    }
+  }
+
+  const mockExecutionContext = {
+    getType: jest.fn().mockReturnValue('http'),
+    switchToHttp: jest.fn().mockReturnValue({
+      getRequest: jest.fn().mockReturnValue({ ip: '203.0.113.7' }),
+      getResponse: jest.fn().mockReturnValue(mockResponse),
+    }),
+    getHandler: jest.fn().mockReturnValue(AuthController.prototype.login),
+    getClass: jest.fn().mockReturnValue(AuthController),
+  } as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RateLimitGuard,
+        { provide: Reflector, useValue: mockReflector },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: RATE_LIMIT_STORE, useValue: mockStore },
+      ],
+    }).compile();
+
+    guard = module.get<RateLimitGuard>(RateLimitGuard);
+
+    mockReflector.getAllAndOverride.mockReturnValue(undefined);
+    mockStore.increment.mockResolvedValue({ count: 1, resetInMs: 30500 });
+  });
+
+  it('should count the request of the client IP with the global limit', async () => {
+    await expect(guard.canActivate(mockExecutionContext)).resolves.toBe(true);
+
+    expect(mockStore.increment).toHaveBeenCalledWith(
+      'http:global:203.0.113.7',
+      60000
+    );
+    expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Limit', 3);
+    expect(mockResponse.setHeader).toHaveBeenCalledWith(
+      'X-RateLimit-Remaining',
+      2
+    );
+    expect(mockResponse.setHeader).toHaveBeenCalledWith(
+      'X-RateLimit-Reset',
+      31
+    );
+  });
+
+  it('should use the limit of the route when it has one', async () => {
+    mockReflector.getAllAndOverride.mockReturnValue({
+      limit: 10,
+      windowMs: 1000,
+    });
+
+    await guard.canActivate(mockExecutionContext);
+
+    expect(mockStore.increment).toHaveBeenCalledWith(
+      'http:AuthController.login:203.0.113.7',
+      1000
+    );
+    expect(mockResponse.setHeader).toHaveBeenCalledWith(
+      'X-RateLimit-Limit',
+      10
+    );
+  });
+
+  it('should reject the request once the limit is reached', async () => {
+    mockStore.increment.mockResolvedValue({ count: 4, resetInMs: 12000 });
+
+    await expect(guard.canActivate(mockExecutionContext)).rejects.toThrow(
+      TooManyRequestsException
+    );
+    expect(mockResponse.setHeader).toHaveBeenCalledWith('Retry-After', 12);
+  });
+
+  it('should skip the routes marked with SkipRateLimit', async () => {
+    mockReflector.getAllAndOverride.mockReturnValue(false);
+
+    await expect(guard.canActivate(mockExecutionContext)).resolves.toBe(true);
+    expect(mockStore.increment).not.toHaveBeenCalled();
+  });
+
+  it('should skip the contexts other than http', async () => {
+    (mockExecutionContext.getType as jest.Mock).mockReturnValueOnce('ws');
+
+    await expect(guard.canActivate(mockExecutionContext)).resolves.toBe(true);
+    expect(mockStore.increment).not.toHaveBeenCalled();
+  });
+
+  it('should let the request through when the store fails', async () => {
+    mockStore.increment.mockRejectedValue(new Error('Redis connection closed'));
+
+    await expect(guard.canActivate(mockExecutionContext)).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  Inject,
+  Logger,
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import type { Request, Response } from 'express';
+
+import {
+  RATE_LIMIT_KEY,
+  RATE_LIMIT_STORE,
+  RATE_LIMIT_CONSTANTS,
+} from '@backend/app/rate-limit/constants/rate-limit.constants';
+import { RateLimitOptions } from '@backend/app/rate-limit/decorators/rate-limit.decorator';
+import type { RateLimitStore } from '@backend/app/rate-limit/interfaces/rate-limit-store.interface';
+import { TooManyRequestsException } from '@backend/app/rate-limit/exceptions/too-many-requests.exception';
+
+/**
+ * Global rate limiter of the REST API, counting the requests of each
+ * client IP in fixed windows
+ *
+ * Routes share the limit set by RATE_LIMIT_MAX and RATE_LIMIT_WINDOW_MS
+ * unless they have their own with @RateLimit() or none with
+ * @SkipRateLimit().
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  private readonly logger = new Logger(RateLimitGuard.name);
+  private readonly defaultOptions: RateLimitOptions;
+
+  constructor(
+    private readonly reflector: Reflector,
+    configService: ConfigService,
+    @Inject(RATE_LIMIT_STORE) private readonly store: RateLimitStore
+  ) {
+    this.defaultOptions = {
+      limit: Number(
+        configService.get('RATE_LIMIT_MAX', RATE_LIMIT_CONSTANTS.DEFAULT_LIMIT)
+      ),
+      windowMs: Number(
+        configService.get(
+          'RATE_LIMIT_WINDOW_MS',
+          RATE_LIMIT_CONSTANTS.DEFAULT_WINDOW_MS
+        )
+      ),
+    };
+  }
+
+  /**
+   * Counts the request and rejects it once the limit of the window is
+   * reached, the limit being sent in X-RateLimit-* headers
+   *
+   * @param {ExecutionContext} context - The execution context of the current request
+   * @returns {Promise<boolean>} True when the request is under the limit
+   * @throws {TooManyRequestsException} When the limit is reached (status 429)
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (context.getType() !== 'http') {
+      return true;
+    }
+
+    const routeOptions = this.reflector.getAllAndOverride<
+      RateLimitOptions | false | undefined
+    >(RATE_LIMIT_KEY, [context.getHandler(), context.getClass()]);
+
+    if (routeOptions === false) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const { limit, windowMs } = routeOptions ?? this.defaultOptions;
+    const scope = routeOptions
+      ? `${context.getClass().name}.${context.getHandler().name}`
+      : 'global';
+
+    let counter;
+    try {
+      counter = await this.store.increment(
+        `http:${scope}:${request.ip}`,
+        windowMs
+      );
+    } catch (error) {
+      // A store that cannot be reached does not take the API down
+      this.logger.warn(`Rate limit not checked: ${(error as Error).message}`);
+      return true;
+    }
+
+    const resetIn = Math.ceil(counter.resetInMs / 1000);
+    response.setHeader('X-RateLimit-Limit', limit);
+    response.setHeader(
+      'X-RateLimit-Remaining',
+      Math.max(0, limit - counter.count)
+    );
+    response.setHeader('X-RateLimit-Reset', resetIn);
+
+    if (counter.count > limit) {
+      response.setHeader('Retry-After', resetIn);
+      throw new TooManyRequestsException(
+        'Too many requests, try again later',
+        resetIn
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Counter of a fixed window
+ */
+export interface RateLimitCounter {
+  /** Hits since the window started */
+  count: number;
+  /** Milliseconds until the window ends and the counter is dropped */
+  resetInMs: number;
+}
+
+/**
+ * Token bucket refilled continuously up to its capacity
+ */
+export interface TokenBucketOptions {
+  /** Tokens of a full bucket, i.e. the allowed burst */
+  capacity: number;
+  /** Tokens added per second, i.e. the sustained rate */
+  refillPerSecond: number;
+}
+
+export interface TokenBucketResult {
+  /** Whether a token was taken */
+  allowed: boolean;
+  /** Whole tokens left in the bucket */
+  remaining: number;
+  /** Milliseconds until a token is available, 0 when allowed */
+  retryAfterMs: number;
+}
+
+/**
+ * State of the rate limiters (counters, lockouts, token buckets), kept in
+ * memory for a single instance or in Redis to be shared by all instances
+ */
+export interface RateLimitStore {
+  /**
+   * Counts a hit, the window starting with the first hit of the key
+   *
+   * @param {string} key - Key of the counter
+   * @param {number} windowMs - Duration of the window
+   * @returns {Promise<RateLimitCounter>} The counter including the hit
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+
+  /**
+   * Reads a counter without counting a hit
+   *
+   * @param {string} key - Key of the counter
+   * @returns {Promise<RateLimitCounter | null>} The counter, or null once expired
+   */
+  get(key: string): Promise<RateLimitCounter | null>;
+
+  /**
+   * Sets a counter, replacing its value and its window
+   *
+   * @param {string} key - Key of the counter
+   * @param {number} count - Value of the counter
+   * @param {number} ttlMs - Milliseconds until the counter is dropped
+   */
+  set(key: string, count: number, ttlMs: number): Promise<void>;
+
+  /**
+   * Drops a counter or a bucket, doing nothing if it does not exist
+   *
+   * @param {string} key - Key of the counter or bucket
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Takes a token from a bucket, created full on first use
+   *
+   * @param {string} key - Key of the bucket
+   * @param {TokenBucketOptions} bucket - Capacity and refill rate of the bucket
+   * @returns {Promise<TokenBucketResult>} Whether a token was available
+   */
+  consume(key: string, bucket: TokenBucketOptions): Promise<TokenBucketResult>;
+}
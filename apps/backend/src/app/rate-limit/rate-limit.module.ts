@@ -0,0 +1,52 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import {
+  RATE_LIMIT_STORE,
+  RATE_LIMIT_CONSTANTS,
+} from '@backend/app/rate-limit/constants/rate-limit.constants';
+import { RateLimitStore } from '@backend/app/rate-limit/interfaces/rate-limit-store.interface';
+import { RateLimitGuard } from '@backend/app/rate-limit/guards/rate-limit.guard';
+import { MemoryRateLimitStore } from '@backend/app/rate-limit/drivers/memory-rate-limit.driver';
+import { RedisRateLimitStore } from '@backend/app/rate-limit/drivers/redis-rate-limit.driver';
+
+/**
+ * Provides the RateLimitStore selected by RATE_LIMIT_STORE ('memory' or
+ * 'redis') and the guard of the REST API
+ */
+@Module({
+  providers: [
+    {
+      provide: RATE_LIMIT_STORE,
+      useFactory: (configService: ConfigService): RateLimitStore => {
+        const store = configService.get(
+          'RATE_LIMIT_STORE',
+          RATE_LIMIT_CONSTANTS.DEFAULT_STORE
+        );
+
+        if (store === 'redis') {
+          return new RedisRateLimitStore({
+            url: configService.get(
+              'REDIS_URL',
+              RATE_LIMIT_CONSTANTS.DEFAULT_REDIS_URL
+            ),
+            keyPrefix: RATE_LIMIT_CONSTANTS.DEFAULT_KEY_PREFIX,
+            timeout: RATE_LIMIT_CONSTANTS.REDIS_TIMEOUT,
+          });
+        }
+
+        if (store !== 'memory') {
+          throw new Error(`Unknown rate limit store "${store}"`);
+        }
+
+        return new MemoryRateLimitStore(
+          RATE_LIMIT_CONSTANTS.MEMORY_SWEEP_INTERVAL
+        );
+      },
+      inject: [ConfigService],
+    },
+    RateLimitGuard,
+  ],
+  exports: [RATE_LIMIT_STORE, RateLimitGuard],
+})
+export class RateLimitModule {}
@@ -0,0 +1,162 @@
+import { AddressInfo, createServer, Server, Socket } from 'net';
+import type { Namespace } from 'socket.io';
+import { MessageType } from 'socket.io-adapter';
+
+import {
+  RedisReply,
+  RedisConnection,
+  decodeReply,
+} from '@backend/app/rate-limit/drivers/redis-connection';
+import { RedisSubscriber } from '@backend/app/realtime/adapters/redis-subscriber';
+import { RedisClusterAdapter } from '@backend/app/realtime/adapters/redis-cluster.adapter';
+
+describe('RedisClusterAdapter', () => {
+  let server: Server;
+  let url: string;
+  let commands: string[][];
+  let subscriptions: Map<Socket, Set<string>>;
+  let publisher: RedisConnection;
+  let subscriber: RedisSubscriber;
+  let adapter: RedisClusterAdapter;
+
+  const nsp = {
+    name: '/chat',
+    server: { encoder: {} },
+  } as unknown as Namespace;
+
+  const encodeReply = (reply: RedisReply): string => {
+    if (typeof reply === 'number') {
+      return `:${reply}\r\n`;
+    }
+    if (Array.isArray(reply)) {
+      return `*${reply.length}\r\n${reply.map(encodeReply).join('')}`;
+    }
+    return `$${Buffer.byteLength(String(reply))}\r\n${reply}\r\n`;
+  };
+
+  /**
+   * Minimal Redis server relaying the published messages to the
+   * subscribed connections
+   */
+  const handleConnection = (socket: Socket) => {
+    let buffer = Buffer.alloc(0);
+    const reply = (receiver: Socket, value: RedisReply) =>
+      receiver.writable && receiver.write(encodeReply(value));
+    subscriptions.set(socket, new Set());
+    socket.on('error', () => subscriptions.delete(socket));
+    socket.on('close', () => subscriptions.delete(socket));
+
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      let decoded: ReturnType<typeof decodeReply>;
+      while ((decoded = decodeReply(buffer, 0))) {
+        buffer = buffer.subarray(decoded.offset);
+        const [name, channel, message] = decoded.reply as string[];
+        const channels = subscriptions.get(socket) ?? new Set<string>();
+        commands.push([name, channel]);
+
+        if (name === 'SUBSCRIBE') {
+          channels.add(channel);
+          reply(socket, ['subscribe', channel, channels.size]);
+        } else if (name === 'UNSUBSCRIBE') {
+          channels.delete(channel);
+          reply(socket, ['unsubscribe', channel, channels.size]);
+        } else if (name === 'PUBLISH') {
+          let receivers = 0;
+          for (const [receiver, subscribed] of subscriptions) {
+            if (subscribed.has(channel)) {
+              reply(receiver, ['message', channel, message]);
+              receivers++;
+            }
+          }
+          reply(socket, receivers);
+        }
+      }
+    });
+  };
+
+  const waitFor = async (condition: () => boolean | Promise<boolean>) => {
+    for (let i = 0; i < 100 && !(await condition()); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    expect(await condition()).toBe(true);
+  };
+
+  const subscribedTo = (channel: string) => () =>
+    [...subscriptions.values()].some((channels) => channels.has(channel));
+
+  beforeEach(async () => {
+    commands = [];
+    subscriptions = new Map();
+    server = createServer(handleConnection);
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    url = `redis://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    publisher = new RedisConnection({ url, timeout: 2000 });
+    subscriber = new RedisSubscriber({ url, timeout: 2000 }, 10);
+    adapter = new RedisClusterAdapter(nsp, publisher, subscriber, {
+      channelPrefix: 'test',
+    });
+    await waitFor(subscribedTo('test#/chat#'));
+  });
+
+  afterEach(async () => {
+    adapter.close();
+    subscriber.close();
+    publisher.close();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should publish the messages of the namespace as JSON', async () => {
+    const other = new RedisSubscriber({ url, timeout: 2000 }, 10);
+    const received: string[] = [];
+    await other.subscribe('test#/chat#', (message) => received.push(message));
+
+    adapter.init();
+
+    await waitFor(() => received.length > 0);
+    expect(JSON.parse(received[0])).toEqual({
+      type: MessageType.INITIAL_HEARTBEAT,
+      uid: expect.any(String),
+      nsp: '/chat',
+    });
+    other.close();
+  });
+
+  it('should count the instances sending heartbeats', async () => {
+    await publisher.command([
+      'PUBLISH',
+      'test#/chat#',
+      JSON.stringify({
+        type: MessageType.HEARTBEAT,
+        uid: 'other',
+        nsp: '/chat',
+      }),
+    ]);
+
+    await waitFor(async () => (await adapter.serverCount()) === 2);
+  });
+
+  it('should ignore messages not published by an adapter', async () => {
+    await publisher.command(['PUBLISH', 'test#/chat#', 'not json']);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    await expect(adapter.serverCount()).resolves.toBe(1);
+  });
+
+  it('should subscribe again once the connection is lost', async () => {
+    for (const socket of subscriptions.keys()) {
+      socket.destroy();
+    }
+    commands = [];
+
+    await waitFor(() =>
+      commands.some(
+        ([name, channel]) => name === 'SUBSCRIBE' && channel === 'test#/chat#'
+      )
+    );
+    await waitFor(subscribedTo('test#/chat#'));
+  });
+});
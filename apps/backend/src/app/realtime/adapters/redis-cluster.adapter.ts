@@ -0,0 +1,119 @@
+import type { Namespace } from 'socket.io';
+import {
+  ClusterAdapterOptions,
+  ClusterAdapterWithHeartbeat,
+  ClusterMessage,
+  ClusterResponse,
+  Offset,
+  ServerId,
+} from 'socket.io-adapter';
+
+import { RedisConnection } from '@backend/app/rate-limit/drivers/redis-connection';
+import { RedisSubscriber } from '@backend/app/realtime/adapters/redis-subscriber';
+
+export interface RedisClusterAdapterOptions extends ClusterAdapterOptions {
+  /** Prefix of the pub/sub channels */
+  channelPrefix: string;
+}
+
+/**
+ * Socket.io adapter sharing broadcasts, room joins and disconnections with
+ * the adapters of the other instances through Redis pub/sub
+ *
+ * Each namespace has a channel for its messages and a channel per instance
+ * for the responses (e.g. to fetchSockets). Packets are sent as JSON, so
+ * binary payloads are not supported.
+ */
+export class RedisClusterAdapter extends ClusterAdapterWithHeartbeat {
+  private readonly channel: string;
+  private readonly responseChannel: string;
+
+  constructor(
+    nsp: Namespace,
+    private readonly publisher: RedisConnection,
+    private readonly subscriber: RedisSubscriber,
+    options: RedisClusterAdapterOptions
+  ) {
+    super(nsp, options);
+    this.channel = `${options.channelPrefix}#${nsp.name}#`;
+    this.responseChannel = `${this.channel}${this.uid}#`;
+
+    Promise.all([
+      subscriber.subscribe(this.channel, (message) =>
+        this.receive(message, (parsed) =>
+          this.onMessage(parsed as ClusterMessage)
+        )
+      ),
+      subscriber.subscribe(this.responseChannel, (message) =>
+        this.receive(message, (parsed) =>
+          this.onResponse(parsed as ClusterResponse)
+        )
+      ),
+    ]).catch(() => {
+      // The subscriber subscribes again once Redis is back
+    });
+  }
+
+  override close() {
+    super.close();
+    for (const channel of [this.channel, this.responseChannel]) {
+      this.subscriber.unsubscribe(channel).catch(() => {
+        // The subscriber is closed with the server
+      });
+    }
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<Offset> {
+    await this.publisher.command([
+      'PUBLISH',
+      this.channel,
+      JSON.stringify(message),
+    ]);
+
+    // No offset, the connection state recovery is not enabled
+    return '';
+  }
+
+  protected async doPublishResponse(
+    requesterUid: ServerId,
+    response: ClusterResponse
+  ): Promise<void> {
+    await this.publisher.command([
+      'PUBLISH',
+      `${this.channel}${requesterUid}#`,
+      JSON.stringify(response),
+    ]);
+  }
+
+  private receive(message: string, handle: (parsed: unknown) => void) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(message);
+    } catch {
+      // Not published by an adapter
+      return;
+    }
+
+    handle(parsed);
+  }
+}
+
+/**
+ * Builds the adapter constructor given to the socket.io server, the
+ * connections being shared by all the namespaces
+ *
+ * @param {RedisConnection} publisher - Connection publishing the messages
+ * @param {RedisSubscriber} subscriber - Connection receiving the messages
+ * @param {RedisClusterAdapterOptions} options - Channels and heartbeat of the adapter
+ * @returns {Function} The adapter constructor
+ */
+export function createRedisAdapter(
+  publisher: RedisConnection,
+  subscriber: RedisSubscriber,
+  options: RedisClusterAdapterOptions
+) {
+  // Called with new by socket.io, hence not an arrow function
+  return function (nsp: Namespace) {
+    return new RedisClusterAdapter(nsp, publisher, subscriber, options);
+  };
+}
@@ -0,0 +1,47 @@
+import { INestApplicationContext } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { Server, ServerOptions } from 'socket.io';
+
+import {
+  RedisConnection,
+  RedisConnectionOptions,
+} from '@backend/app/rate-limit/drivers/redis-connection';
+import { REALTIME_CONSTANTS } from '@backend/app/realtime/constants/realtime.constants';
+import { RedisSubscriber } from '@backend/app/realtime/adapters/redis-subscriber';
+import { createRedisAdapter } from '@backend/app/realtime/adapters/redis-cluster.adapter';
+
+/**
+ * WebSocket adapter of the application whose socket.io servers share their
+ * events with the other instances of the backend through Redis
+ */
+export class RedisIoAdapter extends IoAdapter {
+  private readonly publisher: RedisConnection;
+  private readonly subscriber: RedisSubscriber;
+
+  constructor(app: INestApplicationContext, options: RedisConnectionOptions) {
+    super(app);
+    this.publisher = new RedisConnection(options);
+    this.subscriber = new RedisSubscriber(
+      options,
+      REALTIME_CONSTANTS.RESUBSCRIBE_DELAY
+    );
+  }
+
+  override createIOServer(port: number, options?: ServerOptions): Server {
+    const server: Server = super.createIOServer(port, options);
+
+    server.adapter(
+      createRedisAdapter(this.publisher, this.subscriber, {
+        channelPrefix: REALTIME_CONSTANTS.ADAPTER_CHANNEL_PREFIX,
+      })
+    );
+
+    return server;
+  }
+
+  override async dispose(): Promise<void> {
+    await super.dispose();
+    this.subscriber.close();
+    this.publisher.close();
+  }
+}
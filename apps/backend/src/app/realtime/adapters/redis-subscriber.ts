@@ -0,0 +1,84 @@
+import {
+  RedisReply,
+  RedisConnection,
+  RedisConnectionOptions,
+} from '@backend/app/rate-limit/drivers/redis-connection';
+
+export type ChannelListener = (message: string) => void;
+
+/**
+ * Connection subscribed to pub/sub channels, each message being passed to
+ * the listener of its channel
+ *
+ * A subscribed connection only accepts (UN)SUBSCRIBE, other commands go
+ * through another connection. The channels are subscribed again once the
+ * connection is lost.
+ */
+export class RedisSubscriber extends RedisConnection {
+  private readonly listeners = new Map<string, ChannelListener>();
+  private resubscribeTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(
+    options: RedisConnectionOptions,
+    private readonly resubscribeDelay: number
+  ) {
+    super(options);
+  }
+
+  /**
+   * Subscribes to a channel, replacing its listener
+   *
+   * @param {string} channel - The channel to listen to
+   * @param {ChannelListener} listener - Receives the messages of the channel
+   * @returns {Promise<void>} Resolves once the server confirmed the subscription
+   */
+  async subscribe(channel: string, listener: ChannelListener): Promise<void> {
+    this.listeners.set(channel, listener);
+    await this.command(['SUBSCRIBE', channel]);
+  }
+
+  /**
+   * Stops listening to a channel
+   *
+   * @param {string} channel - The channel to leave
+   * @returns {Promise<void>} Resolves once the server confirmed
+   */
+  async unsubscribe(channel: string): Promise<void> {
+    this.listeners.delete(channel);
+    await this.command(['UNSUBSCRIBE', channel]);
+  }
+
+  override close() {
+    this.closed = true;
+    if (this.resubscribeTimer) {
+      clearTimeout(this.resubscribeTimer);
+      this.resubscribeTimer = null;
+    }
+    super.close();
+  }
+
+  protected override isPush(reply: RedisReply): boolean {
+    return Array.isArray(reply) && reply[0] === 'message';
+  }
+
+  protected override onPush([, channel, message]: RedisReply[]) {
+    this.listeners.get(channel as string)?.(message as string);
+  }
+
+  protected override onReset() {
+    if (this.closed || !this.listeners.size || this.resubscribeTimer) {
+      return;
+    }
+
+    this.resubscribeTimer = setTimeout(() => {
+      this.resubscribeTimer = null;
+      for (const channel of this.listeners.keys()) {
+        this.command(['SUBSCRIBE', channel]).catch(() => {
+          // The failure resets the connection, scheduling a new attempt
+        });
+      }
+    }, this.resubscribeDelay);
+    this.resubscribeTimer.unref();
+  }
+}
@@ -0,0 +1,12 @@
+export const REALTIME_CONSTANTS = {
+  DEFAULT_STORE: 'memory',
+  DEFAULT_REDIS_URL: 'redis://localhost:6379',
+  DEFAULT_KEY_PREFIX: 'realtime:',
+  ADAPTER_CHANNEL_PREFIX: 'realtime:socket.io',
+  REDIS_TIMEOUT: 5000,
+  HEARTBEAT_INTERVAL: 30000,
+  NODE_TIMEOUT: 90000,
+  RESUBSCRIBE_DELAY: 1000,
+};
+
+export const CONNECTION_STORE = 'CONNECTION_STORE';
@@ -0,0 +1,79 @@
+import { MemoryConnectionStore } from '@backend/app/realtime/drivers/memory-connection-store.driver';
+
+describe('MemoryConnectionStore', () => {
+  let store: MemoryConnectionStore;
+
+  const connection = {
+    socketId: 'socket123',
+    userId: 'user123',
+    nodeId: 'node1',
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    store = new MemoryConnectionStore();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('add and remove', () => {
+    it('should return the removed connection', async () => {
+      await store.add(connection);
+
+      await expect(store.remove('socket123')).resolves.toEqual(connection);
+      await expect(store.remove('socket123')).resolves.toBeNull();
+    });
+  });
+
+  describe('listByNode', () => {
+    it('should only list the connections of the instance', async () => {
+      await store.add(connection);
+      await store.add({
+        ...connection,
+        socketId: 'socket456',
+        nodeId: 'node2',
+      });
+
+      await expect(store.listByNode('node1')).resolves.toEqual([connection]);
+    });
+  });
+
+  describe('reclaimExpired', () => {
+    it('should keep the connections of live instances', async () => {
+      await store.add(connection);
+      await store.heartbeat('node1', 1000);
+      jest.advanceTimersByTime(999);
+
+      await expect(store.reclaimExpired()).resolves.toEqual([]);
+      await expect(store.listByNode('node1')).resolves.toEqual([connection]);
+    });
+
+    it('should reclaim the connections of a dead instance once', async () => {
+      await store.add(connection);
+      await store.add({
+        ...connection,
+        socketId: 'socket456',
+        nodeId: 'node2',
+      });
+      await store.heartbeat('node1', 1000);
+      await store.heartbeat('node2', 5000);
+      jest.advanceTimersByTime(1000);
+
+      await expect(store.reclaimExpired()).resolves.toEqual([connection]);
+      await expect(store.reclaimExpired()).resolves.toEqual([]);
+      await expect(store.remove('socket123')).resolves.toBeNull();
+    });
+
+    it('should stay alive while heartbeats are sent', async () => {
+      await store.add(connection);
+      await store.heartbeat('node1', 1000);
+      jest.advanceTimersByTime(800);
+      await store.heartbeat('node1', 1000);
+      jest.advanceTimersByTime(800);
+
+      await expect(store.reclaimExpired()).resolves.toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import {
+  ConnectionStore,
+  TrackedConnection,
+} from '@backend/app/realtime/interfaces/connection-store.interface';
+
+/**
+ * Keeps the connections in the memory of the process, for a single
+ * instance: the instances of a scaled deployment would not see each other
+ */
+export class MemoryConnectionStore implements ConnectionStore {
+  private readonly connections = new Map<string, TrackedConnection>();
+  /** Time at which each instance is dead without a new heartbeat */
+  private readonly nodes = new Map<string, number>();
+
+  async add(connection: TrackedConnection): Promise<void> {
+    this.connections.set(connection.socketId, { ...connection });
+  }
+
+  async remove(socketId: string): Promise<TrackedConnection | null> {
+    const connection = this.connections.get(socketId) ?? null;
+    this.connections.delete(socketId);
+
+    return connection;
+  }
+
+  async listByNode(nodeId: string): Promise<TrackedConnection[]> {
+    return [...this.connections.values()].filter(
+      (connection) => connection.nodeId === nodeId
+    );
+  }
+
+  async heartbeat(nodeId: string, ttlMs: number): Promise<void> {
+    this.nodes.set(nodeId, Date.now() + ttlMs);
+  }
+
+  async reclaimExpired(): Promise<TrackedConnection[]> {
+    const now = Date.now();
+    const reclaimed: TrackedConnection[] = [];
+
+    for (const [nodeId, expiresAt] of this.nodes) {
+      if (expiresAt > now) {
+        continue;
+      }
+
+      this.nodes.delete(nodeId);
+      for (const connection of await this.listByNode(nodeId)) {
+        this.connections.delete(connection.socketId);
+        reclaimed.push(connection);
+      }
+    }
+
+    return reclaimed;
+  }
+}
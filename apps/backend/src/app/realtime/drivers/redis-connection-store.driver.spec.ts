@@ -0,0 +1,181 @@
+import { AddressInfo, createServer, Server, Socket } from 'net';
+
+import {
+  RedisReply,
+  decodeReply,
+} from '@backend/app/rate-limit/drivers/redis-connection';
+import { RedisConnectionStore } from '@backend/app/realtime/drivers/redis-connection-store.driver';
+
+describe('RedisConnectionStore', () => {
+  let server: Server;
+  let commands: string[][];
+  let hashes: Map<string, Map<string, string>>;
+  let sets: Map<string, Set<string>>;
+  let evalReply: RedisReply;
+  let store: RedisConnectionStore;
+
+  const encodeReply = (reply: RedisReply): string => {
+    if (reply === null) {
+      return '$-1\r\n';
+    }
+    if (reply instanceof Error) {
+      return `-${reply.message}\r\n`;
+    }
+    if (typeof reply === 'number') {
+      return `:${reply}\r\n`;
+    }
+    if (Array.isArray(reply)) {
+      return `*${reply.length}\r\n${reply.map(encodeReply).join('')}`;
+    }
+    return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`;
+  };
+
+  /**
+   * Minimal Redis server keeping hashes and sets in maps, the scripts
+   * replying with evalReply
+   */
+  const execute = (command: string[]): RedisReply => {
+    const [name, key, ...args] = command;
+
+    switch (name) {
+      case 'HSET': {
+        const hash = hashes.get(key) ?? new Map<string, string>();
+        for (let i = 0; i < args.length; i += 2) {
+          hash.set(args[i], args[i + 1]);
+        }
+        hashes.set(key, hash);
+        return args.length / 2;
+      }
+      case 'HGET':
+        return hashes.get(key)?.get(args[0]) ?? null;
+      case 'SADD': {
+        const set = sets.get(key) ?? new Set<string>();
+        args.forEach((member) => set.add(member));
+        sets.set(key, set);
+        return args.length;
+      }
+      case 'SMEMBERS':
+        return [...(sets.get(key) ?? [])];
+      case 'ZADD':
+        return 1;
+      case 'EVAL':
+        return evalReply;
+      default:
+        return new Error(`ERR unknown command '${name}'`);
+    }
+  };
+
+  const handleConnection = (socket: Socket) => {
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      let decoded: ReturnType<typeof decodeReply>;
+      while ((decoded = decodeReply(buffer, 0))) {
+        buffer = buffer.subarray(decoded.offset);
+        const command = decoded.reply as string[];
+        commands.push(command);
+        socket.write(encodeReply(execute(command)));
+      }
+    });
+  };
+
+  beforeEach(async () => {
+    commands = [];
+    hashes = new Map();
+    sets = new Map();
+    evalReply = null;
+    server = createServer(handleConnection);
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    store = new RedisConnectionStore({
+      url: `redis://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      timeout: 2000,
+      keyPrefix: 'test:',
+    });
+  });
+
+  afterEach(async () => {
+    store.onModuleDestroy();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should record a connection and list it with its instance', async () => {
+    await store.add({ socketId: 'socket123', userId: 'user123', nodeId: 'n1' });
+
+    expect(commands).toEqual([
+      [
+        'HSET',
+        'test:connection:socket123',
+        'userId',
+        'user123',
+        'nodeId',
+        'n1',
+      ],
+      ['SADD', 'test:node:n1', 'socket123'],
+    ]);
+    await expect(store.listByNode('n1')).resolves.toEqual([
+      { socketId: 'socket123', userId: 'user123', nodeId: 'n1' },
+    ]);
+  });
+
+  it('should skip the connections removed while listing', async () => {
+    sets.set('test:node:n1', new Set(['socket123']));
+
+    await expect(store.listByNode('n1')).resolves.toEqual([]);
+  });
+
+  it('should remove a connection with the remove script', async () => {
+    evalReply = ['user123', 'n1'];
+
+    await expect(store.remove('socket123')).resolves.toEqual({
+      socketId: 'socket123',
+      userId: 'user123',
+      nodeId: 'n1',
+    });
+
+    const [name, script, keys, key, prefix, socketId] = commands[0];
+    expect([name, keys, key, prefix, socketId]).toEqual([
+      'EVAL',
+      '1',
+      'test:connection:socket123',
+      'test:',
+      'socket123',
+    ]);
+    expect(script).toContain("redis.call('SREM'");
+  });
+
+  it('should return null when removing an unknown connection', async () => {
+    await expect(store.remove('unknown')).resolves.toBeNull();
+  });
+
+  it('should score the instance by the expiry of its heartbeat', async () => {
+    const now = Date.now();
+
+    await store.heartbeat('n1', 90000);
+
+    const [name, key, score, member] = commands[0];
+    expect([name, key, member]).toEqual(['ZADD', 'test:nodes', 'n1']);
+    expect(Number(score)).toBeGreaterThanOrEqual(now + 90000);
+  });
+
+  it('should return the connections reclaimed by the script', async () => {
+    evalReply = ['socket123', 'user123', 'n1', 'socket456', 'user456', 'n1'];
+
+    await expect(store.reclaimExpired()).resolves.toEqual([
+      { socketId: 'socket123', userId: 'user123', nodeId: 'n1' },
+      { socketId: 'socket456', userId: 'user456', nodeId: 'n1' },
+    ]);
+
+    const [name, script, keys, key, prefix] = commands[0];
+    expect([name, keys, key, prefix]).toEqual([
+      'EVAL',
+      '1',
+      'test:nodes',
+      'test:',
+    ]);
+    expect(script).toContain("redis.call('ZRANGEBYSCORE', KEYS[1]");
+  });
+});
@@ -0,0 +1,161 @@
+import { OnModuleDestroy } from '@nestjs/common';
+
+import {
+  ConnectionStore,
+  TrackedConnection,
+} from '@backend/app/realtime/interfaces/connection-store.interface';
+import {
+  RedisConnection,
+  RedisConnectionOptions,
+} from '@backend/app/rate-limit/drivers/redis-connection';
+
+export interface RedisConnectionStoreOptions extends RedisConnectionOptions {
+  /** Prefix of the keys, separating the connections from other data */
+  keyPrefix: string;
+}
+
+/**
+ * Forgets a connection and removes it from the set of its instance
+ *
+ * KEYS[1]: connection, ARGV: key prefix, socket ID
+ */
+const REMOVE_SCRIPT = `
+local connection = redis.call('HMGET', KEYS[1], 'userId', 'nodeId')
+if not connection[1] then
+  return nil
+end
+redis.call('DEL', KEYS[1])
+redis.call('SREM', ARGV[1] .. 'node:' .. connection[2], ARGV[2])
+return connection
+`;
+
+/**
+ * Forgets the instances whose heartbeat expired and their connections,
+ * returned as a flat list of socket ID, user ID and instance ID
+ *
+ * KEYS[1]: instances by expiry, ARGV: key prefix, current time in ms
+ */
+const RECLAIM_SCRIPT = `
+local reclaimed = {}
+local nodes = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[2])
+for _, node in ipairs(nodes) do
+  local nodeKey = ARGV[1] .. 'node:' .. node
+  for _, socketId in ipairs(redis.call('SMEMBERS', nodeKey)) do
+    local connectionKey = ARGV[1] .. 'connection:' .. socketId
+    local userId = redis.call('HGET', connectionKey, 'userId')
+    redis.call('DEL', connectionKey)
+    if userId then
+      table.insert(reclaimed, socketId)
+      table.insert(reclaimed, userId)
+      table.insert(reclaimed, node)
+    end
+  end
+  redis.call('DEL', nodeKey)
+  redis.call('ZREM', KEYS[1], node)
+end
+return reclaimed
+`;
+
+/**
+ * Keeps the connections in Redis, shared by all the instances of the backend
+ *
+ * Each connection is a hash, the connections of an instance are a set and
+ * the instances are a sorted set scored by the expiry of their heartbeat.
+ * The scripts run atomically, so a dead instance is reclaimed only once.
+ */
+export class RedisConnectionStore implements ConnectionStore, OnModuleDestroy {
+  private readonly connection: RedisConnection;
+
+  constructor(private readonly options: RedisConnectionStoreOptions) {
+    this.connection = new RedisConnection(options);
+  }
+
+  async add({ socketId, userId, nodeId }: TrackedConnection): Promise<void> {
+    await Promise.all([
+      this.connection.command([
+        'HSET',
+        this.key(`connection:${socketId}`),
+        'userId',
+        userId,
+        'nodeId',
+        nodeId,
+      ]),
+      this.connection.command(['SADD', this.key(`node:${nodeId}`), socketId]),
+    ]);
+  }
+
+  async remove(socketId: string): Promise<TrackedConnection | null> {
+    const reply = (await this.connection.command([
+      'EVAL',
+      REMOVE_SCRIPT,
+      1,
+      this.key(`connection:${socketId}`),
+      this.options.keyPrefix,
+      socketId,
+    ])) as [string, string] | null;
+
+    return reply ? { socketId, userId: reply[0], nodeId: reply[1] } : null;
+  }
+
+  async listByNode(nodeId: string): Promise<TrackedConnection[]> {
+    const socketIds = (await this.connection.command([
+      'SMEMBERS',
+      this.key(`node:${nodeId}`),
+    ])) as string[];
+
+    const userIds = (await Promise.all(
+      socketIds.map((socketId) =>
+        this.connection.command([
+          'HGET',
+          this.key(`connection:${socketId}`),
+          'userId',
+        ])
+      )
+    )) as (string | null)[];
+
+    // Connections removed meanwhile are skipped
+    return socketIds.flatMap((socketId, index) => {
+      const userId = userIds[index];
+      return userId ? [{ socketId, userId, nodeId }] : [];
+    });
+  }
+
+  async heartbeat(nodeId: string, ttlMs: number): Promise<void> {
+    await this.connection.command([
+      'ZADD',
+      this.key('nodes'),
+      Date.now() + ttlMs,
+      nodeId,
+    ]);
+  }
+
+  async reclaimExpired(): Promise<TrackedConnection[]> {
+    const reply = (await this.connection.command([
+      'EVAL',
+      RECLAIM_SCRIPT,
+      1,
+      this.key('nodes'),
+      this.options.keyPrefix,
+      Date.now(),
+    ])) as string[];
+
+    const reclaimed: TrackedConnection[] = [];
+    for (let i = 0; i < reply.length; i += 3) {
+      reclaimed.push({
+        socketId: reply[i],
+        userId: reply[i + 1],
+        nodeId: reply[i + 2],
+      });
+    }
+
+    return reclaimed;
+  }
+
+  onModuleDestroy() {
+    this.connection.close();
+  }
+
+  private key(key: string): string {
+    return `${this.options.keyPrefix}${key}`;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * WebSocket connection of a user, held by one instance (node) of the backend
+ */
+export interface TrackedConnection {
+  socketId: string;
+  userId: string;
+  /** ID of the instance holding the socket */
+  nodeId: string;
+}
+
+/**
+ * Connections of all the instances, kept in memory for a single instance or
+ * in Redis to be shared by all instances
+ *
+ * Every instance sends heartbeats; the connections of an instance that
+ * stopped sending them (e.g. after a crash) are reclaimed by another one.
+ */
+export interface ConnectionStore {
+  /**
+   * Records a connection
+   *
+   * @param {TrackedConnection} connection - The connection to record
+   */
+  add(connection: TrackedConnection): Promise<void>;
+
+  /**
+   * Forgets a connection
+   *
+   * @param {string} socketId - ID of the socket
+   * @returns {Promise<TrackedConnection | null>} The connection, or null if it was not recorded
+   */
+  remove(socketId: string): Promise<TrackedConnection | null>;
+
+  /**
+   * Lists the connections held by an instance
+   *
+   * @param {string} nodeId - ID of the instance
+   * @returns {Promise<TrackedConnection[]>} The connections of the instance
+   */
+  listByNode(nodeId: string): Promise<TrackedConnection[]>;
+
+  /**
+   * Marks an instance as alive
+   *
+   * @param {string} nodeId - ID of the instance
+   * @param {number} ttlMs - Milliseconds after which the instance is dead without a new heartbeat
+   */
+  heartbeat(nodeId: string, ttlMs: number): Promise<void>;
+
+  /**
+   * Forgets the dead instances and their connections, each dead instance
+   * being reclaimed by a single caller
+   *
+   * @returns {Promise<TrackedConnection[]>} The connections of the dead instances
+   */
+  reclaimExpired(): Promise<TrackedConnection[]>;
+}
@@ -0,0 +1,48 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import {
+  CONNECTION_STORE,
+  REALTIME_CONSTANTS,
+} from '@backend/app/realtime/constants/realtime.constants';
+import { ConnectionStore } from '@backend/app/realtime/interfaces/connection-store.interface';
+import { MemoryConnectionStore } from '@backend/app/realtime/drivers/memory-connection-store.driver';
+import { RedisConnectionStore } from '@backend/app/realtime/drivers/redis-connection-store.driver';
+
+/**
+ * Provides the ConnectionStore selected by REALTIME_STORE ('memory' or
+ * 'redis'), the socket.io adapter being selected the same way in main.ts
+ */
+@Module({
+  providers: [
+    {
+      provide: CONNECTION_STORE,
+      useFactory: (configService: ConfigService): ConnectionStore => {
+        const store = configService.get(
+          'REALTIME_STORE',
+          REALTIME_CONSTANTS.DEFAULT_STORE
+        );
+
+        if (store === 'redis') {
+          return new RedisConnectionStore({
+            url: configService.get(
+              'REDIS_URL',
+              REALTIME_CONSTANTS.DEFAULT_REDIS_URL
+            ),
+            keyPrefix: REALTIME_CONSTANTS.DEFAULT_KEY_PREFIX,
+            timeout: REALTIME_CONSTANTS.REDIS_TIMEOUT,
+          });
+        }
+
+        if (store !== 'memory') {
+          throw new Error(`Unknown realtime store "${store}"`);
+        }
+
+        return new MemoryConnectionStore();
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [CONNECTION_STORE],
+})
+export class RealtimeModule {}
@@ -0,0 +1,7 @@
+export const STORAGE_CONSTANTS = {
+  DEFAULT_DRIVER: 'local',
+  DEFAULT_LOCAL_DIR: 'uploads',
+  DEFAULT_S3_REGION: 'us-east-1',
+};
+
+export const STORAGE_DRIVER = 'STORAGE_DRIVER';
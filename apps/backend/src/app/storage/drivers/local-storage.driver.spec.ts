@@ -0,0 +1,55 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+
+import { StorageDriver } from '@backend/app/storage/interfaces/storage-driver.interface';
+import { LocalStorageDriver } from '@backend/app/storage/drivers/local-storage.driver';
+
+describe('LocalStorageDriver', () => {
+  let rootDir: string;
+  let driver: StorageDriver;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'storage-'));
+    driver = new LocalStorageDriver(rootDir);
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should write objects below the root directory', async () => {
+    await driver.put(
+      'attachments/room1/file',
+      Buffer.from('hello'),
+      'text/plain'
+    );
+
+    await expect(
+      readFile(join(rootDir, 'attachments/room1/file'), 'utf8')
+    ).resolves.toBe('hello');
+    await expect(driver.get('attachments/room1/file')).resolves.toEqual(
+      Buffer.from('hello')
+    );
+  });
+
+  it('should throw NotFoundException for a missing object', async () => {
+    await expect(driver.get('missing')).rejects.toThrow(NotFoundException);
+  });
+
+  it('should delete objects and ignore missing ones', async () => {
+    await driver.put('file', Buffer.from('hello'), 'text/plain');
+
+    await driver.delete('file');
+    await driver.delete('file');
+
+    await expect(driver.get('file')).rejects.toThrow(NotFoundException);
+  });
+
+  it('should refuse keys escaping the root directory', async () => {
+    await expect(
+      driver.put('../outside', Buffer.from('hello'), 'text/plain')
+    ).rejects.toThrow(BadRequestException);
+  });
+});
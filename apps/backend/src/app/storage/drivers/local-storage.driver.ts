@@ -0,0 +1,54 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+
+import { StorageDriver } from '@backend/app/storage/interfaces/storage-driver.interface';
+
+/**
+ * Stores objects as files below a root directory, the key being the relative path
+ */
+export class LocalStorageDriver implements StorageDriver {
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = resolve(rootDir);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const path = this.resolveKey(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await readFile(this.resolveKey(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new NotFoundException('File not found');
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+
+  /**
+   * Maps a key to a path, refusing keys escaping the root directory
+   *
+   * @param {string} key - Key of the object
+   * @returns {string} The absolute path of the file
+   * @throws {BadRequestException} If the key points outside the root directory
+   */
+  private resolveKey(key: string): string {
+    const path = resolve(this.rootDir, key);
+
+    if (!path.startsWith(this.rootDir + sep)) {
+      throw new BadRequestException('Invalid storage key');
+    }
+
+    return path;
+  }
+}
@@ -0,0 +1,93 @@
+import { NotFoundException } from '@nestjs/common';
+
+import { S3StorageDriver } from '@backend/app/storage/drivers/s3-storage.driver';
+
+describe('S3StorageDriver', () => {
+  const options = {
+    endpoint: 'http://localhost:9000',
+    region: 'us-east-1',
+    bucket: 'chat',
+    accessKeyId: 'minioadmin',
+    secretAccessKey: 'minioadmin',
+    forcePathStyle: true,
+  };
+
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-01-15T10:30:00.000Z') });
+    fetchMock = jest
+      .fn()
+      .mockResolvedValue(new Response(null, { status: 200 }));
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    global.fetch = originalFetch;
+  });
+
+  it('should send a signed PUT request with a path-style URL', async () => {
+    const driver = new S3StorageDriver(options);
+
+    await driver.put(
+      'attachments/room 1/file',
+      Buffer.from('hello'),
+      'text/plain'
+    );
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url.toString()).toBe(
+      'http://localhost:9000/chat/attachments/room%201/file'
+    );
+    expect(init.method).toBe('PUT');
+    expect(init.headers).toMatchObject({
+      'content-type': 'text/plain',
+      'x-amz-date': '20240115T103000Z',
+      'x-amz-content-sha256':
+        '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824',
+    });
+    expect(init.headers.authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=minioadmin\/20240115\/us-east-1\/s3\/aws4_request, SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+    );
+  });
+
+  it('should address the bucket in the host name by default', async () => {
+    const driver = new S3StorageDriver({
+      ...options,
+      endpoint: undefined,
+      forcePathStyle: false,
+    });
+
+    await driver.delete('file');
+
+    expect(fetchMock.mock.calls[0][0].toString()).toBe(
+      'https://chat.s3.us-east-1.amazonaws.com/file'
+    );
+  });
+
+  it('should return the content of an object', async () => {
+    fetchMock.mockResolvedValue(new Response('hello', { status: 200 }));
+    const driver = new S3StorageDriver(options);
+
+    await expect(driver.get('file')).resolves.toEqual(Buffer.from('hello'));
+  });
+
+  it('should throw NotFoundException for a missing object', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 404 }));
+    const driver = new S3StorageDriver(options);
+
+    await expect(driver.get('file')).rejects.toThrow(NotFoundException);
+    await expect(driver.delete('file')).resolves.toBeUndefined();
+  });
+
+  it('should throw on error responses', async () => {
+    fetchMock.mockResolvedValue(new Response('AccessDenied', { status: 403 }));
+    const driver = new S3StorageDriver(options);
+
+    await expect(
+      driver.put('file', Buffer.from('hello'), 'text/plain')
+    ).rejects.toThrow('failed with status 403: AccessDenied');
+  });
+});
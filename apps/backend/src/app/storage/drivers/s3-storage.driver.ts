@@ -0,0 +1,166 @@
+import { createHash, createHmac } from 'crypto';
+import { NotFoundException } from '@nestjs/common';
+
+import { StorageDriver } from '@backend/app/storage/interfaces/storage-driver.interface';
+
+/**
+ * Connection settings of an S3-compatible service (AWS S3, MinIO...)
+ */
+export interface S3StorageOptions {
+  /** Base URL of the service, AWS S3 of the region if omitted */
+  endpoint?: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Addresses the bucket in the path rather than the host name (MinIO) */
+  forcePathStyle?: boolean;
+}
+
+const SIGNING_ALGORITHM = 'AWS4-HMAC-SHA256';
+const SIGNED_HEADERS = 'host;x-amz-content-sha256;x-amz-date';
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Encodes a URI path segment as required by Signature Version 4 (RFC 3986)
+ */
+function encodeSegment(segment: string): string {
+  return encodeURIComponent(segment).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/**
+ * Stores objects in an S3 bucket through the REST API, requests being
+ * signed with AWS Signature Version 4
+ */
+export class S3StorageDriver implements StorageDriver {
+  constructor(private readonly options: S3StorageOptions) {}
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, body, {
+      'content-type': contentType,
+    });
+    await this.assertOk(response, key);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.request('GET', key);
+
+    if (response.status === 404) {
+      throw new NotFoundException('File not found');
+    }
+    await this.assertOk(response, key);
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+
+    if (response.status !== 404) {
+      await this.assertOk(response, key);
+    }
+  }
+
+  /**
+   * Builds the URL of an object, in path or virtual-hosted style
+   *
+   * @param {string} key - Key of the object
+   * @returns {URL} The URL of the object
+   */
+  private getObjectUrl(key: string): URL {
+    const { endpoint, region, bucket, forcePathStyle } = this.options;
+    const base = new URL(endpoint || `https://s3.${region}.amazonaws.com`);
+    const path = key.split('/').map(encodeSegment).join('/');
+
+    if (forcePathStyle) {
+      base.pathname = `${base.pathname.replace(/\/$/, '')}/${bucket}/${path}`;
+    } else {
+      base.hostname = `${bucket}.${base.hostname}`;
+      base.pathname = `/${path}`;
+    }
+
+    return base;
+  }
+
+  /**
+   * Sends a signed request on an object
+   *
+   * @param {string} method - HTTP method
+   * @param {string} key - Key of the object
+   * @param {Buffer} [body] - Content sent with the request
+   * @param {Record<string, string>} [headers] - Extra unsigned headers
+   * @returns {Promise<Response>} The response of the service
+   */
+  private request(
+    method: string,
+    key: string,
+    body?: Buffer,
+    headers: Record<string, string> = {}
+  ): Promise<Response> {
+    const { region, accessKeyId, secretAccessKey } = this.options;
+    const url = this.getObjectUrl(key);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256(body ?? '');
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      `host:${url.host}`,
+      `x-amz-content-sha256:${payloadHash}`,
+      `x-amz-date:${amzDate}`,
+      '',
+      SIGNED_HEADERS,
+      payloadHash,
+    ].join('\n');
+    const stringToSign = [
+      SIGNING_ALGORITHM,
+      amzDate,
+      scope,
+      sha256(canonicalRequest),
+    ].join('\n');
+
+    const signingKey = [region, 's3', 'aws4_request'].reduce<Buffer>(
+      (key, part) => hmac(key, part),
+      hmac(`AWS4${secretAccessKey}`, dateStamp)
+    );
+    const signature = createHmac('sha256', signingKey)
+      .update(stringToSign)
+      .digest('hex');
+
+    return fetch(url, {
+      method,
+      body,
+      headers: {
+        ...headers,
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate,
+        authorization: `${SIGNING_ALGORITHM} Credential=${accessKeyId}/${scope}, SignedHeaders=${SIGNED_HEADERS}, Signature=${signature}`,
+      },
+    });
+  }
+
+  /**
+   * @throws {Error} If the service answered with an error status
+   */
+  private async assertOk(response: Response, key: string): Promise<void> {
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw new Error(
+        `S3 request on "${key}" failed with status ${response.status}: ${details}`
+      );
+    }
+  }
+}
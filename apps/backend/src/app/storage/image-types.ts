@@ -0,0 +1,32 @@
+/**
+ * Signatures of the image formats, checked against the first bytes of the
+ * content since the MIME type announced by the client cannot be trusted.
+ * SVG is left out as it can embed scripts.
+ */
+const IMAGE_SIGNATURES: Record<string, number[][]> = {
+  'image/png': [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  'image/jpeg': [[0xff, 0xd8, 0xff]],
+  'image/gif': [[0x47, 0x49, 0x46, 0x38]],
+  'image/webp': [[0x52, 0x49, 0x46, 0x46]],
+};
+
+/**
+ * MIME types of the supported image formats
+ */
+export const IMAGE_MIME_TYPES = Object.keys(IMAGE_SIGNATURES);
+
+/**
+ * Finds the image format of a content from its first bytes
+ *
+ * @param {Buffer} content - The content to inspect
+ * @returns {string | null} The MIME type of the image, or null if it is not a supported image
+ */
+export function detectImageType(content: Buffer): string | null {
+  const match = Object.entries(IMAGE_SIGNATURES).find(([, signatures]) =>
+    signatures.some((signature) =>
+      signature.every((byte, index) => content[index] === byte)
+    )
+  );
+
+  return match ? match[0] : null;
+}
@@ -0,0 +1,29 @@
+/**
+ * Backend storing binary objects (attachments, avatars...) by key
+ */
+export interface StorageDriver {
+  /**
+   * Stores an object, replacing any object with the same key
+   *
+   * @param {string} key - Key of the object, '/' separated
+   * @param {Buffer} body - Content of the object
+   * @param {string} contentType - MIME type of the content
+   */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Reads an object
+   *
+   * @param {string} key - Key of the object
+   * @returns {Promise<Buffer>} The content of the object
+   * @throws {NotFoundException} If no object has this key
+   */
+  get(key: string): Promise<Buffer>;
+
+  /**
+   * Deletes an object, doing nothing if it does not exist
+   *
+   * @param {string} key - Key of the object
+   */
+  delete(key: string): Promise<void>;
+}
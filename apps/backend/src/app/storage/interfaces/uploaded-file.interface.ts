@@ -0,0 +1,13 @@
+/**
+ * File received by a multipart endpoint, as parsed by multer
+ */
+export interface UploadedFileInterface {
+  /** Name of the file on the client */
+  originalname: string;
+  /** MIME type announced by the client */
+  mimetype: string;
+  /** Size of the file in bytes */
+  size: number;
+  /** Content of the file (memory storage) */
+  buffer: Buffer;
+}
@@ -0,0 +1,56 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import {
+  STORAGE_CONSTANTS,
+  STORAGE_DRIVER,
+} from '@backend/app/storage/constants/storage.constants';
+import { StorageDriver } from '@backend/app/storage/interfaces/storage-driver.interface';
+import { S3StorageDriver } from '@backend/app/storage/drivers/s3-storage.driver';
+import { LocalStorageDriver } from '@backend/app/storage/drivers/local-storage.driver';
+
+/**
+ * Provides the StorageDriver selected by STORAGE_DRIVER ('local' or 's3')
+ */
+@Module({
+  providers: [
+    {
+      provide: STORAGE_DRIVER,
+      useFactory: (configService: ConfigService): StorageDriver => {
+        const driver = configService.get(
+          'STORAGE_DRIVER',
+          STORAGE_CONSTANTS.DEFAULT_DRIVER
+        );
+
+        if (driver === 's3') {
+          return new S3StorageDriver({
+            endpoint: configService.get('S3_ENDPOINT'),
+            region: configService.get(
+              'S3_REGION',
+              STORAGE_CONSTANTS.DEFAULT_S3_REGION
+            ),
+            bucket: configService.getOrThrow('S3_BUCKET'),
+            accessKeyId: configService.getOrThrow('S3_ACCESS_KEY_ID'),
+            secretAccessKey: configService.getOrThrow('S3_SECRET_ACCESS_KEY'),
+            forcePathStyle:
+              configService.get('S3_FORCE_PATH_STYLE', 'false') === 'true',
+          });
+        }
+
+        if (driver !== 'local') {
+          throw new Error(`Unknown storage driver "${driver}"`);
+        }
+
+        return new LocalStorageDriver(
+          configService.get(
+            'STORAGE_LOCAL_DIR',
+            STORAGE_CONSTANTS.DEFAULT_LOCAL_DIR
+          )
+        );
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [STORAGE_DRIVER],
+})
+export class StorageModule {}
@@ -0,0 +1,72 @@
+import { BadRequestException, PayloadTooLargeException } from '@nestjs/common';
+
+import {
+  MAX_AVATAR_SIZE,
+  avatarKey,
+  avatarUrl,
+  validateAvatar,
+} from '@backend/users/avatars/user-avatar';
+
+describe('UserAvatar', () => {
+  const pngHeader = Buffer.from([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+  ]);
+
+  const createFile = (mimetype: string, buffer: Buffer) => ({
+    originalname: 'avatar',
+    mimetype,
+    size: buffer.length,
+    buffer,
+  });
+
+  describe('validateAvatar', () => {
+    it('should accept images whose content matches their type', () => {
+      expect(() =>
+        validateAvatar(createFile('image/png', pngHeader))
+      ).not.toThrow();
+    });
+
+    it('should require a file', () => {
+      expect(() => validateAvatar(undefined)).toThrow(
+        new BadRequestException('An image file is required')
+      );
+    });
+
+    it('should reject files other than images', () => {
+      expect(() =>
+        validateAvatar(createFile('application/pdf', Buffer.from('%PDF')))
+      ).toThrow(
+        new BadRequestException('Avatar must be a PNG, JPEG, GIF or WebP image')
+      );
+    });
+
+    it('should reject images whose content does not match their type', () => {
+      expect(() => validateAvatar(createFile('image/gif', pngHeader))).toThrow(
+        new BadRequestException('File content does not match its type')
+      );
+    });
+
+    it('should reject empty and oversized files', () => {
+      expect(() =>
+        validateAvatar(createFile('image/png', Buffer.alloc(0)))
+      ).toThrow(BadRequestException);
+      expect(() =>
+        validateAvatar({
+          ...createFile('image/png', pngHeader),
+          size: MAX_AVATAR_SIZE + 1,
+        })
+      ).toThrow(PayloadTooLargeException);
+    });
+  });
+
+  describe('avatarUrl', () => {
+    it('should version the URL with the upload date', () => {
+      const uploadedAt = new Date('2024-01-01T00:00:00.000Z');
+
+      expect(avatarUrl('user-id', uploadedAt)).toBe(
+        `/users/user-id/avatar?v=${uploadedAt.getTime().toString(36)}`
+      );
+      expect(avatarKey('user-id')).toBe('avatars/user-id');
+    });
+  });
+});
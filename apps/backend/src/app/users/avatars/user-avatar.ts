@@ -0,0 +1,69 @@
+import { BadRequestException, PayloadTooLargeException } from '@nestjs/common';
+
+import { UploadedFileInterface } from '@backend/app/storage/interfaces/uploaded-file.interface';
+import {
+  IMAGE_MIME_TYPES,
+  detectImageType,
+} from '@backend/app/storage/image-types';
+
+/**
+ * Maximum size of an avatar in bytes (2 MB)
+ */
+export const MAX_AVATAR_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Checks that an uploaded file can be used as an avatar
+ *
+ * @param {UploadedFileInterface} [file] - The uploaded file
+ * @returns {void}
+ * @throws {BadRequestException} When the file is missing, empty, not an image or its content does not match its type
+ * @throws {PayloadTooLargeException} When the file exceeds MAX_AVATAR_SIZE
+ */
+export function validateAvatar(
+  file?: UploadedFileInterface
+): asserts file is UploadedFileInterface {
+  if (!file) {
+    throw new BadRequestException('An image file is required');
+  }
+
+  if (file.size === 0) {
+    throw new BadRequestException('File is empty');
+  }
+
+  if (file.size > MAX_AVATAR_SIZE) {
+    throw new PayloadTooLargeException('File is too large');
+  }
+
+  if (!IMAGE_MIME_TYPES.includes(file.mimetype)) {
+    throw new BadRequestException(
+      'Avatar must be a PNG, JPEG, GIF or WebP image'
+    );
+  }
+
+  if (detectImageType(file.buffer) !== file.mimetype) {
+    throw new BadRequestException('File content does not match its type');
+  }
+}
+
+/**
+ * Storage key of the avatar of a user, a new upload replacing the previous one
+ *
+ * @param {string} userId - The ID of the user
+ * @returns {string} The key of the avatar in the storage
+ */
+export function avatarKey(userId: string): string {
+  return `avatars/${userId}`;
+}
+
+/**
+ * URL of the avatar of a user, relative to the API. The version changes
+ * with each upload so that cached pictures are refreshed, older URLs
+ * (denormalized in messages) still leading to the current avatar.
+ *
+ * @param {string} userId - The ID of the user
+ * @param {Date} uploadedAt - The upload date of the avatar
+ * @returns {string} The URL of the avatar
+ */
+export function avatarUrl(userId: string, uploadedAt: Date): string {
+  return `/users/${userId}/avatar?v=${uploadedAt.getTime().toString(36)}`;
+}
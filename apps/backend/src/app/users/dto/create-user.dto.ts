@@ -76,4 +76,14 @@ export class CreateUserDto {
   @IsOptional()
   @IsBoolean()
   isAdmin?: boolean;
+
+  @ApiPropertyOptional({
+    example: true,
+    default: true,
+    description:
+      'Indicates if the email address is already verified, otherwise the user cannot log in until it is',
+  })
+  @IsOptional()
+  @IsBoolean()
+  emailVerified?: boolean;
 }
@@ -0,0 +1,80 @@
+import {
+  IsLocale,
+  IsString,
+  MaxLength,
+  MinLength,
+  IsOptional,
+  IsTimeZone,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for users updating their own profile.
+ * Only the fields sent are changed, null clearing a field.
+ */
+export class UpdateProfileDto {
+  @ApiPropertyOptional({
+    example: 'John',
+    description: 'User first name',
+    minLength: 2,
+    maxLength: 50,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(50)
+  firstName?: string;
+
+  @ApiPropertyOptional({
+    example: 'Doe',
+    description: 'User last name',
+    minLength: 2,
+    maxLength: 50,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(50)
+  lastName?: string;
+
+  @ApiPropertyOptional({
+    example: 'Johnny',
+    description: 'Name shown to the other users instead of the full name',
+    maxLength: 50,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  displayName?: string | null;
+
+  @ApiPropertyOptional({
+    example: 'Développeur backend, fan de café',
+    description: 'Short presentation',
+    maxLength: 500,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  bio?: string | null;
+
+  @ApiPropertyOptional({
+    example: 'Europe/Paris',
+    description: 'IANA time zone',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string | null;
+
+  @ApiPropertyOptional({
+    example: 'fr-FR',
+    description: 'Preferred language (BCP 47 tag)',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsLocale()
+  @MaxLength(35)
+  locale?: string | null;
+}
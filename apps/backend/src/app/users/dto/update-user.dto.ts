@@ -6,10 +6,11 @@ import { CreateUserDto } from '@backend/users/dto/create-user.dto';
 /**
  * DTO for updating user information.
  * Extends CreateUserDto with all fields optional except password,
- * which has its own validation. Used for partial user profile updates.
+ * which has its own validation, and the email verification flag, which
+ * only applies on creation. Used for partial user profile updates.
  */
 export class UpdateUserDto extends PartialType(
-  OmitType(CreateUserDto, ['password'])
+  OmitType(CreateUserDto, ['password', 'emailVerified'])
 ) {
   @ApiPropertyOptional({
     example: 'NewSecurePass123!',
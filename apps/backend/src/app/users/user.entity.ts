@@ -53,6 +53,45 @@ export class UserEntity {
   @Column({ name: 'last_name' })
   lastName!: string;
 
+  /**
+   * Name shown to the other users instead of the full name
+   * null = the full name is shown
+   */
+  @Column({
+    name: 'display_name',
+    type: 'varchar',
+    length: 50,
+    nullable: true,
+  })
+  displayName!: string | null;
+
+  /**
+   * URL of the avatar, relative to the API and versioned by upload
+   * null = initials are shown instead
+   */
+  @Column({ name: 'avatar_url', type: 'varchar', nullable: true })
+  avatarUrl!: string | null;
+
+  /**
+   * Short presentation written by the user
+   */
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  bio!: string | null;
+
+  /**
+   * IANA time zone of the user, e.g. Europe/Paris
+   * null = the time zone of the browser is used
+   */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  timezone!: string | null;
+
+  /**
+   * Preferred language of the user (BCP 47 tag), e.g. fr-FR
+   * null = the language of the browser is used
+   */
+  @Column({ type: 'varchar', length: 35, nullable: true })
+  locale!: string | null;
+
   /**
    * Password hashed with bcrypt
    * Never exposed in API responses thanks to @Exclude
@@ -80,6 +119,62 @@ export class UserEntity {
   @Column({ name: 'is_admin', default: false })
   isAdmin!: boolean;
 
+  /**
+   * Email verification date and time
+   * null = address not verified yet, login refused
+   * Defaults to the insertion date so accounts created before
+   * verification existed, or by an administrator, stay usable
+   */
+  @Column({
+    name: 'email_verified_at',
+    type: 'timestamp',
+    nullable: true,
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  emailVerifiedAt!: Date | null;
+
+  /**
+   * TOTP secret (base32) of the authenticator app
+   * Set on enrollment, only used once confirmed by a first code
+   * Never exposed in API responses thanks to @Exclude
+   */
+  @Column({ name: 'mfa_secret', type: 'varchar', nullable: true })
+  @Exclude()
+  mfaSecret!: string | null;
+
+  /**
+   * Two-factor authentication activation date and time
+   * null = disabled, login only asks for the password
+   */
+  @Column({ name: 'mfa_enabled_at', type: 'timestamp', nullable: true })
+  mfaEnabledAt!: Date | null;
+
+  /**
+   * SHA-256 hashes of the unused recovery codes, each one replacing a
+   * TOTP code once when the authenticator app is lost
+   */
+  @Column({
+    name: 'mfa_recovery_codes',
+    type: 'text',
+    array: true,
+    default: '{}',
+  })
+  @Exclude()
+  mfaRecoveryCodes!: string[];
+
+  /**
+   * Subject (sub claim) of the user at the single sign-on provider
+   * null = account not linked, set on the first sign-on with its email
+   */
+  @Column({
+    name: 'oidc_subject',
+    type: 'varchar',
+    nullable: true,
+    unique: true,
+  })
+  @Exclude()
+  oidcSubject!: string | null;
+
   /**
    * Account creation date and time
    * Automatically generated on insertion
@@ -113,4 +208,13 @@ export class UserEntity {
   get fullName(): string {
     return `${this.firstName} ${this.lastName}`;
   }
+
+  /**
+   * Returns the name shown to the other users
+   * 
+   * @returns The display name if set, the full name otherwise
+   */
+  get publicName(): string {
+    return this.displayName || this.fullName;
+  }
 }
@@ -1,10 +1,12 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { StreamableFile } from '@nestjs/common';
 
 import { UserEntity } from '@backend/users/user.entity';
 import { UsersService } from '@backend/users/users.service';
 import { UsersController } from '@backend/users/users.controller';
 import { CreateUserDto } from '@backend/users/dto/create-user.dto';
 import { UpdateUserDto } from '@backend/users/dto/update-user.dto';
+import { UserResponseDto } from '@backend/auth/dto/authentication.dto';
 
 describe('UsersController', () => {
   let controller: UsersController;
@@ -15,10 +17,21 @@ describe('UsersController', () => {
     email: 'test@example.com',
     firstName: 'John',
     lastName: 'Doe',
+    displayName: null,
+    avatarUrl: null,
+    bio: null,
+    timezone: null,
+    locale: null,
     password: 'hashedPassword',
     fullName: 'John Doe',
+    publicName: 'John Doe',
     isActive: true,
     isAdmin: false,
+    emailVerifiedAt: new Date(),
+    mfaSecret: null,
+    mfaEnabledAt: null,
+    mfaRecoveryCodes: [],
+    oidcSubject: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     validatePassword: jest.fn(),
@@ -32,6 +45,10 @@ describe('UsersController', () => {
     remove: jest.fn(),
     findByEmail: jest.fn(),
     validateUser: jest.fn(),
+    updateProfile: jest.fn(),
+    updateAvatar: jest.fn(),
+    removeAvatar: jest.fn(),
+    getAvatar: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -86,6 +103,72 @@ describe('UsersController', () => {
     });
   });
 
+  describe('updateProfile', () => {
+    it('should update the profile of the current user', async () => {
+      const updatedUser = {
+        ...mockUser,
+        displayName: 'Johnny',
+      } as UserEntity;
+      usersService.updateProfile.mockResolvedValue(updatedUser);
+
+      const result = await controller.updateProfile('test-id', {
+        displayName: 'Johnny',
+      });
+
+      expect(usersService.updateProfile).toHaveBeenCalledWith('test-id', {
+        displayName: 'Johnny',
+      });
+      expect(result).toBeInstanceOf(UserResponseDto);
+      expect(result.displayName).toBe('Johnny');
+    });
+  });
+
+  describe('uploadAvatar', () => {
+    it('should replace the avatar of the current user', async () => {
+      const file = {
+        originalname: 'me.png',
+        mimetype: 'image/png',
+        size: 8,
+        buffer: Buffer.alloc(8),
+      };
+      usersService.updateAvatar.mockResolvedValue({
+        ...mockUser,
+        avatarUrl: '/users/test-id/avatar?v=abc',
+      } as UserEntity);
+
+      const result = await controller.uploadAvatar('test-id', file);
+
+      expect(usersService.updateAvatar).toHaveBeenCalledWith('test-id', file);
+      expect(result.avatarUrl).toBe('/users/test-id/avatar?v=abc');
+    });
+  });
+
+  describe('removeAvatar', () => {
+    it('should remove the avatar of the current user', async () => {
+      usersService.removeAvatar.mockResolvedValue(mockUser);
+
+      const result = await controller.removeAvatar('test-id');
+
+      expect(usersService.removeAvatar).toHaveBeenCalledWith('test-id');
+      expect(result.avatarUrl).toBeNull();
+    });
+  });
+
+  describe('downloadAvatar', () => {
+    it('should stream the avatar with its type', async () => {
+      usersService.getAvatar.mockResolvedValue({
+        content: Buffer.from('image'),
+        mimeType: 'image/png',
+      });
+
+      const result = await controller.downloadAvatar('test-id');
+
+      expect(usersService.getAvatar).toHaveBeenCalledWith('test-id');
+      expect(result).toBeInstanceOf(StreamableFile);
+      expect(result.getHeaders().type).toBe('image/png');
+    });
+  });
+
   describe('findOne', () => {
     it('should return a single user', async () => {
       usersService.findOne.mockResolvedValue(mockUser);
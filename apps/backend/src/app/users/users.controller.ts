@@ -3,12 +3,18 @@ import {
   Get,
   Post,
   Put,
+  Patch,
   Delete,
   Param,
   Body,
+  Header,
   HttpStatus,
   HttpCode,
   UseGuards,
+  UploadedFile,
+  ParseUUIDPipe,
+  StreamableFile,
+  UseInterceptors,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -16,17 +22,26 @@ import {
   ApiResponse,
   ApiBearerAuth,
   ApiParam,
+  ApiBody,
+  ApiConsumes,
+  ApiProduces,
 } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
 
 import { UserEntity } from '@backend/users/user.entity';
 import { UsersService } from '@backend/users/users.service';
 import { CreateUserDto } from '@backend/users/dto/create-user.dto';
 import { UpdateUserDto } from '@backend/users/dto/update-user.dto';
+import { UpdateProfileDto } from '@backend/users/dto/update-profile.dto';
+import { MAX_AVATAR_SIZE } from '@backend/users/avatars/user-avatar';
 
+import { Public } from '@backend/auth/decorators/public.decorator';
 import { AdminGuard } from '@backend/auth/guards/admin.guard';
 import { UserResponseDto } from '@backend/auth/dto/authentication.dto';
 import { JwtAuthGuard } from '@backend/auth/guards/jwt-auth.guard';
 import { CurrentUser } from '@backend/auth/decorators/current-user.decorator';
+import { SkipRateLimit } from '@backend/app/rate-limit/decorators/rate-limit.decorator';
+import type { UploadedFileInterface } from '@backend/app/storage/interfaces/uploaded-file.interface';
 
 @ApiTags('User Management')
 @Controller('users')
@@ -123,6 +138,156 @@ export class UsersController {
     return await this.usersService.findAllExceptUser(currentUserId);
   }
 
+  @Patch('me')
+  @ApiOperation({
+    summary: 'Update the profile of the current user',
+    description:
+      'Changes the names, display name, bio, time zone and language sent, null clearing an optional field.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Profile updated successfully',
+    type: UserResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid data',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+  })
+  /**
+   * Updates the profile of the current user
+   *
+   * @param {string} currentUserId - The ID of the currently authenticated user
+   * @param {UpdateProfileDto} updateProfileDto - The profile fields to change
+   * @returns {Promise<UserResponseDto>} The updated profile
+   */
+  async updateProfile(
+    @CurrentUser('id') currentUserId: string,
+    @Body() updateProfileDto: UpdateProfileDto
+  ): Promise<UserResponseDto> {
+    const user = await this.usersService.updateProfile(
+      currentUserId,
+      updateProfileDto
+    );
+    return new UserResponseDto(user);
+  }
+
+  @Post('me/avatar')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_AVATAR_SIZE } })
+  )
+  @ApiOperation({
+    summary: 'Upload the avatar of the current user',
+    description:
+      'Replaces the avatar with a PNG, JPEG, GIF or WebP image (2 MB max). Messages sent afterwards carry the new avatar URL.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: { type: 'string', format: 'binary' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Avatar updated successfully',
+    type: UserResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing file, not an image or content not matching the type',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+  })
+  @ApiResponse({
+    status: 413,
+    description: 'File too large',
+  })
+  /**
+   * Replaces the avatar of the current user
+   *
+   * @param {string} currentUserId - The ID of the currently authenticated user
+   * @param {UploadedFileInterface} [file] - The uploaded image
+   * @returns {Promise<UserResponseDto>} The updated profile, with the new avatar URL
+   */
+  async uploadAvatar(
+    @CurrentUser('id') currentUserId: string,
+    @UploadedFile() file?: UploadedFileInterface
+  ): Promise<UserResponseDto> {
+    const user = await this.usersService.updateAvatar(currentUserId, file);
+    return new UserResponseDto(user);
+  }
+
+  @Delete('me/avatar')
+  @ApiOperation({ summary: 'Remove the avatar of the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Avatar removed successfully',
+    type: UserResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+  })
+  /**
+   * Removes the avatar of the current user
+   *
+   * @param {string} currentUserId - The ID of the currently authenticated user
+   * @returns {Promise<UserResponseDto>} The updated profile, without avatar
+   */
+  async removeAvatar(
+    @CurrentUser('id') currentUserId: string
+  ): Promise<UserResponseDto> {
+    const user = await this.usersService.removeAvatar(currentUserId);
+    return new UserResponseDto(user);
+  }
+
+  @Get(':id/avatar')
+  @Public()
+  @SkipRateLimit()
+  @Header('X-Content-Type-Options', 'nosniff')
+  @Header('Cache-Control', 'public, max-age=86400')
+  @ApiOperation({
+    summary: 'Download the avatar of a user',
+    description:
+      'Public so that avatars can be shown by image tags. The v query parameter of the avatar URL only refreshes caches.',
+  })
+  @ApiProduces('image/png', 'image/jpeg', 'image/gif', 'image/webp')
+  @ApiParam({ name: 'id', description: 'User ID', type: 'string' })
+  @ApiResponse({
+    status: 200,
+    description: 'Avatar image',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'The user has no avatar',
+  })
+  /**
+   * Streams the avatar of a user
+   *
+   * @param {string} id - The unique identifier of the user
+   * @returns {Promise<StreamableFile>} The avatar image with its type
+   */
+  async downloadAvatar(
+    @Param('id', ParseUUIDPipe) id: string
+  ): Promise<StreamableFile> {
+    const { content, mimeType } = await this.usersService.getAvatar(id);
+
+    return new StreamableFile(content, {
+      type: mimeType,
+      length: content.length,
+    });
+  }
+
   @Get(':id')
   @UseGuards(AdminGuard)
   @ApiOperation({
@@ -5,9 +5,10 @@ import { UserEntity } from '@backend/users/user.entity';
 import { UsersService } from '@backend/users/users.service';
 import { UsersController } from '@backend/users/users.controller';
 import { UsersRepository } from '@backend/users/users.repository';
+import { StorageModule } from '@backend/app/storage/storage.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([UserEntity])],
+  imports: [TypeOrmModule.forFeature([UserEntity]), StorageModule],
   controllers: [UsersController],
   providers: [UsersService, UsersRepository],
   exports: [UsersService],
@@ -3,8 +3,10 @@ import { getRepositoryToken } from '@nestjs/typeorm';
 import { Test, TestingModule } from '@nestjs/testing';
 
 import { UserEntity } from '@backend/users/user.entity';
-import { UsersRepository } from '@backend/users/users.repository';
-import { CreateUserDto } from '@backend/users/dto/create-user.dto';
+import {
+  CreateUserData,
+  UsersRepository,
+} from '@backend/users/users.repository';
 import { UpdateUserDto } from '@backend/users/dto/update-user.dto';
 
 describe('UsersRepository', () => {
@@ -16,13 +18,24 @@ describe('UsersRepository', () => {
     email: 'test@example.com',
     firstName: 'John',
     lastName: 'Doe',
+    displayName: null,
+    avatarUrl: null,
+    bio: null,
+    timezone: null,
+    locale: null,
     password: 'hashedPassword',
     isActive: true,
     isAdmin: false,
+    emailVerifiedAt: new Date(),
+    mfaSecret: null,
+    mfaEnabledAt: null,
+    mfaRecoveryCodes: [],
+    oidcSubject: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     validatePassword: jest.fn(),
     fullName: 'John Doe',
+    publicName: 'John Doe',
   };
 
   const mockTypeOrmRepository = {
@@ -56,20 +69,21 @@ describe('UsersRepository', () => {
 
   describe('create', () => {
     it('should create and save a new user', async () => {
-      const createUserDto: CreateUserDto = {
+      const createUserData: CreateUserData = {
         email: 'new@example.com',
         password: 'hashedPassword',
         firstName: 'Jane',
         lastName: 'Smith',
+        emailVerifiedAt: null,
       };
-      const newUser = { ...mockUser, ...createUserDto } as UserEntity;
+      const newUser = { ...mockUser, ...createUserData } as UserEntity;
 
       typeOrmRepository.create.mockReturnValue(newUser);
       typeOrmRepository.save.mockResolvedValue(newUser);
 
-      const result = await repository.create(createUserDto);
+      const result = await repository.create(createUserData);
 
-      expect(typeOrmRepository.create).toHaveBeenCalledWith(createUserDto);
+      expect(typeOrmRepository.create).toHaveBeenCalledWith(createUserData);
       expect(typeOrmRepository.save).toHaveBeenCalledWith(newUser);
       expect(result).toEqual(newUser);
     });
@@ -145,6 +159,19 @@ describe('UsersRepository', () => {
     });
   });
 
+  describe('findByOidcSubject', () => {
+    it('should return the user linked to a subject', async () => {
+      typeOrmRepository.findOne.mockResolvedValue(mockUser);
+
+      const result = await repository.findByOidcSubject('provider-user-1');
+
+      expect(typeOrmRepository.findOne).toHaveBeenCalledWith({
+        where: { oidcSubject: 'provider-user-1' },
+      });
+      expect(result).toEqual(mockUser);
+    });
+  });
+
   describe('update', () => {
     it('should update a user successfully', async () => {
       const updateUserDto: UpdateUserDto = {
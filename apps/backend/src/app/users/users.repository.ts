@@ -7,11 +7,15 @@ import { UserEntity } from '@backend/users/user.entity';
 import { CreateUserDto } from '@backend/users/dto/create-user.dto';
 import { UpdateUserDto } from '@backend/users/dto/update-user.dto';
 
+export type CreateUserData = Omit<CreateUserDto, 'emailVerified'> &
+  Pick<UserEntity, 'emailVerifiedAt'>;
+
 export interface IUsersRepository {
-  create(createUserDto: CreateUserDto): Promise<UserEntity>;
+  create(data: CreateUserData): Promise<UserEntity>;
   findAll(options?: FindManyOptions<UserEntity>): Promise<UserEntity[]>;
   findOne(id: string): Promise<UserEntity | null>;
   findByEmail(email: string): Promise<UserEntity | null>;
+  findByOidcSubject(subject: string): Promise<UserEntity | null>;
   update(id: string, updateUserDto: UpdateUserDto): Promise<UserEntity | null>;
   remove(id: string): Promise<boolean>;
   save(user: UserEntity): Promise<UserEntity>;
@@ -27,11 +31,11 @@ export class UsersRepository implements IUsersRepository {
   /**
    * Creates a new user in the database
    * 
-   * @param {CreateUserDto} createUserDto - User data for creation
+   * @param {CreateUserData} data - User data for creation
    * @returns {Promise<UserEntity>} The created and saved user entity
    */
-  async create(createUserDto: CreateUserDto): Promise<UserEntity> {
-    const user = this.userRepository.create(createUserDto);
+  async create(data: CreateUserData): Promise<UserEntity> {
+    const user = this.userRepository.create(data);
     return this.userRepository.save(user);
   }
 
@@ -65,6 +69,16 @@ export class UsersRepository implements IUsersRepository {
     return this.userRepository.findOne({ where: { email } });
   }
 
+  /**
+   * Finds a single user by their subject at the single sign-on provider
+   * 
+   * @param {string} subject - The sub claim of the ID token
+   * @returns {Promise<UserEntity | null>} The user entity or null if no account is linked
+   */
+  async findByOidcSubject(subject: string): Promise<UserEntity | null> {
+    return this.userRepository.findOne({ where: { oidcSubject: subject } });
+  }
+
   /**
    * Updates an existing user with new data
    * 
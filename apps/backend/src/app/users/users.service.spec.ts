@@ -12,6 +12,7 @@ import { UsersRepository } from '@backend/users/users.repository';
 import { CreateUserDto } from '@backend/users/dto/create-user.dto';
 import { UpdateUserDto } from '@backend/users/dto/update-user.dto';
 import { AUTH_CONSTANTS } from '@backend/auth/constants/auth.constants';
+import { STORAGE_DRIVER } from '@backend/app/storage/constants/storage.constants';
 
 jest.mock('bcrypt');
 
@@ -24,13 +25,24 @@ describe('UsersService', () => {
     email: 'test@example.com',
     firstName: 'John',
     lastName: 'Doe',
+    displayName: null,
+    avatarUrl: null,
+    bio: null,
+    timezone: null,
+    locale: null,
     password: 'hashedPassword',
     isActive: true,
     isAdmin: false,
+    emailVerifiedAt: new Date(),
+    mfaSecret: null,
+    mfaEnabledAt: null,
+    mfaRecoveryCodes: [],
+    oidcSubject: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     validatePassword: jest.fn(),
     fullName: 'John Doe',
+    publicName: 'John Doe',
   };
 
   const mockUsersRepository = {
@@ -38,11 +50,22 @@ describe('UsersService', () => {
     findAll: jest.fn(),
     findOne: jest.fn(),
     findByEmail: jest.fn(),
+    findByOidcSubject: jest.fn(),
     update: jest.fn(),
     remove: jest.fn(),
     save: jest.fn(),
   };
 
+  const mockStorage = {
+    put: jest.fn(),
+    get: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const pngHeader = Buffer.from([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+  ]);
+
   beforeEach(async () => {
     jest.clearAllMocks();
 
@@ -53,6 +76,10 @@ describe('UsersService', () => {
           provide: UsersRepository,
           useValue: mockUsersRepository,
         },
+        {
+          provide: STORAGE_DRIVER,
+          useValue: mockStorage,
+        },
       ],
     }).compile();
 
@@ -96,10 +123,24 @@ describe('UsersService', () => {
       expect(usersRepository.create).toHaveBeenCalledWith({
         ...createUserDto,
         password: hashedPassword,
+        emailVerifiedAt: expect.any(Date),
       });
       expect(result).toEqual(createdUser);
     });
 
+    it('should create a user whose email address must be verified', async () => {
+      (bcrypt.hash as jest.Mock).mockResolvedValue('hashedPassword123');
+      usersRepository.findByEmail.mockResolvedValue(null);
+
+      await service.create({ ...createUserDto, emailVerified: false });
+
+      expect(usersRepository.create).toHaveBeenCalledWith({
+        ...createUserDto,
+        password: 'hashedPassword123',
+        emailVerifiedAt: null,
+      });
+    });
+
     it('should throw ConflictException if user with email already exists', async () => {
       usersRepository.findByEmail.mockResolvedValue(mockUser);
 
@@ -259,13 +300,247 @@ describe('UsersService', () => {
     });
   });
 
+  describe('updateProfile', () => {
+    it('should only change the fields sent', async () => {
+      usersRepository.findOne.mockResolvedValue({ ...mockUser } as UserEntity);
+      usersRepository.save.mockImplementation(async (user) => user);
+
+      const result = await service.updateProfile('test-id', {
+        timezone: 'Europe/Paris',
+        locale: 'fr-FR',
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          firstName: 'John',
+          timezone: 'Europe/Paris',
+          locale: 'fr-FR',
+          displayName: null,
+        })
+      );
+    });
+
+    it('should trim the display name and bio, clearing blank ones', async () => {
+      usersRepository.findOne.mockResolvedValue({
+        ...mockUser,
+        bio: 'Old bio',
+      } as UserEntity);
+      usersRepository.save.mockImplementation(async (user) => user);
+
+      const result = await service.updateProfile('test-id', {
+        displayName: '  Johnny  ',
+        bio: '   ',
+      });
+
+      expect(result.displayName).toBe('Johnny');
+      expect(result.bio).toBeNull();
+    });
+
+    it('should throw NotFoundException if user not found', async () => {
+      usersRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.updateProfile('non-existent', { bio: 'Hello' })
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('updateAvatar', () => {
+    const file = {
+      originalname: 'me.png',
+      mimetype: 'image/png',
+      size: pngHeader.length,
+      buffer: pngHeader,
+    };
+
+    it('should store the image and version the avatar URL', async () => {
+      usersRepository.findOne.mockResolvedValue({ ...mockUser } as UserEntity);
+      usersRepository.save.mockImplementation(async (user) => user);
+
+      const result = await service.updateAvatar('test-id', file);
+
+      expect(mockStorage.put).toHaveBeenCalledWith(
+        'avatars/test-id',
+        pngHeader,
+        'image/png'
+      );
+      expect(result.avatarUrl).toMatch(/^\/users\/test-id\/avatar\?v=\w+$/);
+    });
+
+    it('should reject files that are not images', async () => {
+      await expect(
+        service.updateAvatar('test-id', {
+          ...file,
+          mimetype: 'text/plain',
+        })
+      ).rejects.toThrow(BadRequestException);
+      expect(mockStorage.put).not.toHaveBeenCalled();
+      expect(usersRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeAvatar', () => {
+    it('should delete the image and clear the avatar URL', async () => {
+      usersRepository.findOne.mockResolvedValue({
+        ...mockUser,
+        avatarUrl: '/users/test-id/avatar?v=abc',
+      } as UserEntity);
+      usersRepository.save.mockImplementation(async (user) => user);
+
+      const result = await service.removeAvatar('test-id');
+
+      expect(mockStorage.delete).toHaveBeenCalledWith('avatars/test-id');
+      expect(result.avatarUrl).toBeNull();
+    });
+  });
+
+  describe('getAvatar', () => {
+    it('should return the image with the type detected from its content', async () => {
+      mockStorage.get.mockResolvedValue(pngHeader);
+
+      const result = await service.getAvatar('test-id');
+
+      expect(mockStorage.get).toHaveBeenCalledWith('avatars/test-id');
+      expect(result).toEqual({ content: pngHeader, mimeType: 'image/png' });
+    });
+
+    it('should throw NotFoundException if the user has no avatar', async () => {
+      mockStorage.get.mockRejectedValue(new NotFoundException());
+
+      await expect(service.getAvatar('test-id')).rejects.toThrow(
+        NotFoundException
+      );
+    });
+  });
+
+  describe('setPassword', () => {
+    it('should hash and save the new password', async () => {
+      const user = { ...mockUser } as UserEntity;
+      (bcrypt.hash as jest.Mock).mockResolvedValue('newHashedPassword');
+      usersRepository.save.mockResolvedValue(user);
+
+      await service.setPassword(user, 'NewPassword123!');
+
+      expect(bcrypt.hash).toHaveBeenCalledWith(
+        'NewPassword123!',
+        AUTH_CONSTANTS.BCRYPT_ROUNDS
+      );
+      expect(usersRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ password: 'newHashedPassword' })
+      );
+    });
+  });
+
+  describe('markEmailVerified', () => {
+    it('should set the verification date of an unverified user', async () => {
+      const user = { ...mockUser, emailVerifiedAt: null } as UserEntity;
+      usersRepository.save.mockResolvedValue(user);
+
+      await service.markEmailVerified(user);
+
+      expect(usersRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ emailVerifiedAt: expect.any(Date) })
+      );
+    });
+
+    it('should keep the date of the first verification', async () => {
+      const result = await service.markEmailVerified(mockUser);
+
+      expect(result).toBe(mockUser);
+      expect(usersRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changeEmail', () => {
+    it('should save the new address as verified', async () => {
+      const user = { ...mockUser, emailVerifiedAt: null } as UserEntity;
+      usersRepository.findByEmail.mockResolvedValue(null);
+      usersRepository.save.mockResolvedValue(user);
+
+      await service.changeEmail(user, 'new@example.com');
+
+      expect(usersRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: 'new@example.com',
+          emailVerifiedAt: expect.any(Date),
+        })
+      );
+    });
+
+    it('should throw ConflictException if the address belongs to another user', async () => {
+      usersRepository.findByEmail.mockResolvedValue({
+        ...mockUser,
+        id: 'other-id',
+      } as UserEntity);
+
+      await expect(
+        service.changeEmail({ ...mockUser } as UserEntity, 'test@example.com')
+      ).rejects.toThrow(ConflictException);
+      expect(usersRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findByOidcSubject', () => {
+    it('should return the user linked to a subject', async () => {
+      usersRepository.findByOidcSubject.mockResolvedValue(mockUser);
+
+      const result = await service.findByOidcSubject('provider-user-1');
+
+      expect(usersRepository.findByOidcSubject).toHaveBeenCalledWith(
+        'provider-user-1'
+      );
+      expect(result).toEqual(mockUser);
+    });
+  });
+
+  describe('linkOidcSubject', () => {
+    it('should save the subject and verify the email', async () => {
+      const user = { ...mockUser, emailVerifiedAt: null } as UserEntity;
+      usersRepository.save.mockResolvedValue(user);
+
+      await service.linkOidcSubject(user, 'provider-user-1');
+
+      expect(usersRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          oidcSubject: 'provider-user-1',
+          emailVerifiedAt: expect.any(Date),
+        })
+      );
+    });
+  });
+
+  describe('updateMfa', () => {
+    it('should save the two-factor authentication settings', async () => {
+      const user = { ...mockUser } as UserEntity;
+      usersRepository.save.mockResolvedValue(user);
+
+      await service.updateMfa(user, { mfaSecret: 'JBSWY3DPEHPK3PXP' });
+
+      expect(usersRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          mfaSecret: 'JBSWY3DPEHPK3PXP',
+          mfaEnabledAt: null,
+        })
+      );
+    });
+  });
+
   describe('remove', () => {
     it('should remove a user successfully', async () => {
       usersRepository.remove.mockResolvedValue(true);
+      mockStorage.delete.mockResolvedValue(undefined);
 
       await service.remove('test-id');
 
       expect(usersRepository.remove).toHaveBeenCalledWith('test-id');
+      expect(mockStorage.delete).toHaveBeenCalledWith('avatars/test-id');
+    });
+
+    it('should not fail when the avatar could not be deleted', async () => {
+      usersRepository.remove.mockResolvedValue(true);
+      mockStorage.delete.mockRejectedValueOnce(new Error('Disk error'));
+
+      await expect(service.remove('test-id')).resolves.toBeUndefined();
     });
 
     it('should throw BadRequestException if removal fails', async () => {
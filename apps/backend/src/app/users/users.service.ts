@@ -1,4 +1,5 @@
 import {
+  Inject,
   Injectable,
   NotFoundException,
   ConflictException,
@@ -8,14 +9,27 @@ import * as bcrypt from 'bcrypt';
 
 import { CreateUserDto } from '@backend/users/dto/create-user.dto';
 import { UpdateUserDto } from '@backend/users/dto/update-user.dto';
+import { UpdateProfileDto } from '@backend/users/dto/update-profile.dto';
 
 import { UserEntity } from '@backend/users/user.entity';
 import { UsersRepository } from '@backend/users/users.repository';
+import {
+  avatarKey,
+  avatarUrl,
+  validateAvatar,
+} from '@backend/users/avatars/user-avatar';
 import { AUTH_CONSTANTS } from '@backend/auth/constants/auth.constants';
+import { detectImageType } from '@backend/app/storage/image-types';
+import { STORAGE_DRIVER } from '@backend/app/storage/constants/storage.constants';
+import type { StorageDriver } from '@backend/app/storage/interfaces/storage-driver.interface';
+import type { UploadedFileInterface } from '@backend/app/storage/interfaces/uploaded-file.interface';
 
 @Injectable()
 export class UsersService {
-  constructor(private readonly usersRepository: UsersRepository) {}
+  constructor(
+    private readonly usersRepository: UsersRepository,
+    @Inject(STORAGE_DRIVER) private readonly storage: StorageDriver
+  ) {}
 
   /**
    * Creates a new user account with encrypted password
@@ -33,14 +47,16 @@ export class UsersService {
       throw new ConflictException('A user with this email already exists');
     }
 
+    const { emailVerified = true, ...userData } = createUserDto;
     const hashedPassword = await bcrypt.hash(
-      createUserDto.password,
+      userData.password,
       AUTH_CONSTANTS.BCRYPT_ROUNDS
     );
 
     const userToCreate = {
-      ...createUserDto,
+      ...userData,
       password: hashedPassword,
+      emailVerifiedAt: emailVerified ? new Date() : null,
     };
 
     return this.usersRepository.create(userToCreate);
@@ -102,6 +118,16 @@ export class UsersService {
     return this.usersRepository.findByEmail(email);
   }
 
+  /**
+   * Finds the user linked to a subject of the single sign-on provider
+   * 
+   * @param {string} subject - The sub claim of the ID token
+   * @returns {Promise<UserEntity | null>} The user entity or null if no account is linked
+   */
+  async findByOidcSubject(subject: string): Promise<UserEntity | null> {
+    return this.usersRepository.findByOidcSubject(subject);
+  }
+
   /**
    * Updates an existing user's information with validation
    * 
@@ -140,7 +166,177 @@ export class UsersService {
   }
 
   /**
-   * Removes a user from the system (soft or hard delete)
+   * Updates the profile of a user, blank display names and bios being
+   * cleared
+   * 
+   * @param {string} id - The unique identifier of the user
+   * @param {UpdateProfileDto} updateProfileDto - The profile fields to change
+   * @returns {Promise<UserEntity>} The saved user entity
+   * @throws {NotFoundException} When user with the given ID is not found
+   */
+  async updateProfile(
+    id: string,
+    updateProfileDto: UpdateProfileDto
+  ): Promise<UserEntity> {
+    const user = await this.findOne(id);
+    const { displayName, bio, ...fields } = updateProfileDto;
+
+    for (const [field, value] of Object.entries(fields)) {
+      if (value !== undefined) {
+        Object.assign(user, { [field]: value });
+      }
+    }
+    if (displayName !== undefined) {
+      user.displayName = displayName?.trim() || null;
+    }
+    if (bio !== undefined) {
+      user.bio = bio?.trim() || null;
+    }
+
+    return this.usersRepository.save(user);
+  }
+
+  /**
+   * Replaces the avatar of a user
+   * 
+   * @param {string} id - The unique identifier of the user
+   * @param {UploadedFileInterface} [file] - The uploaded image
+   * @returns {Promise<UserEntity>} The saved user entity, with the new avatar URL
+   * @throws {BadRequestException} When the file is missing or not a supported image
+   * @throws {PayloadTooLargeException} When the file exceeds MAX_AVATAR_SIZE
+   * @throws {NotFoundException} When user with the given ID is not found
+   */
+  async updateAvatar(
+    id: string,
+    file?: UploadedFileInterface
+  ): Promise<UserEntity> {
+    validateAvatar(file);
+    const user = await this.findOne(id);
+
+    await this.storage.put(avatarKey(id), file.buffer, file.mimetype);
+    user.avatarUrl = avatarUrl(id, new Date());
+
+    return this.usersRepository.save(user);
+  }
+
+  /**
+   * Removes the avatar of a user, initials being shown instead
+   * 
+   * @param {string} id - The unique identifier of the user
+   * @returns {Promise<UserEntity>} The saved user entity
+   * @throws {NotFoundException} When user with the given ID is not found
+   */
+  async removeAvatar(id: string): Promise<UserEntity> {
+    const user = await this.findOne(id);
+
+    await this.storage.delete(avatarKey(id));
+    user.avatarUrl = null;
+
+    return this.usersRepository.save(user);
+  }
+
+  /**
+   * Reads the avatar of a user
+   * 
+   * @param {string} id - The unique identifier of the user
+   * @returns {Promise<{ content: Buffer, mimeType: string }>} The image and its type
+   * @throws {NotFoundException} When the user has no avatar
+   */
+  async getAvatar(id: string): Promise<{ content: Buffer; mimeType: string }> {
+    const content = await this.storage.get(avatarKey(id));
+
+    return {
+      content,
+      mimeType: detectImageType(content) ?? 'application/octet-stream',
+    };
+  }
+
+  /**
+   * Replaces the password of a user
+   * 
+   * @param {UserEntity} user - The user whose password changes
+   * @param {string} password - The new plain text password
+   * @returns {Promise<UserEntity>} The saved user entity
+   */
+  async setPassword(user: UserEntity, password: string): Promise<UserEntity> {
+    user.password = await bcrypt.hash(password, AUTH_CONSTANTS.BCRYPT_ROUNDS);
+    return this.usersRepository.save(user);
+  }
+
+  /**
+   * Marks the email address of a user as verified, keeping the date of
+   * the first verification
+   * 
+   * @param {UserEntity} user - The user whose email address was verified
+   * @returns {Promise<UserEntity>} The saved user entity
+   */
+  async markEmailVerified(user: UserEntity): Promise<UserEntity> {
+    if (user.emailVerifiedAt) {
+      return user;
+    }
+
+    user.emailVerifiedAt = new Date();
+    return this.usersRepository.save(user);
+  }
+
+  /**
+   * Links a user to their subject at the single sign-on provider, whose
+   * verified email matched the address of the account
+   * 
+   * @param {UserEntity} user - The user signing on
+   * @param {string} subject - The sub claim of the ID token
+   * @returns {Promise<UserEntity>} The saved user entity
+   */
+  async linkOidcSubject(
+    user: UserEntity,
+    subject: string
+  ): Promise<UserEntity> {
+    user.oidcSubject = subject;
+    user.emailVerifiedAt ??= new Date();
+    return this.usersRepository.save(user);
+  }
+
+  /**
+   * Updates the two-factor authentication settings of a user
+   * 
+   * @param {UserEntity} user - The user whose settings change
+   * @param {Partial<Pick<UserEntity, 'mfaSecret' | 'mfaEnabledAt' | 'mfaRecoveryCodes'>>} changes - The settings to replace
+   * @returns {Promise<UserEntity>} The saved user entity
+   */
+  async updateMfa(
+    user: UserEntity,
+    changes: Partial<
+      Pick<UserEntity, 'mfaSecret' | 'mfaEnabledAt' | 'mfaRecoveryCodes'>
+    >
+  ): Promise<UserEntity> {
+    Object.assign(user, changes);
+    return this.usersRepository.save(user);
+  }
+
+  /**
+   * Replaces the email address of a user with a verified one
+   * 
+   * @param {UserEntity} user - The user whose address changes
+   * @param {string} email - The new address, proven by the user
+   * @returns {Promise<UserEntity>} The saved user entity
+   * @throws {ConflictException} When another user registered the address in the meantime
+   */
+  async changeEmail(user: UserEntity, email: string): Promise<UserEntity> {
+    const existingUser = await this.usersRepository.findByEmail(email);
+
+    if (existingUser && existingUser.id !== user.id) {
+      throw new ConflictException('A user with this email already exists');
+    }
+
+    user.email = email;
+    user.emailVerifiedAt = new Date();
+
+    return this.usersRepository.save(user);
+  }
+
+  /**
+   * Removes a user from the system (soft or hard delete), along with
+   * their avatar
    * 
    * @param {string} id - The unique identifier of the user to remove
    * @returns {Promise<void>} Promise that resolves when deletion is complete
@@ -152,6 +348,8 @@ export class UsersService {
     if (!deleted) {
       throw new BadRequestException('Unable to delete the user');
     }
+
+    await this.storage.delete(avatarKey(id)).catch(() => undefined);
   }
 
   /**
@@ -1,10 +1,13 @@
 import 'reflect-metadata';
 import { ValidationPipe } from '@nestjs/common';
 import { NestFactory, Reflector } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { ClassSerializerInterceptor, Logger } from '@nestjs/common';
 
 import { AppModule } from '@backend/app/app.module';
+import { REALTIME_CONSTANTS } from '@backend/app/realtime/constants/realtime.constants';
+import { RedisIoAdapter } from '@backend/app/realtime/adapters/redis-io.adapter';
 
 /**
  * Bootstraps the NestJS application with global configuration
@@ -13,7 +16,23 @@ import { AppModule } from '@backend/app/app.module';
  * @returns {Promise<void>} Promise that resolves when the application is running
  */
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // Behind a load balancer, client IPs (rate limits, sessions) come from
+  // X-Forwarded-For, trusting the given number of proxies
+  if (process.env.TRUST_PROXY) {
+    app.set('trust proxy', Number(process.env.TRUST_PROXY) || true);
+  }
+
+  // Shares the WebSocket events between the instances of a scaled deployment
+  if (process.env.REALTIME_STORE === 'redis') {
+    app.useWebSocketAdapter(
+      new RedisIoAdapter(app, {
+        url: process.env.REDIS_URL || REALTIME_CONSTANTS.DEFAULT_REDIS_URL,
+        timeout: REALTIME_CONSTANTS.REDIS_TIMEOUT,
+      })
+    );
+  }
 
   const globalPrefix = 'api';
 
@@ -47,7 +66,7 @@ async function bootstrap() {
       - **JWT Authentication**: Registration, login, session management
       - **User Management**: Complete CRUD operations
       - **Real-time Messages**: Send, edit, delete messages
-      - **Chat Rooms**: Direct conversations and member management
+      - **Chat Rooms**: Direct and group conversations, member management
       - **Online Presence**: Track connected users\n\n
       ## Authentication
       Most endpoints require a JWT token in the Authorization header.\n
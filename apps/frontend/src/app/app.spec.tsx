@@ -5,10 +5,15 @@ import App from './app';
 jest.mock('@/lib/api', () => ({
   authApi: {
     profile: jest.fn(),
+    getOidcConfiguration: jest
+      .fn()
+      .mockResolvedValue({ data: { enabled: false, providerName: 'SSO' } }),
   },
   tokenUtils: {
     get: jest.fn().mockReturnValue(null),
     set: jest.fn(),
+    getRefresh: jest.fn().mockReturnValue(null),
+    setRefresh: jest.fn(),
     remove: jest.fn(),
   },
 }));
@@ -5,19 +5,36 @@ import {
   Navigate,
   useNavigate,
   BrowserRouter,
+  useSearchParams,
 } from 'react-router-dom';
 
-import { Message, Room } from '@shared-types';
+import { MessageSearchResult, Room, RoomPin } from '@shared-types';
 
 import { useToast } from '@/hooks/use-toast';
 
-import { ChatProvider, useChat } from '@/context/ChatContext';
-import { SocketProvider, useSocket } from '@/context/SocketContext';
+import {
+  ChatProvider,
+  useChat,
+  ChatMessage,
+  GroupRoomDetails,
+} from '@/context/ChatContext';
+import {
+  SocketProvider,
+  useSocket,
+  useTypingIndicator,
+} from '@/context/SocketContext';
 import { AuthProvider, RequireAuth, useAuth } from '@/context/AuthContext';
 
 import LoginPage from '@/pages/auth/Login';
 import RegisterPage from '@/pages/auth/Register';
+import VerifyEmailPage from '@/pages/auth/VerifyEmail';
+import ConfirmEmailPage from '@/pages/auth/ConfirmEmail';
+import ResetPasswordPage from '@/pages/auth/ResetPassword';
+import ForgotPasswordPage from '@/pages/auth/ForgotPassword';
+import MfaChallengePage from '@/pages/auth/MfaChallenge';
+import OidcCallbackPage from '@/pages/auth/OidcCallback';
 import ChatInterface from '@/pages/chat/ChatRoom';
+import SettingsPage from '@/pages/settings/Settings';
 
 import { Toaster } from '@/components/ui/toaster';
 import CreateRoomModal from '@/components/chat/CreateRoomModal';
@@ -26,22 +43,60 @@ function AppContent() {
   const {
     rooms,
     messages,
+    hasMoreMessages,
+    isLoadingOlderMessages,
+    hasNewerMessages,
+    isLoadingNewerMessages,
     currentRoom,
     loadRooms,
     setCurrentRoom,
     sendMessage,
+    retryMessage,
+    discardMessage,
+    sendAttachment,
     loadMessages,
+    loadMessagesAround,
     createRoom,
+    activeThread,
+    isLoadingThread,
+    openThread,
+    closeThread,
+    loadMoreThreadReplies,
+    sendThreadReply,
+    editMessage,
+    deleteMessage,
+    addReaction,
+    removeReaction,
+    pins,
+    pinMessage,
+    unpinMessage,
   } = useChat();
   const { toast } = useToast();
   const navigate = useNavigate();
-  const { login, register, logout, user } = useAuth();
-  const { isConnected, onlineUsers, joinRoom, leaveRoom } = useSocket();
-
-  const [selectedRoomMessages, setSelectedRoomMessages] = useState<Message[]>(
-    []
+  const [searchParams] = useSearchParams();
+  const {
+    login,
+    startOidcLogin,
+    completeOidcLogin,
+    verifyMfa,
+    cancelMfa,
+    isMfaPending,
+    register,
+    logout,
+    deleteAccount,
+    updateUser,
+    user,
+  } = useAuth();
+  const { isConnected, onlineUsers, status, setStatus, joinRoom } = useSocket();
+  const { typingUsers, notifyTyping, stopTyping } = useTypingIndicator(
+    currentRoom?.id ?? null
   );
+
+  const [selectedRoomMessages, setSelectedRoomMessages] = useState<
+    ChatMessage[]
+  >([]);
   const [showCreateRoomModal, setShowCreateRoomModal] = useState(false);
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
 
   useEffect(() => {
     if (currentRoom) {
@@ -51,12 +106,11 @@ function AppContent() {
 
   const handleSelectRoom = async (room: Room) => {
     try {
-      if (currentRoom && currentRoom.id !== room.id) {
-        await leaveRoom(currentRoom.id);
-      }
-
+      // The socket stays in every room of the user so that unread
+      // counts keep updating for the rooms in the background
       await joinRoom(room.id);
       setCurrentRoom(room);
+      setFocusedMessageId(null);
 
       await loadMessages(room.id);
     } catch (error) {
@@ -69,13 +123,84 @@ function AppContent() {
     }
   };
 
+  const handleLoadOlderMessages = () => {
+    if (currentRoom) {
+      loadMessages(currentRoom.id, { direction: 'older' });
+    }
+  };
+
+  const handleLoadNewerMessages = () => {
+    if (currentRoom) {
+      loadMessages(currentRoom.id, { direction: 'newer' });
+    }
+  };
+
+  const handleLoadLatestMessages = () => {
+    if (currentRoom) {
+      setFocusedMessageId(null);
+      loadMessages(currentRoom.id);
+    }
+  };
+
+  const handleJumpToMessage = async (result: MessageSearchResult) => {
+    // Thread replies are shown in their thread, next to its first message
+    const target = result.parent ?? result.message;
+    const room = rooms.find((r) => r.id === target.roomId);
+    if (!room) {
+      return;
+    }
+
+    try {
+      if (currentRoom?.id !== room.id) {
+        await joinRoom(room.id);
+        setCurrentRoom(room);
+      }
+      setFocusedMessageId(null);
+
+      await loadMessagesAround(target, result.cursor);
+      setFocusedMessageId(target.id);
+
+      if (result.parent) {
+        await openThread(result.parent);
+      }
+    } catch (error) {
+      console.error('Failed to jump to message:', error);
+      toast({
+        title: 'Erreur',
+        description: "Impossible d'afficher le message",
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleJumpToPin = async (pin: RoomPin) => {
+    setFocusedMessageId(null);
+    try {
+      // Pins can be older than the loaded pages
+      if (!selectedRoomMessages.some(({ id }) => id === pin.messageId)) {
+        await loadMessagesAround(pin.message, pin.cursor);
+      }
+      setFocusedMessageId(pin.messageId);
+    } catch (error) {
+      console.error('Failed to jump to pinned message:', error);
+      toast({
+        title: 'Erreur',
+        description: "Impossible d'afficher le message",
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleCreateRoom = () => {
     setShowCreateRoomModal(true);
   };
 
-  const handleRoomCreated = async (memberId: string) => {
+  const handleRoomCreated = async (
+    memberIds: string[],
+    group?: GroupRoomDetails
+  ) => {
     try {
-      const newRoom = await createRoom(memberId);
+      const newRoom = await createRoom(memberIds, group);
 
       toast({
         title: 'Conversation créée',
@@ -102,12 +227,44 @@ function AppContent() {
             ) : (
               <LoginPage
                 onLogin={login}
+                onOidcLogin={startOidcLogin}
                 onNavigateToRegister={() => navigate('/register')}
+                onNavigateToForgotPassword={() => navigate('/forgot-password')}
               />
             )
           }
         />
 
+        <Route
+          path="/oidc/callback"
+          element={
+            user ? (
+              <Navigate to="/chat" />
+            ) : (
+              <OidcCallbackPage
+                code={searchParams.get('code')}
+                state={searchParams.get('state')}
+                error={searchParams.get('error')}
+                onComplete={completeOidcLogin}
+                onNavigateToLogin={() => navigate('/login')}
+              />
+            )
+          }
+        />
+
+        <Route
+          path="/mfa"
+          element={
+            user ? (
+              <Navigate to="/chat" />
+            ) : isMfaPending ? (
+              <MfaChallengePage onVerify={verifyMfa} onCancel={cancelMfa} />
+            ) : (
+              <Navigate to="/login" />
+            )
+          }
+        />
+
         <Route
           path="/register"
           element={
@@ -122,6 +279,49 @@ function AppContent() {
           }
         />
 
+        <Route
+          path="/verify-email"
+          element={
+            <VerifyEmailPage
+              token={searchParams.get('token')}
+              onNavigateToLogin={() => navigate('/login')}
+            />
+          }
+        />
+
+        <Route
+          path="/confirm-email"
+          element={
+            <ConfirmEmailPage
+              token={searchParams.get('token')}
+              onContinue={() => navigate(user ? '/settings' : '/login')}
+            />
+          }
+        />
+
+        <Route
+          path="/forgot-password"
+          element={
+            user ? (
+              <Navigate to="/chat" />
+            ) : (
+              <ForgotPasswordPage
+                onNavigateToLogin={() => navigate('/login')}
+              />
+            )
+          }
+        />
+
+        <Route
+          path="/reset-password"
+          element={
+            <ResetPasswordPage
+              token={searchParams.get('token')}
+              onNavigateToLogin={() => navigate('/login')}
+            />
+          }
+        />
+
         <Route
           path="/chat"
           element={
@@ -132,13 +332,65 @@ function AppContent() {
                   rooms={rooms}
                   currentRoom={currentRoom}
                   messages={selectedRoomMessages}
+                  hasMoreMessages={
+                    currentRoom ? !!hasMoreMessages[currentRoom.id] : false
+                  }
+                  isLoadingOlderMessages={isLoadingOlderMessages}
+                  hasNewerMessages={
+                    currentRoom ? !!hasNewerMessages[currentRoom.id] : false
+                  }
+                  isLoadingNewerMessages={isLoadingNewerMessages}
+                  focusedMessageId={focusedMessageId}
                   isConnected={isConnected}
-                  onlineUsersCount={onlineUsers.length}
+                  onlineUsers={onlineUsers}
+                  status={status}
+                  onSetStatus={setStatus}
                   onSelectRoom={handleSelectRoom}
                   onSendMessage={sendMessage}
+                  onRetryMessage={retryMessage}
+                  onDiscardMessage={discardMessage}
+                  onSendAttachment={sendAttachment}
+                  onLoadOlderMessages={handleLoadOlderMessages}
+                  onLoadNewerMessages={handleLoadNewerMessages}
+                  onLoadLatestMessages={handleLoadLatestMessages}
+                  onJumpToMessage={handleJumpToMessage}
+                  pins={currentRoom ? pins[currentRoom.id] ?? [] : []}
+                  onPinMessage={pinMessage}
+                  onUnpinMessage={unpinMessage}
+                  onJumpToPin={handleJumpToPin}
+                  typingUsernames={typingUsers.map((typing) => typing.username)}
+                  onTyping={notifyTyping}
+                  onStopTyping={stopTyping}
                   onLogout={logout}
+                  onOpenSettings={() => navigate('/settings')}
                   loadRooms={loadRooms}
                   onCreateRoom={handleCreateRoom}
+                  activeThread={activeThread}
+                  isLoadingThread={isLoadingThread}
+                  onOpenThread={openThread}
+                  onCloseThread={closeThread}
+                  onLoadMoreThreadReplies={loadMoreThreadReplies}
+                  onSendThreadReply={sendThreadReply}
+                  onEditMessage={editMessage}
+                  onDeleteMessage={deleteMessage}
+                  onAddReaction={addReaction}
+                  onRemoveReaction={removeReaction}
+                />
+              )}
+            </RequireAuth>
+          }
+        />
+
+        <Route
+          path="/settings"
+          element={
+            <RequireAuth onNavigate={navigate}>
+              {user && (
+                <SettingsPage
+                  currentUser={user}
+                  onUserUpdated={updateUser}
+                  onDeleteAccount={deleteAccount}
+                  onNavigateBack={() => navigate('/chat')}
                 />
               )}
             </RequireAuth>
@@ -265,7 +265,7 @@ describe('CreateRoomModal', () => {
       expect(johnCard).not.toHaveClass('bg-primary/10');
     });
 
-    it('should only allow one selection at a time', async () => {
+    it('should allow selecting several users', async () => {
       const user = userEvent.setup();
       render(
         <CreateRoomModal
@@ -288,11 +288,11 @@ describe('CreateRoomModal', () => {
         .closest('div[class*="cursor-pointer"]');
 
       await user.click(johnCard!);
-      expect(johnCard).toHaveClass('bg-primary/10');
-
       await user.click(janeCard!);
+
+      expect(johnCard).toHaveClass('bg-primary/10');
       expect(janeCard).toHaveClass('bg-primary/10');
-      expect(johnCard).not.toHaveClass('bg-primary/10');
+      expect(screen.getByLabelText('Nom du groupe')).toBeInTheDocument();
     });
   });
 
@@ -358,7 +358,67 @@ describe('CreateRoomModal', () => {
       const createButton = screen.getByRole('button', { name: 'Créer' });
       await user.click(createButton);
 
-      expect(mockOnCreate).toHaveBeenCalledWith('1');
+      expect(mockOnCreate).toHaveBeenCalledWith(['1']);
+      expect(mockOnClose).toHaveBeenCalled();
+    });
+
+    it('should require a group name when several users are selected', async () => {
+      const user = userEvent.setup();
+      render(
+        <CreateRoomModal
+          open={true}
+          onClose={mockOnClose}
+          onCreate={mockOnCreate}
+          currentUserId={currentUserId}
+        />
+      );
+
+      await waitFor(() => {
+        expect(screen.getByText('John Doe')).toBeInTheDocument();
+      });
+
+      await user.click(
+        screen.getByText('John Doe').closest('div[class*="cursor-pointer"]')!
+      );
+      await user.click(
+        screen.getByText('Jane Smith').closest('div[class*="cursor-pointer"]')!
+      );
+
+      expect(screen.getByRole('button', { name: 'Créer' })).toBeDisabled();
+    });
+
+    it('should call onCreate with member ids and group details', async () => {
+      const user = userEvent.setup();
+      render(
+        <CreateRoomModal
+          open={true}
+          onClose={mockOnClose}
+          onCreate={mockOnCreate}
+          currentUserId={currentUserId}
+        />
+      );
+
+      await waitFor(() => {
+        expect(screen.getByText('John Doe')).toBeInTheDocument();
+      });
+
+      await user.click(
+        screen.getByText('John Doe').closest('div[class*="cursor-pointer"]')!
+      );
+      await user.click(
+        screen.getByText('Jane Smith').closest('div[class*="cursor-pointer"]')!
+      );
+      await user.type(screen.getByLabelText('Nom du groupe'), 'Équipe');
+      await user.type(
+        screen.getByLabelText('Description (optionnelle)'),
+        'Coordination'
+      );
+      await user.click(screen.getByRole('button', { name: 'Créer' }));
+
+      expect(mockOnCreate).toHaveBeenCalledWith(['1', '2'], {
+        name: 'Équipe',
+        description: 'Coordination',
+      });
       expect(mockOnClose).toHaveBeenCalled();
     });
 
@@ -8,11 +8,12 @@ import { Card } from '@/components/ui/card';
 
 import { User } from '@shared-types';
 import { usersApi } from '@/lib/api';
+import type { GroupRoomDetails } from '@/context/ChatContext';
 
 interface CreateRoomModalProps {
   open: boolean;
   onClose: () => void;
-  onCreate: (memberId: string) => void;
+  onCreate: (memberIds: string[], group?: GroupRoomDetails) => void;
   currentUserId: string;
 }
 
@@ -22,10 +23,14 @@ export default function CreateRoomModal({
   onCreate,
   currentUserId,
 }: CreateRoomModalProps) {
-  const [selectedUser, setSelectedUser] = useState<string | null>(null);
+  const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
+  const [groupName, setGroupName] = useState('');
+  const [groupDescription, setGroupDescription] = useState('');
+
+  const isGroup = selectedUsers.length > 1;
 
   useEffect(() => {
     if (open) {
@@ -50,30 +55,39 @@ export default function CreateRoomModal({
   };
 
   const handleCreate = () => {
-    if (!selectedUser) {
+    const memberIds = selectedUsers.filter((id) => id !== currentUserId);
+    if (memberIds.length === 0) {
       return;
     }
 
-    if (selectedUser === currentUserId) {
-      return;
+    if (memberIds.length > 1) {
+      if (!groupName.trim()) {
+        return;
+      }
+      onCreate(memberIds, {
+        name: groupName.trim(),
+        description: groupDescription.trim() || undefined,
+      });
+    } else {
+      onCreate(memberIds);
     }
-
-    onCreate(selectedUser);
     handleClose();
   };
 
   const handleClose = () => {
-    setSelectedUser(null);
+    setSelectedUsers([]);
     setSearchTerm('');
+    setGroupName('');
+    setGroupDescription('');
     onClose();
   };
 
   const toggleUserSelection = (userId: string) => {
-    if (selectedUser === userId) {
-      setSelectedUser(null);
-    } else {
-      setSelectedUser(userId);
-    }
+    setSelectedUsers((prev) =>
+      prev.includes(userId)
+        ? prev.filter((id) => id !== userId)
+        : [...prev, userId]
+    );
   };
 
   const filteredUsers = users.filter(
@@ -98,7 +112,9 @@ export default function CreateRoomModal({
           </div>
 
           <div className="mb-4">
-            <Label htmlFor="userSearch">Sélectionner un utilisateur</Label>
+            <Label htmlFor="userSearch">
+              Sélectionner un ou plusieurs utilisateurs
+            </Label>
             <Input
               id="userSearch"
               value={searchTerm}
@@ -114,7 +130,7 @@ export default function CreateRoomModal({
                 <div
                   key={user.id}
                   className={`p-3 rounded-lg border cursor-pointer transition-colors ${
-                    selectedUser === user.id
+                    selectedUsers.includes(user.id)
                       ? 'bg-primary/10 border-primary'
                       : 'hover:bg-gray-50'
                   }`}
@@ -127,7 +143,7 @@ export default function CreateRoomModal({
                       </p>
                       <p className="text-xs text-gray-500">{user.email}</p>
                     </div>
-                    {selectedUser === user.id && (
+                    {selectedUsers.includes(user.id) && (
                       <div className="h-4 w-4 rounded-full bg-primary" />
                     )}
                   </div>
@@ -136,13 +152,46 @@ export default function CreateRoomModal({
             </div>
           </div>
 
+          {isGroup && (
+            <div className="mb-4 space-y-3">
+              <div>
+                <Label htmlFor="groupName">Nom du groupe</Label>
+                <Input
+                  id="groupName"
+                  value={groupName}
+                  onChange={(e) => setGroupName(e.target.value)}
+                  placeholder="Ex : Équipe projet"
+                  maxLength={100}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="groupDescription">
+                  Description (optionnelle)
+                </Label>
+                <Input
+                  id="groupDescription"
+                  value={groupDescription}
+                  onChange={(e) => setGroupDescription(e.target.value)}
+                  placeholder="De quoi parle ce groupe ?"
+                  maxLength={500}
+                  className="mt-2"
+                />
+              </div>
+            </div>
+          )}
+
           <div className="flex justify-end space-x-2">
             <Button variant="outline" onClick={handleClose}>
               Annuler
             </Button>
             <Button
               onClick={handleCreate}
-              disabled={isLoading || !selectedUser}
+              disabled={
+                isLoading ||
+                selectedUsers.length === 0 ||
+                (isGroup && !groupName.trim())
+              }
             >
               Créer
             </Button>
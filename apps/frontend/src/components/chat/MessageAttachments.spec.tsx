@@ -0,0 +1,101 @@
+import userEvent from '@testing-library/user-event';
+import { render, screen, waitFor } from '@testing-library/react';
+
+import { messagesApi } from '@/lib/api';
+import { MessageAttachment } from '@shared-types';
+
+import MessageAttachments from './MessageAttachments';
+
+jest.mock('@/lib/api', () => ({
+  messagesApi: {
+    getAttachment: jest.fn(),
+  },
+}));
+
+const imageAttachment: MessageAttachment = {
+  id: 'attachment1',
+  fileName: 'photo.png',
+  mimeType: 'image/png',
+  size: 2048,
+};
+
+const fileAttachment: MessageAttachment = {
+  id: 'attachment2',
+  fileName: 'rapport.pdf',
+  mimeType: 'application/pdf',
+  size: 1572864,
+};
+
+describe('MessageAttachments', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    URL.createObjectURL = jest.fn().mockReturnValue('blob:attachment');
+    URL.revokeObjectURL = jest.fn();
+    (messagesApi.getAttachment as jest.Mock).mockResolvedValue({
+      data: new Blob(['content']),
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should preview images once loaded', async () => {
+    render(
+      <MessageAttachments
+        messageId="message1"
+        attachments={[imageAttachment]}
+      />
+    );
+
+    const image = await screen.findByAltText('photo.png');
+    expect(image).toHaveAttribute('src', 'blob:attachment');
+    expect(messagesApi.getAttachment).toHaveBeenCalledWith(
+      'message1',
+      'attachment1'
+    );
+  });
+
+  it('should tell when an image cannot be loaded', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    (messagesApi.getAttachment as jest.Mock).mockRejectedValue(
+      new Error('Not found')
+    );
+
+    render(
+      <MessageAttachments
+        messageId="message1"
+        attachments={[imageAttachment]}
+      />
+    );
+
+    expect(await screen.findByText('Image indisponible')).toBeInTheDocument();
+  });
+
+  it('should render other files as chips with their size', () => {
+    render(
+      <MessageAttachments messageId="message1" attachments={[fileAttachment]} />
+    );
+
+    expect(screen.getByText('rapport.pdf')).toBeInTheDocument();
+    expect(screen.getByText('1,5 Mo')).toBeInTheDocument();
+    expect(messagesApi.getAttachment).not.toHaveBeenCalled();
+  });
+
+  it('should download a file when its chip is clicked', async () => {
+    const user = userEvent.setup();
+    render(
+      <MessageAttachments messageId="message1" attachments={[fileAttachment]} />
+    );
+
+    await user.click(screen.getByTitle('Télécharger rapport.pdf'));
+
+    await waitFor(() => {
+      expect(messagesApi.getAttachment).toHaveBeenCalledWith(
+        'message1',
+        'attachment2'
+      );
+    });
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:attachment');
+  });
+});
@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { FileText, ImageOff } from 'lucide-react';
+
+import { MessageAttachment } from '@shared-types';
+import { messagesApi } from '@/lib/api';
+import { formatFileSize } from '@/lib/utils';
+
+/**
+ * Mirrors the backend limits, checked before uploading
+ */
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+export const ACCEPTED_ATTACHMENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'application/zip',
+  'text/plain',
+  'text/csv',
+  '.doc',
+  '.docx',
+  '.xls',
+  '.xlsx',
+  '.ppt',
+  '.pptx',
+].join(',');
+
+interface MessageAttachmentsProps {
+  messageId: string;
+  attachments: MessageAttachment[];
+}
+
+function ImagePreview({
+  messageId,
+  attachment,
+}: {
+  messageId: string;
+  attachment: MessageAttachment;
+}) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [hasFailed, setHasFailed] = useState(false);
+
+  // Attachments require the JWT, so images are fetched as blobs
+  // instead of being referenced by URL
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let isCancelled = false;
+
+    messagesApi
+      .getAttachment(messageId, attachment.id)
+      .then((response) => {
+        if (isCancelled) {
+          return;
+        }
+        objectUrl = URL.createObjectURL(response.data);
+        setUrl(objectUrl);
+      })
+      .catch((error) => {
+        console.error('Failed to load attachment:', error);
+        if (!isCancelled) {
+          setHasFailed(true);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [messageId, attachment.id]);
+
+  if (hasFailed) {
+    return (
+      <div className="flex items-center space-x-2 rounded-md border border-dashed px-3 py-2 text-xs text-gray-500">
+        <ImageOff className="h-4 w-4" />
+        <span>Image indisponible</span>
+      </div>
+    );
+  }
+
+  if (!url) {
+    return <div className="h-40 w-60 animate-pulse rounded-md bg-gray-100" />;
+  }
+
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer">
+      <img
+        src={url}
+        alt={attachment.fileName}
+        className="max-h-60 max-w-xs rounded-md border object-contain"
+      />
+    </a>
+  );
+}
+
+function FileChip({
+  messageId,
+  attachment,
+}: {
+  messageId: string;
+  attachment: MessageAttachment;
+}) {
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const response = await messagesApi.getAttachment(
+        messageId,
+        attachment.id
+      );
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to download attachment:', error);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleDownload}
+      disabled={isDownloading}
+      title={`Télécharger ${attachment.fileName}`}
+      className="flex max-w-xs items-center space-x-2 rounded-md border bg-white px-3 py-2 text-left hover:bg-gray-50 disabled:opacity-50"
+    >
+      <FileText className="h-5 w-5 shrink-0 text-gray-500" />
+      <span className="min-w-0">
+        <span className="block truncate text-sm text-gray-900">
+          {attachment.fileName}
+        </span>
+        <span className="block text-xs text-gray-500">
+          {formatFileSize(attachment.size)}
+        </span>
+      </span>
+    </button>
+  );
+}
+
+export default function MessageAttachments({
+  messageId,
+  attachments,
+}: MessageAttachmentsProps) {
+  return (
+    <div className="mt-1 flex flex-col items-start space-y-1">
+      {attachments.map((attachment) =>
+        attachment.mimeType.startsWith('image/') ? (
+          <ImagePreview
+            key={attachment.id}
+            messageId={messageId}
+            attachment={attachment}
+          />
+        ) : (
+          <FileChip
+            key={attachment.id}
+            messageId={messageId}
+            attachment={attachment}
+          />
+        )
+      )}
+    </div>
+  );
+}
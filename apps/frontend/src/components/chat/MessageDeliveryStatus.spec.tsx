@@ -0,0 +1,57 @@
+import userEvent from '@testing-library/user-event';
+import { render, screen } from '@testing-library/react';
+
+import { DeliveryStatus } from '@/context/ChatContext';
+
+import MessageDeliveryStatus from './MessageDeliveryStatus';
+
+describe('MessageDeliveryStatus', () => {
+  const mockOnRetry = jest.fn();
+  const mockOnDiscard = jest.fn();
+
+  const renderStatus = (status: DeliveryStatus) =>
+    render(
+      <MessageDeliveryStatus
+        status={status}
+        onRetry={mockOnRetry}
+        onDiscard={mockOnDiscard}
+      />
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should show a message being sent', () => {
+    renderStatus('pending');
+
+    expect(screen.getByText('Envoi…')).toBeInTheDocument();
+    expect(screen.queryByText('Réessayer')).not.toBeInTheDocument();
+  });
+
+  it('should show a message acknowledged by the server', () => {
+    renderStatus('sent');
+
+    expect(screen.getByText('Envoyé')).toBeInTheDocument();
+  });
+
+  it('should retry a failed message', async () => {
+    const user = userEvent.setup();
+    renderStatus('failed');
+
+    expect(screen.getByText("Échec de l'envoi")).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Réessayer' }));
+
+    expect(mockOnRetry).toHaveBeenCalled();
+    expect(mockOnDiscard).not.toHaveBeenCalled();
+  });
+
+  it('should discard a failed message', async () => {
+    const user = userEvent.setup();
+    renderStatus('failed');
+
+    await user.click(screen.getByTitle('Abandonner le message'));
+
+    expect(mockOnDiscard).toHaveBeenCalled();
+  });
+});
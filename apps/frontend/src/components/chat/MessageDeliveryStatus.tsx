@@ -0,0 +1,56 @@
+import { AlertCircle, Check, Clock, RotateCw, X } from 'lucide-react';
+
+import { DeliveryStatus } from '@/context/ChatContext';
+
+interface MessageDeliveryStatusProps {
+  status: DeliveryStatus;
+  onRetry: () => void;
+  onDiscard: () => void;
+}
+
+export default function MessageDeliveryStatus({
+  status,
+  onRetry,
+  onDiscard,
+}: MessageDeliveryStatusProps) {
+  if (status === 'pending') {
+    return (
+      <p className="mt-1 flex items-center justify-end space-x-1 text-xs text-gray-400">
+        <Clock className="h-3 w-3" />
+        <span>Envoi…</span>
+      </p>
+    );
+  }
+
+  if (status === 'sent') {
+    return (
+      <p className="mt-1 flex items-center justify-end space-x-1 text-xs text-gray-400">
+        <Check className="h-3 w-3" />
+        <span>Envoyé</span>
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-1 flex items-center justify-end space-x-2 text-xs text-red-600">
+      <AlertCircle className="h-3 w-3" />
+      <span>Échec de l'envoi</span>
+      <button
+        type="button"
+        onClick={onRetry}
+        className="flex items-center space-x-1 hover:underline"
+      >
+        <RotateCw className="h-3 w-3" />
+        <span>Réessayer</span>
+      </button>
+      <button
+        type="button"
+        onClick={onDiscard}
+        title="Abandonner le message"
+        className="text-gray-400 hover:text-gray-600"
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </div>
+  );
+}
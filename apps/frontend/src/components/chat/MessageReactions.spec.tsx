@@ -0,0 +1,72 @@
+import userEvent from '@testing-library/user-event';
+import { render, screen } from '@testing-library/react';
+
+import { MessageReaction } from '@shared-types';
+
+import MessageReactions from './MessageReactions';
+
+const mockReactions: MessageReaction[] = [
+  { emoji: '👍', userIds: ['1', '2'] },
+  { emoji: '🎉', userIds: ['2'] },
+];
+
+describe('MessageReactions', () => {
+  const mockOnAddReaction = jest.fn();
+  const mockOnRemoveReaction = jest.fn();
+
+  const renderReactions = (reactions: MessageReaction[] = mockReactions) =>
+    render(
+      <MessageReactions
+        reactions={reactions}
+        currentUserId="1"
+        onAddReaction={mockOnAddReaction}
+        onRemoveReaction={mockOnRemoveReaction}
+      />
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should render a chip per emoji with its count', () => {
+    renderReactions();
+
+    expect(screen.getByText('👍').closest('button')).toHaveTextContent('2');
+    expect(screen.getByText('🎉').closest('button')).toHaveTextContent('1');
+  });
+
+  it('should highlight the reactions of the current user', () => {
+    renderReactions();
+
+    expect(screen.getByText('👍').closest('button')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    expect(screen.getByText('🎉').closest('button')).toHaveAttribute(
+      'aria-pressed',
+      'false'
+    );
+  });
+
+  it('should toggle the reaction when a chip is clicked', async () => {
+    const user = userEvent.setup();
+    renderReactions();
+
+    await user.click(screen.getByText('👍'));
+    await user.click(screen.getByText('🎉'));
+
+    expect(mockOnRemoveReaction).toHaveBeenCalledWith('👍');
+    expect(mockOnAddReaction).toHaveBeenCalledWith('🎉');
+  });
+
+  it('should add a reaction from the quick picker', async () => {
+    const user = userEvent.setup();
+    renderReactions([]);
+
+    await user.click(screen.getByTitle('Ajouter une réaction'));
+    await user.click(screen.getByText('❤️'));
+
+    expect(mockOnAddReaction).toHaveBeenCalledWith('❤️');
+    expect(screen.queryByText('😮')).not.toBeInTheDocument();
+  });
+});
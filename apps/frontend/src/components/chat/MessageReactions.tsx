@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { SmilePlus } from 'lucide-react';
+
+import { MessageReaction } from '@shared-types';
+import { cn } from '@/lib/utils';
+
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '🎉', '😮', '😢'];
+
+interface MessageReactionsProps {
+  reactions: MessageReaction[];
+  currentUserId: string;
+  disabled?: boolean;
+  onAddReaction: (emoji: string) => void;
+  onRemoveReaction: (emoji: string) => void;
+}
+
+export default function MessageReactions({
+  reactions,
+  currentUserId,
+  disabled = false,
+  onAddReaction,
+  onRemoveReaction,
+}: MessageReactionsProps) {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  const hasReacted = (emoji: string) =>
+    reactions.some(
+      (reaction) =>
+        reaction.emoji === emoji && reaction.userIds.includes(currentUserId)
+    );
+
+  const toggleReaction = (emoji: string) => {
+    if (hasReacted(emoji)) {
+      onRemoveReaction(emoji);
+    } else {
+      onAddReaction(emoji);
+    }
+  };
+
+  const handlePick = (emoji: string) => {
+    setIsPickerOpen(false);
+    if (!hasReacted(emoji)) {
+      onAddReaction(emoji);
+    }
+  };
+
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-1">
+      {reactions.map((reaction) => {
+        const isOwnReaction = reaction.userIds.includes(currentUserId);
+
+        return (
+          <button
+            key={reaction.emoji}
+            type="button"
+            disabled={disabled}
+            onClick={() => toggleReaction(reaction.emoji)}
+            aria-pressed={isOwnReaction}
+            className={cn(
+              'flex items-center space-x-1 rounded-full border px-2 py-0.5 text-xs disabled:opacity-50',
+              isOwnReaction
+                ? 'border-primary bg-primary/10 text-primary'
+                : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50'
+            )}
+          >
+            <span>{reaction.emoji}</span>
+            <span>{reaction.userIds.length}</span>
+          </button>
+        );
+      })}
+
+      <div className="relative">
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => setIsPickerOpen((open) => !open)}
+          title="Ajouter une réaction"
+          className="flex items-center rounded-full p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600 disabled:opacity-50"
+        >
+          <SmilePlus className="h-3 w-3" />
+        </button>
+
+        {isPickerOpen && (
+          <div className="absolute bottom-full left-0 z-10 mb-1 flex space-x-1 rounded-full border border-gray-200 bg-white px-2 py-1 shadow-md">
+            {QUICK_REACTIONS.map((emoji) => (
+              <button
+                key={emoji}
+                type="button"
+                onClick={() => handlePick(emoji)}
+                className="rounded-full px-1 text-base hover:bg-gray-100"
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
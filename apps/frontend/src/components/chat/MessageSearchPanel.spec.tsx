@@ -0,0 +1,140 @@
+import userEvent from '@testing-library/user-event';
+import { render, screen, waitFor } from '@testing-library/react';
+
+import { messagesApi, usersApi } from '@/lib/api';
+import { Message, MessageSearchResult, Room, User } from '@shared-types';
+
+import MessageSearchPanel from './MessageSearchPanel';
+
+jest.mock('@/lib/api', () => ({
+  usersApi: {
+    getUsers: jest.fn(),
+  },
+  messagesApi: {
+    searchMessages: jest.fn(),
+  },
+}));
+
+const mockUsers: User[] = [
+  {
+    id: '1',
+    email: 'john@example.com',
+    firstName: 'John',
+    lastName: 'Doe',
+    isAdmin: false,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  },
+  {
+    id: '2',
+    email: 'jane@example.com',
+    firstName: 'Jane',
+    lastName: 'Smith',
+    isAdmin: false,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  },
+];
+
+const mockRooms = [
+  { id: 'room1', name: 'Project team' },
+  { id: 'room2', name: 'Design' },
+] as Room[];
+
+const mockMessage: Message = {
+  id: 'message1',
+  content: 'The release is planned for next monday',
+  messageType: 'text',
+  senderId: '2',
+  roomId: 'room1',
+  senderUsername: 'Jane Smith',
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+};
+
+const mockResult: MessageSearchResult = {
+  message: mockMessage,
+  snippet: mockMessage.content,
+  highlights: [{ offset: 4, length: 7 }],
+  cursor: 'cursor',
+};
+
+describe('MessageSearchPanel', () => {
+  const mockOnClose = jest.fn();
+  const mockOnSelectResult = jest.fn();
+
+  const renderPanel = () =>
+    render(
+      <MessageSearchPanel
+        rooms={mockRooms}
+        currentUserId="1"
+        onClose={mockOnClose}
+        onSelectResult={mockOnSelectResult}
+      />
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (usersApi.getUsers as jest.Mock).mockResolvedValue({ data: mockUsers });
+    (messagesApi.searchMessages as jest.Mock).mockResolvedValue({
+      data: { items: [mockResult], hasMore: false },
+    });
+  });
+
+  it('should search with the selected filters', async () => {
+    const user = userEvent.setup();
+    renderPanel();
+
+    await screen.findByRole('option', { name: 'Jane Smith' });
+    await user.selectOptions(screen.getByLabelText('Conversation'), 'room1');
+    await user.selectOptions(screen.getByLabelText('Expéditeur'), '2');
+    await user.type(
+      screen.getByPlaceholderText('Rechercher...'),
+      '  release  {enter}'
+    );
+
+    await waitFor(() => {
+      expect(messagesApi.searchMessages).toHaveBeenCalledWith({
+        q: 'release',
+        roomId: 'room1',
+        senderId: '2',
+      });
+    });
+  });
+
+  it('should highlight the matching terms of the results', async () => {
+    const user = userEvent.setup();
+    renderPanel();
+
+    await user.type(screen.getByPlaceholderText('Rechercher...'), 'release');
+    await user.click(screen.getByTitle('Rechercher'));
+
+    const highlight = await screen.findByText('release');
+    expect(highlight.tagName).toBe('MARK');
+    expect(screen.getByText('Project team · Jane Smith')).toBeInTheDocument();
+  });
+
+  it('should select a result when clicked', async () => {
+    const user = userEvent.setup();
+    renderPanel();
+
+    await user.type(screen.getByPlaceholderText('Rechercher...'), 'release');
+    await user.click(screen.getByTitle('Rechercher'));
+    await user.click(await screen.findByText('release'));
+
+    expect(mockOnSelectResult).toHaveBeenCalledWith(mockResult);
+  });
+
+  it('should tell when nothing matches', async () => {
+    const user = userEvent.setup();
+    (messagesApi.searchMessages as jest.Mock).mockResolvedValue({
+      data: { items: [], hasMore: false },
+    });
+    renderPanel();
+
+    await user.type(screen.getByPlaceholderText('Rechercher...'), 'nothing');
+    await user.click(screen.getByTitle('Rechercher'));
+
+    expect(await screen.findByText('Aucun message trouvé')).toBeInTheDocument();
+  });
+});
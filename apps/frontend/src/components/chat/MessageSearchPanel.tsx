@@ -0,0 +1,257 @@
+import React, { useState, useEffect } from 'react';
+import { Search, X } from 'lucide-react';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+
+import {
+  User,
+  Room,
+  MessageSearchParams,
+  MessageSearchResult,
+  TextHighlight,
+} from '@shared-types';
+import { messagesApi, usersApi } from '@/lib/api';
+import { formatMessageTime } from '@/lib/utils';
+
+const SELECT_CLASS_NAME =
+  'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring';
+
+interface MessageSearchPanelProps {
+  rooms: Room[];
+  currentUserId: string;
+  onClose: () => void;
+  onSelectResult: (result: MessageSearchResult) => void;
+}
+
+function HighlightedSnippet({
+  snippet,
+  highlights,
+}: {
+  snippet: string;
+  highlights: TextHighlight[];
+}) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  highlights.forEach(({ offset, length }) => {
+    if (offset > position) {
+      parts.push(snippet.slice(position, offset));
+    }
+    parts.push(
+      <mark key={offset} className="rounded bg-yellow-200 px-0.5">
+        {snippet.slice(offset, offset + length)}
+      </mark>
+    );
+    position = offset + length;
+  });
+  parts.push(snippet.slice(position));
+
+  return <>{parts}</>;
+}
+
+export default function MessageSearchPanel({
+  rooms,
+  currentUserId,
+  onClose,
+  onSelectResult,
+}: MessageSearchPanelProps) {
+  const [query, setQuery] = useState('');
+  const [roomId, setRoomId] = useState('');
+  const [senderId, setSenderId] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [users, setUsers] = useState<User[]>([]);
+  const [results, setResults] = useState<MessageSearchResult[] | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    usersApi
+      .getUsers()
+      .then((response) => setUsers(response.data))
+      .catch((error) => console.error('Failed to load users:', error));
+  }, []);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!query.trim() || isSearching) {
+      return;
+    }
+
+    const params: MessageSearchParams = { q: query.trim() };
+    if (roomId) {
+      params.roomId = roomId;
+    }
+    if (senderId) {
+      params.senderId = senderId;
+    }
+    if (fromDate) {
+      params.from = new Date(`${fromDate}T00:00:00`).toISOString();
+    }
+    if (toDate) {
+      params.to = new Date(`${toDate}T23:59:59.999`).toISOString();
+    }
+
+    setIsSearching(true);
+    try {
+      const response = await messagesApi.searchMessages(params);
+      setResults(response.data.items);
+      setHasMore(response.data.hasMore);
+    } catch (error) {
+      console.error('Failed to search messages:', error);
+      setResults([]);
+      setHasMore(false);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const getRoomName = (id: string) =>
+    rooms.find((room) => room.id === id)?.name ?? 'Conversation';
+
+  return (
+    <aside className="w-96 bg-white border-l border-gray-200 flex flex-col">
+      <div className="px-4 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="font-semibold">Rechercher des messages</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onClose}
+          title="Fermer la recherche"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <form
+        onSubmit={handleSearch}
+        className="px-4 py-4 border-b border-gray-200 space-y-3"
+      >
+        <div className="flex space-x-2">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Rechercher..."
+            aria-label="Termes recherchés"
+            className="flex-1"
+          />
+          <Button
+            type="submit"
+            disabled={!query.trim() || isSearching}
+            title="Rechercher"
+          >
+            <Search className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="searchRoom">Conversation</Label>
+            <select
+              id="searchRoom"
+              value={roomId}
+              onChange={(e) => setRoomId(e.target.value)}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="">Toutes</option>
+              {rooms.map((room) => (
+                <option key={room.id} value={room.id}>
+                  {room.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="searchSender">Expéditeur</Label>
+            <select
+              id="searchSender"
+              value={senderId}
+              onChange={(e) => setSenderId(e.target.value)}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="">Tous</option>
+              {users.map((user) => (
+                <option key={user.id} value={user.id}>
+                  {user.id === currentUserId
+                    ? 'Vous'
+                    : `${user.firstName} ${user.lastName}`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="searchFrom">Du</Label>
+            <Input
+              id="searchFrom"
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => setFromDate(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="searchTo">Au</Label>
+            <Input
+              id="searchTo"
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+            />
+          </div>
+        </div>
+      </form>
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 space-y-2">
+        {isSearching && <p className="text-xs text-gray-400">Recherche...</p>}
+
+        {!isSearching && results?.length === 0 && (
+          <p className="text-sm text-gray-500">Aucun message trouvé</p>
+        )}
+
+        {!isSearching &&
+          results?.map((result) => (
+            <button
+              key={result.message.id}
+              type="button"
+              onClick={() => onSelectResult(result)}
+              className="w-full rounded-md px-3 py-2 text-left hover:bg-gray-50"
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-xs font-medium text-gray-700 truncate">
+                  {getRoomName(result.message.roomId)} ·{' '}
+                  {result.message.senderId === currentUserId
+                    ? 'Vous'
+                    : result.message.senderUsername}
+                </span>
+                <span className="ml-2 text-xs text-gray-400 shrink-0">
+                  {formatMessageTime(result.message.createdAt)}
+                </span>
+              </div>
+              {result.parent && (
+                <p className="text-xs text-gray-400">Réponse dans un fil</p>
+              )}
+              <p className="text-sm break-words text-gray-900">
+                <HighlightedSnippet
+                  snippet={result.snippet}
+                  highlights={result.highlights}
+                />
+              </p>
+            </button>
+          ))}
+
+        {!isSearching && hasMore && (
+          <p className="text-xs text-gray-400">
+            D'autres messages correspondent, affinez la recherche pour les voir.
+          </p>
+        )}
+      </div>
+    </aside>
+  );
+}
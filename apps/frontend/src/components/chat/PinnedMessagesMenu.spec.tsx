@@ -0,0 +1,88 @@
+import userEvent from '@testing-library/user-event';
+import { render, screen } from '@testing-library/react';
+
+import { Message, RoomPin } from '@shared-types';
+
+import PinnedMessagesMenu from './PinnedMessagesMenu';
+
+const mockMessage: Message = {
+  id: 'message1',
+  content: 'Design review every monday at 10',
+  messageType: 'text',
+  senderId: '2',
+  roomId: 'room1',
+  senderUsername: 'Jane Smith',
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+};
+
+const mockPin: RoomPin = {
+  messageId: 'message1',
+  pinnedBy: '1',
+  pinnedAt: new Date().toISOString(),
+  message: mockMessage,
+  cursor: 'cursor',
+};
+
+describe('PinnedMessagesMenu', () => {
+  const mockOnSelect = jest.fn();
+  const mockOnUnpin = jest.fn();
+
+  const renderMenu = (pins: RoomPin[] = [mockPin], canUnpin = false) =>
+    render(
+      <PinnedMessagesMenu
+        pins={pins}
+        canUnpin={canUnpin}
+        onSelect={mockOnSelect}
+        onUnpin={mockOnUnpin}
+      />
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should show the number of pinned messages', () => {
+    renderMenu();
+
+    expect(screen.getByTitle('Messages épinglés')).toHaveTextContent('1');
+    expect(screen.queryByText(mockMessage.content)).not.toBeInTheDocument();
+  });
+
+  it('should show a room without pinned messages', async () => {
+    const user = userEvent.setup();
+    renderMenu([]);
+
+    await user.click(screen.getByTitle('Messages épinglés'));
+
+    expect(screen.getByText('Aucun message épinglé')).toBeInTheDocument();
+  });
+
+  it('should select a pinned message and close', async () => {
+    const user = userEvent.setup();
+    renderMenu();
+
+    await user.click(screen.getByTitle('Messages épinglés'));
+    expect(screen.getByText('Jane Smith')).toBeInTheDocument();
+    await user.click(screen.getByText(mockMessage.content));
+
+    expect(mockOnSelect).toHaveBeenCalledWith(mockPin);
+    expect(screen.queryByText(mockMessage.content)).not.toBeInTheDocument();
+  });
+
+  it('should only let members allowed to unpin do it', async () => {
+    const user = userEvent.setup();
+    const { unmount } = renderMenu();
+
+    await user.click(screen.getByTitle('Messages épinglés'));
+    expect(screen.queryByTitle('Désépingler')).not.toBeInTheDocument();
+    unmount();
+
+    renderMenu([mockPin], true);
+    await user.click(screen.getByTitle('Messages épinglés'));
+    await user.click(screen.getByTitle('Désépingler'));
+
+    expect(mockOnUnpin).toHaveBeenCalledWith('message1');
+    expect(mockOnSelect).not.toHaveBeenCalled();
+  });
+});
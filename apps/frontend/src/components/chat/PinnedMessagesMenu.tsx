@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Pin, PinOff } from 'lucide-react';
+
+import { RoomPin } from '@shared-types';
+import { Button } from '@/components/ui/button';
+import { formatMessageTime } from '@/lib/utils';
+
+interface PinnedMessagesMenuProps {
+  /** Pins of the room, newest pin first */
+  pins: RoomPin[];
+  /** Whether the current user's role allows unpinning */
+  canUnpin: boolean;
+  onSelect: (pin: RoomPin) => void;
+  onUnpin: (messageId: string) => void;
+}
+
+export default function PinnedMessagesMenu({
+  pins,
+  canUnpin,
+  onSelect,
+  onUnpin,
+}: PinnedMessagesMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleSelect = (pin: RoomPin) => {
+    setIsOpen(false);
+    onSelect(pin);
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        title="Messages épinglés"
+      >
+        <Pin className="h-4 w-4" />
+        {pins.length > 0 && <span>{pins.length}</span>}
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full z-10 mt-2 max-h-96 w-80 overflow-y-auto rounded-md border border-gray-200 bg-white shadow-md">
+          {pins.length === 0 ? (
+            <p className="p-4 text-center text-sm text-gray-500">
+              Aucun message épinglé
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {pins.map((pin) => (
+                <li key={pin.messageId} className="flex items-start">
+                  <button
+                    type="button"
+                    onClick={() => handleSelect(pin)}
+                    className="min-w-0 flex-1 px-3 py-2 text-left hover:bg-gray-50"
+                  >
+                    <div className="flex items-center justify-between text-xs text-gray-500">
+                      <span className="truncate">
+                        {pin.message.senderUsername}
+                      </span>
+                      <span className="shrink-0 text-gray-400">
+                        {formatMessageTime(pin.message.createdAt)}
+                      </span>
+                    </div>
+                    <p className="truncate text-sm text-gray-900">
+                      {pin.message.content}
+                    </p>
+                  </button>
+                  {canUnpin && (
+                    <button
+                      type="button"
+                      onClick={() => onUnpin(pin.messageId)}
+                      title="Désépingler"
+                      className="px-3 py-2 text-gray-400 hover:text-gray-600"
+                    >
+                      <PinOff className="h-3 w-3" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
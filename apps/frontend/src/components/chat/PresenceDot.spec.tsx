@@ -0,0 +1,30 @@
+import { render, screen } from '@testing-library/react';
+
+import PresenceDot from './PresenceDot';
+
+describe('PresenceDot', () => {
+  it('should label the status', () => {
+    render(<PresenceDot status="busy" />);
+
+    expect(screen.getByRole('img', { name: 'Occupé' })).toHaveClass(
+      'bg-red-500'
+    );
+  });
+
+  it('should show offline users in gray', () => {
+    render(<PresenceDot status={null} />);
+
+    expect(screen.getByRole('img', { name: 'Hors ligne' })).toHaveClass(
+      'bg-gray-300'
+    );
+  });
+
+  it('should add the custom status to the tooltip', () => {
+    render(<PresenceDot status="away" customStatus="Lunch" statusEmoji="🍔" />);
+
+    expect(screen.getByRole('img')).toHaveAttribute(
+      'title',
+      'Absent · 🍔 Lunch'
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { PresenceStatus } from '@shared-types';
+import { cn } from '@/lib/utils';
+
+export const PRESENCE_LABELS: Record<PresenceStatus, string> = {
+  online: 'En ligne',
+  away: 'Absent',
+  busy: 'Occupé',
+  invisible: 'Invisible',
+};
+
+const PRESENCE_COLORS: Record<PresenceStatus, string> = {
+  online: 'bg-green-500',
+  away: 'bg-amber-400',
+  busy: 'bg-red-500',
+  invisible: 'border border-gray-400 bg-white',
+};
+
+interface PresenceDotProps {
+  /** Displayed status, null when the user is offline */
+  status: PresenceStatus | null;
+  customStatus?: string;
+  statusEmoji?: string;
+  className?: string;
+}
+
+export default function PresenceDot({
+  status,
+  customStatus,
+  statusEmoji,
+  className,
+}: PresenceDotProps) {
+  const label = status ? PRESENCE_LABELS[status] : 'Hors ligne';
+  const details = [statusEmoji, customStatus].filter(Boolean).join(' ');
+
+  return (
+    <span
+      role="img"
+      aria-label={label}
+      title={details ? `${label} · ${details}` : label}
+      className={cn(
+        'inline-block h-2 w-2 shrink-0 rounded-full',
+        status ? PRESENCE_COLORS[status] : 'bg-gray-300',
+        className
+      )}
+    />
+  );
+}
@@ -0,0 +1,101 @@
+import userEvent from '@testing-library/user-event';
+import { render, screen, waitFor } from '@testing-library/react';
+
+import { toast } from '@/hooks/use-toast';
+import { PresenceStatus, WsSetStatusData } from '@shared-types';
+
+import StatusMenu from './StatusMenu';
+
+jest.mock('@/hooks/use-toast', () => ({
+  toast: jest.fn(),
+}));
+
+describe('StatusMenu', () => {
+  const mockOnChange = jest.fn();
+
+  const renderMenu = (
+    status: WsSetStatusData = { status: 'online' },
+    presence: PresenceStatus | null = 'online'
+  ) =>
+    render(
+      <StatusMenu status={status} presence={presence} onChange={mockOnChange} />
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOnChange.mockResolvedValue(undefined);
+  });
+
+  it('should show the status seen by the others', () => {
+    renderMenu({ status: 'online' }, 'away');
+
+    expect(screen.getByText('Absent')).toBeInTheDocument();
+  });
+
+  it('should show the custom status instead of the label', () => {
+    renderMenu({ status: 'busy', customStatus: 'In a meeting' }, 'busy');
+
+    expect(screen.getByText('In a meeting')).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: 'Occupé' })).toBeInTheDocument();
+  });
+
+  it('should be disabled while disconnected', () => {
+    renderMenu({ status: 'busy', customStatus: 'In a meeting' }, null);
+
+    expect(screen.getByText('Hors ligne')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Hors ligne/ })).toBeDisabled();
+  });
+
+  it('should save the chosen status with its text and emoji', async () => {
+    const user = userEvent.setup();
+    renderMenu();
+
+    await user.click(screen.getByTitle('Changer de statut'));
+    await user.click(screen.getByRole('radio', { name: /Occupé/ }));
+    await user.type(screen.getByLabelText('Emoji du statut'), '📅');
+    await user.type(
+      screen.getByLabelText('Message de statut'),
+      ' In a meeting '
+    );
+    await user.click(screen.getByRole('button', { name: 'Enregistrer' }));
+
+    expect(mockOnChange).toHaveBeenCalledWith({
+      status: 'busy',
+      customStatus: 'In a meeting',
+      statusEmoji: '📅',
+    });
+    expect(screen.queryByRole('radiogroup')).not.toBeInTheDocument();
+  });
+
+  it('should clear the text and emoji', async () => {
+    const user = userEvent.setup();
+    renderMenu({ status: 'away', customStatus: 'Lunch', statusEmoji: '🍔' });
+
+    await user.click(screen.getByTitle('Changer de statut'));
+    await user.click(
+      screen.getByRole('button', { name: 'Effacer le message' })
+    );
+    await user.click(screen.getByRole('button', { name: 'Enregistrer' }));
+
+    expect(mockOnChange).toHaveBeenCalledWith({
+      status: 'away',
+      customStatus: undefined,
+      statusEmoji: undefined,
+    });
+  });
+
+  it('should report a status that could not be changed', async () => {
+    mockOnChange.mockRejectedValue(new Error('Socket not connected'));
+    const user = userEvent.setup();
+    renderMenu();
+
+    await user.click(screen.getByTitle('Changer de statut'));
+    await user.click(screen.getByRole('button', { name: 'Enregistrer' }));
+
+    await waitFor(() => {
+      expect(toast).toHaveBeenCalledWith(
+        expect.objectContaining({ variant: 'destructive' })
+      );
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+
+import { PresenceStatus, WsSetStatusData } from '@shared-types';
+import { toast } from '@/hooks/use-toast';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+import PresenceDot, { PRESENCE_LABELS } from './PresenceDot';
+
+const STATUSES: PresenceStatus[] = ['online', 'away', 'busy', 'invisible'];
+
+interface StatusMenuProps {
+  /** Status chosen by the user */
+  status: WsSetStatusData;
+  /** Status shown to the others, null while disconnected */
+  presence: PresenceStatus | null;
+  onChange: (status: WsSetStatusData) => Promise<void>;
+}
+
+export default function StatusMenu({
+  status,
+  presence,
+  onChange,
+}: StatusMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedStatus, setSelectedStatus] = useState(status.status);
+  const [customStatus, setCustomStatus] = useState(status.customStatus ?? '');
+  const [statusEmoji, setStatusEmoji] = useState(status.statusEmoji ?? '');
+
+  const label = presence ? PRESENCE_LABELS[presence] : 'Hors ligne';
+  const details = [status.statusEmoji, status.customStatus]
+    .filter(Boolean)
+    .join(' ');
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      setSelectedStatus(status.status);
+      setCustomStatus(status.customStatus ?? '');
+      setStatusEmoji(status.statusEmoji ?? '');
+    }
+    setIsOpen((open) => !open);
+  };
+
+  const handleClear = () => {
+    setCustomStatus('');
+    setStatusEmoji('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsOpen(false);
+
+    try {
+      // Emptied fields clear the text and emoji
+      await onChange({
+        status: selectedStatus,
+        customStatus: customStatus.trim() || undefined,
+        statusEmoji: statusEmoji.trim() || undefined,
+      });
+    } catch {
+      toast({
+        title: 'Erreur',
+        description:
+          "Impossible de changer le statut, vous n'êtes pas connecté",
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={handleToggle}
+        disabled={!presence}
+        aria-expanded={isOpen}
+        title="Changer de statut"
+        className="flex max-w-44 items-center space-x-2 text-xs text-gray-500 hover:text-gray-700 disabled:hover:text-gray-500"
+      >
+        <PresenceDot status={presence} />
+        <span className="truncate">
+          {presence && details ? details : label}
+        </span>
+      </button>
+
+      {isOpen && (
+        <form
+          onSubmit={handleSubmit}
+          className="absolute left-0 top-full z-10 mt-2 w-64 space-y-3 rounded-md border border-gray-200 bg-white p-3 shadow-md"
+        >
+          <div role="radiogroup" aria-label="Statut" className="space-y-1">
+            {STATUSES.map((value) => (
+              <button
+                key={value}
+                type="button"
+                role="radio"
+                aria-checked={selectedStatus === value}
+                onClick={() => setSelectedStatus(value)}
+                className={cn(
+                  'flex w-full items-center space-x-2 rounded px-2 py-1 text-sm',
+                  selectedStatus === value
+                    ? 'bg-primary/10 text-primary'
+                    : 'hover:bg-gray-50'
+                )}
+              >
+                <PresenceDot status={value} />
+                <span>{PRESENCE_LABELS[value]}</span>
+              </button>
+            ))}
+          </div>
+          <div className="flex space-x-2">
+            <Input
+              aria-label="Emoji du statut"
+              placeholder="🙂"
+              value={statusEmoji}
+              onChange={(e) => setStatusEmoji(e.target.value)}
+              maxLength={32}
+              className="w-14"
+            />
+            <Input
+              aria-label="Message de statut"
+              placeholder="Que faites-vous ?"
+              value={customStatus}
+              onChange={(e) => setCustomStatus(e.target.value)}
+              maxLength={100}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={handleClear}
+            >
+              Effacer le message
+            </Button>
+            <Button type="submit" size="sm">
+              Enregistrer
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import userEvent from '@testing-library/user-event';
+import { render, screen, waitFor } from '@testing-library/react';
+
+import { Message, MessageThread } from '@shared-types';
+import { RateLimitError } from '@/lib/socket';
+
+import ThreadPanel from './ThreadPanel';
+
+const createMessage = (overrides: Partial<Message> = {}): Message => ({
+  id: 'parent',
+  content: 'Where do we meet?',
+  messageType: 'text',
+  senderId: '2',
+  roomId: 'room1',
+  senderUsername: 'Jane Smith',
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  ...overrides,
+});
+
+const mockThread: MessageThread = {
+  parent: createMessage({ threadReplyCount: 2 }),
+  replies: [
+    createMessage({
+      id: 'reply1',
+      content: 'In the lobby',
+      senderId: '1',
+      parentMessageId: 'parent',
+    }),
+    createMessage({
+      id: 'reply2',
+      content: 'See you there',
+      parentMessageId: 'parent',
+    }),
+  ],
+  hasMore: false,
+};
+
+describe('ThreadPanel', () => {
+  const mockOnClose = jest.fn();
+  const mockOnLoadMore = jest.fn();
+  const mockOnSendReply = jest.fn();
+
+  const renderPanel = (thread: MessageThread = mockThread) =>
+    render(
+      <ThreadPanel
+        thread={thread}
+        currentUserId="1"
+        isLoading={false}
+        isConnected={true}
+        onClose={mockOnClose}
+        onLoadMore={mockOnLoadMore}
+        onSendReply={mockOnSendReply}
+      />
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOnSendReply.mockResolvedValue(undefined);
+  });
+
+  it('should render the parent message, reply count and replies', () => {
+    renderPanel();
+
+    expect(screen.getByText('Where do we meet?')).toBeInTheDocument();
+    expect(screen.getByText('2 réponses')).toBeInTheDocument();
+    expect(screen.getByText('In the lobby')).toBeInTheDocument();
+    expect(screen.getByText('See you there')).toBeInTheDocument();
+    expect(screen.getByText('Vous')).toBeInTheDocument();
+  });
+
+  it('should send a trimmed reply and clear the input', async () => {
+    const user = userEvent.setup();
+    renderPanel();
+
+    const input = screen.getByPlaceholderText('Répondre dans le fil...');
+    await user.type(input, '  On my way  {enter}');
+
+    await waitFor(() => {
+      expect(mockOnSendReply).toHaveBeenCalledWith('On my way');
+      expect(input).toHaveValue('');
+    });
+  });
+
+  it('should ask to slow down when replies are rate limited', async () => {
+    const user = userEvent.setup();
+    mockOnSendReply.mockRejectedValue(
+      new RateLimitError('Too many messages, slow down', 1000)
+    );
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    renderPanel();
+
+    const input = screen.getByPlaceholderText('Répondre dans le fil...');
+    await user.type(input, 'Hello{enter}');
+
+    expect(
+      await screen.findByText(
+        'Vous envoyez trop de messages, patientez quelques secondes'
+      )
+    ).toBeInTheDocument();
+    expect(input).toHaveValue('Hello');
+    consoleSpy.mockRestore();
+  });
+
+  it('should offer to load more replies when available', async () => {
+    const user = userEvent.setup();
+    renderPanel({ ...mockThread, hasMore: true });
+
+    await user.click(screen.getByText('Afficher plus de réponses'));
+
+    expect(mockOnLoadMore).toHaveBeenCalled();
+  });
+
+  it('should call onClose when the close button is clicked', async () => {
+    const user = userEvent.setup();
+    renderPanel();
+
+    await user.click(screen.getByTitle('Fermer le fil'));
+
+    expect(mockOnClose).toHaveBeenCalled();
+  });
+});
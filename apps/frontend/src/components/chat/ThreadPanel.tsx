@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Send, X } from 'lucide-react';
+
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+
+import { Message, MessageThread } from '@shared-types';
+import { RateLimitError } from '@/lib/socket';
+import { formatMessageTime } from '@/lib/utils';
+
+interface ThreadPanelProps {
+  thread: MessageThread;
+  currentUserId: string;
+  isLoading: boolean;
+  isConnected: boolean;
+  onClose: () => void;
+  onLoadMore: () => void;
+  onSendReply: (content: string) => Promise<void>;
+}
+
+function ThreadMessage({
+  message,
+  isOwnMessage,
+}: {
+  message: Message;
+  isOwnMessage: boolean;
+}) {
+  return (
+    <div>
+      <div className="flex items-center space-x-2 mb-1">
+        <span className="text-xs font-medium text-gray-700">
+          {isOwnMessage ? 'Vous' : message.senderUsername}
+        </span>
+        <span className="text-xs text-gray-400">
+          {formatMessageTime(message.createdAt)}
+        </span>
+      </div>
+      <p className="text-sm whitespace-pre-wrap break-words text-gray-900">
+        {message.content}
+      </p>
+    </div>
+  );
+}
+
+export default function ThreadPanel({
+  thread,
+  currentUserId,
+  isLoading,
+  isConnected,
+  onClose,
+  onLoadMore,
+  onSendReply,
+}: ThreadPanelProps) {
+  const [replyInput, setReplyInput] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+
+  const replyCount = thread.parent.threadReplyCount || 0;
+
+  const handleSendReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!replyInput.trim() || isSending) {
+      return;
+    }
+
+    setIsSending(true);
+    setSendError(null);
+    try {
+      await onSendReply(replyInput.trim());
+      setReplyInput('');
+    } catch (error) {
+      console.error('Failed to send reply:', error);
+      if (error instanceof RateLimitError) {
+        setSendError(
+          'Vous envoyez trop de messages, patientez quelques secondes'
+        );
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <aside className="w-96 bg-white border-l border-gray-200 flex flex-col">
+      <div className="px-4 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="font-semibold">Fil de discussion</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onClose}
+          title="Fermer le fil"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 space-y-4">
+        <ThreadMessage
+          message={thread.parent}
+          isOwnMessage={thread.parent.senderId === currentUserId}
+        />
+
+        <p className="text-xs text-gray-500 border-b border-gray-100 pb-2">
+          {replyCount} {replyCount > 1 ? 'réponses' : 'réponse'}
+        </p>
+
+        {thread.replies.map((reply) => (
+          <ThreadMessage
+            key={reply.id}
+            message={reply}
+            isOwnMessage={reply.senderId === currentUserId}
+          />
+        ))}
+
+        {isLoading && <p className="text-xs text-gray-400">Chargement...</p>}
+
+        {thread.hasMore && !isLoading && (
+          <Button variant="ghost" size="sm" onClick={onLoadMore}>
+            Afficher plus de réponses
+          </Button>
+        )}
+      </div>
+
+      <div className="border-t border-gray-200 px-4 py-4">
+        {sendError && <p className="mb-2 text-xs text-red-600">{sendError}</p>}
+        <form onSubmit={handleSendReply} className="flex space-x-2">
+          <Input
+            value={replyInput}
+            onChange={(e) => setReplyInput(e.target.value)}
+            placeholder="Répondre dans le fil..."
+            disabled={isSending || !isConnected}
+            className="flex-1"
+          />
+          <Button
+            type="submit"
+            disabled={isSending || !replyInput.trim() || !isConnected}
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        </form>
+      </div>
+    </aside>
+  );
+}
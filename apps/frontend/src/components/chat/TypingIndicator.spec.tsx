@@ -0,0 +1,35 @@
+import { render, screen } from '@testing-library/react';
+
+import TypingIndicator from './TypingIndicator';
+
+describe('TypingIndicator', () => {
+  it('should render nothing when nobody is typing', () => {
+    const { container } = render(<TypingIndicator usernames={[]} />);
+
+    expect(container).toHaveTextContent('');
+  });
+
+  it('should name a single typing user', () => {
+    render(<TypingIndicator usernames={['Jane Smith']} />);
+
+    expect(
+      screen.getByText("Jane Smith est en train d'écrire…")
+    ).toBeInTheDocument();
+  });
+
+  it('should name two typing users', () => {
+    render(<TypingIndicator usernames={['Jane Smith', 'John Doe']} />);
+
+    expect(
+      screen.getByText("Jane Smith et John Doe sont en train d'écrire…")
+    ).toBeInTheDocument();
+  });
+
+  it('should summarize more than two typing users', () => {
+    render(<TypingIndicator usernames={['Jane', 'John', 'Alice']} />);
+
+    expect(
+      screen.getByText("Plusieurs personnes sont en train d'écrire…")
+    ).toBeInTheDocument();
+  });
+});
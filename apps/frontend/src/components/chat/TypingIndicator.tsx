@@ -0,0 +1,23 @@
+interface TypingIndicatorProps {
+  usernames: string[];
+}
+
+const formatTypingUsers = (usernames: string[]) => {
+  if (usernames.length === 1) {
+    return `${usernames[0]} est en train d'écrire…`;
+  }
+
+  if (usernames.length === 2) {
+    return `${usernames[0]} et ${usernames[1]} sont en train d'écrire…`;
+  }
+
+  return "Plusieurs personnes sont en train d'écrire…";
+};
+
+export default function TypingIndicator({ usernames }: TypingIndicatorProps) {
+  return (
+    <p className="h-4 mb-1 text-xs italic text-gray-500" aria-live="polite">
+      {usernames.length > 0 && formatTypingUsers(usernames)}
+    </p>
+  );
+}
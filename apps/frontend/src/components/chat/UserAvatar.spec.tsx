@@ -0,0 +1,19 @@
+import { render, screen } from '@testing-library/react';
+
+import UserAvatar from './UserAvatar';
+
+describe('UserAvatar', () => {
+  it('should show the initials of the first two words of the name', () => {
+    render(<UserAvatar name="jean claude van damme" />);
+
+    expect(screen.getByText('JC')).toBeInTheDocument();
+  });
+
+  it('should show the initials while the picture is loading', () => {
+    render(
+      <UserAvatar name="Jane Smith" avatarUrl="/users/user1/avatar?v=abc" />
+    );
+
+    expect(screen.getByText('JS')).toBeInTheDocument();
+  });
+});
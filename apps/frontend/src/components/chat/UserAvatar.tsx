@@ -0,0 +1,38 @@
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { getAvatarSrc } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+interface UserAvatarProps {
+  name: string;
+  avatarUrl?: string | null;
+  className?: string;
+}
+
+const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((word) => word[0])
+    .join('')
+    .toUpperCase();
+
+export default function UserAvatar({
+  name,
+  avatarUrl,
+  className,
+}: UserAvatarProps) {
+  return (
+    <Avatar className={cn('h-10 w-10', className)}>
+      <AvatarImage
+        src={getAvatarSrc(avatarUrl)}
+        alt={name}
+        className="object-cover"
+      />
+      {/* Shown while the picture loads, or when there is none */}
+      <AvatarFallback className="bg-primary text-sm font-medium text-white">
+        {getInitials(name)}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
@@ -0,0 +1,220 @@
+import userEvent from '@testing-library/user-event';
+import { render, screen, waitFor } from '@testing-library/react';
+
+import { usersApi } from '@/lib/api';
+import { toast } from '@/hooks/use-toast';
+
+import AccountCard from './AccountCard';
+
+jest.mock('@/lib/api', () => ({
+  usersApi: {
+    changePassword: jest.fn(),
+    changeEmail: jest.fn(),
+  },
+}));
+
+jest.mock('@/hooks/use-toast', () => ({
+  toast: jest.fn(),
+}));
+
+describe('AccountCard', () => {
+  const mockOnDeleteAccount = jest.fn();
+
+  const renderCard = () =>
+    render(
+      <AccountCard
+        currentEmail="test@example.com"
+        onDeleteAccount={mockOnDeleteAccount}
+      />
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('password', () => {
+    const fillPasswords = async (
+      user: ReturnType<typeof userEvent.setup>,
+      newPassword: string,
+      confirmPassword = newPassword
+    ) => {
+      await user.type(
+        screen.getByLabelText('Mot de passe actuel'),
+        'OldPassword123!'
+      );
+      await user.type(
+        screen.getByLabelText('Nouveau mot de passe'),
+        newPassword
+      );
+      await user.type(
+        screen.getByLabelText('Confirmer le mot de passe'),
+        confirmPassword
+      );
+      await user.click(
+        screen.getByRole('button', { name: 'Changer le mot de passe' })
+      );
+    };
+
+    it('should change the password', async () => {
+      (usersApi.changePassword as jest.Mock).mockResolvedValue({});
+      const user = userEvent.setup();
+      renderCard();
+
+      await fillPasswords(user, 'NewPassword123!');
+
+      expect(usersApi.changePassword).toHaveBeenCalledWith({
+        currentPassword: 'OldPassword123!',
+        newPassword: 'NewPassword123!',
+      });
+      await waitFor(() => {
+        expect(toast).toHaveBeenCalledWith(
+          expect.objectContaining({ title: 'Mot de passe modifié' })
+        );
+      });
+      expect(screen.getByLabelText('Mot de passe actuel')).toHaveValue('');
+    });
+
+    it('should not send passwords that do not match', async () => {
+      const user = userEvent.setup();
+      renderCard();
+
+      await fillPasswords(user, 'NewPassword123!', 'OtherPassword123!');
+
+      expect(usersApi.changePassword).not.toHaveBeenCalled();
+      expect(toast).toHaveBeenCalledWith(
+        expect.objectContaining({
+          description: 'Les mots de passe ne correspondent pas',
+        })
+      );
+    });
+
+    it('should report an incorrect current password', async () => {
+      (usersApi.changePassword as jest.Mock).mockRejectedValue({
+        statusCode: 400,
+        message: 'Incorrect password',
+      });
+      const user = userEvent.setup();
+      renderCard();
+
+      await fillPasswords(user, 'NewPassword123!');
+
+      await waitFor(() => {
+        expect(toast).toHaveBeenCalledWith(
+          expect.objectContaining({
+            description: 'Mot de passe actuel incorrect',
+            variant: 'destructive',
+          })
+        );
+      });
+    });
+  });
+
+  describe('email', () => {
+    const requestChange = async (
+      user: ReturnType<typeof userEvent.setup>,
+      email: string
+    ) => {
+      await user.type(screen.getByLabelText('Nouvelle adresse'), email);
+      await user.type(screen.getByLabelText('Mot de passe'), 'Password123!');
+      await user.click(
+        screen.getByRole('button', { name: 'Envoyer le lien de confirmation' })
+      );
+    };
+
+    it('should send a confirmation link to the new address', async () => {
+      (usersApi.changeEmail as jest.Mock).mockResolvedValue({});
+      const user = userEvent.setup();
+      renderCard();
+
+      await requestChange(user, 'new@example.com');
+
+      expect(usersApi.changeEmail).toHaveBeenCalledWith({
+        email: 'new@example.com',
+        password: 'Password123!',
+      });
+      await waitFor(() => {
+        expect(toast).toHaveBeenCalledWith(
+          expect.objectContaining({ title: 'Confirmez votre nouvelle adresse' })
+        );
+      });
+    });
+
+    it('should not send the current address', async () => {
+      const user = userEvent.setup();
+      renderCard();
+
+      await requestChange(user, 'Test@example.com');
+
+      expect(usersApi.changeEmail).not.toHaveBeenCalled();
+    });
+
+    it('should report an address already in use', async () => {
+      (usersApi.changeEmail as jest.Mock).mockRejectedValue({
+        statusCode: 409,
+        message: 'A user with this email already exists',
+      });
+      const user = userEvent.setup();
+      renderCard();
+
+      await requestChange(user, 'taken@example.com');
+
+      await waitFor(() => {
+        expect(toast).toHaveBeenCalledWith(
+          expect.objectContaining({
+            description: 'Cette adresse est déjà utilisée',
+          })
+        );
+      });
+    });
+  });
+
+  describe('deletion', () => {
+    it('should ask for the password before deleting the account', async () => {
+      mockOnDeleteAccount.mockResolvedValue(undefined);
+      const user = userEvent.setup();
+      renderCard();
+
+      await user.click(
+        screen.getByRole('button', { name: 'Supprimer mon compte' })
+      );
+      await user.type(
+        screen.getByLabelText('Confirmez avec votre mot de passe'),
+        'Password123!'
+      );
+      await user.click(
+        screen.getByRole('button', { name: 'Supprimer définitivement' })
+      );
+
+      expect(mockOnDeleteAccount).toHaveBeenCalledWith('Password123!');
+    });
+
+    it('should report an incorrect password', async () => {
+      mockOnDeleteAccount.mockRejectedValue(new Error('Incorrect password'));
+      const user = userEvent.setup();
+      renderCard();
+
+      await user.click(
+        screen.getByRole('button', { name: 'Supprimer mon compte' })
+      );
+      await user.type(
+        screen.getByLabelText('Confirmez avec votre mot de passe'),
+        'wrong'
+      );
+      await user.click(
+        screen.getByRole('button', { name: 'Supprimer définitivement' })
+      );
+
+      await waitFor(() => {
+        expect(toast).toHaveBeenCalledWith(
+          expect.objectContaining({
+            description: 'Mot de passe incorrect',
+            variant: 'destructive',
+          })
+        );
+      });
+      expect(
+        screen.getByRole('button', { name: 'Supprimer définitivement' })
+      ).toBeEnabled();
+    });
+  });
+});
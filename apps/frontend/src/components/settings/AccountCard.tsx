@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  CardDescription,
+} from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { usersApi } from '@/lib/api';
+
+interface AccountCardProps {
+  currentEmail: string;
+  onDeleteAccount: (password: string) => Promise<void>;
+}
+
+// The API client rejects with the body of the error response
+const statusOf = (error: unknown): number | null =>
+  !!error &&
+  typeof error === 'object' &&
+  'statusCode' in error &&
+  typeof error.statusCode === 'number'
+    ? error.statusCode
+    : null;
+
+// Weak passwords are rejected with the list of unmet requirements
+const isInvalidPassword = (error: unknown): boolean =>
+  !!error &&
+  typeof error === 'object' &&
+  'message' in error &&
+  Array.isArray(error.message);
+
+export default function AccountCard({
+  currentEmail,
+  onDeleteAccount,
+}: AccountCardProps) {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [email, setEmail] = useState('');
+  const [emailPassword, setEmailPassword] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [deletePassword, setDeletePassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const showError = (description: string) => {
+    toast({ title: 'Erreur', description, variant: 'destructive' });
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword.length < 8) {
+      showError('Le mot de passe doit contenir au moins 8 caractères');
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      showError('Les mots de passe ne correspondent pas');
+      return;
+    }
+
+    if (newPassword === currentPassword) {
+      showError("Le nouveau mot de passe doit être différent de l'actuel");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await usersApi.changePassword({ currentPassword, newPassword });
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      toast({
+        title: 'Mot de passe modifié',
+        description: 'Vos autres appareils ont été déconnectés',
+      });
+    } catch (error) {
+      showError(
+        isInvalidPassword(error)
+          ? 'Le mot de passe doit contenir une majuscule, une minuscule, un chiffre et un caractère spécial'
+          : 'Mot de passe actuel incorrect'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleChangeEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newEmail = email.trim();
+
+    if (newEmail.toLowerCase() === currentEmail.toLowerCase()) {
+      showError('Cette adresse est déjà la vôtre');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await usersApi.changeEmail({ email: newEmail, password: emailPassword });
+      setEmail('');
+      setEmailPassword('');
+      toast({
+        title: 'Confirmez votre nouvelle adresse',
+        description: `Un lien de confirmation a été envoyé à ${newEmail}`,
+      });
+    } catch (error) {
+      showError(
+        statusOf(error) === 409
+          ? 'Cette adresse est déjà utilisée'
+          : 'Mot de passe incorrect'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsLoading(true);
+    try {
+      await onDeleteAccount(deletePassword);
+    } catch {
+      showError('Mot de passe incorrect');
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelDelete = () => {
+    setIsDeleting(false);
+    setDeletePassword('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center text-2xl font-bold">
+          <KeyRound className="mr-2 h-6 w-6" />
+          Compte
+        </CardTitle>
+        <CardDescription>
+          Connecté avec l'adresse {currentEmail}. Votre mot de passe actuel est
+          demandé pour chaque modification.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleChangePassword} className="space-y-4">
+          <h3 className="text-sm font-semibold text-gray-900">
+            Changer le mot de passe
+          </h3>
+          <div className="space-y-2">
+            <Label htmlFor="account-current-password">
+              Mot de passe actuel
+            </Label>
+            <Input
+              id="account-current-password"
+              type="password"
+              autoComplete="current-password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              required
+              disabled={isLoading}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="account-new-password">Nouveau mot de passe</Label>
+              <Input
+                id="account-new-password"
+                type="password"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                required
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account-confirm-password">
+                Confirmer le mot de passe
+              </Label>
+              <Input
+                id="account-confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+          <Button type="submit" disabled={isLoading}>
+            Changer le mot de passe
+          </Button>
+        </form>
+
+        <Separator />
+
+        <form onSubmit={handleChangeEmail} className="space-y-4">
+          <h3 className="text-sm font-semibold text-gray-900">
+            Changer l'adresse email
+          </h3>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="account-email">Nouvelle adresse</Label>
+              <Input
+                id="account-email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account-email-password">Mot de passe</Label>
+              <Input
+                id="account-email-password"
+                type="password"
+                autoComplete="current-password"
+                value={emailPassword}
+                onChange={(e) => setEmailPassword(e.target.value)}
+                required
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+          <Button type="submit" disabled={isLoading}>
+            Envoyer le lien de confirmation
+          </Button>
+        </form>
+
+        <Separator />
+
+        <div className="space-y-4">
+          <h3 className="text-sm font-semibold text-red-600">
+            Supprimer le compte
+          </h3>
+          <p className="text-sm text-gray-600">
+            Vous quittez toutes vos conversations et le contenu de vos messages
+            est effacé. Cette action est définitive.
+          </p>
+          {isDeleting ? (
+            <form onSubmit={handleDelete} className="space-y-2">
+              <Label htmlFor="account-delete-password">
+                Confirmez avec votre mot de passe
+              </Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="account-delete-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={deletePassword}
+                  onChange={(e) => setDeletePassword(e.target.value)}
+                  required
+                  disabled={isLoading}
+                />
+                <Button
+                  type="submit"
+                  variant="destructive"
+                  disabled={isLoading}
+                >
+                  Supprimer définitivement
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={handleCancelDelete}
+                  disabled={isLoading}
+                >
+                  Annuler
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <Button variant="destructive" onClick={() => setIsDeleting(true)}>
+              Supprimer mon compte
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+import userEvent from '@testing-library/user-event';
+import { render, screen, waitFor } from '@testing-library/react';
+
+import { usersApi } from '@/lib/api';
+import { toast } from '@/hooks/use-toast';
+import { User } from '@shared-types';
+
+import ProfileCard, { MAX_AVATAR_SIZE } from './ProfileCard';
+
+jest.mock('@/lib/api', () => ({
+  usersApi: {
+    updateProfile: jest.fn(),
+    uploadAvatar: jest.fn(),
+    removeAvatar: jest.fn(),
+  },
+  getAvatarSrc: jest.fn(),
+}));
+
+jest.mock('@/hooks/use-toast', () => ({
+  toast: jest.fn(),
+}));
+
+describe('ProfileCard', () => {
+  const mockOnUserUpdated = jest.fn();
+
+  const currentUser: User = {
+    id: 'user1',
+    email: 'test@example.com',
+    firstName: 'John',
+    lastName: 'Doe',
+    displayName: null,
+    avatarUrl: null,
+    bio: 'Old bio',
+    timezone: null,
+    locale: null,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  const renderCard = (user: User = currentUser) =>
+    render(
+      <ProfileCard currentUser={user} onUserUpdated={mockOnUserUpdated} />
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should show the initials when there is no avatar', () => {
+    renderCard();
+
+    expect(screen.getByText('JD')).toBeInTheDocument();
+    expect(
+      screen.queryByRole('button', { name: 'Supprimer la photo' })
+    ).not.toBeInTheDocument();
+  });
+
+  it('should save the profile, clearing the emptied fields', async () => {
+    (usersApi.updateProfile as jest.Mock).mockResolvedValue({
+      data: { ...currentUser, displayName: 'Johnny', bio: null },
+    });
+    const user = userEvent.setup();
+    renderCard();
+
+    await user.type(screen.getByLabelText('Nom affiché'), ' Johnny ');
+    await user.clear(screen.getByLabelText('Bio'));
+    await user.selectOptions(screen.getByLabelText('Langue'), 'fr-FR');
+    await user.click(screen.getByRole('button', { name: 'Enregistrer' }));
+
+    expect(usersApi.updateProfile).toHaveBeenCalledWith({
+      firstName: 'John',
+      lastName: 'Doe',
+      displayName: 'Johnny',
+      bio: null,
+      timezone: null,
+      locale: 'fr-FR',
+    });
+    await waitFor(() => {
+      expect(mockOnUserUpdated).toHaveBeenCalledWith(
+        expect.objectContaining({ displayName: 'Johnny', bio: null })
+      );
+    });
+  });
+
+  it('should report a profile that could not be saved', async () => {
+    (usersApi.updateProfile as jest.Mock).mockRejectedValue(
+      new Error('Bad request')
+    );
+    const user = userEvent.setup();
+    renderCard();
+
+    await user.click(screen.getByRole('button', { name: 'Enregistrer' }));
+
+    await waitFor(() => {
+      expect(toast).toHaveBeenCalledWith(
+        expect.objectContaining({
+          description: "Impossible d'enregistrer le profil",
+          variant: 'destructive',
+        })
+      );
+    });
+    expect(mockOnUserUpdated).not.toHaveBeenCalled();
+  });
+
+  it('should upload a new avatar', async () => {
+    const avatarUrl = '/users/user1/avatar?v=abc';
+    (usersApi.uploadAvatar as jest.Mock).mockResolvedValue({
+      data: { ...currentUser, avatarUrl },
+    });
+    const file = new File(['image'], 'me.png', { type: 'image/png' });
+    const user = userEvent.setup();
+    renderCard();
+
+    await user.upload(screen.getByLabelText('Photo de profil'), file);
+
+    expect(usersApi.uploadAvatar).toHaveBeenCalledWith(file);
+    await waitFor(() => {
+      expect(mockOnUserUpdated).toHaveBeenCalledWith(
+        expect.objectContaining({ avatarUrl })
+      );
+    });
+  });
+
+  it('should refuse an avatar over the size limit', async () => {
+    const file = new File(['image'], 'me.png', { type: 'image/png' });
+    Object.defineProperty(file, 'size', { value: MAX_AVATAR_SIZE + 1 });
+    const user = userEvent.setup();
+    renderCard();
+
+    await user.upload(screen.getByLabelText('Photo de profil'), file);
+
+    expect(usersApi.uploadAvatar).not.toHaveBeenCalled();
+    expect(toast).toHaveBeenCalledWith(
+      expect.objectContaining({ variant: 'destructive' })
+    );
+  });
+
+  it('should remove the avatar', async () => {
+    (usersApi.removeAvatar as jest.Mock).mockResolvedValue({
+      data: currentUser,
+    });
+    const user = userEvent.setup();
+    renderCard({ ...currentUser, avatarUrl: '/users/user1/avatar?v=abc' });
+
+    await user.click(
+      screen.getByRole('button', { name: 'Supprimer la photo' })
+    );
+
+    expect(usersApi.removeAvatar).toHaveBeenCalled();
+    await waitFor(() => {
+      expect(mockOnUserUpdated).toHaveBeenCalledWith(
+        expect.objectContaining({ avatarUrl: null })
+      );
+    });
+  });
+});
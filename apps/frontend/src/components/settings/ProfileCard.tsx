@@ -0,0 +1,254 @@
+import React, { useRef, useState } from 'react';
+import { UserRound } from 'lucide-react';
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  CardDescription,
+} from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import UserAvatar from '@/components/chat/UserAvatar';
+import { User } from '@shared-types';
+import { usersApi } from '@/lib/api';
+import { formatFileSize } from '@/lib/utils';
+
+/**
+ * Maximum avatar size accepted by the API
+ */
+export const MAX_AVATAR_SIZE = 2 * 1024 * 1024;
+
+const ACCEPTED_AVATAR_TYPES = 'image/png,image/jpeg,image/gif,image/webp';
+
+const LOCALES = [
+  { value: 'fr-FR', label: 'Français' },
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'de-DE', label: 'Deutsch' },
+  { value: 'es-ES', label: 'Español' },
+];
+
+interface ProfileCardProps {
+  currentUser: User;
+  onUserUpdated: (user: User) => void;
+}
+
+export default function ProfileCard({
+  currentUser,
+  onUserUpdated,
+}: ProfileCardProps) {
+  const [firstName, setFirstName] = useState(currentUser.firstName);
+  const [lastName, setLastName] = useState(currentUser.lastName);
+  const [displayName, setDisplayName] = useState(currentUser.displayName ?? '');
+  const [bio, setBio] = useState(currentUser.bio ?? '');
+  const [timezone, setTimezone] = useState(currentUser.timezone ?? '');
+  const [locale, setLocale] = useState(currentUser.locale ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fullName = `${currentUser.firstName} ${currentUser.lastName}`;
+
+  const showError = (description: string) => {
+    toast({ title: 'Erreur', description, variant: 'destructive' });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    try {
+      // Emptied optional fields are cleared rather than left unchanged
+      const response = await usersApi.updateProfile({
+        firstName: firstName.trim(),
+        lastName: lastName.trim(),
+        displayName: displayName.trim() || null,
+        bio: bio.trim() || null,
+        timezone: timezone.trim() || null,
+        locale: locale || null,
+      });
+      onUserUpdated({ ...currentUser, ...response.data });
+      toast({ title: 'Profil mis à jour' });
+    } catch {
+      showError("Impossible d'enregistrer le profil");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+
+    if (!file) {
+      return;
+    }
+
+    if (file.size > MAX_AVATAR_SIZE) {
+      showError(
+        `L'image dépasse la taille maximale de ${formatFileSize(
+          MAX_AVATAR_SIZE
+        )}`
+      );
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const response = await usersApi.uploadAvatar(file);
+      onUserUpdated({ ...currentUser, ...response.data });
+    } catch {
+      showError('Image invalide : PNG, JPEG, GIF ou WebP uniquement');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRemoveAvatar = async () => {
+    setIsUploading(true);
+    try {
+      const response = await usersApi.removeAvatar();
+      onUserUpdated({ ...currentUser, ...response.data });
+    } catch {
+      showError('Impossible de supprimer la photo');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center text-2xl font-bold">
+          <UserRound className="mr-2 h-6 w-6" />
+          Profil
+        </CardTitle>
+        <CardDescription>
+          Votre nom et votre photo sont visibles par les autres utilisateurs.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center space-x-4">
+          <UserAvatar
+            name={currentUser.displayName || fullName}
+            avatarUrl={currentUser.avatarUrl}
+            className="h-16 w-16"
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_AVATAR_TYPES}
+            onChange={handleAvatarChange}
+            aria-label="Photo de profil"
+            className="hidden"
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+          >
+            Changer la photo
+          </Button>
+          {currentUser.avatarUrl && (
+            <Button
+              variant="ghost"
+              onClick={handleRemoveAvatar}
+              disabled={isUploading}
+            >
+              Supprimer la photo
+            </Button>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="profile-first-name">Prénom</Label>
+              <Input
+                id="profile-first-name"
+                value={firstName}
+                onChange={(e) => setFirstName(e.target.value)}
+                required
+                minLength={2}
+                maxLength={50}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-last-name">Nom</Label>
+              <Input
+                id="profile-last-name"
+                value={lastName}
+                onChange={(e) => setLastName(e.target.value)}
+                required
+                minLength={2}
+                maxLength={50}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-display-name">Nom affiché</Label>
+            <Input
+              id="profile-display-name"
+              placeholder={fullName}
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              maxLength={50}
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-bio">Bio</Label>
+            <textarea
+              id="profile-bio"
+              rows={3}
+              value={bio}
+              onChange={(e) => setBio(e.target.value)}
+              maxLength={500}
+              disabled={isSaving}
+              className="flex w-full rounded-md border border-input bg-transparent px-3 py-2 text-base shadow-sm transition-colors placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 md:text-sm"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="profile-timezone">Fuseau horaire</Label>
+              <Input
+                id="profile-timezone"
+                placeholder={Intl.DateTimeFormat().resolvedOptions().timeZone}
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+                maxLength={64}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-locale">Langue</Label>
+              <select
+                id="profile-locale"
+                value={locale}
+                onChange={(e) => setLocale(e.target.value)}
+                disabled={isSaving}
+                className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-base shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 md:text-sm"
+              >
+                <option value="">Langue du navigateur</option>
+                {LOCALES.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <Button type="submit" disabled={isSaving}>
+            Enregistrer
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+import userEvent from '@testing-library/user-event';
+import { render, screen } from '@testing-library/react';
+
+import { authApi } from '@/lib/api';
+import { toast } from '@/hooks/use-toast';
+
+import TwoFactorCard from './TwoFactorCard';
+
+jest.mock('@/lib/api', () => ({
+  authApi: {
+    enrollMfa: jest.fn(),
+    confirmMfa: jest.fn(),
+    disableMfa: jest.fn(),
+  },
+}));
+
+jest.mock('@/hooks/use-toast', () => ({
+  toast: jest.fn(),
+}));
+
+describe('TwoFactorCard', () => {
+  const mockOnEnabledChange = jest.fn();
+
+  const enrollment = {
+    secret: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+    otpauthUri:
+      'otpauth://totp/Chat:test%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=Chat',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (authApi.enrollMfa as jest.Mock).mockResolvedValue({ data: enrollment });
+    (authApi.confirmMfa as jest.Mock).mockResolvedValue({
+      data: { recoveryCodes: ['3f9a1-c07be', '81d2e-4b6f0'] },
+    });
+    (authApi.disableMfa as jest.Mock).mockResolvedValue({});
+  });
+
+  it('should enroll, confirm and show the recovery codes once', async () => {
+    const user = userEvent.setup();
+    render(
+      <TwoFactorCard isEnabled={false} onEnabledChange={mockOnEnabledChange} />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Activer' }));
+
+    expect(await screen.findByText(enrollment.secret)).toBeInTheDocument();
+    expect(
+      screen.getByRole('link', { name: 'ouvrant ce lien' })
+    ).toHaveAttribute('href', enrollment.otpauthUri);
+
+    await user.type(
+      screen.getByLabelText("Code affiché par l'application"),
+      '123456'
+    );
+    await user.click(screen.getByRole('button', { name: 'Activer' }));
+
+    expect(authApi.confirmMfa).toHaveBeenCalledWith('123456');
+    expect(mockOnEnabledChange).toHaveBeenCalledWith(true);
+    expect(await screen.findByText('3f9a1-c07be')).toBeInTheDocument();
+    expect(screen.queryByText(enrollment.secret)).not.toBeInTheDocument();
+
+    await user.click(
+      screen.getByRole('button', { name: "J'ai conservé mes codes" })
+    );
+
+    expect(screen.queryByText('3f9a1-c07be')).not.toBeInTheDocument();
+  });
+
+  it('should keep the enrollment open when the code is rejected', async () => {
+    (authApi.confirmMfa as jest.Mock).mockRejectedValue(
+      new Error('Invalid code')
+    );
+    const user = userEvent.setup();
+    render(
+      <TwoFactorCard isEnabled={false} onEnabledChange={mockOnEnabledChange} />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Activer' }));
+    await user.type(
+      await screen.findByLabelText("Code affiché par l'application"),
+      '000000'
+    );
+    await user.click(screen.getByRole('button', { name: 'Activer' }));
+
+    expect(toast).toHaveBeenCalledWith(
+      expect.objectContaining({ description: 'Code invalide' })
+    );
+    expect(screen.getByText(enrollment.secret)).toBeInTheDocument();
+    expect(mockOnEnabledChange).not.toHaveBeenCalled();
+  });
+
+  it('should disable with a code', async () => {
+    const user = userEvent.setup();
+    render(
+      <TwoFactorCard isEnabled={true} onEnabledChange={mockOnEnabledChange} />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Désactiver' }));
+    await user.type(
+      screen.getByLabelText(
+        'Code de votre application ou code de récupération'
+      ),
+      '3f9a1-c07be'
+    );
+    await user.click(screen.getByRole('button', { name: 'Désactiver' }));
+
+    expect(authApi.disableMfa).toHaveBeenCalledWith('3f9a1-c07be');
+    expect(mockOnEnabledChange).toHaveBeenCalledWith(false);
+  });
+
+  it('should cancel the enrollment', async () => {
+    const user = userEvent.setup();
+    render(
+      <TwoFactorCard isEnabled={false} onEnabledChange={mockOnEnabledChange} />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Activer' }));
+    await user.click(await screen.findByRole('button', { name: 'Annuler' }));
+
+    expect(screen.queryByText(enrollment.secret)).not.toBeInTheDocument();
+    expect(authApi.confirmMfa).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  CardDescription,
+} from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { MfaEnrollment } from '@shared-types';
+import { authApi } from '@/lib/api';
+
+interface TwoFactorCardProps {
+  isEnabled: boolean;
+  onEnabledChange: (isEnabled: boolean) => void;
+}
+
+export default function TwoFactorCard({
+  isEnabled,
+  onEnabledChange,
+}: TwoFactorCardProps) {
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  // Only returned once by the API, shown until the user dismisses them
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isDisabling, setIsDisabling] = useState(false);
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const showError = (description: string) => {
+    toast({ title: 'Erreur', description, variant: 'destructive' });
+  };
+
+  const handleEnroll = async () => {
+    setIsLoading(true);
+    try {
+      const response = await authApi.enrollMfa();
+      setEnrollment(response.data);
+    } catch {
+      showError("Impossible de démarrer l'activation");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!code.trim()) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await authApi.confirmMfa(code.trim());
+      setRecoveryCodes(response.data.recoveryCodes);
+      setEnrollment(null);
+      setCode('');
+      onEnabledChange(true);
+    } catch {
+      showError('Code invalide');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!code.trim()) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await authApi.disableMfa(code.trim());
+      setIsDisabling(false);
+      setCode('');
+      onEnabledChange(false);
+    } catch {
+      showError('Code invalide');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setEnrollment(null);
+    setIsDisabling(false);
+    setCode('');
+  };
+
+  const codeForm = (
+    onSubmit: (e: React.FormEvent) => void,
+    label: string,
+    submitLabel: string
+  ) => (
+    <form onSubmit={onSubmit} className="space-y-2">
+      <Label htmlFor="mfa-code">{label}</Label>
+      <div className="flex space-x-2">
+        <Input
+          id="mfa-code"
+          placeholder="123456"
+          autoComplete="one-time-code"
+          maxLength={20}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          disabled={isLoading}
+        />
+        <Button type="submit" disabled={isLoading}>
+          {submitLabel}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={handleCancel}
+          disabled={isLoading}
+        >
+          Annuler
+        </Button>
+      </div>
+    </form>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center text-2xl font-bold">
+          <ShieldCheck className="mr-2 h-6 w-6" />
+          Vérification en deux étapes
+        </CardTitle>
+        <CardDescription>
+          {isEnabled
+            ? 'Activée : un code de votre application est demandé à chaque connexion.'
+            : "Protégez votre compte avec un code généré par une application d'authentification."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-700">
+              Conservez ces codes de récupération en lieu sûr. Chacun permet de
+              se connecter une fois sans votre application, ils ne seront plus
+              affichés.
+            </p>
+            <ul className="grid grid-cols-2 gap-1 rounded bg-gray-100 p-3 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+            <Button variant="outline" onClick={() => setRecoveryCodes(null)}>
+              J'ai conservé mes codes
+            </Button>
+          </div>
+        )}
+
+        {enrollment && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Ajoutez ce compte dans votre application d'authentification en
+              saisissant la clé ci-dessous, ou en{' '}
+              <a
+                href={enrollment.otpauthUri}
+                className="text-primary underline"
+              >
+                ouvrant ce lien
+              </a>{' '}
+              sur votre téléphone.
+            </p>
+            <p className="break-all rounded bg-gray-100 p-3 font-mono text-sm">
+              {enrollment.secret}
+            </p>
+            {codeForm(
+              handleConfirm,
+              "Code affiché par l'application",
+              'Activer'
+            )}
+          </div>
+        )}
+
+        {isDisabling &&
+          codeForm(
+            handleDisable,
+            'Code de votre application ou code de récupération',
+            'Désactiver'
+          )}
+
+        {!enrollment && !isDisabling && !recoveryCodes && (
+          <Button
+            variant={isEnabled ? 'outline' : 'default'}
+            onClick={isEnabled ? () => setIsDisabling(true) : handleEnroll}
+            disabled={isLoading}
+          >
+            {isEnabled ? 'Désactiver' : 'Activer'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,7 +2,7 @@ import React from 'react';
 import userEvent from '@testing-library/user-event';
 import { render, screen, waitFor, act } from '@testing-library/react';
 
-import { authApi, tokenUtils } from '@/lib/api';
+import { authApi, usersApi, tokenUtils } from '@/lib/api';
 import { AuthResponse, User } from '@shared-types';
 
 import { AuthProvider, useAuth, RequireAuth } from './AuthContext';
@@ -11,13 +11,21 @@ import { AuthProvider, useAuth, RequireAuth } from './AuthContext';
 jest.mock('@/lib/api', () => ({
   authApi: {
     login: jest.fn(),
+    verifyMfa: jest.fn(),
+    authorizeOidc: jest.fn(),
+    oidcCallback: jest.fn(),
     register: jest.fn(),
     logout: jest.fn(),
     profile: jest.fn(),
   },
+  usersApi: {
+    deleteAccount: jest.fn(),
+  },
   tokenUtils: {
     get: jest.fn(),
     set: jest.fn(),
+    getRefresh: jest.fn(),
+    setRefresh: jest.fn(),
     remove: jest.fn(),
   },
 }));
@@ -35,6 +43,10 @@ const mockUser: User = {
 const mockAuthResponse: AuthResponse = {
   user: mockUser,
   accessToken: 'mock-token',
+  tokenType: 'Bearer',
+  expiresIn: 3600,
+  refreshToken: 'mock-refresh-token',
+  refreshExpiresIn: 2592000,
 };
 
 function TestComponent() {
@@ -68,6 +80,7 @@ describe('AuthContext', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    (tokenUtils.getRefresh as jest.Mock).mockReturnValue(null);
   });
 
   describe('AuthProvider', () => {
@@ -155,6 +168,7 @@ describe('AuthContext', () => {
         password: 'password',
       });
       expect(tokenUtils.set).toHaveBeenCalledWith('mock-token');
+      expect(tokenUtils.setRefresh).toHaveBeenCalledWith('mock-refresh-token');
       expect(mockShowToast).toHaveBeenCalledWith({
         title: 'Connexion réussie',
         description: 'Bienvenue John !',
@@ -186,11 +200,297 @@ describe('AuthContext', () => {
       expect(screen.getByTestId('user-info')).toHaveTextContent('No user');
       expect(mockOnNavigate).not.toHaveBeenCalledWith('/chat');
     });
+
+    it('should ask to verify the email of an unverified account', async () => {
+      (authApi.login as jest.Mock).mockRejectedValue({
+        statusCode: 403,
+        message: 'Email not verified',
+        error: 'Forbidden',
+      });
+
+      render(
+        <AuthProvider onNavigate={mockOnNavigate} showToast={mockShowToast}>
+          <TestComponent />
+        </AuthProvider>
+      );
+
+      await userEvent.click(screen.getByText('Login'));
+
+      await waitFor(() => {
+        expect(mockShowToast).toHaveBeenCalledWith({
+          title: 'Erreur de connexion',
+          description: 'Confirmez votre adresse email avant de vous connecter',
+          variant: 'destructive',
+        });
+      });
+    });
+
+    it('should tell when to retry a locked account', async () => {
+      (authApi.login as jest.Mock).mockRejectedValue({
+        statusCode: 429,
+        error: 'Too Many Requests',
+        message: 'Account temporarily locked after too many failed logins',
+        retryAfter: 240,
+      });
+
+      render(
+        <AuthProvider onNavigate={mockOnNavigate} showToast={mockShowToast}>
+          <TestComponent />
+        </AuthProvider>
+      );
+
+      await userEvent.click(screen.getByText('Login'));
+
+      await waitFor(() => {
+        expect(mockShowToast).toHaveBeenCalledWith({
+          title: 'Erreur de connexion',
+          description: 'Trop de tentatives, réessayez dans 4 minutes',
+          variant: 'destructive',
+        });
+      });
+    });
+  });
+
+  describe('verifyMfa', () => {
+    let auth: ReturnType<typeof useAuth>;
+
+    function TestMfaComponent() {
+      auth = useAuth();
+      return (
+        <div data-testid="is-mfa-pending">{auth.isMfaPending.toString()}</div>
+      );
+    }
+
+    const renderWithChallenge = async () => {
+      (authApi.login as jest.Mock).mockResolvedValue({
+        data: { mfaRequired: true, mfaToken: 'mfa-token', expiresIn: 300 },
+      });
+
+      render(
+        <AuthProvider onNavigate={mockOnNavigate} showToast={mockShowToast}>
+          <TestMfaComponent />
+        </AuthProvider>
+      );
+
+      await act(async () => {
+        await auth.login({ email: 'test@example.com', password: 'password' });
+      });
+    };
+
+    it('should ask for the second factor when the login requires it', async () => {
+      await renderWithChallenge();
+
+      expect(screen.getByTestId('is-mfa-pending')).toHaveTextContent('true');
+      expect(tokenUtils.set).not.toHaveBeenCalled();
+      expect(auth.user).toBeNull();
+      expect(mockOnNavigate).toHaveBeenCalledWith('/mfa');
+    });
+
+    it('should complete the login with a valid code', async () => {
+      (authApi.verifyMfa as jest.Mock).mockResolvedValue({
+        data: mockAuthResponse,
+      });
+      await renderWithChallenge();
+
+      await act(async () => {
+        await auth.verifyMfa('123456');
+      });
+
+      expect(authApi.verifyMfa).toHaveBeenCalledWith('mfa-token', '123456');
+      expect(tokenUtils.set).toHaveBeenCalledWith('mock-token');
+      expect(auth.user).toEqual(mockUser);
+      expect(screen.getByTestId('is-mfa-pending')).toHaveTextContent('false');
+      expect(mockOnNavigate).toHaveBeenCalledWith('/chat');
+    });
+
+    it('should keep the challenge pending on an invalid code', async () => {
+      (authApi.verifyMfa as jest.Mock).mockRejectedValue({
+        statusCode: 401,
+        message: 'Invalid code',
+      });
+      await renderWithChallenge();
+
+      await act(async () => {
+        await expect(auth.verifyMfa('000000')).rejects.toEqual(
+          expect.objectContaining({ statusCode: 401 })
+        );
+      });
+
+      expect(mockShowToast).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'Code invalide',
+          variant: 'destructive',
+        })
+      );
+      expect(screen.getByTestId('is-mfa-pending')).toHaveTextContent('true');
+      expect(mockOnNavigate).not.toHaveBeenCalledWith('/chat');
+    });
+
+    it('should return to the login page when cancelled', async () => {
+      await renderWithChallenge();
+
+      act(() => {
+        auth.cancelMfa();
+      });
+
+      expect(screen.getByTestId('is-mfa-pending')).toHaveTextContent('false');
+      expect(mockOnNavigate).toHaveBeenLastCalledWith('/login');
+    });
+  });
+
+  describe('single sign-on', () => {
+    let auth: ReturnType<typeof useAuth>;
+
+    function TestOidcComponent() {
+      auth = useAuth();
+      return null;
+    }
+
+    const renderProvider = async () => {
+      render(
+        <AuthProvider onNavigate={mockOnNavigate} showToast={mockShowToast}>
+          <TestOidcComponent />
+        </AuthProvider>
+      );
+      await waitFor(() => expect(auth.isLoading).toBe(false));
+    };
+
+    beforeEach(() => {
+      sessionStorage.clear();
+    });
+
+    it('should keep the flow token across the redirect to the provider', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      (authApi.authorizeOidc as jest.Mock).mockResolvedValue({
+        data: {
+          authorizationUrl: 'https://idp.example.com/authorize',
+          flowToken: 'flow-token',
+        },
+      });
+      await renderProvider();
+
+      await act(async () => {
+        await auth.startOidcLogin();
+      });
+
+      expect(sessionStorage.getItem('oidc_flow_token')).toBe('flow-token');
+      jest.restoreAllMocks();
+    });
+
+    it('should complete the login with the code of the callback', async () => {
+      sessionStorage.setItem('oidc_flow_token', 'flow-token');
+      (authApi.oidcCallback as jest.Mock).mockResolvedValue({
+        data: mockAuthResponse,
+      });
+      await renderProvider();
+
+      await act(async () => {
+        await auth.completeOidcLogin('code', 'state');
+      });
+
+      expect(authApi.oidcCallback).toHaveBeenCalledWith(
+        'code',
+        'state',
+        'flow-token'
+      );
+      expect(tokenUtils.set).toHaveBeenCalledWith('mock-token');
+      expect(auth.user).toEqual(mockUser);
+      expect(sessionStorage.getItem('oidc_flow_token')).toBeNull();
+      expect(mockOnNavigate).toHaveBeenCalledWith('/chat');
+    });
+
+    it('should ask for the second factor when the account requires it', async () => {
+      sessionStorage.setItem('oidc_flow_token', 'flow-token');
+      (authApi.oidcCallback as jest.Mock).mockResolvedValue({
+        data: { mfaRequired: true, mfaToken: 'mfa-token', expiresIn: 300 },
+      });
+      await renderProvider();
+
+      await act(async () => {
+        await auth.completeOidcLogin('code', 'state');
+      });
+
+      expect(auth.isMfaPending).toBe(true);
+      expect(mockOnNavigate).toHaveBeenCalledWith('/mfa');
+    });
+
+    it('should fail without a sign-on in progress', async () => {
+      await renderProvider();
+
+      await act(async () => {
+        await expect(auth.completeOidcLogin('code', 'state')).rejects.toThrow(
+          'Aucune connexion en cours'
+        );
+      });
+
+      expect(authApi.oidcCallback).not.toHaveBeenCalled();
+      expect(mockShowToast).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'Erreur de connexion',
+          variant: 'destructive',
+        })
+      );
+    });
+  });
+
+  describe('deleteAccount', () => {
+    let auth: ReturnType<typeof useAuth>;
+
+    function TestDeleteComponent() {
+      auth = useAuth();
+      return null;
+    }
+
+    beforeEach(async () => {
+      (tokenUtils.get as jest.Mock).mockReturnValue('mock-token');
+      (authApi.profile as jest.Mock).mockResolvedValue({ data: mockUser });
+
+      render(
+        <AuthProvider onNavigate={mockOnNavigate} showToast={mockShowToast}>
+          <TestDeleteComponent />
+        </AuthProvider>
+      );
+      await waitFor(() => expect(auth.user).toEqual(mockUser));
+    });
+
+    it('should clear the session once the account is deleted', async () => {
+      (usersApi.deleteAccount as jest.Mock).mockResolvedValue({});
+
+      await act(async () => {
+        await auth.deleteAccount('password');
+      });
+
+      expect(usersApi.deleteAccount).toHaveBeenCalledWith('password');
+      expect(authApi.logout).not.toHaveBeenCalled();
+      expect(tokenUtils.remove).toHaveBeenCalled();
+      expect(auth.user).toBeNull();
+      expect(mockOnNavigate).toHaveBeenCalledWith('/login');
+    });
+
+    it('should keep the session when the deletion fails', async () => {
+      (usersApi.deleteAccount as jest.Mock).mockRejectedValue(
+        new Error('Incorrect password')
+      );
+
+      await act(async () => {
+        await expect(auth.deleteAccount('wrong')).rejects.toThrow(
+          'Incorrect password'
+        );
+      });
+
+      expect(tokenUtils.remove).not.toHaveBeenCalled();
+      expect(auth.user).toEqual(mockUser);
+    });
   });
 
   describe('register', () => {
     it('should successfully register user', async () => {
-      (authApi.register as jest.Mock).mockResolvedValue({ data: mockAuthResponse });
+      (authApi.register as jest.Mock).mockResolvedValue({
+        data: {
+          message: 'Account created, check your email to verify your address',
+          email: 'new@example.com',
+        },
+      });
 
       let registerFunction: any;
       
@@ -216,18 +516,19 @@ describe('AuthContext', () => {
       });
 
       expect(authApi.register).toHaveBeenCalled();
-      expect(tokenUtils.set).toHaveBeenCalledWith('mock-token');
+      expect(tokenUtils.set).not.toHaveBeenCalled();
       expect(mockShowToast).toHaveBeenCalledWith({
         title: 'Inscription réussie',
-        description: 'Votre compte a été créé avec succès !',
+        description: 'Un email de confirmation a été envoyé à new@example.com',
       });
-      expect(mockOnNavigate).toHaveBeenCalledWith('/chat');
+      expect(mockOnNavigate).toHaveBeenCalledWith('/login');
     });
   });
 
   describe('logout', () => {
     it('should successfully logout user', async () => {
       (tokenUtils.get as jest.Mock).mockReturnValue('token');
+      (tokenUtils.getRefresh as jest.Mock).mockReturnValue('refresh-token');
       (authApi.profile as jest.Mock).mockResolvedValue({ data: mockUser });
       (authApi.logout as jest.Mock).mockResolvedValue({});
 
@@ -251,7 +552,7 @@ describe('AuthContext', () => {
         expect(screen.getByTestId('user-info')).toHaveTextContent('No user');
       });
 
-      expect(authApi.logout).toHaveBeenCalled();
+      expect(authApi.logout).toHaveBeenCalledWith('refresh-token');
       expect(tokenUtils.remove).toHaveBeenCalled();
       expect(mockShowToast).toHaveBeenCalledWith({
         title: 'Déconnexion',
@@ -2,21 +2,53 @@ import React, { createContext, useState, useEffect, useCallback } from 'react';
 import {
   User,
   AuthResponse,
+  LoginResponse,
   LoginCredentials,
   RegisterCredentials,
 } from '@shared-types';
-import { authApi, tokenUtils } from '@/lib/api';
+import { authApi, usersApi, tokenUtils } from '@/lib/api';
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
+  isMfaPending: boolean;
   login: (credentials: LoginCredentials) => Promise<void>;
+  startOidcLogin: () => Promise<void>;
+  completeOidcLogin: (code: string, state: string) => Promise<void>;
+  verifyMfa: (code: string) => Promise<void>;
+  cancelMfa: () => void;
   register: (credentials: RegisterCredentials) => Promise<void>;
   logout: () => Promise<void>;
+  deleteAccount: (password: string) => Promise<void>;
   updateUser: (user: User) => void;
 }
 
+// Kept across the redirect to the identity provider, for the callback page
+const OIDC_FLOW_TOKEN_KEY = 'oidc_flow_token';
+
+// Locked accounts and clients over the rate limit get a 429 with retryAfter
+const tooManyAttemptsMessage = (error: unknown): string | null => {
+  if (
+    !error ||
+    typeof error !== 'object' ||
+    !('statusCode' in error) ||
+    error.statusCode !== 429
+  ) {
+    return null;
+  }
+
+  const retryAfter =
+    'retryAfter' in error && typeof error.retryAfter === 'number'
+      ? error.retryAfter
+      : 0;
+  const minutes = Math.ceil(retryAfter / 60);
+
+  return minutes > 1
+    ? `Trop de tentatives, réessayez dans ${minutes} minutes`
+    : 'Trop de tentatives, réessayez dans une minute';
+};
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 interface AuthProviderProps {
@@ -36,12 +68,15 @@ export function AuthProvider({
 }: AuthProviderProps) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // Token of a login waiting for its second factor code
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
 
   useEffect(() => {
     const checkAuth = async () => {
       const token = tokenUtils.get();
 
-      if (!token) {
+      // An expired access token is renewed by the API client on the first 401
+      if (!token && !tokenUtils.getRefresh()) {
         setIsLoading(false);
         return;
       }
@@ -60,57 +95,162 @@ export function AuthProvider({
     checkAuth();
   }, []);
 
+  const completeLogin = useCallback(
+    (data: AuthResponse) => {
+      tokenUtils.set(data.accessToken);
+      tokenUtils.setRefresh(data.refreshToken);
+      setMfaToken(null);
+      setUser(data.user);
+
+      showToast({
+        title: 'Connexion réussie',
+        description: `Bienvenue ${data.user.firstName} !`,
+      });
+
+      onNavigate('/chat');
+    },
+    [onNavigate, showToast]
+  );
+
+  const handleLoginResponse = useCallback(
+    (data: LoginResponse) => {
+      // Two-factor authentication enabled, the code is asked on its own page
+      if ('mfaRequired' in data) {
+        setMfaToken(data.mfaToken);
+        onNavigate('/mfa');
+        return;
+      }
+
+      completeLogin(data);
+    },
+    [completeLogin, onNavigate]
+  );
+
   const login = useCallback(
     async (credentials: LoginCredentials) => {
       try {
         const response = await authApi.login(credentials);
-        const data: AuthResponse = response.data;
-
-        tokenUtils.set(data.accessToken);
-        setUser(data.user);
+        handleLoginResponse(response.data);
+      } catch (error: Error | unknown) {
+        const isUnverified =
+          !!error &&
+          typeof error === 'object' &&
+          'statusCode' in error &&
+          error.statusCode === 403;
 
         showToast({
-          title: 'Connexion réussie',
-          description: `Bienvenue ${data.user.firstName} !`,
+          title: 'Erreur de connexion',
+          description: isUnverified
+            ? 'Confirmez votre adresse email avant de vous connecter'
+            : tooManyAttemptsMessage(error) ??
+              (error instanceof Error
+                ? error.message
+                : 'Email ou mot de passe incorrect'),
+          variant: 'destructive',
         });
+        throw error;
+      }
+    },
+    [handleLoginResponse, showToast]
+  );
+
+  // The identity provider redirects back to /oidc/callback with the code
+  const startOidcLogin = useCallback(async () => {
+    try {
+      const response = await authApi.authorizeOidc();
+
+      sessionStorage.setItem(OIDC_FLOW_TOKEN_KEY, response.data.flowToken);
+      window.location.href = response.data.authorizationUrl;
+    } catch (error: Error | unknown) {
+      showToast({
+        title: 'Erreur de connexion',
+        description: "Le fournisseur d'identité est indisponible",
+        variant: 'destructive',
+      });
+      throw error;
+    }
+  }, [showToast]);
 
-        onNavigate('/chat');
+  const completeOidcLogin = useCallback(
+    async (code: string, state: string) => {
+      const flowToken = sessionStorage.getItem(OIDC_FLOW_TOKEN_KEY);
+      // The code is single-use, like the flow token
+      sessionStorage.removeItem(OIDC_FLOW_TOKEN_KEY);
+
+      try {
+        if (!flowToken) {
+          throw new Error('Aucune connexion en cours');
+        }
+
+        const response = await authApi.oidcCallback(code, state, flowToken);
+        handleLoginResponse(response.data);
       } catch (error: Error | unknown) {
+        const isDeactivated =
+          !!error &&
+          typeof error === 'object' &&
+          'message' in error &&
+          error.message === 'Account deactivated';
+
         showToast({
           title: 'Erreur de connexion',
+          description: isDeactivated
+            ? 'Ce compte est désactivé'
+            : "La connexion avec le fournisseur d'identité a échoué",
+          variant: 'destructive',
+        });
+        throw error;
+      }
+    },
+    [handleLoginResponse, showToast]
+  );
+
+  const verifyMfa = useCallback(
+    async (code: string) => {
+      if (!mfaToken) {
+        onNavigate('/login');
+        return;
+      }
+
+      try {
+        const response = await authApi.verifyMfa(mfaToken, code);
+        completeLogin(response.data);
+      } catch (error: Error | unknown) {
+        showToast({
+          title: 'Code invalide',
           description:
-            error instanceof Error
-              ? error.message
-              : 'Email ou mot de passe incorrect',
+            'Vérifiez le code de votre application ou utilisez un code de récupération',
           variant: 'destructive',
         });
         throw error;
       }
     },
-    [onNavigate, showToast]
+    [mfaToken, completeLogin, onNavigate, showToast]
   );
 
+  const cancelMfa = useCallback(() => {
+    setMfaToken(null);
+    onNavigate('/login');
+  }, [onNavigate]);
+
+  // The account can only log in once its address is verified
   const register = useCallback(async (credentials: RegisterCredentials) => {
     try {
       const response = await authApi.register(credentials);
-      const data: AuthResponse = response.data;
-
-      tokenUtils.set(data.accessToken);
-      setUser(data.user);
 
       showToast({
         title: 'Inscription réussie',
-        description: 'Votre compte a été créé avec succès !',
+        description: `Un email de confirmation a été envoyé à ${response.data.email}`,
       });
 
-      onNavigate('/chat');
+      onNavigate('/login');
     } catch (error: Error | unknown) {
       showToast({
         title: "Erreur d'inscription",
         description:
-          error instanceof Error
+          tooManyAttemptsMessage(error) ??
+          (error instanceof Error
             ? error.message
-            : "Une erreur est survenue lors de l'inscription",
+            : "Une erreur est survenue lors de l'inscription"),
         variant: 'destructive',
       });
       throw error;
@@ -119,7 +259,7 @@ export function AuthProvider({
 
   const logout = useCallback(async () => {
     try {
-      await authApi.logout();
+      await authApi.logout(tokenUtils.getRefresh());
     } catch (error) {
       console.error('Logout error:', error);
     } finally {
@@ -135,6 +275,21 @@ export function AuthProvider({
     }
   }, []);
 
+  // The sessions are ended by the API, there is nothing left to log out of
+  const deleteAccount = useCallback(async (password: string) => {
+    await usersApi.deleteAccount(password);
+
+    tokenUtils.remove();
+    setUser(null);
+
+    showToast({
+      title: 'Compte supprimé',
+      description: 'Votre compte et vos données ont été supprimés',
+    });
+
+    onNavigate('/login');
+  }, []);
+
   const updateUser = useCallback((updatedUser: User) => {
     setUser(updatedUser);
   }, []);
@@ -143,9 +298,15 @@ export function AuthProvider({
     user,
     isLoading,
     isAuthenticated: !!user,
+    isMfaPending: !!mfaToken,
     login,
+    startOidcLogin,
+    completeOidcLogin,
+    verifyMfa,
+    cancelMfa,
     register,
     logout,
+    deleteAccount,
     updateUser,
   };
 
@@ -1,35 +1,183 @@
 import React, {
+  useRef,
+  useMemo,
   useState,
   useEffect,
   useContext,
   useCallback,
   createContext,
 } from 'react';
+import { useAuth } from '@/context/AuthContext';
 import { useSocket } from '@/context/SocketContext';
 
 import { messagesApi } from '@/lib/api';
-import { Room, Message, WsNewMessageData } from '@shared-types';
+import { NotConnectedError } from '@/lib/socket';
+import {
+  OutboxEntry,
+  messageOutbox,
+  generateClientMessageId,
+} from '@/lib/outbox';
+import {
+  Room,
+  Message,
+  MessageSync,
+  MessageThread,
+  RoomPin,
+  WsNewMessageData,
+  WsNewThreadReplyData,
+  WsMessagesReadData,
+  WsMessageUpdatedData,
+  WsMessageDeletedData,
+  WsMessageReactionUpdatedData,
+  WsMessagePinnedData,
+  WsMessageUnpinnedData,
+  WsRoomUpdatedData,
+  CreateGroupRoomData,
+  User,
+} from '@shared-types';
+
+export type GroupRoomDetails = Omit<CreateGroupRoomData, 'memberIds'>;
+
+/**
+ * Delivery of a message written in this client: pending until the server
+ * acknowledges it, failed when the server rejected it or never answered
+ */
+export type DeliveryStatus = 'pending' | 'failed' | 'sent';
+
+export interface ChatMessage extends Message {
+  /** Only set on the messages written in this client */
+  deliveryStatus?: DeliveryStatus;
+}
+
+interface OutgoingMessage extends Omit<OutboxEntry, 'status'> {
+  status: DeliveryStatus;
+  /** ID given by the server once it acknowledged the message */
+  messageId?: string;
+}
+
+export interface LoadMessagesOptions {
+  /**
+   * Load the page preceding the oldest loaded message, or following the
+   * newest one, instead of the latest messages
+   */
+  direction?: 'older' | 'newer';
+}
 
 interface ChatContextType {
   rooms: Room[];
   currentRoom: Room | null;
-  messages: Record<string, Message[]>;
+  messages: Record<string, ChatMessage[]>;
   isLoadingRooms: boolean;
   isLoadingMessages: boolean;
+  hasMoreMessages: Record<string, boolean>;
+  isLoadingOlderMessages: boolean;
+  hasNewerMessages: Record<string, boolean>;
+  isLoadingNewerMessages: boolean;
+  activeThread: MessageThread | null;
+  isLoadingThread: boolean;
+  /** Pinned messages of the rooms opened, newest pin first */
+  pins: Record<string, RoomPin[]>;
   setCurrentRoom: (room: Room | null) => void;
   loadRooms: () => Promise<void>;
-  loadMessages: (roomId: string) => Promise<void>;
-  createRoom: (memberId: string) => Promise<Room>;
+  loadMessages: (
+    roomId: string,
+    options?: LoadMessagesOptions
+  ) => Promise<void>;
+  loadMessagesAround: (message: Message, cursor: string) => Promise<void>;
+  createRoom: (memberIds: string[], group?: GroupRoomDetails) => Promise<Room>;
   sendMessage: (content: string) => Promise<void>;
+  retryMessage: (clientMessageId: string) => Promise<void>;
+  discardMessage: (clientMessageId: string) => Promise<void>;
+  sendAttachment: (file: File, caption?: string) => Promise<void>;
+  openThread: (message: Message) => Promise<void>;
+  loadMoreThreadReplies: () => Promise<void>;
+  closeThread: () => void;
+  sendThreadReply: (content: string) => Promise<void>;
+  editMessage: (messageId: string, content: string) => Promise<void>;
+  deleteMessage: (messageId: string) => Promise<void>;
+  addReaction: (messageId: string, emoji: string) => Promise<void>;
+  removeReaction: (messageId: string, emoji: string) => Promise<void>;
+  pinMessage: (messageId: string) => Promise<void>;
+  unpinMessage: (messageId: string) => Promise<void>;
 }
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
 
+const MESSAGES_PAGE_SIZE = 50;
+
+function toOutboxEntry(
+  message: OutgoingMessage,
+  status: OutboxEntry['status']
+): OutboxEntry {
+  return {
+    clientMessageId: message.clientMessageId,
+    userId: message.userId,
+    roomId: message.roomId,
+    content: message.content,
+    createdAt: message.createdAt,
+    status,
+  };
+}
+
+// Keeps a room's messages in the order they were sent
+function insertMessage(messages: Message[], message: Message): Message[] {
+  const index = messages.findIndex(
+    (loaded) => loaded.createdAt > message.createdAt
+  );
+  return index === -1
+    ? [...messages, message]
+    : [...messages.slice(0, index), message, ...messages.slice(index)];
+}
+
+// Rendered like the message the server will broadcast
+function toChatMessage(message: OutgoingMessage, sender: User): ChatMessage {
+  return {
+    id: message.messageId ?? message.clientMessageId,
+    clientMessageId: message.clientMessageId,
+    content: message.content,
+    messageType: 'text',
+    senderId: message.userId,
+    senderUsername:
+      sender.displayName || `${sender.firstName} ${sender.lastName}`,
+    senderAvatar: sender.avatarUrl ?? undefined,
+    roomId: message.roomId,
+    createdAt: message.createdAt,
+    updatedAt: message.createdAt,
+    deliveryStatus: message.status,
+  };
+}
+
 export function ChatProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
   const {
+    isConnected,
     sendMessage: socketSendMessage,
+    sendThreadReply: socketSendThreadReply,
     onNewMessage,
     offNewMessage,
+    onNewThreadReply,
+    offNewThreadReply,
+    markRead: socketMarkRead,
+    onMessagesRead,
+    offMessagesRead,
+    editMessage: socketEditMessage,
+    deleteMessage: socketDeleteMessage,
+    onMessageUpdated,
+    offMessageUpdated,
+    onMessageDeleted,
+    offMessageDeleted,
+    addReaction: socketAddReaction,
+    removeReaction: socketRemoveReaction,
+    onMessageReactionUpdated,
+    offMessageReactionUpdated,
+    pinMessage: socketPinMessage,
+    unpinMessage: socketUnpinMessage,
+    onMessagePinned,
+    offMessagePinned,
+    onMessageUnpinned,
+    offMessageUnpinned,
+    onRoomUpdated,
+    offRoomUpdated,
   } = useSocket();
 
   const [rooms, setRooms] = useState<Room[]>([]);
@@ -37,6 +185,30 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
   const [currentRoom, setCurrentRoom] = useState<Room | null>(null);
   const [isLoadingMessages, setIsLoadingMessages] = useState(false);
   const [messages, setMessages] = useState<Record<string, Message[]>>({});
+  const [hasMoreMessages, setHasMoreMessages] = useState<
+    Record<string, boolean>
+  >({});
+  const [isLoadingOlderMessages, setIsLoadingOlderMessages] = useState(false);
+  const [hasNewerMessages, setHasNewerMessages] = useState<
+    Record<string, boolean>
+  >({});
+  const [isLoadingNewerMessages, setIsLoadingNewerMessages] = useState(false);
+  const [activeThread, setActiveThread] = useState<MessageThread | null>(null);
+  const [isLoadingThread, setIsLoadingThread] = useState(false);
+  const [pins, setPins] = useState<Record<string, RoomPin[]>>({});
+  const [outgoingMessages, setOutgoingMessages] = useState<OutgoingMessage[]>(
+    []
+  );
+  const currentRoomIdRef = useRef<string | null>(null);
+  const lastMarkedReadRef = useRef<string | null>(null);
+  const olderCursorsRef = useRef<Record<string, string | null>>({});
+  const newerCursorsRef = useRef<Record<string, string | null>>({});
+  const loadingPageRef = useRef<string | null>(null);
+  const isConnectedRef = useRef(isConnected);
+  const deliveringRef = useRef(new Set<string>());
+  // Date of the latest sync, the changes made after it are fetched on connect
+  const syncedAtRef = useRef(new Date().toISOString());
+  const userId = user?.id;
 
   const loadRooms = useCallback(async () => {
     setIsLoadingRooms(true);
@@ -51,48 +223,685 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
-  const loadMessages = useCallback(async (roomId: string) => {
-    setIsLoadingMessages(true);
+  const loadMessages = useCallback(
+    async (roomId: string, { direction }: LoadMessagesOptions = {}) => {
+      if (!direction) {
+        setIsLoadingMessages(true);
+        try {
+          const response = await messagesApi.getMessages(roomId, {
+            limit: MESSAGES_PAGE_SIZE,
+          });
+          const page = response.data;
+
+          olderCursorsRef.current[roomId] = page.nextCursor;
+          newerCursorsRef.current[roomId] = null;
+          setHasMoreMessages((prev) => ({ ...prev, [roomId]: page.hasMore }));
+          setHasNewerMessages((prev) => ({ ...prev, [roomId]: false }));
+          setMessages((prev) => ({ ...prev, [roomId]: page.items }));
+          // Sent messages are part of the latest page from now on
+          setOutgoingMessages((prev) =>
+            prev.filter(
+              (message) =>
+                message.roomId !== roomId || message.status !== 'sent'
+            )
+          );
+        } catch (error) {
+          console.error('Failed to load messages:', error);
+        } finally {
+          setIsLoadingMessages(false);
+        }
+        return;
+      }
+
+      const older = direction === 'older';
+      const cursors = older ? olderCursorsRef : newerCursorsRef;
+      const cursor = cursors.current[roomId];
+      const pageKey = `${roomId}:${direction}`;
+      if (!cursor || loadingPageRef.current === pageKey) {
+        return;
+      }
+
+      const setIsLoadingPage = older
+        ? setIsLoadingOlderMessages
+        : setIsLoadingNewerMessages;
+      loadingPageRef.current = pageKey;
+      setIsLoadingPage(true);
+      try {
+        const response = await messagesApi.getMessages(roomId, {
+          limit: MESSAGES_PAGE_SIZE,
+          ...(older ? { before: cursor } : { after: cursor }),
+        });
+        const page = response.data;
+
+        cursors.current[roomId] = page.nextCursor;
+        (older ? setHasMoreMessages : setHasNewerMessages)((prev) => ({
+          ...prev,
+          [roomId]: page.hasMore,
+        }));
+        setMessages((prev) => {
+          const loaded = prev[roomId] || [];
+          const knownIds = new Set(loaded.map((message) => message.id));
+          const items = page.items.filter(
+            (message) => !knownIds.has(message.id)
+          );
+          return {
+            ...prev,
+            [roomId]: older ? [...items, ...loaded] : [...loaded, ...items],
+          };
+        });
+      } catch (error) {
+        console.error('Failed to load messages:', error);
+      } finally {
+        loadingPageRef.current = null;
+        setIsLoadingPage(false);
+      }
+    },
+    []
+  );
+
+  const loadMessagesAround = useCallback(
+    async (message: Message, cursor: string) => {
+      const { roomId } = message;
+      const limit = MESSAGES_PAGE_SIZE / 2;
+
+      setIsLoadingMessages(true);
+      try {
+        const [olderResponse, newerResponse] = await Promise.all([
+          messagesApi.getMessages(roomId, { limit, before: cursor }),
+          messagesApi.getMessages(roomId, { limit, after: cursor }),
+        ]);
+        const olderPage = olderResponse.data;
+        const newerPage = newerResponse.data;
+
+        olderCursorsRef.current[roomId] = olderPage.nextCursor;
+        newerCursorsRef.current[roomId] = newerPage.nextCursor;
+        setHasMoreMessages((prev) => ({
+          ...prev,
+          [roomId]: olderPage.hasMore,
+        }));
+        setHasNewerMessages((prev) => ({
+          ...prev,
+          [roomId]: newerPage.hasMore,
+        }));
+        setMessages((prev) => ({
+          ...prev,
+          [roomId]: [...olderPage.items, message, ...newerPage.items],
+        }));
+      } finally {
+        setIsLoadingMessages(false);
+      }
+    },
+    []
+  );
+
+  const loadPins = useCallback(async (roomId: string) => {
     try {
-      const response = await messagesApi.getMessages(roomId, { limit: 50 });
-      setMessages((prev) => ({ ...prev, [roomId]: response.data }));
+      const response = await messagesApi.getRoomPins(roomId);
+      setPins((prev) => ({ ...prev, [roomId]: response.data }));
     } catch (error) {
-      console.error('Failed to load messages:', error);
-    } finally {
-      setIsLoadingMessages(false);
+      console.error('Failed to load pinned messages:', error);
     }
   }, []);
 
-  const createRoom = useCallback(async (memberId: string): Promise<Room> => {
-    const response = await messagesApi.createDirectRoom({
-      targetUserId: memberId,
-    });
-    const newRoom = response.data;
-    setRooms((prev) => [...prev, newRoom]);
-    return newRoom;
-  }, []);
+  const createRoom = useCallback(
+    async (memberIds: string[], group?: GroupRoomDetails): Promise<Room> => {
+      const response = group
+        ? await messagesApi.createGroupRoom({ ...group, memberIds })
+        : await messagesApi.createDirectRoom({ targetUserId: memberIds[0] });
+      const newRoom = response.data;
+      setRooms((prev) =>
+        prev.some((room) => room.id === newRoom.id) ? prev : [...prev, newRoom]
+      );
+      return newRoom;
+    },
+    []
+  );
+
+  const updateOutgoingMessage = useCallback(
+    (clientMessageId: string, changes: Partial<OutgoingMessage>) => {
+      setOutgoingMessages((prev) =>
+        prev.map((message) =>
+          message.clientMessageId === clientMessageId
+            ? { ...message, ...changes }
+            : message
+        )
+      );
+    },
+    []
+  );
+
+  // Sends a message of the outbox, which keeps it until it is acknowledged
+  const deliverMessage = useCallback(
+    async (entry: OutboxEntry) => {
+      const { clientMessageId } = entry;
+      if (deliveringRef.current.has(clientMessageId)) {
+        return;
+      }
+
+      deliveringRef.current.add(clientMessageId);
+      try {
+        const messageId = await socketSendMessage(
+          entry.content,
+          entry.roomId,
+          'text',
+          clientMessageId
+        );
+        updateOutgoingMessage(clientMessageId, { status: 'sent', messageId });
+        await messageOutbox.remove(clientMessageId).catch((error) => {
+          console.error('Failed to remove message from outbox:', error);
+        });
+      } catch (error) {
+        // Still pending, the message is sent again on reconnection
+        if (error instanceof NotConnectedError || !isConnectedRef.current) {
+          return;
+        }
+
+        updateOutgoingMessage(clientMessageId, { status: 'failed' });
+        await messageOutbox
+          .save({ ...entry, status: 'failed' })
+          .catch(() => undefined);
+        throw error;
+      } finally {
+        deliveringRef.current.delete(clientMessageId);
+      }
+    },
+    [socketSendMessage, updateOutgoingMessage]
+  );
 
   const sendMessage = useCallback(
     async (content: string) => {
-      if (!currentRoom) {
+      if (!currentRoom || !userId) {
         throw new Error('No room selected');
       }
 
+      const entry: OutboxEntry = {
+        clientMessageId: generateClientMessageId(),
+        userId,
+        roomId: currentRoom.id,
+        content,
+        createdAt: new Date().toISOString(),
+        status: 'pending',
+      };
+      setOutgoingMessages((prev) => [...prev, entry]);
+
       try {
-        await socketSendMessage(content, currentRoom.id);
+        await messageOutbox.save(entry).catch((error) => {
+          console.error('Failed to save message in outbox:', error);
+        });
+        await deliverMessage(entry);
       } catch (error) {
         console.error('Failed to send message:', error);
         throw error;
       }
     },
-    [currentRoom, socketSendMessage]
+    [currentRoom, userId, deliverMessage]
   );
 
+  const retryMessage = useCallback(
+    async (clientMessageId: string) => {
+      const message = outgoingMessages.find(
+        (outgoing) => outgoing.clientMessageId === clientMessageId
+      );
+      if (!message || message.status !== 'failed') {
+        return;
+      }
+
+      const entry = toOutboxEntry(message, 'pending');
+      updateOutgoingMessage(clientMessageId, { status: 'pending' });
+
+      try {
+        await messageOutbox.save(entry).catch(() => undefined);
+        await deliverMessage(entry);
+      } catch (error) {
+        console.error('Failed to send message:', error);
+        throw error;
+      }
+    },
+    [outgoingMessages, updateOutgoingMessage, deliverMessage]
+  );
+
+  const discardMessage = useCallback(async (clientMessageId: string) => {
+    // Left in the outbox it would be sent again on reconnection, so it stays
+    // shown as failed until it is removed from there
+    try {
+      await messageOutbox.remove(clientMessageId);
+    } catch (error) {
+      console.error('Failed to discard message:', error);
+      throw error;
+    }
+
+    setOutgoingMessages((prev) =>
+      prev.filter((message) => message.clientMessageId !== clientMessageId)
+    );
+  }, []);
+
+  const sendAttachment = useCallback(
+    async (file: File, caption?: string) => {
+      if (!currentRoom) {
+        throw new Error('No room selected');
+      }
+
+      // The message comes back through the newMessage broadcast
+      try {
+        await messagesApi.uploadAttachment({
+          roomId: currentRoom.id,
+          file,
+          content: caption,
+        });
+      } catch (error) {
+        console.error('Failed to send attachment:', error);
+        throw error;
+      }
+    },
+    [currentRoom]
+  );
+
+  const openThread = useCallback(async (message: Message) => {
+    setActiveThread({ parent: message, replies: [], hasMore: false });
+    setIsLoadingThread(true);
+    try {
+      const response = await messagesApi.getThread(message.id, { limit: 50 });
+      setActiveThread((prev) =>
+        prev?.parent.id === message.id ? response.data : prev
+      );
+    } catch (error) {
+      console.error('Failed to load thread:', error);
+    } finally {
+      setIsLoadingThread(false);
+    }
+  }, []);
+
+  const loadMoreThreadReplies = useCallback(async () => {
+    if (!activeThread?.hasMore) {
+      return;
+    }
+
+    const parentId = activeThread.parent.id;
+    setIsLoadingThread(true);
+    try {
+      const response = await messagesApi.getThread(parentId, {
+        limit: 50,
+        offset: activeThread.replies.length,
+      });
+      setActiveThread((prev) => {
+        if (!prev || prev.parent.id !== parentId) {
+          return prev;
+        }
+
+        const knownIds = new Set(prev.replies.map((reply) => reply.id));
+        return {
+          ...prev,
+          replies: [
+            ...prev.replies,
+            ...response.data.replies.filter((reply) => !knownIds.has(reply.id)),
+          ],
+          hasMore: response.data.hasMore,
+        };
+      });
+    } catch (error) {
+      console.error('Failed to load thread replies:', error);
+    } finally {
+      setIsLoadingThread(false);
+    }
+  }, [activeThread]);
+
+  const closeThread = useCallback(() => {
+    setActiveThread(null);
+  }, []);
+
+  const sendThreadReply = useCallback(
+    async (content: string) => {
+      if (!activeThread) {
+        throw new Error('No thread opened');
+      }
+
+      try {
+        await socketSendThreadReply(
+          content,
+          activeThread.parent.roomId,
+          activeThread.parent.id
+        );
+      } catch (error) {
+        console.error('Failed to send reply:', error);
+        throw error;
+      }
+    },
+    [activeThread, socketSendThreadReply]
+  );
+
+  const editMessage = useCallback(
+    async (messageId: string, content: string) => {
+      try {
+        await socketEditMessage(messageId, content);
+      } catch (error) {
+        console.error('Failed to edit message:', error);
+        throw error;
+      }
+    },
+    [socketEditMessage]
+  );
+
+  const deleteMessage = useCallback(
+    async (messageId: string) => {
+      try {
+        await socketDeleteMessage(messageId);
+      } catch (error) {
+        console.error('Failed to delete message:', error);
+        throw error;
+      }
+    },
+    [socketDeleteMessage]
+  );
+
+  const addReaction = useCallback(
+    async (messageId: string, emoji: string) => {
+      try {
+        await socketAddReaction(messageId, emoji);
+      } catch (error) {
+        console.error('Failed to add reaction:', error);
+        throw error;
+      }
+    },
+    [socketAddReaction]
+  );
+
+  const removeReaction = useCallback(
+    async (messageId: string, emoji: string) => {
+      try {
+        await socketRemoveReaction(messageId, emoji);
+      } catch (error) {
+        console.error('Failed to remove reaction:', error);
+        throw error;
+      }
+    },
+    [socketRemoveReaction]
+  );
+
+  const pinMessage = useCallback(
+    async (messageId: string) => {
+      try {
+        await socketPinMessage(messageId);
+      } catch (error) {
+        console.error('Failed to pin message:', error);
+        throw error;
+      }
+    },
+    [socketPinMessage]
+  );
+
+  const unpinMessage = useCallback(
+    async (messageId: string) => {
+      try {
+        await socketUnpinMessage(messageId);
+      } catch (error) {
+        console.error('Failed to unpin message:', error);
+        throw error;
+      }
+    },
+    [socketUnpinMessage]
+  );
+
+  useEffect(() => {
+    isConnectedRef.current = isConnected;
+  }, [isConnected]);
+
+  // Restores the messages left unsent by a previous session
+  useEffect(() => {
+    setOutgoingMessages([]);
+    if (!userId) {
+      return;
+    }
+
+    let isCancelled = false;
+    messageOutbox
+      .list(userId)
+      .then((entries) => {
+        if (!isCancelled) {
+          setOutgoingMessages((prev) => [
+            ...entries.filter(
+              (entry) =>
+                !prev.some(
+                  (message) => message.clientMessageId === entry.clientMessageId
+                )
+            ),
+            ...prev,
+          ]);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load outbox:', error);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [userId]);
+
+  // Sends the messages written while offline, in the order they were written
+  useEffect(() => {
+    if (!isConnected || !userId) {
+      return;
+    }
+
+    const replayOutbox = async () => {
+      const entries = await messageOutbox.list(userId);
+      for (const entry of entries) {
+        if (entry.status === 'pending' && isConnectedRef.current) {
+          await deliverMessage(entry).catch(() => undefined);
+        }
+      }
+    };
+
+    replayOutbox().catch((error) => {
+      console.error('Failed to replay outbox:', error);
+    });
+  }, [isConnected, userId, deliverMessage]);
+
+  // Applies the changes missed while the socket was disconnected
+  const applySync = useCallback(
+    (sync: MessageSync) => {
+      const removedRoomIds = new Set(sync.removedRoomIds);
+      const topLevel = sync.messages.filter(
+        (message) => !message.parentMessageId
+      );
+      const replies = sync.messages.filter(
+        (message) => message.parentMessageId
+      );
+      const replaceChanged = (message: Message): Message =>
+        sync.messages.find((changed) => changed.id === message.id) ?? message;
+
+      const sentIds = new Set(
+        sync.messages
+          .filter((message) => message.senderId === userId)
+          .map((message) => message.clientMessageId)
+      );
+      setOutgoingMessages((prev) =>
+        prev.filter((message) => !sentIds.has(message.clientMessageId))
+      );
+
+      setMessages((prev) => {
+        const next: Record<string, Message[]> = {};
+        for (const [roomId, roomMessages] of Object.entries(prev)) {
+          if (!removedRoomIds.has(roomId)) {
+            next[roomId] = roomMessages.map(replaceChanged);
+          }
+        }
+
+        for (const message of topLevel) {
+          const roomMessages = next[message.roomId];
+          // Rooms never opened are loaded on opening, and rooms loaded
+          // around an older message get the new ones with the next pages
+          if (
+            !roomMessages ||
+            newerCursorsRef.current[message.roomId] ||
+            roomMessages.some((loaded) => loaded.id === message.id)
+          ) {
+            continue;
+          }
+          next[message.roomId] = insertMessage(roomMessages, message);
+        }
+        return next;
+      });
+
+      setActiveThread((prev) => {
+        if (!prev || removedRoomIds.has(prev.parent.roomId)) {
+          return null;
+        }
+
+        const newReplies = replies.filter(
+          (reply) =>
+            reply.parentMessageId === prev.parent.id &&
+            !prev.replies.some((loaded) => loaded.id === reply.id)
+        );
+        return {
+          ...prev,
+          parent: replaceChanged(prev.parent),
+          replies: prev.hasMore
+            ? prev.replies.map(replaceChanged)
+            : newReplies.reduce(
+                insertMessage,
+                prev.replies.map(replaceChanged)
+              ),
+        };
+      });
+
+      const applyRoomChanges = (room: Room): Room => {
+        const changed = sync.rooms.find((synced) => synced.id === room.id);
+        const lastMessage = topLevel
+          .filter((message) => message.roomId === room.id)
+          .reduce<Message | undefined>(
+            (latest, message) =>
+              !latest || message.createdAt >= latest.createdAt
+                ? message
+                : latest,
+            room.lastMessage && replaceChanged(room.lastMessage)
+          );
+        return { ...room, ...changed, lastMessage };
+      };
+
+      setRooms((prev) => [
+        ...prev
+          .filter((room) => !removedRoomIds.has(room.id))
+          .map(applyRoomChanges),
+        ...sync.rooms
+          .filter((synced) => !prev.some((room) => room.id === synced.id))
+          .map(applyRoomChanges),
+      ]);
+      setCurrentRoom((prev) => {
+        if (!prev || removedRoomIds.has(prev.id)) {
+          return null;
+        }
+        return sync.rooms.some((synced) => synced.id === prev.id)
+          ? applyRoomChanges(prev)
+          : prev;
+      });
+    },
+    [userId]
+  );
+
+  // Catches up on the messages and rooms changed while disconnected
+  useEffect(() => {
+    if (!isConnected || !userId) {
+      return;
+    }
+
+    let isCancelled = false;
+    messagesApi
+      .syncMessages({ since: syncedAtRef.current })
+      .then(async ({ data }) => {
+        if (isCancelled) {
+          return;
+        }
+
+        syncedAtRef.current = data.syncedAt;
+        const roomId = currentRoomIdRef.current;
+        if (!data.hasMore) {
+          applySync(data);
+          // Pins changed with the room, only the pinned IDs are synced
+          if (roomId && data.rooms.some((room) => room.id === roomId)) {
+            await loadPins(roomId);
+          }
+          return;
+        }
+
+        // Too much was missed, reloading is simpler than catching up
+        await loadRooms();
+        if (roomId) {
+          await Promise.all([loadMessages(roomId), loadPins(roomId)]);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to sync messages:', error);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isConnected, userId, applySync, loadRooms, loadMessages, loadPins]);
+
+  useEffect(() => {
+    currentRoomIdRef.current = currentRoom?.id ?? null;
+    setActiveThread((prev) =>
+      prev && prev.parent.roomId !== currentRoom?.id ? null : prev
+    );
+  }, [currentRoom]);
+
+  const currentRoomId = currentRoom?.id;
+
+  useEffect(() => {
+    if (currentRoomId) {
+      loadPins(currentRoomId);
+    }
+  }, [currentRoomId, loadPins]);
+
+  const currentRoomMessages = currentRoom
+    ? messages[currentRoom.id]
+    : undefined;
+  const latestMessageId =
+    currentRoomMessages?.[currentRoomMessages.length - 1]?.id;
+
+  useEffect(() => {
+    if (!currentRoom || !latestMessageId || !user) {
+      return;
+    }
+
+    const member = currentRoom.members.find((m) => m.userId === user.id);
+    if (
+      member?.lastReadMessageId === latestMessageId ||
+      lastMarkedReadRef.current === latestMessageId
+    ) {
+      return;
+    }
+
+    lastMarkedReadRef.current = latestMessageId;
+    setRooms((prev) =>
+      prev.map((room) =>
+        room.id === currentRoom.id ? { ...room, unreadCount: 0 } : room
+      )
+    );
+    socketMarkRead(currentRoom.id, latestMessageId).catch((error) => {
+      console.error('Failed to mark room as read:', error);
+    });
+  }, [currentRoom, latestMessageId, user, socketMarkRead]);
+
   useEffect(() => {
     const handleNewMessage = (data: WsNewMessageData) => {
+      const { clientMessageId } = data;
+      // The server message replaces the one shown while it was sent
+      if (clientMessageId && data.senderId === userId) {
+        setOutgoingMessages((prev) =>
+          prev.filter((message) => message.clientMessageId !== clientMessageId)
+        );
+      }
+
       setMessages((prev) => {
         const roomMessages = prev[data.roomId] || [];
-        if (roomMessages.some((msg) => msg.id === data.id)) {
+        // Loaded around an older message: the new one will come
+        // with the next pages instead of leaving a gap
+        if (
+          newerCursorsRef.current[data.roomId] ||
+          roomMessages.some((msg) => msg.id === data.id)
+        ) {
           return prev;
         }
 
@@ -102,10 +911,19 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
         };
       });
 
+      const isUnread =
+        data.roomId !== currentRoomIdRef.current && data.senderId !== userId;
+
       setRooms((prev) =>
         prev.map((room) => {
           if (room.id === data.roomId) {
-            return { ...room, lastMessage: data as Message };
+            return {
+              ...room,
+              lastMessage: data as Message,
+              unreadCount: isUnread
+                ? (room.unreadCount || 0) + 1
+                : room.unreadCount,
+            };
           }
           return room;
         })
@@ -117,19 +935,378 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     return () => {
       offNewMessage(handleNewMessage);
     };
-  }, [onNewMessage, offNewMessage]);
+  }, [onNewMessage, offNewMessage, userId]);
+
+  useEffect(() => {
+    const handleMessagesRead = (data: WsMessagesReadData) => {
+      const applyReceipt = (room: Room): Room => {
+        if (room.id !== data.roomId) {
+          return room;
+        }
+
+        return {
+          ...room,
+          unreadCount: data.userId === user?.id ? 0 : room.unreadCount,
+          members: room.members.map((member) =>
+            member.userId === data.userId
+              ? {
+                  ...member,
+                  lastReadMessageId: data.lastReadMessageId,
+                  lastReadAt: data.lastReadAt,
+                }
+              : member
+          ),
+        };
+      };
+
+      setRooms((prev) => prev.map(applyReceipt));
+      setCurrentRoom((prev) => (prev ? applyReceipt(prev) : prev));
+    };
+
+    onMessagesRead(handleMessagesRead);
+
+    return () => {
+      offMessagesRead(handleMessagesRead);
+    };
+  }, [onMessagesRead, offMessagesRead, user?.id]);
+
+  useEffect(() => {
+    const bumpParent = (parent: Message, reply: Message): Message => ({
+      ...parent,
+      threadReplyCount: (parent.threadReplyCount || 0) + 1,
+      threadLastReplyAt: reply.createdAt,
+    });
+
+    const handleNewThreadReply = (data: WsNewThreadReplyData) => {
+      const reply = data as Message;
+
+      setMessages((prev) => {
+        const roomMessages = prev[data.roomId];
+        if (!roomMessages) {
+          return prev;
+        }
+
+        return {
+          ...prev,
+          [data.roomId]: roomMessages.map((msg) =>
+            msg.id === data.parentMessageId ? bumpParent(msg, reply) : msg
+          ),
+        };
+      });
+
+      setActiveThread((prev) => {
+        if (
+          !prev ||
+          prev.parent.id !== data.parentMessageId ||
+          prev.replies.some((msg) => msg.id === data.id)
+        ) {
+          return prev;
+        }
+
+        return {
+          ...prev,
+          parent: bumpParent(prev.parent, reply),
+          replies: prev.hasMore ? prev.replies : [...prev.replies, reply],
+        };
+      });
+    };
+
+    onNewThreadReply(handleNewThreadReply);
+
+    return () => {
+      offNewThreadReply(handleNewThreadReply);
+    };
+  }, [onNewThreadReply, offNewThreadReply]);
+
+  const removePin = useCallback((roomId: string, messageId: string) => {
+    setPins((prev) => {
+      const roomPins = prev[roomId];
+      if (!roomPins?.some((pin) => pin.messageId === messageId)) {
+        return prev;
+      }
+
+      return {
+        ...prev,
+        [roomId]: roomPins.filter((pin) => pin.messageId !== messageId),
+      };
+    });
+  }, []);
+
+  useEffect(() => {
+    const handleMessageUpdated = (data: WsMessageUpdatedData) => {
+      const applyEdit = (msg: Message): Message =>
+        msg.id === data.id
+          ? {
+              ...msg,
+              content: data.content,
+              isEdited: data.isEdited,
+              editedAt: data.editedAt,
+            }
+          : msg;
+
+      setMessages((prev) => {
+        const roomMessages = prev[data.roomId];
+        if (!roomMessages) {
+          return prev;
+        }
+
+        return { ...prev, [data.roomId]: roomMessages.map(applyEdit) };
+      });
+
+      setActiveThread((prev) =>
+        prev
+          ? {
+              ...prev,
+              parent: applyEdit(prev.parent),
+              replies: prev.replies.map(applyEdit),
+            }
+          : prev
+      );
+
+      setRooms((prev) =>
+        prev.map((room) =>
+          room.lastMessage?.id === data.id
+            ? { ...room, lastMessage: applyEdit(room.lastMessage) }
+            : room
+        )
+      );
+
+      setPins((prev) => {
+        const roomPins = prev[data.roomId];
+        if (!roomPins) {
+          return prev;
+        }
+
+        return {
+          ...prev,
+          [data.roomId]: roomPins.map((pin) => ({
+            ...pin,
+            message: applyEdit(pin.message),
+          })),
+        };
+      });
+    };
+
+    const handleMessageDeleted = (data: WsMessageDeletedData) => {
+      const applyDeletion = (msg: Message): Message => {
+        if (msg.id === data.messageId) {
+          return {
+            ...msg,
+            content: '',
+            reactions: [],
+            isDeleted: true,
+            deletedAt: data.deletedAt,
+          };
+        }
+
+        if (msg.id === data.parentMessageId) {
+          return {
+            ...msg,
+            threadReplyCount: Math.max((msg.threadReplyCount || 0) - 1, 0),
+          };
+        }
+
+        return msg;
+      };
+
+      setMessages((prev) => {
+        const roomMessages = prev[data.roomId];
+        if (!roomMessages) {
+          return prev;
+        }
+
+        return { ...prev, [data.roomId]: roomMessages.map(applyDeletion) };
+      });
+
+      setActiveThread((prev) => {
+        if (!prev) {
+          return prev;
+        }
+
+        return {
+          ...prev,
+          parent: applyDeletion(prev.parent),
+          replies: prev.replies.filter((reply) => reply.id !== data.messageId),
+        };
+      });
+
+      setRooms((prev) =>
+        prev.map((room) =>
+          room.lastMessage?.id === data.messageId
+            ? { ...room, lastMessage: applyDeletion(room.lastMessage) }
+            : room
+        )
+      );
+
+      // The server unpins deleted messages without broadcasting it
+      removePin(data.roomId, data.messageId);
+    };
+
+    onMessageUpdated(handleMessageUpdated);
+    onMessageDeleted(handleMessageDeleted);
+
+    return () => {
+      offMessageUpdated(handleMessageUpdated);
+      offMessageDeleted(handleMessageDeleted);
+    };
+  }, [
+    onMessageUpdated,
+    offMessageUpdated,
+    onMessageDeleted,
+    offMessageDeleted,
+    removePin,
+  ]);
+
+  useEffect(() => {
+    const handleMessageReactionUpdated = (
+      data: WsMessageReactionUpdatedData
+    ) => {
+      const applyReactions = (msg: Message): Message =>
+        msg.id === data.messageId ? { ...msg, reactions: data.reactions } : msg;
+
+      setMessages((prev) => {
+        const roomMessages = prev[data.roomId];
+        if (!roomMessages) {
+          return prev;
+        }
+
+        return { ...prev, [data.roomId]: roomMessages.map(applyReactions) };
+      });
+
+      setActiveThread((prev) =>
+        prev
+          ? {
+              ...prev,
+              parent: applyReactions(prev.parent),
+              replies: prev.replies.map(applyReactions),
+            }
+          : prev
+      );
+    };
+
+    onMessageReactionUpdated(handleMessageReactionUpdated);
+
+    return () => {
+      offMessageReactionUpdated(handleMessageReactionUpdated);
+    };
+  }, [onMessageReactionUpdated, offMessageReactionUpdated]);
+
+  useEffect(() => {
+    const handleMessagePinned = ({ roomId, ...pin }: WsMessagePinnedData) => {
+      setPins((prev) => {
+        const roomPins = prev[roomId];
+        // Rooms never opened get their pins on opening
+        if (!roomPins) {
+          return prev;
+        }
+
+        return {
+          ...prev,
+          [roomId]: [
+            pin,
+            ...roomPins.filter((loaded) => loaded.messageId !== pin.messageId),
+          ],
+        };
+      });
+    };
+
+    const handleMessageUnpinned = (data: WsMessageUnpinnedData) => {
+      removePin(data.roomId, data.messageId);
+    };
+
+    onMessagePinned(handleMessagePinned);
+    onMessageUnpinned(handleMessageUnpinned);
+
+    return () => {
+      offMessagePinned(handleMessagePinned);
+      offMessageUnpinned(handleMessageUnpinned);
+    };
+  }, [
+    onMessagePinned,
+    offMessagePinned,
+    onMessageUnpinned,
+    offMessageUnpinned,
+    removePin,
+  ]);
+
+  useEffect(() => {
+    // The preview and unread count are only known to this member
+    const handleRoomUpdated = ({ room }: WsRoomUpdatedData) => {
+      const applyUpdate = (prev: Room): Room =>
+        prev.id === room.id
+          ? {
+              ...prev,
+              ...room,
+              lastMessage: prev.lastMessage,
+              unreadCount: prev.unreadCount,
+            }
+          : prev;
+
+      setRooms((prev) => prev.map(applyUpdate));
+      setCurrentRoom((prev) => (prev ? applyUpdate(prev) : prev));
+    };
+
+    onRoomUpdated(handleRoomUpdated);
+
+    return () => {
+      offRoomUpdated(handleRoomUpdated);
+    };
+  }, [onRoomUpdated, offRoomUpdated]);
+
+  // Messages being sent are shown after the messages of their room
+  const chatMessages = useMemo(() => {
+    if (!user) {
+      return messages;
+    }
+
+    const merged: Record<string, ChatMessage[]> = { ...messages };
+    for (const outgoing of outgoingMessages) {
+      const roomMessages = merged[outgoing.roomId] || [];
+      const isLoaded = roomMessages.some(
+        (message) => message.clientMessageId === outgoing.clientMessageId
+      );
+      if (!isLoaded) {
+        merged[outgoing.roomId] = [
+          ...roomMessages,
+          toChatMessage(outgoing, user),
+        ];
+      }
+    }
+    return merged;
+  }, [messages, outgoingMessages, user]);
 
   const value: ChatContextType = {
     rooms,
     currentRoom,
-    messages,
+    messages: chatMessages,
     isLoadingRooms,
     isLoadingMessages,
+    hasMoreMessages,
+    isLoadingOlderMessages,
+    hasNewerMessages,
+    isLoadingNewerMessages,
+    activeThread,
+    isLoadingThread,
+    pins,
     setCurrentRoom,
     loadRooms,
     loadMessages,
+    loadMessagesAround,
     createRoom,
     sendMessage,
+    retryMessage,
+    discardMessage,
+    sendAttachment,
+    openThread,
+    loadMoreThreadReplies,
+    closeThread,
+    sendThreadReply,
+    editMessage,
+    deleteMessage,
+    addReaction,
+    removeReaction,
+    pinMessage,
+    unpinMessage,
   };
 
   return <ChatContext.Provider value={value}>{children}</ChatContext.Provider>;
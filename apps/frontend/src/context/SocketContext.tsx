@@ -2,6 +2,7 @@ import React, {
   createContext,
   useContext,
   useEffect,
+  useRef,
   useState,
   useCallback,
 } from 'react';
@@ -12,22 +13,48 @@ import {
   WsUserDisconnectedData,
   WsUserJoinedRoomData,
   WsUserLeftRoomData,
+  WsUserTypingData,
+  WsMessagesReadData,
   WsNewMessageData,
-  OnlineUser,
+  WsNewThreadReplyData,
+  WsMessageUpdatedData,
+  WsMessageDeletedData,
+  WsMessageReactionUpdatedData,
+  WsMessagePinnedData,
+  WsMessageUnpinnedData,
+  WsRoomUpdatedData,
+  WsPresenceUpdatedData,
+  WsSetStatusData,
+  UserPresence,
 } from '@shared-types';
 import { socketManager, TypedSocket } from '@/lib/socket';
 
 interface SocketContextType {
   socket: TypedSocket | null;
   isConnected: boolean;
-  onlineUsers: OnlineUser[];
+  onlineUsers: UserPresence[];
+  status: WsSetStatusData;
+  setStatus: (status: WsSetStatusData) => Promise<void>;
   joinRoom: (roomId: string) => Promise<void>;
   leaveRoom: (roomId: string) => Promise<void>;
   sendMessage: (
     content: string,
     roomId: string,
-    messageType?: 'text' | 'image'
+    messageType?: 'text' | 'image',
+    clientMessageId?: string
   ) => Promise<string>;
+  sendThreadReply: (
+    content: string,
+    roomId: string,
+    parentMessageId: string
+  ) => Promise<string>;
+  markRead: (roomId: string, messageId?: string) => Promise<void>;
+  editMessage: (messageId: string, content: string) => Promise<void>;
+  deleteMessage: (messageId: string) => Promise<void>;
+  addReaction: (messageId: string, emoji: string) => Promise<void>;
+  removeReaction: (messageId: string, emoji: string) => Promise<void>;
+  pinMessage: (messageId: string) => Promise<void>;
+  unpinMessage: (messageId: string) => Promise<void>;
   onUserConnected: (callback: (data: WsUserConnectedData) => void) => void;
   onUserDisconnected: (
     callback: (data: WsUserDisconnectedData) => void
@@ -35,6 +62,16 @@ interface SocketContextType {
   onUserJoinedRoom: (callback: (data: WsUserJoinedRoomData) => void) => void;
   onUserLeftRoom: (callback: (data: WsUserLeftRoomData) => void) => void;
   onNewMessage: (callback: (data: WsNewMessageData) => void) => void;
+  onNewThreadReply: (callback: (data: WsNewThreadReplyData) => void) => void;
+  onMessagesRead: (callback: (data: WsMessagesReadData) => void) => void;
+  onMessageUpdated: (callback: (data: WsMessageUpdatedData) => void) => void;
+  onMessageDeleted: (callback: (data: WsMessageDeletedData) => void) => void;
+  onMessageReactionUpdated: (
+    callback: (data: WsMessageReactionUpdatedData) => void
+  ) => void;
+  onMessagePinned: (callback: (data: WsMessagePinnedData) => void) => void;
+  onMessageUnpinned: (callback: (data: WsMessageUnpinnedData) => void) => void;
+  onRoomUpdated: (callback: (data: WsRoomUpdatedData) => void) => void;
   offUserConnected: (callback: (data: WsUserConnectedData) => void) => void;
   offUserDisconnected: (
     callback: (data: WsUserDisconnectedData) => void
@@ -42,30 +79,98 @@ interface SocketContextType {
   offUserJoinedRoom: (callback: (data: WsUserJoinedRoomData) => void) => void;
   offUserLeftRoom: (callback: (data: WsUserLeftRoomData) => void) => void;
   offNewMessage: (callback: (data: WsNewMessageData) => void) => void;
+  offNewThreadReply: (callback: (data: WsNewThreadReplyData) => void) => void;
+  offMessagesRead: (callback: (data: WsMessagesReadData) => void) => void;
+  offMessageUpdated: (callback: (data: WsMessageUpdatedData) => void) => void;
+  offMessageDeleted: (callback: (data: WsMessageDeletedData) => void) => void;
+  offMessageReactionUpdated: (
+    callback: (data: WsMessageReactionUpdatedData) => void
+  ) => void;
+  offMessagePinned: (callback: (data: WsMessagePinnedData) => void) => void;
+  offMessageUnpinned: (callback: (data: WsMessageUnpinnedData) => void) => void;
+  offRoomUpdated: (callback: (data: WsRoomUpdatedData) => void) => void;
 }
 
 const SocketContext = createContext<SocketContextType | undefined>(undefined);
 
+// Kept below the server expiry so the indicator does not blink while typing
+const TYPING_THROTTLE_MS = 2000;
+
+// The server away delay is expected to be longer than this interval
+const ACTIVITY_REPORT_INTERVAL_MS = 60000;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel'];
+
+const DEFAULT_STATUS: WsSetStatusData = { status: 'online' };
+
+// Kept per user so that another account on the browser starts online
+const statusStorageKey = (userId: string) => `presence_status:${userId}`;
+
+function loadStatus(userId: string): WsSetStatusData {
+  try {
+    const saved = localStorage.getItem(statusStorageKey(userId));
+    return saved ? JSON.parse(saved) : DEFAULT_STATUS;
+  } catch {
+    return DEFAULT_STATUS;
+  }
+}
+
+// Replaces the presence of a user, or adds it if they were not listed
+function upsertPresence(
+  onlineUsers: UserPresence[],
+  presence: UserPresence
+): UserPresence[] {
+  return [
+    ...onlineUsers.filter(({ userId }) => userId !== presence.userId),
+    presence,
+  ];
+}
+
 export function SocketProvider({ children }: { children: React.ReactNode }) {
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, user } = useAuth();
   const [socket, setSocket] = useState<TypedSocket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
-  const [onlineUsers, setOnlineUsers] = useState<OnlineUser[]>([]);
+  const [onlineUsers, setOnlineUsers] = useState<UserPresence[]>([]);
+  const [status, setStatusState] = useState<WsSetStatusData>(DEFAULT_STATUS);
+  const userId = user?.id;
 
   useEffect(() => {
-    if (isAuthenticated) {
-      const newSocket = socketManager.connect();
+    if (isAuthenticated && userId) {
+      const savedStatus = loadStatus(userId);
+      setStatusState(savedStatus);
+
+      const newSocket = socketManager.connect(savedStatus);
       if (newSocket) {
         setSocket(newSocket);
 
         newSocket.on('connect', () => {
           setIsConnected(true);
+          socketManager
+            .getOnlineUsers()
+            .then(setOnlineUsers)
+            .catch(() => undefined);
         });
 
         newSocket.on('disconnect', () => {
           setIsConnected(false);
           setOnlineUsers([]);
         });
+
+        newSocket.on('userConnected', (data: WsUserConnectedData) => {
+          setOnlineUsers((prev) =>
+            upsertPresence(prev, { userId: data.userId, status: data.status })
+          );
+        });
+
+        newSocket.on('userDisconnected', (data: WsUserDisconnectedData) => {
+          setOnlineUsers((prev) =>
+            prev.filter((presence) => presence.userId !== data.userId)
+          );
+        });
+
+        newSocket.on('presenceUpdated', (data: WsPresenceUpdatedData) => {
+          setOnlineUsers((prev) => upsertPresence(prev, data));
+        });
       }
     } else {
       socketManager.disconnect();
@@ -77,7 +182,58 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
     return () => {
       socketManager.disconnect();
     };
-  }, [isAuthenticated]);
+  }, [isAuthenticated, userId]);
+
+  // Reports how long the user has been inactive so the server can show
+  // them away, and reports right away when they come back
+  useEffect(() => {
+    if (!isConnected) {
+      return;
+    }
+
+    let lastActivity = Date.now();
+    let mayBeIdle = false;
+
+    const report = () => {
+      const idleSeconds = Math.floor((Date.now() - lastActivity) / 1000);
+      mayBeIdle = idleSeconds * 1000 >= ACTIVITY_REPORT_INTERVAL_MS;
+      socketManager.reportActivity(idleSeconds);
+    };
+
+    const handleActivity = () => {
+      lastActivity = Date.now();
+      if (mayBeIdle) {
+        report();
+      }
+    };
+
+    for (const event of ACTIVITY_EVENTS) {
+      window.addEventListener(event, handleActivity, { passive: true });
+    }
+    const interval = setInterval(report, ACTIVITY_REPORT_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      for (const event of ACTIVITY_EVENTS) {
+        window.removeEventListener(event, handleActivity);
+      }
+    };
+  }, [isConnected]);
+
+  const setStatus = useCallback(
+    async (newStatus: WsSetStatusData) => {
+      await socketManager.setStatus(newStatus);
+      setStatusState(newStatus);
+
+      if (userId) {
+        localStorage.setItem(
+          statusStorageKey(userId),
+          JSON.stringify(newStatus)
+        );
+      }
+    },
+    [userId]
+  );
 
   const joinRoom = useCallback(async (roomId: string) => {
     const result = await socketManager.joinRoom(roomId);
@@ -97,12 +253,14 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
     async (
       content: string,
       roomId: string,
-      messageType: 'text' | 'image' = 'text'
+      messageType: 'text' | 'image' = 'text',
+      clientMessageId?: string
     ) => {
       const result = await socketManager.sendMessage(
         content,
         roomId,
-        messageType
+        messageType,
+        clientMessageId
       );
       if (result.status !== 'sent') {
         throw new Error('Failed to send message');
@@ -112,6 +270,76 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
     []
   );
 
+  const sendThreadReply = useCallback(
+    async (content: string, roomId: string, parentMessageId: string) => {
+      const result = await socketManager.sendThreadReply(
+        content,
+        roomId,
+        parentMessageId
+      );
+      if (result.status !== 'sent') {
+        throw new Error('Failed to send reply');
+      }
+      return result.messageId;
+    },
+    []
+  );
+
+  const markRead = useCallback(async (roomId: string, messageId?: string) => {
+    const result = await socketManager.markRead(roomId, messageId);
+    if (result.status !== 'read') {
+      throw new Error('Failed to mark room as read');
+    }
+  }, []);
+
+  const editMessage = useCallback(
+    async (messageId: string, content: string) => {
+      const result = await socketManager.editMessage(messageId, content);
+      if (result.status !== 'updated') {
+        throw new Error('Failed to edit message');
+      }
+    },
+    []
+  );
+
+  const deleteMessage = useCallback(async (messageId: string) => {
+    const result = await socketManager.deleteMessage(messageId);
+    if (result.status !== 'deleted') {
+      throw new Error('Failed to delete message');
+    }
+  }, []);
+
+  const addReaction = useCallback(async (messageId: string, emoji: string) => {
+    const result = await socketManager.addReaction(messageId, emoji);
+    if (result.status !== 'updated') {
+      throw new Error('Failed to add reaction');
+    }
+  }, []);
+
+  const removeReaction = useCallback(
+    async (messageId: string, emoji: string) => {
+      const result = await socketManager.removeReaction(messageId, emoji);
+      if (result.status !== 'updated') {
+        throw new Error('Failed to remove reaction');
+      }
+    },
+    []
+  );
+
+  const pinMessage = useCallback(async (messageId: string) => {
+    const result = await socketManager.pinMessage(messageId);
+    if (result.status !== 'pinned') {
+      throw new Error('Failed to pin message');
+    }
+  }, []);
+
+  const unpinMessage = useCallback(async (messageId: string) => {
+    const result = await socketManager.unpinMessage(messageId);
+    if (result.status !== 'unpinned') {
+      throw new Error('Failed to unpin message');
+    }
+  }, []);
+
   const onUserConnected = useCallback(
     (callback: (data: WsUserConnectedData) => void) => {
       socket?.on('userConnected', callback);
@@ -147,6 +375,62 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
     [socket]
   );
 
+  const onNewThreadReply = useCallback(
+    (callback: (data: WsNewThreadReplyData) => void) => {
+      socket?.on('newThreadReply', callback);
+    },
+    [socket]
+  );
+
+  const onMessagesRead = useCallback(
+    (callback: (data: WsMessagesReadData) => void) => {
+      socket?.on('messagesRead', callback);
+    },
+    [socket]
+  );
+
+  const onMessageUpdated = useCallback(
+    (callback: (data: WsMessageUpdatedData) => void) => {
+      socket?.on('messageUpdated', callback);
+    },
+    [socket]
+  );
+
+  const onMessageDeleted = useCallback(
+    (callback: (data: WsMessageDeletedData) => void) => {
+      socket?.on('messageDeleted', callback);
+    },
+    [socket]
+  );
+
+  const onMessageReactionUpdated = useCallback(
+    (callback: (data: WsMessageReactionUpdatedData) => void) => {
+      socket?.on('messageReactionUpdated', callback);
+    },
+    [socket]
+  );
+
+  const onMessagePinned = useCallback(
+    (callback: (data: WsMessagePinnedData) => void) => {
+      socket?.on('messagePinned', callback);
+    },
+    [socket]
+  );
+
+  const onMessageUnpinned = useCallback(
+    (callback: (data: WsMessageUnpinnedData) => void) => {
+      socket?.on('messageUnpinned', callback);
+    },
+    [socket]
+  );
+
+  const onRoomUpdated = useCallback(
+    (callback: (data: WsRoomUpdatedData) => void) => {
+      socket?.on('roomUpdated', callback);
+    },
+    [socket]
+  );
+
   const offUserConnected = useCallback(
     (callback: (data: WsUserConnectedData) => void) => {
       socket?.off('userConnected', callback);
@@ -182,23 +466,105 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
     [socket]
   );
 
+  const offNewThreadReply = useCallback(
+    (callback: (data: WsNewThreadReplyData) => void) => {
+      socket?.off('newThreadReply', callback);
+    },
+    [socket]
+  );
+
+  const offMessagesRead = useCallback(
+    (callback: (data: WsMessagesReadData) => void) => {
+      socket?.off('messagesRead', callback);
+    },
+    [socket]
+  );
+
+  const offMessageUpdated = useCallback(
+    (callback: (data: WsMessageUpdatedData) => void) => {
+      socket?.off('messageUpdated', callback);
+    },
+    [socket]
+  );
+
+  const offMessageDeleted = useCallback(
+    (callback: (data: WsMessageDeletedData) => void) => {
+      socket?.off('messageDeleted', callback);
+    },
+    [socket]
+  );
+
+  const offMessageReactionUpdated = useCallback(
+    (callback: (data: WsMessageReactionUpdatedData) => void) => {
+      socket?.off('messageReactionUpdated', callback);
+    },
+    [socket]
+  );
+
+  const offMessagePinned = useCallback(
+    (callback: (data: WsMessagePinnedData) => void) => {
+      socket?.off('messagePinned', callback);
+    },
+    [socket]
+  );
+
+  const offMessageUnpinned = useCallback(
+    (callback: (data: WsMessageUnpinnedData) => void) => {
+      socket?.off('messageUnpinned', callback);
+    },
+    [socket]
+  );
+
+  const offRoomUpdated = useCallback(
+    (callback: (data: WsRoomUpdatedData) => void) => {
+      socket?.off('roomUpdated', callback);
+    },
+    [socket]
+  );
+
   const value: SocketContextType = {
     socket,
     isConnected,
     onlineUsers,
+    status,
+    setStatus,
     joinRoom,
     leaveRoom,
     sendMessage,
+    sendThreadReply,
+    markRead,
+    editMessage,
+    deleteMessage,
+    addReaction,
+    removeReaction,
+    pinMessage,
+    unpinMessage,
     onUserConnected,
     onUserDisconnected,
     onUserJoinedRoom,
     onUserLeftRoom,
     onNewMessage,
+    onNewThreadReply,
+    onMessagesRead,
+    onMessageUpdated,
+    onMessageDeleted,
+    onMessageReactionUpdated,
+    onMessagePinned,
+    onMessageUnpinned,
+    onRoomUpdated,
     offUserConnected,
     offUserDisconnected,
     offUserJoinedRoom,
     offUserLeftRoom,
     offNewMessage,
+    offNewThreadReply,
+    offMessagesRead,
+    offMessageUpdated,
+    offMessageDeleted,
+    offMessageReactionUpdated,
+    offMessagePinned,
+    offMessageUnpinned,
+    offRoomUpdated,
   };
 
   return (
@@ -213,3 +579,61 @@ export function useSocket() {
   }
   return context;
 }
+
+export function useTypingIndicator(roomId: string | null) {
+  const { socket } = useSocket();
+  const { user } = useAuth();
+  const [typingUsers, setTypingUsers] = useState<WsUserTypingData[]>([]);
+  const lastTypingStartRef = useRef(0);
+
+  useEffect(() => {
+    setTypingUsers([]);
+
+    if (!socket || !roomId) {
+      return;
+    }
+
+    const handleUserTyping = (data: WsUserTypingData) => {
+      if (data.roomId !== roomId || data.userId === user?.id) {
+        return;
+      }
+
+      setTypingUsers((prev) => {
+        const others = prev.filter((typing) => typing.userId !== data.userId);
+        return data.isTyping ? [...others, data] : others;
+      });
+    };
+
+    socket.on('userTyping', handleUserTyping);
+
+    return () => {
+      socket.off('userTyping', handleUserTyping);
+
+      if (lastTypingStartRef.current) {
+        lastTypingStartRef.current = 0;
+        socketManager.stopTyping(roomId);
+      }
+    };
+  }, [socket, roomId, user?.id]);
+
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (!roomId || now - lastTypingStartRef.current < TYPING_THROTTLE_MS) {
+      return;
+    }
+
+    lastTypingStartRef.current = now;
+    socketManager.startTyping(roomId);
+  }, [roomId]);
+
+  const stopTyping = useCallback(() => {
+    if (!roomId || !lastTypingStartRef.current) {
+      return;
+    }
+
+    lastTypingStartRef.current = 0;
+    socketManager.stopTyping(roomId);
+  }, [roomId]);
+
+  return { typingUsers, notifyTyping, stopTyping };
+}
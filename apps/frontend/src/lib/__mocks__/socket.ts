@@ -3,9 +3,20 @@ import { Socket } from 'socket.io-client';
 export interface ServerToClientEvents {
   userConnected: (data: any) => void;
   userDisconnected: (data: any) => void;
+  presenceUpdated: (data: any) => void;
   userJoinedRoom: (data: any) => void;
   userLeftRoom: (data: any) => void;
+  userTyping: (data: any) => void;
+  messagesRead: (data: any) => void;
   newMessage: (data: any) => void;
+  newThreadReply: (data: any) => void;
+  messageUpdated: (data: any) => void;
+  messageDeleted: (data: any) => void;
+  messageReactionUpdated: (data: any) => void;
+  messagePinned: (data: any) => void;
+  messageUnpinned: (data: any) => void;
+  roomUpdated: (data: any) => void;
+  exception: (data: any) => void;
 }
 
 export interface ClientToServerEvents {
@@ -18,17 +29,80 @@ export interface ClientToServerEvents {
     callback: (response: { status: string; roomId: string }) => void
   ) => void;
   sendMessage: (
+    data: any,
+    callback: (response: {
+      status: string;
+      messageId: string;
+      clientMessageId?: string;
+    }) => void
+  ) => void;
+  sendThreadReply: (
+    data: any,
+    callback: (response: { status: string; messageId: string }) => void
+  ) => void;
+  typingStart: (data: any) => void;
+  typingStop: (data: any) => void;
+  markRead: (
+    data: any,
+    callback: (response: { status: string; roomId: string }) => void
+  ) => void;
+  editMessage: (
+    data: any,
+    callback: (response: { status: string; messageId: string }) => void
+  ) => void;
+  deleteMessage: (
+    data: any,
+    callback: (response: { status: string; messageId: string }) => void
+  ) => void;
+  addReaction: (
+    data: any,
+    callback: (response: { status: string; messageId: string }) => void
+  ) => void;
+  removeReaction: (
     data: any,
     callback: (response: { status: string; messageId: string }) => void
   ) => void;
+  pinMessage: (
+    data: any,
+    callback: (response: { status: string; messageId: string }) => void
+  ) => void;
+  unpinMessage: (
+    data: any,
+    callback: (response: { status: string; messageId: string }) => void
+  ) => void;
+  getOnlineUsers: (
+    callback: (response: { onlineUsers: any[] }) => void
+  ) => void;
+  setStatus: (
+    data: any,
+    callback: (response: { status: string; presence: any }) => void
+  ) => void;
+  reportActivity: (data: any) => void;
 }
 
 export type TypedSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
+export class RateLimitError extends Error {
+  readonly retryAfterMs: number;
+
+  constructor(message: string, retryAfterMs: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class NotConnectedError extends Error {
+  constructor() {
+    super('Socket not connected');
+    this.name = 'NotConnectedError';
+  }
+}
+
 class MockSocketManager {
   private socket: any = null;
 
-  connect(): TypedSocket | null {
+  connect(status?: any): TypedSocket | null {
     this.socket = {
       connected: true,
       id: 'mock-socket-id',
@@ -64,10 +138,84 @@ class MockSocketManager {
   sendMessage(
     content: string,
     roomId: string,
+    messageType: 'text' | 'image' = 'text',
+    clientMessageId?: string
+  ): Promise<{ status: string; messageId: string }> {
+    return Promise.resolve({
+      status: 'sent',
+      messageId: 'mock-message-id',
+      clientMessageId,
+    });
+  }
+
+  sendThreadReply(
+    content: string,
+    roomId: string,
+    parentMessageId: string,
     messageType: 'text' | 'image' = 'text'
   ): Promise<{ status: string; messageId: string }> {
-    return Promise.resolve({ status: 'sent', messageId: 'mock-message-id' });
+    return Promise.resolve({ status: 'sent', messageId: 'mock-reply-id' });
   }
+
+  startTyping = jest.fn();
+
+  stopTyping = jest.fn();
+
+  markRead(
+    roomId: string,
+    messageId?: string
+  ): Promise<{ status: string; roomId: string }> {
+    return Promise.resolve({ status: 'read', roomId });
+  }
+
+  editMessage(
+    messageId: string,
+    content: string
+  ): Promise<{ status: string; messageId: string }> {
+    return Promise.resolve({ status: 'updated', messageId });
+  }
+
+  deleteMessage(
+    messageId: string
+  ): Promise<{ status: string; messageId: string }> {
+    return Promise.resolve({ status: 'deleted', messageId });
+  }
+
+  addReaction(
+    messageId: string,
+    emoji: string
+  ): Promise<{ status: string; messageId: string }> {
+    return Promise.resolve({ status: 'updated', messageId });
+  }
+
+  removeReaction(
+    messageId: string,
+    emoji: string
+  ): Promise<{ status: string; messageId: string }> {
+    return Promise.resolve({ status: 'updated', messageId });
+  }
+
+  pinMessage(
+    messageId: string
+  ): Promise<{ status: string; messageId: string }> {
+    return Promise.resolve({ status: 'pinned', messageId });
+  }
+
+  unpinMessage(
+    messageId: string
+  ): Promise<{ status: string; messageId: string }> {
+    return Promise.resolve({ status: 'unpinned', messageId });
+  }
+
+  getOnlineUsers(): Promise<any[]> {
+    return Promise.resolve([]);
+  }
+
+  setStatus(data: any): Promise<any> {
+    return Promise.resolve({ userId: 'mock-user-id', ...data });
+  }
+
+  reportActivity = jest.fn();
 }
 
 export const socketManager = new MockSocketManager();
\ No newline at end of file
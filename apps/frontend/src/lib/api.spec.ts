@@ -0,0 +1,120 @@
+const mockPost = jest.fn();
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: {
+    create: () => ({
+      interceptors: {
+        request: { use: jest.fn() },
+        response: { use: jest.fn() },
+      },
+    }),
+    post: mockPost,
+  },
+}));
+
+type ApiModule = typeof import('./api');
+
+// Each tab loads its own copy of the module, the storage is shared
+const openTab = (): ApiModule => {
+  let api!: ApiModule;
+  jest.isolateModules(() => {
+    api = jest.requireActual<ApiModule>('./api');
+  });
+  return api;
+};
+
+describe('refreshAccessToken', () => {
+  let validRefreshToken: string;
+  let rotations: number;
+
+  beforeAll(() => {
+    // Grants the lock to one holder at a time, like the browser does
+    const queues = new Map<string, Promise<unknown>>();
+    Object.defineProperty(navigator, 'locks', {
+      configurable: true,
+      value: {
+        request: (name: string, callback: () => Promise<unknown>) => {
+          const result = (queues.get(name) ?? Promise.resolve()).then(callback);
+          queues.set(
+            name,
+            result.catch(() => undefined)
+          );
+          return result;
+        },
+      },
+    });
+  });
+
+  afterAll(() => {
+    Reflect.deleteProperty(navigator, 'locks');
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem('auth_token', 'access-0');
+    localStorage.setItem('refresh_token', 'refresh-0');
+    validRefreshToken = 'refresh-0';
+    rotations = 0;
+
+    // Single-use refresh tokens, as on the server
+    mockPost.mockImplementation(
+      async (_url: string, { refreshToken }: { refreshToken: string }) => {
+        if (refreshToken !== validRefreshToken) {
+          throw new Error('Invalid refresh token');
+        }
+
+        rotations++;
+        validRefreshToken = `refresh-${rotations}`;
+        return {
+          data: {
+            accessToken: `access-${rotations}`,
+            refreshToken: validRefreshToken,
+          },
+        };
+      }
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should refresh once for the requests of a tab', async () => {
+    const tab = openTab();
+
+    const tokens = await Promise.all([
+      tab.refreshAccessToken(),
+      tab.refreshAccessToken(),
+    ]);
+
+    expect(tokens).toEqual(['access-1', 'access-1']);
+    expect(mockPost).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not reuse the refresh token rotated by another tab', async () => {
+    const firstTab = openTab();
+    const secondTab = openTab();
+
+    const tokens = await Promise.all([
+      firstTab.refreshAccessToken(),
+      secondTab.refreshAccessToken(),
+    ]);
+
+    expect(tokens).toEqual(['access-1', 'access-1']);
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(mockPost).toHaveBeenCalledWith(expect.any(String), {
+      refreshToken: 'refresh-0',
+    });
+    expect(localStorage.getItem('refresh_token')).toBe('refresh-1');
+  });
+
+  it('should reject when there is no refresh token', async () => {
+    localStorage.removeItem('refresh_token');
+
+    await expect(openTab().refreshAccessToken()).rejects.toThrow(
+      'No refresh token'
+    );
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+});
@@ -1,12 +1,29 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
 
 import {
   User,
   Room,
   Message,
+  MessagePage,
+  MessageSearchParams,
+  MessageSearchResults,
+  MessageSync,
+  MessageThread,
+  RoomPin,
   AuthResponse,
+  LoginResponse,
+  MfaEnrollment,
+  MfaRecoveryCodes,
+  OidcAuthorization,
+  OidcConfiguration,
+  RegisterResponse,
   LoginCredentials,
   RegisterCredentials,
+  CreateGroupRoomData,
+  Session,
+  UpdateProfileData,
+  ChangePasswordData,
+  ChangeEmailData,
 } from '@shared-types';
 
 const API_BASE_URL =
@@ -28,9 +45,29 @@ export const tokenUtils = {
     if (typeof window === 'undefined') return;
     localStorage.setItem('auth_token', token);
   },
+  getRefresh: (): string | null => {
+    if (typeof window === 'undefined') return null;
+    return localStorage.getItem('refresh_token');
+  },
+  setRefresh: (token: string): void => {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem('refresh_token', token);
+  },
   remove: (): void => {
     if (typeof window === 'undefined') return;
     localStorage.removeItem('auth_token');
+    localStorage.removeItem('refresh_token');
+  },
+  // Expiring within a minute counts as expired, covering the clock skew
+  // with the server and the time taken by the request using the token
+  isExpiring: (token: string): boolean => {
+    try {
+      const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+      const { exp } = JSON.parse(atob(payload)) as { exp?: number };
+      return typeof exp === 'number' && exp * 1000 - 60000 <= Date.now();
+    } catch {
+      return false;
+    }
   },
 };
 
@@ -45,10 +82,94 @@ axiosInstance.interceptors.request.use(
   (error) => Promise.reject(error)
 );
 
+// Requests whose 401 means bad credentials rather than an expired access token
+const NO_REFRESH_URLS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/mfa/verify',
+  '/auth/oidc/callback',
+];
+
+// Requests whose 401 is handled by the page that sent them
+const NO_REDIRECT_URLS = ['/auth/mfa/verify', '/auth/oidc/callback'];
+
+// Shared by the requests failing at the same time, the refresh token being
+// single-use: a second refresh with it would revoke the whole session
+let refreshPromise: Promise<string> | null = null;
+
+// The refresh token is shared by the tabs through the storage, they refresh
+// one at a time so that a tab waiting for another one does not reuse it
+const withRefreshLock = <T>(refresh: () => Promise<T>): Promise<T> =>
+  typeof navigator !== 'undefined' && navigator.locks
+    ? navigator.locks.request('auth-refresh', refresh)
+    : refresh();
+
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const previousRefreshToken = tokenUtils.getRefresh();
+
+    refreshPromise = withRefreshLock(() => {
+      const refreshToken = tokenUtils.getRefresh();
+      const accessToken = tokenUtils.get();
+
+      // Another tab rotated the tokens while this one waited for the lock
+      if (
+        refreshToken &&
+        refreshToken !== previousRefreshToken &&
+        accessToken
+      ) {
+        return Promise.resolve(accessToken);
+      }
+
+      return refreshToken
+        ? axios
+            .post<AuthResponse>(`${API_BASE_URL}/auth/refresh`, {
+              refreshToken,
+            })
+            .then(({ data }) => {
+              tokenUtils.set(data.accessToken);
+              tokenUtils.setRefresh(data.refreshToken);
+              return data.accessToken;
+            })
+        : Promise.reject(new Error('No refresh token'));
+    }).finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+};
+
 axiosInstance.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
+  async (error) => {
+    const originalRequest = error.config as
+      | (InternalAxiosRequestConfig & { _retry?: boolean })
+      | undefined;
+
+    // A rejected second factor code is typed again on the challenge page,
+    // a failed single sign-on is reported on the callback page
+    if (
+      error.response?.status === 401 &&
+      !NO_REDIRECT_URLS.includes(originalRequest?.url ?? '')
+    ) {
+      if (
+        originalRequest &&
+        !originalRequest._retry &&
+        !NO_REFRESH_URLS.includes(originalRequest.url ?? '')
+      ) {
+        originalRequest._retry = true;
+
+        try {
+          const accessToken = await refreshAccessToken();
+          originalRequest.headers.Authorization = `Bearer ${accessToken}`;
+          return axiosInstance(originalRequest);
+        } catch {
+          // The session cannot be renewed, back to the login page
+        }
+      }
+
       tokenUtils.remove();
       if (typeof window !== 'undefined') {
         window.location.href = '/login';
@@ -60,24 +181,117 @@ axiosInstance.interceptors.response.use(
 
 export const authApi = {
   login: (credentials: LoginCredentials) =>
-    axiosInstance.post<AuthResponse>('/auth/login', credentials),
+    axiosInstance.post<LoginResponse>('/auth/login', credentials),
+
+  verifyMfa: (mfaToken: string, code: string) =>
+    axiosInstance.post<AuthResponse>('/auth/mfa/verify', { mfaToken, code }),
+
+  enrollMfa: () => axiosInstance.post<MfaEnrollment>('/auth/mfa/enroll'),
+
+  confirmMfa: (code: string) =>
+    axiosInstance.post<MfaRecoveryCodes>('/auth/mfa/confirm', { code }),
+
+  disableMfa: (code: string) =>
+    axiosInstance.post('/auth/mfa/disable', { code }),
+
+  getOidcConfiguration: () =>
+    axiosInstance.get<OidcConfiguration>('/auth/oidc'),
+
+  authorizeOidc: () =>
+    axiosInstance.get<OidcAuthorization>('/auth/oidc/authorize'),
+
+  oidcCallback: (code: string, state: string, flowToken: string) =>
+    axiosInstance.post<LoginResponse>('/auth/oidc/callback', {
+      code,
+      state,
+      flowToken,
+    }),
 
   register: (credentials: RegisterCredentials) =>
-    axiosInstance.post<AuthResponse>('/auth/register', credentials),
+    axiosInstance.post<RegisterResponse>('/auth/register', credentials),
+
+  verifyEmail: (token: string) =>
+    axiosInstance.post('/auth/verify-email', { token }),
+
+  confirmEmail: (token: string) =>
+    axiosInstance.post('/auth/confirm-email', { token }),
 
-  logout: () => axiosInstance.post('/auth/logout'),
+  forgotPassword: (email: string) =>
+    axiosInstance.post('/auth/forgot-password', { email }),
+
+  resetPassword: (token: string, password: string) =>
+    axiosInstance.post('/auth/reset-password', { token, password }),
+
+  logout: (refreshToken?: string | null) =>
+    axiosInstance.post('/auth/logout', {
+      refreshToken: refreshToken ?? undefined,
+    }),
 
   profile: () => axiosInstance.get<User>('/auth/profile'),
+
+  getSessions: () => axiosInstance.get<Session[]>('/auth/sessions'),
+
+  revokeSession: (sessionId: string) =>
+    axiosInstance.delete(`/auth/sessions/${sessionId}`),
 };
 
 export const messagesApi = {
   getRooms: () => axiosInstance.get<Room[]>('/messages/rooms'),
 
-  getMessages: (roomId: string, params?: { limit?: number; offset?: number }) =>
-    axiosInstance.get<Message[]>(`/messages/room/${roomId}`, { params }),
+  getMessages: (
+    roomId: string,
+    params?: { limit?: number; before?: string; after?: string }
+  ) => axiosInstance.get<MessagePage>(`/messages/room/${roomId}`, { params }),
+
+  searchMessages: (params: MessageSearchParams) =>
+    axiosInstance.get<MessageSearchResults>('/messages/search', { params }),
+
+  syncMessages: (params: { since: string; limit?: number }) =>
+    axiosInstance.get<MessageSync>('/messages/sync', { params }),
+
+  getRoomPins: (roomId: string) =>
+    axiosInstance.get<RoomPin[]>(`/messages/rooms/${roomId}/pins`),
+
+  uploadAttachment: (data: {
+    roomId: string;
+    file: File;
+    content?: string;
+    parentMessageId?: string;
+  }) => {
+    const formData = new FormData();
+    formData.append('roomId', data.roomId);
+    if (data.content) {
+      formData.append('content', data.content);
+    }
+    if (data.parentMessageId) {
+      formData.append('parentMessageId', data.parentMessageId);
+    }
+    formData.append('file', data.file);
+
+    return axiosInstance.post<Message>('/messages/attachments', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+
+  getAttachment: (messageId: string, attachmentId: string) =>
+    axiosInstance.get<Blob>(
+      `/messages/${messageId}/attachments/${attachmentId}`,
+      { responseType: 'blob' }
+    ),
+
+  getThread: (
+    messageId: string,
+    params?: { limit?: number; offset?: number }
+  ) =>
+    axiosInstance.get<MessageThread>(`/messages/${messageId}/thread`, {
+      params,
+    }),
 
   createDirectRoom: (data: { targetUserId: string }) =>
     axiosInstance.post<Room>('/messages/rooms/direct', data),
+
+  createGroupRoom: (data: CreateGroupRoomData) =>
+    axiosInstance.post<Room>('/messages/rooms/group', data),
 };
 
 export const usersApi = {
@@ -85,6 +299,30 @@ export const usersApi = {
 
   getUser: (id: string) => axiosInstance.get<User>(`/users/${id}`),
 
-  updateUser: (id: string, data: Partial<User>) =>
-    axiosInstance.patch<User>(`/users/${id}`, data),
+  updateProfile: (data: UpdateProfileData) =>
+    axiosInstance.patch<User>('/users/me', data),
+
+  uploadAvatar: (file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    return axiosInstance.post<User>('/users/me/avatar', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+
+  removeAvatar: () => axiosInstance.delete<User>('/users/me/avatar'),
+
+  changePassword: (data: ChangePasswordData) =>
+    axiosInstance.patch('/users/me/password', data),
+
+  changeEmail: (data: ChangeEmailData) =>
+    axiosInstance.post('/users/me/email', data),
+
+  deleteAccount: (password: string) =>
+    axiosInstance.delete('/users/me', { data: { password } }),
 };
+
+// Avatar URLs are returned relative to the API, <img> needs them absolute
+export const getAvatarSrc = (avatarUrl?: string | null) =>
+  avatarUrl ? `${API_BASE_URL}${avatarUrl}` : undefined;
@@ -0,0 +1,64 @@
+import { OutboxEntry, generateClientMessageId, messageOutbox } from './outbox';
+
+describe('messageOutbox', () => {
+  const entry = (
+    clientMessageId: string,
+    overrides: Partial<OutboxEntry> = {}
+  ): OutboxEntry => ({
+    clientMessageId,
+    userId: 'user123',
+    roomId: 'room123',
+    content: 'Hello',
+    createdAt: '2024-01-01T10:00:00.000Z',
+    status: 'pending',
+    ...overrides,
+  });
+
+  afterEach(async () => {
+    for (const userId of ['user123', 'user456']) {
+      for (const { clientMessageId } of await messageOutbox.list(userId)) {
+        await messageOutbox.remove(clientMessageId);
+      }
+    }
+  });
+
+  it('should list the messages of a user in the order they were written', async () => {
+    await messageOutbox.save(
+      entry('second', { createdAt: '2024-01-01T10:00:02.000Z' })
+    );
+    await messageOutbox.save(
+      entry('first', { createdAt: '2024-01-01T10:00:01.000Z' })
+    );
+    await messageOutbox.save(entry('other', { userId: 'user456' }));
+
+    const entries = await messageOutbox.list('user123');
+
+    expect(entries.map(({ clientMessageId }) => clientMessageId)).toEqual([
+      'first',
+      'second',
+    ]);
+  });
+
+  it('should replace a message saved again', async () => {
+    await messageOutbox.save(entry('client-1'));
+    await messageOutbox.save(entry('client-1', { status: 'failed' }));
+
+    await expect(messageOutbox.list('user123')).resolves.toEqual([
+      entry('client-1', { status: 'failed' }),
+    ]);
+  });
+
+  it('should remove an acknowledged message', async () => {
+    await messageOutbox.save(entry('client-1'));
+
+    await messageOutbox.remove('client-1');
+
+    await expect(messageOutbox.list('user123')).resolves.toEqual([]);
+  });
+});
+
+describe('generateClientMessageId', () => {
+  it('should generate a different ID for every message', () => {
+    expect(generateClientMessageId()).not.toBe(generateClientMessageId());
+  });
+});
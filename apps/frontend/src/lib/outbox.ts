@@ -0,0 +1,128 @@
+const DB_NAME = 'chat-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'messages';
+const USER_INDEX = 'userId';
+
+/**
+ * Message written by the user and not acknowledged by the server yet
+ */
+export interface OutboxEntry {
+  /** ID generated by the client, sent with every attempt */
+  clientMessageId: string;
+  userId: string;
+  roomId: string;
+  content: string;
+  /** Date the message was written (ISO 8601 format) */
+  createdAt: string;
+  /** Pending messages are sent again on reconnection, failed ones on retry */
+  status: 'pending' | 'failed';
+}
+
+interface OutboxStorage {
+  list(userId: string): Promise<OutboxEntry[]>;
+  put(entry: OutboxEntry): Promise<void>;
+  delete(clientMessageId: string): Promise<void>;
+}
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+class IndexedDbStorage implements OutboxStorage {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, {
+          keyPath: 'clientMessageId',
+        });
+        store.createIndex(USER_INDEX, 'userId');
+      };
+      this.db = toPromise(request);
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async list(userId: string): Promise<OutboxEntry[]> {
+    const store = await this.store('readonly');
+    return toPromise<OutboxEntry[]>(store.index(USER_INDEX).getAll(userId));
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    const store = await this.store('readwrite');
+    await toPromise(store.put(entry));
+  }
+
+  async delete(clientMessageId: string): Promise<void> {
+    const store = await this.store('readwrite');
+    await toPromise(store.delete(clientMessageId));
+  }
+}
+
+// Used where IndexedDB is unavailable, messages are then lost on reload
+class MemoryStorage implements OutboxStorage {
+  private entries = new Map<string, OutboxEntry>();
+
+  async list(userId: string): Promise<OutboxEntry[]> {
+    return [...this.entries.values()].filter(
+      (entry) => entry.userId === userId
+    );
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.clientMessageId, entry);
+  }
+
+  async delete(clientMessageId: string): Promise<void> {
+    this.entries.delete(clientMessageId);
+  }
+}
+
+/**
+ * Generates the ID a message keeps across sending attempts.
+ * randomUUID is only available in secure contexts.
+ */
+export function generateClientMessageId(): string {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+}
+
+class MessageOutbox {
+  private storage: OutboxStorage =
+    typeof indexedDB === 'undefined'
+      ? new MemoryStorage()
+      : new IndexedDbStorage();
+
+  /**
+   * Lists the messages of a user in the order they were written
+   */
+  async list(userId: string): Promise<OutboxEntry[]> {
+    const entries = await this.storage.list(userId);
+    return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  save(entry: OutboxEntry): Promise<void> {
+    return this.storage.put(entry);
+  }
+
+  remove(clientMessageId: string): Promise<void> {
+    return this.storage.delete(clientMessageId);
+  }
+}
+
+export const messageOutbox = new MessageOutbox();
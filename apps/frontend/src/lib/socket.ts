@@ -3,22 +3,57 @@ import {
   WsJoinRoomData,
   WsLeaveRoomData,
   WsSendMessageData,
+  WsSendThreadReplyData,
   WsUserConnectedData,
   WsUserDisconnectedData,
   WsUserJoinedRoomData,
   WsUserLeftRoomData,
+  WsTypingData,
+  WsUserTypingData,
+  WsMarkReadData,
+  WsMessagesReadData,
   WsNewMessageData,
+  WsNewThreadReplyData,
+  WsEditMessageData,
+  WsDeleteMessageData,
+  WsMessageUpdatedData,
+  WsMessageDeletedData,
+  WsReactionData,
+  WsMessageReactionUpdatedData,
+  WsPinMessageData,
+  WsMessagePinnedData,
+  WsMessageUnpinnedData,
+  WsRoomUpdatedData,
+  WsSetStatusData,
+  WsReportActivityData,
+  WsPresenceUpdatedData,
+  WsExceptionData,
+  UserPresence,
 } from '@shared-types';
-import { tokenUtils } from './api';
+import { tokenUtils, refreshAccessToken } from './api';
 
 const WS_URL = import.meta.env.VITE_WS_URL || 'http://localhost:3333';
 
+// An event without acknowledgement after this delay has failed
+const SEND_ACK_TIMEOUT_MS = 10000;
+
 export interface ServerToClientEvents {
   userConnected: (data: WsUserConnectedData) => void;
   userDisconnected: (data: WsUserDisconnectedData) => void;
+  presenceUpdated: (data: WsPresenceUpdatedData) => void;
   userJoinedRoom: (data: WsUserJoinedRoomData) => void;
   userLeftRoom: (data: WsUserLeftRoomData) => void;
+  userTyping: (data: WsUserTypingData) => void;
+  messagesRead: (data: WsMessagesReadData) => void;
   newMessage: (data: WsNewMessageData) => void;
+  newThreadReply: (data: WsNewThreadReplyData) => void;
+  messageUpdated: (data: WsMessageUpdatedData) => void;
+  messageDeleted: (data: WsMessageDeletedData) => void;
+  messageReactionUpdated: (data: WsMessageReactionUpdatedData) => void;
+  messagePinned: (data: WsMessagePinnedData) => void;
+  messageUnpinned: (data: WsMessageUnpinnedData) => void;
+  roomUpdated: (data: WsRoomUpdatedData) => void;
+  exception: (data: WsExceptionData) => void;
 }
 
 export interface ClientToServerEvents {
@@ -32,19 +67,98 @@ export interface ClientToServerEvents {
   ) => void;
   sendMessage: (
     data: WsSendMessageData,
+    callback: (response: {
+      status: string;
+      messageId: string;
+      clientMessageId?: string;
+    }) => void
+  ) => void;
+  sendThreadReply: (
+    data: WsSendThreadReplyData,
+    callback: (response: { status: string; messageId: string }) => void
+  ) => void;
+  typingStart: (data: WsTypingData) => void;
+  typingStop: (data: WsTypingData) => void;
+  markRead: (
+    data: WsMarkReadData,
+    callback: (response: { status: string; roomId: string }) => void
+  ) => void;
+  editMessage: (
+    data: WsEditMessageData,
+    callback: (response: { status: string; messageId: string }) => void
+  ) => void;
+  deleteMessage: (
+    data: WsDeleteMessageData,
+    callback: (response: { status: string; messageId: string }) => void
+  ) => void;
+  addReaction: (
+    data: WsReactionData,
     callback: (response: { status: string; messageId: string }) => void
   ) => void;
+  removeReaction: (
+    data: WsReactionData,
+    callback: (response: { status: string; messageId: string }) => void
+  ) => void;
+  pinMessage: (
+    data: WsPinMessageData,
+    callback: (response: { status: string; messageId: string }) => void
+  ) => void;
+  unpinMessage: (
+    data: WsPinMessageData,
+    callback: (response: { status: string; messageId: string }) => void
+  ) => void;
+  getOnlineUsers: (
+    callback: (response: { onlineUsers: UserPresence[] }) => void
+  ) => void;
+  setStatus: (
+    data: WsSetStatusData,
+    callback: (response: { status: string; presence: UserPresence }) => void
+  ) => void;
+  reportActivity: (data: WsReportActivityData) => void;
 }
 
 export type TypedSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
+/**
+ * Rejection of an event sent faster than the server accepts
+ */
+export class RateLimitError extends Error {
+  readonly retryAfterMs: number;
+
+  constructor(message: string, retryAfterMs: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Rejection of an event emitted while the socket is disconnected
+ */
+export class NotConnectedError extends Error {
+  constructor() {
+    super('Socket not connected');
+    this.name = 'NotConnectedError';
+  }
+}
+
 class SocketManager {
   private socket: TypedSocket | null = null;
+  // Token the current connection was opened with
+  private authToken: string | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000; // 1 seconde
+  private status: WsSetStatusData = { status: 'online' };
+
+  /**
+   * @param status - Status chosen by the user, restored on every connection
+   */
+  connect(status?: WsSetStatusData): TypedSocket | null {
+    if (status) {
+      this.status = status;
+    }
 
-  connect(): TypedSocket | null {
     if (this.socket?.connected) {
       return this.socket;
     }
@@ -55,8 +169,20 @@ class SocketManager {
       return null;
     }
 
+    // Read on every (re)connection to pick up refreshed access tokens, an
+    // expired one being refreshed first since the server would refuse it
     this.socket = io(`${WS_URL}/chat`, {
-      auth: { token },
+      auth: (callback) => {
+        const currentToken = tokenUtils.get() ?? token;
+        const freshToken = tokenUtils.isExpiring(currentToken)
+          ? refreshAccessToken().catch(() => currentToken)
+          : Promise.resolve(currentToken);
+
+        void freshToken.then((authToken) => {
+          this.authToken = authToken;
+          callback({ token: authToken, status: this.status.status });
+        });
+      },
       reconnection: true,
       reconnectionAttempts: this.maxReconnectAttempts,
       reconnectionDelay: this.reconnectDelay,
@@ -74,13 +200,18 @@ class SocketManager {
     this.socket.on('connect', () => {
       console.log('Socket connected:', this.socket?.id);
       this.reconnectAttempts = 0;
+
+      // The handshake only carries the status, the text is set afterwards
+      if (this.status.customStatus || this.status.statusEmoji) {
+        this.socket?.emit('setStatus', this.status, () => undefined);
+      }
     });
 
     this.socket.on('disconnect', (reason) => {
       console.log('Socket disconnected:', reason);
 
       if (reason === 'io server disconnect') {
-        this.disconnect();
+        this.handleServerDisconnect();
       }
     });
 
@@ -95,11 +226,45 @@ class SocketManager {
     });
   }
 
+  /**
+   * Reconnects with a refreshed token when the server closed the connection
+   * because the access token expired, and gives up on any other reason
+   */
+  private handleServerDisconnect() {
+    if (!this.authToken || !tokenUtils.isExpiring(this.authToken)) {
+      this.disconnect();
+      return;
+    }
+
+    // Another tab may have refreshed the token already
+    const storedToken = tokenUtils.get();
+    const freshToken =
+      storedToken && !tokenUtils.isExpiring(storedToken)
+        ? Promise.resolve(storedToken)
+        : refreshAccessToken();
+
+    const socket = this.socket;
+    freshToken.then(
+      () => {
+        // Ignores a socket closed in the meantime
+        if (socket && this.socket === socket) {
+          socket.connect();
+        }
+      },
+      () => {
+        if (this.socket === socket) {
+          this.disconnect();
+        }
+      }
+    );
+  }
+
   disconnect() {
     if (this.socket) {
       this.socket.removeAllListeners();
       this.socket.disconnect();
       this.socket = null;
+      this.authToken = null;
     }
   }
 
@@ -114,7 +279,7 @@ class SocketManager {
   joinRoom(roomId: string): Promise<{ status: string; roomId: string }> {
     return new Promise((resolve, reject) => {
       if (!this.socket?.connected) {
-        reject(new Error('Socket not connected'));
+        reject(new NotConnectedError());
         return;
       }
 
@@ -131,7 +296,7 @@ class SocketManager {
   leaveRoom(roomId: string): Promise<{ status: string; roomId: string }> {
     return new Promise((resolve, reject) => {
       if (!this.socket?.connected) {
-        reject(new Error('Socket not connected'));
+        reject(new NotConnectedError());
         return;
       }
 
@@ -145,30 +310,281 @@ class SocketManager {
     });
   }
 
+  /**
+   * @param clientMessageId - ID kept across attempts, so that a message
+   * resent after a lost acknowledgement is only stored once
+   */
   sendMessage(
     content: string,
     roomId: string,
+    messageType: 'text' | 'image' = 'text',
+    clientMessageId?: string
+  ): Promise<{ status: string; messageId: string }> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket?.connected) {
+        reject(new NotConnectedError());
+        return;
+      }
+
+      const stopWatching = this.watchRateLimit('sendMessage', reject);
+      this.socket
+        .timeout(SEND_ACK_TIMEOUT_MS)
+        .emit(
+          'sendMessage',
+          { content, roomId, messageType, clientMessageId },
+          (error, response) => {
+            stopWatching();
+            if (error) {
+              reject(new Error('Message not acknowledged'));
+            } else if (response.status === 'sent') {
+              resolve(response);
+            } else {
+              reject(new Error('Failed to send message'));
+            }
+          }
+        );
+    });
+  }
+
+  sendThreadReply(
+    content: string,
+    roomId: string,
+    parentMessageId: string,
     messageType: 'text' | 'image' = 'text'
   ): Promise<{ status: string; messageId: string }> {
     return new Promise((resolve, reject) => {
       if (!this.socket?.connected) {
-        reject(new Error('Socket not connected'));
+        reject(new NotConnectedError());
         return;
       }
 
-      this.socket.emit(
-        'sendMessage',
-        { content, roomId, messageType },
-        (response) => {
-          if (response.status === 'sent') {
+      const stopWatching = this.watchRateLimit('sendThreadReply', reject);
+      this.socket
+        .timeout(SEND_ACK_TIMEOUT_MS)
+        .emit(
+          'sendThreadReply',
+          { content, roomId, parentMessageId, messageType },
+          (error, response) => {
+            stopWatching();
+            if (error) {
+              reject(new Error('Reply not acknowledged'));
+            } else if (response.status === 'sent') {
+              resolve(response);
+            } else {
+              reject(new Error('Failed to send reply'));
+            }
+          }
+        );
+    });
+  }
+
+  startTyping(roomId: string) {
+    if (this.socket?.connected) {
+      this.socket.emit('typingStart', { roomId });
+    }
+  }
+
+  stopTyping(roomId: string) {
+    if (this.socket?.connected) {
+      this.socket.emit('typingStop', { roomId });
+    }
+  }
+
+  markRead(
+    roomId: string,
+    messageId?: string
+  ): Promise<{ status: string; roomId: string }> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket?.connected) {
+        reject(new NotConnectedError());
+        return;
+      }
+
+      this.socket
+        .timeout(SEND_ACK_TIMEOUT_MS)
+        .emit('markRead', { roomId, messageId }, (error, response) => {
+          if (!error && response.status === 'read') {
             resolve(response);
           } else {
-            reject(new Error('Failed to send message'));
+            reject(new Error('Failed to mark room as read'));
           }
-        }
-      );
+        });
     });
   }
+
+  editMessage(
+    messageId: string,
+    content: string
+  ): Promise<{ status: string; messageId: string }> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket?.connected) {
+        reject(new NotConnectedError());
+        return;
+      }
+
+      // A rejected edit is answered with an exception, not an ack
+      this.socket
+        .timeout(SEND_ACK_TIMEOUT_MS)
+        .emit('editMessage', { messageId, content }, (error, response) => {
+          if (!error && response.status === 'updated') {
+            resolve(response);
+          } else {
+            reject(new Error('Failed to edit message'));
+          }
+        });
+    });
+  }
+
+  deleteMessage(
+    messageId: string
+  ): Promise<{ status: string; messageId: string }> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket?.connected) {
+        reject(new NotConnectedError());
+        return;
+      }
+
+      this.socket
+        .timeout(SEND_ACK_TIMEOUT_MS)
+        .emit('deleteMessage', { messageId }, (error, response) => {
+          if (!error && response.status === 'deleted') {
+            resolve(response);
+          } else {
+            reject(new Error('Failed to delete message'));
+          }
+        });
+    });
+  }
+
+  addReaction(
+    messageId: string,
+    emoji: string
+  ): Promise<{ status: string; messageId: string }> {
+    return this.emitReaction('addReaction', messageId, emoji);
+  }
+
+  removeReaction(
+    messageId: string,
+    emoji: string
+  ): Promise<{ status: string; messageId: string }> {
+    return this.emitReaction('removeReaction', messageId, emoji);
+  }
+
+  private emitReaction(
+    event: 'addReaction' | 'removeReaction',
+    messageId: string,
+    emoji: string
+  ): Promise<{ status: string; messageId: string }> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket?.connected) {
+        reject(new NotConnectedError());
+        return;
+      }
+
+      // A rejected reaction is answered with an exception, not an ack
+      this.socket
+        .timeout(SEND_ACK_TIMEOUT_MS)
+        .emit(event, { messageId, emoji }, (error, response) => {
+          if (!error && response.status === 'updated') {
+            resolve(response);
+          } else {
+            reject(new Error('Failed to update reaction'));
+          }
+        });
+    });
+  }
+
+  pinMessage(
+    messageId: string
+  ): Promise<{ status: string; messageId: string }> {
+    return this.emitPin('pinMessage', 'pinned', messageId);
+  }
+
+  unpinMessage(
+    messageId: string
+  ): Promise<{ status: string; messageId: string }> {
+    return this.emitPin('unpinMessage', 'unpinned', messageId);
+  }
+
+  private emitPin(
+    event: 'pinMessage' | 'unpinMessage',
+    expectedStatus: string,
+    messageId: string
+  ): Promise<{ status: string; messageId: string }> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket?.connected) {
+        reject(new NotConnectedError());
+        return;
+      }
+
+      // A rejected pin is answered with an exception, not an ack
+      this.socket
+        .timeout(SEND_ACK_TIMEOUT_MS)
+        .emit(event, { messageId }, (error, response) => {
+          if (!error && response.status === expectedStatus) {
+            resolve(response);
+          } else {
+            reject(new Error('Failed to update pinned messages'));
+          }
+        });
+    });
+  }
+
+  getOnlineUsers(): Promise<UserPresence[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket?.connected) {
+        reject(new NotConnectedError());
+        return;
+      }
+
+      this.socket.emit('getOnlineUsers', (response) => {
+        resolve(response.onlineUsers);
+      });
+    });
+  }
+
+  setStatus(data: WsSetStatusData): Promise<UserPresence> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket?.connected) {
+        reject(new NotConnectedError());
+        return;
+      }
+
+      this.socket
+        .timeout(SEND_ACK_TIMEOUT_MS)
+        .emit('setStatus', data, (error, response) => {
+          if (!error && response.status === 'updated') {
+            this.status = data;
+            resolve(response.presence);
+          } else {
+            reject(new Error('Failed to set status'));
+          }
+        });
+    });
+  }
+
+  reportActivity(idleSeconds: number) {
+    if (this.socket?.connected) {
+      this.socket.emit('reportActivity', { idleSeconds });
+    }
+  }
+
+  // A rate limited event gets no acknowledgement, only an exception event.
+  // The chat sends one message at a time, so the exception is its own.
+  private watchRateLimit(event: string, reject: (error: Error) => void) {
+    const socket = this.socket;
+    const onException = (data: WsExceptionData) => {
+      if (data.code === 'RATE_LIMITED' && data.event === event) {
+        socket?.off('exception', onException);
+        reject(new RateLimitError(data.message, data.retryAfterMs ?? 0));
+      }
+    };
+
+    socket?.on('exception', onException);
+    return () => {
+      socket?.off('exception', onException);
+    };
+  }
 }
 
 export const socketManager = new SocketManager();
@@ -0,0 +1,78 @@
+import userEvent from '@testing-library/user-event';
+import { render, screen } from '@testing-library/react';
+
+import { authApi } from '@/lib/api';
+
+import ConfirmEmailPage from './ConfirmEmail';
+
+jest.mock('@/lib/api', () => ({
+  authApi: {
+    confirmEmail: jest.fn(),
+  },
+}));
+
+describe('ConfirmEmailPage', () => {
+  const mockOnContinue = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (authApi.confirmEmail as jest.Mock).mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should confirm the new address with the token of the link', async () => {
+    render(
+      <ConfirmEmailPage
+        token="email-change-token"
+        onContinue={mockOnContinue}
+      />
+    );
+
+    expect(screen.getByText('Confirmation en cours...')).toBeInTheDocument();
+    expect(
+      await screen.findByText(
+        'Votre nouvelle adresse est confirmée, utilisez-la pour vous connecter.'
+      )
+    ).toBeInTheDocument();
+    expect(authApi.confirmEmail).toHaveBeenCalledWith('email-change-token');
+  });
+
+  it('should tell when the link is invalid or already used', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    (authApi.confirmEmail as jest.Mock).mockRejectedValue(
+      new Error('Invalid or expired token')
+    );
+
+    render(<ConfirmEmailPage token="used-token" onContinue={mockOnContinue} />);
+
+    expect(
+      await screen.findByText(/Ce lien est invalide, a expiré/)
+    ).toBeInTheDocument();
+  });
+
+  it('should not call the API without a token', () => {
+    render(<ConfirmEmailPage token={null} onContinue={mockOnContinue} />);
+
+    expect(
+      screen.getByText(/Ce lien est invalide, a expiré/)
+    ).toBeInTheDocument();
+    expect(authApi.confirmEmail).not.toHaveBeenCalled();
+  });
+
+  it('should continue once confirmed', async () => {
+    const user = userEvent.setup();
+    render(
+      <ConfirmEmailPage
+        token="email-change-token"
+        onContinue={mockOnContinue}
+      />
+    );
+
+    await user.click(await screen.findByRole('button', { name: 'Continuer' }));
+
+    expect(mockOnContinue).toHaveBeenCalled();
+  });
+});
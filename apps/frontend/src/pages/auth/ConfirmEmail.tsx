@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardFooter,
+  CardDescription,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { authApi } from '@/lib/api';
+
+interface ConfirmEmailPageProps {
+  token: string | null;
+  onContinue: () => void;
+}
+
+type ConfirmationStatus = 'confirming' | 'confirmed' | 'failed';
+
+export default function ConfirmEmailPage({
+  token,
+  onContinue,
+}: ConfirmEmailPageProps) {
+  const [status, setStatus] = useState<ConfirmationStatus>(
+    token ? 'confirming' : 'failed'
+  );
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+
+    let isCancelled = false;
+
+    authApi
+      .confirmEmail(token)
+      .then(() => {
+        if (!isCancelled) {
+          setStatus('confirmed');
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to confirm email change:', error);
+        if (!isCancelled) {
+          setStatus('failed');
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">
+            Changement d'adresse email
+          </CardTitle>
+          <CardDescription className="text-center">
+            {status === 'confirming' && 'Confirmation en cours...'}
+            {status === 'confirmed' &&
+              'Votre nouvelle adresse est confirmée, utilisez-la pour vous connecter.'}
+            {status === 'failed' &&
+              'Ce lien est invalide, a expiré ou a déjà été utilisé. Demandez un nouveau lien depuis vos paramètres.'}
+          </CardDescription>
+        </CardHeader>
+        {status !== 'confirming' && (
+          <CardFooter>
+            <Button className="w-full" onClick={onContinue}>
+              Continuer
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import userEvent from '@testing-library/user-event';
+import { render, screen } from '@testing-library/react';
+
+import { authApi } from '@/lib/api';
+import { toast } from '@/hooks/use-toast';
+
+import ForgotPasswordPage from './ForgotPassword';
+
+jest.mock('@/lib/api', () => ({
+  authApi: {
+    forgotPassword: jest.fn(),
+  },
+}));
+
+jest.mock('@/hooks/use-toast', () => ({
+  toast: jest.fn(),
+}));
+
+describe('ForgotPasswordPage', () => {
+  const mockOnNavigateToLogin = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (authApi.forgotPassword as jest.Mock).mockResolvedValue({});
+  });
+
+  it('should request a reset link and confirm it was sent', async () => {
+    const user = userEvent.setup();
+    render(<ForgotPasswordPage onNavigateToLogin={mockOnNavigateToLogin} />);
+
+    await user.type(screen.getByLabelText('Email'), 'test@example.com');
+    await user.click(screen.getByRole('button', { name: 'Envoyer le lien' }));
+
+    expect(authApi.forgotPassword).toHaveBeenCalledWith('test@example.com');
+    expect(
+      await screen.findByText(
+        'Si un compte existe pour test@example.com, un lien de réinitialisation vient de lui être envoyé.'
+      )
+    ).toBeInTheDocument();
+    expect(
+      screen.queryByRole('button', { name: 'Envoyer le lien' })
+    ).not.toBeInTheDocument();
+  });
+
+  it('should not submit without an email', async () => {
+    const user = userEvent.setup();
+    render(<ForgotPasswordPage onNavigateToLogin={mockOnNavigateToLogin} />);
+
+    await user.click(screen.getByRole('button', { name: 'Envoyer le lien' }));
+
+    expect(authApi.forgotPassword).not.toHaveBeenCalled();
+  });
+
+  it('should show an error toast when the request fails', async () => {
+    (authApi.forgotPassword as jest.Mock).mockRejectedValue(
+      new Error('Network error')
+    );
+    const user = userEvent.setup();
+    render(<ForgotPasswordPage onNavigateToLogin={mockOnNavigateToLogin} />);
+
+    await user.type(screen.getByLabelText('Email'), 'test@example.com');
+    await user.click(screen.getByRole('button', { name: 'Envoyer le lien' }));
+
+    expect(toast).toHaveBeenCalledWith({
+      title: 'Erreur',
+      variant: 'destructive',
+      description: "Impossible d'envoyer l'email de réinitialisation",
+    });
+    expect(screen.getByLabelText('Email')).not.toBeDisabled();
+  });
+
+  it('should navigate back to the login page', async () => {
+    const user = userEvent.setup();
+    render(<ForgotPasswordPage onNavigateToLogin={mockOnNavigateToLogin} />);
+
+    await user.click(
+      screen.getByRole('button', { name: 'Retour à la connexion' })
+    );
+
+    expect(mockOnNavigateToLogin).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardFooter,
+  CardContent,
+  CardDescription,
+} from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { authApi } from '@/lib/api';
+
+interface ForgotPasswordPageProps {
+  onNavigateToLogin: () => void;
+}
+
+export default function ForgotPasswordPage({
+  onNavigateToLogin,
+}: ForgotPasswordPageProps) {
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await authApi.forgotPassword(email);
+      setIsSent(true);
+    } catch {
+      toast({
+        title: 'Erreur',
+        variant: 'destructive',
+        description: "Impossible d'envoyer l'email de réinitialisation",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">
+            Mot de passe oublié
+          </CardTitle>
+          <CardDescription className="text-center">
+            {isSent
+              ? `Si un compte existe pour ${email}, un lien de réinitialisation vient de lui être envoyé.`
+              : 'Entrez votre email pour recevoir un lien de réinitialisation'}
+          </CardDescription>
+        </CardHeader>
+        <form onSubmit={handleSubmit}>
+          {!isSent && (
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="nom@exemple.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  disabled={isLoading}
+                />
+              </div>
+            </CardContent>
+          )}
+          <CardFooter className="flex flex-col space-y-2">
+            {!isSent && (
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? 'Envoi...' : 'Envoyer le lien'}
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="link"
+              onClick={onNavigateToLogin}
+              disabled={isLoading}
+              className="w-full"
+            >
+              Retour à la connexion
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -2,21 +2,35 @@ import React from 'react';
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import LoginPage from './Login';
+import { authApi } from '@/lib/api';
 import { LoginCredentials } from '@shared-types';
 
+jest.mock('@/lib/api', () => ({
+  authApi: {
+    getOidcConfiguration: jest.fn(),
+  },
+}));
+
 describe('LoginPage', () => {
   const mockOnLogin = jest.fn();
+  const mockOnOidcLogin = jest.fn();
   const mockOnNavigateToRegister = jest.fn();
+  const mockOnNavigateToForgotPassword = jest.fn();
 
   beforeEach(() => {
     jest.clearAllMocks();
+    (authApi.getOidcConfiguration as jest.Mock).mockResolvedValue({
+      data: { enabled: false, providerName: 'SSO' },
+    });
   });
 
   it('should render login form with all elements', () => {
     render(
       <LoginPage
         onLogin={mockOnLogin}
+        onOidcLogin={mockOnOidcLogin}
         onNavigateToRegister={mockOnNavigateToRegister}
+        onNavigateToForgotPassword={mockOnNavigateToForgotPassword}
       />
     );
 
@@ -39,7 +53,9 @@ describe('LoginPage', () => {
     render(
       <LoginPage
         onLogin={mockOnLogin}
+        onOidcLogin={mockOnOidcLogin}
         onNavigateToRegister={mockOnNavigateToRegister}
+        onNavigateToForgotPassword={mockOnNavigateToForgotPassword}
       />
     );
 
@@ -58,7 +74,9 @@ describe('LoginPage', () => {
     render(
       <LoginPage
         onLogin={mockOnLogin}
+        onOidcLogin={mockOnOidcLogin}
         onNavigateToRegister={mockOnNavigateToRegister}
+        onNavigateToForgotPassword={mockOnNavigateToForgotPassword}
       />
     );
 
@@ -73,7 +91,9 @@ describe('LoginPage', () => {
     render(
       <LoginPage
         onLogin={mockOnLogin}
+        onOidcLogin={mockOnOidcLogin}
         onNavigateToRegister={mockOnNavigateToRegister}
+        onNavigateToForgotPassword={mockOnNavigateToForgotPassword}
       />
     );
 
@@ -102,7 +122,9 @@ describe('LoginPage', () => {
     render(
       <LoginPage
         onLogin={mockOnLogin}
+        onOidcLogin={mockOnOidcLogin}
         onNavigateToRegister={mockOnNavigateToRegister}
+        onNavigateToForgotPassword={mockOnNavigateToForgotPassword}
       />
     );
 
@@ -134,7 +156,9 @@ describe('LoginPage', () => {
     render(
       <LoginPage
         onLogin={mockOnLogin}
+        onOidcLogin={mockOnOidcLogin}
         onNavigateToRegister={mockOnNavigateToRegister}
+        onNavigateToForgotPassword={mockOnNavigateToForgotPassword}
       />
     );
 
@@ -158,7 +182,9 @@ describe('LoginPage', () => {
     render(
       <LoginPage
         onLogin={mockOnLogin}
+        onOidcLogin={mockOnOidcLogin}
         onNavigateToRegister={mockOnNavigateToRegister}
+        onNavigateToForgotPassword={mockOnNavigateToForgotPassword}
       />
     );
 
@@ -170,12 +196,32 @@ describe('LoginPage', () => {
     expect(mockOnNavigateToRegister).toHaveBeenCalled();
   });
 
+  it('should call onNavigateToForgotPassword when forgot password link is clicked', async () => {
+    const user = userEvent.setup();
+    render(
+      <LoginPage
+        onLogin={mockOnLogin}
+        onOidcLogin={mockOnOidcLogin}
+        onNavigateToRegister={mockOnNavigateToRegister}
+        onNavigateToForgotPassword={mockOnNavigateToForgotPassword}
+      />
+    );
+
+    await user.click(
+      screen.getByRole('button', { name: 'Mot de passe oublié ?' })
+    );
+
+    expect(mockOnNavigateToForgotPassword).toHaveBeenCalled();
+  });
+
   it('should submit form when Enter key is pressed', async () => {
     const user = userEvent.setup();
     render(
       <LoginPage
         onLogin={mockOnLogin}
+        onOidcLogin={mockOnOidcLogin}
         onNavigateToRegister={mockOnNavigateToRegister}
+        onNavigateToForgotPassword={mockOnNavigateToForgotPassword}
       />
     );
 
@@ -192,4 +238,47 @@ describe('LoginPage', () => {
       });
     });
   });
+
+  describe('single sign-on', () => {
+    it('should offer the identity provider when it is configured', async () => {
+      const user = userEvent.setup();
+      (authApi.getOidcConfiguration as jest.Mock).mockResolvedValue({
+        data: { enabled: true, providerName: 'Acme' },
+      });
+      mockOnOidcLogin.mockResolvedValue(undefined);
+      render(
+        <LoginPage
+          onLogin={mockOnLogin}
+          onOidcLogin={mockOnOidcLogin}
+          onNavigateToRegister={mockOnNavigateToRegister}
+          onNavigateToForgotPassword={mockOnNavigateToForgotPassword}
+        />
+      );
+
+      await user.click(
+        await screen.findByRole('button', { name: 'Se connecter avec Acme' })
+      );
+
+      expect(mockOnOidcLogin).toHaveBeenCalled();
+      expect(mockOnLogin).not.toHaveBeenCalled();
+    });
+
+    it('should not offer single sign-on when it is not configured', async () => {
+      render(
+        <LoginPage
+          onLogin={mockOnLogin}
+          onOidcLogin={mockOnOidcLogin}
+          onNavigateToRegister={mockOnNavigateToRegister}
+          onNavigateToForgotPassword={mockOnNavigateToForgotPassword}
+        />
+      );
+
+      await waitFor(() => {
+        expect(authApi.getOidcConfiguration).toHaveBeenCalled();
+      });
+      expect(
+        screen.queryByRole('button', { name: /Se connecter avec/ })
+      ).not.toBeInTheDocument();
+    });
+  });
 });
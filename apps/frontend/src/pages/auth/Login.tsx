@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 
 import {
   Card,
@@ -11,20 +11,46 @@ import {
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { LoginCredentials } from '@shared-types';
+import { authApi } from '@/lib/api';
+import { LoginCredentials, OidcConfiguration } from '@shared-types';
 
 interface LoginPageProps {
   onLogin: (credentials: LoginCredentials) => Promise<void>;
+  onOidcLogin: () => Promise<void>;
   onNavigateToRegister: () => void;
+  onNavigateToForgotPassword: () => void;
 }
 
 export default function LoginPage({
   onLogin,
+  onOidcLogin,
   onNavigateToRegister,
+  onNavigateToForgotPassword,
 }: LoginPageProps) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [oidc, setOidc] = useState<OidcConfiguration | null>(null);
+
+  // Single sign-on is offered only when an identity provider is configured
+  useEffect(() => {
+    let isCancelled = false;
+
+    authApi
+      .getOidcConfiguration()
+      .then((response) => {
+        if (!isCancelled) {
+          setOidc(response.data);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load single sign-on configuration:', error);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -43,6 +69,16 @@ export default function LoginPage({
     }
   };
 
+  const handleOidcLogin = async () => {
+    setIsLoading(true);
+    try {
+      await onOidcLogin();
+    } catch {
+      // Error is handled in AuthContext
+      setIsLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50">
       <Card className="w-full max-w-md">
@@ -84,6 +120,17 @@ export default function LoginPage({
             <Button type="submit" className="w-full" disabled={isLoading}>
               {isLoading ? 'Connexion...' : 'Se connecter'}
             </Button>
+            {oidc?.enabled && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleOidcLogin}
+                disabled={isLoading}
+                className="w-full"
+              >
+                Se connecter avec {oidc.providerName}
+              </Button>
+            )}
             <Button
               type="button"
               variant="link"
@@ -93,6 +140,15 @@ export default function LoginPage({
             >
               Pas encore de compte ? S'inscrire
             </Button>
+            <Button
+              type="button"
+              variant="link"
+              onClick={onNavigateToForgotPassword}
+              disabled={isLoading}
+              className="w-full"
+            >
+              Mot de passe oublié ?
+            </Button>
           </CardFooter>
         </form>
       </Card>
@@ -0,0 +1,66 @@
+import userEvent from '@testing-library/user-event';
+import { render, screen } from '@testing-library/react';
+
+import MfaChallengePage from './MfaChallenge';
+
+describe('MfaChallengePage', () => {
+  const mockOnVerify = jest.fn();
+  const mockOnCancel = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOnVerify.mockResolvedValue(undefined);
+  });
+
+  it('should submit the typed code', async () => {
+    const user = userEvent.setup();
+    render(
+      <MfaChallengePage onVerify={mockOnVerify} onCancel={mockOnCancel} />
+    );
+
+    await user.type(screen.getByLabelText('Code'), ' 123456 ');
+    await user.click(screen.getByRole('button', { name: 'Vérifier' }));
+
+    expect(mockOnVerify).toHaveBeenCalledWith('123456');
+  });
+
+  it('should accept a recovery code', async () => {
+    const user = userEvent.setup();
+    render(
+      <MfaChallengePage onVerify={mockOnVerify} onCancel={mockOnCancel} />
+    );
+
+    await user.type(screen.getByLabelText('Code'), '3f9a1-c07be');
+    await user.click(screen.getByRole('button', { name: 'Vérifier' }));
+
+    expect(mockOnVerify).toHaveBeenCalledWith('3f9a1-c07be');
+  });
+
+  it('should clear the code when it is rejected', async () => {
+    mockOnVerify.mockRejectedValue(new Error('Invalid code'));
+    const user = userEvent.setup();
+    render(
+      <MfaChallengePage onVerify={mockOnVerify} onCancel={mockOnCancel} />
+    );
+
+    await user.type(screen.getByLabelText('Code'), '000000');
+    await user.click(screen.getByRole('button', { name: 'Vérifier' }));
+
+    expect(screen.getByLabelText('Code')).toHaveValue('');
+    expect(screen.getByRole('button', { name: 'Vérifier' })).toBeEnabled();
+  });
+
+  it('should go back to the login page', async () => {
+    const user = userEvent.setup();
+    render(
+      <MfaChallengePage onVerify={mockOnVerify} onCancel={mockOnCancel} />
+    );
+
+    await user.click(
+      screen.getByRole('button', { name: 'Retour à la connexion' })
+    );
+
+    expect(mockOnCancel).toHaveBeenCalled();
+    expect(mockOnVerify).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardFooter,
+  CardContent,
+  CardDescription,
+} from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+
+interface MfaChallengePageProps {
+  onVerify: (code: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+export default function MfaChallengePage({
+  onVerify,
+  onCancel,
+}: MfaChallengePageProps) {
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!code.trim()) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await onVerify(code.trim());
+    } catch {
+      // Error is handled in AuthContext
+      setCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">
+            Vérification en deux étapes
+          </CardTitle>
+          <CardDescription className="text-center">
+            Entrez le code de votre application d'authentification, ou l'un de
+            vos codes de récupération
+          </CardDescription>
+        </CardHeader>
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="code">Code</Label>
+              <Input
+                id="code"
+                placeholder="123456"
+                autoComplete="one-time-code"
+                autoFocus
+                maxLength={20}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                disabled={isLoading}
+              />
+            </div>
+          </CardContent>
+          <CardFooter className="flex flex-col space-y-2">
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? 'Vérification...' : 'Vérifier'}
+            </Button>
+            <Button
+              type="button"
+              variant="link"
+              onClick={onCancel}
+              disabled={isLoading}
+              className="w-full"
+            >
+              Retour à la connexion
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
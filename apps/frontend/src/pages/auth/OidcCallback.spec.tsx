@@ -0,0 +1,87 @@
+import { StrictMode } from 'react';
+import userEvent from '@testing-library/user-event';
+import { render, screen } from '@testing-library/react';
+
+import OidcCallbackPage from './OidcCallback';
+
+describe('OidcCallbackPage', () => {
+  const mockOnComplete = jest.fn();
+  const mockOnNavigateToLogin = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOnComplete.mockResolvedValue(undefined);
+  });
+
+  it('should complete the login with the code of the redirect', () => {
+    render(
+      <OidcCallbackPage
+        code="provider-code"
+        state="provider-state"
+        error={null}
+        onComplete={mockOnComplete}
+        onNavigateToLogin={mockOnNavigateToLogin}
+      />
+    );
+
+    expect(screen.getByText('Connexion en cours...')).toBeInTheDocument();
+    expect(mockOnComplete).toHaveBeenCalledWith(
+      'provider-code',
+      'provider-state'
+    );
+  });
+
+  it('should send the single-use code once', () => {
+    render(
+      <StrictMode>
+        <OidcCallbackPage
+          code="provider-code"
+          state="provider-state"
+          error={null}
+          onComplete={mockOnComplete}
+          onNavigateToLogin={mockOnNavigateToLogin}
+        />
+      </StrictMode>
+    );
+
+    expect(mockOnComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should tell when the login fails', async () => {
+    const user = userEvent.setup();
+    mockOnComplete.mockRejectedValue(new Error('Single sign-on failed'));
+
+    render(
+      <OidcCallbackPage
+        code="provider-code"
+        state="provider-state"
+        error={null}
+        onComplete={mockOnComplete}
+        onNavigateToLogin={mockOnNavigateToLogin}
+      />
+    );
+
+    await user.click(
+      await screen.findByRole('button', { name: 'Retour à la connexion' })
+    );
+
+    expect(mockOnNavigateToLogin).toHaveBeenCalled();
+  });
+
+  it('should not complete the login when the provider returns an error', () => {
+    render(
+      <OidcCallbackPage
+        code={null}
+        state="provider-state"
+        error="access_denied"
+        onComplete={mockOnComplete}
+        onNavigateToLogin={mockOnNavigateToLogin}
+      />
+    );
+
+    expect(
+      screen.getByText("La connexion avec le fournisseur d'identité a échoué.")
+    ).toBeInTheDocument();
+    expect(mockOnComplete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from 'react';
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardFooter,
+  CardDescription,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+
+interface OidcCallbackPageProps {
+  code: string | null;
+  state: string | null;
+  /** Error the identity provider redirected with, e.g. access_denied */
+  error: string | null;
+  onComplete: (code: string, state: string) => Promise<void>;
+  onNavigateToLogin: () => void;
+}
+
+export default function OidcCallbackPage({
+  code,
+  state,
+  error,
+  onComplete,
+  onNavigateToLogin,
+}: OidcCallbackPageProps) {
+  const [hasFailed, setHasFailed] = useState(!code || !state || !!error);
+  // The code is single-use: it must not be sent twice when the effect runs again
+  const hasStarted = useRef(false);
+
+  useEffect(() => {
+    if (!code || !state || error || hasStarted.current) {
+      return;
+    }
+
+    hasStarted.current = true;
+
+    // On success AuthContext navigates to the chat or the second factor page
+    onComplete(code, state).catch(() => {
+      // Error is handled in AuthContext
+      setHasFailed(true);
+    });
+  }, [code, state, error, onComplete]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">
+            Connexion
+          </CardTitle>
+          <CardDescription className="text-center">
+            {hasFailed
+              ? "La connexion avec le fournisseur d'identité a échoué."
+              : 'Connexion en cours...'}
+          </CardDescription>
+        </CardHeader>
+        {hasFailed && (
+          <CardFooter>
+            <Button className="w-full" onClick={onNavigateToLogin}>
+              Retour à la connexion
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import userEvent from '@testing-library/user-event';
+import { render, screen } from '@testing-library/react';
+
+import { authApi } from '@/lib/api';
+import { toast } from '@/hooks/use-toast';
+
+import ResetPasswordPage from './ResetPassword';
+
+jest.mock('@/lib/api', () => ({
+  authApi: {
+    resetPassword: jest.fn(),
+  },
+}));
+
+jest.mock('@/hooks/use-toast', () => ({
+  toast: jest.fn(),
+}));
+
+describe('ResetPasswordPage', () => {
+  const mockOnNavigateToLogin = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (authApi.resetPassword as jest.Mock).mockResolvedValue({});
+  });
+
+  const fillForm = async (
+    user: ReturnType<typeof userEvent.setup>,
+    password: string,
+    confirmPassword = password
+  ) => {
+    await user.type(screen.getByLabelText('Nouveau mot de passe'), password);
+    await user.type(
+      screen.getByLabelText('Confirmer le mot de passe'),
+      confirmPassword
+    );
+    await user.click(
+      screen.getByRole('button', { name: 'Changer le mot de passe' })
+    );
+  };
+
+  it('should reset the password and navigate to the login page', async () => {
+    const user = userEvent.setup();
+    render(
+      <ResetPasswordPage
+        token="account-token"
+        onNavigateToLogin={mockOnNavigateToLogin}
+      />
+    );
+
+    await fillForm(user, 'NewPassword123!');
+
+    expect(authApi.resetPassword).toHaveBeenCalledWith(
+      'account-token',
+      'NewPassword123!'
+    );
+    expect(toast).toHaveBeenCalledWith({
+      title: 'Mot de passe modifié',
+      description: 'Connectez-vous avec votre nouveau mot de passe',
+    });
+    expect(mockOnNavigateToLogin).toHaveBeenCalled();
+  });
+
+  it('should not submit passwords that do not match', async () => {
+    const user = userEvent.setup();
+    render(
+      <ResetPasswordPage
+        token="account-token"
+        onNavigateToLogin={mockOnNavigateToLogin}
+      />
+    );
+
+    await fillForm(user, 'NewPassword123!', 'OtherPassword123!');
+
+    expect(
+      screen.getByText('Les mots de passe ne correspondent pas')
+    ).toBeInTheDocument();
+    expect(authApi.resetPassword).not.toHaveBeenCalled();
+  });
+
+  it('should not submit a password that is too short', async () => {
+    const user = userEvent.setup();
+    render(
+      <ResetPasswordPage
+        token="account-token"
+        onNavigateToLogin={mockOnNavigateToLogin}
+      />
+    );
+
+    await fillForm(user, 'Short1!');
+
+    expect(
+      screen.getByText('Le mot de passe doit contenir au moins 8 caractères')
+    ).toBeInTheDocument();
+    expect(authApi.resetPassword).not.toHaveBeenCalled();
+  });
+
+  it('should tell when the link is invalid or expired', async () => {
+    (authApi.resetPassword as jest.Mock).mockRejectedValue({
+      statusCode: 400,
+      message: 'Invalid or expired token',
+      error: 'Bad Request',
+    });
+    const user = userEvent.setup();
+    render(
+      <ResetPasswordPage
+        token="used-token"
+        onNavigateToLogin={mockOnNavigateToLogin}
+      />
+    );
+
+    await fillForm(user, 'NewPassword123!');
+
+    expect(
+      await screen.findByText('Ce lien est invalide ou a expiré')
+    ).toBeInTheDocument();
+    expect(mockOnNavigateToLogin).not.toHaveBeenCalled();
+  });
+
+  it('should tell when the password does not meet the requirements', async () => {
+    (authApi.resetPassword as jest.Mock).mockRejectedValue({
+      statusCode: 400,
+      message: [
+        'Password must contain at least one uppercase letter, one lowercase letter, one number and one special character',
+      ],
+      error: 'Bad Request',
+    });
+    const user = userEvent.setup();
+    render(
+      <ResetPasswordPage
+        token="account-token"
+        onNavigateToLogin={mockOnNavigateToLogin}
+      />
+    );
+
+    await fillForm(user, 'newpassword');
+
+    expect(
+      await screen.findByText(
+        'Le mot de passe doit contenir une majuscule, une minuscule, un chiffre et un caractère spécial'
+      )
+    ).toBeInTheDocument();
+  });
+
+  it('should disable the form without a token', () => {
+    render(
+      <ResetPasswordPage
+        token={null}
+        onNavigateToLogin={mockOnNavigateToLogin}
+      />
+    );
+
+    expect(
+      screen.getByText('Ce lien est invalide ou a expiré')
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole('button', { name: 'Changer le mot de passe' })
+    ).toBeDisabled();
+  });
+});
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardFooter,
+  CardContent,
+  CardDescription,
+} from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { authApi } from '@/lib/api';
+
+interface ResetPasswordPageProps {
+  token: string | null;
+  onNavigateToLogin: () => void;
+}
+
+export default function ResetPasswordPage({
+  token,
+  onNavigateToLogin,
+}: ResetPasswordPageProps) {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(
+    token ? null : 'Ce lien est invalide ou a expiré'
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!token) {
+      return;
+    }
+
+    if (password.length < 8) {
+      setError('Le mot de passe doit contenir au moins 8 caractères');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError('Les mots de passe ne correspondent pas');
+      return;
+    }
+
+    setError(null);
+    setIsLoading(true);
+    try {
+      await authApi.resetPassword(token, password);
+
+      toast({
+        title: 'Mot de passe modifié',
+        description: 'Connectez-vous avec votre nouveau mot de passe',
+      });
+      onNavigateToLogin();
+    } catch (requestError: Error | unknown) {
+      // The API rejects weak passwords with the list of unmet requirements
+      const isInvalidPassword =
+        !!requestError &&
+        typeof requestError === 'object' &&
+        'message' in requestError &&
+        Array.isArray(requestError.message);
+
+      setError(
+        isInvalidPassword
+          ? 'Le mot de passe doit contenir une majuscule, une minuscule, un chiffre et un caractère spécial'
+          : 'Ce lien est invalide ou a expiré'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">
+            Nouveau mot de passe
+          </CardTitle>
+          <CardDescription className="text-center">
+            Choisissez un nouveau mot de passe. Vous serez déconnecté de tous
+            vos appareils.
+          </CardDescription>
+        </CardHeader>
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="password">Nouveau mot de passe</Label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                disabled={isLoading || !token}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">Confirmer le mot de passe</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                disabled={isLoading || !token}
+              />
+            </div>
+            {error && <p className="text-sm text-red-500">{error}</p>}
+          </CardContent>
+          <CardFooter className="flex flex-col space-y-2">
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isLoading || !token}
+            >
+              {isLoading ? 'Enregistrement...' : 'Changer le mot de passe'}
+            </Button>
+            <Button
+              type="button"
+              variant="link"
+              onClick={onNavigateToLogin}
+              disabled={isLoading}
+              className="w-full"
+            >
+              Retour à la connexion
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import userEvent from '@testing-library/user-event';
+import { render, screen } from '@testing-library/react';
+
+import { authApi } from '@/lib/api';
+
+import VerifyEmailPage from './VerifyEmail';
+
+jest.mock('@/lib/api', () => ({
+  authApi: {
+    verifyEmail: jest.fn(),
+  },
+}));
+
+describe('VerifyEmailPage', () => {
+  const mockOnNavigateToLogin = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (authApi.verifyEmail as jest.Mock).mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should verify the email with the token of the link', async () => {
+    render(
+      <VerifyEmailPage
+        token="account-token"
+        onNavigateToLogin={mockOnNavigateToLogin}
+      />
+    );
+
+    expect(screen.getByText('Vérification en cours...')).toBeInTheDocument();
+    expect(
+      await screen.findByText(
+        'Votre adresse email est confirmée, vous pouvez vous connecter.'
+      )
+    ).toBeInTheDocument();
+    expect(authApi.verifyEmail).toHaveBeenCalledWith('account-token');
+  });
+
+  it('should tell when the link is invalid or expired', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    (authApi.verifyEmail as jest.Mock).mockRejectedValue(
+      new Error('Invalid or expired token')
+    );
+
+    render(
+      <VerifyEmailPage
+        token="expired-token"
+        onNavigateToLogin={mockOnNavigateToLogin}
+      />
+    );
+
+    expect(
+      await screen.findByText(/Ce lien est invalide ou a expiré/)
+    ).toBeInTheDocument();
+  });
+
+  it('should not call the API without a token', () => {
+    render(
+      <VerifyEmailPage token={null} onNavigateToLogin={mockOnNavigateToLogin} />
+    );
+
+    expect(
+      screen.getByText(/Ce lien est invalide ou a expiré/)
+    ).toBeInTheDocument();
+    expect(authApi.verifyEmail).not.toHaveBeenCalled();
+  });
+
+  it('should navigate to the login page once verified', async () => {
+    const user = userEvent.setup();
+    render(
+      <VerifyEmailPage
+        token="account-token"
+        onNavigateToLogin={mockOnNavigateToLogin}
+      />
+    );
+
+    await user.click(
+      await screen.findByRole('button', { name: 'Aller à la connexion' })
+    );
+
+    expect(mockOnNavigateToLogin).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardFooter,
+  CardDescription,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { authApi } from '@/lib/api';
+
+interface VerifyEmailPageProps {
+  token: string | null;
+  onNavigateToLogin: () => void;
+}
+
+type VerificationStatus = 'verifying' | 'verified' | 'failed';
+
+export default function VerifyEmailPage({
+  token,
+  onNavigateToLogin,
+}: VerifyEmailPageProps) {
+  const [status, setStatus] = useState<VerificationStatus>(
+    token ? 'verifying' : 'failed'
+  );
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+
+    let isCancelled = false;
+
+    authApi
+      .verifyEmail(token)
+      .then(() => {
+        if (!isCancelled) {
+          setStatus('verified');
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to verify email:', error);
+        if (!isCancelled) {
+          setStatus('failed');
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">
+            Vérification de l'email
+          </CardTitle>
+          <CardDescription className="text-center">
+            {status === 'verifying' && 'Vérification en cours...'}
+            {status === 'verified' &&
+              'Votre adresse email est confirmée, vous pouvez vous connecter.'}
+            {status === 'failed' &&
+              'Ce lien est invalide ou a expiré. Demandez un nouveau lien en réinitialisant votre mot de passe.'}
+          </CardDescription>
+        </CardHeader>
+        {status !== 'verifying' && (
+          <CardFooter>
+            <Button className="w-full" onClick={onNavigateToLogin}>
+              Aller à la connexion
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
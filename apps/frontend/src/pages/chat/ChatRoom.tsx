@@ -1,25 +1,135 @@
-import { Send, Plus, LogOut, Circle } from 'lucide-react';
-import React, { useState, useRef, useEffect } from 'react';
+import {
+  Send,
+  Plus,
+  LogOut,
+  MessageSquare,
+  Pencil,
+  Trash2,
+  Search,
+  Paperclip,
+  Settings,
+  Pin,
+  PinOff,
+  X,
+} from 'lucide-react';
+import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
 
-import { User, Room, Message } from '@shared-types';
+import {
+  User,
+  Room,
+  Message,
+  MessageThread,
+  MessageSearchResult,
+  MemberRoleEnum,
+  RoomPin,
+  UserPresence,
+  WsSetStatusData,
+} from '@shared-types';
 
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Avatar } from '@/components/ui/avatar';
+import ThreadPanel from '@/components/chat/ThreadPanel';
+import MessageSearchPanel from '@/components/chat/MessageSearchPanel';
+import MessageReactions from '@/components/chat/MessageReactions';
+import MessageAttachments, {
+  MAX_ATTACHMENT_SIZE,
+  ACCEPTED_ATTACHMENT_TYPES,
+} from '@/components/chat/MessageAttachments';
+import MessageDeliveryStatus from '@/components/chat/MessageDeliveryStatus';
+import TypingIndicator from '@/components/chat/TypingIndicator';
+import UserAvatar from '@/components/chat/UserAvatar';
+import PresenceDot from '@/components/chat/PresenceDot';
+import StatusMenu from '@/components/chat/StatusMenu';
+import PinnedMessagesMenu from '@/components/chat/PinnedMessagesMenu';
+import { ChatMessage } from '@/context/ChatContext';
+import { toast } from '@/hooks/use-toast';
+import { RateLimitError } from '@/lib/socket';
+import { formatFileSize, formatMessageTime } from '@/lib/utils';
+
+/**
+ * Distance from either end of the message list under which the next page is loaded
+ */
+const LOAD_PAGE_THRESHOLD_PX = 80;
+
+/**
+ * Files sent without caption get their name as content, which is not repeated
+ * above the file chip
+ */
+function getMessageCaption(message: Message): string | null {
+  const [attachment, ...others] = message.attachments ?? [];
+
+  return attachment &&
+    others.length === 0 &&
+    message.content === attachment.fileName
+    ? null
+    : message.content;
+}
+
+/**
+ * Mirrors the backend room policy: both members of a direct room can pin,
+ * only owners and admins in groups. Rooms created before the owner role
+ * existed are owned by their creator.
+ */
+function canPinMessages(room: Room, userId: string): boolean {
+  const activeMembers = room.members.filter((member) => !member.leftAt);
+  const member = activeMembers.find((m) => m.userId === userId);
+  if (!member) {
+    return false;
+  }
+
+  const hasOwner = activeMembers.some((m) => m.role === MemberRoleEnum.OWNER);
+  return (
+    room.type === 'direct' ||
+    member.role !== MemberRoleEnum.MEMBER ||
+    (!hasOwner && room.createdBy === userId)
+  );
+}
 
 interface ChatInterfaceProps {
   currentUser: User;
   rooms: Room[];
   currentRoom: Room | null;
-  messages: Message[];
+  messages: ChatMessage[];
+  hasMoreMessages: boolean;
+  isLoadingOlderMessages: boolean;
+  hasNewerMessages: boolean;
+  isLoadingNewerMessages: boolean;
+  focusedMessageId: string | null;
   isConnected: boolean;
-  onlineUsersCount: number;
+  onlineUsers: UserPresence[];
+  status: WsSetStatusData;
+  onSetStatus: (status: WsSetStatusData) => Promise<void>;
   onSelectRoom: (room: Room) => void;
   onSendMessage: (content: string) => Promise<void>;
+  onRetryMessage: (clientMessageId: string) => Promise<void>;
+  onDiscardMessage: (clientMessageId: string) => Promise<void>;
+  onSendAttachment: (file: File, caption?: string) => Promise<void>;
+  onLoadOlderMessages: () => void;
+  onLoadNewerMessages: () => void;
+  onLoadLatestMessages: () => void;
+  onJumpToMessage: (result: MessageSearchResult) => void;
+  pins: RoomPin[];
+  onPinMessage: (messageId: string) => Promise<void>;
+  onUnpinMessage: (messageId: string) => Promise<void>;
+  onJumpToPin: (pin: RoomPin) => void;
+  typingUsernames: string[];
+  onTyping: () => void;
+  onStopTyping: () => void;
   onLogout: () => void;
+  onOpenSettings: () => void;
   loadRooms: () => void;
   onCreateRoom: () => void;
+  activeThread: MessageThread | null;
+  isLoadingThread: boolean;
+  onOpenThread: (message: Message) => void;
+  onCloseThread: () => void;
+  onLoadMoreThreadReplies: () => void;
+  onSendThreadReply: (content: string) => Promise<void>;
+  onEditMessage: (messageId: string, content: string) => Promise<void>;
+  onDeleteMessage: (messageId: string) => Promise<void>;
+  onAddReaction: (messageId: string, emoji: string) => Promise<void>;
+  onRemoveReaction: (messageId: string, emoji: string) => Promise<void>;
 }
 
 export default function ChatInterface({
@@ -27,16 +137,63 @@ export default function ChatInterface({
   rooms,
   currentRoom,
   messages,
+  hasMoreMessages,
+  isLoadingOlderMessages,
+  hasNewerMessages,
+  isLoadingNewerMessages,
+  focusedMessageId,
   isConnected,
+  onlineUsers,
+  status,
+  onSetStatus,
   onSelectRoom,
   onSendMessage,
+  onRetryMessage,
+  onDiscardMessage,
+  onSendAttachment,
+  onLoadOlderMessages,
+  onLoadNewerMessages,
+  onLoadLatestMessages,
+  onJumpToMessage,
+  pins,
+  onPinMessage,
+  onUnpinMessage,
+  onJumpToPin,
+  typingUsernames,
+  onTyping,
+  onStopTyping,
   onLogout,
+  onOpenSettings,
   loadRooms,
   onCreateRoom,
+  activeThread,
+  isLoadingThread,
+  onOpenThread,
+  onCloseThread,
+  onLoadMoreThreadReplies,
+  onSendThreadReply,
+  onEditMessage,
+  onDeleteMessage,
+  onAddReaction,
+  onRemoveReaction,
 }: ChatInterfaceProps) {
   const [messageInput, setMessageInput] = useState('');
   const [isSending, setIsSending] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editInput, setEditInput] = useState('');
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const lastScrollTopRef = useRef(0);
+  const olderPageAnchorRef = useRef<{
+    firstMessageId?: string;
+    scrollHeight: number;
+  } | null>(null);
+  const lastMessageIdRef = useRef<string | undefined>(undefined);
+  const scrolledToMessageIdRef = useRef<string | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -47,49 +204,308 @@ export default function ChatInterface({
   }, [isConnected]);
 
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    olderPageAnchorRef.current = null;
+    setPendingFile(null);
+    setSendError(null);
+  }, [currentRoom?.id]);
+
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    const anchor = olderPageAnchorRef.current;
+    const lastMessageId = messages[messages.length - 1]?.id;
+    const hasNewLastMessage = lastMessageId !== lastMessageIdRef.current;
+    lastMessageIdRef.current = lastMessageId;
+
+    // An older page was prepended: keep the previously visible
+    // messages in place instead of jumping to the bottom
+    if (container && anchor && messages[0]?.id !== anchor.firstMessageId) {
+      olderPageAnchorRef.current = null;
+      container.scrollTop += container.scrollHeight - anchor.scrollHeight;
+      return;
+    }
+
+    if (!focusedMessageId) {
+      scrolledToMessageIdRef.current = null;
+    } else if (focusedMessageId !== scrolledToMessageIdRef.current) {
+      const element = container?.querySelector(
+        `[data-message-id="${focusedMessageId}"]`
+      );
+      if (element) {
+        scrolledToMessageIdRef.current = focusedMessageId;
+        element.scrollIntoView({ block: 'center' });
+        return;
+      }
+    }
+
+    // Newer pages are appended while the user scrolls down,
+    // only follow the conversation when it is fully loaded
+    if (hasNewLastMessage && !hasNewerMessages) {
+      scrollToBottom();
+    }
+  }, [messages, focusedMessageId]);
+
+  const handleLoadOlderMessages = () => {
+    const container = messagesContainerRef.current;
+    if (!container || !hasMoreMessages || isLoadingOlderMessages) {
+      return;
+    }
+
+    olderPageAnchorRef.current = {
+      firstMessageId: messages[0]?.id,
+      scrollHeight: container.scrollHeight,
+    };
+    onLoadOlderMessages();
+  };
+
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+    // Only react to the user scrolling up, not to the scroll to the bottom
+    const isScrollingUp = scrollTop < lastScrollTopRef.current;
+    lastScrollTopRef.current = scrollTop;
+
+    if (isScrollingUp && scrollTop <= LOAD_PAGE_THRESHOLD_PX) {
+      handleLoadOlderMessages();
+    } else if (
+      !isScrollingUp &&
+      hasNewerMessages &&
+      !isLoadingNewerMessages &&
+      scrollHeight - scrollTop - clientHeight <= LOAD_PAGE_THRESHOLD_PX
+    ) {
+      onLoadNewerMessages();
+    }
+  };
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!messageInput.trim() || !currentRoom || isSending) {
+    if ((!messageInput.trim() && !pendingFile) || !currentRoom || isSending) {
+      return;
+    }
+
+    setSendError(null);
+
+    // Text messages are shown right away and kept in the outbox until
+    // the server acknowledges them, even while offline
+    if (!pendingFile) {
+      const content = messageInput.trim();
+      setMessageInput('');
+      onStopTyping();
+      try {
+        await onSendMessage(content);
+      } catch (error) {
+        console.error('Failed to send message:', error);
+        if (error instanceof RateLimitError) {
+          setSendError(
+            'Vous envoyez trop de messages, patientez quelques secondes'
+          );
+        }
+      }
       return;
     }
 
     setIsSending(true);
     try {
-      await onSendMessage(messageInput.trim());
+      await onSendAttachment(pendingFile, messageInput.trim() || undefined);
+      setPendingFile(null);
       setMessageInput('');
+      onStopTyping();
     } catch (error) {
       console.error('Failed to send message:', error);
+      if (error instanceof RateLimitError) {
+        setSendError(
+          'Vous envoyez trop de messages, patientez quelques secondes'
+        );
+      } else {
+        setSendError("Le fichier n'a pas pu être envoyé");
+      }
     } finally {
       setIsSending(false);
     }
   };
 
-  const formatTime = (date: string | Date) => {
-    const messageDate = new Date(date);
-    const now = new Date();
-    const isToday = messageDate.toDateString() === now.toDateString();
+  const handleRetryMessage = async (clientMessageId: string) => {
+    setSendError(null);
+    try {
+      await onRetryMessage(clientMessageId);
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        setSendError(
+          'Vous envoyez trop de messages, patientez quelques secondes'
+        );
+      }
+    }
+  };
 
-    if (isToday) {
-      return messageDate.toLocaleTimeString('fr-FR', {
-        hour: '2-digit',
-        minute: '2-digit',
+  const handleDiscardMessage = async (clientMessageId: string) => {
+    setSendError(null);
+    try {
+      await onDiscardMessage(clientMessageId);
+    } catch {
+      setSendError("Le message n'a pas pu être abandonné, réessayez");
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+
+    if (!file) {
+      return;
+    }
+
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      setPendingFile(null);
+      setSendError(
+        `Le fichier dépasse la taille maximale de ${formatFileSize(
+          MAX_ATTACHMENT_SIZE
+        )}`
+      );
+      return;
+    }
+
+    setSendError(null);
+    setPendingFile(file);
+  };
+
+  const handleMessageInputChange = (value: string) => {
+    setMessageInput(value);
+
+    if (value.trim()) {
+      onTyping();
+    } else {
+      onStopTyping();
+    }
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditInput(message.content);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditInput('');
+  };
+
+  const handleEditMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!editingMessageId || !editInput.trim()) {
+      return;
+    }
+
+    try {
+      await onEditMessage(editingMessageId, editInput.trim());
+      cancelEditing();
+    } catch (error) {
+      console.error('Failed to edit message:', error);
+    }
+  };
+
+  const handleDeleteMessage = async (message: Message) => {
+    if (!window.confirm('Supprimer ce message ?')) {
+      return;
+    }
+
+    try {
+      await onDeleteMessage(message.id);
+    } catch (error) {
+      console.error('Failed to delete message:', error);
+    }
+  };
+
+  // Reactions are only shown once broadcast, a failure has nothing to revert
+  const handleReaction = async (
+    messageId: string,
+    emoji: string,
+    isAdding: boolean
+  ) => {
+    try {
+      await (isAdding ? onAddReaction : onRemoveReaction)(messageId, emoji);
+    } catch (error) {
+      console.error('Failed to update reaction:', error);
+      toast({
+        title: 'Erreur',
+        description: "La réaction n'a pas pu être enregistrée",
+        variant: 'destructive',
       });
     }
+  };
+
+  const pinnedIds = new Set(pins.map((pin) => pin.messageId));
+  const canPin = !!currentRoom && canPinMessages(currentRoom, currentUser.id);
 
-    return messageDate.toLocaleDateString('fr-FR', {
-      day: '2-digit',
-      month: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-    });
+  const handleTogglePin = async (messageId: string) => {
+    const isPinned = pinnedIds.has(messageId);
+    try {
+      await (isPinned ? onUnpinMessage : onPinMessage)(messageId);
+    } catch (error) {
+      console.error('Failed to update pinned messages:', error);
+      toast({
+        title: 'Erreur',
+        description: isPinned
+          ? "Le message n'a pas pu être désépinglé"
+          : "Le message n'a pas pu être épinglé",
+        variant: 'destructive',
+      });
+    }
   };
 
-  const getInitials = (firstName: string, lastName: string) => {
-    return `${firstName[0] || ''}${lastName[0] || ''}`.toUpperCase();
+  const lastMessage = messages[messages.length - 1];
+  const seenBy =
+    currentRoom && lastMessage && !lastMessage.isDeleted
+      ? currentRoom.members.filter(
+          (member) =>
+            !member.leftAt &&
+            member.userId !== currentUser.id &&
+            member.userId !== lastMessage.senderId &&
+            member.lastReadMessageId === lastMessage.id
+        )
+      : [];
+
+  const getSeenByLabel = () => {
+    if (currentRoom?.type === 'direct') {
+      return 'Vu';
+    }
+
+    const usernames = new Map(
+      messages.map((message) => [message.senderId, message.senderUsername])
+    );
+    const names = seenBy.map((member) => usernames.get(member.userId));
+
+    return names.every(Boolean)
+      ? `Vu par ${names.join(', ')}`
+      : `Vu par ${seenBy.length}`;
+  };
+
+  const currentUserName =
+    currentUser.displayName ||
+    `${currentUser.firstName} ${currentUser.lastName}`;
+
+  const presences = new Map(
+    onlineUsers.map((presence) => [presence.userId, presence])
+  );
+  const ownPresence = isConnected
+    ? presences.get(currentUser.id)?.status ?? status.status
+    : null;
+
+  // A direct room stands for the other member, whose presence is shown
+  const renderPeerPresence = (room: Room) => {
+    const peer = room.members.find(
+      (member) => member.userId !== currentUser.id && !member.leftAt
+    );
+    if (room.type !== 'direct' || !peer) {
+      return null;
+    }
+
+    const presence = presences.get(peer.userId);
+    return (
+      <PresenceDot
+        status={presence?.status ?? null}
+        customStatus={presence?.customStatus}
+        statusEmoji={presence?.statusEmoji}
+      />
+    );
   };
 
   return (
@@ -98,37 +514,45 @@ export default function ChatInterface({
         <div className="p-4 border-b border-gray-200">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-3">
-              <Avatar className="h-10 w-10 bg-primary text-white">
-                <span className="text-sm w-full font-medium flex items-center justify-center">
-                  {getInitials(currentUser.firstName, currentUser.lastName)}
-                </span>
-              </Avatar>
+              <UserAvatar
+                name={currentUserName}
+                avatarUrl={currentUser.avatarUrl}
+              />
               <div>
-                <p className="font-medium text-sm">
-                  {currentUser.firstName} {currentUser.lastName}
-                </p>
-                <div className="flex items-center space-x-2">
-                  <Circle
-                    className={`h-2 w-2 ${
-                      isConnected
-                        ? 'fill-green-500 text-green-500'
-                        : 'fill-red-500 text-red-500'
-                    }`}
-                  />
-                  <span className="text-xs text-gray-500">
-                    {isConnected ? 'En ligne' : 'Hors ligne'}
-                  </span>
-                </div>
+                <p className="font-medium text-sm">{currentUserName}</p>
+                <StatusMenu
+                  status={status}
+                  presence={ownPresence}
+                  onChange={onSetStatus}
+                />
               </div>
             </div>
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={onLogout}
-              title="Se déconnecter"
-            >
-              <LogOut className="h-4 w-4" />
-            </Button>
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsSearchOpen((open) => !open)}
+                title="Rechercher des messages"
+              >
+                <Search className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onOpenSettings}
+                title="Paramètres"
+              >
+                <Settings className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onLogout}
+                title="Se déconnecter"
+              >
+                <LogOut className="h-4 w-4" />
+              </Button>
+            </div>
           </div>
         </div>
 
@@ -147,20 +571,33 @@ export default function ChatInterface({
                 >
                   <div className="flex items-center justify-between">
                     <div className="flex-1 min-w-0">
-                      <p className="font-medium text-sm truncate">
-                        {room.name}
-                      </p>
+                      <div className="flex items-center space-x-2">
+                        {renderPeerPresence(room)}
+                        <p className="font-medium text-sm truncate">
+                          {room.name}
+                        </p>
+                      </div>
                       {room.lastMessage && (
                         <p className="text-xs text-gray-500 truncate">
                           {room.lastMessage.content}
                         </p>
                       )}
                     </div>
-                    {room.lastMessage && (
-                      <span className="text-xs text-gray-400">
-                        {formatTime(room.lastMessage.createdAt)}
-                      </span>
-                    )}
+                    <div className="flex flex-col items-end space-y-1">
+                      {room.lastMessage && (
+                        <span className="text-xs text-gray-400">
+                          {formatMessageTime(room.lastMessage.createdAt)}
+                        </span>
+                      )}
+                      {!!room.unreadCount && currentRoom?.id !== room.id && (
+                        <span
+                          className="min-w-5 rounded-full bg-primary px-1.5 text-center text-xs font-medium text-white"
+                          aria-label={`${room.unreadCount} non lus`}
+                        >
+                          {room.unreadCount > 99 ? '99+' : room.unreadCount}
+                        </span>
+                      )}
+                    </div>
                   </div>
                 </Card>
               ))}
@@ -172,27 +609,80 @@ export default function ChatInterface({
       <div className="flex-1 flex flex-col">
         {currentRoom ? (
           <>
-            <div className="bg-white border-b border-gray-200 px-6 py-4">
-              <h2 className="text-lg font-semibold">{currentRoom.name}</h2>
-              <p className="text-sm text-gray-500">
-                {currentRoom.type === 'direct'
-                  ? 'Conversation privée'
-                  : 'Groupe'}
-              </p>
+            <div className="flex items-start justify-between bg-white border-b border-gray-200 px-6 py-4">
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  {renderPeerPresence(currentRoom)}
+                  <h2 className="text-lg font-semibold">{currentRoom.name}</h2>
+                </div>
+                <p className="text-sm text-gray-500">
+                  {currentRoom.type === 'direct'
+                    ? 'Conversation privée'
+                    : `Groupe · ${
+                        currentRoom.members.filter((m) => !m.leftAt).length
+                      } membres`}
+                </p>
+                {currentRoom.description && (
+                  <p className="text-xs text-gray-400 truncate">
+                    {currentRoom.description}
+                  </p>
+                )}
+              </div>
+              <PinnedMessagesMenu
+                pins={pins}
+                canUnpin={canPin && isConnected}
+                onSelect={onJumpToPin}
+                onUnpin={handleTogglePin}
+              />
             </div>
 
-            <div className="flex-1 overflow-y-auto px-6 py-4">
+            <div
+              ref={messagesContainerRef}
+              onScroll={handleMessagesScroll}
+              className="flex-1 overflow-y-auto px-6 py-4"
+            >
               <div className="space-y-4">
+                {isLoadingOlderMessages && (
+                  <p className="text-center text-xs text-gray-400">
+                    Chargement...
+                  </p>
+                )}
+
+                {hasMoreMessages && !isLoadingOlderMessages && (
+                  <div className="flex justify-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleLoadOlderMessages}
+                    >
+                      Charger les messages précédents
+                    </Button>
+                  </div>
+                )}
+
                 {messages.map((message) => {
                   const isOwnMessage = message.senderId === currentUser.id;
+                  const { deliveryStatus, clientMessageId } = message;
 
                   return (
                     <div
                       key={message.id}
-                      className={`flex ${
+                      data-message-id={message.id}
+                      className={`flex gap-2 ${
                         isOwnMessage ? 'justify-end' : 'justify-start'
+                      } ${
+                        message.id === focusedMessageId
+                          ? 'rounded-md bg-yellow-50'
+                          : ''
                       }`}
                     >
+                      {!isOwnMessage && (
+                        <UserAvatar
+                          name={message.senderUsername || '?'}
+                          avatarUrl={message.senderAvatar}
+                          className="mt-1 h-8 w-8"
+                        />
+                      )}
                       <div
                         className={`max-w-xs lg:max-w-md ${
                           isOwnMessage ? 'items-end' : 'items-start'
@@ -205,40 +695,272 @@ export default function ChatInterface({
                             </span>
                           )}
                           <span className="text-xs text-gray-400">
-                            {formatTime(message.createdAt)}
+                            {formatMessageTime(message.createdAt)}
                           </span>
+                          {message.isEdited && !message.isDeleted && (
+                            <span className="text-xs text-gray-400">
+                              (modifié)
+                            </span>
+                          )}
+                          {pinnedIds.has(message.id) && (
+                            <Pin
+                              className="h-3 w-3 text-gray-400"
+                              aria-label="Épinglé"
+                            />
+                          )}
                         </div>
-                        <div
-                          className={`rounded-lg px-4 py-2 ${
-                            isOwnMessage
-                              ? 'bg-primary text-white'
-                              : 'bg-gray-100 text-gray-900'
-                          }`}
-                        >
-                          <p className="text-sm whitespace-pre-wrap break-words">
-                            {message.content}
-                          </p>
-                        </div>
+                        {message.isDeleted ? (
+                          <div className="rounded-lg px-4 py-2 border border-dashed border-gray-200">
+                            <p className="text-sm italic text-gray-400">
+                              Ce message a été supprimé
+                            </p>
+                          </div>
+                        ) : editingMessageId === message.id ? (
+                          <form
+                            onSubmit={handleEditMessage}
+                            className="flex space-x-2"
+                          >
+                            <Input
+                              value={editInput}
+                              onChange={(e) => setEditInput(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Escape') {
+                                  cancelEditing();
+                                }
+                              }}
+                              aria-label="Modifier le message"
+                              autoFocus
+                            />
+                            <Button
+                              type="submit"
+                              size="sm"
+                              disabled={!editInput.trim() || !isConnected}
+                            >
+                              Enregistrer
+                            </Button>
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="ghost"
+                              onClick={cancelEditing}
+                            >
+                              Annuler
+                            </Button>
+                          </form>
+                        ) : (
+                          <>
+                            {getMessageCaption(message) !== null && (
+                              <div
+                                className={`rounded-lg px-4 py-2 ${
+                                  isOwnMessage
+                                    ? 'bg-primary text-white'
+                                    : 'bg-gray-100 text-gray-900'
+                                } ${
+                                  deliveryStatus === 'pending'
+                                    ? 'opacity-60'
+                                    : ''
+                                }`}
+                              >
+                                <p className="text-sm whitespace-pre-wrap break-words">
+                                  {message.content}
+                                </p>
+                              </div>
+                            )}
+                            {!!message.attachments?.length && (
+                              <MessageAttachments
+                                messageId={message.id}
+                                attachments={message.attachments}
+                              />
+                            )}
+                          </>
+                        )}
+                        {deliveryStatus && clientMessageId && (
+                          <MessageDeliveryStatus
+                            status={deliveryStatus}
+                            onRetry={() => handleRetryMessage(clientMessageId)}
+                            onDiscard={() =>
+                              handleDiscardMessage(clientMessageId)
+                            }
+                          />
+                        )}
+                        {!message.isDeleted && !deliveryStatus && (
+                          <>
+                            <MessageReactions
+                              reactions={message.reactions || []}
+                              currentUserId={currentUser.id}
+                              disabled={!isConnected}
+                              onAddReaction={(emoji) =>
+                                handleReaction(message.id, emoji, true)
+                              }
+                              onRemoveReaction={(emoji) =>
+                                handleReaction(message.id, emoji, false)
+                              }
+                            />
+                            <div className="mt-1 flex items-center space-x-3">
+                              <button
+                                type="button"
+                                onClick={() => onOpenThread(message)}
+                                className={`flex items-center space-x-1 text-xs hover:underline ${
+                                  message.threadReplyCount
+                                    ? 'text-primary'
+                                    : 'text-gray-400'
+                                }`}
+                              >
+                                <MessageSquare className="h-3 w-3" />
+                                <span>
+                                  {message.threadReplyCount
+                                    ? `${message.threadReplyCount} ${
+                                        message.threadReplyCount > 1
+                                          ? 'réponses'
+                                          : 'réponse'
+                                      }`
+                                    : 'Répondre'}
+                                </span>
+                                {message.threadLastReplyAt && (
+                                  <span className="text-gray-400">
+                                    ·{' '}
+                                    {formatMessageTime(
+                                      message.threadLastReplyAt
+                                    )}
+                                  </span>
+                                )}
+                              </button>
+                              {canPin && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleTogglePin(message.id)}
+                                  disabled={!isConnected}
+                                  title={
+                                    pinnedIds.has(message.id)
+                                      ? 'Désépingler'
+                                      : 'Épingler'
+                                  }
+                                  className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                                >
+                                  {pinnedIds.has(message.id) ? (
+                                    <PinOff className="h-3 w-3" />
+                                  ) : (
+                                    <Pin className="h-3 w-3" />
+                                  )}
+                                </button>
+                              )}
+                              {isOwnMessage && (
+                                <>
+                                  <button
+                                    type="button"
+                                    onClick={() => startEditing(message)}
+                                    disabled={!isConnected}
+                                    title="Modifier"
+                                    className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                                  >
+                                    <Pencil className="h-3 w-3" />
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() => handleDeleteMessage(message)}
+                                    disabled={!isConnected}
+                                    title="Supprimer"
+                                    className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                                  >
+                                    <Trash2 className="h-3 w-3" />
+                                  </button>
+                                </>
+                              )}
+                            </div>
+                          </>
+                        )}
+                        {message.id === lastMessage?.id &&
+                          seenBy.length > 0 && (
+                            <p className="mt-1 text-xs text-gray-400">
+                              {getSeenByLabel()}
+                            </p>
+                          )}
                       </div>
                     </div>
                   );
                 })}
+
+                {isLoadingNewerMessages && (
+                  <p className="text-center text-xs text-gray-400">
+                    Chargement...
+                  </p>
+                )}
+
+                {hasNewerMessages && !isLoadingNewerMessages && (
+                  <div className="flex justify-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={onLoadLatestMessages}
+                    >
+                      Revenir aux messages récents
+                    </Button>
+                  </div>
+                )}
                 <div ref={messagesEndRef} />
               </div>
             </div>
 
-            <div className="bg-white border-t border-gray-200 px-6 py-4">
+            <div className="bg-white border-t border-gray-200 px-6 pt-2 pb-4">
+              <TypingIndicator usernames={typingUsernames} />
+              {pendingFile && (
+                <div className="mb-2 flex w-fit max-w-full items-center space-x-2 rounded-md border bg-gray-50 px-3 py-1 text-sm">
+                  <Paperclip className="h-4 w-4 shrink-0 text-gray-500" />
+                  <span className="truncate">{pendingFile.name}</span>
+                  <span className="shrink-0 text-xs text-gray-500">
+                    {formatFileSize(pendingFile.size)}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setPendingFile(null)}
+                    title="Retirer le fichier"
+                    className="text-gray-400 hover:text-gray-600"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+              {sendError && (
+                <p className="mb-2 text-xs text-red-600">{sendError}</p>
+              )}
               <form onSubmit={handleSendMessage} className="flex space-x-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={ACCEPTED_ATTACHMENT_TYPES}
+                  onChange={handleFileChange}
+                  aria-label="Fichier à joindre"
+                  className="hidden"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isSending || !isConnected}
+                  title="Joindre un fichier"
+                >
+                  <Paperclip className="h-4 w-4" />
+                </Button>
                 <Input
                   value={messageInput}
-                  onChange={(e) => setMessageInput(e.target.value)}
-                  placeholder="Écrivez votre message..."
-                  disabled={isSending || !isConnected}
+                  onChange={(e) => handleMessageInputChange(e.target.value)}
+                  onBlur={onStopTyping}
+                  placeholder={
+                    pendingFile
+                      ? 'Ajoutez une légende...'
+                      : 'Écrivez votre message...'
+                  }
+                  disabled={isSending}
                   className="flex-1"
                 />
                 <Button
                   type="submit"
-                  disabled={isSending || !messageInput.trim() || !isConnected}
+                  disabled={
+                    isSending ||
+                    (!messageInput.trim() && !pendingFile) ||
+                    (!!pendingFile && !isConnected)
+                  }
                 >
                   <Send className="h-4 w-4" />
                 </Button>
@@ -259,6 +981,27 @@ export default function ChatInterface({
           </div>
         )}
       </div>
+
+      {activeThread && (
+        <ThreadPanel
+          thread={activeThread}
+          currentUserId={currentUser.id}
+          isLoading={isLoadingThread}
+          isConnected={isConnected}
+          onClose={onCloseThread}
+          onLoadMore={onLoadMoreThreadReplies}
+          onSendReply={onSendThreadReply}
+        />
+      )}
+
+      {isSearchOpen && (
+        <MessageSearchPanel
+          rooms={rooms}
+          currentUserId={currentUser.id}
+          onClose={() => setIsSearchOpen(false)}
+          onSelectResult={onJumpToMessage}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,173 @@
+import userEvent from '@testing-library/user-event';
+import { render, screen, waitFor } from '@testing-library/react';
+
+import { authApi } from '@/lib/api';
+import { Session, User } from '@shared-types';
+
+import SettingsPage from './Settings';
+
+jest.mock('@/lib/api', () => ({
+  authApi: {
+    getSessions: jest.fn(),
+    revokeSession: jest.fn(),
+    disableMfa: jest.fn(),
+  },
+  usersApi: {
+    updateProfile: jest.fn(),
+    uploadAvatar: jest.fn(),
+    removeAvatar: jest.fn(),
+    changePassword: jest.fn(),
+    changeEmail: jest.fn(),
+  },
+  getAvatarSrc: jest.fn(),
+}));
+
+const currentSession: Session = {
+  id: 'session1',
+  device: 'Firefox (Linux)',
+  ipAddress: '127.0.0.1',
+  userAgent: 'Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Firefox/128.0',
+  createdAt: '2024-01-01T10:00:00.000Z',
+  lastUsedAt: '2024-01-02T10:00:00.000Z',
+  isCurrent: true,
+};
+
+const currentUser: User = {
+  id: 'user1',
+  email: 'test@example.com',
+  firstName: 'John',
+  lastName: 'Doe',
+  mfaEnabled: true,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+const otherSession: Session = {
+  id: 'session2',
+  device: 'Safari (iOS)',
+  ipAddress: '10.0.0.2',
+  userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X)',
+  createdAt: '2024-01-01T08:00:00.000Z',
+  lastUsedAt: '2024-01-01T09:00:00.000Z',
+  isCurrent: false,
+};
+
+describe('SettingsPage', () => {
+  const mockOnNavigateBack = jest.fn();
+  const mockOnUserUpdated = jest.fn();
+  const mockOnDeleteAccount = jest.fn();
+
+  const renderSettings = () =>
+    render(
+      <SettingsPage
+        currentUser={currentUser}
+        onUserUpdated={mockOnUserUpdated}
+        onDeleteAccount={mockOnDeleteAccount}
+        onNavigateBack={mockOnNavigateBack}
+      />
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (authApi.getSessions as jest.Mock).mockResolvedValue({
+      data: [currentSession, otherSession],
+    });
+    (authApi.revokeSession as jest.Mock).mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should list the active sessions and flag the current one', async () => {
+    renderSettings();
+
+    expect(await screen.findByText('Firefox (Linux)')).toBeInTheDocument();
+    expect(screen.getByText('Safari (iOS)')).toBeInTheDocument();
+    expect(screen.getByText('Cette session')).toBeInTheDocument();
+    expect(screen.getAllByRole('button', { name: 'Déconnecter' })).toHaveLength(
+      1
+    );
+  });
+
+  it('should revoke a session and remove it from the list', async () => {
+    const user = userEvent.setup();
+    renderSettings();
+
+    await user.click(
+      await screen.findByRole('button', { name: 'Déconnecter' })
+    );
+
+    expect(authApi.revokeSession).toHaveBeenCalledWith('session2');
+    await waitFor(() => {
+      expect(screen.queryByText('Safari (iOS)')).not.toBeInTheDocument();
+    });
+    expect(screen.getByText('Firefox (Linux)')).toBeInTheDocument();
+  });
+
+  it('should keep a session that could not be revoked', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    (authApi.revokeSession as jest.Mock).mockRejectedValue(
+      new Error('Not found')
+    );
+    const user = userEvent.setup();
+    renderSettings();
+
+    await user.click(
+      await screen.findByRole('button', { name: 'Déconnecter' })
+    );
+
+    await waitFor(() => {
+      expect(
+        screen.getByRole('button', { name: 'Déconnecter' })
+      ).not.toBeDisabled();
+    });
+    expect(screen.getByText('Safari (iOS)')).toBeInTheDocument();
+  });
+
+  it('should tell when the sessions cannot be loaded', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    (authApi.getSessions as jest.Mock).mockRejectedValue(
+      new Error('Network error')
+    );
+
+    renderSettings();
+
+    expect(
+      await screen.findByText('Impossible de charger les sessions')
+    ).toBeInTheDocument();
+  });
+
+  it('should update the user once two-factor authentication is disabled', async () => {
+    (authApi.disableMfa as jest.Mock).mockResolvedValue({});
+    const user = userEvent.setup();
+    renderSettings();
+
+    await user.click(screen.getByRole('button', { name: 'Désactiver' }));
+    await user.type(
+      screen.getByLabelText(
+        'Code de votre application ou code de récupération'
+      ),
+      '123456'
+    );
+    await user.click(screen.getByRole('button', { name: 'Désactiver' }));
+
+    await waitFor(() => {
+      expect(mockOnUserUpdated).toHaveBeenCalledWith({
+        ...currentUser,
+        mfaEnabled: false,
+      });
+    });
+  });
+
+  it('should navigate back to the conversations', async () => {
+    const user = userEvent.setup();
+    renderSettings();
+
+    await user.click(
+      screen.getByRole('button', { name: 'Retour aux conversations' })
+    );
+
+    expect(mockOnNavigateBack).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, Monitor } from 'lucide-react';
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  CardDescription,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import ProfileCard from '@/components/settings/ProfileCard';
+import AccountCard from '@/components/settings/AccountCard';
+import TwoFactorCard from '@/components/settings/TwoFactorCard';
+import { Session, User } from '@shared-types';
+import { authApi } from '@/lib/api';
+import { formatMessageTime } from '@/lib/utils';
+
+interface SettingsPageProps {
+  currentUser: User;
+  onUserUpdated: (user: User) => void;
+  onDeleteAccount: (password: string) => Promise<void>;
+  onNavigateBack: () => void;
+}
+
+export default function SettingsPage({
+  currentUser,
+  onUserUpdated,
+  onDeleteAccount,
+  onNavigateBack,
+}: SettingsPageProps) {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasFailed, setHasFailed] = useState(false);
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(
+    null
+  );
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    authApi
+      .getSessions()
+      .then((response) => {
+        if (!isCancelled) {
+          setSessions(response.data);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load sessions:', error);
+        if (!isCancelled) {
+          setHasFailed(true);
+        }
+      })
+      .finally(() => {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const handleRevoke = async (sessionId: string) => {
+    setRevokingSessionId(sessionId);
+    try {
+      await authApi.revokeSession(sessionId);
+      setSessions((current) =>
+        current.filter((session) => session.id !== sessionId)
+      );
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+    } finally {
+      setRevokingSessionId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="mx-auto w-full max-w-2xl space-y-4 px-4">
+        <Button variant="ghost" onClick={onNavigateBack}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Retour aux conversations
+        </Button>
+
+        <ProfileCard currentUser={currentUser} onUserUpdated={onUserUpdated} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl font-bold">
+              Sessions actives
+            </CardTitle>
+            <CardDescription>
+              Appareils sur lesquels vous êtes connecté. Déconnectez ceux que
+              vous ne reconnaissez pas.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Chargement...</p>
+            ) : hasFailed ? (
+              <p className="text-sm text-red-600">
+                Impossible de charger les sessions
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {sessions.map((session) => (
+                  <li
+                    key={session.id}
+                    className="flex items-center justify-between py-3"
+                  >
+                    <div className="flex min-w-0 items-center space-x-3">
+                      <Monitor className="h-5 w-5 shrink-0 text-gray-500" />
+                      <div className="min-w-0">
+                        <p className="flex items-center text-sm font-medium text-gray-900">
+                          {session.device}
+                          {session.isCurrent && (
+                            <span className="ml-2 rounded bg-green-100 px-1.5 py-0.5 text-xs font-normal text-green-700">
+                              Cette session
+                            </span>
+                          )}
+                        </p>
+                        <p
+                          className="truncate text-xs text-gray-500"
+                          title={session.userAgent ?? undefined}
+                        >
+                          {session.ipAddress ?? 'Adresse IP inconnue'} ·
+                          Dernière activité{' '}
+                          {formatMessageTime(session.lastUsedAt)}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          Connecté le {formatMessageTime(session.createdAt)}
+                        </p>
+                      </div>
+                    </div>
+                    {!session.isCurrent && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRevoke(session.id)}
+                        disabled={revokingSessionId === session.id}
+                      >
+                        Déconnecter
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <TwoFactorCard
+          isEnabled={!!currentUser.mfaEnabled}
+          onEnabledChange={(mfaEnabled) =>
+            onUserUpdated({ ...currentUser, mfaEnabled })
+          }
+        />
+
+        <AccountCard
+          currentEmail={currentUser.email}
+          onDeleteAccount={onDeleteAccount}
+        />
+      </div>
+    </div>
+  );
+}
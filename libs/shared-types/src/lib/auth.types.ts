@@ -41,20 +41,149 @@ export interface RegisterCredentials {
   lastName: string;
 }
 
+/**
+ * Successful registration response
+ * 
+ * Returned by POST /auth/register. No tokens are issued: the account
+ * can log in once its address is verified with the emailed link
+ */
+export interface RegisterResponse {
+  /** Confirmation message */
+  message: string;
+  
+  /** Address the verification email was sent to */
+  email: string;
+}
+
 /**
  * Successful authentication response
  * 
  * Returned by:
  * - POST /auth/login
- * - POST /auth/register
  * - POST /auth/refresh
  * 
- * The JWT token contains the user ID and expires after 24h
+ * The JWT token contains the user ID and expires after 24h.
+ * The refresh token is single-use: each refresh returns a new one
  */
 export interface AuthResponse {
   /** JWT token to authenticate future requests */
   accessToken: string;
   
+  /** Token type, always 'Bearer' */
+  tokenType: string;
+  
+  /** Access token lifetime in seconds */
+  expiresIn: number;
+  
+  /** Opaque token exchanged on POST /auth/refresh for new tokens */
+  refreshToken: string;
+  
+  /** Refresh token lifetime in seconds */
+  refreshExpiresIn: number;
+  
   /** Public information of the logged-in user */
   user: User;
+}
+
+/**
+ * Login response when two-factor authentication is enabled
+ * 
+ * Returned by POST /auth/login instead of AuthResponse. The token is
+ * exchanged with a code on POST /auth/mfa/verify for an AuthResponse
+ */
+export interface MfaChallenge {
+  /** Always true, tells the challenge apart from an AuthResponse */
+  mfaRequired: true;
+  
+  /** Short-lived token sent back with the code */
+  mfaToken: string;
+  
+  /** Token lifetime in seconds */
+  expiresIn: number;
+}
+
+/**
+ * Response of POST /auth/login
+ */
+export type LoginResponse = AuthResponse | MfaChallenge;
+
+/**
+ * Two-factor authentication enrollment
+ * 
+ * Returned by POST /auth/mfa/enroll, confirmed with a first code on
+ * POST /auth/mfa/confirm
+ */
+export interface MfaEnrollment {
+  /** TOTP secret (base32), typed in the authenticator app */
+  secret: string;
+  
+  /** otpauth URI, scanned as a QR code or opened on mobile */
+  otpauthUri: string;
+}
+
+/**
+ * Recovery codes, returned once by POST /auth/mfa/confirm
+ * 
+ * Each one replaces a code of the authenticator app once
+ */
+export interface MfaRecoveryCodes {
+  recoveryCodes: string[];
+}
+
+/**
+ * Single sign-on configuration
+ * 
+ * Returned by GET /auth/oidc, tells the login page whether to offer
+ * the identity provider of the company
+ */
+export interface OidcConfiguration {
+  /** Whether an OpenID Connect provider is configured */
+  enabled: boolean;
+  
+  /** Name of the provider shown on the login button */
+  providerName: string;
+}
+
+/**
+ * Start of a single sign-on
+ * 
+ * Returned by GET /auth/oidc/authorize. The browser is sent to the
+ * authorization URL, the flow token is kept until the provider redirects
+ * back and posted with the code on POST /auth/oidc/callback
+ */
+export interface OidcAuthorization {
+  /** Login page of the identity provider */
+  authorizationUrl: string;
+  
+  /** Signed state, nonce and PKCE verifier of the request */
+  flowToken: string;
+}
+
+/**
+ * Device a user is signed in on
+ * 
+ * Returned by GET /auth/sessions, most recently used first.
+ * A session lasts from login to logout or revocation, across token refreshes
+ */
+export interface Session {
+  /** Session identifier, used by DELETE /auth/sessions/:id */
+  id: string;
+  
+  /** Browser and operating system, e.g. "Firefox (Linux)" */
+  device: string;
+  
+  /** IP address of the last login or refresh */
+  ipAddress: string | null;
+  
+  /** Raw user agent of the device */
+  userAgent: string | null;
+  
+  /** Login date (ISO 8601) */
+  createdAt: string;
+  
+  /** Date of the last login or refresh (ISO 8601) */
+  lastUsedAt: string;
+  
+  /** Whether this is the session of the current request */
+  isCurrent: boolean;
 }
\ No newline at end of file
@@ -1,7 +1,7 @@
 /**
  * Supported message types in the system
  */
-export type MessageType = 'text' | 'image';
+export type MessageType = 'text' | 'image' | 'file';
 
 /**
  * Message type enum for type-safe usage
@@ -9,8 +9,10 @@ export type MessageType = 'text' | 'image';
 export enum MessageTypeEnum {
   /** Standard text message */
   TEXT = 'text',
-  /** Message containing an image (not implemented) */
+  /** Message carrying an image attachment, previewed inline */
   IMAGE = 'image',
+  /** Message carrying any other file attachment */
+  FILE = 'file',
 }
 
 /**
@@ -22,7 +24,6 @@ export enum MessageTypeEnum {
  * - API responses for history
  * 
  * Corresponds to Message schema in MongoDB
- * Note: Simplified version without isEdited/isDeleted fields
  */
 export interface Message {
   /** Unique message identifier (MongoDB ObjectId) */
@@ -48,4 +49,188 @@ export interface Message {
   
   /** Sender's username (denormalized for performance) */
   senderUsername: string;
+  
+  /** Sender's avatar URL, relative to the API (denormalized, if any) */
+  senderAvatar?: string;
+  
+  /** ID generated by the sending client, if it gave one */
+  clientMessageId?: string;
+  
+  /** ObjectId of the parent message (thread replies only) */
+  parentMessageId?: string;
+  
+  /** Number of replies in the thread started by this message */
+  threadReplyCount?: number;
+  
+  /** Date of the latest thread reply (ISO 8601 format) */
+  threadLastReplyAt?: string;
+  
+  /** Emoji reactions, one entry per emoji */
+  reactions?: MessageReaction[];
+  
+  /** Attached files, content holds the caption (image and file messages) */
+  attachments?: MessageAttachment[];
+  
+  /** Whether the content was edited after sending */
+  isEdited?: boolean;
+  
+  /** Last edit date (ISO 8601 format) */
+  editedAt?: string;
+  
+  /** Whether the message was deleted (rendered as a tombstone) */
+  isDeleted?: boolean;
+  
+  /** Deletion date (ISO 8601 format) */
+  deletedAt?: string;
+}
+
+/**
+ * Interface representing the users who reacted to a message with an emoji
+ * 
+ * Used for:
+ * - Reaction chips under messages
+ * - Real-time reaction updates
+ */
+export interface MessageReaction {
+  /** Reaction emoji */
+  emoji: string;
+  
+  /** UUIDs of the users who reacted with this emoji */
+  userIds: string[];
+}
+
+/**
+ * Interface representing the metadata of a file attached to a message
+ * 
+ * Used for:
+ * - Image previews and file chips under messages
+ * - Attachment downloads (GET /messages/:id/attachments/:attachmentId)
+ */
+export interface MessageAttachment {
+  /** Attachment UUID */
+  id: string;
+  
+  /** Original file name */
+  fileName: string;
+  
+  /** MIME type of the file */
+  mimeType: string;
+  
+  /** Size of the file in bytes */
+  size: number;
+}
+
+/**
+ * Interface representing a page of a message thread
+ * 
+ * Used for:
+ * - Thread side panel display
+ * - API responses for thread replies
+ */
+export interface MessageThread {
+  /** Message starting the thread */
+  parent: Message;
+  
+  /** Page of replies, oldest first */
+  replies: Message[];
+  
+  /** Whether more replies are available after this page */
+  hasMore: boolean;
+}
+
+/**
+ * Interface representing a cursor-paginated page of room messages
+ * 
+ * Used for:
+ * - Message history loading (infinite scroll)
+ * - API responses for room messages
+ */
+export interface MessagePage {
+  /** Page of messages, oldest first */
+  items: Message[];
+  
+  /** Opaque cursor to request the next page, null when there is none */
+  nextCursor: string | null;
+  
+  /** Whether more messages are available beyond this page */
+  hasMore: boolean;
+}
+
+/**
+ * Interface representing the filters of a message search
+ * 
+ * Used for:
+ * - Search panel form state
+ * - API requests for message search
+ */
+export interface MessageSearchParams {
+  /** Words to search for, "quoted phrases" and -excluded words are supported */
+  q: string;
+  
+  /** Only search the messages of this room */
+  roomId?: string;
+  
+  /** Only search the messages sent by this user */
+  senderId?: string;
+  
+  /** Only search the messages sent from this date (ISO 8601 format) */
+  from?: string;
+  
+  /** Only search the messages sent until this date (ISO 8601 format) */
+  to?: string;
+  
+  /** Number of results to retrieve */
+  limit?: number;
+}
+
+/**
+ * Interface representing a highlighted range of a search snippet
+ * 
+ * Used for:
+ * - Highlighting the matching terms in search results
+ */
+export interface TextHighlight {
+  /** Index of the first highlighted character in the snippet */
+  offset: number;
+  
+  /** Number of highlighted characters */
+  length: number;
+}
+
+/**
+ * Interface representing a message matching a search
+ * 
+ * Used for:
+ * - Search panel results
+ * - Jumping to the matching message in its room
+ */
+export interface MessageSearchResult {
+  /** Matching message */
+  message: Message;
+  
+  /** Message starting the thread when the match is a reply */
+  parent?: Message;
+  
+  /** Excerpt of the content around the first match */
+  snippet: string;
+  
+  /** Ranges of the snippet matching the search terms */
+  highlights: TextHighlight[];
+  
+  /** Opaque cursor of the room message to jump to (the thread parent for replies) */
+  cursor: string;
+}
+
+/**
+ * Interface representing the results of a message search
+ * 
+ * Used for:
+ * - API responses for message search
+ */
+export interface MessageSearchResults {
+  /** Matching messages, most relevant first */
+  items: MessageSearchResult[];
+  
+  /** Whether more results are available beyond the limit */
+  hasMore: boolean;
 }
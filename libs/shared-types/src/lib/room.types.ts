@@ -2,9 +2,9 @@ import { Message } from './message.types.js';
 
 /**
  * Supported chat room types
- * Currently limited to direct chats (1-to-1)
+ * Direct chats (1-to-1) and named group rooms
  */
-export type RoomType = 'direct';
+export type RoomType = 'direct' | 'group';
 
 /**
  * Room type enum for type-safe usage
@@ -12,14 +12,17 @@ export type RoomType = 'direct';
 export enum RoomTypeEnum {
   /** Direct chat between two users */
   DIRECT = 'direct',
-  // GROUP = 'group', // Future: group rooms
+  /** Named chat room shared by several users */
+  GROUP = 'group',
 }
 
 /**
  * Possible member roles in a room
  */
 export enum MemberRoleEnum {
-  /** Room administrator/creator */
+  /** Room owner (creator, unless ownership was transferred) */
+  OWNER = 'owner',
+  /** Room administrator, can manage regular members */
   ADMIN = 'admin',
   /** Standard member */
   MEMBER = 'member',
@@ -42,18 +45,27 @@ export interface Room {
   /** Room name (concatenated usernames for DIRECT) */
   name: string;
   
-  /** Room type (currently only 'direct') */
+  /** Room type ('direct' or 'group') */
   type: RoomType;
   
+  /** Optional room description (mainly for groups) */
+  description?: string;
+  
   /** Creator's UUID (references User.id) */
   createdBy: string;
   
   /** List of room members */
   members: RoomMember[];
   
+  /** Messages pinned to the room, most recently pinned last */
+  pinnedMessages?: PinnedMessage[];
+  
   /** Last room message (for preview) */
   lastMessage?: Message;
   
+  /** Number of messages from other members not read yet (room list only) */
+  unreadCount?: number;
+  
   /** Creation date (ISO 8601 format) */
   createdAt: string;
   
@@ -81,4 +93,85 @@ export interface RoomMember {
   
   /** Role in the room */
   role: MemberRoleEnum;
+  
+  /** ObjectId of the latest message read by the member */
+  lastReadMessageId?: string;
+  
+  /** Timestamp of the latest message read by the member (ISO 8601 format) */
+  lastReadAt?: string;
+}
+
+/**
+ * Interface representing a message pinned to a room
+ * 
+ * Used for:
+ * - Marking pinned messages in the conversation
+ */
+export interface PinnedMessage {
+  /** ObjectId of the pinned message */
+  messageId: string;
+  
+  /** UUID of the member who pinned the message */
+  pinnedBy: string;
+  
+  /** Pin date (ISO 8601 format) */
+  pinnedAt: string;
+}
+
+/**
+ * Interface representing a pinned message with its content
+ * 
+ * Used for:
+ * - GET /messages/rooms/:id/pins response
+ * - Room header pins dropdown
+ */
+export interface RoomPin extends PinnedMessage {
+  /** Pinned message */
+  message: Message;
+  
+  /** Opaque cursor to load the room history around the pinned message */
+  cursor: string;
+}
+
+/**
+ * Required information to create a group room
+ * 
+ * Used for:
+ * - POST /messages/rooms/group request
+ * 
+ * The creator is added automatically and must not be listed
+ */
+export interface CreateGroupRoomData {
+  /** Group name (1-100 characters) */
+  name: string;
+  
+  /** Optional group description (max 500 characters) */
+  description?: string;
+  
+  /** UUIDs of the initial members */
+  memberIds: string[];
+}
+
+/**
+ * Changes a client missed since its previous sync
+ * 
+ * Used for:
+ * - GET /messages/sync response
+ * - Catching up after a reconnection
+ */
+export interface MessageSync {
+  /** Messages created, edited or deleted since the previous sync, least recently changed first */
+  messages: Message[];
+  
+  /** Rooms the user joined or that changed since the previous sync */
+  rooms: Room[];
+  
+  /** IDs of the rooms the user left, was removed from or that were deleted */
+  removedRoomIds: string[];
+  
+  /** Whether more messages changed than returned, the client should then reload */
+  hasMore: boolean;
+  
+  /** Date to send as `since` on the next sync (ISO 8601 format) */
+  syncedAt: string;
 }
@@ -21,6 +21,21 @@ export interface User {
   /** User's last name */
   lastName: string;
   
+  /** Name shown instead of the full name (null = full name shown) */
+  displayName?: string | null;
+  
+  /** Avatar URL, relative to the API (null = initials shown) */
+  avatarUrl?: string | null;
+  
+  /** Short presentation */
+  bio?: string | null;
+  
+  /** IANA time zone, e.g. Europe/Paris (null = browser time zone) */
+  timezone?: string | null;
+  
+  /** Preferred language as a BCP 47 tag, e.g. fr-FR (null = browser language) */
+  locale?: string | null;
+  
   /** Account creation date (ISO 8601 format) */
   createdAt: string;
   
@@ -32,6 +47,41 @@ export interface User {
   
   /** Administrator privileges (true = admin, false = standard user) */
   isAdmin?: boolean;
+  
+  /** Whether login asks for a code of an authenticator app */
+  mfaEnabled?: boolean;
+}
+
+/**
+ * Data sent by users to update their own profile
+ * 
+ * Only the fields sent are changed, null clearing an optional field
+ */
+export interface UpdateProfileData {
+  firstName?: string;
+  lastName?: string;
+  displayName?: string | null;
+  bio?: string | null;
+  timezone?: string | null;
+  locale?: string | null;
+}
+
+/**
+ * Data sent by users to change their own password
+ */
+export interface ChangePasswordData {
+  currentPassword: string;
+  newPassword: string;
+}
+
+/**
+ * Data sent by users to change their email address
+ * 
+ * The new address is only used once confirmed with the link sent to it
+ */
+export interface ChangeEmailData {
+  email: string;
+  password: string;
 }
 
 /**
@@ -53,4 +103,31 @@ export interface OnlineUser {
   
   /** Connection date/time */
   connectedAt: Date;
+}
+
+/**
+ * Presence status of a connected user
+ * 
+ * 'invisible' is only seen by the user themselves,
+ * the other users see them offline
+ */
+export type PresenceStatus = 'online' | 'away' | 'busy' | 'invisible';
+
+/**
+ * Presence of a connected user as shown to the other users
+ * 
+ * Returned by 'getOnlineUsers' and sent with 'presenceUpdated'
+ */
+export interface UserPresence {
+  /** UUID of the user */
+  userId: string;
+  
+  /** Displayed status, 'away' for idle users who chose 'online' */
+  status: PresenceStatus;
+  
+  /** Optional status text (max 100 characters) */
+  customStatus?: string;
+  
+  /** Optional emoji shown next to the status text */
+  statusEmoji?: string;
 }
\ No newline at end of file
@@ -1,4 +1,6 @@
-import { Message, MessageType } from './message.types.js';
+import { Message, MessageReaction, MessageType } from './message.types.js';
+import { PresenceStatus, UserPresence } from './user.types.js';
+import { Room, RoomPin } from './room.types.js';
 
 /**
  * WebSocket event interfaces for real-time communication
@@ -38,6 +40,109 @@ export interface WsSendMessageData {
   
   /** Type of message content */
   messageType: MessageType;
+  
+  /** ID generated by the client, a resent message is only stored once */
+  clientMessageId?: string;
+}
+
+/**
+ * Data for replying in a message thread
+ * Event: 'sendThreadReply'
+ */
+export interface WsSendThreadReplyData extends WsSendMessageData {
+  /** ObjectId of the message starting the thread */
+  parentMessageId: string;
+}
+
+/**
+ * Data for signaling that the user is composing a message
+ * Events: 'typingStart', 'typingStop'
+ */
+export interface WsTypingData {
+  /** ObjectId of the room where the user is typing */
+  roomId: string;
+}
+
+/**
+ * Data for marking a room as read
+ * Event: 'markRead'
+ */
+export interface WsMarkReadData {
+  /** ObjectId of the room to mark as read */
+  roomId: string;
+  
+  /** ObjectId of the last read message (defaults to the latest one) */
+  messageId?: string;
+}
+
+/**
+ * Data for editing a message
+ * Event: 'editMessage'
+ */
+export interface WsEditMessageData {
+  /** ObjectId of the message to edit */
+  messageId: string;
+  
+  /** New message content (max 2000 characters) */
+  content: string;
+}
+
+/**
+ * Data for deleting a message
+ * Event: 'deleteMessage'
+ */
+export interface WsDeleteMessageData {
+  /** ObjectId of the message to delete */
+  messageId: string;
+}
+
+/**
+ * Data for adding or removing a reaction on a message
+ * Events: 'addReaction', 'removeReaction'
+ */
+export interface WsReactionData {
+  /** ObjectId of the message */
+  messageId: string;
+  
+  /** Emoji to add or remove */
+  emoji: string;
+}
+
+/**
+ * Data for pinning or unpinning a message
+ * Events: 'pinMessage', 'unpinMessage'
+ */
+export interface WsPinMessageData {
+  /** ObjectId of the message */
+  messageId: string;
+}
+
+/**
+ * Data for choosing a presence status
+ * Event: 'setStatus'
+ * 
+ * The custom text and emoji are cleared when omitted
+ */
+export interface WsSetStatusData {
+  /** Status chosen by the user */
+  status: PresenceStatus;
+  
+  /** Optional status text (max 100 characters) */
+  customStatus?: string;
+  
+  /** Optional emoji shown next to the status text */
+  statusEmoji?: string;
+}
+
+/**
+ * Data for reporting the activity of the user
+ * Event: 'reportActivity'
+ * 
+ * Sent periodically, the server decides when the user is away
+ */
+export interface WsReportActivityData {
+  /** Seconds elapsed since the last user interaction */
+  idleSeconds: number;
 }
 
 /**
@@ -50,17 +155,30 @@ export interface WsUserConnectedData {
   
   /** Username for display purposes */
   username: string;
+  
+  /** Status the user connected with */
+  status: PresenceStatus;
 }
 
 /**
  * Notification when a user disconnects from the system
  * Event: 'userDisconnected'
+ * 
+ * Also sent to the other users when a user goes invisible
  */
 export interface WsUserDisconnectedData {
   /** UUID of the disconnected user */
   userId: string;
 }
 
+/**
+ * Notification when the presence of a user changes
+ * Event: 'presenceUpdated'
+ * 
+ * Only sent to the user themselves when they go invisible
+ */
+export type WsPresenceUpdatedData = UserPresence;
+
 /**
  * Notification when a user joins a specific room
  * Event: 'userJoinedRoom'
@@ -88,6 +206,27 @@ export interface WsUserLeftRoomData {
   roomId: string;
 }
 
+/**
+ * Notification when a user starts or stops typing in a room
+ * Event: 'userTyping'
+ * 
+ * Not sent back to the typing user. The server sends isTyping false
+ * when the indicator expires without a new typingStart
+ */
+export interface WsUserTypingData {
+  /** UUID of the typing user */
+  userId: string;
+  
+  /** Username for display purposes */
+  username: string;
+  
+  /** ObjectId of the room */
+  roomId: string;
+  
+  /** Whether the user is currently typing */
+  isTyping: boolean;
+}
+
 /**
  * Enhanced message data sent to clients
  * Event: 'newMessage'
@@ -104,4 +243,133 @@ export interface WsNewMessageData extends Message {
     /** Username of the sender */
     username: string;
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Thread reply data sent to clients
+ * Event: 'newThreadReply'
+ * 
+ * Same shape as a new message, with parentMessageId set
+ * so clients can update the parent's reply count
+ */
+export type WsNewThreadReplyData = WsNewMessageData;
+
+/**
+ * Notification when a member reads a room
+ * Event: 'messagesRead'
+ * 
+ * Also sent to the reader's own connections so they can clear their badges
+ */
+export interface WsMessagesReadData {
+  /** ObjectId of the room */
+  roomId: string;
+  
+  /** UUID of the member who read the room */
+  userId: string;
+  
+  /** ObjectId of the latest message read by the member */
+  lastReadMessageId?: string;
+  
+  /** Timestamp of the latest message read by the member (ISO 8601 format) */
+  lastReadAt?: string;
+}
+
+/**
+ * Edited message data sent to clients
+ * Event: 'messageUpdated'
+ * 
+ * Full message with its new content and edit metadata
+ */
+export type WsMessageUpdatedData = Message;
+
+/**
+ * Notification when a message is deleted
+ * Event: 'messageDeleted'
+ * 
+ * The deleted content is never sent to clients
+ */
+export interface WsMessageDeletedData {
+  /** ObjectId of the deleted message */
+  messageId: string;
+  
+  /** ObjectId of the room containing the message */
+  roomId: string;
+  
+  /** ObjectId of the parent message (thread replies only) */
+  parentMessageId?: string;
+  
+  /** Deletion date (ISO 8601 format) */
+  deletedAt: string;
+}
+
+/**
+ * Notification when the reactions of a message change
+ * Event: 'messageReactionUpdated'
+ * 
+ * Carries the full reaction list so clients can replace it
+ */
+export interface WsMessageReactionUpdatedData {
+  /** ObjectId of the message */
+  messageId: string;
+  
+  /** ObjectId of the room containing the message */
+  roomId: string;
+  
+  /** Current reactions on the message */
+  reactions: MessageReaction[];
+}
+
+/**
+ * Notification when a message is pinned to its room
+ * Event: 'messagePinned'
+ */
+export interface WsMessagePinnedData extends RoomPin {
+  /** ObjectId of the room containing the message */
+  roomId: string;
+}
+
+/**
+ * Notification when a message is unpinned from its room
+ * Event: 'messageUnpinned'
+ * 
+ * Deleted messages are unpinned without this notification
+ */
+export interface WsMessageUnpinnedData {
+  /** ObjectId of the unpinned message */
+  messageId: string;
+  
+  /** ObjectId of the room containing the message */
+  roomId: string;
+}
+
+/**
+ * Notification when the roles of the room members change, a member being
+ * promoted or demoted or the ownership being transferred
+ * Event: 'roomUpdated'
+ */
+export interface WsRoomUpdatedData {
+  /** The room with its updated members */
+  room: Room;
+}
+
+/**
+ * Error sent back when a WebSocket event is rejected
+ * Event: 'exception'
+ * 
+ * Events sent faster than their rate limit carry the code RATE_LIMITED
+ */
+export interface WsExceptionData {
+  status: 'error';
+  
+  /** Reason of the rejection */
+  message: string;
+  
+  /** Machine-readable reason, when there is one */
+  code?: 'RATE_LIMITED';
+  
+  /** Event that was rejected, e.g. 'sendMessage' */
+  event?: string;
+  
+  /** Milliseconds before the event is accepted again */
+  retryAfterMs?: number;
+}